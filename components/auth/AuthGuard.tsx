@@ -2,6 +2,7 @@
 
 import { ReactNode } from 'react';
 import { useAuth } from '@/lib/auth/context';
+import { AUTH_BYPASS } from '@/lib/config/environment';
 
 interface AuthGuardProps {
   children: ReactNode;
@@ -13,9 +14,7 @@ export function AuthGuard({ children, fallback }: AuthGuardProps) {
   const { user, loading } = useAuth();
 
   // 開発環境での認証バイパス
-  const bypassAuth = process.env.NODE_ENV === 'development' && process.env.NEXT_PUBLIC_BYPASS_AUTH === 'true';
-  
-  if (bypassAuth) {
+  if (AUTH_BYPASS.enabled) {
     return <>{children}</>;
   }
 
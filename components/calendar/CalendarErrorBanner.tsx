@@ -2,6 +2,7 @@
 
 import React from 'react';
 import { CalendarError } from '@/lib/services/calendarErrorHandler';
+import { SyncItemResult } from '@/lib/services/calendarOfflineManager';
 
 interface CalendarErrorBannerProps {
   error: CalendarError;
@@ -11,8 +12,21 @@ interface CalendarErrorBannerProps {
   onRetry?: () => void;
   onDismiss?: () => void;
   recoverySteps?: string[];
+  syncResults?: SyncItemResult[];
 }
 
+const SYNC_OPERATION_LABELS: Record<SyncItemResult['type'], string> = {
+  CREATE: '作成',
+  UPDATE: '更新',
+  DELETE: '削除',
+};
+
+const SYNC_STATUS_LABELS: Partial<Record<SyncItemResult['status'], string>> = {
+  conflict: '競合',
+  failed: '失敗',
+  retrying: '再送待ち',
+};
+
 /**
  * カレンダー同期エラーを表示するバナーコンポーネント
  * ユーザーフレンドリーなエラーメッセージと回復手順を表示
@@ -25,7 +39,10 @@ export function CalendarErrorBanner({
   onRetry,
   onDismiss,
   recoverySteps = [],
+  syncResults = [],
 }: CalendarErrorBannerProps) {
+  const problemResults = syncResults.filter(result => SYNC_STATUS_LABELS[result.status]);
+
   const getErrorSeverity = (errorCode: string) => {
     switch (errorCode) {
       case 'NETWORK_ERROR':
@@ -37,6 +54,8 @@ export function CalendarErrorBanner({
         return 'info';
       case 'NO_CALENDAR':
         return 'warning';
+      case 'SYNC_QUEUE_FAILED':
+        return 'warning';
       case 'SERVER_ERROR':
       case 'DATABASE_ERROR':
         return 'error';
@@ -165,6 +184,24 @@ export function CalendarErrorBanner({
             </div>
           )}
           
+          {problemResults.length > 0 && (
+            <ul className="mt-2 text-xs text-gray-700 space-y-1">
+              {problemResults.map(result => (
+                <li key={result.queueId} className="flex items-start">
+                  <span className={`inline-block px-1.5 mr-2 rounded ${
+                    result.status === 'conflict' ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-700'
+                  }`}>
+                    {SYNC_STATUS_LABELS[result.status]}
+                  </span>
+                  <span>
+                    {result.title || '（無題のイベント）'}の{SYNC_OPERATION_LABELS[result.type]}
+                    {result.error && <span className="text-gray-500"> - {result.error}</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          
           {recoverySteps.length > 0 && (
             <div className="mt-3">
               <p className="text-xs font-medium text-gray-700 mb-1">解決方法:</p>
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { GoogleCalendarEvent } from '@/types/shared';
+import { CalendarProviderEvent } from '@/types/shared';
+import { CALENDAR_PROVIDER_LABELS } from '@/lib/calendar/provider';
 import { useCalendarSync } from '@/lib/hooks/useCalendarSync';
 import { CalendarErrorBanner } from './CalendarErrorBanner';
 
@@ -10,7 +11,7 @@ interface CalendarEventListProps {
   startDate?: string;
   endDate?: string;
   maxResults?: number;
-  onEventsFetch?: (events: GoogleCalendarEvent[]) => void;
+  onEventsFetch?: (events: CalendarProviderEvent[]) => void;
 }
 
 export function CalendarEventList({ 
@@ -32,6 +33,7 @@ export function CalendarEventList({
     isOffline,
     usingCachedData,
     retryCount,
+    syncResults,
     syncEvents,
     syncTodayEvents,
     syncMonthEvents,
@@ -164,6 +166,7 @@ export function CalendarEventList({
           onRetry={retrySync}
           onDismiss={() => setShowErrorBanner(false)}
           recoverySteps={getRecoverySteps()}
+          syncResults={syncResults}
         />
       )}
 
@@ -198,9 +201,17 @@ export function CalendarEventList({
             <div key={event.id} className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition-colors">
               <div className="flex items-start justify-between">
                 <div className="flex-1 min-w-0">
-                  <h4 className="text-sm font-medium text-gray-900 truncate">
-                    {event.summary}
-                  </h4>
+                  <div className="flex items-center gap-2 min-w-0">
+                    <h4 className="text-sm font-medium text-gray-900 truncate">
+                      {event.summary}
+                    </h4>
+                    {/* 連携元のカレンダー */}
+                    {event.provider && (
+                      <span className="flex-shrink-0 px-1.5 py-0.5 text-xs rounded bg-gray-100 text-gray-600">
+                        {CALENDAR_PROVIDER_LABELS[event.provider]}
+                      </span>
+                    )}
+                  </div>
                   
                   {/* 時間表示 */}
                   <div className="flex items-center mt-1 text-sm text-gray-600">
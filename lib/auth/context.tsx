@@ -3,6 +3,7 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase/client';
+import { syncSessionCookie, clearSessionCookie } from './session-cookie';
 
 // シンプルな認証コンテキスト型定義
 interface AuthContextType {
@@ -35,6 +36,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // 現在のセッション取得
     const getSession = async () => {
       const { data: { session } } = await supabase.auth.getSession();
+      syncSessionCookie(session);
       setUser(session?.user ?? null);
       setLoading(false);
     };
@@ -44,6 +46,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // 認証状態変更の監視
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
+        // APIルートがCookie経由で認証できるようにトークンを同期
+        syncSessionCookie(session);
         setUser(session?.user ?? null);
         setLoading(false);
         
@@ -96,6 +100,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       setError(null);
       const { error } = await supabase.auth.signOut();
+      clearSessionCookie();
       if (error) throw error;
     } catch (err) {
       const message = err instanceof Error ? err.message : 'ログアウトに失敗しました';
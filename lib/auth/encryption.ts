@@ -0,0 +1,107 @@
+// ===========================================
+// Secret Encryption - AI Schedule Assistant
+// 保存する認証情報（OAuthトークン・CalDAVパスワード）のサーバー鍵による暗号化
+// ===========================================
+
+import crypto from 'crypto';
+import { ConfigurationError } from '@/lib/errors';
+
+/**
+ * 暗号化した値の接頭辞（enc:<鍵ID>:<IV>:<認証タグ>:<暗号文>、いずれも base64url）
+ */
+const ENCRYPTED_PREFIX = 'enc:';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * TOKEN_ENCRYPTION_KEYS（「鍵ID:base64の32バイト鍵」のカンマ区切り）を読み込む
+ * 先頭の鍵で暗号化し、2つ目以降はローテーション前の値の復号にのみ使う
+ */
+function getEncryptionKeys(): EncryptionKey[] {
+  const keys = (process.env.TOKEN_ENCRYPTION_KEYS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const index = entry.indexOf(':');
+      const id = index === -1 ? '' : entry.slice(0, index);
+      const key = Buffer.from(entry.slice(index + 1), 'base64');
+
+      if (!/^[A-Za-z0-9_-]+$/.test(id) || key.length !== KEY_BYTES) {
+        throw new ConfigurationError(
+          'TOKEN_ENCRYPTION_KEYS',
+          '認証情報の暗号化鍵は「鍵ID:base64の32バイト鍵」の形式で指定してください'
+        );
+      }
+      return { id, key };
+    });
+
+  if (keys.length === 0) {
+    throw new ConfigurationError('TOKEN_ENCRYPTION_KEYS', '認証情報の暗号化鍵が設定されていません');
+  }
+  return keys;
+}
+
+const toBase64Url = (buffer: Buffer) => buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const fromBase64Url = (value: string) => Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * 現在の鍵で暗号化
+ */
+export function encryptSecret(plaintext: string): string {
+  const [current] = getEncryptionKeys();
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, current.key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return `${ENCRYPTED_PREFIX}${current.id}:${toBase64Url(iv)}:${toBase64Url(cipher.getAuthTag())}:${toBase64Url(ciphertext)}`;
+}
+
+/**
+ * 復号（暗号化導入前に保存された平文はそのまま返す）
+ */
+export function decryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) return value;
+
+  const [keyId, iv, tag, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  const entry = getEncryptionKeys().find(key => key.id === keyId);
+  if (!entry || ciphertext === undefined) {
+    throw new ConfigurationError('TOKEN_ENCRYPTION_KEYS', `認証情報の暗号化鍵（${keyId}）が見つかりません`);
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, entry.key, fromBase64Url(iv));
+    decipher.setAuthTag(fromBase64Url(tag));
+    return Buffer.concat([decipher.update(fromBase64Url(ciphertext)), decipher.final()]).toString('utf8');
+  } catch {
+    throw new ConfigurationError('TOKEN_ENCRYPTION_KEYS', `認証情報を復号できません（鍵ID: ${keyId}）`);
+  }
+}
+
+/**
+ * 現在の鍵で暗号化し直す必要があるか（平文・古い鍵の値）
+ */
+export function needsReencryption(value: string): boolean {
+  if (!isEncryptedSecret(value)) return true;
+
+  const [current] = getEncryptionKeys();
+  return !value.startsWith(`${ENCRYPTED_PREFIX}${current.id}:`);
+}
+
+/**
+ * 現在の鍵で暗号化し直す（不要な場合はそのまま返す）
+ */
+export function reencryptSecret(value: string): string {
+  return needsReencryption(value) ? encryptSecret(decryptSecret(value)) : value;
+}
@@ -0,0 +1,173 @@
+// ===========================================
+// Server-side Authentication - AI Schedule Assistant
+// APIルート共通の認証レイヤー（Bearerヘッダー / Cookie / 開発用バイパス）
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { APIResponse, UUID } from '@/types/shared';
+import { AUTH_BYPASS, ENV_CONFIG } from '@/lib/config/environment';
+import { AuthenticationError, logError } from '@/lib/errors';
+import { ACCESS_TOKEN_COOKIE } from './session-cookie';
+
+/**
+ * 認証済みユーザー
+ */
+export interface AuthenticatedUser {
+  id: UUID;
+  email?: string | null;
+  /** 開発用バイパスで解決されたユーザーかどうか */
+  isBypass: boolean;
+}
+
+/**
+ * 認証結果（ハンドラー内で分岐しやすい判別共用体）
+ */
+export type AuthResult =
+  | { user: AuthenticatedUser; errorResponse: null }
+  | { user: null; errorResponse: NextResponse<APIResponse> };
+
+/**
+ * Supabase標準のセッションCookie（sb-<project-ref>-auth-token、分割時は .0, .1 ...）
+ */
+const SUPABASE_AUTH_COOKIE_PATTERN = /^sb-[a-z0-9]+-auth-token(\.\d+)?$/;
+
+/**
+ * トークン検証用クライアント（セッションは保持しない）
+ */
+const authClient = createClient(ENV_CONFIG.supabase.url, ENV_CONFIG.supabase.anonKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false,
+    detectSessionInUrl: false,
+  },
+});
+
+/**
+ * Supabase標準のセッションCookieからアクセストークンを取り出す
+ */
+function readSupabaseSessionCookie(request: NextRequest): string | null {
+  const chunks = request.cookies
+    .getAll()
+    .filter(cookie => SUPABASE_AUTH_COOKIE_PATTERN.test(cookie.name))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+  if (chunks.length === 0) return null;
+
+  let raw = chunks.map(cookie => cookie.value).join('');
+  try {
+    if (raw.startsWith('base64-')) {
+      raw = Buffer.from(raw.substring(7), 'base64').toString('utf-8');
+    }
+    const parsed = JSON.parse(decodeURIComponent(raw));
+
+    // 旧形式: [access_token, refresh_token, ...] / 新形式: { access_token, ... }
+    if (Array.isArray(parsed)) {
+      return typeof parsed[0] === 'string' ? parsed[0] : null;
+    }
+    return typeof parsed?.access_token === 'string' ? parsed.access_token : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * リクエストからアクセストークンを抽出
+ * 優先順位: Authorizationヘッダー > sb-access-token Cookie > Supabase標準Cookie
+ */
+export function extractAccessToken(request: NextRequest): string | null {
+  const authHeader = request.headers.get('Authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    const token = authHeader.substring(7).trim();
+    if (token) return token;
+  }
+
+  const cookieToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  if (cookieToken) {
+    return decodeURIComponent(cookieToken);
+  }
+
+  return readSupabaseSessionCookie(request);
+}
+
+/**
+ * リクエストの認証ユーザーを解決
+ * 認証できない場合は AuthenticationError を投げる
+ */
+export async function getAuthenticatedUser(request: NextRequest): Promise<AuthenticatedUser> {
+  const token = extractAccessToken(request);
+
+  if (!token) {
+    // 開発用バイパス（トークンが無い場合のみ適用し、実セッションを優先する）
+    if (AUTH_BYPASS.enabled) {
+      return { id: AUTH_BYPASS.userId, email: null, isBypass: true };
+    }
+    throw new AuthenticationError('認証が必要です');
+  }
+
+  const { data: { user }, error } = await authClient.auth.getUser(token);
+
+  if (error || !user) {
+    throw new AuthenticationError('認証トークンが無効または期限切れです');
+  }
+
+  return { id: user.id, email: user.email ?? null, isBypass: false };
+}
+
+/**
+ * 401レスポンスを生成（APIResponse形式）
+ */
+export function unauthorizedResponse(
+  error: AuthenticationError = new AuthenticationError('認証が必要です')
+): NextResponse<APIResponse> {
+  return NextResponse.json<APIResponse>(
+    {
+      success: false,
+      error: error.toAPIError(),
+      message: error.message,
+    },
+    { status: error.statusCode }
+  );
+}
+
+/**
+ * APIハンドラー用の認証ヘルパー
+ *
+ * const { user, errorResponse } = await requireUser(request);
+ * if (errorResponse) return errorResponse;
+ */
+export async function requireUser(request: NextRequest): Promise<AuthResult> {
+  try {
+    const user = await getAuthenticatedUser(request);
+    return { user, errorResponse: null };
+  } catch (error) {
+    const authError = error instanceof AuthenticationError
+      ? error
+      : new AuthenticationError('認証に失敗しました');
+
+    if (!(error instanceof AuthenticationError)) {
+      logError(authError, 'requireUser');
+      console.error('認証処理エラー:', error);
+    }
+
+    return { user: null, errorResponse: unauthorizedResponse(authError) };
+  }
+}
+
+/**
+ * cronなどからのシステム呼び出し用の認証（Authorization: Bearer <CRON_SECRET>）
+ * CRON_SECRETが未設定の場合は常に拒否する
+ *
+ * const errorResponse = requireCronSecret(request);
+ * if (errorResponse) return errorResponse;
+ */
+export function requireCronSecret(request: NextRequest): NextResponse<APIResponse> | null {
+  const secret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('Authorization');
+
+  if (!secret || authHeader !== `Bearer ${secret}`) {
+    return unauthorizedResponse(new AuthenticationError('システム認証に失敗しました'));
+  }
+
+  return null;
+}
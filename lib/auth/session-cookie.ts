@@ -0,0 +1,37 @@
+// ===========================================
+// Session Cookie - AI Schedule Assistant
+// APIルートへアクセストークンを届けるためのCookie管理
+// ===========================================
+
+import type { Session } from '@supabase/supabase-js';
+
+/**
+ * アクセストークンを保持するCookie名
+ * ブラウザのSupabaseクライアントはlocalStorageにセッションを保存するため、
+ * 同一オリジンのfetchやService Workerからも認証できるようミラーする
+ */
+export const ACCESS_TOKEN_COOKIE = 'sb-access-token';
+
+/**
+ * セッションをCookieに反映（クライアント専用）
+ */
+export function syncSessionCookie(session: Session | null): void {
+  if (typeof document === 'undefined') return;
+
+  if (!session?.access_token) {
+    clearSessionCookie();
+    return;
+  }
+
+  const maxAge = session.expires_in ?? 3600;
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie = `${ACCESS_TOKEN_COOKIE}=${encodeURIComponent(session.access_token)}; Path=/; Max-Age=${maxAge}; SameSite=Lax${secure}`;
+}
+
+/**
+ * セッションCookieを削除（クライアント専用）
+ */
+export function clearSessionCookie(): void {
+  if (typeof document === 'undefined') return;
+  document.cookie = `${ACCESS_TOKEN_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax`;
+}
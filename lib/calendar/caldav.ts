@@ -0,0 +1,626 @@
+// ===========================================
+// CalDAV Client - AI Schedule Assistant
+// Nextcloud / Fastmail / iCloud などのCalDAVサーバーを CalendarProvider として扱う（RFC 4791 / 6578）
+// ===========================================
+
+import { CalendarProviderEvent, CalendarProviderType } from '@/types/shared';
+import { CALDAV_CONFIG } from '@/lib/config/environment';
+import { ExternalAPIError, ValidationError } from '@/lib/errors';
+import {
+  CalendarEventInput,
+  CalendarProvider,
+  EventChangesOptions,
+  EventChangesPage,
+} from './provider';
+import {
+  IcsEventPatch,
+  buildIcs,
+  excludeIcsOccurrence,
+  expandIcsCalendar,
+  formatIcsDateTime,
+  icsDateToDate,
+  parseIcs,
+  patchIcsEvent,
+} from './ics';
+
+const XML_HEADER = '<?xml version="1.0" encoding="utf-8"?>';
+const NAMESPACES = 'xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:a="http://apple.com/ns/ical/"';
+
+/**
+ * calendar-multiget 1回で取得するリソース数
+ */
+const MULTIGET_CHUNK_SIZE = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 繰り返しの回を表すイベントIDの接尾辞（#元の開始日時）
+ */
+const INSTANCE_SUFFIX_PATTERN = /#(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z)$/;
+
+export interface CalDAVCredentials {
+  username: string;
+  password: string;
+}
+
+export interface CalDAVCalendarInfo {
+  url: string;
+  displayName: string | null;
+  color: string | null;
+}
+
+export interface CalDAVClientOptions extends CalDAVCredentials {
+  calendarUrl: string;
+  connectionId?: string | null;
+}
+
+/**
+ * CalDAVサーバーのエラー（status は HTTP ステータス。syncToken 期限切れは 410 に揃える）
+ */
+export class CalDAVError extends ExternalAPIError {
+  constructor(message: string, public readonly status: number, details?: Record<string, unknown>) {
+    super('CalDAV', message, { status, ...details });
+  }
+}
+
+interface DavResponse {
+  href: string;
+  status: number | null;     // response 直下の status（削除されたリソースは 404）
+  etag: string | null;
+  calendarData: string | null;
+  props: string;             // 200 の propstat の中身
+}
+
+// ---------- XML ----------
+
+const NS_PREFIX = '(?:[A-Za-z][\\w.-]*:)?';
+
+function decodeXml(value: string): string {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) return cdata[1];
+
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * 名前空間の接頭辞を問わず、指定した要素の中身をすべて取り出す（空要素は空文字）
+ */
+function xmlElements(xml: string, name: string): string[] {
+  const pattern = new RegExp(
+    `<${NS_PREFIX}${name}(?:\\s[^>]*)?(?:/>|>([\\s\\S]*?)</${NS_PREFIX}${name}\\s*>)`,
+    'g'
+  );
+  const results: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    results.push(match[1] ?? '');
+  }
+  return results;
+}
+
+function xmlText(xml: string, name: string): string | null {
+  const [element] = xmlElements(xml, name);
+  return element === undefined ? null : decodeXml(element).trim();
+}
+
+function parseStatus(line: string | null): number | null {
+  const match = line?.match(/HTTP\/[\d.]+\s+(\d{3})/);
+  return match ? Number(match[1]) : null;
+}
+
+function parseMultistatus(xml: string): DavResponse[] {
+  return xmlElements(xml, 'response').map(response => {
+    const propstats = xmlElements(response, 'propstat');
+    const okProps = propstats
+      .filter(propstat => (parseStatus(xmlText(propstat, 'status')) ?? 200) < 300)
+      .map(propstat => xmlElements(propstat, 'prop')[0] ?? '')
+      .join('');
+    const withoutPropstats = response.replace(
+      new RegExp(`<${NS_PREFIX}propstat[\\s>][\\s\\S]*?</${NS_PREFIX}propstat\\s*>`, 'g'),
+      ''
+    );
+    const calendarData = xmlElements(okProps, 'calendar-data')[0];
+
+    return {
+      href: xmlText(response, 'href') || '',
+      status: parseStatus(xmlText(withoutPropstats, 'status')),
+      etag: xmlText(okProps, 'getetag'),
+      calendarData: calendarData === undefined ? null : decodeXml(calendarData),
+      props: okProps,
+    };
+  });
+}
+
+// ---------- URL ----------
+
+/**
+ * 利用者が指定したURLを検証（http はローカルのテストサーバー用に設定で許可した場合のみ）
+ */
+export function validateCalDAVUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ValidationError('CalDAVサーバーのURLが正しくありません');
+  }
+
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && CALDAV_CONFIG.allowInsecure)) {
+    throw new ValidationError('CalDAVサーバーのURLは https で指定してください');
+  }
+  if (url.username || url.password) {
+    throw new ValidationError('ユーザー名・パスワードはURLに含めず個別に指定してください');
+  }
+
+  return url;
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
+
+function toIsoString(value: Date): string {
+  return value.toISOString();
+}
+
+// ---------- HTTP ----------
+
+async function davRequest(
+  credentials: CalDAVCredentials,
+  method: string,
+  url: string,
+  options: { body?: string; headers?: Record<string, string>; depth?: '0' | '1'; contentType?: string } = {}
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), CALDAV_CONFIG.requestTimeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+        ...(options.body !== undefined && {
+          'Content-Type': options.contentType || 'application/xml; charset=utf-8',
+        }),
+        ...(options.depth && { Depth: options.depth }),
+        ...options.headers,
+      },
+      body: options.body,
+      redirect: 'follow',
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      // 無効・期限切れの sync-token（DAV:valid-sync-token）は Google と同じく 410 として扱う
+      const status = text.includes('valid-sync-token') ? 410 : response.status;
+      throw new CalDAVError(`${method} ${new URL(url).pathname} failed with ${response.status}`, status);
+    }
+
+    return response;
+  } catch (error) {
+    if (error instanceof CalDAVError) throw error;
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new CalDAVError('CalDAVサーバーの応答がタイムアウトしました', 504);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+async function propfind(
+  credentials: CalDAVCredentials,
+  url: string,
+  props: string,
+  depth: '0' | '1'
+): Promise<DavResponse[]> {
+  const response = await davRequest(credentials, 'PROPFIND', url, {
+    depth,
+    body: `${XML_HEADER}<d:propfind ${NAMESPACES}><d:prop>${props}</d:prop></d:propfind>`,
+  });
+  return parseMultistatus(await response.text());
+}
+
+/**
+ * サーバーURLからカレンダーの一覧を探す
+ * カレンダー自体のURLが指定された場合はそのカレンダーだけを返す
+ */
+export async function discoverCalDAVCalendars(
+  serverUrl: string,
+  credentials: CalDAVCredentials
+): Promise<CalDAVCalendarInfo[]> {
+  const base = validateCalDAVUrl(serverUrl).toString();
+  const calendarProps = '<d:resourcetype/><d:displayname/><c:supported-calendar-component-set/><a:calendar-color/>';
+
+  const toCalendars = (responses: DavResponse[], baseUrl: string): CalDAVCalendarInfo[] => responses
+    .filter(response => /<[\w.-]*:?calendar[\s/>]/.test(xmlElements(response.props, 'resourcetype')[0] ?? ''))
+    .filter(response => {
+      const components = xmlElements(response.props, 'supported-calendar-component-set')[0];
+      return !components || /name="VEVENT"/i.test(components);
+    })
+    .map(response => ({
+      url: withTrailingSlash(new URL(response.href, baseUrl).toString()),
+      displayName: xmlText(response.props, 'displayname') || null,
+      color: xmlText(response.props, 'calendar-color') || null,
+    }));
+
+  const self = await propfind(credentials, base, `${calendarProps}<d:current-user-principal/>`, '0');
+  const direct = toCalendars(self, base);
+  if (direct.length > 0) return direct;
+
+  let principalHref = xmlText(xmlElements(self[0]?.props ?? '', 'current-user-principal')[0] ?? '', 'href');
+  if (!principalHref) {
+    // ルートURLで見つからない場合は RFC 6764 の .well-known を試す
+    const wellKnown = await propfind(credentials, new URL('/.well-known/caldav', base).toString(), '<d:current-user-principal/>', '0');
+    principalHref = xmlText(xmlElements(wellKnown[0]?.props ?? '', 'current-user-principal')[0] ?? '', 'href');
+  }
+  if (!principalHref) {
+    throw new CalDAVError('CalDAVのプリンシパルが見つかりません', 404);
+  }
+
+  const principalUrl = new URL(principalHref, base).toString();
+  const principal = await propfind(credentials, principalUrl, '<c:calendar-home-set/>', '0');
+  const homeHref = xmlText(xmlElements(principal[0]?.props ?? '', 'calendar-home-set')[0] ?? '', 'href');
+  if (!homeHref) {
+    throw new CalDAVError('カレンダーのホームコレクションが見つかりません', 404);
+  }
+
+  const homeUrl = withTrailingSlash(new URL(homeHref, principalUrl).toString());
+  return toCalendars(await propfind(credentials, homeUrl, calendarProps, '1'), homeUrl);
+}
+
+// ---------- クライアント ----------
+
+/**
+ * CalDAV のカレンダー1つに対するクライアント
+ * イベントIDは「接続ID:ファイル名」で、繰り返しの各回は「#元の開始日時」を付ける
+ * （繰り返しはサーバーでは1つのリソースのため、各回の変更は RECURRENCE-ID、削除は EXDATE で書き戻す）
+ */
+export class CalDAVClient implements CalendarProvider {
+  readonly type = CalendarProviderType.CALDAV;
+  readonly eventSource = 'caldav';
+  readonly connectionId: string | null;
+  readonly scope: Record<string, string>;
+
+  private calendarUrl: string;
+  private credentials: CalDAVCredentials;
+
+  constructor(options: CalDAVClientOptions) {
+    this.calendarUrl = withTrailingSlash(validateCalDAVUrl(options.calendarUrl).toString());
+    this.credentials = { username: options.username, password: options.password };
+    this.connectionId = options.connectionId ?? null;
+    this.scope = this.connectionId
+      ? { event_source: this.eventSource, calendar_connection_id: this.connectionId }
+      : { event_source: this.eventSource };
+  }
+
+  private eventIdFor(href: string): string {
+    const segments = new URL(href, this.calendarUrl).pathname.split('/').filter(Boolean);
+    const filename = decodeURIComponent(segments[segments.length - 1] || '');
+    return this.connectionId ? `${this.connectionId}:${filename}` : filename;
+  }
+
+  /**
+   * イベントIDからリソースのURLと繰り返しの回を取り出す
+   */
+  private parseEventId(eventId: string): { url: string; occurrence: Date | null } {
+    const instance = eventId.match(INSTANCE_SUFFIX_PATTERN);
+    const resourceId = instance ? eventId.slice(0, instance.index) : eventId;
+    const prefix = this.connectionId ? `${this.connectionId}:` : '';
+    const filename = prefix && resourceId.startsWith(prefix) ? resourceId.slice(prefix.length) : resourceId;
+
+    return {
+      url: new URL(encodeURIComponent(filename), this.calendarUrl).toString(),
+      occurrence: instance ? new Date(instance[1]) : null,
+    };
+  }
+
+  private isCollection(href: string): boolean {
+    return withTrailingSlash(new URL(href, this.calendarUrl).pathname) === new URL(this.calendarUrl).pathname;
+  }
+
+  /**
+   * リソース（.ics）を内部形式のイベントに変換（繰り返しは期間内を展開）
+   */
+  private toEvents(href: string, etag: string | null, data: string, from: Date, to: Date): CalendarProviderEvent[] {
+    const calendar = parseIcs(data);
+    const resourceId = this.eventIdFor(href);
+    const master = calendar.events.find(event => !event.recurrenceId) ?? calendar.events[0];
+    if (!master) return [];
+
+    const updatedOf = (uid: string, key: string) => {
+      const source = calendar.events.find(event =>
+        event.uid === uid && (event.recurrenceId
+          ? `${uid}#${icsDateToDate(event.recurrenceId, calendar.timeZone).toISOString()}` === key
+          : !key.includes('#'))
+      ) ?? master;
+      return source.lastModified ? icsDateToDate(source.lastModified, calendar.timeZone).toISOString() : undefined;
+    };
+
+    const recurring = !!master.rrule || master.rdates.length > 0 || calendar.events.some(event => event.recurrenceId);
+    const expansion = expandIcsCalendar(calendar, { from, to, maxOccurrences: CALDAV_CONFIG.maxOccurrences });
+
+    if (!recurring) {
+      const start = icsDateToDate(master.start, calendar.timeZone);
+      const occurrence = expansion.occurrences[0];
+      return [{
+        id: resourceId,
+        summary: master.summary || 'タイトルなし',
+        description: master.description || undefined,
+        start: { dateTime: toIsoString(start) },
+        end: { dateTime: toIsoString(occurrence ? occurrence.end : start) },
+        location: master.location || undefined,
+        status: master.status === 'CANCELLED' ? 'cancelled' : master.status === 'TENTATIVE' ? 'tentative' : 'confirmed',
+        etag: etag ?? undefined,
+        updated: updatedOf(master.uid, master.uid),
+        provider: CalendarProviderType.CALDAV,
+      }];
+    }
+
+    return expansion.occurrences.map(occurrence => ({
+      id: `${resourceId}#${occurrence.key.slice(occurrence.key.lastIndexOf('#') + 1)}`,
+      summary: occurrence.title,
+      description: occurrence.description || undefined,
+      start: { dateTime: toIsoString(occurrence.start) },
+      end: { dateTime: toIsoString(occurrence.end) },
+      location: occurrence.location || undefined,
+      status: 'confirmed' as const,
+      etag: etag ?? undefined,
+      updated: updatedOf(occurrence.uid, occurrence.key),
+      provider: CalendarProviderType.CALDAV,
+    }));
+  }
+
+  private async calendarQuery(from: Date, to: Date): Promise<DavResponse[]> {
+    const response = await davRequest(this.credentials, 'REPORT', this.calendarUrl, {
+      depth: '1',
+      body: `${XML_HEADER}<c:calendar-query ${NAMESPACES}>`
+        + '<d:prop><d:getetag/><c:calendar-data/></d:prop>'
+        + '<c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT">'
+        + `<c:time-range start="${formatIcsDateTime(from)}" end="${formatIcsDateTime(to)}"/>`
+        + '</c:comp-filter></c:comp-filter></c:filter>'
+        + '</c:calendar-query>',
+    });
+    return parseMultistatus(await response.text()).filter(item => !this.isCollection(item.href));
+  }
+
+  private async multiget(hrefs: string[]): Promise<DavResponse[]> {
+    const results: DavResponse[] = [];
+    for (let i = 0; i < hrefs.length; i += MULTIGET_CHUNK_SIZE) {
+      const chunk = hrefs.slice(i, i + MULTIGET_CHUNK_SIZE);
+      const response = await davRequest(this.credentials, 'REPORT', this.calendarUrl, {
+        depth: '1',
+        body: `${XML_HEADER}<c:calendar-multiget ${NAMESPACES}>`
+          + '<d:prop><d:getetag/><c:calendar-data/></d:prop>'
+          + chunk.map(href => `<d:href>${escapeXml(href)}</d:href>`).join('')
+          + '</c:calendar-multiget>',
+      });
+      results.push(...parseMultistatus(await response.text()));
+    }
+    return results;
+  }
+
+  private async getSyncToken(): Promise<string | undefined> {
+    try {
+      const [self] = await propfind(this.credentials, this.calendarUrl, '<d:sync-token/>', '0');
+      return (self && xmlText(self.props, 'sync-token')) || undefined;
+    } catch (error) {
+      // sync-token 非対応のサーバーでは毎回フル同期になる
+      console.warn('CalDAV sync-token取得エラー（フル同期で継続）:', error);
+      return undefined;
+    }
+  }
+
+  private async getResource(url: string): Promise<{ text: string; etag: string | null }> {
+    const response = await davRequest(this.credentials, 'GET', url);
+    return { text: await response.text(), etag: response.headers.get('etag') };
+  }
+
+  /**
+   * 書き込み後の ETag（レスポンスに無い場合はサーバーが内容を変えているため取得し直す）
+   */
+  private async putResource(url: string, body: string, headers: Record<string, string>): Promise<string | null> {
+    const response = await davRequest(this.credentials, 'PUT', url, {
+      body,
+      headers,
+      contentType: 'text/calendar; charset=utf-8',
+    });
+    const etag = response.headers.get('etag');
+    if (etag) return etag;
+
+    const [self] = await propfind(this.credentials, url, '<d:getetag/>', '0');
+    return self?.etag ?? null;
+  }
+
+  /**
+   * 期間内のイベント一覧（繰り返しは展開する）
+   */
+  async getEvents(startDate?: string, endDate?: string, maxResults = 10): Promise<CalendarProviderEvent[]> {
+    const from = startDate ? new Date(startDate) : new Date();
+    const to = endDate ? new Date(endDate) : new Date(from.getTime() + CALDAV_CONFIG.expandDays * DAY_MS);
+
+    const resources = await this.calendarQuery(from, to);
+    return resources
+      .filter(resource => resource.calendarData)
+      .flatMap(resource => this.toEvents(resource.href, resource.etag, resource.calendarData!, from, to))
+      .filter(event => event.status !== 'cancelled'
+        && new Date(event.end.dateTime) > from
+        && new Date(event.start.dateTime) < to)
+      .sort((a, b) => new Date(a.start.dateTime).getTime() - new Date(b.start.dateTime).getTime())
+      .slice(0, maxResults);
+  }
+
+  /**
+   * 差分取得（sync-token があれば sync-collection、無ければ timeMin 以降の calendar-query）
+   * ページングはせず1ページで返す
+   */
+  async listEventChanges(options: EventChangesOptions = {}): Promise<EventChangesPage> {
+    const from = options.timeMin ? new Date(options.timeMin) : new Date();
+    const to = new Date(from.getTime() + CALDAV_CONFIG.expandDays * DAY_MS);
+
+    if (!options.syncToken) {
+      // 取得中の変更を取りこぼさないよう、先に sync-token を取得する
+      const nextSyncToken = await this.getSyncToken();
+      const resources = await this.calendarQuery(from, to);
+      const events = resources
+        .filter(resource => resource.calendarData)
+        .flatMap(resource => this.toEvents(resource.href, resource.etag, resource.calendarData!, from, to));
+
+      return {
+        events,
+        nextSyncToken,
+        changedResources: resources.map(resource => this.eventIdFor(resource.href)),
+      };
+    }
+
+    const response = await davRequest(this.credentials, 'REPORT', this.calendarUrl, {
+      depth: '1',
+      body: `${XML_HEADER}<d:sync-collection ${NAMESPACES}>`
+        + `<d:sync-token>${escapeXml(options.syncToken)}</d:sync-token>`
+        + '<d:sync-level>1</d:sync-level>'
+        + '<d:prop><d:getetag/></d:prop>'
+        + '</d:sync-collection>',
+    });
+    const xml = await response.text();
+    const changes = parseMultistatus(xml).filter(item => !this.isCollection(item.href));
+
+    const deleted = changes.filter(change => change.status === 404);
+    const updated = changes.filter(change => change.status !== 404);
+    const resources = updated.length > 0 ? await this.multiget(updated.map(change => change.href)) : [];
+
+    const events: CalendarProviderEvent[] = [
+      ...deleted.map(change => ({
+        id: this.eventIdFor(change.href),
+        summary: '',
+        start: { dateTime: '' },
+        end: { dateTime: '' },
+        status: 'cancelled' as const,
+        provider: CalendarProviderType.CALDAV,
+      })),
+      ...resources
+        .filter(resource => resource.calendarData)
+        .flatMap(resource => this.toEvents(resource.href, resource.etag, resource.calendarData!, from, to)),
+    ];
+
+    return {
+      events,
+      nextSyncToken: xmlText(xml.replace(new RegExp(`<${NS_PREFIX}response[\\s>][\\s\\S]*?</${NS_PREFIX}response\\s*>`, 'g'), ''), 'sync-token') || undefined,
+      changedResources: changes.map(change => this.eventIdFor(change.href)),
+    };
+  }
+
+  /**
+   * イベント作成（新しいリソースとして保存）
+   */
+  async createEvent(event: CalendarEventInput): Promise<CalendarProviderEvent> {
+    const uid = crypto.randomUUID();
+    const url = new URL(`${uid}.ics`, this.calendarUrl).toString();
+    const start = new Date(event.startTime);
+    const end = new Date(event.endTime);
+
+    const etag = await this.putResource(
+      url,
+      buildIcs([{ uid, title: event.title, description: event.description, location: event.location, start, end }], { method: null }),
+      { 'If-None-Match': '*' }
+    );
+
+    return {
+      id: this.eventIdFor(url),
+      summary: event.title,
+      description: event.description,
+      start: { dateTime: toIsoString(start) },
+      end: { dateTime: toIsoString(end) },
+      location: event.location,
+      status: 'confirmed',
+      etag: etag ?? undefined,
+      updated: new Date().toISOString(),
+      provider: CalendarProviderType.CALDAV,
+    };
+  }
+
+  /**
+   * イベント更新（etag 指定時は If-Match で競合を検出し、412 で失敗する）
+   * 出席者やアラームなど、このアプリで扱わないプロパティはそのまま残す
+   */
+  async updateEvent(
+    eventId: string,
+    event: CalendarEventInput,
+    options: { etag?: string } = {}
+  ): Promise<CalendarProviderEvent> {
+    const { url, occurrence } = this.parseEventId(eventId);
+    const current = await this.getResource(url);
+    const patch: IcsEventPatch = {
+      title: event.title,
+      description: event.description,
+      location: event.location,
+      start: new Date(event.startTime),
+      end: new Date(event.endTime),
+    };
+
+    const etag = await this.putResource(url, patchIcsEvent(current.text, patch, occurrence), {
+      'If-Match': options.etag || current.etag || '*',
+    });
+
+    return {
+      id: eventId,
+      summary: event.title,
+      description: event.description,
+      start: { dateTime: toIsoString(patch.start) },
+      end: { dateTime: toIsoString(patch.end) },
+      location: event.location,
+      status: 'confirmed',
+      etag: etag ?? undefined,
+      updated: new Date().toISOString(),
+      provider: CalendarProviderType.CALDAV,
+    };
+  }
+
+  /**
+   * イベント削除（繰り返しの回は EXDATE を追加。既に削除済みの場合は成功として扱う）
+   */
+  async deleteEvent(eventId: string): Promise<void> {
+    const { url, occurrence } = this.parseEventId(eventId);
+
+    try {
+      if (occurrence) {
+        const current = await this.getResource(url);
+        await this.putResource(url, excludeIcsOccurrence(current.text, occurrence), {
+          'If-Match': current.etag || '*',
+        });
+        return;
+      }
+
+      await davRequest(this.credentials, 'DELETE', url);
+    } catch (error) {
+      if (error instanceof CalDAVError && (error.status === 404 || error.status === 410)) return;
+      throw error;
+    }
+  }
+
+  /**
+   * 接続テスト（URLがカレンダーのコレクションか）
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      const [self] = await propfind(this.credentials, this.calendarUrl, '<d:resourcetype/>', '0');
+      return !!self && /<[\w.-]*:?calendar[\s/>]/.test(xmlElements(self.props, 'resourcetype')[0] ?? '');
+    } catch (error) {
+      console.error('CalDAV接続テストエラー:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,298 @@
+// ===========================================
+// Calendar Connections - AI Schedule Assistant
+// ユーザーが連携したカレンダー（Google / CalDAV）を同期用のプロバイダーとして取得する
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ValidationError } from '@/lib/errors';
+import { decryptSecret, encryptSecret, needsReencryption, reencryptSecret } from '@/lib/auth/encryption';
+import { PRIMARY_CALENDAR_ID, createUserCalendarClient } from '@/lib/google/calendar';
+import { listGoogleCalendars } from '@/lib/google/calendarList';
+import { getUserGoogleAuth } from '@/lib/google/tokens';
+import { getUserLocale } from '@/lib/schedule/timezone';
+import { CalendarProvider } from './provider';
+import { CalDAVClient, CalDAVCredentials, CalDAVCalendarInfo, discoverCalDAVCalendars } from './caldav';
+
+/**
+ * calendar_connections の行（認証情報を除く）
+ */
+export interface CalendarConnection {
+  id: string;
+  user_id: string;
+  provider: 'caldav';
+  server_url: string;
+  calendar_url: string;
+  username: string;
+  display_name: string | null;
+  color: string | null;
+  last_synced_at: string | null;
+  created_at: string;
+}
+
+/**
+ * 同期対象のカレンダー（calendarId は calendar_sync_state.calendar_id）
+ */
+export interface UserCalendarProvider {
+  provider: CalendarProvider;
+  calendarId: string;
+  name: string;
+  color: string | null;
+}
+
+export interface CalDAVConnectInput extends CalDAVCredentials {
+  serverUrl: string;
+  calendarUrl?: string;
+}
+
+/**
+ * 鍵のローテーションで一度に読み込む行数
+ */
+const REENCRYPT_PAGE_SIZE = 200;
+
+const CONNECTION_COLUMNS = 'id, user_id, provider, server_url, calendar_url, username, display_name, color, last_synced_at, created_at';
+
+/**
+ * CalDAV 接続の同期状態のキー
+ */
+export function caldavSyncStateId(connectionId: string): string {
+  return `caldav:${connectionId}`;
+}
+
+function toCalDAVClient(row: { id: string; calendar_url: string; username: string; password: string }): CalDAVClient {
+  return new CalDAVClient({
+    connectionId: row.id,
+    calendarUrl: row.calendar_url,
+    username: row.username,
+    password: decryptSecret(row.password),
+  });
+}
+
+export async function listCalendarConnections(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<CalendarConnection[]> {
+  const { data, error } = await supabase
+    .from('calendar_connections')
+    .select(CONNECTION_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as CalendarConnection[];
+}
+
+/**
+ * CalDAV カレンダーを連携
+ * calendarUrl を省略してカレンダーが複数見つかった場合は連携せず候補を返す
+ */
+export async function connectCalDAVCalendar(
+  supabase: SupabaseClient,
+  userId: string,
+  input: CalDAVConnectInput
+): Promise<{ connection: CalendarConnection | null; calendars: CalDAVCalendarInfo[] }> {
+  const credentials = { username: input.username, password: input.password };
+  const calendars = await discoverCalDAVCalendars(input.calendarUrl || input.serverUrl, credentials);
+
+  if (calendars.length === 0) {
+    throw new ValidationError('予定を保存できるカレンダーが見つかりません');
+  }
+
+  const selected = input.calendarUrl
+    ? calendars.find(calendar => calendar.url === input.calendarUrl) ?? calendars[0]
+    : calendars.length === 1 ? calendars[0] : null;
+
+  if (!selected) {
+    return { connection: null, calendars };
+  }
+
+  const client = new CalDAVClient({ calendarUrl: selected.url, ...credentials });
+  if (!(await client.testConnection())) {
+    throw new ValidationError('CalDAVカレンダーに接続できませんでした');
+  }
+
+  const { data, error } = await supabase
+    .from('calendar_connections')
+    .upsert(
+      {
+        user_id: userId,
+        provider: 'caldav',
+        server_url: input.serverUrl,
+        calendar_url: selected.url,
+        username: input.username,
+        password: encryptSecret(input.password),
+        display_name: selected.displayName,
+        color: selected.color,
+      },
+      { onConflict: 'user_id,calendar_url' }
+    )
+    .select(CONNECTION_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return { connection: data as CalendarConnection, calendars };
+}
+
+/**
+ * 連携を解除（取り込んだ予定は外部キーで削除される）
+ */
+export async function disconnectCalendar(
+  supabase: SupabaseClient,
+  userId: string,
+  connectionId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('calendar_connections')
+    .delete()
+    .eq('id', connectionId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) return false;
+
+  await supabase
+    .from('calendar_sync_state')
+    .delete()
+    .eq('user_id', userId)
+    .eq('calendar_id', caldavSyncStateId(connectionId));
+
+  return true;
+}
+
+/**
+ * CalDAV の連携をプロバイダーとして取得
+ */
+export async function getCalDAVProviders(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<UserCalendarProvider[]> {
+  const { data, error } = await supabase
+    .from('calendar_connections')
+    .select('id, calendar_url, username, password, display_name, color')
+    .eq('user_id', userId)
+    .eq('provider', 'caldav')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    provider: toCalDAVClient(row),
+    calendarId: caldavSyncStateId(row.id),
+    name: row.display_name || 'CalDAV',
+    color: row.color ?? null,
+  }));
+}
+
+/**
+ * 同期対象の Google カレンダーをプロバイダーとして取得（未連携は空）
+ * calendarIds を指定した場合は同期の設定に関わらずそのカレンダーを返す
+ */
+async function getGoogleProviders(
+  supabase: SupabaseClient,
+  userId: string,
+  calendarIds?: string[]
+): Promise<UserCalendarProvider[]> {
+  const auth = await getUserGoogleAuth(supabase, userId);
+  if (!auth) return [];
+
+  // 一覧を未取得の場合はメインのカレンダーのみ
+  const [calendars, { timeZone }] = await Promise.all([
+    listGoogleCalendars(supabase, userId),
+    getUserLocale(supabase, userId),
+  ]);
+  const targets = calendars.length > 0
+    ? calendars.filter(calendar => calendarIds ? calendarIds.includes(calendar.calendar_id) : calendar.sync_enabled)
+    : [{ calendar_id: PRIMARY_CALENDAR_ID, summary: 'Google Calendar', background_color: null }]
+      .filter(calendar => !calendarIds || calendarIds.includes(calendar.calendar_id));
+
+  return targets.map(calendar => ({
+    provider: createUserCalendarClient(auth, calendar.calendar_id, timeZone),
+    calendarId: calendar.calendar_id,
+    name: calendar.summary,
+    color: calendar.background_color,
+  }));
+}
+
+/**
+ * ユーザーが連携しているすべてのカレンダー（Google が先頭）
+ */
+export async function getUserCalendarProviders(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<UserCalendarProvider[]> {
+  const [google, caldav] = await Promise.all([
+    getGoogleProviders(supabase, userId),
+    getCalDAVProviders(supabase, userId),
+  ]);
+
+  return [...google, ...caldav];
+}
+
+/**
+ * events 行の書き戻し先（Google・CalDAV 以外の予定や未連携の場合は null）
+ */
+export async function getEventProvider(
+  supabase: SupabaseClient,
+  userId: string,
+  event: { event_source?: string | null; calendar_connection_id?: string | null; google_calendar_id?: string | null }
+): Promise<UserCalendarProvider | null> {
+  if (event.event_source === 'caldav') {
+    if (!event.calendar_connection_id) return null;
+
+    const { data, error } = await supabase
+      .from('calendar_connections')
+      .select('id, calendar_url, username, password, display_name, color')
+      .eq('id', event.calendar_connection_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data
+      ? {
+          provider: toCalDAVClient(data),
+          calendarId: caldavSyncStateId(data.id),
+          name: data.display_name || 'CalDAV',
+          color: data.color ?? null,
+        }
+      : null;
+  }
+
+  if (event.event_source && event.event_source !== 'google_calendar') return null;
+
+  const [provider] = await getGoogleProviders(supabase, userId, [event.google_calendar_id || PRIMARY_CALENDAR_ID]);
+  return provider ?? null;
+}
+
+/**
+ * 平文・古い鍵で保存された CalDAV のパスワードを現在の鍵で暗号化し直す
+ * @returns 更新した連携数
+ */
+export async function reencryptCalDAVPasswords(supabase: SupabaseClient): Promise<number> {
+  let updated = 0;
+
+  for (let offset = 0; ; offset += REENCRYPT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('calendar_connections')
+      .select('id, password')
+      .order('id', { ascending: true })
+      .range(offset, offset + REENCRYPT_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      if (!needsReencryption(row.password)) continue;
+
+      const { error: updateError } = await supabase
+        .from('calendar_connections')
+        .update({ password: reencryptSecret(row.password) })
+        .eq('id', row.id);
+
+      if (updateError) throw updateError;
+      updated++;
+    }
+
+    if (!data || data.length < REENCRYPT_PAGE_SIZE) break;
+  }
+
+  return updated;
+}
@@ -0,0 +1,223 @@
+// ===========================================
+// Calendar Feed - AI Schedule Assistant
+// 予定と配置済みタスクの .ics 書き出しと、秘密トークン付きの購読URL
+// ===========================================
+
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ICS_CONFIG } from '@/lib/config/environment';
+import { resolveSchedulePreferences } from '@/lib/schedule/planner';
+import { IcsOutputEvent, buildIcs } from './ics';
+
+const UID_DOMAIN = 'ai-schedule-assistant';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CalendarExportOptions {
+  from?: Date;
+  to?: Date;
+  includeEvents?: boolean;
+  includeTasks?: boolean;
+  now?: Date;
+}
+
+export interface CalendarFeedStatus {
+  enabled: boolean;
+  includeTasks: boolean;
+  createdAt: string | null;
+  lastAccessedAt: string | null;
+}
+
+/**
+ * トークンはハッシュのみ保存する（発行時にしか平文を返せない）
+ */
+function hashFeedToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function getCalendarFeedUrl(token: string): string {
+  return `${ICS_CONFIG.appUrl}/api/calendar/feed/${token}.ics`;
+}
+
+/**
+ * 予定と配置済みタスクを .ics 用の予定に変換
+ * キャンセル済みのタスクと削除待ちの予定は含めない
+ */
+export async function collectCalendarEvents(
+  supabase: SupabaseClient,
+  userId: string,
+  options: CalendarExportOptions = {}
+): Promise<IcsOutputEvent[]> {
+  const now = options.now ?? new Date();
+  const from = options.from ?? new Date(now.getTime() - ICS_CONFIG.exportPastDays * DAY_MS);
+  const to = options.to ?? new Date(now.getTime() + ICS_CONFIG.exportFutureDays * DAY_MS);
+  const events: IcsOutputEvent[] = [];
+
+  if (options.includeEvents !== false) {
+    const { data, error } = await supabase
+      .from('events')
+      .select('id, title, description, start_time, end_time, location, updated_at')
+      .eq('user_id', userId)
+      .neq('sync_status', 'pending_delete')
+      .lt('start_time', to.toISOString())
+      .gt('end_time', from.toISOString())
+      .order('start_time', { ascending: true });
+
+    if (error) throw error;
+
+    for (const event of data || []) {
+      events.push({
+        uid: `event-${event.id}@${UID_DOMAIN}`,
+        title: event.title,
+        description: event.description,
+        location: event.location,
+        start: new Date(event.start_time),
+        end: new Date(event.end_time),
+        updatedAt: event.updated_at ? new Date(event.updated_at) : null,
+      });
+    }
+  }
+
+  if (options.includeTasks !== false) {
+    const [{ data: tasks, error }, { data: userData }] = await Promise.all([
+      supabase
+        .from('tasks')
+        .select('id, title, description, status, category, estimated_minutes, scheduled_date, updated_at')
+        .eq('user_id', userId)
+        .neq('status', 'cancelled')
+        .is('recurrence_rule', null)
+        .gte('scheduled_date', from.toISOString())
+        .lt('scheduled_date', to.toISOString())
+        .order('scheduled_date', { ascending: true }),
+      supabase
+        .from('users')
+        .select('settings')
+        .eq('id', userId)
+        .maybeSingle(),
+    ]);
+
+    if (error) throw error;
+
+    const defaultMinutes = resolveSchedulePreferences(userData?.settings?.schedule_preferences).default_task_minutes;
+
+    // 時間ブロックと同じ表記（🎯 未完了 / ✅ 完了）
+    for (const task of tasks || []) {
+      const start = new Date(task.scheduled_date);
+      events.push({
+        uid: `task-${task.id}@${UID_DOMAIN}`,
+        title: `${task.status === 'completed' ? '✅' : '🎯'} ${task.title}`,
+        description: task.description,
+        start,
+        end: new Date(start.getTime() + (task.estimated_minutes || defaultMinutes) * 60 * 1000),
+        updatedAt: task.updated_at ? new Date(task.updated_at) : null,
+        categories: task.category ? [task.category] : undefined,
+      });
+    }
+  }
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * ユーザーの予定・タスクを .ics テキストとして書き出す
+ */
+export async function exportCalendar(
+  supabase: SupabaseClient,
+  userId: string,
+  options: CalendarExportOptions & { refreshMinutes?: number } = {}
+): Promise<string> {
+  const events = await collectCalendarEvents(supabase, userId, options);
+  return buildIcs(events, {
+    name: 'AI Schedule Assistant',
+    refreshMinutes: options.refreshMinutes,
+    now: options.now,
+  });
+}
+
+/**
+ * 購読URLの状態
+ */
+export async function getCalendarFeedStatus(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<CalendarFeedStatus> {
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('include_tasks, created_at, last_accessed_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return {
+    enabled: !!data,
+    includeTasks: data?.include_tasks ?? true,
+    createdAt: data?.created_at ?? null,
+    lastAccessedAt: data?.last_accessed_at ?? null,
+  };
+}
+
+/**
+ * 購読用トークンを発行（既存のトークンは無効になる）
+ * @returns 平文のトークン（保存されないため、この場でしか取得できない）
+ */
+export async function issueCalendarFeedToken(
+  supabase: SupabaseClient,
+  userId: string,
+  includeTasks: boolean = true
+): Promise<string> {
+  const token = crypto.randomBytes(24).toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .upsert(
+      {
+        user_id: userId,
+        token_hash: hashFeedToken(token),
+        include_tasks: includeTasks,
+        last_accessed_at: null,
+        created_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) throw error;
+  return token;
+}
+
+export async function revokeCalendarFeedToken(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * トークンから購読フィードの持ち主を解決（無効なトークンは null）
+ */
+export async function resolveCalendarFeedToken(
+  supabase: SupabaseClient,
+  token: string
+): Promise<{ userId: string; includeTasks: boolean } | null> {
+  if (!/^[A-Za-z0-9_-]{16,}$/.test(token)) return null;
+
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('user_id, include_tasks')
+    .eq('token_hash', hashFeedToken(token))
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  await supabase
+    .from('calendar_feed_tokens')
+    .update({ last_accessed_at: new Date().toISOString() })
+    .eq('user_id', data.user_id);
+
+  return { userId: data.user_id, includeTasks: data.include_tasks };
+}
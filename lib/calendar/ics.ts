@@ -0,0 +1,773 @@
+// ===========================================
+// iCalendar (.ics) - AI Schedule Assistant
+// RFC 5545 の読み込み（繰り返しの展開を含む）と書き出し（純粋関数）
+// ===========================================
+
+import { RecurrenceRule } from '@/types/shared';
+import { getOccurrences, parseRRule, toDateKey } from '@/lib/tasks/recurrence';
+import { WallClock, fromWallClock, isValidTimeZone, wallClockIn } from '@/lib/schedule/timezone';
+
+/**
+ * Outlook / Exchange が出力する Windows のタイムゾーン名（よく使われるもののみ）
+ */
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'Korea Standard Time': 'Asia/Seoul',
+  'China Standard Time': 'Asia/Shanghai',
+  'Taipei Standard Time': 'Asia/Taipei',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'India Standard Time': 'Asia/Kolkata',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'UTC': 'UTC',
+};
+
+/**
+ * 展開できない繰り返しルールの要素（指定されていたら初回のみ取り込む）
+ */
+const UNSUPPORTED_RRULE_PARTS = ['BYSETPOS', 'BYMONTH', 'BYYEARDAY', 'BYWEEKNO', 'BYHOUR', 'BYMINUTE', 'BYSECOND'];
+
+const MAX_LINE_OCTETS = 75;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface IcsDateValue {
+  year: number;
+  month: number;    // 1 〜 12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  allDay: boolean;  // VALUE=DATE
+  utc: boolean;     // 末尾 Z
+  tzid: string | null;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  status: string | null;
+  start: IcsDateValue;
+  end: IcsDateValue | null;
+  duration: number | null;          // ミリ秒（DURATION）
+  rrule: string | null;
+  rdates: IcsDateValue[];
+  exdates: IcsDateValue[];
+  recurrenceId: IcsDateValue | null;
+  lastModified: IcsDateValue | null;
+}
+
+export interface IcsCalendar {
+  name: string | null;
+  timeZone: string | null;  // X-WR-TIMEZONE（TZIDの無い日時に使う）
+  events: IcsEvent[];
+}
+
+export interface IcsExpandOptions {
+  from: Date;
+  to: Date;
+  maxOccurrences: number;   // 1シリーズあたりの上限
+}
+
+/**
+ * 取り込み用に展開した1件の予定
+ * key は UID（繰り返しの場合は「UID#元の開始日時」）で、再取り込み時の重複判定に使う
+ */
+export interface IcsOccurrence {
+  key: string;
+  uid: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+}
+
+export interface IcsExpansion {
+  occurrences: IcsOccurrence[];
+  cancelledKeys: string[];
+  seriesUids: string[];
+  warnings: string[];
+}
+
+/**
+ * 書き出す予定
+ */
+export interface IcsOutputEvent {
+  uid: string;
+  title: string;
+  description?: string | null;
+  location?: string | null;
+  start: Date;
+  end: Date;
+  updatedAt?: Date | null;
+  categories?: string[];
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+}
+
+export interface IcsOutputOptions {
+  name?: string;
+  method?: string | null;   // 既定: PUBLISH（CalDAVのリソースには付けない）
+  refreshMinutes?: number;  // 購読アプリへの更新間隔のヒント
+  now?: Date;
+}
+
+/**
+ * CalDAV のイベントを書き換えるときの内容
+ */
+export interface IcsEventPatch {
+  title: string;
+  description?: string | null;
+  location?: string | null;
+  start: Date;
+  end: Date;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// ---------- 読み込み ----------
+
+/**
+ * 折り返し行を戻して1行ずつのプロパティに分解
+ */
+function parseProperties(text: string): IcsProperty[] {
+  const unfolded = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').replace(/\n[ \t]/g, '');
+  const properties: IcsProperty[] = [];
+
+  for (const line of unfolded.split('\n')) {
+    if (!line.trim()) continue;
+
+    // 引用符内のコロン・セミコロンは区切りとして扱わない
+    let inQuotes = false;
+    let valueStart = -1;
+    const segments: string[] = [];
+    let current = '';
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (!inQuotes && char === ':') {
+        valueStart = i + 1;
+        break;
+      } else if (!inQuotes && char === ';') {
+        segments.push(current);
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    if (valueStart < 0) continue;
+    segments.push(current);
+
+    const [name, ...rawParams] = segments;
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+      const separator = param.indexOf('=');
+      if (separator <= 0) continue;
+      params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, '');
+    }
+
+    properties.push({ name: name.toUpperCase(), params, value: line.slice(valueStart) });
+  }
+
+  return properties;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * DATE / DATE-TIME の値を解析（不正な値は null）
+ */
+export function parseIcsDate(value: string, params: Record<string, string> = {}): IcsDateValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const allDay = params.VALUE === 'DATE' || match[4] === undefined;
+  return {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: allDay ? 0 : Number(match[4]),
+    minute: allDay ? 0 : Number(match[5]),
+    second: allDay ? 0 : Number(match[6] || 0),
+    allDay,
+    utc: !!match[7],
+    tzid: params.TZID || null,
+  };
+}
+
+/**
+ * DURATION（例: PT1H30M, P1D, -PT15M）をミリ秒に変換
+ */
+export function parseIcsDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = ((Number(weeks || 0) * 7 + Number(days || 0)) * 24 * 60 * 60
+    + Number(hours || 0) * 60 * 60
+    + Number(minutes || 0) * 60
+    + Number(seconds || 0)) * 1000;
+
+  return sign === '-' ? -total : total;
+}
+
+/**
+ * .ics テキストを解析（VEVENT 以外のコンポーネントは読み飛ばす）
+ */
+export function parseIcs(text: string): IcsCalendar {
+  const calendar: IcsCalendar = { name: null, timeZone: null, events: [] };
+  const stack: string[] = [];
+  let event: Partial<IcsEvent> | null = null;
+
+  for (const property of parseProperties(text)) {
+    if (property.name === 'BEGIN') {
+      const component = property.value.trim().toUpperCase();
+      stack.push(component);
+      if (component === 'VEVENT') {
+        event = { rdates: [], exdates: [], recurrenceId: null, lastModified: null };
+      }
+      continue;
+    }
+
+    if (property.name === 'END') {
+      const component = stack.pop();
+      if (component === 'VEVENT' && event) {
+        if (event.uid && event.start) {
+          calendar.events.push({
+            uid: event.uid,
+            summary: event.summary || '',
+            description: event.description ?? null,
+            location: event.location ?? null,
+            status: event.status ?? null,
+            start: event.start,
+            end: event.end ?? null,
+            duration: event.duration ?? null,
+            rrule: event.rrule ?? null,
+            rdates: event.rdates || [],
+            exdates: event.exdates || [],
+            recurrenceId: event.recurrenceId ?? null,
+            lastModified: event.lastModified ?? null,
+          });
+        }
+        event = null;
+      }
+      continue;
+    }
+
+    const current = stack[stack.length - 1];
+
+    if (current === 'VCALENDAR') {
+      if (property.name === 'X-WR-CALNAME') calendar.name = unescapeText(property.value);
+      if (property.name === 'X-WR-TIMEZONE') calendar.timeZone = property.value.trim();
+      continue;
+    }
+
+    // VEVENT 内の VALARM などのプロパティは対象外
+    if (current !== 'VEVENT' || !event) continue;
+
+    switch (property.name) {
+      case 'UID':
+        event.uid = property.value.trim();
+        break;
+      case 'SUMMARY':
+        event.summary = unescapeText(property.value);
+        break;
+      case 'DESCRIPTION':
+        event.description = unescapeText(property.value);
+        break;
+      case 'LOCATION':
+        event.location = unescapeText(property.value);
+        break;
+      case 'STATUS':
+        event.status = property.value.trim().toUpperCase();
+        break;
+      case 'DTSTART':
+        event.start = parseIcsDate(property.value, property.params) ?? undefined;
+        break;
+      case 'DTEND':
+        event.end = parseIcsDate(property.value, property.params) ?? undefined;
+        break;
+      case 'DURATION':
+        event.duration = parseIcsDuration(property.value) ?? undefined;
+        break;
+      case 'RRULE':
+        event.rrule = property.value.trim();
+        break;
+      case 'RDATE':
+      case 'EXDATE': {
+        const dates = property.value
+          .split(',')
+          .map(value => parseIcsDate(value, property.params))
+          .filter((date): date is IcsDateValue => date !== null);
+        (property.name === 'RDATE' ? event.rdates! : event.exdates!).push(...dates);
+        break;
+      }
+      case 'RECURRENCE-ID':
+        event.recurrenceId = parseIcsDate(property.value, property.params);
+        break;
+      case 'LAST-MODIFIED':
+        event.lastModified = parseIcsDate(property.value, property.params);
+        break;
+    }
+  }
+
+  return calendar;
+}
+
+// ---------- タイムゾーン ----------
+
+/**
+ * Intl で扱えるタイムゾーン名に正規化（不明な場合は null = サーバーのローカル時刻）
+ */
+export function resolveTimeZone(tzid: string | null | undefined): string | null {
+  if (!tzid) return null;
+
+  // "/mozilla.org/20050126_1/Asia/Tokyo" のような接頭辞付きの TZID
+  const candidates = [WINDOWS_TIME_ZONES[tzid], tzid, tzid.replace(/^\/?(?:[^/]+\/)*?(?=[A-Z][a-z]+\/)/, '')];
+  return candidates.find(candidate => isValidTimeZone(candidate)) ?? null;
+}
+
+/**
+ * 日時の値を Date に変換
+ * TZID も Z も無い日時（フローティング）はカレンダー既定のタイムゾーンで解釈する
+ */
+export function icsDateToDate(value: IcsDateValue, defaultTimeZone: string | null = null): Date {
+  if (value.utc) {
+    return new Date(Date.UTC(value.year, value.month - 1, value.day, value.hour, value.minute, value.second));
+  }
+  return fromWallClock(value, resolveTimeZone(value.tzid) ?? resolveTimeZone(defaultTimeZone));
+}
+
+// ---------- 繰り返しの展開 ----------
+
+/**
+ * 壁時計の時刻をサーバーのローカル時刻上の Date として表す（繰り返し計算用）
+ */
+function floating(clock: WallClock): Date {
+  return new Date(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+}
+
+function clockOf(date: Date): WallClock {
+  return wallClockIn(date, null);
+}
+
+/**
+ * RRULE を繰り返しエンジンのルールに変換（展開できない場合は null）
+ */
+function toRecurrenceRule(rrule: string, timeZone: string | null): RecurrenceRule | null {
+  const fields = new Map<string, string>();
+  for (const part of rrule.replace(/^RRULE:/i, '').split(';')) {
+    const [key, value] = part.split('=');
+    if (key && value) fields.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  if (UNSUPPORTED_RRULE_PARTS.some(part => fields.has(part))) return null;
+
+  const rule = parseRRule(rrule);
+  if (!rule) return null;
+
+  // BYDAY は毎週のみ、序数付き（2MO など）は未対応。BYMONTHDAY は毎月のみ
+  const byDay = fields.get('BYDAY');
+  if (byDay && (rule.frequency !== 'weekly' || /\d/.test(byDay))) return null;
+  if (fields.has('BYMONTHDAY') && rule.frequency !== 'monthly') return null;
+
+  // UNTIL は予定のタイムゾーンでの日付に合わせる
+  const until = fields.get('UNTIL');
+  if (until) {
+    const untilValue = parseIcsDate(until);
+    if (!untilValue) return null;
+    rule.until = toDateKey(floating(wallClockIn(icsDateToDate(untilValue, timeZone), timeZone)));
+  }
+
+  return rule;
+}
+
+function occurrenceKey(uid: string, originalStart: Date): string {
+  return `${uid}#${originalStart.toISOString()}`;
+}
+
+/**
+ * 解析したカレンダーを取り込み用の予定に展開
+ * 繰り返しは期間内のみ展開し、RECURRENCE-ID の予定で個別の変更・キャンセルを上書きする
+ */
+export function expandIcsCalendar(calendar: IcsCalendar, options: IcsExpandOptions): IcsExpansion {
+  const expansion: IcsExpansion = { occurrences: [], cancelledKeys: [], seriesUids: [], warnings: [] };
+
+  const overrides = new Map<string, IcsEvent>();
+  for (const event of calendar.events) {
+    if (event.recurrenceId) {
+      overrides.set(occurrenceKey(event.uid, icsDateToDate(event.recurrenceId, calendar.timeZone)), event);
+    }
+  }
+
+  const toOccurrence = (event: IcsEvent, key: string, start: Date, length: number): IcsOccurrence => ({
+    key,
+    uid: event.uid,
+    title: event.summary.trim() || '(無題)',
+    description: event.description,
+    location: event.location,
+    start,
+    end: new Date(start.getTime() + length),
+    allDay: event.start.allDay,
+  });
+
+  for (const event of calendar.events) {
+    if (event.recurrenceId) continue;
+
+    const timeZone = resolveTimeZone(event.start.tzid) ?? resolveTimeZone(calendar.timeZone);
+    const start = icsDateToDate(event.start, calendar.timeZone);
+    const length = event.end
+      ? Math.max(0, icsDateToDate(event.end, calendar.timeZone).getTime() - start.getTime())
+      : event.duration ?? (event.start.allDay ? DAY_MS : 0);
+    const cancelled = event.status === 'CANCELLED';
+
+    if (!event.rrule && event.rdates.length === 0) {
+      if (cancelled) {
+        expansion.cancelledKeys.push(event.uid);
+      } else {
+        expansion.occurrences.push(toOccurrence(event, event.uid, start, length));
+      }
+      continue;
+    }
+
+    expansion.seriesUids.push(event.uid);
+    if (cancelled) continue;
+
+    const starts: Date[] = [];
+    const rule = event.rrule ? toRecurrenceRule(event.rrule, calendar.timeZone) : null;
+
+    if (event.rrule && !rule) {
+      expansion.warnings.push(`「${event.summary || event.uid}」の繰り返しルール（${event.rrule}）は未対応のため初回のみ取り込みました`);
+      starts.push(start);
+    } else if (rule) {
+      rule.exceptions = event.exdates.map(exdate =>
+        toDateKey(floating(wallClockIn(icsDateToDate(exdate, calendar.timeZone), timeZone)))
+      );
+
+      // タイムゾーンの差を吸収するため前後1日広げて計算し、変換後に期間で絞る
+      const dtstart = floating(wallClockIn(start, timeZone));
+      const floatingFrom = new Date(floating(clockOf(options.from)).getTime() - DAY_MS);
+      const floatingTo = new Date(floating(clockOf(options.to)).getTime() + DAY_MS);
+      const occurrences = getOccurrences(rule, dtstart, {
+        from: floatingFrom,
+        to: floatingTo,
+        limit: options.maxOccurrences,
+      });
+      starts.push(...occurrences.map(occurrence => fromWallClock(clockOf(occurrence), timeZone)));
+
+      if (occurrences.length >= options.maxOccurrences) {
+        expansion.warnings.push(`「${event.summary || event.uid}」は発生回数が多いため先頭の${options.maxOccurrences}件のみ取り込みました`);
+      }
+    } else {
+      starts.push(start);
+    }
+
+    for (const rdate of event.rdates) {
+      starts.push(icsDateToDate(rdate, calendar.timeZone));
+    }
+
+    const seen = new Set<string>();
+    for (const occurrenceStart of starts) {
+      const key = occurrenceKey(event.uid, occurrenceStart);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const override = overrides.get(key);
+      if (override) continue; // 個別に変更された回は下でまとめて扱う
+      if (occurrenceStart < options.from || occurrenceStart > options.to) continue;
+
+      expansion.occurrences.push(toOccurrence(event, key, occurrenceStart, length));
+    }
+  }
+
+  // 個別に変更・キャンセルされた回（移動先が期間外でも元の回の置き換えとして取り込む）
+  for (const [key, override] of Array.from(overrides.entries())) {
+    if (override.status === 'CANCELLED') {
+      expansion.cancelledKeys.push(key);
+      continue;
+    }
+
+    const start = icsDateToDate(override.start, calendar.timeZone);
+    const length = override.end
+      ? Math.max(0, icsDateToDate(override.end, calendar.timeZone).getTime() - start.getTime())
+      : override.duration ?? (override.start.allDay ? DAY_MS : 0);
+    expansion.occurrences.push(toOccurrence(override, key, start, length));
+  }
+
+  return expansion;
+}
+
+// ---------- 書き出し ----------
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+export function formatIcsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * 75オクテットで折り返す（UTF-8 のマルチバイト文字の途中では切らない）
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) return line;
+
+  const lines: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of Array.from(line)) {
+    const bytes = Buffer.byteLength(char, 'utf8');
+    // 継続行は先頭の空白1文字分を含めて75オクテット
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentBytes + bytes > limit) {
+      lines.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n ');
+}
+
+/**
+ * 予定の一覧を .ics テキストに変換（日時はすべて UTC で出力）
+ */
+export function buildIcs(events: IcsOutputEvent[], options: IcsOutputOptions): string {
+  const stamp = formatIcsDateTime(options.now ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//AI Schedule Assistant//Calendar Export//JA',
+    'CALSCALE:GREGORIAN',
+  ];
+
+  const method = options.method === undefined ? 'PUBLISH' : options.method;
+  if (method) lines.push(`METHOD:${method}`);
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+
+  if (options.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${options.refreshMinutes}M`);
+  }
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsDateTime(event.start)}`,
+      `DTEND:${formatIcsDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.title)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatIcsDateTime(event.updatedAt)}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ---------- 既存データの書き換え（CalDAV） ----------
+
+/**
+ * VEVENT の範囲（アンフォールド済みの行番号、BEGIN/END を含む）
+ */
+interface VEventBlock {
+  begin: number;
+  end: number;
+  recurrenceId: IcsDateValue | null;
+}
+
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(line => line !== '');
+}
+
+function propertyName(line: string): string {
+  const match = line.match(/^[A-Za-z0-9-]+/);
+  return match ? match[0].toUpperCase() : '';
+}
+
+function findVEvents(lines: string[]): VEventBlock[] {
+  const blocks: VEventBlock[] = [];
+  let depth = 0;
+  let current: VEventBlock | null = null;
+
+  lines.forEach((line, index) => {
+    const upper = line.toUpperCase();
+    if (upper.startsWith('BEGIN:')) {
+      depth++;
+      if (upper === 'BEGIN:VEVENT') {
+        current = { begin: index, end: -1, recurrenceId: null };
+      }
+    } else if (upper.startsWith('END:')) {
+      depth--;
+      if (upper === 'END:VEVENT' && current) {
+        current.end = index;
+        blocks.push(current);
+        current = null;
+      }
+    } else if (current && depth === 2 && propertyName(line) === 'RECURRENCE-ID') {
+      const [property] = parseProperties(line);
+      current.recurrenceId = property ? parseIcsDate(property.value, property.params) : null;
+    }
+  });
+
+  return blocks;
+}
+
+function calendarTimeZone(lines: string[]): string | null {
+  const line = lines.find(item => propertyName(item) === 'X-WR-TIMEZONE');
+  return line ? line.slice(line.indexOf(':') + 1).trim() : null;
+}
+
+function patchLines(patch: IcsEventPatch, stamp: string): string[] {
+  const lines = [
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${stamp}`,
+    `DTSTART:${formatIcsDateTime(patch.start)}`,
+    `DTEND:${formatIcsDateTime(patch.end)}`,
+    `SUMMARY:${escapeText(patch.title)}`,
+  ];
+  if (patch.description) lines.push(`DESCRIPTION:${escapeText(patch.description)}`);
+  if (patch.location) lines.push(`LOCATION:${escapeText(patch.location)}`);
+  return lines;
+}
+
+/**
+ * VEVENT 直下の指定プロパティを取り除く（VALARM などの中は残す）
+ */
+function withoutProperties(lines: string[], block: VEventBlock, names: string[]): string[] {
+  const body: string[] = [];
+  let depth = 0;
+  for (let i = block.begin + 1; i < block.end; i++) {
+    const upper = lines[i].toUpperCase();
+    if (upper.startsWith('BEGIN:')) depth++;
+    if (depth === 0 && names.includes(propertyName(lines[i]))) continue;
+    if (upper.startsWith('END:')) depth--;
+    body.push(lines[i]);
+  }
+  return body;
+}
+
+function serializeLines(lines: string[]): string {
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+const PATCHED_PROPERTIES = ['DTSTAMP', 'LAST-MODIFIED', 'DTSTART', 'DTEND', 'DURATION', 'SUMMARY', 'DESCRIPTION', 'LOCATION', 'SEQUENCE'];
+
+/**
+ * .ics リソースのイベントを書き換える（出席者やアラームなど、扱わないプロパティは保持する）
+ * recurrenceId を指定すると繰り返しのその回だけを変更する（RECURRENCE-ID の VEVENT を追加・更新）
+ */
+export function patchIcsEvent(text: string, patch: IcsEventPatch, recurrenceId: Date | null = null, now: Date = new Date()): string {
+  const lines = unfoldLines(text);
+  const timeZone = calendarTimeZone(lines);
+  const blocks = findVEvents(lines);
+  const master = blocks.find(block => !block.recurrenceId);
+  const target = recurrenceId
+    ? blocks.find(block => block.recurrenceId && icsDateToDate(block.recurrenceId, timeZone).getTime() === recurrenceId.getTime())
+    : master;
+  const stamp = formatIcsDateTime(now);
+
+  if (target) {
+    const sequenceLine = lines.slice(target.begin, target.end).find(line => propertyName(line) === 'SEQUENCE');
+    const sequence = sequenceLine ? Number(sequenceLine.slice(sequenceLine.indexOf(':') + 1)) || 0 : 0;
+    const body = withoutProperties(lines, target, PATCHED_PROPERTIES);
+
+    return serializeLines([
+      ...lines.slice(0, target.begin + 1),
+      ...body,
+      ...patchLines(patch, stamp),
+      `SEQUENCE:${sequence + 1}`,
+      ...lines.slice(target.end),
+    ]);
+  }
+
+  if (!recurrenceId || !master) {
+    throw new Error('書き換える予定が見つかりません');
+  }
+
+  // 繰り返しのその回を初めて変更する場合は、マスターの UID で例外の VEVENT を追加
+  const uidLine = lines.slice(master.begin, master.end).find(line => propertyName(line) === 'UID');
+  const calendarEnd = lines.map(line => line.toUpperCase()).lastIndexOf('END:VCALENDAR');
+  return serializeLines([
+    ...lines.slice(0, calendarEnd),
+    'BEGIN:VEVENT',
+    uidLine || `UID:${crypto.randomUUID()}`,
+    `RECURRENCE-ID:${formatIcsDateTime(recurrenceId)}`,
+    ...patchLines(patch, stamp),
+    'SEQUENCE:1',
+    'END:VEVENT',
+    ...lines.slice(calendarEnd),
+  ]);
+}
+
+/**
+ * 繰り返しの1回を削除する（マスターに EXDATE を追加し、その回の例外 VEVENT があれば取り除く）
+ */
+export function excludeIcsOccurrence(text: string, occurrence: Date): string {
+  const lines = unfoldLines(text);
+  const timeZone = calendarTimeZone(lines);
+  const blocks = findVEvents(lines);
+  const master = blocks.find(block => !block.recurrenceId);
+  if (!master) {
+    throw new Error('繰り返しの予定が見つかりません');
+  }
+
+  const startLine = lines.slice(master.begin, master.end).find(line => propertyName(line) === 'DTSTART');
+  const [start] = startLine ? parseProperties(startLine) : [];
+  const startValue = start ? parseIcsDate(start.value, start.params) : null;
+
+  let exdate: string;
+  if (startValue?.allDay) {
+    const clock = wallClockIn(occurrence, resolveTimeZone(startValue.tzid) ?? resolveTimeZone(timeZone));
+    exdate = `EXDATE;VALUE=DATE:${clock.year}${String(clock.month).padStart(2, '0')}${String(clock.day).padStart(2, '0')}`;
+  } else {
+    exdate = `EXDATE:${formatIcsDateTime(occurrence)}`;
+  }
+
+  const overrides = new Set<number>();
+  for (const block of blocks) {
+    if (block.recurrenceId && icsDateToDate(block.recurrenceId, timeZone).getTime() === occurrence.getTime()) {
+      for (let i = block.begin; i <= block.end; i++) overrides.add(i);
+    }
+  }
+
+  const result: string[] = [];
+  lines.forEach((line, index) => {
+    if (overrides.has(index)) return;
+    if (index === master.end) result.push(exdate);
+    result.push(line);
+  });
+
+  return serializeLines(result);
+}
@@ -0,0 +1,183 @@
+// ===========================================
+// iCalendar Import - AI Schedule Assistant
+// .ics の予定を events に取り込む（UIDで重複を防ぎ、再取り込みで更新する）
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ICS_CONFIG } from '@/lib/config/environment';
+import { IcsOccurrence, expandIcsCalendar, parseIcs } from './ics';
+
+export const ICS_EVENT_SOURCE = 'ics_import';
+
+/**
+ * events の列の長さ制限
+ */
+const MAX_TITLE_LENGTH = 255;
+const MAX_LOCATION_LENGTH = 255;
+
+/**
+ * 1回の問い合わせで扱う件数
+ */
+const QUERY_CHUNK_SIZE = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface IcsImportOptions {
+  from?: Date;
+  to?: Date;
+  now?: Date;
+}
+
+export interface IcsImportResult {
+  calendarName: string | null;
+  created: number;
+  updated: number;
+  removed: number;
+  warnings: string[];
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function truncate(value: string | null, maxLength: number): string | null {
+  if (value === null) return null;
+  return value.length > maxLength ? value.slice(0, maxLength) : value;
+}
+
+function toEventRow(userId: string, occurrence: IcsOccurrence, importedAt: string) {
+  return {
+    user_id: userId,
+    external_uid: occurrence.key,
+    title: truncate(occurrence.title, MAX_TITLE_LENGTH)!,
+    description: occurrence.description,
+    start_time: occurrence.start.toISOString(),
+    end_time: occurrence.end.toISOString(),
+    location: truncate(occurrence.location, MAX_LOCATION_LENGTH),
+    event_source: ICS_EVENT_SOURCE,
+    sync_status: 'synced' as const,
+    last_synced_at: importedAt,
+  };
+}
+
+/**
+ * 繰り返しシリーズのキーか（UID 単体の旧キーも含む）
+ */
+function belongsToSeries(key: string, seriesUids: Set<string>): boolean {
+  const separator = key.lastIndexOf('#');
+  return seriesUids.has(key) || (separator > 0 && seriesUids.has(key.slice(0, separator)));
+}
+
+/**
+ * .ics テキストを取り込む
+ * 取り込んだ予定は読み取り専用のコピーで、同じファイルを再取り込みすると元のカレンダーの内容で上書きされる。
+ * 繰り返しは期間内のみ展開し、期間内で無くなった回（除外・キャンセル）は削除する
+ */
+export async function importIcs(
+  supabase: SupabaseClient,
+  userId: string,
+  text: string,
+  options: IcsImportOptions = {}
+): Promise<IcsImportResult> {
+  const now = options.now ?? new Date();
+  const from = options.from ?? new Date(now.getTime() - ICS_CONFIG.importPastDays * DAY_MS);
+  const to = options.to ?? new Date(now.getTime() + ICS_CONFIG.importFutureDays * DAY_MS);
+  const importedAt = now.toISOString();
+
+  const calendar = parseIcs(text);
+  const expansion = expandIcsCalendar(calendar, { from, to, maxOccurrences: ICS_CONFIG.maxOccurrences });
+  const result: IcsImportResult = {
+    calendarName: calendar.name,
+    created: 0,
+    updated: 0,
+    removed: 0,
+    warnings: expansion.warnings,
+  };
+
+  // 同じキーが複数回現れた場合は後のものを採用
+  const occurrences = new Map<string, IcsOccurrence>();
+  for (const occurrence of expansion.occurrences) {
+    occurrences.set(occurrence.key, occurrence);
+  }
+  const keys = Array.from(occurrences.keys());
+
+  const existingKeys = new Set<string>();
+  for (const keyChunk of chunk(keys, QUERY_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('events')
+      .select('external_uid')
+      .eq('user_id', userId)
+      .in('external_uid', keyChunk);
+
+    if (error) throw error;
+    for (const row of data || []) existingKeys.add(row.external_uid);
+  }
+
+  for (const rowChunk of chunk(Array.from(occurrences.values()), QUERY_CHUNK_SIZE)) {
+    const { error } = await supabase
+      .from('events')
+      .upsert(
+        rowChunk.map(occurrence => toEventRow(userId, occurrence, importedAt)),
+        { onConflict: 'user_id,external_uid' }
+      );
+
+    if (error) throw error;
+  }
+
+  for (const key of keys) {
+    if (existingKeys.has(key)) {
+      result.updated++;
+    } else {
+      result.created++;
+    }
+  }
+
+  // キャンセルされた予定と、期間内で無くなった繰り返しの回を削除
+  const staleIds: string[] = [];
+  const seriesUids = new Set(expansion.seriesUids);
+  if (seriesUids.size > 0) {
+    const { data, error } = await supabase
+      .from('events')
+      .select('id, external_uid')
+      .eq('user_id', userId)
+      .eq('event_source', ICS_EVENT_SOURCE)
+      .gte('start_time', from.toISOString())
+      .lte('start_time', to.toISOString());
+
+    if (error) throw error;
+    for (const row of data || []) {
+      if (row.external_uid && !occurrences.has(row.external_uid) && belongsToSeries(row.external_uid, seriesUids)) {
+        staleIds.push(row.id);
+      }
+    }
+  }
+
+  for (const keyChunk of chunk(expansion.cancelledKeys.filter(key => !occurrences.has(key)), QUERY_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('events')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('event_source', ICS_EVENT_SOURCE)
+      .in('external_uid', keyChunk);
+
+    if (error) throw error;
+    staleIds.push(...(data || []).map(row => row.id));
+  }
+
+  for (const idChunk of chunk(Array.from(new Set(staleIds)), QUERY_CHUNK_SIZE)) {
+    const { error } = await supabase
+      .from('events')
+      .delete()
+      .eq('user_id', userId)
+      .in('id', idChunk);
+
+    if (error) throw error;
+    result.removed += idChunk.length;
+  }
+
+  return result;
+}
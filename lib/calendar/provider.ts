@@ -0,0 +1,78 @@
+// ===========================================
+// Calendar Provider - AI Schedule Assistant
+// Google Calendar と CalDAV を同じ同期・キャッシュ・競合解決で扱うための共通インターフェース
+// ===========================================
+
+import { CalendarProviderEvent, CalendarProviderType } from '@/types/shared';
+
+/**
+ * 差分取得の結果（1ページ分）
+ */
+export interface EventChangesPage {
+  events: CalendarProviderEvent[];   // status === 'cancelled' は削除されたイベント
+  nextPageToken?: string;
+  nextSyncToken?: string;
+  // CalDAVのようにリソース（.ics）単位で変更が届く場合の変更されたリソースのID。
+  // そのリソースから展開されたローカルのイベントのうち、このページに含まれないもの（繰り返しの除外など）は削除する
+  changedResources?: string[];
+}
+
+/**
+ * イベント作成・更新の入力
+ */
+export interface CalendarEventInput {
+  title: string;
+  description?: string;
+  startTime: string;
+  endTime: string;
+  location?: string;
+  privateProperties?: Record<string, string>;   // extendedProperties.private（アプリ用のマーカー、Googleのみ）
+}
+
+export interface EventChangesOptions {
+  calendarId?: string;
+  syncToken?: string;
+  pageToken?: string;
+  timeMin?: string;
+}
+
+/**
+ * 外部カレンダーのクライアント
+ * エラーは HTTP ステータスを status に持たせて送出する（412: 競合、410: syncToken 期限切れ）
+ */
+export interface CalendarProvider {
+  readonly type: CalendarProviderType;
+  readonly eventSource: string;            // events.event_source
+  readonly connectionId: string | null;    // events.calendar_connection_id（Googleは null）
+  readonly scope: Record<string, string>;  // このカレンダーの events 行を絞り込む条件（取り込み時にも設定する）
+
+  getEvents(startDate?: string, endDate?: string, maxResults?: number): Promise<CalendarProviderEvent[]>;
+  listEventChanges(options?: EventChangesOptions): Promise<EventChangesPage>;
+  createEvent(event: CalendarEventInput, options?: { calendarId?: string }): Promise<CalendarProviderEvent>;
+  updateEvent(
+    eventId: string,
+    event: CalendarEventInput,
+    options?: { calendarId?: string; etag?: string }
+  ): Promise<CalendarProviderEvent>;
+  deleteEvent(eventId: string, options?: { calendarId?: string }): Promise<void>;
+  testConnection(): Promise<boolean>;
+}
+
+/**
+ * プロバイダーのエラーからHTTPステータスを取り出す
+ */
+export function getCalendarErrorStatus(error: unknown): number | undefined {
+  const err = error as { status?: number; code?: number | string; response?: { status?: number } };
+  if (typeof err?.response?.status === 'number') return err.response.status;
+  if (typeof err?.status === 'number') return err.status;
+  if (typeof err?.code === 'number') return err.code;
+  return undefined;
+}
+
+/**
+ * 画面表示用のプロバイダー名
+ */
+export const CALENDAR_PROVIDER_LABELS: Record<CalendarProviderType, string> = {
+  google: 'Google',
+  caldav: 'CalDAV',
+};
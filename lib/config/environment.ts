@@ -124,6 +124,110 @@ export const isProduction = process.env.NODE_ENV === 'production';
  */
 export const isTest = process.env.NODE_ENV === 'test';
 
+/**
+ * 開発用認証バイパス設定
+ * 開発環境かつ NEXT_PUBLIC_BYPASS_AUTH=true の場合のみ有効（本番では常に無効）
+ */
+export const AUTH_BYPASS = {
+  enabled: isDevelopment && process.env.NEXT_PUBLIC_BYPASS_AUTH === 'true',
+  userId: process.env.DEV_BYPASS_USER_ID || 'test-user-123',
+} as const;
+
+/**
+ * AIプロバイダーとトークン予算の設定
+ * AI_PROVIDER 未指定時は、開発環境またはAPIキー未設定ならモック、それ以外はOpenAIを使う
+ */
+export const AI_CONFIG = {
+  provider: process.env.AI_PROVIDER || (isDevelopment || !process.env.OPENAI_API_KEY ? 'mock' : 'openai'),
+  primaryModel: process.env.AI_PRIMARY_MODEL || 'gpt-4o',
+  economyModel: process.env.AI_ECONOMY_MODEL || 'gpt-4o-mini',
+  localBaseUrl: process.env.AI_LOCAL_BASE_URL || 'http://localhost:11434/v1',
+  localModel: process.env.AI_LOCAL_MODEL || 'llama3.1',
+  localApiKey: process.env.AI_LOCAL_API_KEY || 'local',
+  monthlyTokenLimit: Number(process.env.AI_MONTHLY_TOKEN_LIMIT) || 500000,
+  userMonthlyTokenLimit: Number(process.env.AI_USER_MONTHLY_TOKEN_LIMIT) || 500000,
+  downgradeThreshold: 0.8,
+} as const;
+
+/**
+ * メール通知の送信設定
+ * EMAIL_TRANSPORT 未指定時は、SMTP_HOSTがあればSMTP、無ければコンソール出力（送信しない）
+ * テストではMailpitなどローカルのSMTPキャッチャー（SMTP_HOST=localhost SMTP_PORT=1025）を使う
+ */
+export const EMAIL_CONFIG = {
+  transport: process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console'),
+  from: process.env.EMAIL_FROM || 'AI Schedule Assistant <no-reply@localhost>',
+  smtpHost: process.env.SMTP_HOST || 'localhost',
+  smtpPort: Number(process.env.SMTP_PORT) || 1025,
+  smtpSecure: process.env.SMTP_SECURE === 'true',   // 接続時からTLS（465番ポートなど）
+  smtpUser: process.env.SMTP_USER,
+  smtpPassword: process.env.SMTP_PASSWORD,
+  batchSize: Number(process.env.EMAIL_BATCH_SIZE) || 20,                // 1接続で送る最大通数
+  maxPerMinute: Number(process.env.EMAIL_MAX_PER_MINUTE) || 60,          // プロバイダーの送信レート上限
+} as const;
+
+/**
+ * Web Push（VAPID）の設定
+ * 鍵が未設定の場合、ブラウザ通知は /api/notifications/pending のポーリングで届ける
+ */
+export const PUSH_CONFIG = {
+  vapidPublicKey: process.env.VAPID_PUBLIC_KEY,     // base64url（非圧縮のP-256公開鍵）
+  vapidPrivateKey: process.env.VAPID_PRIVATE_KEY,   // base64url（32バイトの秘密鍵）
+  vapidSubject: process.env.VAPID_SUBJECT || 'mailto:admin@localhost',
+  ttlSeconds: Number(process.env.PUSH_TTL_SECONDS) || 86400,
+  ackTimeoutSeconds: Number(process.env.PUSH_ACK_TIMEOUT_SECONDS) || 900, // 表示の確認を待つ時間
+  mockEnabled: isDevelopment || process.env.PUSH_MOCK_ENABLED === 'true', // テスト用のモックプッシュサービス
+} as const;
+
+/**
+ * 通知から操作（完了・スヌーズ・延期）するときの設定
+ * DiscordやメールのリンクはAPP_URLを基準にした絶対URLになる
+ */
+export const NOTIFICATION_ACTION_CONFIG = {
+  appUrl: (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, ''),
+  linkTtlHours: Number(process.env.NOTIFICATION_ACTION_LINK_TTL_HOURS) || 72, // 操作リンクの有効期限
+  snoozeMinutes: 15,
+} as const;
+
+/**
+ * iCalendar（.ics）の取り込み・書き出しと購読フィードの設定
+ * フィードのURLはAPP_URLを基準にした絶対URLになる
+ */
+export const ICS_CONFIG = {
+  appUrl: (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, ''),
+  maxImportBytes: 2 * 1024 * 1024,
+  importPastDays: 30,         // 繰り返しを展開する期間（過去）
+  importFutureDays: 365,      // 繰り返しを展開する期間（未来）
+  maxOccurrences: 500,        // 1シリーズあたりの展開上限
+  exportPastDays: 30,
+  exportFutureDays: 180,
+  feedRefreshMinutes: 60,     // 購読アプリへの更新間隔のヒント
+} as const;
+
+/**
+ * CalDAVの設定
+ * 利用者が指定したサーバーへサーバー側から接続するため、既定では https のみ許可する
+ * （ローカルのCalDAVサーバーで試す場合は開発環境か CALDAV_ALLOW_INSECURE=true で http を許可）
+ */
+export const CALDAV_CONFIG = {
+  allowInsecure: isDevelopment || process.env.CALDAV_ALLOW_INSECURE === 'true',
+  requestTimeoutMs: Number(process.env.CALDAV_REQUEST_TIMEOUT_MS) || 15000,
+  expandDays: 365,            // 繰り返しを展開する期間（同期開始日から）
+  maxOccurrences: 500,        // 1シリーズあたりの展開上限
+} as const;
+
+/**
+ * 移動時間の見積もり（ルーティングプロバイダー）の設定
+ * ROUTING_PROVIDER 未指定時は、GOOGLE_MAPS_API_KEY があれば Google Maps、無ければ固定の所要時間表（TRAVEL_STATIC_TABLE）
+ * TRAVEL_STATIC_TABLE は [{"from": "自宅の住所", "to": "渋谷オフィス", "minutes": {"transit": 25}}] 形式のJSON（"*" はどこでも一致）
+ */
+export const TRAVEL_CONFIG = {
+  provider: process.env.ROUTING_PROVIDER || (process.env.GOOGLE_MAPS_API_KEY ? 'google' : 'static'),
+  googleMapsApiKey: process.env.GOOGLE_MAPS_API_KEY,
+  staticTable: process.env.TRAVEL_STATIC_TABLE,
+  requestTimeoutMs: Number(process.env.ROUTING_REQUEST_TIMEOUT_MS) || 10000,
+} as const;
+
 /**
  * 環境設定のログ出力（開発環境のみ、機密情報は除く）
  */
@@ -134,6 +238,10 @@ export function logEnvironmentStatus(): void {
   console.log(`   • Node Environment: ${process.env.NODE_ENV}`);
   console.log(`   • Supabase URL: ${ENV_CONFIG.supabase.url}`);
   console.log(`   • OpenAI: ${ENV_CONFIG.openai ? '✅ Configured' : '❌ Not configured'}`);
+  console.log(`   • AI Provider: ${AI_CONFIG.provider}`);
   console.log(`   • Google Calendar: ${ENV_CONFIG.google ? '✅ Configured' : '❌ Not configured'}`);
   console.log(`   • Discord: ${ENV_CONFIG.discord ? '✅ Configured' : '❌ Not configured'}`);
+  console.log(`   • Email Transport: ${EMAIL_CONFIG.transport}`);
+  console.log(`   • Web Push: ${PUSH_CONFIG.vapidPublicKey && PUSH_CONFIG.vapidPrivateKey ? '✅ Configured' : '❌ Not configured (polling)'}`);
+  console.log(`   • Auth Bypass: ${AUTH_BYPASS.enabled ? `⚠️ Enabled (${AUTH_BYPASS.userId})` : '❌ Disabled'}`);
 }
\ No newline at end of file
@@ -131,6 +131,23 @@ export class RateLimitError extends AppError {
   }
 }
 
+/**
+ * AIトークン予算超過エラー
+ */
+export class TokenBudgetExceededError extends AppError {
+  readonly code = 'AI_TOKEN_BUDGET_EXCEEDED';
+  readonly statusCode = 429;
+
+  constructor(scope: 'user' | 'global', details?: Record<string, unknown>) {
+    super(
+      scope === 'user'
+        ? '今月のAI機能の利用上限に達しました。来月1日に利用できるようになります。'
+        : '今月のAI機能の提供枠がなくなりました。来月1日に再開します。',
+      { scope, ...details }
+    );
+  }
+}
+
 /**
  * 外部API エラー
  */
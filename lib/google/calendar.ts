@@ -1,36 +1,168 @@
 // Google Calendar API クライアント（シンプル実装）
-import { google } from 'googleapis';
-import { GoogleCalendarEvent } from '@/types/shared';
+import { google, calendar_v3 } from 'googleapis';
+import { CalendarProviderType, GoogleCalendarEvent } from '@/types/shared';
+import {
+  CalendarEventInput,
+  CalendarProvider,
+  EventChangesOptions,
+  EventChangesPage,
+  getCalendarErrorStatus,
+} from '@/lib/calendar/provider';
+import { DEFAULT_TIME_ZONE } from '@/lib/schedule/timezone';
 
-// OAuth2設定（開発環境用）
-const oauth2Client = new google.auth.OAuth2(
-  process.env.GOOGLE_CLIENT_ID,
-  process.env.GOOGLE_CLIENT_SECRET,
-  `${process.env.NEXT_PUBLIC_APP_URL}/api/auth/google/callback`
-);
+export type { CalendarEventInput, EventChangesPage } from '@/lib/calendar/provider';
 
-// Calendar APIクライアント
-const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+export type GoogleOAuthClient = InstanceType<typeof google.auth.OAuth2>;
+
+/**
+ * OAuth2クライアントを作成（ユーザーごとに作り、資格情報を共有しない）
+ * 期限切れ前の更新に加え、401 で失敗した場合もリフレッシュトークンで更新して1回だけ再試行する
+ */
+export function createGoogleOAuthClient(): GoogleOAuthClient {
+  return new google.auth.OAuth2({
+    clientId: process.env.GOOGLE_CLIENT_ID,
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+    redirectUri: `${process.env.NEXT_PUBLIC_APP_URL}/api/auth/google/callback`,
+    forceRefreshOnFailure: true,
+  });
+}
+
+// Calendar APIクライアント（GOOGLE_CALENDAR_API_URL でローカルのスタブサーバーに向けられる）
+function createCalendarApi(auth: GoogleOAuthClient) {
+  return google.calendar({
+    version: 'v3',
+    auth,
+    ...(process.env.GOOGLE_CALENDAR_API_URL && { rootUrl: process.env.GOOGLE_CALENDAR_API_URL }),
+  });
+}
+
+/**
+ * 1ページあたりの最大取得件数（Google Calendar APIの上限）
+ */
+const MAX_PAGE_SIZE = 250;
+
+/**
+ * メインのカレンダー
+ */
+export const PRIMARY_CALENDAR_ID = 'primary';
+
+/**
+ * calendarList のカレンダー
+ */
+export interface GoogleCalendarListEntry {
+  id: string;                 // メインのカレンダーは 'primary'
+  summary: string;
+  backgroundColor: string | null;
+  foregroundColor: string | null;
+  accessRole: string;         // owner / writer / reader / freeBusyReader
+  primary: boolean;
+}
+
+/**
+ * Google APIエラーからHTTPステータスを取り出す
+ */
+export const getGoogleErrorStatus = getCalendarErrorStatus;
+
+/**
+ * アプリ内のイベントID（メイン以外のカレンダーは「カレンダーID/イベントID」）
+ * 同じ会議が複数のカレンダーに入っていても events.google_event_id が重複しないようにする
+ */
+export function toGoogleEventKey(calendarId: string, eventId: string): string {
+  return calendarId === PRIMARY_CALENDAR_ID ? eventId : `${calendarId}/${eventId}`;
+}
+
+/**
+ * アプリ内のイベントIDからカレンダーIDとGoogleのイベントIDを取り出す
+ * （Googleのイベントは / を含まないため、含まない場合はメインのカレンダーのイベント）
+ */
+export function parseGoogleEventKey(key: string): { calendarId: string; eventId: string } {
+  const index = key.lastIndexOf('/');
+  return index === -1
+    ? { calendarId: PRIMARY_CALENDAR_ID, eventId: key }
+    : { calendarId: key.slice(0, index), eventId: key.slice(index + 1) };
+}
+
+/**
+ * Google形式のイベントを内部形式に変換
+ */
+function toInternalEvent(event: calendar_v3.Schema$Event, calendarId: string): GoogleCalendarEvent {
+  return {
+    id: toGoogleEventKey(calendarId, event.id || ''),
+    summary: event.summary || 'タイトルなし',
+    description: event.description || undefined,
+    start: {
+      dateTime: event.start?.dateTime || event.start?.date || '',
+      timeZone: event.start?.timeZone || undefined,
+    },
+    end: {
+      dateTime: event.end?.dateTime || event.end?.date || '',
+      timeZone: event.end?.timeZone || undefined,
+    },
+    location: event.location || undefined,
+    status: (event.status as GoogleCalendarEvent['status']) || undefined,
+    etag: event.etag || undefined,
+    updated: event.updated || undefined,
+    provider: CalendarProviderType.GOOGLE,
+    calendarId,
+    ...(event.extendedProperties?.private && {
+      extendedProperties: { private: event.extendedProperties.private },
+    }),
+  };
+}
+
+/**
+ * 内部形式の入力をGoogle形式に変換
+ * timeZone はGoogleカレンダー上での表示と繰り返しの基準になる（日時自体はオフセット付きで送る）
+ */
+function toRequestBody(event: CalendarEventInput, timeZone: string): calendar_v3.Schema$Event {
+  return {
+    summary: event.title,
+    description: event.description,
+    start: {
+      dateTime: event.startTime,
+      timeZone,
+    },
+    end: {
+      dateTime: event.endTime,
+      timeZone,
+    },
+    location: event.location,
+    ...(event.privateProperties && {
+      extendedProperties: { private: event.privateProperties },
+    }),
+  };
+}
 
 /**
  * Google Calendar API クライアント
  * シンプルな実装でエラーが起きにくい設計
+ * calendarId のカレンダーを対象とする（イベントIDにカレンダーが含まれる場合はそちらを優先）
  */
-export class GoogleCalendarClient {
-  private auth: typeof oauth2Client;
-  private calendarApi: typeof calendar;
-
-  constructor(accessToken?: string, refreshToken?: string) {
-    this.auth = oauth2Client;
-    this.calendarApi = calendar;
-
-    // アクセストークンが提供されている場合は設定
-    if (accessToken || refreshToken) {
-      this.auth.setCredentials({
-        access_token: accessToken,
-        refresh_token: refreshToken,
-      });
-    }
+export class GoogleCalendarClient implements CalendarProvider {
+  readonly type = CalendarProviderType.GOOGLE;
+  readonly eventSource = 'google_calendar';
+  readonly connectionId = null;
+  readonly calendarId: string;
+  readonly timeZone: string;
+  readonly scope: Record<string, string>;
+
+  private auth: GoogleOAuthClient;
+  private calendarApi: ReturnType<typeof createCalendarApi>;
+
+  /**
+   * @param auth 資格情報を設定したOAuth2クライアント（同じユーザーの複数のカレンダーで共有できる）
+   * @param timeZone 作成・更新するイベントのタイムゾーン（ユーザーの設定）
+   */
+  constructor(
+    auth: GoogleOAuthClient = createGoogleOAuthClient(),
+    calendarId: string = PRIMARY_CALENDAR_ID,
+    timeZone: string = DEFAULT_TIME_ZONE
+  ) {
+    this.auth = auth;
+    this.calendarApi = createCalendarApi(auth);
+    this.calendarId = calendarId;
+    this.timeZone = timeZone;
+    this.scope = { event_source: this.eventSource, google_calendar_id: calendarId };
   }
 
   /**
@@ -55,14 +187,15 @@ export class GoogleCalendarClient {
   async getTokenFromCode(code: string): Promise<{
     access_token?: string | null;
     refresh_token?: string | null;
+    expiry_date?: number | null;
   }> {
     try {
       const { tokens } = await this.auth.getToken(code);
-      this.auth.setCredentials(tokens);
       
       return {
         access_token: tokens.access_token,
         refresh_token: tokens.refresh_token,
+        expiry_date: tokens.expiry_date,
       };
     } catch (error) {
       console.error('Google認証エラー:', error);
@@ -71,7 +204,7 @@ export class GoogleCalendarClient {
   }
 
   /**
-   * カレンダーイベント一覧取得（シンプル版）
+   * カレンダーイベント一覧取得（maxResults に達するまでページングする）
    */
   async getEvents(
     startDate?: string,
@@ -79,32 +212,26 @@ export class GoogleCalendarClient {
     maxResults = 10
   ): Promise<GoogleCalendarEvent[]> {
     try {
-      const response = await this.calendarApi.events.list({
-        calendarId: 'primary',
-        timeMin: startDate || new Date().toISOString(),
-        timeMax: endDate,
-        maxResults,
-        singleEvents: true,
-        orderBy: 'startTime',
-      });
+      const events: calendar_v3.Schema$Event[] = [];
+      let pageToken: string | undefined;
+
+      do {
+        const response = await this.calendarApi.events.list({
+          calendarId: this.calendarId,
+          timeMin: startDate || new Date().toISOString(),
+          timeMax: endDate,
+          maxResults: Math.min(maxResults - events.length, MAX_PAGE_SIZE),
+          singleEvents: true,
+          orderBy: 'startTime',
+          pageToken,
+        });
+
+        events.push(...(response.data.items || []));
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken && events.length < maxResults);
 
-      const events = response.data.items || [];
-      
       // 内部形式に変換
-      return events.map(event => ({
-        id: event.id || '',
-        summary: event.summary || 'タイトルなし',
-        description: event.description || undefined,
-        start: {
-          dateTime: event.start?.dateTime || event.start?.date || '',
-          timeZone: event.start?.timeZone || undefined,
-        },
-        end: {
-          dateTime: event.end?.dateTime || event.end?.date || '',
-          timeZone: event.end?.timeZone || undefined,
-        },
-        location: event.location || undefined,
-      }));
+      return events.map(event => toInternalEvent(event, this.calendarId));
     } catch (error) {
       console.error('Google Calendarイベント取得エラー:', error);
       throw new Error('カレンダーイベント取得に失敗しました');
@@ -114,53 +241,165 @@ export class GoogleCalendarClient {
   /**
    * イベント作成（シンプル版）
    */
-  async createEvent(event: {
-    title: string;
-    description?: string;
-    startTime: string;
-    endTime: string;
-    location?: string;
-  }): Promise<GoogleCalendarEvent> {
+  async createEvent(event: CalendarEventInput, options: { calendarId?: string } = {}): Promise<GoogleCalendarEvent> {
     try {
+      const calendarId = options.calendarId || this.calendarId;
       const response = await this.calendarApi.events.insert({
-        calendarId: 'primary',
-        requestBody: {
-          summary: event.title,
-          description: event.description,
-          start: {
-            dateTime: event.startTime,
-            timeZone: 'Asia/Tokyo',
-          },
-          end: {
-            dateTime: event.endTime,
-            timeZone: 'Asia/Tokyo',
-          },
-          location: event.location,
-        },
+        calendarId,
+        requestBody: toRequestBody(event, this.timeZone),
       });
 
-      const createdEvent = response.data;
-      
-      return {
-        id: createdEvent.id || '',
-        summary: createdEvent.summary || '',
-        description: createdEvent.description || undefined,
-        start: {
-          dateTime: createdEvent.start?.dateTime || '',
-          timeZone: createdEvent.start?.timeZone || undefined,
-        },
-        end: {
-          dateTime: createdEvent.end?.dateTime || '',
-          timeZone: createdEvent.end?.timeZone || undefined,
-        },
-        location: createdEvent.location || undefined,
-      };
+      return toInternalEvent(response.data, calendarId);
     } catch (error) {
       console.error('Google Calendarイベント作成エラー:', error);
       throw new Error('カレンダーイベント作成に失敗しました');
     }
   }
 
+  /**
+   * extendedProperties.private の値で検索（アプリが作成したイベントの取得用）
+   */
+  async findEventsByPrivateProperty(
+    key: string,
+    value: string,
+    options: { calendarId?: string; timeMin?: string } = {}
+  ): Promise<GoogleCalendarEvent[]> {
+    try {
+      const calendarId = options.calendarId || this.calendarId;
+      const events: calendar_v3.Schema$Event[] = [];
+      let pageToken: string | undefined;
+
+      do {
+        const response = await this.calendarApi.events.list({
+          calendarId,
+          privateExtendedProperty: [`${key}=${value}`],
+          timeMin: options.timeMin,
+          maxResults: MAX_PAGE_SIZE,
+          singleEvents: true,
+          pageToken,
+        });
+
+        events.push(...(response.data.items || []));
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      return events.map(event => toInternalEvent(event, calendarId));
+    } catch (error) {
+      console.error('Google Calendarイベント検索エラー:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 差分取得（syncToken による増分同期）
+   * syncToken 未指定時は timeMin 以降のフル同期。期限切れの syncToken は 410 で失敗する
+   * ステータスコードで分岐できるよう、エラーはラップせずに再送出する
+   */
+  async listEventChanges(options: EventChangesOptions = {}): Promise<EventChangesPage> {
+    try {
+      const calendarId = options.calendarId || this.calendarId;
+      const response = await this.calendarApi.events.list({
+        calendarId,
+        maxResults: MAX_PAGE_SIZE,
+        singleEvents: true,
+        showDeleted: true,
+        pageToken: options.pageToken,
+        // syncToken と timeMin は併用できない
+        ...(options.syncToken
+          ? { syncToken: options.syncToken }
+          : { timeMin: options.timeMin }),
+      });
+
+      return {
+        events: (response.data.items || []).map(event => toInternalEvent(event, calendarId)),
+        nextPageToken: response.data.nextPageToken || undefined,
+        nextSyncToken: response.data.nextSyncToken || undefined,
+      };
+    } catch (error) {
+      console.error('Google Calendar差分取得エラー:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * イベント更新（etag 指定時は If-Match で競合を検出し、412 で失敗する）
+   */
+  async updateEvent(
+    eventId: string,
+    event: CalendarEventInput,
+    options: { calendarId?: string; etag?: string } = {}
+  ): Promise<GoogleCalendarEvent> {
+    try {
+      const target = parseGoogleEventKey(eventId);
+      const response = await this.calendarApi.events.update(
+        {
+          calendarId: target.calendarId,
+          eventId: target.eventId,
+          requestBody: toRequestBody(event, this.timeZone),
+        },
+        options.etag ? { headers: { 'If-Match': options.etag } } : undefined
+      );
+
+      return toInternalEvent(response.data, target.calendarId);
+    } catch (error) {
+      console.error('Google Calendarイベント更新エラー:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * イベント削除（既に削除済みの場合は成功として扱う）
+   */
+  async deleteEvent(eventId: string): Promise<void> {
+    try {
+      const target = parseGoogleEventKey(eventId);
+      await this.calendarApi.events.delete({
+        calendarId: target.calendarId,
+        eventId: target.eventId,
+      });
+    } catch (error) {
+      const status = getGoogleErrorStatus(error);
+      if (status === 404 || status === 410) return;
+
+      console.error('Google Calendarイベント削除エラー:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * ユーザーのカレンダー一覧（calendarList、メインのカレンダーのIDは 'primary' に揃える）
+   */
+  async listCalendars(): Promise<GoogleCalendarListEntry[]> {
+    try {
+      const entries: calendar_v3.Schema$CalendarListEntry[] = [];
+      let pageToken: string | undefined;
+
+      do {
+        const response = await this.calendarApi.calendarList.list({
+          maxResults: MAX_PAGE_SIZE,
+          pageToken,
+        });
+
+        entries.push(...(response.data.items || []));
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      return entries
+        .filter(entry => entry.id && !entry.deleted)
+        .map(entry => ({
+          id: entry.primary ? PRIMARY_CALENDAR_ID : entry.id!,
+          summary: entry.summaryOverride || entry.summary || entry.id!,
+          backgroundColor: entry.backgroundColor || null,
+          foregroundColor: entry.foregroundColor || null,
+          accessRole: entry.accessRole || 'reader',
+          primary: !!entry.primary,
+        }));
+    } catch (error) {
+      console.error('Google Calendarカレンダー一覧取得エラー:', error);
+      throw error;
+    }
+  }
+
   /**
    * 接続テスト（開発用）
    */
@@ -176,13 +415,13 @@ export class GoogleCalendarClient {
 }
 
 /**
- * デフォルトクライアントインスタンス（シンプル使用）
+ * デフォルトクライアントインスタンス（認証URLの生成・認証コードの交換用、ユーザーの資格情報は持たない）
  */
 export const googleCalendar = new GoogleCalendarClient();
 
 /**
- * ユーザー認証付きクライアント生成
+ * ユーザー認証付きクライアント生成（auth は lib/google/tokens.ts の getUserGoogleAuth で取得）
  */
-export function createUserCalendarClient(accessToken: string, refreshToken: string) {
-  return new GoogleCalendarClient(accessToken, refreshToken);
+export function createUserCalendarClient(auth: GoogleOAuthClient, calendarId?: string, timeZone?: string) {
+  return new GoogleCalendarClient(auth, calendarId, timeZone);
 }
\ No newline at end of file
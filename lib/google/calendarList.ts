@@ -0,0 +1,200 @@
+// ===========================================
+// Google Calendar List - AI Schedule Assistant
+// ユーザーのGoogleカレンダー一覧と、カレンダーごとの同期・予定あり扱いの設定
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { GoogleCalendarClient } from './calendar';
+import { refreshUserReminders } from '@/lib/notifications/reminders';
+
+/**
+ * google_calendars の行
+ */
+export interface UserGoogleCalendar {
+  id: string;
+  user_id: string;
+  calendar_id: string;
+  summary: string;
+  background_color: string | null;
+  foreground_color: string | null;
+  access_role: string;
+  is_primary: boolean;
+  sync_enabled: boolean;
+  counts_as_busy: boolean;
+  updated_at: string;
+}
+
+export interface GoogleCalendarSettingsUpdate {
+  syncEnabled?: boolean;
+  countsAsBusy?: boolean;
+}
+
+const GOOGLE_CALENDAR_COLUMNS = 'id, user_id, calendar_id, summary, background_color, foreground_color, access_role, is_primary, sync_enabled, counts_as_busy, updated_at';
+
+/**
+ * カレンダー一覧を取得（メインのカレンダーが先頭）
+ */
+export async function listGoogleCalendars(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<UserGoogleCalendar[]> {
+  const { data, error } = await supabase
+    .from('google_calendars')
+    .select(GOOGLE_CALENDAR_COLUMNS)
+    .eq('user_id', userId)
+    .order('is_primary', { ascending: false })
+    .order('summary', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as UserGoogleCalendar[];
+}
+
+/**
+ * Google の calendarList を取り込む
+ * 新しいカレンダーはメインのみ同期を有効にし、一覧から消えたカレンダーは設定と取り込んだ予定を削除する
+ */
+export async function refreshGoogleCalendars(
+  supabase: SupabaseClient,
+  userId: string,
+  client: GoogleCalendarClient
+): Promise<UserGoogleCalendar[]> {
+  const [entries, existing] = await Promise.all([
+    client.listCalendars(),
+    listGoogleCalendars(supabase, userId),
+  ]);
+
+  const existingIds = new Set(existing.map(calendar => calendar.calendar_id));
+  const toRow = (entry: typeof entries[number]) => ({
+    user_id: userId,
+    calendar_id: entry.id,
+    summary: entry.summary,
+    background_color: entry.backgroundColor,
+    foreground_color: entry.foregroundColor,
+    access_role: entry.accessRole,
+    is_primary: entry.primary,
+  });
+
+  // 設定済みのカレンダーは同期・予定あり扱いを保持する（列の揃った行ごとにまとめて保存）
+  const batches = [
+    entries.filter(entry => existingIds.has(entry.id)).map(toRow),
+    entries
+      .filter(entry => !existingIds.has(entry.id))
+      .map(entry => ({ ...toRow(entry), sync_enabled: entry.primary, counts_as_busy: true })),
+  ];
+
+  for (const rows of batches) {
+    if (rows.length === 0) continue;
+
+    const { error } = await supabase
+      .from('google_calendars')
+      .upsert(rows, { onConflict: 'user_id,calendar_id' });
+
+    if (error) throw error;
+  }
+
+  const currentIds = new Set(entries.map(entry => entry.id));
+  const removedIds = existing
+    .map(calendar => calendar.calendar_id)
+    .filter(calendarId => !currentIds.has(calendarId));
+
+  if (removedIds.length > 0) {
+    await removeCalendarEvents(supabase, userId, removedIds);
+
+    const { error } = await supabase
+      .from('google_calendars')
+      .delete()
+      .eq('user_id', userId)
+      .in('calendar_id', removedIds);
+
+    if (error) throw error;
+  }
+
+  return listGoogleCalendars(supabase, userId);
+}
+
+/**
+ * カレンダーごとの設定を変更
+ * 同期を止めたカレンダーの取り込み済みの予定と同期状態は削除する（再開時はフル同期になる）
+ */
+export async function updateGoogleCalendarSettings(
+  supabase: SupabaseClient,
+  userId: string,
+  calendarId: string,
+  update: GoogleCalendarSettingsUpdate
+): Promise<UserGoogleCalendar | null> {
+  const { data, error } = await supabase
+    .from('google_calendars')
+    .update({
+      ...(update.syncEnabled !== undefined && { sync_enabled: update.syncEnabled }),
+      ...(update.countsAsBusy !== undefined && { counts_as_busy: update.countsAsBusy }),
+    })
+    .eq('user_id', userId)
+    .eq('calendar_id', calendarId)
+    .select(GOOGLE_CALENDAR_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  if (update.syncEnabled === false) {
+    await removeCalendarEvents(supabase, userId, [calendarId]);
+  }
+
+  return data as UserGoogleCalendar;
+}
+
+/**
+ * カレンダーから取り込んだ予定（未送信の変更を除く）と同期状態を削除し、予定のリマインダーを取り消す
+ */
+async function removeCalendarEvents(
+  supabase: SupabaseClient,
+  userId: string,
+  calendarIds: string[]
+): Promise<void> {
+  const { error } = await supabase
+    .from('events')
+    .delete()
+    .eq('user_id', userId)
+    .eq('event_source', 'google_calendar')
+    .eq('sync_status', 'synced')
+    .in('google_calendar_id', calendarIds);
+
+  if (error) throw error;
+
+  await supabase
+    .from('calendar_sync_state')
+    .delete()
+    .eq('user_id', userId)
+    .in('calendar_id', calendarIds);
+
+  await refreshUserReminders(supabase, userId);
+}
+
+/**
+ * 空き時間の計算で予定として扱わないカレンダーのID
+ */
+export async function getNonBusyGoogleCalendarIds(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('google_calendars')
+    .select('calendar_id')
+    .eq('user_id', userId)
+    .eq('counts_as_busy', false);
+
+  if (error) throw error;
+  return new Set((data || []).map(row => row.calendar_id));
+}
+
+/**
+ * events 行が空き時間の計算で予定として扱われるか
+ */
+export function countsAsBusy(
+  event: { event_source?: string | null; google_calendar_id?: string | null },
+  nonBusyCalendarIds: Set<string>
+): boolean {
+  return !(event.event_source === 'google_calendar'
+    && event.google_calendar_id
+    && nonBusyCalendarIds.has(event.google_calendar_id));
+}
@@ -0,0 +1,527 @@
+// ===========================================
+// Calendar Two-way Sync - AI Schedule Assistant
+// syncToken による増分同期とローカル変更の書き戻し（Google Calendar / CalDAV 共通）
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CalendarProviderEvent } from '@/types/shared';
+import { CalendarProvider, getCalendarErrorStatus } from '@/lib/calendar/provider';
+import { isTimeBlockEvent } from '@/lib/schedule/timeBlocks';
+
+/**
+ * 両方で変更された場合の解決方針
+ */
+export const SyncConflictPolicy = {
+  LATEST_WINS: 'latest_wins',
+  GOOGLE_WINS: 'google_wins',
+  LOCAL_WINS: 'local_wins',
+} as const;
+export type SyncConflictPolicy = typeof SyncConflictPolicy[keyof typeof SyncConflictPolicy];
+
+/**
+ * フル同期で取得する過去の範囲（日）
+ */
+export const FULL_SYNC_LOOKBACK_DAYS = 30;
+
+/**
+ * events テーブルの行（同期に必要な列）
+ */
+export interface LocalCalendarEvent {
+  id: string;
+  user_id: string;
+  google_event_id: string | null;
+  title: string;
+  description: string | null;
+  start_time: string;
+  end_time: string;
+  location: string | null;
+  google_etag: string | null;
+  google_updated_at: string | null;
+  local_updated_at: string | null;
+  sync_status: 'synced' | 'pending_push' | 'pending_delete';
+  event_source?: string;
+  calendar_connection_id?: string | null;
+}
+
+export interface SyncConflict {
+  eventId: string;
+  googleEventId: string;
+  title: string;
+  winner: 'google' | 'local';
+  remoteDeleted: boolean;
+}
+
+export interface PullResult {
+  created: number;
+  updated: number;
+  deleted: number;
+  conflicts: SyncConflict[];
+  fullSync: boolean;
+}
+
+export interface PushResult {
+  created: number;
+  updated: number;
+  deleted: number;
+  deferred: number;   // 外部カレンダー側が先に変更されていたため次回に持ち越し
+  failed: number;
+}
+
+export interface SyncOptions {
+  calendarId?: string;
+  fullSync?: boolean;
+  conflictPolicy?: SyncConflictPolicy;
+  now?: Date;
+}
+
+const EVENT_COLUMNS = 'id, user_id, google_event_id, title, description, start_time, end_time, location, google_etag, google_updated_at, local_updated_at, sync_status';
+
+/**
+ * 外部カレンダーのイベントを events 行の列に変換
+ */
+function toEventColumns(remote: CalendarProviderEvent, provider: CalendarProvider, syncedAt: string) {
+  return {
+    google_event_id: remote.id,
+    title: remote.summary,
+    description: remote.description ?? null,
+    start_time: remote.start.dateTime,
+    end_time: remote.end.dateTime,
+    location: remote.location ?? null,
+    ...provider.scope,
+    google_etag: remote.etag ?? null,
+    google_updated_at: remote.updated ?? null,
+    sync_status: 'synced' as const,
+    last_synced_at: syncedAt,
+  };
+}
+
+/**
+ * 競合時にどちらを採用するか
+ */
+export function resolveConflict(
+  policy: SyncConflictPolicy,
+  localUpdatedAt: string | null,
+  remoteUpdatedAt: string | undefined
+): 'google' | 'local' {
+  if (policy === SyncConflictPolicy.GOOGLE_WINS) return 'google';
+  if (policy === SyncConflictPolicy.LOCAL_WINS) return 'local';
+
+  // latest_wins: 更新日時が不明な側は負けとする
+  if (!localUpdatedAt) return 'google';
+  if (!remoteUpdatedAt) return 'local';
+  return new Date(localUpdatedAt).getTime() > new Date(remoteUpdatedAt).getTime() ? 'local' : 'google';
+}
+
+async function getSyncToken(
+  supabase: SupabaseClient,
+  userId: string,
+  calendarId: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('calendar_sync_state')
+    .select('sync_token')
+    .eq('user_id', userId)
+    .eq('calendar_id', calendarId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.sync_token ?? null;
+}
+
+async function saveSyncState(
+  supabase: SupabaseClient,
+  userId: string,
+  calendarId: string,
+  syncToken: string | null,
+  fullSync: boolean,
+  syncedAt: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('calendar_sync_state')
+    .upsert(
+      {
+        user_id: userId,
+        calendar_id: calendarId,
+        sync_token: syncToken,
+        last_synced_at: syncedAt,
+        ...(fullSync && { last_full_sync_at: syncedAt }),
+      },
+      { onConflict: 'user_id,calendar_id' }
+    );
+
+  if (error) throw error;
+}
+
+/**
+ * 1ページ分のリモート変更をローカルに反映
+ */
+async function applyRemoteChanges(
+  supabase: SupabaseClient,
+  provider: CalendarProvider,
+  userId: string,
+  changes: CalendarProviderEvent[],
+  policy: SyncConflictPolicy,
+  syncedAt: string,
+  result: PullResult
+): Promise<void> {
+  // Google側で削除された時間ブロックはタスクとの紐付けを外す（削除済みイベントにはマーカーが無いため一律に確認）
+  const cancelledIds = changes.filter(change => change.status === 'cancelled').map(change => change.id);
+  if (cancelledIds.length > 0) {
+    const { error: unlinkError } = await supabase
+      .from('tasks')
+      .update({ calendar_event_id: null })
+      .eq('user_id', userId)
+      .in('calendar_event_id', cancelledIds);
+
+    if (unlinkError) throw unlinkError;
+  }
+
+  // タスクの時間ブロックは予定として取り込まない
+  const importable = changes.filter(change => !isTimeBlockEvent(change));
+  if (importable.length === 0) return;
+
+  const { data: rows, error } = await supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .eq('user_id', userId)
+    .match(provider.scope)
+    .in('google_event_id', importable.map(change => change.id));
+
+  if (error) throw error;
+
+  const localByGoogleId = new Map(
+    ((rows || []) as LocalCalendarEvent[]).map(row => [row.google_event_id, row])
+  );
+
+  for (const remote of importable) {
+    const local = localByGoogleId.get(remote.id);
+
+    // 自分が書き戻した変更のエコー、または未変更
+    if (local && remote.etag && local.google_etag === remote.etag) continue;
+
+    const remoteDeleted = remote.status === 'cancelled';
+
+    // 両方で削除された場合は競合ではない（下の削除処理に任せる）
+    const locallyChanged = !!local && local.sync_status !== 'synced'
+      && !(remoteDeleted && local.sync_status === 'pending_delete');
+
+    if (local && locallyChanged) {
+      const winner = resolveConflict(policy, local.local_updated_at, remote.updated);
+      result.conflicts.push({
+        eventId: local.id,
+        googleEventId: remote.id,
+        title: local.title,
+        winner,
+        remoteDeleted,
+      });
+
+      if (winner === 'local') {
+        // ローカルを保持。外部カレンダー側で削除済みなら作り直すため紐付けを外す
+        const { error: keepError } = await supabase
+          .from('events')
+          .update(remoteDeleted
+            ? { google_event_id: null, google_etag: null }
+            : { google_etag: remote.etag ?? null, google_updated_at: remote.updated ?? null })
+          .eq('id', local.id);
+
+        if (keepError) throw keepError;
+        continue;
+      }
+    }
+
+    if (remoteDeleted) {
+      if (!local) continue;
+
+      const { error: deleteError } = await supabase
+        .from('events')
+        .delete()
+        .eq('id', local.id);
+
+      if (deleteError) throw deleteError;
+      result.deleted++;
+      continue;
+    }
+
+    if (local) {
+      const { error: updateError } = await supabase
+        .from('events')
+        .update(toEventColumns(remote, provider, syncedAt))
+        .eq('id', local.id);
+
+      if (updateError) throw updateError;
+      result.updated++;
+    } else {
+      const { error: insertError } = await supabase
+        .from('events')
+        .upsert(
+          { user_id: userId, ...toEventColumns(remote, provider, syncedAt) },
+          { onConflict: 'user_id,google_event_id', ignoreDuplicates: false }
+        );
+
+      if (insertError) throw insertError;
+      result.created++;
+    }
+  }
+}
+
+/**
+ * リソース単位で変更が届いた場合、そのリソースから展開されたローカルのイベントのうち
+ * 今回届かなかったもの（繰り返しの除外・短縮など）を削除する
+ */
+async function removeMissingInstances(
+  supabase: SupabaseClient,
+  provider: CalendarProvider,
+  userId: string,
+  changedResources: Set<string>,
+  seen: Set<string>,
+  from: Date
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('events')
+    .select('id, google_event_id')
+    .eq('user_id', userId)
+    .match(provider.scope)
+    .eq('sync_status', 'synced')
+    .not('google_event_id', 'is', null)
+    .gte('start_time', from.toISOString());
+
+  if (error) throw error;
+
+  const resourceOf = (eventId: string) => {
+    const index = eventId.lastIndexOf('#');
+    return index === -1 ? eventId : eventId.slice(0, index);
+  };
+
+  const missingIds = (data || [])
+    .filter(row => !seen.has(row.google_event_id)
+      && (changedResources.has(row.google_event_id) || changedResources.has(resourceOf(row.google_event_id))))
+    .map(row => row.id);
+
+  if (missingIds.length === 0) return 0;
+
+  const { error: deleteError } = await supabase
+    .from('events')
+    .delete()
+    .in('id', missingIds);
+
+  if (deleteError) throw deleteError;
+  return missingIds.length;
+}
+
+/**
+ * 外部カレンダー側の変更を取り込む（syncToken があれば増分、無ければ・期限切れならフル同期）
+ */
+export async function pullRemoteChanges(
+  supabase: SupabaseClient,
+  client: CalendarProvider,
+  userId: string,
+  options: SyncOptions = {}
+): Promise<PullResult> {
+  const calendarId = options.calendarId || 'primary';
+  const policy = options.conflictPolicy || SyncConflictPolicy.LATEST_WINS;
+  const now = options.now ?? new Date();
+  const syncedAt = now.toISOString();
+
+  const fullSyncStart = new Date(now);
+  fullSyncStart.setDate(fullSyncStart.getDate() - FULL_SYNC_LOOKBACK_DAYS);
+
+  let syncToken = options.fullSync ? null : await getSyncToken(supabase, userId, calendarId);
+  const result: PullResult = { created: 0, updated: 0, deleted: 0, conflicts: [], fullSync: !syncToken };
+  const seen = new Set<string>();
+  const changedResources = new Set<string>();
+  let pageToken: string | undefined;
+  let nextSyncToken: string | undefined;
+
+  while (true) {
+    let page;
+    try {
+      page = await client.listEventChanges({
+        calendarId,
+        syncToken: syncToken || undefined,
+        pageToken,
+        timeMin: fullSyncStart.toISOString(),
+      });
+    } catch (error) {
+      // syncToken 期限切れ（410 Gone）はフル同期からやり直す
+      if (syncToken && getCalendarErrorStatus(error) === 410) {
+        syncToken = null;
+        pageToken = undefined;
+        result.fullSync = true;
+        seen.clear();
+        changedResources.clear();
+        continue;
+      }
+      throw error;
+    }
+
+    page.events.forEach(event => seen.add(event.id));
+    page.changedResources?.forEach(resource => changedResources.add(resource));
+    await applyRemoteChanges(supabase, client, userId, page.events, policy, syncedAt, result);
+
+    pageToken = page.nextPageToken;
+    nextSyncToken = page.nextSyncToken;
+    if (!pageToken) break;
+  }
+
+  if (changedResources.size > 0) {
+    result.deleted += await removeMissingInstances(supabase, client, userId, changedResources, seen, fullSyncStart);
+  }
+
+  // フル同期では取得範囲内に存在しなくなった同期済みイベントを削除
+  if (result.fullSync) {
+    const { data: stale, error } = await supabase
+      .from('events')
+      .select('id, google_event_id')
+      .eq('user_id', userId)
+      .match(client.scope)
+      .eq('sync_status', 'synced')
+      .not('google_event_id', 'is', null)
+      .gte('start_time', fullSyncStart.toISOString());
+
+    if (error) throw error;
+
+    const staleIds = (stale || [])
+      .filter(row => !seen.has(row.google_event_id))
+      .map(row => row.id);
+
+    if (staleIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('events')
+        .delete()
+        .in('id', staleIds);
+
+      if (deleteError) throw deleteError;
+      result.deleted += staleIds.length;
+    }
+  }
+
+  await saveSyncState(supabase, userId, calendarId, nextSyncToken ?? null, result.fullSync, syncedAt);
+
+  return result;
+}
+
+/**
+ * ローカルの変更1件を外部カレンダーへ書き戻す
+ * @returns 書き戻しの結果（deferred は外部カレンダー側が先に変更されていたため次回同期で解決する）
+ */
+export async function pushLocalChange(
+  supabase: SupabaseClient,
+  client: CalendarProvider,
+  local: LocalCalendarEvent,
+  options: { calendarId?: string } = {}
+): Promise<'created' | 'updated' | 'deleted' | 'deferred' | 'skipped'> {
+  const calendarId = options.calendarId || 'primary';
+  const syncedAt = new Date().toISOString();
+
+  if (local.sync_status === 'pending_delete') {
+    if (local.google_event_id) {
+      await client.deleteEvent(local.google_event_id, { calendarId });
+    }
+
+    const { error } = await supabase.from('events').delete().eq('id', local.id);
+    if (error) throw error;
+    return 'deleted';
+  }
+
+  if (local.sync_status !== 'pending_push') return 'skipped';
+
+  const input = {
+    title: local.title,
+    description: local.description ?? undefined,
+    startTime: local.start_time,
+    endTime: local.end_time,
+    location: local.location ?? undefined,
+  };
+
+  let remote: CalendarProviderEvent;
+  try {
+    remote = local.google_event_id
+      ? await client.updateEvent(local.google_event_id, input, {
+          calendarId,
+          etag: local.google_etag ?? undefined,
+        })
+      : await client.createEvent(input, { calendarId });
+  } catch (error) {
+    // If-Match 不一致: 外部カレンダー側の変更を次回の取り込み時に競合として解決する
+    if (getCalendarErrorStatus(error) === 412) return 'deferred';
+    throw error;
+  }
+
+  const { error } = await supabase
+    .from('events')
+    .update({
+      google_event_id: remote.id,
+      google_etag: remote.etag ?? null,
+      google_updated_at: remote.updated ?? null,
+      sync_status: 'synced',
+      last_synced_at: syncedAt,
+    })
+    .eq('id', local.id);
+
+  if (error) throw error;
+  return local.google_event_id ? 'updated' : 'created';
+}
+
+/**
+ * 未送信のローカル変更をすべて外部カレンダーへ書き戻す
+ */
+export async function pushLocalChanges(
+  supabase: SupabaseClient,
+  client: CalendarProvider,
+  userId: string,
+  options: { calendarId?: string } = {}
+): Promise<PushResult> {
+  const { data: pending, error } = await supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .eq('user_id', userId)
+    .match(client.scope)
+    .in('sync_status', ['pending_push', 'pending_delete'])
+    .order('local_updated_at', { ascending: true });
+
+  if (error) throw error;
+
+  const result: PushResult = { created: 0, updated: 0, deleted: 0, deferred: 0, failed: 0 };
+
+  for (const local of (pending || []) as LocalCalendarEvent[]) {
+    try {
+      const outcome = await pushLocalChange(supabase, client, local, options);
+      if (outcome !== 'skipped') result[outcome]++;
+    } catch (pushError) {
+      console.error('イベント書き戻しエラー:', local.id, pushError);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 双方向同期: 外部カレンダー側の変更を取り込んでから、ローカルの変更を書き戻す
+ * 取り込みを先に行うことで、両方で変更されたイベントを競合として検出できる
+ */
+export async function syncUserCalendar(
+  supabase: SupabaseClient,
+  client: CalendarProvider,
+  userId: string,
+  options: SyncOptions = {}
+): Promise<{ pulled: PullResult; pushed: PushResult }> {
+  const pulled = await pullRemoteChanges(supabase, client, userId, options);
+  const pushed = await pushLocalChanges(supabase, client, userId, { calendarId: options.calendarId });
+
+  if (pulled.conflicts.length > 0) {
+    await supabase
+      .from('analytics_logs')
+      .insert({
+        user_id: userId,
+        event_type: 'calendar_sync_conflicts',
+        event_data: {
+          policy: options.conflictPolicy || SyncConflictPolicy.LATEST_WINS,
+          provider: client.type,
+          conflicts: pulled.conflicts,
+        },
+      });
+  }
+
+  return { pulled, pushed };
+}
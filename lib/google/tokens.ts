@@ -0,0 +1,227 @@
+// ===========================================
+// Google OAuth Tokens - AI Schedule Assistant
+// users に暗号化して保存するGoogleのトークンの読み書き・自動更新・失効
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AuthenticationError } from '@/lib/errors';
+import { decryptSecret, encryptSecret, needsReencryption, reencryptSecret } from '@/lib/auth/encryption';
+import { GoogleOAuthClient, createGoogleOAuthClient } from './calendar';
+
+/**
+ * 保存済みのトークン（復号済み）
+ */
+export interface GoogleTokens {
+  accessToken: string | null;
+  refreshToken: string;
+  expiresAt: string | null;
+}
+
+/**
+ * Googleから受け取ったトークン（応答に含まれない値は保存済みの値を残す）
+ */
+export interface GoogleTokenUpdate {
+  accessToken?: string | null;
+  refreshToken?: string | null;
+  expiryDate?: number | null;
+}
+
+/**
+ * 鍵のローテーションで一度に読み込む行数
+ */
+const REENCRYPT_PAGE_SIZE = 200;
+
+/**
+ * トークンを暗号化して保存
+ */
+export async function saveGoogleTokens(
+  supabase: SupabaseClient,
+  userId: string,
+  tokens: GoogleTokenUpdate
+): Promise<void> {
+  const { error } = await supabase
+    .from('users')
+    .update({
+      ...(tokens.accessToken && { google_access_token: encryptSecret(tokens.accessToken) }),
+      ...(tokens.refreshToken && { google_refresh_token: encryptSecret(tokens.refreshToken) }),
+      ...(tokens.expiryDate && { google_token_expires_at: new Date(tokens.expiryDate).toISOString() }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * 保存済みのトークンを取得（未連携は null）
+ */
+export async function getGoogleTokens(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<GoogleTokens | null> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('google_access_token, google_refresh_token, google_token_expires_at')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data?.google_refresh_token) return null;
+
+  return {
+    accessToken: data.google_access_token ? decryptSecret(data.google_access_token) : null,
+    refreshToken: decryptSecret(data.google_refresh_token),
+    expiresAt: data.google_token_expires_at,
+  };
+}
+
+/**
+ * ユーザーの資格情報を設定したOAuth2クライアント（未連携は null）
+ * アクセストークンが期限切れ・401 の場合はライブラリが自動で更新し、更新後のトークンを保存する
+ */
+export async function getUserGoogleAuth(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<GoogleOAuthClient | null> {
+  const tokens = await getGoogleTokens(supabase, userId);
+  if (!tokens) return null;
+
+  const auth = createGoogleOAuthClient();
+  auth.setCredentials({
+    access_token: tokens.accessToken,
+    refresh_token: tokens.refreshToken,
+    expiry_date: tokens.expiresAt ? new Date(tokens.expiresAt).getTime() : null,
+  });
+
+  auth.on('tokens', refreshed => {
+    saveGoogleTokens(supabase, userId, {
+      accessToken: refreshed.access_token,
+      refreshToken: refreshed.refresh_token,
+      expiryDate: refreshed.expiry_date,
+    }).catch(error => console.error('Googleトークン保存エラー:', error));
+  });
+
+  return auth;
+}
+
+/**
+ * リフレッシュトークンが失効・取り消し済みのエラーか（再連携が必要）
+ */
+export function isInvalidGrantError(error: unknown): boolean {
+  const err = error as { message?: string; response?: { data?: { error?: string } } } | null;
+  return err?.response?.data?.error === 'invalid_grant' || !!err?.message?.includes('invalid_grant');
+}
+
+/**
+ * アクセストークンを今すぐ更新して保存
+ * リフレッシュトークンが無効になっている場合は連携を解除し AuthenticationError を投げる
+ * @returns 新しいアクセストークンの有効期限（未連携は null）
+ */
+export async function refreshGoogleAccessToken(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ expiresAt: string | null } | null> {
+  const tokens = await getGoogleTokens(supabase, userId);
+  if (!tokens) return null;
+
+  const auth = createGoogleOAuthClient();
+  auth.setCredentials({ refresh_token: tokens.refreshToken });
+
+  try {
+    const { credentials } = await auth.refreshAccessToken();
+    await saveGoogleTokens(supabase, userId, {
+      accessToken: credentials.access_token,
+      refreshToken: credentials.refresh_token,
+      expiryDate: credentials.expiry_date,
+    });
+
+    return {
+      expiresAt: credentials.expiry_date ? new Date(credentials.expiry_date).toISOString() : null,
+    };
+  } catch (error) {
+    if (!isInvalidGrantError(error)) throw error;
+
+    await clearGoogleTokens(supabase, userId);
+    throw new AuthenticationError('Google Calendarの連携が無効になりました。再度連携してください');
+  }
+}
+
+/**
+ * 保存済みのトークンを削除
+ */
+export async function clearGoogleTokens(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('users')
+    .update({
+      google_access_token: null,
+      google_refresh_token: null,
+      google_token_expires_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Google側でアクセス許可を取り消してからトークンを削除
+ * 取り消しに失敗してもトークンは削除する（既に取り消し済みの場合など）
+ * @returns Google側で取り消せたか（連携していなかった場合は true）
+ */
+export async function revokeGoogleTokens(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  let revoked = true;
+
+  try {
+    const tokens = await getGoogleTokens(supabase, userId);
+    if (tokens) {
+      // リフレッシュトークンを取り消すと、同じ許可で発行したアクセストークンも無効になる
+      await createGoogleOAuthClient().revokeToken(tokens.refreshToken);
+    }
+  } catch (error) {
+    console.error('Googleトークン取り消しエラー:', error);
+    revoked = false;
+  }
+
+  await clearGoogleTokens(supabase, userId);
+  return revoked;
+}
+
+/**
+ * 平文・古い鍵で保存されたトークンを現在の鍵で暗号化し直す
+ * @returns 更新したユーザー数
+ */
+export async function reencryptGoogleTokens(supabase: SupabaseClient): Promise<number> {
+  let updated = 0;
+
+  for (let offset = 0; ; offset += REENCRYPT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, google_access_token, google_refresh_token')
+      .not('google_refresh_token', 'is', null)
+      .order('id', { ascending: true })
+      .range(offset, offset + REENCRYPT_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      const stale = [row.google_access_token, row.google_refresh_token]
+        .some(value => value && needsReencryption(value));
+      if (!stale) continue;
+
+      const { error: updateError } = await supabase
+        .from('users')
+        .update({
+          google_access_token: row.google_access_token ? reencryptSecret(row.google_access_token) : null,
+          google_refresh_token: reencryptSecret(row.google_refresh_token),
+        })
+        .eq('id', row.id);
+
+      if (updateError) throw updateError;
+      updated++;
+    }
+
+    if (!data || data.length < REENCRYPT_PAGE_SIZE) break;
+  }
+
+  return updated;
+}
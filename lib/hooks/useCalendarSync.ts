@@ -1,19 +1,24 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { GoogleCalendarEvent } from '@/types/shared';
-import { calendarOfflineManager } from '@/lib/services/calendarOfflineManager';
+import { CalendarProviderEvent } from '@/types/shared';
+import {
+  calendarOfflineManager,
+  OfflineEventData,
+  SyncItemResult,
+  SyncOperationType,
+} from '@/lib/services/calendarOfflineManager';
 import { CalendarErrorHandler, CalendarError } from '@/lib/services/calendarErrorHandler';
 
 interface CalendarSyncOptions {
   autoSync?: boolean;
   syncInterval?: number; // minutes
-  onSyncSuccess?: (events: GoogleCalendarEvent[]) => void;
+  onSyncSuccess?: (events: CalendarProviderEvent[]) => void;
   onSyncError?: (error: string) => void;
 }
 
 interface CalendarSyncState {
-  events: GoogleCalendarEvent[];
+  events: CalendarProviderEvent[];
   isLoading: boolean;
   error: CalendarError | null;
   lastSynced: Date | null;
@@ -21,10 +26,12 @@ interface CalendarSyncState {
   isOffline: boolean;
   usingCachedData: boolean;
   retryCount: number;
+  syncResults: SyncItemResult[];    // 直近のオフライン変更の再送結果
+  pendingOperations: number;        // 未送信のオフライン変更数
 }
 
 /**
- * Google Calendarの自動同期を管理するカスタムフック
+ * 連携カレンダー（Google Calendar / CalDAV）の自動同期を管理するカスタムフック
  * 5分間隔での自動同期とリアルタイム状態管理を提供
  */
 export function useCalendarSync({
@@ -42,6 +49,8 @@ export function useCalendarSync({
     isOffline: false,
     usingCachedData: false,
     retryCount: 0,
+    syncResults: [],
+    pendingOperations: 0,
   });
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -55,13 +64,13 @@ export function useCalendarSync({
     };
   }, []);
 
-  // Google Calendar連携状態確認
+  // カレンダー連携状態確認（Google または CalDAV）
   const checkConnectionStatus = useCallback(async () => {
     try {
       const response = await fetch('/api/user/google-status');
       if (response.ok) {
         const data = await response.json();
-        const connected = !!data.hasGoogleAuth;
+        const connected = !!data.hasGoogleAuth || !!data.hasCalDAV;
         
         if (!isUnmountedRef.current) {
           setState(prev => ({ ...prev, isConnected: connected }));
@@ -71,20 +80,54 @@ export function useCalendarSync({
       }
       return false;
     } catch (error) {
-      console.error('Google Calendar連携状態確認エラー:', error);
+      console.error('カレンダー連携状態確認エラー:', error);
       return false;
     }
   }, []);
 
+  // オフライン中の変更をサーバーへ再送
+  const replaySyncQueue = useCallback(async () => {
+    try {
+      const result = await calendarOfflineManager.processSyncQueue();
+      const pendingOperations = await calendarOfflineManager.getPendingOperationCount();
+      const queueError = CalendarErrorHandler.fromSyncQueueResults(result.results);
+
+      if (queueError) {
+        CalendarErrorHandler.logError(queueError, 'sync_queue_replay');
+      }
+
+      if (!isUnmountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          syncResults: result.results,
+          pendingOperations,
+          error: queueError ?? prev.error,
+        }));
+      }
+
+      return queueError;
+    } catch (queueError) {
+      const error = CalendarErrorHandler.handleError(queueError);
+      CalendarErrorHandler.logError(error, 'sync_queue_replay');
+      return error;
+    }
+  }, []);
+
   // オフライン状態監視
   useEffect(() => {
     const updateOnlineStatus = () => {
       const isOffline = !navigator.onLine;
       setState(prev => ({ ...prev, isOffline }));
       
-      if (!isOffline && state.error?.code === 'NETWORK_ERROR') {
-        // オンライン復帰時、ネットワークエラーがあれば同期を再試行
-        setTimeout(() => syncEvents(), 1000);
+      if (!isOffline) {
+        // オンライン復帰時はオフライン中の変更を再送し、ネットワークエラーがあれば同期も再試行
+        setTimeout(() => {
+          if (state.error?.code === 'NETWORK_ERROR') {
+            syncEvents();
+          } else {
+            replaySyncQueue();
+          }
+        }, 1000);
       }
     };
 
@@ -96,7 +139,7 @@ export function useCalendarSync({
       window.removeEventListener('online', updateOnlineStatus);
       window.removeEventListener('offline', updateOnlineStatus);
     };
-  }, []);
+  }, [replaySyncQueue]);
 
   // 手動同期実行（オフライン対応 + エラーハンドリング強化）
   const syncEvents = useCallback(async (options?: {
@@ -148,7 +191,7 @@ export function useCalendarSync({
     // オンライン同期処理
     let retryCount = state.retryCount;
     
-    const performSync = async (): Promise<GoogleCalendarEvent[] | null> => {
+    const performSync = async (): Promise<CalendarProviderEvent[] | null> => {
       try {
         setState(prev => ({ 
           ...prev, 
@@ -162,7 +205,7 @@ export function useCalendarSync({
         // 連携状態確認
         const connected = await checkConnectionStatus();
         if (!connected) {
-          const error = CalendarErrorHandler.handleError(new Error('Google Calendar連携が必要です'));
+          const error = CalendarErrorHandler.handleError(new Error('カレンダー連携が必要です'));
           CalendarErrorHandler.logError(error, 'connection_check');
           
           setState(prev => ({ 
@@ -177,6 +220,9 @@ export function useCalendarSync({
           return null;
         }
 
+        // オフライン中の変更を先に反映してから最新を取得
+        const queueError = await replaySyncQueue();
+
         // イベント取得
         const params = new URLSearchParams();
         if (options?.todayOnly) params.append('todayOnly', 'true');
@@ -188,7 +234,11 @@ export function useCalendarSync({
         
         if (!response.ok) {
           const errorData = await response.json();
-          throw new Error(errorData.error || 'イベント同期に失敗しました');
+          // エラーコード（TOKEN_EXPIRED など）を CalendarErrorHandler に渡す
+          throw Object.assign(new Error(errorData.error || 'イベント同期に失敗しました'), {
+            status: response.status,
+            code: errorData.code,
+          });
         }
 
         const data = await response.json();
@@ -197,13 +247,10 @@ export function useCalendarSync({
           // 成功時はキャッシュに保存
           await calendarOfflineManager.cacheEvents(data.events);
           
-          // 同期キューを処理
-          await calendarOfflineManager.processSyncQueue();
-          
           const newState = {
             events: data.events,
             isLoading: false,
-            error: null,
+            error: queueError,
             lastSynced: new Date(),
             isConnected: true,
             isOffline: false,
@@ -219,9 +266,18 @@ export function useCalendarSync({
         
         return null;
       } catch (syncError) {
-        const error = CalendarErrorHandler.handleError(syncError);
+        let error = CalendarErrorHandler.handleError(syncError);
         CalendarErrorHandler.logError(error, 'sync_events');
         
+        // アクセストークンの期限切れは更新してすぐに再試行（更新できない場合は再連携が必要）
+        if (error.code === 'TOKEN_EXPIRED' && retryCount === 0) {
+          retryCount++;
+          if (await CalendarErrorHandler.refreshAccessToken()) {
+            return isUnmountedRef.current ? null : performSync();
+          }
+          error = CalendarErrorHandler.handleError({ code: 'AUTH_ERROR', message: error.message });
+        }
+        
         // リトライ戦略を決定
         const retryStrategy = CalendarErrorHandler.getRetryStrategy(error, retryCount);
         
@@ -283,7 +339,28 @@ export function useCalendarSync({
     };
 
     return performSync();
-  }, [checkConnectionStatus, onSyncSuccess, onSyncError, state.retryCount]);
+  }, [checkConnectionStatus, replaySyncQueue, onSyncSuccess, onSyncError, state.retryCount]);
+
+  // イベントの変更をキューに登録（オンラインなら即座に再送）
+  const queueEventChange = useCallback(async (operation: {
+    type: SyncOperationType;
+    eventData: Partial<OfflineEventData>;
+    originalId?: string;
+    baseUpdatedAt?: string;
+  }) => {
+    const eventId = await calendarOfflineManager.addToSyncQueue(operation);
+    const pendingOperations = await calendarOfflineManager.getPendingOperationCount();
+
+    if (!isUnmountedRef.current) {
+      setState(prev => ({ ...prev, pendingOperations }));
+    }
+
+    if (navigator.onLine) {
+      await replaySyncQueue();
+    }
+
+    return eventId;
+  }, [replaySyncQueue]);
 
   // 今日のイベント取得
   const syncTodayEvents = useCallback(() => {
@@ -341,13 +418,14 @@ export function useCalendarSync({
   }, [checkConnectionStatus]);
 
   // エラー回復機能
-  const retrySync = useCallback(() => {
-    setState(prev => ({ ...prev, error: null, retryCount: 0 }));
+  const retrySync = useCallback(async () => {
+    setState(prev => ({ ...prev, error: null, retryCount: 0, syncResults: [] }));
+    await calendarOfflineManager.retryFailedOperations();
     syncTodayEvents();
   }, [syncTodayEvents]);
 
   const clearError = useCallback(() => {
-    setState(prev => ({ ...prev, error: null, retryCount: 0 }));
+    setState(prev => ({ ...prev, error: null, retryCount: 0, syncResults: [] }));
   }, []);
 
   // キャッシュクリア機能
@@ -375,9 +453,13 @@ export function useCalendarSync({
     isOffline: state.isOffline,
     usingCachedData: state.usingCachedData,
     retryCount: state.retryCount,
+    syncResults: state.syncResults,
+    pendingOperations: state.pendingOperations,
     
     // 手動操作
     syncEvents,
+    queueEventChange,
+    replaySyncQueue,
     syncTodayEvents,
     syncMonthEvents,
     
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { Task, TaskPriority, TaskStatus } from '@/types/shared';
+import { RecurrenceRule, Task, TaskPriority, TaskStatus } from '@/types/shared';
 
 interface TaskFilters {
   status?: TaskStatus[];
@@ -20,6 +20,7 @@ interface CreateTaskData {
   dueDate?: string;
   scheduledDate?: string;
   eventId?: string;
+  recurrence?: RecurrenceRule;
 }
 
 interface UpdateTaskData {
@@ -0,0 +1,121 @@
+// ===========================================
+// Cron Schedule - AI Schedule Assistant
+// 5フィールドのcron式（分 時 日 月 曜日）の解析と、タイムゾーンを考慮した次回実行日時の計算
+// ===========================================
+
+import { ValidationError } from '@/lib/errors';
+import { addDaysToDateKey, atMinuteOfDateIn, parseDateKey, toDateKeyIn } from '@/lib/schedule/timezone';
+
+/**
+ * 解析済みのcron式
+ * 日と曜日の両方が指定された場合は、通常のcronと同じくどちらかに一致すれば実行する
+ */
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 = 日曜（7も日曜として扱う）
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59], // 分
+  [0, 23], // 時
+  [1, 31], // 日
+  [1, 12], // 月
+  [0, 7],  // 曜日
+];
+
+/**
+ * 次回実行日時を探す最大日数（2月29日のみの式なども見つかるよう4年強）
+ */
+const MAX_SEARCH_DAYS = 366 * 4 + 1;
+
+/**
+ * cron式を解析（*, 数値, 範囲 a-b, 間隔 /n, カンマ区切りに対応）
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new ValidationError(`cron式は5つのフィールドで指定してください: "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index][0], FIELD_RANGES[index][1], expression)
+  );
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    daysOfWeek: new Set(daysOfWeek.map(day => day % 7)),
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*',
+  };
+}
+
+/**
+ * after より後で、指定タイムゾーンの壁時計の時刻がcron式に一致する最初の日時
+ * 夏時間の切り替えで存在しない・2回ある時刻も、その日に1回だけ実行する
+ */
+export function nextCronTime(schedule: CronSchedule | string, after: Date, timeZone: string): Date {
+  const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const startKey = toDateKeyIn(after, timeZone);
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const dateKey = addDaysToDateKey(startKey, offset);
+    if (!matchesDate(cron, dateKey)) continue;
+
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const candidate = atMinuteOfDateIn(dateKey, hour * 60 + minute, timeZone);
+        if (candidate > after) return candidate;
+      }
+    }
+  }
+
+  throw new ValidationError('cron式に一致する日時が見つかりません');
+}
+
+function matchesDate(cron: CronSchedule, dateKey: string): boolean {
+  const { year, month, day } = parseDateKey(dateKey)!;
+  if (!cron.months.has(month)) return false;
+
+  const dayOfMonthMatch = cron.daysOfMonth.has(day);
+  const dayOfWeekMatch = cron.daysOfWeek.has(new Date(Date.UTC(year, month - 1, day)).getUTCDay());
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch;
+  }
+  return dayOfMonthMatch && dayOfWeekMatch;
+}
+
+function parseField(field: string, min: number, max: number, expression: string): number[] {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new ValidationError(`cron式のフィールドが不正です: "${part}" (${expression})`);
+    }
+
+    const start = match[1] === '*' ? min : Number(match[2]);
+    const end = match[1] === '*'
+      ? max
+      : match[3] !== undefined ? Number(match[3]) : match[4] !== undefined ? max : start;
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new ValidationError(`cron式の値が範囲外です: "${part}" (${expression})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return Array.from(values).sort((a, b) => a - b);
+}
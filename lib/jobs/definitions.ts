@@ -0,0 +1,146 @@
+// ===========================================
+// Scheduled Jobs - AI Schedule Assistant
+// ジョブスケジューラーで実行するジョブの定義（リマインダー・日次サマリー・リスケジュール提案など）
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { NotificationQueueManager } from '@/lib/notifications/queue';
+import { REMINDER_LOOKAHEAD_DAYS, syncUpcomingReminders } from '@/lib/notifications/reminders';
+import { DailySummaryResult, generateDailySummary } from '@/lib/notifications/dailySummary';
+import { getDailySummaryMinutes, getNotificationSettings, resolveNotificationChannels } from '@/lib/notifications/settings';
+import { createRescheduleSuggestions } from '@/lib/schedule/reschedule';
+import { toDateKeyIn } from '@/lib/schedule/timezone';
+import {
+  JobDefinition,
+  JobScheduler,
+  JobSchedulerOptions,
+  JobUser,
+  SyncResult,
+  syncJobSchedules,
+} from './scheduler';
+
+/**
+ * 実行履歴を残す日数
+ */
+const JOB_HISTORY_RETENTION_DAYS = 30;
+
+/**
+ * 日次サマリーの時刻（ユーザーの現地時刻）に毎日実行するcron式
+ */
+function dailyAtSummaryTime(user: JobUser): string {
+  const minutes = getDailySummaryMinutes(user.notificationSettings);
+  return `${minutes % 60} ${Math.floor(minutes / 60)} * * *`;
+}
+
+export const JOB_DEFINITIONS: JobDefinition[] = [
+  {
+    name: 'notification-queue',
+    description: '配信時刻を過ぎた通知キューを処理する',
+    scope: 'global',
+    schedule: '* * * * *',
+    run: async ({ supabase }) => ({ ...(await new NotificationQueueManager(supabase).processDue()) }),
+  },
+  {
+    name: 'sync-job-schedules',
+    description: 'ユーザーごとのジョブのスケジュールを通知設定・タイムゾーンに合わせる',
+    scope: 'global',
+    schedule: '*/15 * * * *',
+    runOnCreate: true,
+    run: async ({ supabase }) => syncJobSchedules(supabase, JOB_DEFINITIONS, { scope: 'user' }),
+  },
+  {
+    name: 'prune-job-history',
+    description: `${JOB_HISTORY_RETENTION_DAYS}日より前のジョブ実行履歴を削除する`,
+    scope: 'global',
+    schedule: '30 3 * * *',
+    run: async ({ supabase, now }) => {
+      const cutoff = new Date(now.getTime() - JOB_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const { data, error } = await supabase
+        .from('job_runs')
+        .delete()
+        .lt('started_at', cutoff.toISOString())
+        .select('id');
+
+      if (error) throw error;
+      return { deleted: (data || []).length };
+    },
+  },
+  {
+    name: 'reminders',
+    description: `今後${REMINDER_LOOKAHEAD_DAYS}日間の予定・タスクのリマインダーの予約を見直す（作成・更新時の予約が漏れた場合の補完）`,
+    scope: 'user',
+    schedule: '*/30 * * * *',
+    run: async ({ supabase, userId, now }) => ({ ...(await syncUpcomingReminders(supabase, userId!, now)) }),
+  },
+  {
+    name: 'daily-summary',
+    description: '通知設定の dailySummaryTime（ユーザーの現地時刻）に日次サマリーを生成して通知する',
+    scope: 'user',
+    schedule: user => user.notificationSettings.dailySummary ? dailyAtSummaryTime(user) : null,
+    maxDelayMinutes: 6 * 60,
+    run: async ({ supabase, userId, timeZone, scheduledFor }) => {
+      const date = toDateKeyIn(scheduledFor, timeZone);
+      // 送信はユーザーの通知チャンネル（通知キュー）で行う
+      const result = await generateDailySummary(supabase, userId!, { date, sendDiscord: false });
+      const notified = await notifyDailySummary(supabase, userId!, result);
+      return { date, productivityScore: result.summary.productivityScore, notified };
+    },
+  },
+  {
+    name: 'reschedule-suggestions',
+    description: '日次サマリーの時刻に未完了タスクの翌日のリスケジュール提案を生成する',
+    scope: 'user',
+    schedule: dailyAtSummaryTime,
+    maxDelayMinutes: 12 * 60,
+    run: async ({ supabase, userId, timeZone, scheduledFor }) => {
+      const result = await createRescheduleSuggestions(supabase, userId!, {
+        targetDate: toDateKeyIn(scheduledFor, timeZone),
+        autoGenerated: true,
+      });
+      return {
+        targetDate: result.targetDate,
+        incompleteTasks: result.incompleteTasksCount,
+        suggestions: result.suggestions.length,
+      };
+    },
+  },
+];
+
+/**
+ * 定義済みのジョブを実行するスケジューラー
+ */
+export function createJobScheduler(supabase: SupabaseClient, options: JobSchedulerOptions = {}): JobScheduler {
+  return new JobScheduler(supabase, JOB_DEFINITIONS, options);
+}
+
+/**
+ * ユーザーのジョブのスケジュールを今すぐ同期する（通知設定・タイムゾーンの変更時）
+ */
+export async function refreshUserJobSchedules(supabase: SupabaseClient, userId: string): Promise<SyncResult> {
+  return syncJobSchedules(supabase, JOB_DEFINITIONS, { scope: 'user', userIds: [userId] });
+}
+
+/**
+ * 日次サマリーをユーザーの通知チャンネルに送る（チャンネルが無い場合は false）
+ */
+async function notifyDailySummary(
+  supabase: SupabaseClient,
+  userId: string,
+  result: DailySummaryResult
+): Promise<boolean> {
+  const channels = resolveNotificationChannels(await getNotificationSettings(supabase, userId));
+  if (channels.length === 0) return false;
+
+  const { summary, insights } = result;
+  await new NotificationQueueManager(supabase).enqueue({
+    userId,
+    type: 'daily_summary',
+    priority: 'low',
+    title: `📊 日次サマリー (${summary.date})`,
+    body: `完了 ${summary.completedTasks}/${summary.totalTasks}件・生産性スコア ${summary.productivityScore}点。${insights.message}`,
+    channels,
+    data: { summary },
+  });
+
+  return true;
+}
@@ -0,0 +1,691 @@
+// ===========================================
+// Job Scheduler - AI Schedule Assistant
+// 宣言したジョブをユーザーごと・全体のcronスケジュールで実行する（取りこぼしの後追い実行・排他・実行履歴）
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { UserSettings } from '@/types/shared';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { NotificationSettings, resolveNotificationSettings } from '@/lib/notifications/settings';
+import { DEFAULT_TIME_ZONE, getUserLocale, resolveUserLocale } from '@/lib/schedule/timezone';
+import { nextCronTime, parseCron } from './cron';
+
+export type JobScope = 'global' | 'user';
+
+/**
+ * schedule: 予定時刻の実行 / catch_up: 取りこぼした実行の後追い / manual: 管理APIからの手動実行
+ */
+export type JobTrigger = 'schedule' | 'catch_up' | 'manual';
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed' | 'skipped';
+
+/**
+ * ユーザーごとのスケジュールを決めるためのユーザー情報
+ */
+export interface JobUser {
+  id: string;
+  timeZone: string;
+  notificationSettings: NotificationSettings;
+}
+
+export interface JobContext {
+  supabase: SupabaseClient;
+  userId: string | null; // 全体のジョブは null
+  timeZone: string; // スケジュールを解釈するタイムゾーン（ユーザーのジョブはユーザーのタイムゾーン）
+  scheduledFor: Date; // 実行予定だった日時（手動実行は実行日時）
+  previousSuccessAt: Date | null; // 前回成功した実行の開始日時
+  now: Date;
+  trigger: JobTrigger;
+}
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  scope: JobScope;
+  /**
+   * cron式（分 時 日 月 曜日）。ユーザーのジョブはユーザーごとに式を返す関数も指定でき、null を返すとそのユーザーでは実行しない
+   */
+  schedule: string | ((user: JobUser) => string | null);
+  /**
+   * 予定時刻からこれ以上（分）遅れた実行は後追いせずスキップする（省略時は常に後追い実行）
+   */
+  maxDelayMinutes?: number;
+  /**
+   * スケジュールを作成した直後にも実行する
+   */
+  runOnCreate?: boolean;
+  /**
+   * 戻り値は実行履歴（job_runs.result）に保存する
+   */
+  run: (context: JobContext) => Promise<object | void>;
+}
+
+export interface JobSchedulerOptions {
+  workerId?: string;
+  batchSize?: number;
+  lockTimeoutSeconds?: number; // これより長く確保されたままのスケジュールは他のインスタンスが再取得する
+  maxRunMs?: number; // tick() 1回で新しいバッチを確保するのはこの時間まで
+}
+
+export interface JobScheduleState {
+  id: string;
+  jobName: string;
+  userId: string | null;
+  schedule: string;
+  timeZone: string;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  lastStatus: Exclude<JobRunStatus, 'running'> | null;
+  lastSuccessAt: string | null;
+  running: boolean;
+  lockedBy: string | null;
+}
+
+export interface JobRun {
+  id: string;
+  jobName: string;
+  userId: string | null;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  scheduledFor: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+}
+
+export interface TickResult {
+  claimed: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  jobs: Record<string, { succeeded: number; failed: number; skipped: number }>;
+}
+
+export interface SyncResult {
+  created: number;
+  updated: number;
+  removed: number;
+}
+
+interface JobScheduleRow {
+  id: string;
+  job_name: string;
+  user_id: string | null;
+  schedule: string;
+  time_zone: string;
+  next_run_at: string;
+  last_run_at: string | null;
+  last_status: Exclude<JobRunStatus, 'running'> | null;
+  last_success_at: string | null;
+  locked_by: string | null;
+  locked_at: string | null;
+}
+
+interface JobRunRow {
+  id: string;
+  job_name: string;
+  user_id: string | null;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  scheduled_for: string | null;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+}
+
+/**
+ * 予定時刻からこれ以上遅れて実行したものは後追い実行（catch_up）として記録する
+ */
+const CATCH_UP_THRESHOLD_MS = 5 * 60 * 1000;
+
+/**
+ * スケジュールの同期で一度に読み込むユーザー数
+ */
+const SYNC_PAGE_SIZE = 200;
+
+export class JobScheduler {
+  private supabase: SupabaseClient;
+  private readonly jobs: Map<string, JobDefinition>;
+  private readonly workerId: string;
+  private readonly batchSize: number;
+  private readonly lockTimeoutSeconds: number;
+  private readonly maxRunMs: number;
+
+  constructor(supabase: SupabaseClient, jobs: JobDefinition[], options: JobSchedulerOptions = {}) {
+    this.supabase = supabase;
+    this.jobs = new Map(jobs.map(job => [job.name, job]));
+    this.workerId = options.workerId || `scheduler-${process.pid}-${Math.random().toString(36).substring(2, 8)}`;
+    this.batchSize = options.batchSize ?? 20;
+    this.lockTimeoutSeconds = options.lockTimeoutSeconds ?? 600;
+    this.maxRunMs = options.maxRunMs ?? 50000;
+  }
+
+  getJob(name: string): JobDefinition | undefined {
+    return this.jobs.get(name);
+  }
+
+  getJobs(): JobDefinition[] {
+    return Array.from(this.jobs.values());
+  }
+
+  /**
+   * 実行予定時刻を過ぎたジョブを確保して実行する（cronから毎分呼び出す）
+   * 停止などで取りこぼした実行は1回にまとめて後追い実行し、次回は現在時刻以降の予定時刻にする
+   */
+  async tick(): Promise<TickResult> {
+    const startedAt = Date.now();
+    const result: TickResult = { claimed: 0, succeeded: 0, failed: 0, skipped: 0, jobs: {} };
+
+    // 全体のジョブのスケジュールはコードの定義に合わせておく（ユーザーのジョブは sync-job-schedules ジョブで同期）
+    await syncJobSchedules(this.supabase, this.getJobs(), { scope: 'global' });
+
+    while (Date.now() - startedAt < this.maxRunMs) {
+      const { data, error } = await this.supabase.rpc('claim_due_jobs', {
+        worker_id: this.workerId,
+        batch_size: this.batchSize,
+        lock_timeout_seconds: this.lockTimeoutSeconds,
+      });
+
+      if (error) throw error;
+
+      const rows = (data || []) as JobScheduleRow[];
+      result.claimed += rows.length;
+
+      for (const row of rows) {
+        const status = await this.processSchedule(row);
+        if (!status) continue;
+
+        const counts = result.jobs[row.job_name] ??= { succeeded: 0, failed: 0, skipped: 0 };
+        counts[status]++;
+        result[status]++;
+      }
+
+      if (rows.length < this.batchSize) break;
+    }
+
+    return result;
+  }
+
+  /**
+   * ジョブを今すぐ実行する（管理APIからの手動実行）
+   * 次回の予定時刻は変えない。同じジョブが実行中の場合は null
+   */
+  async runNow(jobName: string, userId: string | null = null): Promise<JobRun | null> {
+    const job = this.jobs.get(jobName);
+    if (!job) throw new NotFoundError('Job', jobName);
+
+    if (job.scope === 'user' && !userId) {
+      throw new ValidationError(`ジョブ「${jobName}」はユーザーごとのジョブのため userId を指定してください`);
+    }
+    if (job.scope === 'global' && userId) {
+      throw new ValidationError(`ジョブ「${jobName}」は全体のジョブのため userId は指定できません`);
+    }
+
+    const now = new Date();
+    let query = this.supabase
+      .from('job_schedules')
+      .update({ locked_by: this.workerId, locked_at: now.toISOString() })
+      .eq('job_name', jobName)
+      .or(`locked_by.is.null,locked_at.lt.${new Date(now.getTime() - this.lockTimeoutSeconds * 1000).toISOString()}`);
+    query = userId ? query.eq('user_id', userId) : query.is('user_id', null);
+
+    const { data: locked, error: lockError } = await query.select().maybeSingle();
+    if (lockError) throw lockError;
+
+    if (!locked) {
+      // スケジュールがあるのに確保できなければ実行中
+      let existsQuery = this.supabase
+        .from('job_schedules')
+        .select('id')
+        .eq('job_name', jobName);
+      existsQuery = userId ? existsQuery.eq('user_id', userId) : existsQuery.is('user_id', null);
+      const { data: existing, error: existsError } = await existsQuery.maybeSingle();
+      if (existsError) throw existsError;
+      if (existing) return null;
+    }
+
+    const row = locked as JobScheduleRow | null;
+    const timeZone = row?.time_zone
+      ?? (userId ? (await getUserLocale(this.supabase, userId)).timeZone : DEFAULT_TIME_ZONE);
+
+    const context: JobContext = {
+      supabase: this.supabase,
+      userId,
+      timeZone,
+      scheduledFor: now,
+      previousSuccessAt: row?.last_success_at ? new Date(row.last_success_at) : null,
+      now,
+      trigger: 'manual',
+    };
+
+    let run: JobRun;
+    try {
+      run = await this.execute(job, context);
+    } catch (error) {
+      if (row) await this.release(row, failedRun(job, context, error), now, { keepNextRun: true });
+      throw error;
+    }
+
+    if (row) {
+      await this.release(row, run, now, { keepNextRun: true });
+    }
+
+    return run;
+  }
+
+  /**
+   * スケジュールの一覧（実行予定順）
+   */
+  async listSchedules(filter: { jobName?: string; userId?: string; limit?: number } = {}): Promise<JobScheduleState[]> {
+    let query = this.supabase
+      .from('job_schedules')
+      .select('*')
+      .order('next_run_at', { ascending: true })
+      .limit(filter.limit ?? 100);
+
+    if (filter.jobName) query = query.eq('job_name', filter.jobName);
+    if (filter.userId) query = query.eq('user_id', filter.userId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return ((data || []) as JobScheduleRow[]).map(row => this.toScheduleState(row));
+  }
+
+  /**
+   * 実行履歴（新しい順）
+   */
+  async listRuns(
+    filter: { jobName?: string; userId?: string; status?: JobRunStatus; limit?: number } = {}
+  ): Promise<JobRun[]> {
+    let query = this.supabase
+      .from('job_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(filter.limit ?? 50);
+
+    if (filter.jobName) query = query.eq('job_name', filter.jobName);
+    if (filter.userId) query = query.eq('user_id', filter.userId);
+    if (filter.status) query = query.eq('status', filter.status);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return ((data || []) as JobRunRow[]).map(toJobRun);
+  }
+
+  /**
+   * 確保したスケジュールを1件実行して次回の予定時刻を設定する
+   * コードから削除されたジョブのスケジュールは削除する
+   */
+  private async processSchedule(row: JobScheduleRow): Promise<Exclude<JobRunStatus, 'running'> | null> {
+    const job = this.jobs.get(row.job_name);
+    if (!job) {
+      const { error } = await this.supabase.from('job_schedules').delete().eq('id', row.id);
+      if (error) console.error('ジョブスケジュール削除エラー:', error);
+      return null;
+    }
+
+    const now = new Date();
+    const scheduledFor = new Date(row.next_run_at);
+    const delayMs = now.getTime() - scheduledFor.getTime();
+    const context: JobContext = {
+      supabase: this.supabase,
+      userId: row.user_id,
+      timeZone: row.time_zone,
+      scheduledFor,
+      previousSuccessAt: row.last_success_at ? new Date(row.last_success_at) : null,
+      now,
+      trigger: delayMs > CATCH_UP_THRESHOLD_MS ? 'catch_up' : 'schedule',
+    };
+
+    let run: JobRun;
+    try {
+      run = job.maxDelayMinutes !== undefined && delayMs > job.maxDelayMinutes * 60 * 1000
+        ? await this.recordSkipped(job, context, `予定時刻から${Math.round(delayMs / 60000)}分経過したためスキップしました`)
+        : await this.execute(job, context);
+    } catch (error) {
+      // 履歴を記録できなくても次回の予定は進める
+      console.error('ジョブ実行履歴の記録エラー:', error);
+      run = failedRun(job, context, error);
+    }
+
+    await this.release(row, run, now);
+    return run.status === 'running' ? 'failed' : run.status;
+  }
+
+  /**
+   * ジョブを実行して履歴に記録する（ジョブの例外は failed として記録し、投げ直さない）
+   */
+  private async execute(job: JobDefinition, context: JobContext): Promise<JobRun> {
+    const { data: started, error: startError } = await this.supabase
+      .from('job_runs')
+      .insert({
+        job_name: job.name,
+        user_id: context.userId,
+        trigger: context.trigger,
+        status: 'running',
+        scheduled_for: context.scheduledFor.toISOString(),
+        started_at: context.now.toISOString(),
+        worker_id: this.workerId,
+      })
+      .select()
+      .single();
+
+    if (startError) throw startError;
+
+    let status: JobRunStatus = 'succeeded';
+    let result: object | null = null;
+    let errorMessage: string | null = null;
+    try {
+      result = (await job.run(context)) || null;
+    } catch (error) {
+      console.error(`ジョブ実行エラー (${job.name}):`, error);
+      status = 'failed';
+      errorMessage = error instanceof Error ? error.message : String(error);
+    }
+
+    const finishedAt = new Date();
+    const { data: finished, error: finishError } = await this.supabase
+      .from('job_runs')
+      .update({
+        status,
+        finished_at: finishedAt.toISOString(),
+        duration_ms: finishedAt.getTime() - context.now.getTime(),
+        result,
+        error: errorMessage,
+      })
+      .eq('id', (started as JobRunRow).id)
+      .select()
+      .single();
+
+    if (finishError) throw finishError;
+
+    return toJobRun(finished as JobRunRow);
+  }
+
+  private async recordSkipped(job: JobDefinition, context: JobContext, reason: string): Promise<JobRun> {
+    const { data, error } = await this.supabase
+      .from('job_runs')
+      .insert({
+        job_name: job.name,
+        user_id: context.userId,
+        trigger: context.trigger,
+        status: 'skipped',
+        scheduled_for: context.scheduledFor.toISOString(),
+        started_at: context.now.toISOString(),
+        finished_at: context.now.toISOString(),
+        duration_ms: 0,
+        worker_id: this.workerId,
+        error: reason,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return toJobRun(data as JobRunRow);
+  }
+
+  /**
+   * 実行結果を記録して確保を解除する
+   */
+  private async release(
+    row: JobScheduleRow,
+    run: JobRun,
+    now: Date,
+    options: { keepNextRun?: boolean } = {}
+  ): Promise<void> {
+    const status = run.status === 'running' ? 'failed' : run.status;
+    const { error } = await this.supabase
+      .from('job_schedules')
+      .update({
+        ...(!options.keepNextRun && {
+          next_run_at: nextCronTime(row.schedule, now, row.time_zone).toISOString(),
+        }),
+        last_run_at: now.toISOString(),
+        last_status: status,
+        ...(status === 'succeeded' && { last_success_at: now.toISOString() }),
+        locked_by: null,
+        locked_at: null,
+      })
+      .eq('id', row.id)
+      .eq('locked_by', this.workerId);
+
+    if (error) {
+      console.error('ジョブスケジュール更新エラー:', error);
+    }
+  }
+
+  private toScheduleState(row: JobScheduleRow): JobScheduleState {
+    const lockExpiry = Date.now() - this.lockTimeoutSeconds * 1000;
+
+    return {
+      id: row.id,
+      jobName: row.job_name,
+      userId: row.user_id,
+      schedule: row.schedule,
+      timeZone: row.time_zone,
+      nextRunAt: row.next_run_at,
+      lastRunAt: row.last_run_at,
+      lastStatus: row.last_status,
+      lastSuccessAt: row.last_success_at,
+      running: !!row.locked_by && !!row.locked_at && new Date(row.locked_at).getTime() > lockExpiry,
+      lockedBy: row.locked_by,
+    };
+  }
+}
+
+/**
+ * ジョブの定義に合わせて job_schedules を作成・更新・削除する
+ * cron式やタイムゾーンが変わったスケジュールは次回の予定時刻を計算し直す
+ * scope: 'global' は全体のジョブのみ、userIds を指定するとそのユーザーのジョブのみを同期する
+ */
+export async function syncJobSchedules(
+  supabase: SupabaseClient,
+  jobs: JobDefinition[],
+  options: { scope?: JobScope; userIds?: string[] } = {}
+): Promise<SyncResult> {
+  const result: SyncResult = { created: 0, updated: 0, removed: 0 };
+  const now = new Date();
+  const globalJobs = jobs.filter(job => job.scope === 'global');
+  const userJobs = jobs.filter(job => job.scope === 'user');
+
+  if (options.scope !== 'user' && !options.userIds) {
+    const { data, error } = await supabase
+      .from('job_schedules')
+      .select('*')
+      .is('user_id', null);
+
+    if (error) throw error;
+
+    const desired = globalJobs.map(job => ({
+      job,
+      userId: null,
+      schedule: job.schedule as string,
+      timeZone: DEFAULT_TIME_ZONE,
+    }));
+    addSyncResult(result, await reconcileSchedules(supabase, desired, (data || []) as JobScheduleRow[], now));
+  }
+
+  if (options.scope === 'global' || userJobs.length === 0) return result;
+
+  for (let offset = 0; ; offset += SYNC_PAGE_SIZE) {
+    let usersQuery = supabase
+      .from('users')
+      .select('id, time_zone, locale, settings')
+      .order('id', { ascending: true })
+      .range(offset, offset + SYNC_PAGE_SIZE - 1);
+    if (options.userIds) usersQuery = usersQuery.in('id', options.userIds);
+
+    const { data: users, error: usersError } = await usersQuery;
+    if (usersError) throw usersError;
+    if (!users || users.length === 0) break;
+
+    const userIds = users.map(user => user.id as string);
+    const [{ data: settingsRows, error: settingsError }, { data: existing, error: existingError }] = await Promise.all([
+      supabase
+        .from('notification_settings')
+        .select('user_id, settings')
+        .in('user_id', userIds),
+      supabase
+        .from('job_schedules')
+        .select('*')
+        .in('user_id', userIds),
+    ]);
+
+    if (settingsError) throw settingsError;
+    if (existingError) throw existingError;
+
+    const storedSettings = new Map((settingsRows || []).map(row => [row.user_id as string, row.settings]));
+    const desired = users.flatMap(user => {
+      const jobUser: JobUser = {
+        id: user.id,
+        timeZone: resolveUserLocale(user).timeZone,
+        notificationSettings: resolveNotificationSettings(
+          storedSettings.get(user.id),
+          user.settings as Partial<UserSettings> | null
+        ),
+      };
+
+      return userJobs.map(job => ({
+        job,
+        userId: jobUser.id,
+        schedule: typeof job.schedule === 'function' ? job.schedule(jobUser) : job.schedule,
+        timeZone: jobUser.timeZone,
+      }));
+    });
+
+    addSyncResult(result, await reconcileSchedules(supabase, desired, (existing || []) as JobScheduleRow[], now));
+
+    if (users.length < SYNC_PAGE_SIZE) break;
+  }
+
+  return result;
+}
+
+/**
+ * 望ましいスケジュールと保存済みのスケジュールの差分を反映する
+ * 定義に無いジョブ・実行しない（schedule が null の）スケジュールは削除する
+ */
+async function reconcileSchedules(
+  supabase: SupabaseClient,
+  desired: { job: JobDefinition; userId: string | null; schedule: string | null; timeZone: string }[],
+  existing: JobScheduleRow[],
+  now: Date
+): Promise<SyncResult> {
+  const result: SyncResult = { created: 0, updated: 0, removed: 0 };
+  const keyOf = (jobName: string, userId: string | null) => `${jobName}:${userId ?? ''}`;
+  const existingByKey = new Map(existing.map(row => [keyOf(row.job_name, row.user_id), row]));
+  const keep = new Set<string>();
+  const inserts: Record<string, unknown>[] = [];
+
+  for (const item of desired) {
+    if (!item.schedule) continue;
+
+    // 不正なcron式はそのスケジュールだけ作成しない
+    try {
+      parseCron(item.schedule);
+    } catch (error) {
+      console.error(`ジョブ「${item.job.name}」のスケジュールが不正です:`, error);
+      continue;
+    }
+
+    const key = keyOf(item.job.name, item.userId);
+    keep.add(key);
+    const row = existingByKey.get(key);
+
+    if (!row) {
+      inserts.push({
+        job_name: item.job.name,
+        user_id: item.userId,
+        schedule: item.schedule,
+        time_zone: item.timeZone,
+        next_run_at: (item.job.runOnCreate ? now : nextCronTime(item.schedule, now, item.timeZone)).toISOString(),
+      });
+    } else if (row.schedule !== item.schedule || row.time_zone !== item.timeZone) {
+      const { error } = await supabase
+        .from('job_schedules')
+        .update({
+          schedule: item.schedule,
+          time_zone: item.timeZone,
+          next_run_at: nextCronTime(item.schedule, now, item.timeZone).toISOString(),
+        })
+        .eq('id', row.id);
+
+      if (error) throw error;
+      result.updated++;
+    }
+  }
+
+  if (inserts.length > 0) {
+    const { data, error } = await supabase
+      .from('job_schedules')
+      .upsert(inserts, { onConflict: 'job_name,user_id', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) throw error;
+    result.created += (data || []).length;
+  }
+
+  const removeIds = existing
+    .filter(row => !keep.has(keyOf(row.job_name, row.user_id)))
+    .map(row => row.id);
+
+  if (removeIds.length > 0) {
+    const { error } = await supabase
+      .from('job_schedules')
+      .delete()
+      .in('id', removeIds);
+
+    if (error) throw error;
+    result.removed += removeIds.length;
+  }
+
+  return result;
+}
+
+function addSyncResult(total: SyncResult, part: SyncResult): void {
+  total.created += part.created;
+  total.updated += part.updated;
+  total.removed += part.removed;
+}
+
+/**
+ * 履歴を記録できなかった実行の結果
+ */
+function failedRun(job: JobDefinition, context: JobContext, error: unknown): JobRun {
+  return {
+    id: '',
+    jobName: job.name,
+    userId: context.userId,
+    trigger: context.trigger,
+    status: 'failed',
+    scheduledFor: context.scheduledFor.toISOString(),
+    startedAt: context.now.toISOString(),
+    finishedAt: new Date().toISOString(),
+    durationMs: null,
+    result: null,
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+function toJobRun(row: JobRunRow): JobRun {
+  return {
+    id: row.id,
+    jobName: row.job_name,
+    userId: row.user_id,
+    trigger: row.trigger,
+    status: row.status,
+    scheduledFor: row.scheduled_for,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    durationMs: row.duration_ms,
+    result: row.result,
+    error: row.error,
+  };
+}
@@ -0,0 +1,335 @@
+// ===========================================
+// Notification Actions - AI Schedule Assistant
+// 通知から直接タスクを操作する（完了・スヌーズ・明日に延期）
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { NOTIFICATION_ACTION_CONFIG } from '@/lib/config/environment';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { syncTimeBlocksForTasks } from '@/lib/schedule/timeBlocks';
+import {
+  addDaysToDateKey,
+  atMinuteOfDateIn,
+  getUserLocale,
+  minutesOfDayIn,
+  toDateKeyIn,
+} from '@/lib/schedule/timezone';
+import { buildCompletionUpdate } from '@/lib/tasks/completion';
+import { completeParentsIfDone } from '@/lib/tasks/dependencies';
+import { rollSeriesForward } from '@/lib/tasks/recurringSeries';
+import { closeActiveSession } from '@/lib/tasks/timeTracking';
+import type { NotificationQueueManager, QueuedNotification } from './queue';
+import { refreshTaskReminders } from './reminders';
+import { NotificationTokenPurpose, signNotificationToken, verifyNotificationToken } from './signing';
+
+/**
+ * 通知に付ける操作
+ */
+export const NotificationAction = {
+  COMPLETE: 'complete',
+  SNOOZE: 'snooze',
+  POSTPONE: 'postpone',
+} as const;
+
+export type NotificationAction = typeof NotificationAction[keyof typeof NotificationAction];
+
+export const NOTIFICATION_ACTION_LABELS: Record<NotificationAction, string> = {
+  complete: '完了',
+  snooze: `${NOTIFICATION_ACTION_CONFIG.snoozeMinutes}分スヌーズ`,
+  postpone: '明日に延期',
+};
+
+export interface NotificationActionResult {
+  action: NotificationAction;
+  alreadyPerformed: boolean; // 同じ通知で操作済み（リンクの二度押しなど）
+  taskId: string | null;
+  snoozedUntil?: string;
+  scheduledDate?: string;
+  message: string;
+}
+
+const TASK_NOTIFICATION_TYPES = ['task_reminder', 'urgent_task'];
+const EVENT_NOTIFICATION_TYPES = ['event_reminder', 'travel_reminder'];
+const DEFAULT_POSTPONE_HOUR = 9; // 予定日時のないタスクを延期したときの時刻
+
+export function isNotificationAction(value: unknown): value is NotificationAction {
+  return typeof value === 'string' && (Object.values(NotificationAction) as string[]).includes(value);
+}
+
+/**
+ * 通知に表示する操作（タスクの通知は3つ、予定の通知はスヌーズのみ）
+ */
+export function getNotificationActions(
+  notification: Pick<QueuedNotification, 'type' | 'targetId'>
+): { action: NotificationAction; title: string }[] {
+  let actions: NotificationAction[] = [];
+
+  if (TASK_NOTIFICATION_TYPES.includes(notification.type) && notification.targetId) {
+    actions = [NotificationAction.COMPLETE, NotificationAction.SNOOZE, NotificationAction.POSTPONE];
+  } else if (EVENT_NOTIFICATION_TYPES.includes(notification.type)) {
+    actions = [NotificationAction.SNOOZE];
+  }
+
+  return actions.map(action => ({ action, title: NOTIFICATION_ACTION_LABELS[action] }));
+}
+
+/**
+ * 操作用のトークン（「有効期限.署名」）。操作の種類と有効期限も署名に含める
+ */
+export function createActionToken(notificationId: string, action: NotificationAction, now: Date = new Date()): string {
+  const expiresAt = Math.floor(now.getTime() / 1000) + NOTIFICATION_ACTION_CONFIG.linkTtlHours * 60 * 60;
+  const signature = signNotificationToken(notificationId, NotificationTokenPurpose.ACTION, `${action}:${expiresAt}`);
+
+  return `${expiresAt}.${signature}`;
+}
+
+export function verifyActionToken(
+  notificationId: string,
+  action: NotificationAction,
+  token: string,
+  now: Date = new Date()
+): boolean {
+  const [expiresAt, signature] = token.split('.');
+  if (!/^\d+$/.test(expiresAt || '') || !signature) return false;
+  if (Number(expiresAt) * 1000 < now.getTime()) return false;
+
+  return verifyNotificationToken(notificationId, NotificationTokenPurpose.ACTION, signature, `${action}:${expiresAt}`);
+}
+
+/**
+ * DiscordとメールのリンクURL（開くと確認ページを表示し、ボタンを押すと実行する）
+ */
+export function createActionUrl(notificationId: string, action: NotificationAction): string {
+  const params = new URLSearchParams({
+    n: notificationId,
+    a: action,
+    t: createActionToken(notificationId, action),
+  });
+
+  return `${NOTIFICATION_ACTION_CONFIG.appUrl}/api/notifications/action?${params.toString()}`;
+}
+
+/**
+ * 通知の操作を実行し、通知を対応済みにする（他のデバイスの通知とDiscordのメッセージは取り消す）
+ */
+export async function performNotificationAction(
+  supabase: SupabaseClient,
+  queue: NotificationQueueManager,
+  notification: QueuedNotification,
+  action: NotificationAction,
+  deviceId: string | null = null
+): Promise<NotificationActionResult> {
+  if (!getNotificationActions(notification).some(candidate => candidate.action === action)) {
+    throw new ValidationError('この通知ではその操作はできません');
+  }
+
+  if (notification.resolvedAction && isNotificationAction(notification.resolvedAction)) {
+    return {
+      action: notification.resolvedAction,
+      alreadyPerformed: true,
+      taskId: notification.targetId,
+      message: `この通知はすでに「${NOTIFICATION_ACTION_LABELS[notification.resolvedAction]}」で対応済みです`,
+    };
+  }
+
+  let result: NotificationActionResult;
+
+  switch (action) {
+    case NotificationAction.COMPLETE:
+      result = await completeTask(supabase, notification);
+      break;
+    case NotificationAction.SNOOZE:
+      result = await snooze(queue, notification);
+      break;
+    case NotificationAction.POSTPONE:
+      result = await postponeTask(supabase, notification);
+      break;
+  }
+
+  await queue.resolve(notification.id, action, deviceId);
+
+  await supabase
+    .from('analytics_logs')
+    .insert({
+      user_id: notification.userId,
+      event_type: 'notification_action',
+      event_data: {
+        notification_id: notification.id,
+        notification_type: notification.type,
+        action,
+        task_id: result.taskId,
+        device_id: deviceId,
+        snoozed_until: result.snoozedUntil ?? null,
+        scheduled_date: result.scheduledDate ?? null,
+        performed_at: new Date().toISOString(),
+      },
+    });
+
+  return result;
+}
+
+async function completeTask(
+  supabase: SupabaseClient,
+  notification: QueuedNotification
+): Promise<NotificationActionResult> {
+  const task = await getTargetTask(supabase, notification);
+
+  if (task.status === 'completed') {
+    return {
+      action: NotificationAction.COMPLETE,
+      alreadyPerformed: true,
+      taskId: task.id,
+      message: `「${task.title}」はすでに完了しています`,
+    };
+  }
+
+  const now = new Date();
+  const { timeZone } = await getUserLocale(supabase, notification.userId);
+  const { data: updatedTask, error } = await supabase
+    .from('tasks')
+    .update({
+      status: 'completed',
+      ...buildCompletionUpdate(task, {}, now, timeZone),
+      ...(task.status === 'in_progress' && { time_tracking_data: closeActiveSession(task, now) }),
+      updated_at: now.toISOString(),
+    })
+    .eq('id', task.id)
+    .eq('user_id', notification.userId)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  // タスク更新APIと同じく、繰り返しシリーズ・親タスク・時間ブロックを追従させる
+  const nextInstance = task.recurrence_parent_id ? await rollSeriesForward(supabase, task) : null;
+  const completedParentIds = await completeParentsIfDone(supabase, notification.userId, updatedTask.parent_task_id);
+
+  const changedTaskIds = [task.id, ...(nextInstance ? [nextInstance.id] : []), ...completedParentIds];
+  await syncTimeBlocksForTasks(supabase, notification.userId, changedTaskIds);
+  await cancelOtherReminders(supabase, notification, task.id);
+  await refreshTaskReminders(supabase, notification.userId, changedTaskIds);
+
+  return {
+    action: NotificationAction.COMPLETE,
+    alreadyPerformed: false,
+    taskId: task.id,
+    message: `「${task.title}」を完了にしました`,
+  };
+}
+
+async function snooze(
+  queue: NotificationQueueManager,
+  notification: QueuedNotification
+): Promise<NotificationActionResult> {
+  const snoozedUntil = new Date(Date.now() + NOTIFICATION_ACTION_CONFIG.snoozeMinutes * 60 * 1000);
+
+  await queue.enqueue({
+    userId: notification.userId,
+    type: notification.type,
+    priority: notification.priority,
+    targetId: notification.targetId,
+    title: notification.title,
+    body: notification.body,
+    data: {
+      ...notification.data,
+      snoozedFrom: notification.id,
+    },
+    channels: notification.channels,
+    scheduledTime: snoozedUntil,
+  });
+
+  return {
+    action: NotificationAction.SNOOZE,
+    alreadyPerformed: false,
+    taskId: notification.targetId,
+    snoozedUntil: snoozedUntil.toISOString(),
+    message: `${NOTIFICATION_ACTION_CONFIG.snoozeMinutes}分後にもう一度通知します`,
+  };
+}
+
+async function postponeTask(
+  supabase: SupabaseClient,
+  notification: QueuedNotification
+): Promise<NotificationActionResult> {
+  const task = await getTargetTask(supabase, notification);
+
+  if (task.status === 'completed' || task.status === 'cancelled') {
+    throw new ValidationError('完了・キャンセル済みのタスクは延期できません');
+  }
+
+  // ユーザーのタイムゾーンで明日の同じ時刻（予定日時がなければ明日の朝）
+  const now = new Date();
+  const userLocale = await getUserLocale(supabase, notification.userId);
+  const tomorrow = addDaysToDateKey(toDateKeyIn(now, userLocale.timeZone), 1);
+  const minuteOfDay = task.scheduled_date
+    ? minutesOfDayIn(new Date(task.scheduled_date), userLocale.timeZone)
+    : DEFAULT_POSTPONE_HOUR * 60;
+  const scheduledDate = atMinuteOfDateIn(tomorrow, minuteOfDay, userLocale.timeZone);
+
+  const { error } = await supabase
+    .from('tasks')
+    .update({
+      scheduled_date: scheduledDate.toISOString(),
+      postpone_count: (task.postpone_count || 0) + 1,
+      postpone_reason: '通知から明日に延期',
+      updated_at: now.toISOString(),
+    })
+    .eq('id', task.id)
+    .eq('user_id', notification.userId);
+
+  if (error) throw error;
+
+  await syncTimeBlocksForTasks(supabase, notification.userId, [task.id]);
+  await cancelOtherReminders(supabase, notification, task.id);
+
+  // 新しい予定時刻に合わせて通知設定どおりのリマインダーを予約し直す
+  await refreshTaskReminders(supabase, notification.userId, [task.id]);
+
+  return {
+    action: NotificationAction.POSTPONE,
+    alreadyPerformed: false,
+    taskId: task.id,
+    scheduledDate: scheduledDate.toISOString(),
+    message: `「${task.title}」を明日に延期しました`,
+  };
+}
+
+async function getTargetTask(supabase: SupabaseClient, notification: QueuedNotification) {
+  if (!notification.targetId) {
+    throw new ValidationError('この通知には対象のタスクがありません');
+  }
+
+  const { data: task, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', notification.targetId)
+    .eq('user_id', notification.userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!task) throw new NotFoundError('Task', notification.targetId);
+
+  return task;
+}
+
+/**
+ * 同じタスクについての配信待ちの通知（スヌーズ分など）を取り消す
+ */
+async function cancelOtherReminders(
+  supabase: SupabaseClient,
+  notification: QueuedNotification,
+  taskId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('scheduled_notifications')
+    .update({
+      status: 'cancelled',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('user_id', notification.userId)
+    .eq('target_id', taskId)
+    .eq('status', 'scheduled')
+    .neq('id', notification.id);
+
+  if (error) throw error;
+}
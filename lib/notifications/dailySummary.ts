@@ -0,0 +1,290 @@
+// ===========================================
+// Daily Summary - AI Schedule Assistant
+// 1日のタスク実績の集計・保存、Discordへの送信、未完了タスクのリスケジュール提案の作成
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DiscordWebhookClient, TaskNotificationBuilder } from './discord';
+import { addDaysToDateKey, dayRangeIn, getUserLocale, toDateKeyIn } from '@/lib/schedule/timezone';
+
+export interface DailySummaryOptions {
+  date?: string; // YYYY-MM-DD（ユーザーのタイムゾーンの日付、省略時は今日）
+  testMode?: boolean; // 保存のみで送信・提案の作成をしない
+  sendDiscord?: boolean;
+}
+
+export interface DailySummaryData {
+  date: string;
+  completedTasks: number;
+  totalTasks: number;
+  completionRate: number;
+  productivityScore: number;
+  topCategories: { category: string; count: number }[];
+}
+
+export interface DailySummaryResult {
+  summary: DailySummaryData;
+  timeZone: string;
+  discordSent: boolean;
+  rescheduleSuggestions: number;
+  insights: {
+    message: string;
+    recommendations: string[];
+  };
+}
+
+/**
+ * 日次サマリーを生成して保存し、Discordへの送信と未完了タスクのリスケジュール提案の作成を行う
+ * 「今日」と集計範囲はユーザーのタイムゾーン（users.time_zone）で決める
+ */
+export async function generateDailySummary(
+  supabase: SupabaseClient,
+  userId: string,
+  options: DailySummaryOptions = {}
+): Promise<DailySummaryResult> {
+  const { testMode = false, sendDiscord = true } = options;
+
+  const { timeZone } = await getUserLocale(supabase, userId);
+  const dateStr = options.date || toDateKeyIn(new Date(), timeZone);
+  const { start: startOfDay, end: endOfDay } = dayRangeIn(dateStr, timeZone);
+
+  // 1. 今日のタスク統計を取得
+  const [completedTasksResult, totalTasksResult] = await Promise.all([
+    supabase
+      .from('tasks')
+      .select('id, title, priority, category, estimated_minutes, actual_minutes, completed_at')
+      .eq('user_id', userId)
+      .eq('status', 'completed')
+      .gte('completed_at', startOfDay.toISOString())
+      .lt('completed_at', endOfDay.toISOString()),
+
+    supabase
+      .from('tasks')
+      .select('id, status, priority, category')
+      .eq('user_id', userId)
+      .is('recurrence_rule', null)
+      .or(`created_at.gte.${startOfDay.toISOString()},scheduled_date.gte.${startOfDay.toISOString()}`)
+      .or(`created_at.lt.${endOfDay.toISOString()},scheduled_date.lt.${endOfDay.toISOString()}`)
+  ]);
+
+  const completedTasks = completedTasksResult.data || [];
+  const allTasks = totalTasksResult.data || [];
+  const totalTasks = allTasks.length;
+  const completionRate = totalTasks > 0 ? completedTasks.length / totalTasks : 0;
+
+  // 2. カテゴリ別統計を計算
+  const categoryStats: { [key: string]: number } = {};
+  completedTasks.forEach(task => {
+    const category = task.category || 'その他';
+    categoryStats[category] = (categoryStats[category] || 0) + 1;
+  });
+
+  const topCategories = Object.entries(categoryStats)
+    .map(([category, count]) => ({ category, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 5);
+
+  // 3. 生産性スコアを計算
+  let productivityScore = 0;
+
+  // 完了率ベース (0-40点)
+  productivityScore += completionRate * 40;
+
+  // 高優先度タスク完了ボーナス (0-30点)
+  const highPriorityCompleted = completedTasks.filter(t => t.priority === 'high').length;
+  const highPriorityTotal = allTasks.filter(t => t.priority === 'high').length;
+  if (highPriorityTotal > 0) {
+    productivityScore += (highPriorityCompleted / highPriorityTotal) * 30;
+  }
+
+  // 時間見積もり精度ボーナス (0-20点)
+  const tasksWithBothTimes = completedTasks.filter(t => t.estimated_minutes && t.actual_minutes);
+  if (tasksWithBothTimes.length > 0) {
+    const accuracyScore = tasksWithBothTimes.reduce((acc, task) => {
+      const estimated = task.estimated_minutes;
+      const actual = task.actual_minutes;
+      const accuracy = 1 - Math.abs(estimated - actual) / Math.max(estimated, actual);
+      return acc + Math.max(0, accuracy);
+    }, 0) / tasksWithBothTimes.length;
+
+    productivityScore += accuracyScore * 20;
+  }
+
+  // 継続ボーナス (0-10点)
+  const recentDays = 7;
+  const { data: recentSummaries } = await supabase
+    .from('daily_summaries')
+    .select('completion_rate')
+    .eq('user_id', userId)
+    .gte('date', addDaysToDateKey(dateStr, -recentDays))
+    .lt('date', dateStr);
+
+  if (recentSummaries && recentSummaries.length >= 3) {
+    const avgRecentCompletion = recentSummaries.reduce((sum, s) => sum + s.completion_rate, 0) / recentSummaries.length;
+    if (avgRecentCompletion >= 0.7) {
+      productivityScore += 10;
+    }
+  }
+
+  productivityScore = Math.round(Math.min(100, productivityScore));
+
+  // 4. サマリーデータを作成
+  const summaryData: DailySummaryData = {
+    date: dateStr,
+    completedTasks: completedTasks.length,
+    totalTasks,
+    completionRate,
+    productivityScore,
+    topCategories
+  };
+
+  // 5. データベースに保存
+  const { error: saveError } = await supabase
+    .from('daily_summaries')
+    .upsert({
+      user_id: userId,
+      date: dateStr,
+      completed_tasks: completedTasks.length,
+      total_tasks: totalTasks,
+      completion_rate: completionRate,
+      productivity_score: productivityScore,
+      category_breakdown: topCategories,
+      summary_data: {
+        tasks: completedTasks.map(t => ({
+          id: t.id,
+          title: t.title,
+          priority: t.priority,
+          category: t.category,
+          completed_at: t.completed_at
+        })),
+        metrics: {
+          high_priority_completed: highPriorityCompleted,
+          high_priority_total: highPriorityTotal,
+          tasks_with_time_tracking: tasksWithBothTimes.length
+        }
+      },
+      created_at: new Date().toISOString()
+    }, {
+      onConflict: 'user_id,date'
+    });
+
+  if (saveError) {
+    console.error('Failed to save daily summary:', saveError);
+  }
+
+  // 6. Discord通知を送信
+  let discordSent = false;
+  if (sendDiscord && !testMode) {
+    const webhookUrl = process.env.DISCORD_WEBHOOK_URL;
+    if (webhookUrl) {
+      try {
+        const discordClient = new DiscordWebhookClient({
+          webhookUrl,
+          defaultUsername: 'AI Schedule Assistant',
+          retryAttempts: 2
+        });
+
+        const embed = TaskNotificationBuilder.createDailySummary(summaryData);
+        discordSent = await discordClient.sendEmbed(embed);
+
+        // Discord送信ログ
+        await supabase
+          .from('notification_logs')
+          .insert({
+            user_id: userId,
+            type: 'daily_summary',
+            title: `日次サマリー: ${dateStr}`,
+            channels: ['discord'],
+            notification_data: summaryData,
+            status: discordSent ? 'sent' : 'failed',
+            sent_at: new Date().toISOString()
+          });
+
+      } catch (discordError) {
+        console.error('Discord notification failed:', discordError);
+      }
+    }
+  }
+
+  // 7. 未完了タスクのリスケジュール提案
+  const incompleteTasks = allTasks.filter(t => t.status !== 'completed');
+  let rescheduleSuggestions: unknown[] = [];
+
+  if (incompleteTasks.length > 0 && !testMode) {
+    // 翌日にリスケジュール提案を作成
+    const { data: rescheduled } = await supabase
+      .from('reschedule_suggestions')
+      .insert({
+        user_id: userId,
+        original_date: dateStr,
+        suggested_date: addDaysToDateKey(dateStr, 1),
+        incomplete_task_ids: incompleteTasks.map(t => t.id),
+        reason: 'daily_summary_incomplete',
+        suggestion_data: {
+          incomplete_count: incompleteTasks.length,
+          completion_rate: completionRate,
+          generated_at: new Date().toISOString()
+        },
+        status: 'pending',
+        created_at: new Date().toISOString()
+      })
+      .select();
+
+    rescheduleSuggestions = rescheduled || [];
+  }
+
+  // 分析ログ
+  await supabase
+    .from('analytics_logs')
+    .insert({
+      user_id: userId,
+      event_type: 'daily_summary_generated',
+      event_data: {
+        ...summaryData,
+        discord_sent: discordSent,
+        reschedule_suggestions: rescheduleSuggestions.length,
+        test_mode: testMode
+      }
+    });
+
+  return {
+    summary: summaryData,
+    timeZone,
+    discordSent,
+    rescheduleSuggestions: rescheduleSuggestions.length,
+    insights: {
+      message: getProductivityMessage(productivityScore),
+      recommendations: getRecommendations(summaryData, incompleteTasks.length)
+    },
+  };
+}
+
+function getProductivityMessage(score: number): string {
+  if (score >= 90) return '🎉 素晴らしい一日でした！この調子を保ちましょう。';
+  if (score >= 70) return '👍 良い成果を上げました。明日も頑張りましょう！';
+  if (score >= 50) return '📈 まずまずの成果です。改善の余地がありますね。';
+  if (score >= 30) return '💪 今日は少し物足りませんでした。明日は頑張りましょう。';
+  return '🔄 今日は思うような成果が得られませんでした。明日に向けて計画を見直しましょう。';
+}
+
+function getRecommendations(summary: DailySummaryData, incompleteCount: number): string[] {
+  const recommendations: string[] = [];
+
+  if (summary.completionRate < 0.5) {
+    recommendations.push('タスクの量を見直し、より現実的な計画を立てましょう');
+  }
+
+  if (incompleteCount > 5) {
+    recommendations.push('未完了タスクが多いです。優先度を明確にして焦点を絞りましょう');
+  }
+
+  if (summary.topCategories.length === 1) {
+    recommendations.push('作業のバリエーションを増やすと、より充実した一日になります');
+  }
+
+  if (summary.productivityScore < 50) {
+    recommendations.push('休憩を適切に取り、集中力を保つよう心がけましょう');
+  }
+
+  return recommendations;
+}
@@ -0,0 +1,168 @@
+// ===========================================
+// Notification Devices - AI Schedule Assistant
+// 通知を受け取るブラウザ（デバイス）の登録情報とデバイスごとの受信設定
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NotificationPriority, NotificationType } from './queue';
+
+export type DeviceType = 'desktop' | 'mobile' | 'tablet';
+
+/**
+ * User-Agentから解析したデバイス情報（notification_interactions.device_info と同じ形式）
+ */
+export interface DeviceInfo {
+  browser: string;
+  mobile: boolean;
+  os: string;
+}
+
+/**
+ * デバイスごとの受信設定
+ */
+export interface DevicePreferences {
+  enabled: boolean;
+  minPriority: NotificationPriority;          // これより低い優先度の通知は受け取らない
+  notificationTypes: NotificationType[] | null; // nullは全種類
+}
+
+export interface NotificationDevice extends DevicePreferences {
+  id: string;
+  userId: string;
+  name: string;
+  deviceType: DeviceType;
+  deviceInfo: DeviceInfo | null;
+  lastSeenAt: Date | null;
+  createdAt: Date;
+}
+
+export const DEFAULT_DEVICE_PREFERENCES: DevicePreferences = {
+  enabled: true,
+  minPriority: 'low',
+  notificationTypes: null,
+};
+
+export const PRIORITY_RANK: Record<NotificationPriority, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  urgent: 3,
+};
+
+interface NotificationDeviceRow {
+  id: string;
+  user_id: string;
+  name: string;
+  device_type: DeviceType;
+  device_info: DeviceInfo | null;
+  enabled: boolean;
+  min_priority: NotificationPriority;
+  notification_types: NotificationType[] | null;
+  last_seen_at: string | null;
+  created_at: string;
+}
+
+/**
+ * User-Agentからデバイス情報を解析
+ */
+export function parseDeviceInfo(userAgent: string): DeviceInfo {
+  const browser = userAgent.includes('Chrome') ? 'Chrome' :
+                  userAgent.includes('Firefox') ? 'Firefox' :
+                  userAgent.includes('Safari') ? 'Safari' : 'Other';
+  const mobile = userAgent.includes('Mobile') || userAgent.includes('Android');
+  const os = userAgent.includes('Windows') ? 'Windows' :
+             userAgent.includes('Mac') ? 'macOS' :
+             userAgent.includes('Linux') ? 'Linux' :
+             userAgent.includes('Android') ? 'Android' :
+             userAgent.includes('iOS') ? 'iOS' : 'Other';
+
+  return { browser, mobile, os };
+}
+
+/**
+ * User-Agentからデバイスの種類と既定の名前を決める
+ */
+export function describeDevice(userAgent: string): { deviceType: DeviceType; name: string; deviceInfo: DeviceInfo } {
+  const deviceInfo = parseDeviceInfo(userAgent);
+  const deviceType: DeviceType = /iPad|Tablet/.test(userAgent)
+    ? 'tablet'
+    : deviceInfo.mobile ? 'mobile' : 'desktop';
+
+  return {
+    deviceType,
+    name: `${deviceInfo.browser} (${deviceInfo.os})`,
+    deviceInfo,
+  };
+}
+
+/**
+ * デバイスがこの通知を受け取る設定になっているか
+ */
+export function deviceAccepts(
+  device: DevicePreferences,
+  notification: { type: NotificationType; priority: NotificationPriority }
+): boolean {
+  if (!device.enabled) return false;
+  if (PRIORITY_RANK[notification.priority] < PRIORITY_RANK[device.minPriority]) return false;
+  return !device.notificationTypes || device.notificationTypes.includes(notification.type);
+}
+
+/**
+ * 受信設定の条件を満たす優先度の一覧（クエリの絞り込み用）
+ */
+export function acceptedPriorities(device: DevicePreferences): NotificationPriority[] {
+  return (Object.keys(PRIORITY_RANK) as NotificationPriority[])
+    .filter(priority => PRIORITY_RANK[priority] >= PRIORITY_RANK[device.minPriority]);
+}
+
+/**
+ * ユーザーのデバイス一覧を取得
+ */
+export async function getUserDevices(supabase: SupabaseClient, userIds: string[]): Promise<NotificationDevice[]> {
+  if (userIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('notification_devices')
+    .select('*')
+    .in('user_id', userIds)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(row => toNotificationDevice(row as NotificationDeviceRow));
+}
+
+/**
+ * デバイスを1件取得（他のユーザーのデバイスはnull）
+ */
+export async function getDevice(
+  supabase: SupabaseClient,
+  userId: string,
+  deviceId: string
+): Promise<NotificationDevice | null> {
+  const { data, error } = await supabase
+    .from('notification_devices')
+    .select('*')
+    .eq('id', deviceId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? toNotificationDevice(data as NotificationDeviceRow) : null;
+}
+
+export function toNotificationDevice(row: NotificationDeviceRow): NotificationDevice {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    deviceType: row.device_type,
+    deviceInfo: row.device_info,
+    enabled: row.enabled,
+    minPriority: row.min_priority,
+    notificationTypes: row.notification_types,
+    lastSeenAt: row.last_seen_at ? new Date(row.last_seen_at) : null,
+    createdAt: new Date(row.created_at),
+  };
+}
@@ -1,5 +1,7 @@
 // Discord Webhook クライアント - AI Schedule Assistant
 
+import { formatDateTime, UserLocale } from '@/lib/schedule/timezone';
+
 export interface DiscordEmbedField {
   name: string;
   value: string;
@@ -93,6 +95,14 @@ export class DiscordWebhookClient {
    * メッセージを送信
    */
   async sendMessage(message: DiscordMessage): Promise<boolean> {
+    await this.postMessage(message);
+    return true;
+  }
+
+  /**
+   * メッセージを送信し、送信したメッセージのIDを返す（後から削除する場合に使う）
+   */
+  async postMessage(message: DiscordMessage): Promise<string | null> {
     if (!DiscordWebhookClient.validateWebhookUrl(this.config.webhookUrl)) {
       throw new Error('Invalid Discord Webhook URL format');
     }
@@ -121,7 +131,7 @@ export class DiscordWebhookClient {
       try {
         this.requestCount++;
         
-        const response = await fetch(this.config.webhookUrl, {
+        const response = await fetch(`${this.config.webhookUrl}?wait=true`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -131,7 +141,8 @@ export class DiscordWebhookClient {
 
         if (response.ok) {
           console.log('Discord message sent successfully');
-          return true;
+          const sent = await response.json().catch(() => null) as { id?: string } | null;
+          return sent?.id || null;
         }
 
         // レート制限の処理
@@ -169,6 +180,26 @@ export class DiscordWebhookClient {
     throw lastError || new Error('Failed to send Discord message');
   }
 
+  /**
+   * 送信したメッセージを削除（既に削除されている場合も成功とする）
+   */
+  async deleteMessage(messageId: string): Promise<void> {
+    if (!DiscordWebhookClient.validateWebhookUrl(this.config.webhookUrl)) {
+      throw new Error('Invalid Discord Webhook URL format');
+    }
+
+    await this.checkRateLimit();
+    this.requestCount++;
+
+    const response = await fetch(`${this.config.webhookUrl}/messages/${messageId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Discord API error: ${response.status} - ${await response.text()}`);
+    }
+  }
+
   /**
    * 簡単なテキストメッセージを送信
    */
@@ -221,7 +252,7 @@ export class TaskNotificationBuilder {
     scheduledDate?: string;
     estimatedMinutes?: number;
     category?: string;
-  }): DiscordEmbed {
+  }, userLocale?: UserLocale): DiscordEmbed {
     const priorityEmoji = {
       high: '🔴',
       medium: '🟡',
@@ -255,7 +286,7 @@ export class TaskNotificationBuilder {
     if (task.scheduledDate) {
       fields.push({
         name: '予定時刻',
-        value: new Date(task.scheduledDate).toLocaleString('ja-JP'),
+        value: formatDateTime(task.scheduledDate, userLocale),
         inline: false
       });
     }
@@ -278,11 +309,11 @@ export class TaskNotificationBuilder {
     description?: string;
     startTime: string;
     location?: string;
-  }): DiscordEmbed {
+  }, userLocale?: UserLocale): DiscordEmbed {
     const fields: DiscordEmbedField[] = [
       {
         name: '開始時刻',
-        value: new Date(event.startTime).toLocaleString('ja-JP'),
+        value: formatDateTime(event.startTime, userLocale),
         inline: true
       }
     ];
@@ -312,7 +343,7 @@ export class TaskNotificationBuilder {
     title: string;
     dueDate: string;
     priority: string;
-  }): DiscordEmbed {
+  }, userLocale?: UserLocale): DiscordEmbed {
     return {
       title: '🚨 緊急タスク警告',
       description: `**${task.title}**\n\n期限まで2時間を切りました！`,
@@ -320,7 +351,7 @@ export class TaskNotificationBuilder {
       fields: [
         {
           name: '期限',
-          value: new Date(task.dueDate).toLocaleString('ja-JP'),
+          value: formatDateTime(task.dueDate, userLocale),
           inline: true
         },
         {
@@ -0,0 +1,179 @@
+// ===========================================
+// Email Notifications - AI Schedule Assistant
+// 通知メールのテンプレート（Discord Embedと同じ内容）とプロバイダーの制限内でのまとめ送信
+// ===========================================
+
+import { EMAIL_CONFIG } from '@/lib/config/environment';
+import { DiscordEmbed, NotificationColors } from './discord';
+import { createEmailTransport, EmailMessage, EmailTransport } from './smtp';
+
+// 通知の操作リンク（http/https のURLのみ）
+const MARKDOWN_LINK = /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g;
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailNotificationClientOptions {
+  batchSize?: number;     // 1接続で送る最大通数
+  maxPerMinute?: number;  // 1分あたりの最大送信数
+}
+
+/**
+ * 通知メールの生成ヘルパー
+ * TaskNotificationBuilder のEmbed（タスク・イベント・緊急・日次サマリー）をHTML/テキストにする
+ */
+export class EmailNotificationBuilder {
+  static fromEmbed(embed: DiscordEmbed): EmailContent {
+    const summary = firstLine(stripMarkdown(embed.description || ''));
+
+    return {
+      subject: summary ? `${embed.title}: ${summary}` : embed.title || 'AI Schedule Assistant',
+      text: renderText(embed),
+      html: renderPage([renderCard(embed)]),
+    };
+  }
+
+  /**
+   * 複数の通知を1通にまとめる
+   */
+  static createDigest(embeds: DiscordEmbed[]): EmailContent {
+    return {
+      subject: `🔔 ${embeds.length}件の通知 - AI Schedule Assistant`,
+      text: embeds.map(renderText).join('\n\n----------------------------------------\n\n'),
+      html: renderPage(embeds.map(renderCard)),
+    };
+  }
+}
+
+/**
+ * 通知メールの送信クライアント
+ * バッチサイズごとに1接続で送り、1分あたりの上限を超えないよう次のバッチまで待つ
+ */
+export class EmailNotificationClient {
+  private transport: EmailTransport;
+  private readonly batchSize: number;
+  private readonly minIntervalMs: number;
+  private nextSendAt = 0;
+
+  constructor(transport: EmailTransport = createEmailTransport(), options: EmailNotificationClientOptions = {}) {
+    this.transport = transport;
+    this.batchSize = Math.max(1, options.batchSize ?? EMAIL_CONFIG.batchSize);
+    this.minIntervalMs = 60000 / Math.max(1, options.maxPerMinute ?? EMAIL_CONFIG.maxPerMinute);
+  }
+
+  get transportName(): string {
+    return this.transport.name;
+  }
+
+  /**
+   * メッセージを送信し、メッセージごとの失敗理由（成功はnull）を返す
+   */
+  async sendAll(messages: EmailMessage[]): Promise<(string | null)[]> {
+    const results: (string | null)[] = [];
+
+    for (let i = 0; i < messages.length; i += this.batchSize) {
+      const batch = messages.slice(i, i + this.batchSize);
+
+      const waitTime = this.nextSendAt - Date.now();
+      if (waitTime > 0) {
+        console.log(`Email rate limit active, waiting ${Math.round(waitTime)}ms`);
+        await new Promise(resolve => setTimeout(resolve, waitTime));
+      }
+
+      results.push(...await this.transport.sendBatch(batch));
+      this.nextSendAt = Date.now() + batch.length * this.minIntervalMs;
+    }
+
+    return results;
+  }
+}
+
+/**
+ * Embedをテキスト本文にする
+ */
+function renderText(embed: DiscordEmbed): string {
+  const lines: string[] = [];
+
+  if (embed.title) lines.push(embed.title, '');
+  if (embed.description) lines.push(stripMarkdown(embed.description), '');
+
+  for (const field of embed.fields || []) {
+    const value = stripMarkdown(field.value);
+    lines.push(`${field.name}: ${value.includes('\n') ? `\n${value}` : value}`);
+  }
+
+  if (embed.footer?.text) {
+    lines.push('', `-- ${embed.footer.text}`);
+  }
+
+  return lines.join('\n').trim();
+}
+
+/**
+ * Embedを1枚のカードのHTMLにする
+ */
+function renderCard(embed: DiscordEmbed): string {
+  const color = `#${(embed.color ?? NotificationColors.INFO).toString(16).padStart(6, '0')}`;
+
+  const rows = (embed.fields || []).map(field => (
+    '<tr>' +
+    `<th style="text-align:left;padding:4px 16px 4px 0;color:#666;font-weight:normal;white-space:nowrap;vertical-align:top;">${escapeHtml(field.name)}</th>` +
+    `<td style="padding:4px 0;white-space:pre-line;">${renderMarkdown(field.value)}</td>` +
+    '</tr>'
+  )).join('');
+
+  return [
+    `<div style="background:#ffffff;border-left:4px solid ${color};border-radius:4px;padding:20px;margin:0 0 16px;">`,
+    embed.title ? `<h2 style="margin:0 0 12px;font-size:18px;color:#222;">${escapeHtml(embed.title)}</h2>` : '',
+    embed.description ? `<p style="margin:0 0 16px;white-space:pre-line;color:#222;">${renderMarkdown(embed.description)}</p>` : '',
+    rows ? `<table style="border-collapse:collapse;width:100%;font-size:14px;">${rows}</table>` : '',
+    embed.footer?.text ? `<p style="margin:16px 0 0;font-size:12px;color:#999;">${escapeHtml(embed.footer.text)}</p>` : '',
+    '</div>',
+  ].join('');
+}
+
+/**
+ * カードを並べたメール全体のHTML
+ */
+function renderPage(cards: string[]): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="ja">',
+    '<head><meta charset="UTF-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head>',
+    '<body style="margin:0;padding:24px;background:#f5f5f5;font-family:-apple-system,BlinkMacSystemFont,\'Hiragino Sans\',\'Noto Sans JP\',sans-serif;">',
+    `<div style="max-width:560px;margin:0 auto;">${cards.join('')}</div>`,
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Embedで使っている太字（**text**）とリンク（[text](url)）だけをHTMLにする
+ */
+function renderMarkdown(value: string): string {
+  return escapeHtml(value)
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(MARKDOWN_LINK, '<a href="$2">$1</a>');
+}
+
+function stripMarkdown(value: string): string {
+  return value
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(MARKDOWN_LINK, '$1 $2');
+}
+
+function firstLine(value: string): string {
+  return value.split('\n').find(line => line.trim() !== '')?.trim() || '';
+}
@@ -1,30 +1,93 @@
-// 通知キューイングシステム - AI Schedule Assistant
+// ===========================================
+// Notification Queue - AI Schedule Assistant
+// scheduled_notificationsを永続キューとして使い、複数のワーカーから重複なく配信する
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DiscordEmbed,
+  DiscordWebhookClient,
+  NotificationColors,
+  TaskNotificationBuilder,
+} from './discord';
+import { PUSH_CONFIG } from '@/lib/config/environment';
+import { createActionToken, createActionUrl, getNotificationActions } from './actions';
+import type { NotificationAction } from './actions';
+import {
+  acceptedPriorities,
+  deviceAccepts,
+  getDevice,
+  getUserDevices,
+  NotificationDevice,
+} from './devices';
+import { EmailNotificationBuilder, EmailNotificationClient } from './email';
+import { getNotificationSettings, NotificationSettings } from './settings';
+import { NotificationTokenPurpose, signNotificationToken } from './signing';
+import { getUserLocale, minutesOfDayIn, nextMinuteOfDayIn, UserLocale } from '@/lib/schedule/timezone';
+import type { EmailMessage, EmailTransport } from './smtp';
+import { isWebPushConfigured, sendWebPush } from './webpush';
+
+export type NotificationChannel = 'browser' | 'discord' | 'email';
+export type NotificationType = 'task_reminder' | 'event_reminder' | 'travel_reminder' | 'urgent_task' | 'daily_summary' | 'custom';
+export type NotificationPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+/**
+ * キュー上の通知の状態（scheduled_notifications.status）
+ */
+export const NotificationQueueStatus = {
+  SCHEDULED: 'scheduled',
+  PROCESSING: 'processing',   // ワーカーが確保中
+  DISPATCHED: 'dispatched',   // ブラウザに渡して表示の確認待ち
+  SENT: 'sent',
+  FAILED: 'failed',
+  CANCELLED: 'cancelled',
+  DEAD_LETTER: 'dead_letter', // 再試行回数を使い切った
+} as const;
+
+export type NotificationQueueStatus = typeof NotificationQueueStatus[keyof typeof NotificationQueueStatus];
 
 export interface QueuedNotification {
   id: string;
   userId: string;
-  type: 'task_reminder' | 'event_reminder' | 'urgent_task' | 'daily_summary' | 'custom';
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  data: any;
-  channels: ('browser' | 'discord')[];
+  type: NotificationType;
+  priority: NotificationPriority;
+  targetId: string | null;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  channels: NotificationChannel[];
+  deliveredChannels: NotificationChannel[];
   scheduledTime: Date;
   maxRetries: number;
   retryCount: number;
-  status: 'queued' | 'processing' | 'sent' | 'failed' | 'cancelled';
+  status: NotificationQueueStatus;
   createdAt: Date;
   processedAt?: Date;
+  dispatchedAt?: Date;
+  browserAcknowledgedAt?: Date;
+  resolvedAt?: Date; // いずれかのデバイスでクリック・消去された
+  resolvedAction?: ResolveAction;
+  deliveryRefs: Partial<Record<NotificationChannel, string>>;
   error?: string;
 }
 
-export interface NotificationQueue {
-  notifications: QueuedNotification[];
-  isProcessing: boolean;
-  lastProcessedAt?: Date;
+export interface EnqueueNotificationInput {
+  userId: string;
+  type: NotificationType;
+  priority: NotificationPriority;
+  targetId?: string | null;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  channels: NotificationChannel[];
+  scheduledTime?: Date; // 省略時は即時
+  maxRetries?: number;
 }
 
 export interface NotificationFilter {
   allowUrgent: boolean;
   maxPerHour: number;
+  timeZone: string; // 静音時間・集中モードの時刻を解釈するタイムゾーン
   quietHours?: {
     start: string; // HH:MM
     end: string;   // HH:MM
@@ -37,117 +100,361 @@ export interface NotificationFilter {
   };
 }
 
-class NotificationQueueManager {
-  private queue: Map<string, NotificationQueue> = new Map();
+export interface NotificationQueueOptions {
+  workerId?: string;
+  batchSize?: number;
+  lockTimeoutSeconds?: number; // これより長く確保されたままの通知は他のワーカーが再取得する
+  processingInterval?: number; // startProcessing()の実行間隔（ミリ秒）
+  emailTransport?: EmailTransport; // 省略時は EMAIL_TRANSPORT の設定に従う
+  ackTimeoutSeconds?: number; // ブラウザの表示確認をこれ以上待った通知は再送する
+}
+
+export interface ProcessResult {
+  claimed: number;
+  sent: number;
+  dispatched: number; // ブラウザに渡して表示の確認待ちになった件数
+  suppressed: number; // 他のデバイスで対応済みのため残りのチャンネルを送らなかった件数
+  retried: number;
+  deadLettered: number;
+  deferred: number; // 静音時間・集中モード・頻度制限で後ろ倒しにした件数
+}
+
+export interface ChannelDelivery {
+  notification: QueuedNotification;
+  settings: NotificationSettings;
+  userLocale: UserLocale;
+}
+
+/**
+ * ブラウザへの渡し方
+ * push: Web Pushで送信済み / poll: /api/notifications/pending での取得待ち
+ */
+export type BrowserDispatchMethod = 'push' | 'poll';
+
+export type ChannelResult =
+  | { status: 'delivered'; ref?: string } // ref: 取り消し用の参照（DiscordのメッセージIDなど）
+  | { status: 'failed'; error: string }
+  | { status: 'dispatched'; via: BrowserDispatchMethod } // 表示の確認待ち
+  | { status: 'suppressed' }; // デバイス設定により受け取るデバイスがない
+
+/**
+ * チャンネルごとの送信処理
+ * まとめて渡された通知を送信し、通知ごとの結果を返す
+ */
+export type ChannelSender = (deliveries: ChannelDelivery[]) => Promise<ChannelResult[]>;
+
+/**
+ * Service Workerが表示する通知の内容（Web Pushのペイロードと /api/notifications/pending の応答で共通）
+ */
+export interface BrowserNotificationPayload {
+  id: string;
+  title: string;
+  body: string;
+  icon: string;
+  tag: string;
+  data: {
+    type: NotificationType;
+    targetId: string | null;
+    notificationId: string;
+    ackToken: string; // 表示の確認（/api/notifications/ack）用
+    resolveToken: string; // クリック・消去の記録（/api/notifications/resolve）用
+    url: string;
+    timestamp: number;
+    actionTokens: Partial<Record<NotificationAction, string>>; // 操作ボタン（/api/notifications/action）用
+  };
+  actions: { action: NotificationAction; title: string }[];
+}
+
+/**
+ * 他のデバイスで対応済みになった通知を閉じさせるプッシュのペイロード
+ */
+export interface BrowserRetractionPayload {
+  retract: true;
+  notificationId: string;
+  tag: string;
+}
+
+export type ResolveAction = 'click' | 'dismiss' | NotificationAction;
+
+export const DEFAULT_MAX_RETRIES = 3;
+
+const RATE_LIMIT_DEFER_MINUTES = 10;
+const BROWSER_HANDOFF_TTL_MINUTES = 60; // これより古い通知はブラウザに渡さない
+
+interface ScheduledNotificationRow {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  priority: NotificationPriority;
+  target_id: string | null;
+  title: string;
+  body: string;
+  payload: Record<string, unknown> | null;
+  channels: NotificationChannel[] | null;
+  delivered_channels: NotificationChannel[] | null;
+  notify_at: string;
+  max_retries: number;
+  retry_count: number | null;
+  status: NotificationQueueStatus;
+  created_at: string;
+  sent_at: string | null;
+  dispatched_at: string | null;
+  browser_acknowledged_at: string | null;
+  resolved_at: string | null;
+  resolved_action: ResolveAction | null;
+  delivery_refs: Partial<Record<NotificationChannel, string>> | null;
+  failed_reason: string | null;
+}
+
+interface PushSubscriptionRow {
+  id: string;
+  user_id: string;
+  device_id: string | null;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  failure_count: number;
+}
+
+type ProcessOutcome = 'sent' | 'dispatched' | 'suppressed' | 'retried' | 'deadLettered';
+
+interface DeliveryState {
+  deliveredChannels: NotificationChannel[];
+  dispatchedVia?: BrowserDispatchMethod;
+  refs: Partial<Record<NotificationChannel, string>>;
+  errors: string[];
+}
+
+export class NotificationQueueManager {
+  private supabase: SupabaseClient;
+  private readonly workerId: string;
+  private readonly batchSize: number;
+  private readonly lockTimeoutSeconds: number;
+  private readonly ackTimeoutSeconds: number;
+  private readonly processingIntervalMs: number;
   private processingInterval: NodeJS.Timeout | null = null;
-  private readonly PROCESSING_INTERVAL = 30000; // 30秒間隔
+  private isProcessing = false;
+  private senders: Record<NotificationChannel, ChannelSender>;
+  private emailClient: EmailNotificationClient;
+
+  constructor(supabase: SupabaseClient, options: NotificationQueueOptions = {}) {
+    this.supabase = supabase;
+    this.workerId = options.workerId || `worker-${process.pid}-${Math.random().toString(36).substring(2, 8)}`;
+    this.batchSize = options.batchSize ?? 50;
+    this.lockTimeoutSeconds = options.lockTimeoutSeconds ?? 300;
+    this.ackTimeoutSeconds = options.ackTimeoutSeconds ?? PUSH_CONFIG.ackTimeoutSeconds;
+    this.processingIntervalMs = options.processingInterval ?? 30000; // 30秒間隔
+    this.emailClient = new EmailNotificationClient(options.emailTransport);
+    this.senders = {
+      browser: (deliveries) => this.sendBrowserNotifications(deliveries),
+      discord: sendEach(delivery => this.sendDiscordNotification(delivery)),
+      email: (deliveries) => this.sendEmailNotifications(deliveries),
+    };
+  }
 
   /**
    * 通知をキューに追加
    */
-  async enqueue(notification: Omit<QueuedNotification, 'id' | 'retryCount' | 'status' | 'createdAt'>): Promise<string> {
-    const notificationId = this.generateId();
-    const queuedNotification: QueuedNotification = {
-      ...notification,
-      id: notificationId,
-      retryCount: 0,
-      status: 'queued',
-      createdAt: new Date()
-    };
-
-    // ユーザー別のキューを取得または作成
-    if (!this.queue.has(notification.userId)) {
-      this.queue.set(notification.userId, {
-        notifications: [],
-        isProcessing: false
-      });
+  async enqueue(input: EnqueueNotificationInput): Promise<QueuedNotification> {
+    if (input.channels.length === 0) {
+      throw new Error('通知チャンネルが指定されていません');
     }
 
-    const userQueue = this.queue.get(notification.userId)!;
-    userQueue.notifications.push(queuedNotification);
-
-    // 優先度順にソート
-    userQueue.notifications.sort((a, b) => {
-      const priorityOrder = { urgent: 4, high: 3, medium: 2, low: 1 };
-      const priorityDiff = priorityOrder[b.priority] - priorityOrder[a.priority];
-      if (priorityDiff !== 0) return priorityDiff;
-      
-      // 同じ優先度の場合は予定時刻順
-      return a.scheduledTime.getTime() - b.scheduledTime.getTime();
-    });
+    const now = new Date();
+    const { data, error } = await this.supabase
+      .from('scheduled_notifications')
+      .insert({
+        user_id: input.userId,
+        type: input.type,
+        priority: input.priority,
+        target_id: input.targetId ?? null,
+        title: input.title.substring(0, 200),
+        body: input.body.substring(0, 500),
+        payload: input.data || {},
+        channels: input.channels,
+        notify_at: (input.scheduledTime || now).toISOString(),
+        max_retries: input.maxRetries ?? DEFAULT_MAX_RETRIES,
+        status: NotificationQueueStatus.SCHEDULED,
+        created_at: now.toISOString(),
+      })
+      .select()
+      .single();
 
-    console.log(`Notification queued: ${notificationId} for user ${notification.userId}`);
-    return notificationId;
+    if (error) throw error;
+
+    return toQueuedNotification(data as ScheduledNotificationRow);
   }
 
   /**
-   * 通知をキューから削除（キャンセル）
+   * 通知をキャンセル（配信待ちのもののみ）
    */
   async cancel(userId: string, notificationId: string): Promise<boolean> {
-    const userQueue = this.queue.get(userId);
-    if (!userQueue) return false;
-
-    const index = userQueue.notifications.findIndex(n => n.id === notificationId);
-    if (index === -1) return false;
+    const { data, error } = await this.supabase
+      .from('scheduled_notifications')
+      .update({
+        status: NotificationQueueStatus.CANCELLED,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', notificationId)
+      .eq('user_id', userId)
+      .eq('status', NotificationQueueStatus.SCHEDULED)
+      .select('id');
 
-    const notification = userQueue.notifications[index];
-    if (notification.status === 'processing') {
-      notification.status = 'cancelled';
-      return true;
-    }
+    if (error) throw error;
 
-    userQueue.notifications.splice(index, 1);
-    console.log(`Notification cancelled: ${notificationId}`);
-    return true;
+    return (data || []).length > 0;
   }
 
   /**
    * ユーザーのキューを取得
    */
-  getUserQueue(userId: string): QueuedNotification[] {
-    const userQueue = this.queue.get(userId);
-    return userQueue ? [...userQueue.notifications] : [];
+  async getUserQueue(
+    userId: string,
+    statuses: NotificationQueueStatus[] = [
+      NotificationQueueStatus.SCHEDULED,
+      NotificationQueueStatus.PROCESSING,
+      NotificationQueueStatus.DISPATCHED,
+    ]
+  ): Promise<QueuedNotification[]> {
+    const { data, error } = await this.supabase
+      .from('scheduled_notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .in('status', statuses)
+      .order('notify_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(row => toQueuedNotification(row as ScheduledNotificationRow));
   }
 
   /**
-   * キューのクリーンアップ（古い通知の削除）
+   * 配信時刻を過ぎた通知を確保して配信する（cronからの1回実行用）
+   * userIdを指定するとそのユーザーの通知だけを処理する
    */
-  cleanup(olderThanHours: number = 24): void {
-    const cutoffTime = new Date(Date.now() - olderThanHours * 60 * 60 * 1000);
-    
-    for (const [userId, userQueue] of this.queue.entries()) {
-      const originalLength = userQueue.notifications.length;
-      
-      userQueue.notifications = userQueue.notifications.filter(notification => {
-        const shouldKeep = notification.createdAt > cutoffTime || 
-                          notification.status === 'queued' || 
-                          notification.status === 'processing';
-        return shouldKeep;
-      });
+  async processDue(options: { userId?: string } = {}): Promise<ProcessResult> {
+    const result: ProcessResult = {
+      claimed: 0, sent: 0, dispatched: 0, suppressed: 0, retried: 0, deadLettered: 0, deferred: 0,
+    };
+
+    const { data, error } = await this.supabase.rpc('claim_scheduled_notifications', {
+      worker_id: this.workerId,
+      batch_size: this.batchSize,
+      lock_timeout_seconds: this.lockTimeoutSeconds,
+      target_user_id: options.userId ?? null,
+      ack_timeout_seconds: this.ackTimeoutSeconds,
+    });
+
+    if (error) throw error;
+
+    const notifications = ((data || []) as ScheduledNotificationRow[]).map(toQueuedNotification);
+    result.claimed = notifications.length;
 
-      const removedCount = originalLength - userQueue.notifications.length;
-      if (removedCount > 0) {
-        console.log(`Cleaned up ${removedCount} old notifications for user ${userId}`);
+    // 他のデバイスでクリック・消去済みの通知は残りのチャンネルを送らずに終える
+    const resolved = notifications.filter(notification => notification.resolvedAt);
+    for (const notification of resolved) {
+      try {
+        await this.finish(notification, {
+          status: NotificationQueueStatus.SENT,
+          sent_at: new Date().toISOString(),
+          dispatched_at: null,
+          failed_reason: null,
+        });
+        result.suppressed++;
+      } catch (error) {
+        console.error(`Error completing notification ${notification.id}:`, error);
       }
+    }
 
-      // 空のキューを削除
-      if (userQueue.notifications.length === 0 && !userQueue.isProcessing) {
-        this.queue.delete(userId);
+    // 表示の確認が来ないまま再取得した通知はブラウザへの配信失敗として再試行する
+    const dispatched = notifications.filter(notification => notification.dispatchedAt && !notification.resolvedAt);
+    for (const notification of dispatched) {
+      try {
+        const outcome = await this.completeNotification(notification, {
+          deliveredChannels: notification.deliveredChannels,
+          refs: {},
+          errors: ['browser: 表示の確認が取れませんでした'],
+        });
+        result[outcome]++;
+      } catch (error) {
+        console.error(`Error completing notification ${notification.id}:`, error);
+      }
+    }
+
+    // ユーザーごとに設定を読んでフィルタリング
+    const byUser = new Map<string, QueuedNotification[]>();
+    for (const notification of notifications.filter(notification => !notification.dispatchedAt && !notification.resolvedAt)) {
+      const list = byUser.get(notification.userId) || [];
+      list.push(notification);
+      byUser.set(notification.userId, list);
+    }
+
+    const deliveries: ChannelDelivery[] = [];
+    for (const [userId, userNotifications] of byUser.entries()) {
+      try {
+        const [settings, userLocale] = await Promise.all([
+          getNotificationSettings(this.supabase, userId),
+          getUserLocale(this.supabase, userId),
+        ]);
+        const now = new Date();
+        const { allowed, deferred } = await this.filterNotifications(
+          userId,
+          userNotifications,
+          toNotificationFilter(settings, userLocale),
+          now
+        );
+
+        for (const { notification, until } of deferred) {
+          await this.release(notification, until);
+          result.deferred++;
+        }
+
+        for (const notification of allowed) {
+          deliveries.push({ notification, settings, userLocale });
+        }
+      } catch (error) {
+        // 確保したままの通知はロックのタイムアウト後に再取得される
+        console.error(`Error processing queue for user ${userId}:`, error);
       }
     }
+
+    // チャンネルごとにまとめて送信し、通知ごとに結果を記録
+    const states = await this.deliver(deliveries);
+    for (const { notification } of deliveries) {
+      try {
+        const outcome = await this.completeNotification(notification, states.get(notification.id)!);
+        result[outcome]++;
+      } catch (error) {
+        console.error(`Error completing notification ${notification.id}:`, error);
+      }
+    }
+
+    return result;
   }
 
   /**
-   * 処理を開始
+   * 常駐プロセスでの定期処理を開始
    */
   startProcessing(): void {
     if (this.processingInterval) return;
 
-    this.processingInterval = setInterval(() => {
-      this.processQueue();
-    }, this.PROCESSING_INTERVAL);
+    this.processingInterval = setInterval(async () => {
+      if (this.isProcessing) return;
+      this.isProcessing = true;
 
-    console.log('Notification queue processing started');
+      try {
+        const result = await this.processDue();
+        if (result.claimed > 0) {
+          console.log(`Notification queue processed (${this.workerId}):`, result);
+        }
+      } catch (error) {
+        console.error('Notification queue processing error:', error);
+      } finally {
+        this.isProcessing = false;
+      }
+    }, this.processingIntervalMs);
+
+    console.log(`Notification queue processing started (${this.workerId})`);
   }
 
   /**
@@ -162,211 +469,638 @@ class NotificationQueueManager {
   }
 
   /**
-   * キューの処理（内部メソッド）
+   * Web Pushの購読がないためブラウザからの取得を待っている通知を取り出す
+   * 取得済みの印は条件付き更新で付けるため、同時に呼ばれても同じ通知は一度しか返らない。
+   * deviceを指定するとそのデバイスの受信設定に合う通知だけを返す
    */
-  private async processQueue(): Promise<void> {
-    const now = new Date();
+  async takeBrowserNotifications(
+    userId: string,
+    limit: number = 10,
+    device: NotificationDevice | null = null
+  ): Promise<QueuedNotification[]> {
+    if (device && !device.enabled) return [];
 
-    for (const [userId, userQueue] of this.queue.entries()) {
-      if (userQueue.isProcessing) continue;
+    const since = new Date(Date.now() - BROWSER_HANDOFF_TTL_MINUTES * 60 * 1000);
 
-      // 送信可能な通知を取得
-      const readyNotifications = userQueue.notifications.filter(notification => 
-        notification.status === 'queued' && 
-        notification.scheduledTime <= now
-      );
+    let query = this.supabase
+      .from('scheduled_notifications')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('status', NotificationQueueStatus.DISPATCHED)
+      .eq('dispatched_via', 'poll')
+      .is('browser_fetched_at', null)
+      .gte('notify_at', since.toISOString());
 
-      if (readyNotifications.length === 0) continue;
+    if (device) {
+      query = query.in('priority', acceptedPriorities(device));
+      if (device.notificationTypes) {
+        query = query.in('type', device.notificationTypes);
+      }
+    }
 
-      userQueue.isProcessing = true;
+    const { data: candidates, error } = await query
+      .order('notify_at', { ascending: true })
+      .limit(limit);
 
-      try {
-        // ユーザーの通知設定を取得してフィルタリング
-        const filter = await this.getUserNotificationFilter(userId);
-        const allowedNotifications = this.filterNotifications(readyNotifications, filter, now);
+    if (error) throw error;
+    if (!candidates || candidates.length === 0) return [];
 
-        // 許可された通知を処理
-        for (const notification of allowedNotifications) {
-          await this.processNotification(notification);
-        }
+    const { data: taken, error: takeError } = await this.supabase
+      .from('scheduled_notifications')
+      .update({ browser_fetched_at: new Date().toISOString() })
+      .in('id', candidates.map(candidate => candidate.id))
+      .eq('status', NotificationQueueStatus.DISPATCHED)
+      .is('browser_fetched_at', null)
+      .select('*');
 
-        userQueue.lastProcessedAt = now;
-      } catch (error) {
-        console.error(`Error processing queue for user ${userId}:`, error);
-      } finally {
-        userQueue.isProcessing = false;
-      }
-    }
+    if (takeError) throw takeError;
+
+    return (taken || [])
+      .map(row => toQueuedNotification(row as ScheduledNotificationRow))
+      .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
+  }
 
-    // 定期的なクリーンアップ
-    if (Math.random() < 0.1) { // 10%の確率で実行
-      this.cleanup();
+  /**
+   * いずれかのデバイスでクリック・消去された通知を対応済みにする
+   * 初回のみ、他のデバイスに表示中の通知とDiscordに投稿したメッセージを取り消す
+   */
+  async resolve(notificationId: string, action: ResolveAction, deviceId: string | null = null): Promise<boolean> {
+    const notification = await this.getNotification(notificationId);
+    if (!notification) return false;
+
+    const device = deviceId ? await getDevice(this.supabase, notification.userId, deviceId) : null;
+
+    const { data: firstResolution, error: resolveError } = await this.supabase.rpc('resolve_notification', {
+      notification_id: notification.id,
+      action,
+      device_id: device?.id ?? null,
+    });
+
+    if (resolveError) throw resolveError;
+
+    if (firstResolution) {
+      await this.retract(notification, device?.id ?? null);
     }
+
+    return true;
   }
 
   /**
-   * 通知のフィルタリング
+   * 通知を1件取得
    */
-  private filterNotifications(
-    notifications: QueuedNotification[], 
-    filter: NotificationFilter, 
+  async getNotification(notificationId: string): Promise<QueuedNotification | null> {
+    const { data, error } = await this.supabase
+      .from('scheduled_notifications')
+      .select('*')
+      .eq('id', notificationId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data ? toQueuedNotification(data as ScheduledNotificationRow) : null;
+  }
+
+  /**
+   * キューの統計情報を取得
+   */
+  async getStats(userId?: string): Promise<{ statusCounts: Record<NotificationQueueStatus, number> }> {
+    const statuses = Object.values(NotificationQueueStatus);
+
+    const counts = await Promise.all(statuses.map(async status => {
+      let query = this.supabase
+        .from('scheduled_notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', status);
+
+      if (userId) {
+        query = query.eq('user_id', userId);
+      }
+
+      const { count, error } = await query;
+      if (error) throw error;
+      return count || 0;
+    }));
+
+    const statusCounts = {} as Record<NotificationQueueStatus, number>;
+    statuses.forEach((status, index) => {
+      statusCounts[status] = counts[index];
+    });
+
+    return { statusCounts };
+  }
+
+  /**
+   * 通知のフィルタリング（送れないものは送れるようになる時刻まで後ろ倒し）
+   * 静音時間・集中モードはユーザーのタイムゾーンの壁時計で判定する
+   */
+  private async filterNotifications(
+    userId: string,
+    notifications: QueuedNotification[],
+    filter: NotificationFilter,
     now: Date
-  ): QueuedNotification[] {
-    const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-    
+  ): Promise<{ allowed: QueuedNotification[]; deferred: { notification: QueuedNotification; until: Date }[] }> {
+    const currentMinutes = minutesOfDayIn(now, filter.timeZone);
+    const deferred: { notification: QueuedNotification; until: Date }[] = [];
+    let allowed = notifications;
+
     // 静音時間のチェック
-    if (filter.quietHours && this.isInTimeRange(currentTime, filter.quietHours.start, filter.quietHours.end)) {
-      return notifications.filter(n => n.priority === 'urgent' && filter.allowUrgent);
+    if (filter.quietHours && this.isInTimeRange(currentMinutes, filter.quietHours.start, filter.quietHours.end)) {
+      const until = this.nextTimeOfDay(filter.quietHours.end, now, filter.timeZone);
+      allowed = allowed.filter(n => {
+        if (n.priority === 'urgent' && filter.allowUrgent) return true;
+        deferred.push({ notification: n, until });
+        return false;
+      });
     }
 
     // 集中モードのチェック
-    if (filter.focusMode?.enabled && this.isInTimeRange(currentTime, filter.focusMode.start, filter.focusMode.end)) {
-      return notifications.filter(n => n.priority === 'urgent' && filter.focusMode!.allowUrgent);
+    const focusMode = filter.focusMode;
+    if (focusMode?.enabled && this.isInTimeRange(currentMinutes, focusMode.start, focusMode.end)) {
+      const until = this.nextTimeOfDay(focusMode.end, now, filter.timeZone);
+      allowed = allowed.filter(n => {
+        if (n.priority === 'urgent' && focusMode.allowUrgent) return true;
+        deferred.push({ notification: n, until });
+        return false;
+      });
+    }
+
+    if (allowed.length === 0) {
+      return { allowed, deferred };
     }
 
     // 1時間あたりの通知数制限
     const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
-    const recentNotifications = notifications.filter(n => 
-      n.processedAt && n.processedAt > oneHourAgo && n.status === 'sent'
-    );
-
-    const remainingSlots = Math.max(0, filter.maxPerHour - recentNotifications.length);
-    
-    // 優先度順に制限内の通知を選択
-    return notifications.slice(0, remainingSlots);
+    const { count, error } = await this.supabase
+      .from('scheduled_notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('status', NotificationQueueStatus.SENT)
+      .gte('sent_at', oneHourAgo.toISOString());
+
+    if (error) throw error;
+
+    // 確保時に優先度順に並んでいるので先頭から制限内の通知を選択
+    const remainingSlots = Math.max(0, filter.maxPerHour - (count || 0));
+    const rateLimitedUntil = new Date(now.getTime() + RATE_LIMIT_DEFER_MINUTES * 60 * 1000);
+    for (const notification of allowed.slice(remainingSlots)) {
+      deferred.push({ notification, until: rateLimitedUntil });
+    }
+
+    return { allowed: allowed.slice(0, remainingSlots), deferred };
   }
 
   /**
-   * 個別通知の処理
+   * 未配信のチャンネルだけをチャンネルごとにまとめて送信
    */
-  private async processNotification(notification: QueuedNotification): Promise<void> {
-    notification.status = 'processing';
-
-    try {
-      // 通知の送信処理
-      const success = await this.sendNotification(notification);
+  private async deliver(deliveries: ChannelDelivery[]): Promise<Map<string, DeliveryState>> {
+    const states = new Map<string, DeliveryState>();
+    const channels = new Set<NotificationChannel>();
 
-      if (success) {
-        notification.status = 'sent';
-        notification.processedAt = new Date();
-        console.log(`Notification sent successfully: ${notification.id}`);
-      } else {
-        throw new Error('Failed to send notification');
+    for (const { notification } of deliveries) {
+      const deliveredChannels = [...notification.deliveredChannels];
+      // 前回の配信で表示の確認まで取れていたブラウザ通知は送り直さない
+      if (notification.browserAcknowledgedAt && !deliveredChannels.includes('browser')) {
+        deliveredChannels.push('browser');
       }
+      states.set(notification.id, { deliveredChannels, refs: {}, errors: [] });
+      notification.channels.forEach(channel => channels.add(channel));
+    }
 
-    } catch (error) {
-      notification.retryCount++;
-      notification.error = error instanceof Error ? error.message : 'Unknown error';
+    for (const channel of Array.from(channels)) {
+      const targets = deliveries.filter(({ notification }) =>
+        notification.channels.includes(channel) && !states.get(notification.id)!.deliveredChannels.includes(channel)
+      );
+      if (targets.length === 0) continue;
 
-      if (notification.retryCount >= notification.maxRetries) {
-        notification.status = 'failed';
-        console.error(`Notification failed permanently: ${notification.id}`, error);
-      } else {
-        notification.status = 'queued';
-        // 指数バックオフで再試行時刻を調整
-        const backoffMinutes = Math.pow(2, notification.retryCount) * 5; // 5, 10, 20, 40分...
-        notification.scheduledTime = new Date(Date.now() + backoffMinutes * 60 * 1000);
-        console.log(`Notification retry scheduled: ${notification.id} (attempt ${notification.retryCount})`);
+      let results: ChannelResult[];
+      try {
+        const sender = this.senders[channel];
+        if (!sender) {
+          throw new Error(`未対応の通知チャンネルです: ${channel}`);
+        }
+        results = await sender(targets);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        results = targets.map(() => ({ status: 'failed', error: message }));
       }
+
+      targets.forEach(({ notification }, index) => {
+        const state = states.get(notification.id)!;
+        const channelResult = results[index];
+        if (channelResult.status === 'failed') {
+          state.errors.push(`${channel}: ${channelResult.error}`);
+        } else if (channelResult.status === 'dispatched') {
+          state.dispatchedVia = channelResult.via;
+        } else if (channelResult.status === 'delivered') {
+          state.deliveredChannels.push(channel);
+          if (channelResult.ref) {
+            state.refs[channel] = channelResult.ref;
+          }
+        }
+      });
     }
+
+    return states;
   }
 
   /**
-   * 実際の通知送信処理
+   * 送信結果を記録
+   * 全チャンネル配信済みなら送信済み、ブラウザの表示確認待ちなら dispatched、失敗があれば再試行かデッドレター
    */
-  private async sendNotification(notification: QueuedNotification): Promise<boolean> {
-    const promises: Promise<boolean>[] = [];
+  private async completeNotification(
+    notification: QueuedNotification,
+    { deliveredChannels, dispatchedVia, refs, errors }: DeliveryState
+  ): Promise<ProcessOutcome> {
+    const now = new Date();
+    const deliveryRefs = { ...notification.deliveryRefs, ...refs };
+
+    if (errors.length === 0 && dispatchedVia) {
+      await this.finish(notification, {
+        status: NotificationQueueStatus.DISPATCHED,
+        delivered_channels: deliveredChannels,
+        delivery_refs: deliveryRefs,
+        dispatched_at: now.toISOString(),
+        dispatched_via: dispatchedVia,
+        browser_fetched_at: null,
+        failed_reason: null,
+      });
 
-    // Discord通知
-    if (notification.channels.includes('discord')) {
-      promises.push(this.sendDiscordNotification(notification));
+      // 確保中に届いた表示確認はここで反映する
+      const { data: settled, error } = await this.supabase
+        .from('scheduled_notifications')
+        .update({
+          status: NotificationQueueStatus.SENT,
+          delivered_channels: [...deliveredChannels, 'browser'],
+          sent_at: now.toISOString(),
+          dispatched_at: null,
+          updated_at: now.toISOString(),
+        })
+        .eq('id', notification.id)
+        .eq('status', NotificationQueueStatus.DISPATCHED)
+        .not('browser_acknowledged_at', 'is', null)
+        .select('id');
+
+      if (error) throw error;
+
+      return (settled || []).length > 0 ? 'sent' : 'dispatched';
     }
 
-    // ブラウザ通知
-    if (notification.channels.includes('browser')) {
-      promises.push(this.sendBrowserNotification(notification));
+    if (errors.length === 0) {
+      await this.finish(notification, {
+        status: NotificationQueueStatus.SENT,
+        delivered_channels: deliveredChannels,
+        delivery_refs: deliveryRefs,
+        sent_at: now.toISOString(),
+        dispatched_at: null,
+        failed_reason: null,
+      });
+      return 'sent';
     }
 
-    if (promises.length === 0) {
-      throw new Error('No notification channels specified');
+    const retryCount = notification.retryCount + 1;
+    const failedReason = errors.join('; ');
+
+    if (retryCount >= notification.maxRetries) {
+      await this.finish(notification, {
+        status: NotificationQueueStatus.DEAD_LETTER,
+        delivered_channels: deliveredChannels,
+        delivery_refs: deliveryRefs,
+        dispatched_at: null,
+        retry_count: retryCount,
+        failed_reason: failedReason,
+      });
+      console.error(`Notification moved to dead letter: ${notification.id} (${failedReason})`);
+      return 'deadLettered';
     }
 
-    // 少なくとも1つのチャンネルで成功すれば成功とする
-    const results = await Promise.allSettled(promises);
-    return results.some(result => result.status === 'fulfilled' && result.value === true);
+    // 指数バックオフで再試行時刻を調整
+    const backoffMinutes = Math.pow(2, retryCount) * 5; // 10, 20, 40分...
+    await this.finish(notification, {
+      status: NotificationQueueStatus.SCHEDULED,
+      delivered_channels: deliveredChannels,
+      delivery_refs: deliveryRefs,
+      dispatched_at: null,
+      retry_count: retryCount,
+      failed_reason: failedReason,
+      notify_at: new Date(now.getTime() + backoffMinutes * 60 * 1000).toISOString(),
+    });
+    console.log(`Notification retry scheduled: ${notification.id} (attempt ${retryCount})`);
+    return 'retried';
   }
 
   /**
-   * Discord通知送信
+   * 確保した通知を送信せずに指定時刻まで戻す
    */
-  private async sendDiscordNotification(notification: QueuedNotification): Promise<boolean> {
-    try {
-      const response = await fetch('/api/notifications/discord', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          type: notification.type,
-          data: notification.data,
-          immediate: true
-        })
-      });
+  private async release(notification: QueuedNotification, until: Date): Promise<void> {
+    await this.finish(notification, {
+      status: NotificationQueueStatus.SCHEDULED,
+      notify_at: until.toISOString(),
+    });
+  }
 
-      return response.ok;
-    } catch (error) {
-      console.error('Discord notification failed:', error);
-      return false;
+  /**
+   * 確保中の通知を更新してロックを外す
+   * ロックのタイムアウトで他のワーカーに移っていた場合は何もしない
+   */
+  private async finish(notification: QueuedNotification, values: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabase
+      .from('scheduled_notifications')
+      .update({
+        ...values,
+        locked_by: null,
+        locked_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', notification.id)
+      .eq('status', NotificationQueueStatus.PROCESSING)
+      .eq('locked_by', this.workerId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Discord通知送信（再試行はキュー側で行う）
+   */
+  private async sendDiscordNotification({ notification, settings, userLocale }: ChannelDelivery): Promise<string | null> {
+    const webhookUrl = settings.discordWebhookUrl || process.env.DISCORD_WEBHOOK_URL;
+    if (!webhookUrl) {
+      throw new Error('Discord Webhook URLが設定されていません');
     }
+
+    const client = new DiscordWebhookClient({ webhookUrl, retryAttempts: 0 });
+    return client.postMessage({ embeds: [this.buildEmbed(notification, userLocale)] });
   }
 
   /**
    * ブラウザ通知送信
+   * Web Pushの購読があればプッシュし、なければ /api/notifications/pending で取得できる状態にする。
+   * どちらの場合もService Workerからの表示確認（/api/notifications/ack）で送信済みになる
    */
-  private async sendBrowserNotification(notification: QueuedNotification): Promise<boolean> {
-    // Service Workerまたはブラウザ通知APIを使用
-    // 実装は環境に依存するため、ここではプレースホルダー
-    console.log('Browser notification would be sent:', notification.data.title);
-    return true;
+  private async sendBrowserNotifications(deliveries: ChannelDelivery[]): Promise<ChannelResult[]> {
+    const userIds = Array.from(new Set(deliveries.map(({ notification }) => notification.userId)));
+    const subscriptions = await this.getPushSubscriptions(userIds);
+    const devices = await getUserDevices(this.supabase, userIds);
+
+    const results: ChannelResult[] = [];
+    for (const { notification } of deliveries) {
+      const userSubscriptions = subscriptions.get(notification.userId) || [];
+      const userDevices = devices.filter(device => device.userId === notification.userId);
+      const targets = userSubscriptions.filter(subscription =>
+        acceptsOnDevice(userDevices, subscription.device_id, notification)
+      );
+
+      if (targets.length > 0) {
+        try {
+          results.push(await this.pushNotification(notification, targets, userSubscriptions));
+        } catch (error) {
+          results.push({ status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      } else if (userDevices.length === 0 || userDevices.some(device => deviceAccepts(device, notification))) {
+        results.push({ status: 'dispatched', via: 'poll' });
+      } else {
+        results.push({ status: 'suppressed' });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * ユーザーごとのWeb Push購読（VAPID鍵が未設定なら空）
+   */
+  private async getPushSubscriptions(userIds: string[]): Promise<Map<string, PushSubscriptionRow[]>> {
+    const subscriptions = new Map<string, PushSubscriptionRow[]>();
+    if (!isWebPushConfigured()) return subscriptions;
+
+    const { data, error } = await this.supabase
+      .from('push_subscriptions')
+      .select('id, user_id, device_id, endpoint, p256dh, auth, failure_count')
+      .in('user_id', userIds);
+
+    if (error) throw error;
+
+    for (const row of (data || []) as PushSubscriptionRow[]) {
+      subscriptions.set(row.user_id, [...(subscriptions.get(row.user_id) || []), row]);
+    }
+
+    return subscriptions;
+  }
+
+  /**
+   * 受信設定に合う購読（デバイス）にプッシュ
+   * 無効になった購読は削除し（ユーザーの購読一覧からも取り除く）、1つも届かなければポーリングに切り替える
+   */
+  private async pushNotification(
+    notification: QueuedNotification,
+    targets: PushSubscriptionRow[],
+    userSubscriptions: PushSubscriptionRow[]
+  ): Promise<ChannelResult> {
+    const payload = JSON.stringify(toBrowserNotificationPayload(notification));
+    const now = new Date().toISOString();
+    const errors: string[] = [];
+    let accepted = 0;
+
+    for (const subscription of targets) {
+      const result = await sendWebPush(subscription, payload, {
+        urgency: notification.priority === 'urgent' || notification.priority === 'high' ? 'high' : 'normal',
+        topic: pushTopic(notification.id),
+      });
+
+      if (result.gone) {
+        userSubscriptions.splice(userSubscriptions.indexOf(subscription), 1);
+        await this.supabase.from('push_subscriptions').delete().eq('id', subscription.id);
+        continue;
+      }
+
+      if (result.accepted) {
+        accepted++;
+        await this.supabase
+          .from('push_subscriptions')
+          .update({ failure_count: 0, last_success_at: now, updated_at: now })
+          .eq('id', subscription.id);
+      } else {
+        errors.push(result.error || `Push service error: ${result.statusCode}`);
+        subscription.failure_count++;
+        await this.supabase
+          .from('push_subscriptions')
+          .update({ failure_count: subscription.failure_count, last_failure_at: now, updated_at: now })
+          .eq('id', subscription.id);
+      }
+    }
+
+    if (accepted > 0) {
+      return { status: 'dispatched', via: 'push' };
+    }
+    if (errors.length === 0) {
+      return { status: 'dispatched', via: 'poll' };
+    }
+    return { status: 'failed', error: errors[0] };
   }
 
   /**
-   * ユーザーの通知フィルター設定を取得
+   * 対応済みになった通知の他の配信先での表示を取り消す
+   * ブラウザは対応したデバイス以外に取り消しのプッシュを送り、Discordは投稿したメッセージを削除する。
+   * メールは取り消せないため何もしない
    */
-  private async getUserNotificationFilter(userId: string): Promise<NotificationFilter> {
-    try {
-      const response = await fetch(`/api/notifications/settings?userId=${userId}`);
-      if (response.ok) {
-        const { settings } = await response.json();
-        return {
-          allowUrgent: true,
-          maxPerHour: settings.maxNotificationsPerHour || 10,
-          quietHours: settings.quietHoursEnabled ? {
-            start: settings.quietHoursStart,
-            end: settings.quietHoursEnd
-          } : undefined,
-          focusMode: settings.focusModeEnabled ? {
-            enabled: true,
-            start: settings.focusModeStart,
-            end: settings.focusModeEnd,
-            allowUrgent: settings.focusModeAllowUrgent
-          } : undefined
+  private async retract(notification: QueuedNotification, exceptDeviceId: string | null): Promise<void> {
+    if (notification.channels.includes('browser')) {
+      try {
+        const subscriptions = (await this.getPushSubscriptions([notification.userId])).get(notification.userId) || [];
+        const devices = await getUserDevices(this.supabase, [notification.userId]);
+        const retraction: BrowserRetractionPayload = {
+          retract: true,
+          notificationId: notification.id,
+          tag: `${notification.type}-${notification.targetId}`,
         };
+
+        for (const subscription of subscriptions) {
+          if (exceptDeviceId && subscription.device_id === exceptDeviceId) continue;
+          if (!acceptsOnDevice(devices, subscription.device_id, notification)) continue;
+
+          const result = await sendWebPush(subscription, JSON.stringify(retraction), {
+            topic: pushTopic(notification.id),
+          });
+          if (result.gone) {
+            await this.supabase.from('push_subscriptions').delete().eq('id', subscription.id);
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to retract browser notification ${notification.id}:`, error);
+      }
+    }
+
+    const discordMessageId = notification.deliveryRefs.discord;
+    if (discordMessageId) {
+      try {
+        const settings = await getNotificationSettings(this.supabase, notification.userId);
+        const webhookUrl = settings.discordWebhookUrl || process.env.DISCORD_WEBHOOK_URL;
+        if (webhookUrl) {
+          const client = new DiscordWebhookClient({ webhookUrl, retryAttempts: 0 });
+          await client.deleteMessage(discordMessageId);
+        }
+      } catch (error) {
+        console.error(`Failed to retract Discord notification ${notification.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * メール通知送信
+   * 同じ宛先への通知は1通にまとめ、プロバイダーの制限内でバッチ送信する
+   */
+  private async sendEmailNotifications(deliveries: ChannelDelivery[]): Promise<ChannelResult[]> {
+    const userIds = Array.from(new Set(deliveries.map(({ notification }) => notification.userId)));
+    const { data: users, error } = await this.supabase
+      .from('users')
+      .select('id, email')
+      .in('id', userIds);
+
+    if (error) throw error;
+
+    const userEmails = new Map<string, string>((users || []).map(user => [user.id, user.email]));
+    const results: (string | null)[] = deliveries.map(() => null);
+
+    // 宛先ごとにまとめる
+    const groups = new Map<string, number[]>();
+    deliveries.forEach(({ notification, settings }, index) => {
+      const address = settings.emailAddress || userEmails.get(notification.userId);
+      if (!address) {
+        results[index] = 'メールアドレスが登録されていません';
+        return;
+      }
+      groups.set(address, [...(groups.get(address) || []), index]);
+    });
+
+    const messages: EmailMessage[] = [];
+    const messageIndexes: number[][] = [];
+    for (const [to, indexes] of groups.entries()) {
+      const embeds = indexes.map(index => this.buildEmbed(deliveries[index].notification, deliveries[index].userLocale));
+      const content = embeds.length === 1
+        ? EmailNotificationBuilder.fromEmbed(embeds[0])
+        : EmailNotificationBuilder.createDigest(embeds);
+
+      messages.push({ to, ...content });
+      messageIndexes.push(indexes);
+    }
+
+    const sendResults = await this.emailClient.sendAll(messages);
+    sendResults.forEach((sendError, messageIndex) => {
+      for (const index of messageIndexes[messageIndex]) {
+        results[index] = sendError;
       }
-    } catch (error) {
-      console.error('Failed to fetch user notification filter:', error);
+    });
+
+    return results.map(toChannelResult);
+  }
+
+  /**
+   * 通知タイプとペイロードからEmbedを作成（Discordとメールで共通）
+   */
+  private buildEmbed(notification: QueuedNotification, userLocale: UserLocale): DiscordEmbed {
+    const embed = this.buildContentEmbed(notification, userLocale);
+    const actions = getNotificationActions(notification);
+
+    if (actions.length === 0) return embed;
+
+    // ボタンを付けられないWebhookとメールでは確認ページへのリンクにする
+    return {
+      ...embed,
+      fields: [
+        ...(embed.fields || []),
+        {
+          name: '操作',
+          value: actions
+            .map(({ action, title }) => `[${title}](${createActionUrl(notification.id, action)})`)
+            .join(' ・ '),
+          inline: false,
+        },
+      ],
+    };
+  }
+
+  /**
+   * 通知タイプごとの内容部分
+   */
+  private buildContentEmbed(notification: QueuedNotification, userLocale: UserLocale): DiscordEmbed {
+    const { task, event, summary } = notification.data as {
+      task?: Parameters<typeof TaskNotificationBuilder.createTaskReminder>[0] &
+        Partial<Parameters<typeof TaskNotificationBuilder.createUrgentTaskAlert>[0]>;
+      event?: Parameters<typeof TaskNotificationBuilder.createEventReminder>[0];
+      summary?: Parameters<typeof TaskNotificationBuilder.createDailySummary>[0];
+    };
+
+    switch (notification.type) {
+      case 'task_reminder':
+        if (task) return TaskNotificationBuilder.createTaskReminder(task, userLocale);
+        break;
+      case 'event_reminder':
+        if (event) return TaskNotificationBuilder.createEventReminder(event, userLocale);
+        break;
+      case 'urgent_task':
+        if (task?.dueDate) return TaskNotificationBuilder.createUrgentTaskAlert({ ...task, dueDate: task.dueDate }, userLocale);
+        break;
+      case 'daily_summary':
+        if (summary) return TaskNotificationBuilder.createDailySummary(summary);
+        break;
     }
 
-    // デフォルトフィルター
     return {
-      allowUrgent: true,
-      maxPerHour: 10
+      title: notification.title,
+      description: notification.body,
+      color: notification.priority === 'urgent' || notification.priority === 'high'
+        ? NotificationColors.URGENT
+        : NotificationColors.INFO,
+      footer: {
+        text: 'AI Schedule Assistant'
+      },
+      timestamp: new Date().toISOString()
     };
   }
 
   /**
    * 時間範囲内かどうかをチェック
    */
-  private isInTimeRange(currentTime: string, startTime: string, endTime: string): boolean {
-    const current = this.timeToMinutes(currentTime);
+  private isInTimeRange(current: number, startTime: string, endTime: string): boolean {
     const start = this.timeToMinutes(startTime);
     const end = this.timeToMinutes(endTime);
 
@@ -379,6 +1113,13 @@ class NotificationQueueManager {
     }
   }
 
+  /**
+   * 指定タイムゾーンで次にHH:MMになる時刻（範囲の終わりの1分後）
+   */
+  private nextTimeOfDay(timeStr: string, now: Date, timeZone: string): Date {
+    return nextMinuteOfDayIn(this.timeToMinutes(timeStr) + 1, now, timeZone);
+  }
+
   /**
    * HH:MM形式を分に変換
    */
@@ -386,52 +1127,123 @@ class NotificationQueueManager {
     const [hours, minutes] = timeStr.split(':').map(Number);
     return hours * 60 + minutes;
   }
+}
 
-  /**
-   * 一意のIDを生成
-   */
-  private generateId(): string {
-    return `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
+/**
+ * 1件ずつ送るチャンネルの送信処理を作る（失敗時は例外を投げる関数を包む）
+ */
+function sendEach(send: (delivery: ChannelDelivery) => Promise<string | null | void>): ChannelSender {
+  return async deliveries => {
+    const results: ChannelResult[] = [];
 
-  /**
-   * キューの統計情報を取得
-   */
-  getStats(): {
-    totalQueues: number;
-    totalNotifications: number;
-    statusCounts: Record<string, number>;
-    avgProcessingTime?: number;
-  } {
-    let totalNotifications = 0;
-    const statusCounts: Record<string, number> = {};
-    const processingTimes: number[] = [];
-
-    for (const userQueue of this.queue.values()) {
-      totalNotifications += userQueue.notifications.length;
-      
-      for (const notification of userQueue.notifications) {
-        statusCounts[notification.status] = (statusCounts[notification.status] || 0) + 1;
-        
-        if (notification.processedAt && notification.createdAt) {
-          const processingTime = notification.processedAt.getTime() - notification.createdAt.getTime();
-          processingTimes.push(processingTime);
-        }
+    for (const delivery of deliveries) {
+      try {
+        const ref = await send(delivery);
+        results.push(ref ? { status: 'delivered', ref } : { status: 'delivered' });
+      } catch (error) {
+        results.push({ status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
       }
     }
 
-    const avgProcessingTime = processingTimes.length > 0 
-      ? processingTimes.reduce((sum, time) => sum + time, 0) / processingTimes.length
-      : undefined;
+    return results;
+  };
+}
+
+function toChannelResult(error: string | null): ChannelResult {
+  return error ? { status: 'failed', error } : { status: 'delivered' };
+}
 
-    return {
-      totalQueues: this.queue.size,
-      totalNotifications,
-      statusCounts,
-      avgProcessingTime
-    };
-  }
+/**
+ * 購読のデバイスがこの通知を受け取るか（デバイス未登録の購読は全て受け取る）
+ */
+function acceptsOnDevice(
+  devices: NotificationDevice[],
+  deviceId: string | null,
+  notification: QueuedNotification
+): boolean {
+  const device = deviceId ? devices.find(candidate => candidate.id === deviceId) : undefined;
+  return !device || deviceAccepts(device, notification);
+}
+
+/**
+ * 通知ごとのプッシュのトピック（未配信の通知は取り消しのプッシュで置き換わる）
+ */
+function pushTopic(notificationId: string): string {
+  return notificationId.replace(/-/g, '');
 }
 
-// シングルトンインスタンス
-export const notificationQueue = new NotificationQueueManager();
\ No newline at end of file
+/**
+ * Service Workerが表示する通知の内容を作成
+ */
+export function toBrowserNotificationPayload(notification: QueuedNotification): BrowserNotificationPayload {
+  const actions = getNotificationActions(notification);
+
+  return {
+    id: notification.id,
+    title: notification.title,
+    body: notification.body,
+    icon: '/icons/icon-192.png',
+    tag: `${notification.type}-${notification.targetId}`,
+    data: {
+      type: notification.type,
+      targetId: notification.targetId,
+      notificationId: notification.id,
+      ackToken: signNotificationToken(notification.id, NotificationTokenPurpose.ACK),
+      resolveToken: signNotificationToken(notification.id, NotificationTokenPurpose.RESOLVE),
+      url: '/dashboard',
+      timestamp: Date.now(),
+      actionTokens: Object.fromEntries(
+        actions.map(({ action }) => [action, createActionToken(notification.id, action)])
+      ),
+    },
+    actions,
+  };
+}
+
+/**
+ * 通知設定からフィルターを作成
+ */
+function toNotificationFilter(settings: NotificationSettings, userLocale: UserLocale): NotificationFilter {
+  return {
+    allowUrgent: true,
+    maxPerHour: settings.maxNotificationsPerHour || 10,
+    timeZone: userLocale.timeZone,
+    quietHours: settings.quietHoursEnabled && settings.quietHoursStart && settings.quietHoursEnd ? {
+      start: settings.quietHoursStart,
+      end: settings.quietHoursEnd
+    } : undefined,
+    focusMode: settings.focusModeEnabled && settings.focusModeStart && settings.focusModeEnd ? {
+      enabled: true,
+      start: settings.focusModeStart,
+      end: settings.focusModeEnd,
+      allowUrgent: settings.focusModeAllowUrgent
+    } : undefined
+  };
+}
+
+function toQueuedNotification(row: ScheduledNotificationRow): QueuedNotification {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    priority: row.priority,
+    targetId: row.target_id,
+    title: row.title,
+    body: row.body,
+    data: row.payload || {},
+    channels: row.channels || ['browser'],
+    deliveredChannels: row.delivered_channels || [],
+    scheduledTime: new Date(row.notify_at),
+    maxRetries: row.max_retries ?? DEFAULT_MAX_RETRIES,
+    retryCount: row.retry_count || 0,
+    status: row.status,
+    createdAt: new Date(row.created_at),
+    processedAt: row.sent_at ? new Date(row.sent_at) : undefined,
+    dispatchedAt: row.dispatched_at ? new Date(row.dispatched_at) : undefined,
+    browserAcknowledgedAt: row.browser_acknowledged_at ? new Date(row.browser_acknowledged_at) : undefined,
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+    resolvedAction: row.resolved_action || undefined,
+    deliveryRefs: row.delivery_refs || {},
+    error: row.failed_reason || undefined,
+  };
+}
@@ -0,0 +1,631 @@
+// ===========================================
+// Reminders - AI Schedule Assistant
+// 予定・タスクのリマインダーを通知設定に従って scheduled_notifications に予約し、変更に合わせて更新・取消する
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { NotificationChannel, NotificationPriority, NotificationQueueStatus } from './queue';
+import {
+  getNotificationSettings,
+  getReminderOffsets,
+  NotificationSettings,
+  resolveNotificationChannels,
+} from './settings';
+import { TravelPreferences } from '@/types/shared';
+import { formatDateTime, formatTime, getUserLocale, UserLocale } from '@/lib/schedule/timezone';
+import { EVENT_TRAVEL_COLUMNS, TravelEvent, resolveEventTravel, updateTravelEstimates } from '@/lib/travel/estimates';
+import { TRAVEL_MODE_LABELS, getTravelPreferences } from '@/lib/travel/preferences';
+
+export type ReminderType = 'task_reminder' | 'event_reminder' | 'travel_reminder' | 'urgent_task';
+
+const REMINDER_TYPES: ReminderType[] = ['task_reminder', 'event_reminder', 'travel_reminder', 'urgent_task'];
+
+/**
+ * 定期的な見直しで確認する範囲（リマインダーは最大7日前なので、それより1日先まで）
+ */
+export const REMINDER_LOOKAHEAD_DAYS = 8;
+
+/**
+ * 一度に読み込む予定・タスクの件数（.in() のURLが長くなりすぎないように）
+ */
+const TARGET_BATCH_SIZE = 100;
+
+const TASK_COLUMNS = 'id, title, description, priority, status, scheduled_date, due_date, estimated_minutes';
+const EVENT_COLUMNS = `id, title, description, start_time, sync_status, ${EVENT_TRAVEL_COLUMNS}`;
+const REMINDER_ROW_COLUMNS = 'id, type, target_id, reminder_offset_minutes, reminder_for, status, priority, title, body, payload, channels';
+
+/**
+ * 予約するリマインダー1件（予定・タスクと何分前かの組み合わせごと）
+ */
+export interface PlannedReminder {
+  type: ReminderType;
+  targetId: string;
+  offsetMinutes: number;
+  reminderFor: Date; // 予定の開始時刻・タスクの予定時刻・期限
+  notifyAt: Date;
+  priority: NotificationPriority;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+}
+
+export interface ReminderSyncResult {
+  scheduled: number; // 新たに予約した件数
+  updated: number;   // 文面・チャンネルを更新した件数
+  cancelled: number; // 不要になり取り消した件数
+}
+
+export interface ReminderTask {
+  id: string;
+  title: string;
+  description: string | null;
+  priority: string;
+  status: string;
+  scheduled_date: string | null;
+  due_date: string | null;
+  estimated_minutes: number | null;
+}
+
+export interface ReminderEvent extends TravelEvent {
+  title: string;
+  description: string | null;
+  location: string | null;
+  sync_status?: string | null;
+}
+
+interface ReminderRow {
+  id: string;
+  type: ReminderType;
+  target_id: string;
+  reminder_offset_minutes: number;
+  reminder_for: string;
+  status: NotificationQueueStatus;
+  priority: NotificationPriority;
+  title: string;
+  body: string;
+  payload: Record<string, unknown> | null;
+  channels: NotificationChannel[] | null;
+}
+
+interface ReminderContext {
+  settings: NotificationSettings;
+  userLocale: UserLocale;
+  travelPreferences: TravelPreferences;
+  channels: NotificationChannel[];
+}
+
+/**
+ * タスクのリマインダー（予定時刻の taskReminderMinutes 前、高優先度タスクは期限の urgentTaskHours 前も）
+ * 未着手・進行中のタスクのみ。時刻を過ぎたかどうかはここでは見ない
+ */
+export function planTaskReminders(
+  task: ReminderTask,
+  settings: NotificationSettings,
+  userLocale: UserLocale
+): PlannedReminder[] {
+  if (task.status !== 'pending' && task.status !== 'in_progress') return [];
+
+  const reminders: PlannedReminder[] = [];
+
+  if (settings.taskReminders && task.scheduled_date) {
+    const scheduledTime = new Date(task.scheduled_date);
+    for (const offsetMinutes of getReminderOffsets(settings.taskReminderMinutes)) {
+      reminders.push({
+        type: 'task_reminder',
+        targetId: task.id,
+        offsetMinutes,
+        reminderFor: scheduledTime,
+        notifyAt: minutesBefore(scheduledTime, offsetMinutes),
+        priority: task.priority === 'high' ? 'high' : 'medium',
+        title: '✅ タスクリマインダー',
+        body: `「${task.title}」の予定時刻 (${formatReminderTime(scheduledTime, offsetMinutes, userLocale)}) まで${formatOffset(offsetMinutes)}です`,
+        data: {
+          task: {
+            id: task.id,
+            title: task.title,
+            description: task.description,
+            priority: task.priority,
+            scheduledDate: task.scheduled_date,
+            estimatedMinutes: task.estimated_minutes,
+          },
+        },
+      });
+    }
+  }
+
+  if (settings.urgentTaskAlerts && task.priority === 'high' && task.due_date) {
+    const dueTime = new Date(task.due_date);
+    const offsetMinutes = Math.max(1, Math.round(settings.urgentTaskHours * 60));
+    reminders.push({
+      type: 'urgent_task',
+      targetId: task.id,
+      offsetMinutes,
+      reminderFor: dueTime,
+      notifyAt: minutesBefore(dueTime, offsetMinutes),
+      priority: 'urgent', // 静音時間・集中モード中も配信
+      title: '🚨 緊急タスク通知',
+      body: `高優先度タスク「${task.title}」の期限 (${formatDateTime(dueTime, userLocale)}) まで${formatOffset(offsetMinutes)}です！`,
+      data: {
+        task: {
+          id: task.id,
+          title: task.title,
+          priority: task.priority,
+          dueDate: task.due_date,
+        },
+      },
+    });
+  }
+
+  return reminders;
+}
+
+/**
+ * 予定のリマインダー（開始時刻の eventReminderMinutes 前）と、移動時間を見積もれた予定の「出発」リマインダー
+ * （開始時刻から移動時間と到着の余裕を引いた時刻）。削除待ちの予定は対象外
+ */
+export function planEventReminders(
+  event: ReminderEvent,
+  settings: NotificationSettings,
+  userLocale: UserLocale,
+  travelPreferences: TravelPreferences
+): PlannedReminder[] {
+  if (event.sync_status === 'pending_delete') return [];
+
+  const startTime = new Date(event.start_time);
+  const eventData = {
+    id: event.id,
+    title: event.title,
+    description: event.description,
+    startTime: event.start_time,
+    location: event.location,
+  };
+
+  const reminders: PlannedReminder[] = !settings.eventReminders ? [] : getReminderOffsets(settings.eventReminderMinutes)
+    .map(offsetMinutes => ({
+      type: 'event_reminder' as const,
+      targetId: event.id,
+      offsetMinutes,
+      reminderFor: startTime,
+      notifyAt: minutesBefore(startTime, offsetMinutes),
+      priority: 'medium' as const,
+      title: '📅 イベントリマインダー',
+      body: `「${event.title}」が${formatOffset(offsetMinutes)}後 (${formatReminderTime(startTime, offsetMinutes, userLocale)}) に開始されます`,
+      data: { event: eventData },
+    }));
+
+  // 見積もり後に移動設定が変わった場合は、次に見積もり直すまで出発リマインダーを出さない
+  const travel = resolveEventTravel(event, travelPreferences);
+  if (settings.travelReminders && travel && event.travel_minutes) {
+    const offsetMinutes = event.travel_minutes + travelPreferences.arrival_buffer_minutes;
+    reminders.push({
+      type: 'travel_reminder',
+      targetId: event.id,
+      offsetMinutes,
+      reminderFor: startTime,
+      notifyAt: minutesBefore(startTime, offsetMinutes),
+      priority: 'high',
+      title: '🚶 出発の時間です',
+      body: `「${event.title}」(${formatReminderTime(startTime, offsetMinutes, userLocale)} 開始) に間に合うよう出発してください。`
+        + `${event.location}まで${TRAVEL_MODE_LABELS[travel.mode]}で約${formatOffset(event.travel_minutes)}です`,
+      data: {
+        event: eventData,
+        travel: {
+          mode: travel.mode,
+          origin: travel.origin,
+          minutes: event.travel_minutes,
+        },
+      },
+    });
+  }
+
+  return reminders;
+}
+
+/**
+ * 指定したタスクのリマインダーを予約し直す（削除済み・完了したタスクのリマインダーは取り消す）
+ */
+export async function syncTaskReminders(
+  supabase: SupabaseClient,
+  userId: string,
+  taskIds: string[],
+  now: Date = new Date()
+): Promise<ReminderSyncResult> {
+  const context = await loadReminderContext(supabase, userId);
+  const result = emptyResult();
+
+  for (const ids of batches(taskIds)) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select(TASK_COLUMNS)
+      .eq('user_id', userId)
+      .is('recurrence_rule', null)
+      .in('id', ids);
+
+    if (error) throw error;
+
+    const planned = ((data || []) as ReminderTask[])
+      .flatMap(task => planTaskReminders(task, context.settings, context.userLocale));
+    const existing = await loadReminderRows(supabase, userId, now, { targetIds: ids });
+    addResult(result, await reconcileReminders(supabase, userId, context, planned, existing, now));
+  }
+
+  return result;
+}
+
+/**
+ * 指定した予定のリマインダーを予約し直す（削除済みの予定のリマインダーは取り消す）
+ */
+export async function syncEventReminders(
+  supabase: SupabaseClient,
+  userId: string,
+  eventIds: string[],
+  now: Date = new Date()
+): Promise<ReminderSyncResult> {
+  const context = await loadReminderContext(supabase, userId);
+  const result = emptyResult();
+
+  for (const ids of batches(eventIds)) {
+    const { data, error } = await supabase
+      .from('events')
+      .select(EVENT_COLUMNS)
+      .eq('user_id', userId)
+      .in('id', ids);
+
+    if (error) throw error;
+
+    const events = await updateTravelEstimates(supabase, (data || []) as ReminderEvent[], context.travelPreferences);
+    const planned = events
+      .flatMap(event => planEventReminders(event, context.settings, context.userLocale, context.travelPreferences));
+    const existing = await loadReminderRows(supabase, userId, now, { targetIds: ids });
+    addResult(result, await reconcileReminders(supabase, userId, context, planned, existing, now));
+  }
+
+  return result;
+}
+
+/**
+ * 今後 REMINDER_LOOKAHEAD_DAYS 日間の予定・タスクのリマインダーをまとめて見直す
+ * カレンダー同期・ICSインポートのように個別に追えない変更の後と、reminders ジョブからの定期実行用
+ */
+export async function syncUpcomingReminders(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<ReminderSyncResult> {
+  const context = await loadReminderContext(supabase, userId);
+  const from = now.toISOString();
+  const until = new Date(now.getTime() + REMINDER_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000);
+  const to = until.toISOString();
+
+  const [tasksResult, eventsResult, existing] = await Promise.all([
+    supabase
+      .from('tasks')
+      .select(TASK_COLUMNS)
+      .eq('user_id', userId)
+      .in('status', ['pending', 'in_progress'])
+      .is('recurrence_rule', null)
+      .or(`and(scheduled_date.gt.${from},scheduled_date.lte.${to}),and(due_date.gt.${from},due_date.lte.${to})`),
+    supabase
+      .from('events')
+      .select(EVENT_COLUMNS)
+      .eq('user_id', userId)
+      .gt('start_time', from)
+      .lte('start_time', to),
+    loadReminderRows(supabase, userId, now, { until }),
+  ]);
+
+  if (tasksResult.error) throw tasksResult.error;
+  if (eventsResult.error) throw eventsResult.error;
+
+  const events = await updateTravelEstimates(
+    supabase,
+    (eventsResult.data || []) as ReminderEvent[],
+    context.travelPreferences
+  );
+  const planned = [
+    ...((tasksResult.data || []) as ReminderTask[])
+      .flatMap(task => planTaskReminders(task, context.settings, context.userLocale)),
+    ...events
+      .flatMap(event => planEventReminders(event, context.settings, context.userLocale, context.travelPreferences)),
+  ].filter(reminder => reminder.reminderFor <= until);
+
+  return reconcileReminders(supabase, userId, context, planned, existing, now);
+}
+
+/**
+ * タスクの作成・更新・削除の後に呼ぶ
+ * 失敗しても reminders ジョブの定期的な見直しで反映されるため、例外は投げずにログだけ残す
+ */
+export async function refreshTaskReminders(
+  supabase: SupabaseClient,
+  userId: string,
+  taskIds: string[]
+): Promise<void> {
+  if (taskIds.length === 0) return;
+  try {
+    await syncTaskReminders(supabase, userId, taskIds);
+  } catch (error) {
+    console.error('タスクのリマインダー更新エラー:', error);
+  }
+}
+
+/**
+ * 予定の作成・更新・削除の後に呼ぶ（例外は投げない）
+ */
+export async function refreshEventReminders(
+  supabase: SupabaseClient,
+  userId: string,
+  eventIds: string[]
+): Promise<void> {
+  if (eventIds.length === 0) return;
+  try {
+    await syncEventReminders(supabase, userId, eventIds);
+  } catch (error) {
+    console.error('予定のリマインダー更新エラー:', error);
+  }
+}
+
+/**
+ * カレンダー同期・通知設定の変更などの後に呼ぶ（例外は投げない）
+ */
+export async function refreshUserReminders(supabase: SupabaseClient, userId: string): Promise<void> {
+  try {
+    await syncUpcomingReminders(supabase, userId);
+  } catch (error) {
+    console.error('リマインダー見直しエラー:', error);
+  }
+}
+
+async function loadReminderContext(supabase: SupabaseClient, userId: string): Promise<ReminderContext> {
+  const [settings, userLocale, travelPreferences] = await Promise.all([
+    getNotificationSettings(supabase, userId),
+    getUserLocale(supabase, userId),
+    getTravelPreferences(supabase, userId),
+  ]);
+  return { settings, userLocale, travelPreferences, channels: resolveNotificationChannels(settings) };
+}
+
+/**
+ * 予約済み（取消済みを除く）で、まだ開始・期限を過ぎていないリマインダー
+ */
+async function loadReminderRows(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date,
+  filter: { targetIds?: string[]; until?: Date }
+): Promise<ReminderRow[]> {
+  let query = supabase
+    .from('scheduled_notifications')
+    .select(REMINDER_ROW_COLUMNS)
+    .eq('user_id', userId)
+    .in('type', REMINDER_TYPES)
+    .neq('status', NotificationQueueStatus.CANCELLED)
+    .gt('reminder_for', now.toISOString());
+
+  if (filter.targetIds) {
+    query = query.in('target_id', filter.targetIds);
+  }
+  if (filter.until) {
+    query = query.lte('reminder_for', filter.until.toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []) as ReminderRow[];
+}
+
+/**
+ * 予約すべきリマインダーと予約済みの行を突き合わせ、足りないものを追加・不要なものを取消・文面の変わったものを更新する
+ *
+ * - 開始・期限を過ぎたものは対象外
+ * - リマインダー時刻を過ぎているものは、開始に最も近い1件だけを今すぐ送る（作成直後の予定など）
+ * - 配信待ちの行の notify_at は変えない（静音時間などで後ろ倒しにされている場合がある）
+ * - 通知チャンネルが無い場合は配信待ちのものをすべて取り消す
+ */
+async function reconcileReminders(
+  supabase: SupabaseClient,
+  userId: string,
+  context: ReminderContext,
+  planned: PlannedReminder[],
+  existing: ReminderRow[],
+  now: Date
+): Promise<ReminderSyncResult> {
+  const result = emptyResult();
+  const { channels } = context;
+
+  const wanted = channels.length > 0 ? planned.filter(reminder => reminder.reminderFor > now) : [];
+  const wantedKeys = new Set(wanted.map(plannedKey));
+  const existingByKey = new Map(existing.map(row => [rowKey(row), row]));
+
+  // 1. 不要になった配信待ちのリマインダーを取り消す
+  const cancelIds = existing
+    .filter(row => row.status === NotificationQueueStatus.SCHEDULED && !wantedKeys.has(rowKey(row)))
+    .map(row => row.id);
+
+  if (cancelIds.length > 0) {
+    const { data, error } = await supabase
+      .from('scheduled_notifications')
+      .update({
+        status: NotificationQueueStatus.CANCELLED,
+        updated_at: now.toISOString(),
+      })
+      .in('id', cancelIds)
+      .eq('status', NotificationQueueStatus.SCHEDULED)
+      .select('id');
+
+    if (error) throw error;
+    result.cancelled = (data || []).length;
+  }
+
+  // 2. 予約済みで配信待ちのものは文面・チャンネルだけ更新する
+  for (const reminder of wanted) {
+    const row = existingByKey.get(plannedKey(reminder));
+    if (!row || row.status !== NotificationQueueStatus.SCHEDULED) continue;
+
+    const values = toRowValues(reminder, channels);
+    if (
+      row.title === values.title
+      && row.body === values.body
+      && row.priority === values.priority
+      && (row.channels || []).join(',') === channels.join(',')
+      && canonicalJson(row.payload || {}) === canonicalJson(values.payload)
+    ) continue;
+
+    const { error } = await supabase
+      .from('scheduled_notifications')
+      .update({
+        title: values.title,
+        body: values.body,
+        priority: values.priority,
+        payload: values.payload,
+        channels,
+        updated_at: now.toISOString(),
+      })
+      .eq('id', row.id)
+      .eq('status', NotificationQueueStatus.SCHEDULED);
+
+    if (error) throw error;
+    result.updated++;
+  }
+
+  // 3. まだ無いものを予約する
+  const inserts = selectRemindersToSchedule(wanted, now)
+    .filter(reminder => !existingByKey.has(plannedKey(reminder)))
+    .map(reminder => ({
+      user_id: userId,
+      ...toRowValues(reminder, channels),
+      status: NotificationQueueStatus.SCHEDULED,
+      created_at: now.toISOString(),
+    }));
+
+  if (inserts.length > 0) {
+    result.scheduled = await insertReminderRows(supabase, inserts);
+  }
+
+  return result;
+}
+
+/**
+ * リマインダー時刻が未来のものはすべて、過ぎているものは予定・タスクごとに開始に最も近い1件だけ（今すぐ送る）
+ */
+function selectRemindersToSchedule(reminders: PlannedReminder[], now: Date): PlannedReminder[] {
+  const upcoming = reminders.filter(reminder => reminder.notifyAt > now);
+  const latestOverdue = new Map<string, PlannedReminder>();
+
+  for (const reminder of reminders) {
+    if (reminder.notifyAt > now) continue;
+    const key = `${reminder.type}:${reminder.targetId}`;
+    const current = latestOverdue.get(key);
+    if (!current || reminder.offsetMinutes < current.offsetMinutes) {
+      latestOverdue.set(key, reminder);
+    }
+  }
+
+  return [
+    ...upcoming,
+    ...Array.from(latestOverdue.values()).map(reminder => ({ ...reminder, notifyAt: now })),
+  ];
+}
+
+/**
+ * まとめて追加し、他のリクエストと同時に予約して一意制約に当たった場合は1件ずつ追加し直す
+ */
+async function insertReminderRows(
+  supabase: SupabaseClient,
+  rows: Record<string, unknown>[]
+): Promise<number> {
+  const { error } = await supabase.from('scheduled_notifications').insert(rows);
+  if (!error) return rows.length;
+  if (error.code !== '23505') throw error;
+
+  let inserted = 0;
+  for (const row of rows) {
+    const { error: rowError } = await supabase.from('scheduled_notifications').insert(row);
+    if (!rowError) {
+      inserted++;
+    } else if (rowError.code !== '23505') {
+      throw rowError;
+    }
+  }
+  return inserted;
+}
+
+function toRowValues(reminder: PlannedReminder, channels: NotificationChannel[]) {
+  return {
+    type: reminder.type,
+    target_id: reminder.targetId,
+    reminder_offset_minutes: reminder.offsetMinutes,
+    reminder_for: reminder.reminderFor.toISOString(),
+    notify_at: reminder.notifyAt.toISOString(),
+    priority: reminder.priority,
+    title: reminder.title.substring(0, 200),
+    body: reminder.body.substring(0, 500),
+    payload: reminder.data,
+    channels,
+  };
+}
+
+function plannedKey(reminder: PlannedReminder): string {
+  return `${reminder.type}:${reminder.targetId}:${reminder.offsetMinutes}:${reminder.reminderFor.getTime()}`;
+}
+
+function rowKey(row: ReminderRow): string {
+  return `${row.type}:${row.target_id}:${row.reminder_offset_minutes}:${new Date(row.reminder_for).getTime()}`;
+}
+
+/**
+ * キーの順序に依存しないJSON文字列（jsonbから読み込んだpayloadとの比較用）
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return item;
+    return Object.keys(item).sort().reduce<Record<string, unknown>>((sorted, key) => {
+      sorted[key] = item[key];
+      return sorted;
+    }, {});
+  });
+}
+
+function minutesBefore(time: Date, minutes: number): Date {
+  return new Date(time.getTime() - minutes * 60 * 1000);
+}
+
+/**
+ * 「1日2時間」「15分」のような何分前の表記
+ */
+function formatOffset(minutes: number): string {
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const mins = minutes % 60;
+
+  return [
+    days > 0 ? `${days}日` : '',
+    hours > 0 ? `${hours}時間` : '',
+    mins > 0 ? `${mins}分` : '',
+  ].join('');
+}
+
+/**
+ * 12時間前より後に送るリマインダーは時刻だけ、それより前に送るものは日付も表示する
+ */
+function formatReminderTime(time: Date, offsetMinutes: number, userLocale: UserLocale): string {
+  return offsetMinutes < 12 * 60 ? formatTime(time, userLocale) : formatDateTime(time, userLocale);
+}
+
+function* batches(ids: string[]): Generator<string[]> {
+  const unique = Array.from(new Set(ids));
+  for (let i = 0; i < unique.length; i += TARGET_BATCH_SIZE) {
+    yield unique.slice(i, i + TARGET_BATCH_SIZE);
+  }
+}
+
+function emptyResult(): ReminderSyncResult {
+  return { scheduled: 0, updated: 0, cancelled: 0 };
+}
+
+function addResult(total: ReminderSyncResult, result: ReminderSyncResult): void {
+  total.scheduled += result.scheduled;
+  total.updated += result.updated;
+  total.cancelled += result.cancelled;
+}
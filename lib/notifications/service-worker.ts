@@ -19,6 +19,8 @@ export interface NotificationPermissionState {
   serviceWorkerRegistered: boolean;
 }
 
+const DEVICE_ID_STORAGE_KEY = 'notificationDeviceId';
+
 class ServiceWorkerManager {
   private registration: ServiceWorkerRegistration | null = null;
   private isInitialized = false;
@@ -94,6 +96,8 @@ class ServiceWorkerManager {
       // 既に権限がある場合
       if (Notification.permission === 'granted') {
         state.permission = 'granted';
+        await this.registerDevice();
+        await this.subscribeToPush();
         return state;
       }
 
@@ -111,6 +115,8 @@ class ServiceWorkerManager {
         console.log('Notification permission granted');
         // テスト通知を表示
         await this.showWelcomeNotification();
+        await this.registerDevice();
+        await this.subscribeToPush();
       } else {
         console.log('Notification permission denied');
       }
@@ -123,6 +129,104 @@ class ServiceWorkerManager {
     }
   }
 
+  /**
+   * このブラウザを通知デバイスとして登録し、IDをService Workerに渡す
+   * デバイスごとの受信設定とクリック・消去時の他デバイスでの取り消しに使う
+   */
+  async registerDevice(): Promise<string | null> {
+    try {
+      const response = await fetch('/api/notifications/devices', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ deviceId: localStorage.getItem(DEVICE_ID_STORAGE_KEY) || undefined })
+      });
+      if (!response.ok) return null;
+
+      const { device } = await response.json();
+      localStorage.setItem(DEVICE_ID_STORAGE_KEY, device.id);
+
+      const worker = this.registration?.active || navigator.serviceWorker.controller;
+      worker?.postMessage({ type: 'SET_DEVICE', deviceId: device.id });
+
+      return device.id;
+    } catch (error) {
+      console.error('Failed to register notification device:', error);
+      return null;
+    }
+  }
+
+  /**
+   * このブラウザをWeb Pushに登録
+   * サーバーにVAPID鍵が設定されていない場合は登録せず、ポーリングでの受信になる
+   */
+  async subscribeToPush(): Promise<boolean> {
+    if (!this.registration || !('PushManager' in window)) {
+      return false;
+    }
+
+    try {
+      const response = await fetch('/api/notifications/push');
+      if (!response.ok) return false;
+
+      const { configured, publicKey } = await response.json();
+      if (!configured || !publicKey) {
+        console.log('Web Push is not configured, falling back to polling');
+        return false;
+      }
+
+      const subscription = await this.registration.pushManager.getSubscription()
+        || await this.registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(publicKey)
+        });
+
+      const registerResponse = await fetch('/api/notifications/push', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          subscription: subscription.toJSON(),
+          deviceId: localStorage.getItem(DEVICE_ID_STORAGE_KEY) || undefined
+        })
+      });
+
+      return registerResponse.ok;
+    } catch (error) {
+      console.error('Failed to subscribe to push notifications:', error);
+      return false;
+    }
+  }
+
+  /**
+   * このブラウザのWeb Push登録を解除
+   */
+  async unsubscribeFromPush(): Promise<boolean> {
+    if (!this.registration || !('PushManager' in window)) {
+      return false;
+    }
+
+    try {
+      const subscription = await this.registration.pushManager.getSubscription();
+      if (!subscription) return true;
+
+      await fetch('/api/notifications/push', {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ endpoint: subscription.endpoint })
+      });
+
+      return await subscription.unsubscribe();
+    } catch (error) {
+      console.error('Failed to unsubscribe from push notifications:', error);
+      return false;
+    }
+  }
+
   /**
    * 即座に通知を表示
    */
@@ -300,6 +404,16 @@ class ServiceWorkerManager {
   }
 }
 
+/**
+ * base64url形式のVAPID公開鍵を applicationServerKey 用のバイト列にする
+ */
+function urlBase64ToUint8Array(base64String: string): Uint8Array {
+  const padding = '='.repeat((4 - base64String.length % 4) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const rawData = window.atob(base64);
+  return Uint8Array.from(rawData, char => char.charCodeAt(0));
+}
+
 // シングルトンインスタンス
 export const serviceWorkerManager = new ServiceWorkerManager();
 
@@ -333,7 +447,10 @@ export function useServiceWorkerInit() {
     permissionState,
     showNotification: serviceWorkerManager.showNotification.bind(serviceWorkerManager),
     scheduleNotification: serviceWorkerManager.scheduleNotification.bind(serviceWorkerManager),
-    requestPermission: serviceWorkerManager.requestNotificationPermission.bind(serviceWorkerManager)
+    requestPermission: serviceWorkerManager.requestNotificationPermission.bind(serviceWorkerManager),
+    registerDevice: serviceWorkerManager.registerDevice.bind(serviceWorkerManager),
+    subscribeToPush: serviceWorkerManager.subscribeToPush.bind(serviceWorkerManager),
+    unsubscribeFromPush: serviceWorkerManager.unsubscribeFromPush.bind(serviceWorkerManager)
   };
 }
 
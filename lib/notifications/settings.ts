@@ -0,0 +1,171 @@
+// ===========================================
+// Notification Settings - AI Schedule Assistant
+// ユーザーごとの通知設定（notification_settings.settings）の型とデフォルト値
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { UserSettings } from '@/types/shared';
+import type { NotificationChannel } from './queue';
+import { nextMinuteOfDayIn } from '@/lib/schedule/timezone';
+
+export interface NotificationSettings {
+  // Discord設定
+  discordEnabled: boolean;
+  discordWebhookUrl?: string;
+  discordUsername?: string;
+
+  // ブラウザ通知設定
+  browserEnabled: boolean;
+  browserPermissionGranted: boolean;
+
+  // メール通知設定（ブラウザ通知が無効な場合は常にメールで送る）
+  emailEnabled: boolean;
+  emailAddress?: string; // 省略時はアカウントのメールアドレス
+
+  // 通知タイプ別設定
+  taskReminders: boolean;
+  eventReminders: boolean;
+  urgentTaskAlerts: boolean;
+  travelReminders: boolean; // 移動時間を見積もれた予定の「出発」リマインダー
+  dailySummary: boolean;
+
+  // タイミング設定
+  taskReminderMinutes: number | number[]; // 何分前に通知するか（複数指定可、例: [1440, 15]）、デフォルト15分前
+  eventReminderMinutes: number | number[]; // 同上、デフォルト15分前
+  urgentTaskHours: number; // デフォルト2時間前
+  dailySummaryTime: string; // デフォルト"18:00"
+
+  // 集中モード
+  focusModeEnabled: boolean;
+  focusModeStart?: string; // HH:MM format
+  focusModeEnd?: string; // HH:MM format
+  focusModeAllowUrgent: boolean;
+
+  // 通知頻度制限
+  maxNotificationsPerHour: number; // デフォルト10
+  quietHoursEnabled: boolean;
+  quietHoursStart?: string; // HH:MM format
+  quietHoursEnd?: string; // HH:MM format
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  discordEnabled: false,
+  browserEnabled: true,
+  browserPermissionGranted: false,
+  emailEnabled: false,
+  taskReminders: true,
+  eventReminders: true,
+  urgentTaskAlerts: true,
+  travelReminders: true,
+  dailySummary: true,
+  taskReminderMinutes: 15,
+  eventReminderMinutes: 15,
+  urgentTaskHours: 2,
+  dailySummaryTime: "18:00",
+  focusModeEnabled: false,
+  focusModeAllowUrgent: true,
+  maxNotificationsPerHour: 10,
+  quietHoursEnabled: false
+};
+
+/**
+ * ユーザーの通知設定を取得（未設定の項目はデフォルト値）
+ * メール通知の既定値は users.settings.notification_preferences.email に従う
+ */
+export async function getNotificationSettings(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<NotificationSettings> {
+  const [{ data, error }, { data: userData }] = await Promise.all([
+    supabase
+      .from('notification_settings')
+      .select('settings')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('users')
+      .select('settings')
+      .eq('id', userId)
+      .maybeSingle(),
+  ]);
+
+  if (error) {
+    console.error('通知設定の取得エラー:', error);
+  }
+
+  return resolveNotificationSettings(data?.settings, userData?.settings);
+}
+
+/**
+ * 保存済みの通知設定（notification_settings.settings）と users.settings をデフォルト値にマージ
+ * 複数ユーザー分をまとめて読み込む場合用
+ */
+export function resolveNotificationSettings(
+  stored: Partial<NotificationSettings> | null | undefined,
+  userSettings: Partial<UserSettings> | null | undefined
+): NotificationSettings {
+  const preferences = userSettings?.notification_preferences;
+
+  return {
+    ...DEFAULT_NOTIFICATION_SETTINGS,
+    ...(preferences?.email !== undefined && { emailEnabled: preferences.email }),
+    ...(stored || {}),
+  };
+}
+
+/**
+ * リマインダーを何分前まで指定できるか（7日）と、1件あたりの最大数
+ */
+export const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+export const MAX_REMINDERS_PER_ITEM = 5;
+const DEFAULT_REMINDER_MINUTES = 15;
+
+/**
+ * taskReminderMinutes / eventReminderMinutes を「何分前」の配列にする（重複を除いて早い順）
+ * 範囲外・整数でない値は除き、1件も残らない場合はデフォルトの15分前
+ */
+export function getReminderOffsets(value: number | number[] | null | undefined): number[] {
+  const offsets = (Array.isArray(value) ? value : [value])
+    .filter((minutes): minutes is number =>
+      typeof minutes === 'number' && Number.isInteger(minutes) && minutes >= 1 && minutes <= MAX_REMINDER_OFFSET_MINUTES
+    );
+
+  const unique = Array.from(new Set(offsets)).sort((a, b) => b - a).slice(0, MAX_REMINDERS_PER_ITEM);
+  return unique.length > 0 ? unique : [DEFAULT_REMINDER_MINUTES];
+}
+
+/**
+ * 日次サマリーを送る時刻（0時からの分、dailySummaryTime が不正な場合はデフォルトの18:00）
+ */
+export function getDailySummaryMinutes(settings: NotificationSettings): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(settings.dailySummaryTime || '')
+    ?? /^(\d{1,2}):(\d{2})$/.exec(DEFAULT_NOTIFICATION_SETTINGS.dailySummaryTime)!;
+  return Math.min(Number(match[1]) * 60 + Number(match[2]), 24 * 60 - 1);
+}
+
+/**
+ * 次に日次サマリーを送る日時（dailySummaryTime をユーザーのタイムゾーンの時刻として解釈）
+ */
+export function getNextDailySummaryTime(settings: NotificationSettings, timeZone: string, now: Date = new Date()): Date {
+  return nextMinuteOfDayIn(getDailySummaryMinutes(settings), now, timeZone);
+}
+
+/**
+ * 設定から通知チャンネルを決める（Discordは環境変数のWebhookでも有効）
+ * ブラウザ通知が無効な場合はメールにフォールバックする
+ */
+export function resolveNotificationChannels(settings: NotificationSettings): NotificationChannel[] {
+  const channels: NotificationChannel[] = [];
+
+  if (settings.browserEnabled) {
+    channels.push('browser');
+  }
+  if (settings.discordEnabled && (settings.discordWebhookUrl || process.env.DISCORD_WEBHOOK_URL)) {
+    channels.push('discord');
+  }
+  if (settings.emailEnabled || !settings.browserEnabled) {
+    channels.push('email');
+  }
+
+  return channels;
+}
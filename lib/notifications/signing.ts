@@ -0,0 +1,59 @@
+// ===========================================
+// Notification Signing - AI Schedule Assistant
+// Service Workerなどセッションを持たない呼び出し元に渡す、通知ごとの署名付きトークン
+// ===========================================
+
+import crypto from 'crypto';
+import { ConfigurationError } from '@/lib/errors';
+
+/**
+ * トークンの用途（用途が違うトークンは検証に通らない）
+ */
+export const NotificationTokenPurpose = {
+  ACK: 'ack',
+  RESOLVE: 'resolve',
+  ACTION: 'action',
+} as const;
+
+export type NotificationTokenPurpose = typeof NotificationTokenPurpose[keyof typeof NotificationTokenPurpose];
+
+function getSigningSecret(): string {
+  const secret = process.env.NOTIFICATION_SIGNING_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) {
+    throw new ConfigurationError('NOTIFICATION_SIGNING_SECRET', '通知トークンの署名鍵が設定されていません');
+  }
+  return secret;
+}
+
+/**
+ * 通知IDと用途に対するトークンを作成
+ * scopeを指定するとその値（操作の種類や有効期限など）も署名に含める
+ */
+export function signNotificationToken(
+  notificationId: string,
+  purpose: NotificationTokenPurpose,
+  scope?: string
+): string {
+  return crypto
+    .createHmac('sha256', getSigningSecret())
+    .update(scope ? `${purpose}:${notificationId}:${scope}` : `${purpose}:${notificationId}`)
+    .digest('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * トークンを検証
+ */
+export function verifyNotificationToken(
+  notificationId: string,
+  purpose: NotificationTokenPurpose,
+  token: string,
+  scope?: string
+): boolean {
+  const expected = Buffer.from(signNotificationToken(notificationId, purpose, scope));
+  const actual = Buffer.from(token);
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,372 @@
+// ===========================================
+// Email Transport - AI Schedule Assistant
+// SMTP互換サーバーへのメール送信（ローカルのSMTPキャッチャーにも送れる）とコンソール出力
+// ===========================================
+
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+import { EMAIL_CONFIG } from '@/lib/config/environment';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * メール送信の実装
+ */
+export interface EmailTransport {
+  readonly name: string;
+  /** まとめて送信し、メッセージごとの失敗理由（成功はnull）を返す */
+  sendBatch(messages: EmailMessage[]): Promise<(string | null)[]>;
+}
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  secure?: boolean;   // 接続時からTLS（falseでもサーバーが対応していればSTARTTLSで暗号化）
+  user?: string;
+  password?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * SMTPの応答エラー
+ */
+class SmtpError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * 1本のSMTPセッション（コマンドを順に送り応答を待つ）
+ */
+class SmtpConnection {
+  private socket!: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private closedError: Error | null = null;
+
+  constructor(socket: net.Socket, private readonly timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  get isOpen(): boolean {
+    return !this.closedError;
+  }
+
+  /**
+   * 応答を1つ読む（複数行応答は最終行まで）
+   */
+  readReply(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.closedError) return Promise.reject(this.closedError);
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /**
+   * コマンドを送信し、期待する応答コードでなければ例外を投げる
+   */
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(line.split(' ')[0], expected);
+  }
+
+  /**
+   * 応答を読み、期待する応答コードか確認する
+   */
+  async expect(label: string, expected: number[]): Promise<SmtpReply> {
+    const reply = await this.readReply();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`${label}: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  /**
+   * メッセージ本文を送信（DATAの後）
+   */
+  async data(content: string): Promise<void> {
+    // 行頭のピリオドは本文の終わりと区別するため二重にする
+    this.socket.write(`${content.replace(/^\./gm, '..')}\r\n.\r\n`);
+    await this.expect('DATA', [250]);
+  }
+
+  /**
+   * STARTTLSで暗号化された接続に切り替える
+   */
+  async upgrade(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.removeAllListeners('timeout');
+
+    const secure = tls.connect({ socket: plain, servername: host });
+    this.attach(secure);
+
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', () => resolve());
+      secure.once('error', reject);
+    });
+  }
+
+  /**
+   * セッションを終了
+   */
+  async close(): Promise<void> {
+    if (this.isOpen) {
+      try {
+        await this.command('QUIT', [221]);
+      } catch {
+        // 切断時のエラーは無視
+      }
+    }
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs, () => {
+      socket.destroy(new SmtpError('SMTP接続がタイムアウトしました'));
+    });
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new SmtpError('SMTP接続が切断されました')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.substring(0, index);
+      this.buffer = this.buffer.substring(index + 2);
+      this.lines.push(line.substring(4));
+
+      // "250-..." は継続行、"250 ..." が最終行
+      if (line.length < 4 || line[3] === ' ') {
+        const reply = { code: parseInt(line.substring(0, 3)), lines: this.lines };
+        this.lines = [];
+
+        if (this.waiting) {
+          const { resolve } = this.waiting;
+          this.waiting = null;
+          resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.closedError) return;
+    this.closedError = error;
+
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+}
+
+/**
+ * SMTP互換サーバーに送信するトランスポート
+ * 1回のバッチは1本の接続で送る
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private options: SmtpTransportOptions;
+
+  constructor(options: SmtpTransportOptions) {
+    this.options = options;
+  }
+
+  async sendBatch(messages: EmailMessage[]): Promise<(string | null)[]> {
+    if (messages.length === 0) return [];
+
+    let connection: SmtpConnection;
+    try {
+      connection = await this.connect();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return messages.map(() => message);
+    }
+
+    const results: (string | null)[] = [];
+    try {
+      for (const message of messages) {
+        if (!connection.isOpen) {
+          results.push('SMTP接続が切断されました');
+          continue;
+        }
+
+        try {
+          await this.sendMessage(connection, message);
+          results.push(null);
+        } catch (error) {
+          results.push(error instanceof Error ? error.message : 'Unknown error');
+          if (connection.isOpen) {
+            await connection.command('RSET', [250]).catch(() => undefined);
+          }
+        }
+      }
+    } finally {
+      await connection.close();
+    }
+
+    return results;
+  }
+
+  private async connect(): Promise<SmtpConnection> {
+    const { host, port, secure, user, password } = this.options;
+    const socket = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    const connection = new SmtpConnection(socket, this.options.timeoutMs ?? 30000);
+
+    try {
+      await connection.expect('CONNECT', [220]);
+      let ehlo = await connection.command(`EHLO ${os.hostname()}`, [250]);
+
+      if (!secure && ehlo.lines.some(line => /^STARTTLS\b/i.test(line))) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(host);
+        ehlo = await connection.command(`EHLO ${os.hostname()}`, [250]);
+      }
+
+      if (user) {
+        const credentials = Buffer.from(`\u0000${user}\u0000${password || ''}`).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+    } catch (error) {
+      await connection.close();
+      throw error;
+    }
+
+    return connection;
+  }
+
+  private async sendMessage(connection: SmtpConnection, message: EmailMessage): Promise<void> {
+    const to = sanitizeHeader(message.to);
+
+    await connection.command(`MAIL FROM:<${extractAddress(this.options.from)}>`, [250]);
+    await connection.command(`RCPT TO:<${to}>`, [250, 251]);
+    await connection.command('DATA', [354]);
+    await connection.data(buildMimeMessage(this.options.from, { ...message, to }));
+  }
+}
+
+/**
+ * 送信せずにログへ出力するトランスポート（開発用）
+ */
+export class ConsoleTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async sendBatch(messages: EmailMessage[]): Promise<(string | null)[]> {
+    for (const message of messages) {
+      console.log(`[email] to=${message.to} subject=${message.subject}`);
+    }
+    return messages.map(() => null);
+  }
+}
+
+/**
+ * 設定（EMAIL_TRANSPORT）に応じたトランスポートを作成
+ */
+export function createEmailTransport(name: string = EMAIL_CONFIG.transport): EmailTransport {
+  if (name === 'smtp') {
+    return new SmtpTransport({
+      host: EMAIL_CONFIG.smtpHost,
+      port: EMAIL_CONFIG.smtpPort,
+      secure: EMAIL_CONFIG.smtpSecure,
+      user: EMAIL_CONFIG.smtpUser,
+      password: EMAIL_CONFIG.smtpPassword,
+      from: EMAIL_CONFIG.from,
+    });
+  }
+
+  return new ConsoleTransport();
+}
+
+/**
+ * テキストとHTMLを含むMIMEメッセージを組み立てる（本文はUTF-8のbase64）
+ */
+export function buildMimeMessage(from: string, message: EmailMessage): string {
+  const boundary = `=_ai_schedule_${randomUUID()}`;
+  const domain = extractAddress(from).split('@')[1] || 'localhost';
+
+  return [
+    `From: ${sanitizeHeader(from)}`,
+    `To: ${sanitizeHeader(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * "名前 <address>" 形式からアドレスを取り出す
+ */
+function extractAddress(value: string): string {
+  const match = /<([^>]+)>/.exec(value);
+  return sanitizeHeader(match ? match[1] : value).trim();
+}
+
+/**
+ * ヘッダーインジェクションを防ぐため改行を取り除く
+ */
+function sanitizeHeader(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * 非ASCII文字を含むヘッダー値をRFC 2047形式にする
+ */
+function encodeHeader(value: string): string {
+  const sanitized = sanitizeHeader(value);
+  if (/^[\x20-\x7e]*$/.test(sanitized)) return sanitized;
+  return `=?UTF-8?B?${Buffer.from(sanitized, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * 本文をbase64にして76文字ごとに改行
+ */
+function encodeBody(value: string): string {
+  return (Buffer.from(value, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
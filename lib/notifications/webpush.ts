@@ -0,0 +1,270 @@
+// ===========================================
+// Web Push - AI Schedule Assistant
+// VAPID署名（RFC 8292）とペイロード暗号化（RFC 8291 aes128gcm）でプッシュサービスに送信する
+// ===========================================
+
+import crypto from 'crypto';
+import { PUSH_CONFIG } from '@/lib/config/environment';
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string; // base64url
+  auth: string;   // base64url
+}
+
+export interface WebPushOptions {
+  ttlSeconds?: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  topic?: string; // 同じトピックの未配信メッセージは置き換えられる
+}
+
+export interface WebPushResult {
+  statusCode: number;
+  accepted: boolean; // プッシュサービスが受け付けた
+  gone: boolean;     // 購読が無効（削除すべき）
+  error?: string;
+}
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+}
+
+const RECORD_SIZE = 4096;
+const VAPID_EXPIRATION_SECONDS = 12 * 60 * 60;
+
+/**
+ * VAPID鍵が設定されているか
+ */
+export function isWebPushConfigured(): boolean {
+  return !!(PUSH_CONFIG.vapidPublicKey && PUSH_CONFIG.vapidPrivateKey);
+}
+
+/**
+ * VAPID鍵ペアを生成（環境変数の設定用）
+ */
+export function generateVapidKeys(): VapidKeys {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+
+  return {
+    publicKey: toBase64Url(ecdh.getPublicKey()),
+    privateKey: toBase64Url(ecdh.getPrivateKey()),
+  };
+}
+
+/**
+ * プッシュサービスにメッセージを送信
+ */
+export async function sendWebPush(
+  subscription: PushSubscriptionKeys,
+  payload: string,
+  options: WebPushOptions = {}
+): Promise<WebPushResult> {
+  const { vapidPublicKey, vapidPrivateKey, vapidSubject } = PUSH_CONFIG;
+  if (!vapidPublicKey || !vapidPrivateKey) {
+    throw new Error('VAPID鍵が設定されていません');
+  }
+
+  const body = encryptPushPayload(payload, subscription.p256dh, subscription.auth);
+  const authorization = createVapidAuthorization(subscription.endpoint, {
+    publicKey: vapidPublicKey,
+    privateKey: vapidPrivateKey,
+  }, vapidSubject);
+
+  const headers: Record<string, string> = {
+    'Authorization': authorization,
+    'Content-Type': 'application/octet-stream',
+    'Content-Encoding': 'aes128gcm',
+    'TTL': String(options.ttlSeconds ?? PUSH_CONFIG.ttlSeconds),
+    'Urgency': options.urgency || 'normal',
+  };
+  if (options.topic) {
+    headers['Topic'] = options.topic;
+  }
+
+  try {
+    const response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers,
+      body: new Uint8Array(body),
+    });
+
+    const accepted = response.status >= 200 && response.status < 300;
+    return {
+      statusCode: response.status,
+      accepted,
+      gone: response.status === 404 || response.status === 410,
+      error: accepted ? undefined : `Push service error: ${response.status} ${await response.text()}`.trim(),
+    };
+  } catch (error) {
+    return {
+      statusCode: 0,
+      accepted: false,
+      gone: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * VAPIDのAuthorizationヘッダー（ES256で署名したJWT）を作成
+ */
+export function createVapidAuthorization(endpoint: string, keys: VapidKeys, subject: string): string {
+  const header = toBase64Url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = toBase64Url(Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + VAPID_EXPIRATION_SECONDS,
+    sub: subject,
+  })));
+  const unsigned = `${header}.${claims}`;
+
+  const signature = crypto.sign('sha256', Buffer.from(unsigned), {
+    key: createPrivateKey(keys),
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `vapid t=${unsigned}.${toBase64Url(signature)}, k=${keys.publicKey}`;
+}
+
+/**
+ * VAPIDのAuthorizationヘッダーを検証（モックプッシュサービス用）
+ */
+export function verifyVapidAuthorization(authorization: string, audience: string): boolean {
+  const match = /^vapid t=([^,\s]+),\s*k=([^,\s]+)$/.exec(authorization.trim());
+  if (!match) return false;
+
+  const [, token, publicKey] = match;
+  const [header, claims, signature] = token.split('.');
+  if (!header || !claims || !signature) return false;
+
+  try {
+    const verified = crypto.verify(
+      'sha256',
+      Buffer.from(`${header}.${claims}`),
+      { key: createPublicKey(publicKey), dsaEncoding: 'ieee-p1363' },
+      fromBase64Url(signature)
+    );
+    const payload = JSON.parse(fromBase64Url(claims).toString('utf8')) as { aud?: string; exp?: number };
+
+    return verified && payload.aud === audience && (payload.exp || 0) > Date.now() / 1000;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * ペイロードを購読者の鍵で暗号化（aes128gcm、単一レコード）
+ */
+export function encryptPushPayload(payload: string, p256dh: string, auth: string): Buffer {
+  const userAgentPublicKey = fromBase64Url(p256dh);
+  const authSecret = fromBase64Url(auth);
+
+  const ecdh = crypto.createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+
+  const salt = crypto.randomBytes(16);
+  const { contentKey, nonce } = deriveContentKeys(sharedSecret, authSecret, salt, userAgentPublicKey, serverPublicKey);
+
+  // 0x02 は最後のレコードを示す区切り
+  const plaintext = Buffer.concat([Buffer.from(payload, 'utf8'), Buffer.from([0x02])]);
+  if (plaintext.length + 16 > RECORD_SIZE) {
+    throw new Error('プッシュ通知のペイロードが大きすぎます');
+  }
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(RECORD_SIZE, 0);
+
+  return Buffer.concat([salt, recordSize, Buffer.from([serverPublicKey.length]), serverPublicKey, ciphertext]);
+}
+
+/**
+ * 暗号化されたペイロードを復号（モックプッシュサービス用）
+ */
+export function decryptPushPayload(body: Buffer, receiver: crypto.ECDH, auth: string): string {
+  const salt = body.subarray(0, 16);
+  const keyIdLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + keyIdLength);
+  const ciphertext = body.subarray(21 + keyIdLength);
+
+  const sharedSecret = receiver.computeSecret(serverPublicKey);
+  const { contentKey, nonce } = deriveContentKeys(
+    sharedSecret,
+    fromBase64Url(auth),
+    salt,
+    receiver.getPublicKey(),
+    serverPublicKey
+  );
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const plaintext = Buffer.concat([
+    decipher.update(ciphertext.subarray(0, ciphertext.length - 16)),
+    decipher.final(),
+  ]);
+
+  // 末尾のパディングと区切り（0x02）を取り除く
+  let end = plaintext.length - 1;
+  while (end >= 0 && plaintext[end] === 0) end--;
+  return plaintext.subarray(0, end).toString('utf8');
+}
+
+/**
+ * RFC 8291 の鍵導出
+ */
+function deriveContentKeys(
+  sharedSecret: Buffer,
+  authSecret: Buffer,
+  salt: Buffer,
+  userAgentPublicKey: Buffer,
+  serverPublicKey: Buffer
+): { contentKey: Buffer; nonce: Buffer } {
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+  const inputKey = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+  return {
+    contentKey: Buffer.from(crypto.hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)),
+    nonce: Buffer.from(crypto.hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: nonce\0'), 12)),
+  };
+}
+
+function createPrivateKey(keys: VapidKeys): crypto.KeyObject {
+  const publicKey = fromBase64Url(keys.publicKey);
+
+  return crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: keys.privateKey,
+      x: toBase64Url(publicKey.subarray(1, 33)),
+      y: toBase64Url(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+}
+
+function createPublicKey(publicKey: string): crypto.KeyObject {
+  const point = fromBase64Url(publicKey);
+
+  return crypto.createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: toBase64Url(point.subarray(1, 33)),
+      y: toBase64Url(point.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+}
+
+export function toBase64Url(value: Buffer): string {
+  return value.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string): Buffer {
+  return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
@@ -0,0 +1,133 @@
+// ===========================================
+// Token Budget - AI Schedule Assistant
+// 月間トークン予算の集計・モデルの自動切り替え・上限到達時の拒否
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AI_CONFIG } from '@/lib/config/environment';
+import { AIFeature, LLMProviderName, LLMUsage } from './providers';
+
+export interface TokenBudgetLimits {
+  monthlyTokenLimit: number;      // 全ユーザー合計の上限
+  userMonthlyTokenLimit: number;  // ユーザーごとの上限
+  downgradeThreshold: number;     // この割合に達したら安価なモデルに切り替える
+}
+
+export interface TokenBudgetStatus {
+  periodStart: string;
+  userTokens: number;
+  globalTokens: number;
+  userLimit: number;
+  globalLimit: number;
+  usageRatio: number;             // ユーザー・全体のうち高い方の使用率
+  downgraded: boolean;
+  exhausted: 'user' | 'global' | null;
+}
+
+export interface TokenUsageEntry {
+  userId: string | null;
+  provider: LLMProviderName;
+  model: string;
+  feature: AIFeature;
+  usage: LLMUsage;
+  billable: boolean;
+  downgraded: boolean;
+}
+
+/**
+ * 予算期間（当月1日 00:00 UTC）の開始時刻
+ */
+export function getBudgetPeriodStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * 使用量から予算の状態を判定
+ */
+export function evaluateTokenBudget(
+  usage: { userTokens: number; globalTokens: number },
+  periodStart: Date,
+  limits: TokenBudgetLimits = AI_CONFIG
+): TokenBudgetStatus {
+  const usageRatio = Math.max(
+    usage.userTokens / limits.userMonthlyTokenLimit,
+    usage.globalTokens / limits.monthlyTokenLimit
+  );
+
+  let exhausted: TokenBudgetStatus['exhausted'] = null;
+  if (usage.globalTokens >= limits.monthlyTokenLimit) {
+    exhausted = 'global';
+  } else if (usage.userTokens >= limits.userMonthlyTokenLimit) {
+    exhausted = 'user';
+  }
+
+  return {
+    periodStart: periodStart.toISOString(),
+    userTokens: usage.userTokens,
+    globalTokens: usage.globalTokens,
+    userLimit: limits.userMonthlyTokenLimit,
+    globalLimit: limits.monthlyTokenLimit,
+    usageRatio: Math.round(usageRatio * 1000) / 1000,
+    downgraded: usageRatio >= limits.downgradeThreshold,
+    exhausted,
+  };
+}
+
+/**
+ * 予算の状態に応じて使うモデルを決める（しきい値を超えたら安価なモデル）
+ */
+export function selectModel(requestedModel: string, status: TokenBudgetStatus): string {
+  return status.downgraded ? AI_CONFIG.economyModel : requestedModel;
+}
+
+/**
+ * 当月のトークン使用量（ユーザー・全体）を取得して予算の状態を返す
+ */
+export async function getTokenBudgetStatus(
+  supabase: SupabaseClient,
+  userId: string | null,
+  now: Date = new Date()
+): Promise<TokenBudgetStatus> {
+  const periodStart = getBudgetPeriodStart(now);
+
+  const { data, error } = await supabase.rpc('get_ai_token_usage', {
+    target_user_id: userId,
+    period_start: periodStart.toISOString(),
+  });
+
+  if (error) throw error;
+
+  return evaluateTokenBudget(
+    {
+      userTokens: Number(data?.user_tokens) || 0,
+      globalTokens: Number(data?.global_tokens) || 0,
+    },
+    periodStart
+  );
+}
+
+/**
+ * トークン使用量を記録（失敗しても呼び出し元の処理は止めない）
+ */
+export async function recordTokenUsage(
+  supabase: SupabaseClient,
+  entry: TokenUsageEntry
+): Promise<void> {
+  const { error } = await supabase
+    .from('ai_token_usage')
+    .insert({
+      user_id: entry.userId,
+      provider: entry.provider,
+      model: entry.model,
+      feature: entry.feature,
+      prompt_tokens: entry.usage.promptTokens,
+      completion_tokens: entry.usage.completionTokens,
+      total_tokens: entry.usage.totalTokens,
+      billable: entry.billable,
+      downgraded: entry.downgraded,
+    });
+
+  if (error) {
+    console.error('トークン使用量の記録エラー:', error);
+  }
+}
@@ -1,19 +1,76 @@
-import OpenAI from 'openai';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { AITaskSuggestion, TaskPriority } from '@/types/shared';
+import { AI_CONFIG } from '@/lib/config/environment';
+import { TokenBudgetExceededError } from '@/lib/errors';
+import { QuickAddResult, QuickAddSuggestion, formatQuickAddDate } from '@/lib/tasks/quickAdd';
+import { AIFeature, LLMProvider, LLMProviderName, LLMRequest, MockProvider, createProvider } from './providers';
+import { getBudgetPeriodStart, getTokenBudgetStatus, recordTokenUsage, selectModel } from './budget';
+
+export * from './providers';
+export * from './budget';
+
+interface OpenAIClientOptions {
+  provider?: LLMProvider;
+  supabase?: SupabaseClient; // 指定時はトークン使用量を記録し、月間予算を適用する
+  userId?: string | null;
+}
 
 /**
  * OpenAI API クライアント
- * GPT-4o を使用したタスク提案・分析機能
+ * プロバイダー（OpenAI / ローカル互換API / モック）を通じたタスク提案・分析機能
  */
 export class OpenAIClient {
-  private client: OpenAI;
-  private model = 'gpt-4o';
+  private provider: LLMProvider;
+  private supabase?: SupabaseClient;
+  private userId: string | null;
+  private model = AI_CONFIG.primaryModel;
   private maxTokens = 2000;
   
-  constructor(apiKey?: string) {
-    this.client = new OpenAI({
-      apiKey: apiKey || process.env.OPENAI_API_KEY,
-    });
+  constructor(options: OpenAIClientOptions = {}) {
+    this.provider = options.provider || createProvider();
+    this.supabase = options.supabase;
+    this.userId = options.userId ?? null;
+  }
+
+  get providerName(): LLMProviderName {
+    return this.provider.name;
+  }
+
+  /**
+   * チャット補完を実行
+   * 予算の80%を超えたら安価なモデルに切り替え、上限に達したら TokenBudgetExceededError を投げる
+   */
+  async complete(request: Omit<LLMRequest, 'model'> & { model?: string }): Promise<string | null> {
+    let model = request.model || this.model;
+    let downgraded = false;
+
+    if (this.supabase && this.provider.billable) {
+      const budget = await getTokenBudgetStatus(this.supabase, this.userId);
+      if (budget.exhausted) {
+        throw new TokenBudgetExceededError(budget.exhausted, {
+          usedTokens: budget.exhausted === 'user' ? budget.userTokens : budget.globalTokens,
+          limit: budget.exhausted === 'user' ? budget.userLimit : budget.globalLimit,
+        });
+      }
+      model = selectModel(model, budget);
+      downgraded = model !== (request.model || this.model);
+    }
+
+    const response = await this.provider.complete({ ...request, model });
+
+    if (this.supabase) {
+      await recordTokenUsage(this.supabase, {
+        userId: this.userId,
+        provider: this.provider.name,
+        model: response.model,
+        feature: request.feature,
+        usage: response.usage,
+        billable: this.provider.billable,
+        downgraded,
+      });
+    }
+
+    return response.content;
   }
 
   /**
@@ -34,8 +91,8 @@ export class OpenAIClient {
     const prompt = this.buildPreparationTaskPrompt(event, userContext);
     
     try {
-      const response = await this.client.chat.completions.create({
-        model: this.model,
+      const content = await this.complete({
+        feature: AIFeature.PREPARATION_TASKS,
         messages: [
           {
             role: 'system',
@@ -46,12 +103,10 @@ export class OpenAIClient {
             content: prompt,
           },
         ],
-        max_tokens: this.maxTokens,
+        maxTokens: this.maxTokens,
         temperature: 0.7,
-        response_format: { type: 'json_object' },
+        json: true,
       });
-
-      const content = response.choices[0]?.message?.content;
       if (!content) {
         throw new Error('AI応答が空です');
       }
@@ -59,6 +114,7 @@ export class OpenAIClient {
       const result = JSON.parse(content);
       return this.validateAndFormatTasks(result.tasks || []);
     } catch (error) {
+      if (error instanceof TokenBudgetExceededError) throw error;
       console.error('OpenAI API エラー:', error);
       throw new Error('AI タスク生成に失敗しました');
     }
@@ -77,18 +133,20 @@ export class OpenAIClient {
       title: string;
       priority: TaskPriority;
       estimatedTime?: number;
+      correctedTime?: number; // 過去の実績から補正した見積時間
     }[],
     userProductivity?: {
       completionRate: number;
       averageTaskTime: number;
       preferredTaskTypes: string[];
+      estimation?: { factor: number; confidence: number; sampleCount: number };
     }
   ): Promise<AITaskSuggestion[]> {
     const prompt = this.buildTimeSlotPrompt(freeTimeSlots, existingTasks, userProductivity);
     
     try {
-      const response = await this.client.chat.completions.create({
-        model: this.model,
+      const content = await this.complete({
+        feature: AIFeature.FREE_TIME_SUGGESTIONS,
         messages: [
           {
             role: 'system',
@@ -99,12 +157,10 @@ export class OpenAIClient {
             content: prompt,
           },
         ],
-        max_tokens: this.maxTokens,
+        maxTokens: this.maxTokens,
         temperature: 0.8,
-        response_format: { type: 'json_object' },
+        json: true,
       });
-
-      const content = response.choices[0]?.message?.content;
       if (!content) {
         throw new Error('AI応答が空です');
       }
@@ -112,6 +168,7 @@ export class OpenAIClient {
       const result = JSON.parse(content);
       return this.validateAndFormatTasks(result.suggestions || []);
     } catch (error) {
+      if (error instanceof TokenBudgetExceededError) throw error;
       console.error('OpenAI API エラー:', error);
       throw new Error('AI タスク提案に失敗しました');
     }
@@ -141,8 +198,8 @@ export class OpenAIClient {
     const prompt = this.buildAnalysisPrompt(completedTasks, postponedTasks);
     
     try {
-      const response = await this.client.chat.completions.create({
-        model: this.model,
+      const content = await this.complete({
+        feature: AIFeature.TASK_PERFORMANCE,
         messages: [
           {
             role: 'system',
@@ -153,23 +210,63 @@ export class OpenAIClient {
             content: prompt,
           },
         ],
-        max_tokens: this.maxTokens,
+        maxTokens: this.maxTokens,
         temperature: 0.6,
-        response_format: { type: 'json_object' },
+        json: true,
       });
-
-      const content = response.choices[0]?.message?.content;
       if (!content) {
         throw new Error('AI応答が空です');
       }
 
       return JSON.parse(content);
     } catch (error) {
+      if (error instanceof TokenBudgetExceededError) throw error;
       console.error('OpenAI API エラー:', error);
       throw new Error('AI 分析に失敗しました');
     }
   }
 
+  /**
+   * クイック追加の入力をAIで解釈（ルールで解釈しきれない曖昧な表現の補完用）
+   */
+  async parseQuickAdd(
+    input: string,
+    ruleResult: QuickAddResult,
+    now: Date = new Date(),
+    timeZone?: string
+  ): Promise<QuickAddSuggestion> {
+    const prompt = this.buildQuickAddPrompt(input, ruleResult, now, timeZone);
+
+    try {
+      const content = await this.complete({
+        feature: AIFeature.QUICK_ADD,
+        model: AI_CONFIG.economyModel,
+        messages: [
+          {
+            role: 'system',
+            content: this.getQuickAddSystemPrompt(),
+          },
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        maxTokens: 500,
+        temperature: 0,
+        json: true,
+      });
+      if (!content) {
+        throw new Error('AI応答が空です');
+      }
+
+      return JSON.parse(content) as QuickAddSuggestion;
+    } catch (error) {
+      if (error instanceof TokenBudgetExceededError) throw error;
+      console.error('OpenAI API エラー:', error);
+      throw new Error('AI による入力の解釈に失敗しました');
+    }
+  }
+
   /**
    * システムプロンプト（準備タスク生成用）
    */
@@ -234,6 +331,37 @@ export class OpenAIClient {
 5. 既存タスクとの重複を避ける`;
   }
 
+  /**
+   * システムプロンプト（クイック追加の解釈用）
+   */
+  private getQuickAddSystemPrompt(): string {
+    return `あなたはタスク管理アプリの入力解析アシスタントです。
+
+役割:
+- 1行の入力をタスク（または時間帯の決まった予定）の項目に分解する
+- 日本語・英語の日付表現を現在日時を基準に具体的な日時にする
+
+出力形式:
+{
+  "kind": "task" | "event",
+  "title": "日時・所要時間・タグを除いたタイトル",
+  "priority": "high" | "medium" | "low" | null,
+  "category": "カテゴリ" | null,
+  "estimatedMinutes": 分単位の数値 | null,
+  "dueDate": "YYYY-MM-DDTHH:mm" | null,
+  "scheduledDate": "YYYY-MM-DDTHH:mm" | null,
+  "startTime": "YYYY-MM-DDTHH:mm" | null,
+  "endTime": "YYYY-MM-DDTHH:mm" | null
+}
+
+解釈の原則:
+1. 「まで」「締切」「by」が付く日時は dueDate、それ以外の日時は scheduledDate
+2. 開始と終了の時刻がある場合のみ kind を "event" にして startTime / endTime を設定
+3. 「上旬」は5日、「中旬」は15日、「下旬」は25日、「週明け」は次の月曜日とみなす
+4. 時刻がない期限は23:59、時刻がない開始日時は9:00
+5. 入力にない項目は推測せず null`;
+  }
+
   /**
    * システムプロンプト（分析用）
    */
@@ -317,11 +445,13 @@ export class OpenAIClient {
       title: string;
       priority: TaskPriority;
       estimatedTime?: number;
+      correctedTime?: number; // 過去の実績から補正した見積時間
     }[],
     userProductivity?: {
       completionRate: number;
       averageTaskTime: number;
       preferredTaskTypes: string[];
+      estimation?: { factor: number; confidence: number; sampleCount: number };
     }
   ): string {
     let prompt = `利用可能な時間枠に最適なタスクを提案してください：\n\n`;
@@ -339,6 +469,9 @@ export class OpenAIClient {
         prompt += `- ${task.title} (優先度: ${task.priority}`;
         if (task.estimatedTime) {
           prompt += `, 予想時間: ${task.estimatedTime}分`;
+          if (task.correctedTime && task.correctedTime !== task.estimatedTime) {
+            prompt += `（実績からの補正: ${task.correctedTime}分）`;
+          }
         }
         prompt += `)\n`;
       });
@@ -351,6 +484,10 @@ export class OpenAIClient {
       if (userProductivity.preferredTaskTypes.length > 0) {
         prompt += `- 得意分野: ${userProductivity.preferredTaskTypes.join(', ')}\n`;
       }
+      if (userProductivity.estimation && userProductivity.estimation.sampleCount > 0) {
+        const { factor, confidence, sampleCount } = userProductivity.estimation;
+        prompt += `- 見積もりの傾向: 実績は見積もりの平均${factor}倍（完了タスク${sampleCount}件、信頼度: ${Math.round(confidence * 100)}%）\n`;
+      }
     }
     
     prompt += `\n各時間枠に最適なタスクを提案してください。短時間で効果的なタスクを優先してください。`;
@@ -358,6 +495,32 @@ export class OpenAIClient {
     return prompt;
   }
 
+  /**
+   * クイック追加の解釈用プロンプト構築
+   */
+  private buildQuickAddPrompt(input: string, ruleResult: QuickAddResult, now: Date, timeZone?: string): string {
+    let prompt = `現在日時: ${formatQuickAddDate(now, timeZone)}\n\n`;
+    prompt += `入力: ${input}\n`;
+
+    if (ruleResult.recognized.length > 0) {
+      prompt += `\nルールで解釈できた部分:\n`;
+      ruleResult.recognized.forEach(item => {
+        prompt += `- ${item.field}: ${item.text}\n`;
+      });
+    }
+
+    if (ruleResult.ambiguities.length > 0) {
+      prompt += `\n解釈できなかった点:\n`;
+      ruleResult.ambiguities.forEach(ambiguity => {
+        prompt += `- ${ambiguity}\n`;
+      });
+    }
+
+    prompt += `\n入力をタスクの項目に分解してJSONで返してください。`;
+
+    return prompt;
+  }
+
   /**
    * 分析用プロンプト構築
    */
@@ -426,64 +589,41 @@ export class OpenAIClient {
   }
 
   /**
-   * API使用量統計
+   * API使用量統計（当月分）
    */
   async getUsageStats(): Promise<{
     totalRequests: number;
     tokensUsed: number;
-    estimatedCost: number;
+    downgradedRequests: number;
   }> {
-    // 実装時はローカルまたはSupabaseでトラッキング
+    if (!this.supabase) {
+      return { totalRequests: 0, tokensUsed: 0, downgradedRequests: 0 };
+    }
+
+    let query = this.supabase
+      .from('ai_token_usage')
+      .select('total_tokens, downgraded')
+      .gte('created_at', getBudgetPeriodStart().toISOString());
+
+    query = this.userId ? query.eq('user_id', this.userId) : query.is('user_id', null);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
     return {
-      totalRequests: 0,
-      tokensUsed: 0,
-      estimatedCost: 0,
+      totalRequests: data?.length || 0,
+      tokensUsed: (data || []).reduce((sum, row) => sum + (row.total_tokens || 0), 0),
+      downgradedRequests: (data || []).filter(row => row.downgraded).length,
     };
   }
 }
 
-// デフォルトクライアント
-export const openaiClient = new OpenAIClient();
-
-// 開発用のモック実装
-export const mockOpenAIClient = {
-  async generatePreparationTasks(): Promise<AITaskSuggestion[]> {
-    // 開発用のモックデータ
-    return [
-      {
-        title: '会議資料の準備',
-        description: 'プレゼンテーション資料を確認し、必要に応じて更新する',
-        estimated_time: 30,
-        priority: 'high' as TaskPriority,
-        reasoning: '会議で使用する重要な資料のため',
-      },
-      {
-        title: '交通手段の確認',
-        description: '会場までの最適な交通手段と所要時間を確認する',
-        estimated_time: 10,
-        priority: 'medium' as TaskPriority,
-        reasoning: '遅刻を防ぐため事前確認が必要',
-      },
-    ];
-  },
-  
-  async suggestTasksForFreeTime(): Promise<AITaskSuggestion[]> {
-    return [
-      {
-        title: 'メール整理',
-        description: '未読メールを確認し、重要なものに返信する',
-        estimated_time: 20,
-        priority: 'medium' as TaskPriority,
-        reasoning: '短時間で処理できる日常業務',
-      },
-    ];
-  },
-  
-  async analyzeTaskPerformance() {
-    return {
-      insights: ['時間見積もりの精度が向上しています'],
-      recommendations: ['短時間タスクを増やすことをお勧めします'],
-      productivityScore: 75,
-    };
-  },
-};
\ No newline at end of file
+/**
+ * ユーザー用のクライアントを作成（トークン使用量を記録し、月間予算を適用する）
+ */
+export function createAIClient(supabase: SupabaseClient, userId: string): OpenAIClient {
+  return new OpenAIClient({ supabase, userId });
+}
+
+// 開発用のモック実装（決定的な応答を返し、トークンを消費しない）
+export const mockOpenAIClient = new OpenAIClient({ provider: new MockProvider() });
@@ -0,0 +1,225 @@
+// ===========================================
+// LLM Providers - AI Schedule Assistant
+// OpenAI・OpenAI互換のローカルエンドポイント・モックを共通のインターフェースで扱う
+// ===========================================
+
+import OpenAI from 'openai';
+import { AI_CONFIG } from '@/lib/config/environment';
+
+/**
+ * プロバイダーの種類
+ */
+export const LLMProviderName = {
+  OPENAI: 'openai',
+  LOCAL: 'local',
+  MOCK: 'mock',
+} as const;
+
+export type LLMProviderName = typeof LLMProviderName[keyof typeof LLMProviderName];
+
+/**
+ * AI機能の種類（使用量の内訳とモック応答の選択に使う）
+ */
+export const AIFeature = {
+  PREPARATION_TASKS: 'preparation_tasks',
+  FREE_TIME_SUGGESTIONS: 'free_time_suggestions',
+  TASK_PERFORMANCE: 'task_performance',
+  TASK_BREAKDOWN: 'task_breakdown',
+  RESCHEDULE_SUGGESTIONS: 'reschedule_suggestions',
+  DAILY_SUMMARY: 'daily_summary',
+  QUICK_ADD: 'quick_add',
+} as const;
+
+export type AIFeature = typeof AIFeature[keyof typeof AIFeature];
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  feature: AIFeature;
+  model: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature?: number;
+  json?: boolean; // JSONオブジェクトで応答させる
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMResponse {
+  content: string | null;
+  model: string; // 実際に応答したモデル
+  usage: LLMUsage;
+}
+
+/**
+ * LLMプロバイダー
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  /** トークン予算の対象か（課金されるプロバイダーのみ） */
+  readonly billable: boolean;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+interface OpenAICompatibleOptions {
+  name: LLMProviderName;
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;    // 指定時は要求されたモデルに関わらずこのモデルを使う
+  billable: boolean;
+}
+
+/**
+ * OpenAI Chat Completions API（および互換API）のプロバイダー
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly billable: boolean;
+  private client: OpenAI;
+  private model?: string;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.billable = options.billable;
+    this.model = options.model;
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+    });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.client.chat.completions.create({
+      model: this.model || request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.json && { response_format: { type: 'json_object' as const } }),
+    });
+
+    return {
+      content: response.choices[0]?.message?.content ?? null,
+      model: response.model,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: response.usage?.completion_tokens ?? 0,
+        totalTokens: response.usage?.total_tokens ?? 0,
+      },
+    };
+  }
+}
+
+/**
+ * 機能ごとの固定応答（開発・テスト用）
+ */
+const MOCK_RESPONSES: Record<AIFeature, unknown> = {
+  [AIFeature.PREPARATION_TASKS]: {
+    tasks: [
+      {
+        title: '会議資料の準備',
+        description: 'プレゼンテーション資料を確認し、必要に応じて更新する',
+        estimated_time: 30,
+        priority: 'high',
+        reasoning: '会議で使用する重要な資料のため',
+      },
+      {
+        title: '交通手段の確認',
+        description: '会場までの最適な交通手段と所要時間を確認する',
+        estimated_time: 10,
+        priority: 'medium',
+        reasoning: '遅刻を防ぐため事前確認が必要',
+      },
+    ],
+  },
+  [AIFeature.FREE_TIME_SUGGESTIONS]: {
+    suggestions: [
+      {
+        title: 'メール整理',
+        description: '未読メールを確認し、重要なものに返信する',
+        estimated_time: 20,
+        priority: 'medium',
+        reasoning: '短時間で処理できる日常業務',
+      },
+    ],
+  },
+  [AIFeature.TASK_PERFORMANCE]: {
+    insights: ['時間見積もりの精度が向上しています'],
+    recommendations: ['短時間タスクを増やすことをお勧めします'],
+    productivityScore: 75,
+  },
+  [AIFeature.TASK_BREAKDOWN]: {
+    reason: '何度も延期されているため、より小さなステップに分割することを推奨します。',
+    complexity: 'medium',
+    recommendedApproach: '準備・実行・見直しの順に取り組みましょう。',
+    suggestedSubtasks: [
+      { title: '準備・調査', estimatedMinutes: 30, priority: 'high', category: null, description: '必要な情報を集めて進め方を決める' },
+      { title: '実行', estimatedMinutes: 60, priority: 'high', category: null, description: 'メインの作業を進める' },
+      { title: '見直し', estimatedMinutes: 15, priority: 'medium', category: null, description: '成果物を確認して仕上げる' },
+    ],
+  },
+  [AIFeature.RESCHEDULE_SUGGESTIONS]: {
+    suggestions: [],
+  },
+  [AIFeature.DAILY_SUMMARY]: '本日もお疲れさまでした。完了したタスクを振り返り、明日は優先度の高いタスクから取り組みましょう。',
+  // ルールベースの解析結果をそのまま使う
+  [AIFeature.QUICK_ADD]: {
+    kind: null,
+    title: null,
+    priority: null,
+    category: null,
+    estimatedMinutes: null,
+    dueDate: null,
+    scheduledDate: null,
+    startTime: null,
+    endTime: null,
+  },
+};
+
+/**
+ * 決定的な応答を返すモックプロバイダー（トークンを消費しない）
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = LLMProviderName.MOCK;
+  readonly billable = false;
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = MOCK_RESPONSES[request.feature];
+
+    return {
+      content: typeof response === 'string' ? response : JSON.stringify(response),
+      model: 'mock',
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    };
+  }
+}
+
+/**
+ * 設定（AI_PROVIDER）に応じたプロバイダーを作成
+ */
+export function createProvider(name: string = AI_CONFIG.provider): LLMProvider {
+  switch (name) {
+    case LLMProviderName.OPENAI:
+      return new OpenAICompatibleProvider({
+        name: LLMProviderName.OPENAI,
+        apiKey: process.env.OPENAI_API_KEY,
+        billable: true,
+      });
+    case LLMProviderName.LOCAL:
+      return new OpenAICompatibleProvider({
+        name: LLMProviderName.LOCAL,
+        apiKey: AI_CONFIG.localApiKey,
+        baseURL: AI_CONFIG.localBaseUrl,
+        model: AI_CONFIG.localModel,
+        billable: false,
+      });
+    default:
+      return new MockProvider();
+  }
+}
@@ -0,0 +1,505 @@
+// ===========================================
+// Schedule Planner - AI Schedule Assistant
+// 制約ベースの自動スケジューラ（空き時間の計算とタスクの配置）
+// ===========================================
+
+import { SchedulePreferences } from '@/types/shared';
+import { DEFAULT_TIME_ZONE, addDaysToDateKey, atMinuteOfDateIn, toDateKeyIn, weekdayIn } from './timezone';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * 配置開始時刻の丸め単位（分）
+ */
+const SLOT_ROUNDING_MINUTES = 5;
+
+/**
+ * 1回の計画で対象にできる最大日数
+ */
+export const MAX_PLAN_DAYS = 14;
+
+export const DEFAULT_SCHEDULE_PREFERENCES: SchedulePreferences = {
+  working_hours: { start: '09:00', end: '18:00' },
+  working_days: [1, 2, 3, 4, 5],
+  breaks: [{ start: '12:00', end: '13:00' }],
+  buffer_minutes: 10,
+  min_block_minutes: 15,
+  default_task_minutes: 30,
+  time_blocking: false,
+  time_block_calendar_id: 'primary',
+};
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * 予定（events テーブルの行など）
+ */
+export interface BusyEvent {
+  start_time: string;
+  end_time: string;
+  travel_minutes?: number | null; // 移動を伴う予定の片道の移動時間（前後を往復の移動時間として埋める）
+}
+
+export interface SchedulableTask {
+  id: string;
+  title: string;
+  priority: 'high' | 'medium' | 'low';
+  estimated_minutes: number | null;
+  due_date: string | null;
+  postpone_count: number | null;
+  created_at: string;
+  blocked_by?: string[];   // 未完了の前提タスクID（前提の終了後にしか配置しない）
+  original_estimated_minutes?: number | null; // 実績から見積もりを補正した場合の元の見積時間
+}
+
+export interface PlannedBlock {
+  taskId: string;
+  title: string;
+  start: string;
+  end: string;
+  minutes: number;
+  score: number;
+  reasons: string[];
+  /** 期限までに置ける空き時間がなく、期限後に配置した */
+  pastDue: boolean;
+}
+
+export interface UnscheduledTask {
+  taskId: string;
+  title: string;
+  reason: string;
+}
+
+export interface SchedulePlan {
+  range: { from: string; to: string };
+  blocks: PlannedBlock[];
+  unscheduled: UnscheduledTask[];
+  freeMinutes: number;
+  scheduledMinutes: number;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * HH:mm を0時からの分に変換
+ */
+function parseTimeOfDay(value: string): number | null {
+  const match = TIME_PATTERN.exec(value);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+function minutesBetween(start: Date, end: Date): number {
+  return Math.round((end.getTime() - start.getTime()) / MINUTE_MS);
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * MINUTE_MS);
+}
+
+function roundUpToSlot(date: Date): Date {
+  const slotMs = SLOT_ROUNDING_MINUTES * MINUTE_MS;
+  return new Date(Math.ceil(date.getTime() / slotMs) * slotMs);
+}
+
+/**
+ * スケジューリング設定の検証
+ */
+export function validateSchedulePreferences(prefs: Partial<SchedulePreferences> | null | undefined): string[] {
+  const errors: string[] = [];
+  if (!prefs) return errors;
+
+  if (prefs.working_hours) {
+    const start = parseTimeOfDay(prefs.working_hours.start);
+    const end = parseTimeOfDay(prefs.working_hours.end);
+    if (start === null || end === null) {
+      errors.push('稼働時間は HH:mm 形式で指定してください');
+    } else if (start >= end) {
+      errors.push('稼働時間の終了は開始より後にしてください');
+    }
+  }
+
+  if (prefs.working_days !== undefined) {
+    if (!Array.isArray(prefs.working_days) || prefs.working_days.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+      errors.push('稼働曜日は 0（日）〜 6（土）で指定してください');
+    }
+  }
+
+  if (prefs.breaks !== undefined) {
+    const invalid = !Array.isArray(prefs.breaks) || prefs.breaks.some(b => {
+      const start = parseTimeOfDay(b?.start);
+      const end = parseTimeOfDay(b?.end);
+      return start === null || end === null || start >= end;
+    });
+    if (invalid) {
+      errors.push('休憩時間は HH:mm 形式で、終了を開始より後にしてください');
+    }
+  }
+
+  if (prefs.time_blocking !== undefined && typeof prefs.time_blocking !== 'boolean') {
+    errors.push('時間ブロックの設定は true / false で指定してください');
+  }
+
+  if (prefs.time_block_calendar_id !== undefined
+    && (typeof prefs.time_block_calendar_id !== 'string' || !prefs.time_block_calendar_id.trim()
+      || prefs.time_block_calendar_id.length > 255)) {
+    errors.push('時間ブロックの登録先カレンダーIDが正しくありません');
+  }
+
+  const ranges: [keyof SchedulePreferences, number, number, string][] = [
+    ['buffer_minutes', 0, 120, 'バッファ'],
+    ['min_block_minutes', 5, 240, '最小ブロック'],
+    ['default_task_minutes', 5, 480, 'デフォルト所要時間'],
+  ];
+  for (const [key, min, max, label] of ranges) {
+    const value = prefs[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      errors.push(`${label}は${min}〜${max}分の整数で指定してください`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * ユーザー設定とリクエストの上書きをデフォルトにマージ（不正な値はデフォルトのまま）
+ */
+export function resolveSchedulePreferences(
+  ...sources: (Partial<SchedulePreferences> | null | undefined)[]
+): SchedulePreferences {
+  const resolved: SchedulePreferences = { ...DEFAULT_SCHEDULE_PREFERENCES };
+
+  for (const source of sources) {
+    if (!source) continue;
+    for (const key of Object.keys(source) as (keyof SchedulePreferences)[]) {
+      if (source[key] === undefined) continue;
+      if (validateSchedulePreferences({ [key]: source[key] }).length > 0) continue;
+      Object.assign(resolved, { [key]: source[key] });
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * 期間内の稼働時間帯（休憩を除く）を列挙
+ * 稼働時間・曜日はユーザーのタイムゾーンの壁時計で解釈する
+ */
+export function getWorkingIntervals(
+  from: Date,
+  to: Date,
+  prefs: SchedulePreferences,
+  timeZone: string = DEFAULT_TIME_ZONE
+): TimeInterval[] {
+  const workStart = parseTimeOfDay(prefs.working_hours.start)!;
+  const workEnd = parseTimeOfDay(prefs.working_hours.end)!;
+  const breaks = prefs.breaks.map(b => ({ start: parseTimeOfDay(b.start)!, end: parseTimeOfDay(b.end)! }));
+
+  const intervals: TimeInterval[] = [];
+
+  for (let day = toDateKeyIn(from, timeZone); atMinuteOfDateIn(day, 0, timeZone) < to; day = addDaysToDateKey(day, 1)) {
+    const at = (minutes: number) => atMinuteOfDateIn(day, minutes, timeZone);
+    if (prefs.working_days.includes(weekdayIn(at(0), timeZone))) {
+      const dayIntervals = subtractIntervals(
+        [{ start: at(workStart), end: at(workEnd) }],
+        breaks.map(b => ({ start: at(b.start), end: at(b.end) }))
+      );
+      intervals.push(...clipIntervals(dayIntervals, from, to));
+    }
+  }
+
+  return intervals;
+}
+
+/**
+ * 区間を [from, to) に切り詰める
+ */
+function clipIntervals(intervals: TimeInterval[], from: Date, to: Date): TimeInterval[] {
+  return intervals
+    .map(interval => ({
+      start: interval.start < from ? from : interval.start,
+      end: interval.end > to ? to : interval.end,
+    }))
+    .filter(interval => interval.start < interval.end);
+}
+
+/**
+ * base から busy と重なる部分を取り除いた区間を返す
+ */
+export function subtractIntervals(base: TimeInterval[], busy: TimeInterval[]): TimeInterval[] {
+  const sortedBusy = [...busy]
+    .filter(b => b.start < b.end)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const result: TimeInterval[] = [];
+  for (const interval of base) {
+    let cursor = interval.start;
+    for (const b of sortedBusy) {
+      if (b.end <= cursor) continue;
+      if (b.start >= interval.end) break;
+      if (b.start > cursor) {
+        result.push({ start: cursor, end: b.start });
+      }
+      if (b.end > cursor) {
+        cursor = b.end;
+      }
+      if (cursor >= interval.end) break;
+    }
+    if (cursor < interval.end) {
+      result.push({ start: cursor, end: interval.end });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 予定が埋める時間（前後の paddingMinutes と、移動を伴う予定は行き帰りの移動時間を含む）
+ */
+function eventBusyInterval(event: BusyEvent, paddingMinutes: number): TimeInterval {
+  const padding = paddingMinutes + Math.max(0, event.travel_minutes || 0);
+  return {
+    start: addMinutes(new Date(event.start_time), -padding),
+    end: addMinutes(new Date(event.end_time), padding),
+  };
+}
+
+/**
+ * 予定を除いた正確な空き時間を計算（予定の前後にはバッファと移動時間を確保）
+ */
+export function computeFreeIntervals(
+  events: BusyEvent[],
+  from: Date,
+  to: Date,
+  prefs: SchedulePreferences,
+  timeZone: string = DEFAULT_TIME_ZONE
+): TimeInterval[] {
+  const busy = events
+    .map(event => eventBusyInterval(event, prefs.buffer_minutes))
+    .filter(interval => !isNaN(interval.start.getTime()) && !isNaN(interval.end.getTime()));
+
+  return subtractIntervals(getWorkingIntervals(from, to, prefs, timeZone), busy)
+    .map(interval => ({ start: roundUpToSlot(interval.start), end: interval.end }))
+    .filter(interval => minutesBetween(interval.start, interval.end) >= prefs.min_block_minutes);
+}
+
+const PRIORITY_WEIGHT: Record<SchedulableTask['priority'], number> = {
+  high: 30,
+  medium: 20,
+  low: 10,
+};
+
+/**
+ * 配置順を決めるスコア（優先度・期限の近さ・延期回数）
+ */
+export function scoreTask(task: SchedulableTask, now: Date): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  let score = PRIORITY_WEIGHT[task.priority] ?? PRIORITY_WEIGHT.low;
+
+  if (task.priority === 'high') {
+    reasons.push('高優先度のタスクです');
+  }
+
+  if (task.due_date) {
+    const daysLeft = (new Date(task.due_date).getTime() - now.getTime()) / DAY_MS;
+    if (daysLeft < 0) {
+      score += 40;
+      reasons.push('期限を過ぎています');
+    } else {
+      score += Math.max(0, 30 - daysLeft * 5);
+      if (daysLeft <= 1) {
+        reasons.push('期限が24時間以内です');
+      } else if (daysLeft <= 3) {
+        reasons.push(`期限まで${Math.ceil(daysLeft)}日です`);
+      }
+    }
+  }
+
+  const postponeCount = task.postpone_count || 0;
+  if (postponeCount > 0) {
+    score += Math.min(postponeCount * 5, 20);
+    reasons.push(`${postponeCount}回延期されています`);
+  }
+
+  return { score: Math.round(score * 10) / 10, reasons };
+}
+
+/**
+ * notBefore 以降で minutes 分入る最初の位置（期限があれば期限に間に合う位置を優先）
+ */
+function findSlot(
+  free: TimeInterval[],
+  minutes: number,
+  notBefore: Date | null,
+  due: Date | null
+): { index: number; start: Date; beforeDue: boolean } | null {
+  const candidates = free
+    .map((interval, index) => ({
+      index,
+      start: notBefore && notBefore > interval.start ? roundUpToSlot(notBefore) : interval.start,
+      end: interval.end,
+    }))
+    .filter(candidate => minutesBetween(candidate.start, candidate.end) >= minutes);
+
+  const beforeDue = due
+    ? candidates.find(candidate => addMinutes(candidate.start, minutes) <= due)
+    : candidates[0];
+  const slot = beforeDue ?? candidates[0];
+
+  return slot ? { index: slot.index, start: slot.start, beforeDue: !!beforeDue } : null;
+}
+
+/**
+ * タスクをスコア順に空き時間へ詰め込む
+ *
+ * 各タスクは所要時間分の連続した空き時間のうち、期限に間に合う最も早い位置に置く。
+ * 期限に間に合う空きがなければ最も早い空きに置き pastDue とする。
+ * 前提タスク（blocked_by）がある場合は、その終了後にしか置かない。
+ * 前提タスクが今回の対象に含まれていれば先に配置し、配置済みなら prerequisiteEnds の時刻以降に置く。
+ */
+export function planSchedule(
+  tasks: SchedulableTask[],
+  events: BusyEvent[],
+  prefs: SchedulePreferences,
+  options: { from: Date; to: Date; now?: Date; prerequisiteEnds?: Record<string, string>; timeZone?: string }
+): SchedulePlan {
+  const now = options.now ?? new Date();
+  const from = roundUpToSlot(options.from < now ? now : options.from);
+  const free = computeFreeIntervals(events, from, options.to, prefs, options.timeZone);
+  const freeMinutes = free.reduce((sum, interval) => sum + minutesBetween(interval.start, interval.end), 0);
+  const prerequisiteEnds = options.prerequisiteEnds ?? {};
+
+  const pending = tasks
+    .map(task => ({ task, ...scoreTask(task, now) }))
+    .sort((a, b) => {
+      if (a.score !== b.score) return b.score - a.score;
+      const aDue = a.task.due_date ? new Date(a.task.due_date).getTime() : Infinity;
+      const bDue = b.task.due_date ? new Date(b.task.due_date).getTime() : Infinity;
+      if (aDue !== bDue) return aDue - bDue;
+      return new Date(a.task.created_at).getTime() - new Date(b.task.created_at).getTime();
+    });
+
+  const blocks: PlannedBlock[] = [];
+  const unscheduled: UnscheduledTask[] = [];
+  const endsByTask = new Map<string, Date>();
+  const failed = new Set<string>();
+
+  // 前提タスクの終了時刻。未配置の対象タスクが前提なら 'wait'、配置できない前提があれば 'blocked'
+  const earliestStart = (task: SchedulableTask): Date | null | 'wait' | 'blocked' => {
+    let earliest: Date | null = null;
+    for (const prerequisiteId of task.blocked_by || []) {
+      let end = endsByTask.get(prerequisiteId);
+      if (!end) {
+        // 今回の対象に含まれる前提は、既存の配置ではなく今回の配置結果を待つ
+        if (pending.some(item => item.task.id === prerequisiteId)) return 'wait';
+        if (failed.has(prerequisiteId) || !prerequisiteEnds[prerequisiteId]) return 'blocked';
+        end = new Date(prerequisiteEnds[prerequisiteId]);
+      }
+      if (!earliest || end > earliest) earliest = end;
+    }
+    return earliest;
+  };
+
+  while (pending.length > 0) {
+    // スコア順で、前提タスクの配置を待つ必要がない最初のタスク
+    const index = pending.findIndex(item => earliestStart(item.task) !== 'wait');
+    if (index === -1) {
+      // 残りは互いに待ち合っている（循環）ため配置できない
+      for (const { task } of pending) {
+        unscheduled.push({ taskId: task.id, title: task.title, reason: '前提タスクを配置できません' });
+      }
+      break;
+    }
+
+    const [{ task, score, reasons }] = pending.splice(index, 1);
+    const minutes = task.estimated_minutes && task.estimated_minutes > 0
+      ? task.estimated_minutes
+      : prefs.default_task_minutes;
+    const due = task.due_date ? new Date(task.due_date) : null;
+
+    const notBefore = earliestStart(task);
+    if (notBefore === 'blocked') {
+      failed.add(task.id);
+      unscheduled.push({
+        taskId: task.id,
+        title: task.title,
+        reason: '前提タスクが未完了のため配置できません',
+      });
+      continue;
+    }
+
+    const bufferedNotBefore = notBefore instanceof Date ? addMinutes(notBefore, prefs.buffer_minutes) : null;
+    const slot = findSlot(free, minutes, bufferedNotBefore, due);
+
+    if (!slot) {
+      failed.add(task.id);
+      unscheduled.push({
+        taskId: task.id,
+        title: task.title,
+        reason: `${minutes}分の連続した空き時間がありません`,
+      });
+      continue;
+    }
+
+    const start = slot.start;
+    const end = addMinutes(start, minutes);
+    endsByTask.set(task.id, end);
+    blocks.push({
+      taskId: task.id,
+      title: task.title,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      minutes,
+      score,
+      reasons: [
+        ...reasons,
+        ...(bufferedNotBefore ? ['前提タスクの後に配置しました'] : []),
+        ...(task.original_estimated_minutes && task.original_estimated_minutes !== task.estimated_minutes
+          ? [`実績から見積もりを補正しました（${task.original_estimated_minutes}分→${minutes}分）`]
+          : []),
+      ],
+      pastDue: !slot.beforeDue,
+    });
+
+    // 使った分（と前後のバッファ）を空き時間から取り除く
+    const interval = free[slot.index];
+    const remaining: TimeInterval[] = [
+      { start: interval.start, end: addMinutes(start, -prefs.buffer_minutes) },
+      { start: roundUpToSlot(addMinutes(end, prefs.buffer_minutes)), end: interval.end },
+    ].filter(part => minutesBetween(part.start, part.end) >= prefs.min_block_minutes);
+    free.splice(slot.index, 1, ...remaining);
+  }
+
+  blocks.sort((a, b) => a.start.localeCompare(b.start));
+
+  return {
+    range: { from: from.toISOString(), to: options.to.toISOString() },
+    blocks,
+    unscheduled,
+    freeMinutes,
+    scheduledMinutes: blocks.reduce((sum, block) => sum + block.minutes, 0),
+  };
+}
+
+/**
+ * 配置が予定（移動時間を含む）や他の配置と重なっていないかを確認（適用前の再検証用）
+ */
+export function findConflictingBlocks(
+  blocks: Pick<PlannedBlock, 'taskId' | 'start' | 'end'>[],
+  events: BusyEvent[]
+): string[] {
+  const overlaps = (a: { start: string | Date; end: string | Date }, b: { start: string | Date; end: string | Date }) =>
+    new Date(a.start) < new Date(b.end) && new Date(b.start) < new Date(a.end);
+
+  return blocks
+    .filter((block, index) =>
+      events.some(event => overlaps(block, eventBusyInterval(event, 0))) ||
+      blocks.some((other, otherIndex) => otherIndex !== index && overlaps(block, other))
+    )
+    .map(block => block.taskId);
+}
@@ -0,0 +1,358 @@
+// ===========================================
+// Reschedule Suggestions - AI Schedule Assistant
+// 未完了タスクを翌日の空き時間に割り当てるリスケジュール提案の生成と保存
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { SchedulePreferences } from '@/types/shared';
+import { AIFeature, OpenAIClient, createAIClient } from '@/lib/openai';
+import { getParentTaskIds, getSchedulingConstraints } from '@/lib/tasks/dependencies';
+import { correctedEstimate, loadEstimationModel } from '@/lib/tasks/estimation';
+import { countsAsBusy, getNonBusyGoogleCalendarIds } from '@/lib/google/calendarList';
+import { SchedulableTask, planSchedule, resolveSchedulePreferences } from './planner';
+import {
+  UserLocale,
+  addDaysToDateKey,
+  dayRangeIn,
+  formatTime,
+  minutesOfDayIn,
+  resolveUserLocale,
+  toDateKeyIn,
+} from './timezone';
+
+export interface RescheduleSuggestionsOptions {
+  targetDate?: string; // YYYY-MM-DD（ユーザーのタイムゾーンの日付、省略時は今日）
+  autoGenerated?: boolean; // ジョブスケジューラーなどから自動で生成したか
+}
+
+export interface RescheduleSuggestionsResult {
+  suggestions: RescheduleSuggestion[];
+  targetDate: string;
+  suggestionsForDate: string;
+  incompleteTasksCount: number;
+}
+
+interface IncompleteTask {
+  id: string;
+  title: string;
+  description: string | null;
+  category: string | null;
+  priority: string;
+  estimated_minutes: number | null;
+  due_date: string | null;
+  scheduled_date: string | null;
+  postpone_count: number;
+  postpone_reason: string | null;
+  created_at: string;
+  blocked_by?: string[];
+  original_estimated_minutes?: number | null;
+}
+
+export interface RescheduleSuggestion {
+  taskId: string;
+  title: string;
+  currentScheduledDate: string | null;
+  suggestedDate: string;
+  suggestedTimeSlot: string;
+  reason: string;
+  priority: 'high' | 'medium' | 'low';
+  estimatedMinutes: number | null;
+}
+
+interface CalendarEvent {
+  id: string;
+  title: string;
+  start_time: string;
+  end_time: string;
+}
+
+/**
+ * 時間帯ラベル（午前/午後/夜、ユーザーのタイムゾーンの時刻）
+ */
+function timeSlotLabel(start: Date, end: Date, userLocale: UserLocale): string {
+  const hour = Math.floor(minutesOfDayIn(start, userLocale.timeZone) / 60);
+  const label = hour < 12 ? '午前' : hour < 18 ? '午後' : '夜';
+  return `${label} ${formatTime(start, userLocale)}-${formatTime(end, userLocale)}`;
+}
+
+/**
+ * Generate AI-powered rescheduling suggestions
+ */
+async function generateRescheduleSuggestions(
+  aiClient: OpenAIClient,
+  incompleteTasks: IncompleteTask[],
+  tomorrowEvents: CalendarEvent[],
+  targetDate: string,
+  preferences: SchedulePreferences,
+  prerequisiteEnds: Record<string, string>,
+  userLocale: UserLocale
+): Promise<RescheduleSuggestion[]> {
+  const tomorrowStr = addDaysToDateKey(targetDate, 1);
+  
+  const suggestions: RescheduleSuggestion[] = [];
+  
+  // 翌日（ユーザーのタイムゾーン）の空き時間に優先度・期限・延期回数の順で詰め込む
+  const { start: dayStart, end: dayEnd } = dayRangeIn(tomorrowStr, userLocale.timeZone);
+  const plan = planSchedule(
+    incompleteTasks as SchedulableTask[],
+    tomorrowEvents,
+    // 翌日が稼働日でなくても提案できるよう曜日の制約は外す
+    { ...preferences, working_days: [0, 1, 2, 3, 4, 5, 6] },
+    { from: dayStart, to: dayEnd, prerequisiteEnds, timeZone: userLocale.timeZone }
+  );
+  
+  for (const block of plan.blocks) {
+    const task = incompleteTasks.find(t => t.id === block.taskId)!;
+    
+    let reason = block.reasons.length > 0 ? `${block.reasons.join('。')}。` : '';
+    if (task.postpone_count > 0 && task.postpone_reason) {
+      reason += ` 前回の延期理由: ${task.postpone_reason}`;
+    }
+    
+    if (!reason) {
+      reason = '時間に余裕があるときに取り組みましょう。';
+    }
+    
+    suggestions.push({
+      taskId: task.id,
+      title: task.title,
+      currentScheduledDate: task.scheduled_date,
+      suggestedDate: tomorrowStr,
+      suggestedTimeSlot: timeSlotLabel(new Date(block.start), new Date(block.end), userLocale),
+      reason: reason.trim(),
+      priority: task.priority as 'high' | 'medium' | 'low',
+      estimatedMinutes: task.estimated_minutes,
+    });
+  }
+  
+  // If some tasks did not fit into free time, use AI to generate more nuanced suggestions
+  // (tasks still waiting for a prerequisite are left out)
+  const remainingTasks = plan.unscheduled
+    .map(item => incompleteTasks.find(t => t.id === item.taskId)!)
+    .filter(task => !task.blocked_by?.length);
+
+  if (remainingTasks.length > 0) {
+    try {
+      const tasksList = remainingTasks.map(task => 
+        `- ${task.title} (優先度: ${task.priority}, 延期回数: ${task.postpone_count || 0}回${task.due_date ? `, 期限: ${task.due_date}` : ''})`
+      ).join('\n');
+      
+      const prompt = `以下のタスクについて、明日(${tomorrowStr})のリスケジュール提案を生成してください：
+
+${tasksList}
+
+明日の既存予定:
+${tomorrowEvents.map(event => `- ${event.title} (${formatTime(event.start_time, userLocale)} - ${formatTime(event.end_time, userLocale)})`).join('\n')}
+
+以下の形式でJSONレスponseを返してください：
+{
+  "suggestions": [
+    {
+      "taskId": "タスクID",
+      "suggestedTimeSlot": "午前|午後|夜|空き時間",
+      "reason": "リスケジュール理由"
+    }
+  ]
+}`;
+
+      const aiResponse = await aiClient.complete({
+        feature: AIFeature.RESCHEDULE_SUGGESTIONS,
+        model: 'gpt-4o-mini',
+        messages: [
+          {
+            role: "system",
+            content: "あなたは効率的なタスク管理アシスタントです。ユーザーのスケジュールと未完了タスクを分析し、最適なリスケジュール提案を行ってください。"
+          },
+          {
+            role: "user",
+            content: prompt
+          }
+        ],
+        maxTokens: 1000,
+        temperature: 0.7,
+      });
+
+      if (aiResponse) {
+        try {
+          const parsed = JSON.parse(aiResponse);
+          parsed.suggestions?.forEach((aiSuggestion: { taskId?: string; suggestedTimeSlot: string; reason: string }) => {
+            const task = remainingTasks.find(t => t.id === aiSuggestion.taskId);
+            if (task) {
+              suggestions.push({
+                taskId: task.id,
+                title: task.title,
+                currentScheduledDate: task.scheduled_date,
+                suggestedDate: tomorrowStr,
+                suggestedTimeSlot: aiSuggestion.suggestedTimeSlot,
+                reason: aiSuggestion.reason,
+                priority: task.priority as 'high' | 'medium' | 'low',
+                estimatedMinutes: task.estimated_minutes,
+              });
+            }
+          });
+        } catch (parseError) {
+          console.error('Failed to parse AI suggestions:', parseError);
+        }
+      }
+    } catch (aiError) {
+      console.error('AI suggestion generation failed:', aiError);
+      // Continue with basic suggestions
+    }
+  }
+  
+  return suggestions;
+}
+
+/**
+ * 対象日（省略時はユーザーの今日）の未完了・期限切れタスクについて翌日のリスケジュール提案を生成して保存する
+ * 同じ対象日の提案が既にあれば置き換える
+ */
+export async function createRescheduleSuggestions(
+  supabase: SupabaseClient,
+  userId: string,
+  options: RescheduleSuggestionsOptions = {}
+): Promise<RescheduleSuggestionsResult> {
+  const { data: userData } = await supabase
+    .from('users')
+    .select('settings, time_zone, locale')
+    .eq('id', userId)
+    .single();
+
+  // 日付の境界はユーザーのタイムゾーンで判定する
+  const userLocale = resolveUserLocale(userData);
+  const targetDate = options.targetDate || toDateKeyIn(new Date(), userLocale.timeZone);
+  
+  // Get incomplete tasks scheduled for today or overdue
+  const { start: startOfDay, end: endOfDay } = dayRangeIn(targetDate, userLocale.timeZone);
+  
+  const { data: incompleteTasks, error: tasksError } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('user_id', userId)
+    .in('status', ['pending', 'in_progress'])
+    .is('recurrence_rule', null)
+    .or(`scheduled_date.gte.${startOfDay.toISOString()},scheduled_date.lt.${endOfDay.toISOString()},due_date.lt.${endOfDay.toISOString()}`)
+    .order('priority', { ascending: false })
+    .order('postpone_count', { ascending: false });
+
+  if (tasksError) {
+    throw tasksError;
+  }
+
+  const tomorrowStr = addDaysToDateKey(targetDate, 1);
+
+  if (incompleteTasks.length === 0) {
+    return { suggestions: [], targetDate, suggestionsForDate: tomorrowStr, incompleteTasksCount: 0 };
+  }
+  
+  // Get tomorrow's calendar events
+  const { start: tomorrowStart, end: tomorrowEnd } = dayRangeIn(tomorrowStr, userLocale.timeZone);
+  
+  const [{ data: fetchedEvents, error: eventsError }, nonBusyCalendarIds] = await Promise.all([
+    supabase
+      .from('events')
+      .select('id, title, start_time, end_time, event_source, google_calendar_id, travel_minutes')
+      .eq('user_id', userId)
+      .lt('start_time', tomorrowEnd.toISOString())
+      .gt('end_time', tomorrowStart.toISOString())
+      .order('start_time', { ascending: true }),
+    getNonBusyGoogleCalendarIds(supabase, userId).catch(() => new Set<string>()),
+  ]);
+
+  if (eventsError) {
+    console.error('Error fetching tomorrow events:', eventsError);
+    // Continue without events data
+  }
+
+  // 予定あり扱いにしないカレンダーの予定は空き時間の計算に含めない
+  const tomorrowEvents = (fetchedEvents || []).filter(event => countsAsBusy(event, nonBusyCalendarIds));
+  
+  const preferences = resolveSchedulePreferences(userData?.settings?.schedule_preferences);
+
+  // 親タスクは提案せず、前提タスクが未完了のタスクは前提の後にのみ提案する
+  const parentTaskIds = await getParentTaskIds(supabase, userId);
+  const { blockedBy, prerequisiteEnds } = await getSchedulingConstraints(
+    supabase,
+    userId,
+    incompleteTasks.map(task => task.id),
+    preferences.default_task_minutes
+  );
+  // 見積時間は過去の実績から補正して配置する
+  const estimationModel = await loadEstimationModel(supabase, userId);
+  const schedulableTasks = (incompleteTasks as IncompleteTask[])
+    .filter(task => !parentTaskIds.has(task.id))
+    .map(task => ({
+      ...task,
+      estimated_minutes: task.estimated_minutes ? correctedEstimate(estimationModel, task) : null,
+      original_estimated_minutes: task.estimated_minutes,
+      blocked_by: blockedBy[task.id],
+    }));
+  
+  const suggestions = await generateRescheduleSuggestions(
+    createAIClient(supabase, userId),
+    schedulableTasks,
+    (tomorrowEvents as CalendarEvent[]) || [],
+    targetDate,
+    preferences,
+    prerequisiteEnds,
+    userLocale
+  );
+  
+  // Store suggestions in database
+  const suggestionRecord = {
+    user_id: userId,
+    target_date: targetDate,
+    suggestions_for_date: tomorrowStr,
+    incomplete_tasks_count: incompleteTasks.length,
+    suggestions_count: suggestions.length,
+    suggestions_data: suggestions,
+    generated_at: new Date().toISOString(),
+  };
+  
+  // Check if suggestions already exist for this date
+  const { data: existingSuggestions } = await supabase
+    .from('reschedule_suggestions')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('target_date', targetDate)
+    .single();
+  
+  if (existingSuggestions) {
+    // Update existing suggestions
+    const { error } = await supabase
+      .from('reschedule_suggestions')
+      .update(suggestionRecord)
+      .eq('id', existingSuggestions.id);
+    
+    if (error) throw error;
+  } else {
+    // Create new suggestions
+    const { error } = await supabase
+      .from('reschedule_suggestions')
+      .insert(suggestionRecord);
+    
+    if (error) throw error;
+  }
+  
+  // Log the suggestion generation
+  await supabase
+    .from('analytics_logs')
+    .insert({
+      user_id: userId,
+      event_type: 'reschedule_suggestions_generated',
+      event_data: {
+        target_date: targetDate,
+        suggestions_for_date: tomorrowStr,
+        incomplete_tasks: incompleteTasks.length,
+        suggestions_generated: suggestions.length,
+        auto_generated: options.autoGenerated ?? false,
+      },
+    });
+
+  return {
+    suggestions,
+    targetDate,
+    suggestionsForDate: tomorrowStr,
+    incompleteTasksCount: incompleteTasks.length,
+  };
+}
@@ -0,0 +1,312 @@
+// ===========================================
+// Task Time Blocks - AI Schedule Assistant
+// 配置済みタスクをGoogle Calendarの時間ブロックとして登録・追従させる
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { GoogleCalendarEvent, SchedulePreferences } from '@/types/shared';
+import {
+  CalendarEventInput,
+  GoogleCalendarClient,
+  createUserCalendarClient,
+  getGoogleErrorStatus,
+  parseGoogleEventKey,
+} from '@/lib/google/calendar';
+import { getUserGoogleAuth } from '@/lib/google/tokens';
+import { resolveSchedulePreferences } from './planner';
+import { resolveUserLocale } from './timezone';
+
+/**
+ * 時間ブロックのマーカー（extendedProperties.private）
+ */
+export const TIME_BLOCK_MARKER_KEY = 'aiScheduleBlock';
+export const TIME_BLOCK_MARKER_VALUE = 'task';
+export const TIME_BLOCK_TASK_KEY = 'aiScheduleTaskId';
+
+/**
+ * 説明欄の末尾に付ける目印（Googleカレンダー上で見分けられるように）
+ */
+const DESCRIPTION_MARKER = '—— AI Schedule Assistant のタスク時間ブロック';
+
+export const TimeBlockAction = {
+  CREATED: 'created',
+  UPDATED: 'updated',
+  DELETED: 'deleted',
+  UNCHANGED: 'unchanged',
+} as const;
+export type TimeBlockAction = typeof TimeBlockAction[keyof typeof TimeBlockAction];
+
+/**
+ * 時間ブロックの作成に必要なタスクの列
+ */
+export interface TimeBlockTask {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  status: string;
+  scheduled_date: string | null;
+  estimated_minutes: number | null;
+  calendar_event_id: string | null;
+}
+
+export const TIME_BLOCK_TASK_COLUMNS = 'id, user_id, title, description, status, scheduled_date, estimated_minutes, calendar_event_id';
+
+export interface TimeBlockContext {
+  client: GoogleCalendarClient;
+  preferences: SchedulePreferences;
+}
+
+export interface TimeBlockSyncSummary {
+  created: number;
+  updated: number;
+  deleted: number;
+  failed: number;
+}
+
+/**
+ * アプリが作成したタスクの時間ブロックか
+ */
+export function isTimeBlockEvent(event: Pick<GoogleCalendarEvent, 'extendedProperties'>): boolean {
+  return event.extendedProperties?.private?.[TIME_BLOCK_MARKER_KEY] === TIME_BLOCK_MARKER_VALUE;
+}
+
+export function getTimeBlockTaskId(event: Pick<GoogleCalendarEvent, 'extendedProperties'>): string | null {
+  return isTimeBlockEvent(event)
+    ? event.extendedProperties?.private?.[TIME_BLOCK_TASK_KEY] ?? null
+    : null;
+}
+
+/**
+ * 時間ブロックを持つべきタスクか（完了済みは実績として残し、キャンセルは削除する）
+ */
+export function shouldHaveTimeBlock(task: Pick<TimeBlockTask, 'status' | 'scheduled_date'>): boolean {
+  return !!task.scheduled_date && task.status !== 'cancelled';
+}
+
+/**
+ * タスクから時間ブロックのイベントを作成
+ */
+export function buildTimeBlockEvent(task: TimeBlockTask, defaultMinutes: number): CalendarEventInput {
+  const start = new Date(task.scheduled_date!);
+  const end = new Date(start.getTime() + (task.estimated_minutes || defaultMinutes) * 60 * 1000);
+
+  return {
+    title: `${task.status === 'completed' ? '✅' : '🎯'} ${task.title}`,
+    description: [task.description, DESCRIPTION_MARKER].filter(Boolean).join('\n\n'),
+    startTime: start.toISOString(),
+    endTime: end.toISOString(),
+    privateProperties: {
+      [TIME_BLOCK_MARKER_KEY]: TIME_BLOCK_MARKER_VALUE,
+      [TIME_BLOCK_TASK_KEY]: task.id,
+    },
+  };
+}
+
+async function linkTask(supabase: SupabaseClient, taskId: string, calendarEventId: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('tasks')
+    .update({ calendar_event_id: calendarEventId })
+    .eq('id', taskId);
+
+  if (error) throw error;
+}
+
+/**
+ * ユーザーのカレンダークライアントとスケジューリング設定（Google未連携なら null）
+ * クライアントは時間ブロックの登録先（time_block_calendar_id）のカレンダーを対象にする
+ */
+export async function getTimeBlockContext(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<TimeBlockContext | null> {
+  const auth = await getUserGoogleAuth(supabase, userId);
+  if (!auth) return null;
+
+  const { data } = await supabase
+    .from('users')
+    .select('settings, time_zone, locale')
+    .eq('id', userId)
+    .single();
+
+  const preferences = resolveSchedulePreferences(data?.settings?.schedule_preferences);
+
+  return {
+    client: createUserCalendarClient(auth, preferences.time_block_calendar_id, resolveUserLocale(data).timeZone),
+    preferences,
+  };
+}
+
+/**
+ * タスク1件の時間ブロックを現在の状態に合わせる（作成・更新・削除）
+ * 登録先のカレンダーが変わった場合は元のカレンダーから削除して作り直す
+ */
+export async function syncTaskTimeBlock(
+  supabase: SupabaseClient,
+  client: GoogleCalendarClient,
+  task: TimeBlockTask,
+  defaultMinutes: number
+): Promise<TimeBlockAction> {
+  if (!shouldHaveTimeBlock(task)) {
+    if (!task.calendar_event_id) return TimeBlockAction.UNCHANGED;
+
+    await client.deleteEvent(task.calendar_event_id);
+    await linkTask(supabase, task.id, null);
+    return TimeBlockAction.DELETED;
+  }
+
+  const input = buildTimeBlockEvent(task, defaultMinutes);
+
+  if (task.calendar_event_id && parseGoogleEventKey(task.calendar_event_id).calendarId !== client.calendarId) {
+    await client.deleteEvent(task.calendar_event_id);
+  } else if (task.calendar_event_id) {
+    try {
+      await client.updateEvent(task.calendar_event_id, input);
+      return TimeBlockAction.UPDATED;
+    } catch (error) {
+      // Google側で削除済みの場合は作り直す
+      const status = getGoogleErrorStatus(error);
+      if (status !== 404 && status !== 410) throw error;
+    }
+  }
+
+  const created = await client.createEvent(input);
+  await linkTask(supabase, task.id, created.id);
+  return TimeBlockAction.CREATED;
+}
+
+/**
+ * タスク変更後に時間ブロックを追従させる（失敗してもタスクの変更は成功として扱う）
+ *
+ * 対象は既に時間ブロックを持つタスクと、time_blocking 有効時（または force 指定時）の配置済みタスク。
+ * 繰り返しシリーズのテンプレートは実行対象ではないため除く
+ */
+export async function syncTimeBlocksForTasks(
+  supabase: SupabaseClient,
+  userId: string,
+  taskIds: string[],
+  options: { force?: boolean } = {}
+): Promise<TimeBlockSyncSummary> {
+  const summary: TimeBlockSyncSummary = { created: 0, updated: 0, deleted: 0, failed: 0 };
+  if (taskIds.length === 0) return summary;
+
+  try {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select(TIME_BLOCK_TASK_COLUMNS)
+      .eq('user_id', userId)
+      .is('recurrence_rule', null)
+      .in('id', taskIds);
+
+    if (error) throw error;
+
+    const tasks = ((data || []) as TimeBlockTask[])
+      .filter(task => task.calendar_event_id || shouldHaveTimeBlock(task));
+    if (tasks.length === 0) return summary;
+
+    const context = await getTimeBlockContext(supabase, userId);
+    if (!context) return summary;
+
+    for (const task of tasks) {
+      if (!task.calendar_event_id && !options.force && !context.preferences.time_blocking) continue;
+
+      try {
+        const action = await syncTaskTimeBlock(
+          supabase,
+          context.client,
+          task,
+          context.preferences.default_task_minutes
+        );
+        if (action !== TimeBlockAction.UNCHANGED) summary[action]++;
+      } catch (error) {
+        console.error('時間ブロック同期エラー:', task.id, error);
+        summary.failed++;
+      }
+    }
+  } catch (error) {
+    console.error('時間ブロック同期エラー:', error);
+    summary.failed++;
+  }
+
+  return summary;
+}
+
+/**
+ * 削除したタスクの時間ブロックをGoogleから削除（失敗しても次回の整理で削除される）
+ */
+export async function removeTimeBlocks(
+  supabase: SupabaseClient,
+  userId: string,
+  calendarEventIds: (string | null | undefined)[]
+): Promise<number> {
+  const eventIds = calendarEventIds.filter((id): id is string => !!id);
+  if (eventIds.length === 0) return 0;
+
+  let removed = 0;
+  try {
+    const context = await getTimeBlockContext(supabase, userId);
+    if (!context) return 0;
+
+    for (const eventId of eventIds) {
+      try {
+        await context.client.deleteEvent(eventId);
+        removed++;
+      } catch (error) {
+        console.error('時間ブロック削除エラー:', eventId, error);
+      }
+    }
+  } catch (error) {
+    console.error('時間ブロック削除エラー:', error);
+  }
+
+  return removed;
+}
+
+/**
+ * Google側に残った不要な時間ブロック（タスク削除・キャンセル・重複）を削除
+ * 対象はクライアントのカレンダー（時間ブロックの登録先）
+ * @returns 削除したイベント数
+ */
+export async function cleanupOrphanedTimeBlocks(
+  supabase: SupabaseClient,
+  client: GoogleCalendarClient,
+  userId: string,
+  timeMin: Date
+): Promise<number> {
+  const events = await client.findEventsByPrivateProperty(TIME_BLOCK_MARKER_KEY, TIME_BLOCK_MARKER_VALUE, {
+    timeMin: timeMin.toISOString(),
+  });
+  if (events.length === 0) return 0;
+
+  const taskIds = events
+    .map(getTimeBlockTaskId)
+    .filter((id): id is string => !!id);
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id, status, scheduled_date, calendar_event_id')
+    .eq('user_id', userId)
+    .in('id', taskIds);
+
+  if (error) throw error;
+
+  const tasksById = new Map(
+    ((data || []) as Pick<TimeBlockTask, 'id' | 'status' | 'scheduled_date' | 'calendar_event_id'>[])
+      .map(task => [task.id, task])
+  );
+
+  let removed = 0;
+  for (const event of events) {
+    const taskId = getTimeBlockTaskId(event);
+    const task = taskId ? tasksById.get(taskId) : undefined;
+    if (task && task.calendar_event_id === event.id && shouldHaveTimeBlock(task)) continue;
+
+    await client.deleteEvent(event.id);
+    if (task?.calendar_event_id === event.id) {
+      await linkTask(supabase, task.id, null);
+    }
+    removed++;
+  }
+
+  return removed;
+}
@@ -0,0 +1,260 @@
+// ===========================================
+// User Time Zone - AI Schedule Assistant
+// ユーザーのタイムゾーン・ロケールでの日付境界と時刻の計算（夏時間を考慮）
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * 未設定のユーザーに使うタイムゾーン・ロケール
+ */
+export const DEFAULT_TIME_ZONE = 'Asia/Tokyo';
+export const DEFAULT_LOCALE = 'ja-JP';
+
+/**
+ * ユーザーの地域設定（users.time_zone / users.locale）
+ */
+export interface UserLocale {
+  timeZone: string;
+  locale: string;
+}
+
+export const DEFAULT_USER_LOCALE: UserLocale = {
+  timeZone: DEFAULT_TIME_ZONE,
+  locale: DEFAULT_LOCALE,
+};
+
+/**
+ * 壁時計の時刻（月は1始まり）
+ */
+export interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * IANA のタイムゾーン名として Intl で扱えるか
+ */
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * BCP 47 のロケールとして Intl で扱えるか
+ */
+export function isValidLocale(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(value).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 保存値を検証してデフォルトにマージ（不正な値はデフォルトのまま）
+ */
+export function resolveUserLocale(source: { time_zone?: string | null; locale?: string | null } | null | undefined): UserLocale {
+  return {
+    timeZone: isValidTimeZone(source?.time_zone) ? source!.time_zone! : DEFAULT_TIME_ZONE,
+    locale: isValidLocale(source?.locale) ? source!.locale! : DEFAULT_LOCALE,
+  };
+}
+
+/**
+ * ユーザーの地域設定を取得
+ */
+export async function getUserLocale(supabase: SupabaseClient, userId: string): Promise<UserLocale> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('time_zone, locale')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return resolveUserLocale(data);
+}
+
+/**
+ * 指定タイムゾーンでの壁時計の時刻（null はサーバーのローカル時刻）
+ */
+export function wallClockIn(instant: Date, timeZone: string | null): WallClock {
+  if (!timeZone) {
+    return {
+      year: instant.getFullYear(),
+      month: instant.getMonth() + 1,
+      day: instant.getDate(),
+      hour: instant.getHours(),
+      minute: instant.getMinutes(),
+      second: instant.getSeconds(),
+    };
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour12: false,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour') % 24,
+    minute: part('minute'),
+    second: part('second'),
+  };
+}
+
+/**
+ * 壁時計の時刻を日時に変換（夏時間の切り替わりは変換後のオフセットで補正）
+ * 範囲外の値（25時、32日など）は繰り上げて扱う
+ */
+export function fromWallClock(clock: WallClock, timeZone: string | null): Date {
+  if (!timeZone) {
+    return new Date(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  }
+
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  const offsetAt = (instant: number) => {
+    const local = wallClockIn(new Date(instant), timeZone);
+    return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - instant;
+  };
+
+  const firstGuess = asUtc - offsetAt(asUtc);
+  const secondOffset = offsetAt(firstGuess);
+  return new Date(asUtc - secondOffset);
+}
+
+/**
+ * 指定タイムゾーンでの日付（YYYY-MM-DD）
+ */
+export function toDateKeyIn(instant: Date, timeZone: string): string {
+  const { year, month, day } = wallClockIn(instant, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * YYYY-MM-DD を検証して分解（不正な場合は null）
+ */
+export function parseDateKey(value: string | null | undefined): Pick<WallClock, 'year' | 'month' | 'day'> | null {
+  const match = DATE_KEY_PATTERN.exec(value || '');
+  if (!match) return null;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return null;
+
+  return { year, month, day };
+}
+
+/**
+ * 日付（YYYY-MM-DD）の days 日後の日付
+ */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const date = parseDateKey(dateKey);
+  if (!date) throw new RangeError(`Invalid date key: ${dateKey}`);
+
+  return new Date(Date.UTC(date.year, date.month - 1, date.day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * 日付（YYYY-MM-DD）の0時からの分を日時に変換
+ */
+export function atMinuteOfDateIn(dateKey: string, minutes: number, timeZone: string): Date {
+  const date = parseDateKey(dateKey);
+  if (!date) throw new RangeError(`Invalid date key: ${dateKey}`);
+
+  return fromWallClock({ ...date, hour: 0, minute: minutes, second: 0 }, timeZone);
+}
+
+/**
+ * 日付（YYYY-MM-DD）の1日の範囲 [start, end)
+ * 夏時間の切り替え日は23時間・25時間になる
+ */
+export function dayRangeIn(dateKey: string, timeZone: string): { start: Date; end: Date } {
+  return {
+    start: atMinuteOfDateIn(dateKey, 0, timeZone),
+    end: atMinuteOfDateIn(addDaysToDateKey(dateKey, 1), 0, timeZone),
+  };
+}
+
+/**
+ * 指定タイムゾーンでその日の0時
+ */
+export function startOfDayIn(instant: Date, timeZone: string): Date {
+  return atMinuteOfDateIn(toDateKeyIn(instant, timeZone), 0, timeZone);
+}
+
+/**
+ * 指定タイムゾーンで days 日後の同じ時刻（夏時間をまたいでも壁時計の時刻を保つ）
+ */
+export function addDaysIn(instant: Date, days: number, timeZone: string): Date {
+  const clock = wallClockIn(instant, timeZone);
+  return fromWallClock({ ...clock, day: clock.day + days }, timeZone);
+}
+
+/**
+ * 指定タイムゾーンでの0時からの分
+ */
+export function minutesOfDayIn(instant: Date, timeZone: string): number {
+  const { hour, minute } = wallClockIn(instant, timeZone);
+  return hour * 60 + minute;
+}
+
+/**
+ * 指定タイムゾーンでの曜日（0 = 日曜）
+ */
+export function weekdayIn(instant: Date, timeZone: string): number {
+  const { year, month, day } = wallClockIn(instant, timeZone);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * now より後で、指定タイムゾーンの0時からの分が minutes になる最初の日時
+ */
+export function nextMinuteOfDayIn(minutes: number, now: Date, timeZone: string): Date {
+  const today = toDateKeyIn(now, timeZone);
+  const candidate = atMinuteOfDateIn(today, minutes, timeZone);
+  return candidate > now ? candidate : atMinuteOfDateIn(addDaysToDateKey(today, 1), minutes, timeZone);
+}
+
+/**
+ * ユーザーのロケール・タイムゾーンで日時を表示
+ */
+export function formatDateTime(
+  value: Date | string,
+  userLocale: UserLocale = DEFAULT_USER_LOCALE,
+  options: Intl.DateTimeFormatOptions = {}
+): string {
+  return new Date(value).toLocaleString(userLocale.locale, { ...options, timeZone: userLocale.timeZone });
+}
+
+/**
+ * ユーザーのロケール・タイムゾーンで時刻（時:分）を表示
+ */
+export function formatTime(value: Date | string, userLocale: UserLocale = DEFAULT_USER_LOCALE): string {
+  return new Date(value).toLocaleTimeString(userLocale.locale, {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: userLocale.timeZone,
+  });
+}
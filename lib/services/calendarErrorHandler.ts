@@ -1,3 +1,5 @@
+import type { SyncItemResult } from './calendarOfflineManager';
+
 /**
  * カレンダー同期エラーハンドリングシステム
  * ユーザーフレンドリーなエラーメッセージと復旧機能を提供
@@ -31,7 +33,7 @@ export class CalendarErrorHandler {
       recoverable: true,
     },
     
-    // トークン期限切れ
+    // トークン期限切れ（/api/auth/google/refresh で更新して再試行する）
     TOKEN_EXPIRED: {
       code: 'TOKEN_EXPIRED',
       message: 'Access token expired',
@@ -75,6 +77,14 @@ export class CalendarErrorHandler {
       retryAfter: 10,
     },
     
+    // オフライン変更の反映失敗
+    SYNC_QUEUE_FAILED: {
+      code: 'SYNC_QUEUE_FAILED',
+      message: 'Offline changes could not be replayed',
+      userMessage: 'オフライン中の変更の一部をGoogle Calendarに反映できませんでした。',
+      recoverable: true,
+    },
+    
     // 不明エラー
     UNKNOWN_ERROR: {
       code: 'UNKNOWN_ERROR',
@@ -96,10 +106,33 @@ export class CalendarErrorHandler {
       };
     }
 
+    // APIルートが返したエラーコード
+    if (typeof error.code === 'string' && error.code in this.ERROR_TYPES) {
+      return {
+        ...this.ERROR_TYPES[error.code as keyof typeof CalendarErrorHandler.ERROR_TYPES],
+        details: { status: error.status, response: error.message },
+      };
+    }
+
+    // リフレッシュトークンが取り消し・失効している場合は再連携が必要
+    if (error.message?.includes('invalid_grant')) {
+      return {
+        ...this.ERROR_TYPES.AUTH_ERROR,
+        details: { status: error.status, response: error.message },
+      };
+    }
+
     // HTTPステータスコードで判定
     if (error.status) {
       switch (error.status) {
         case 401:
+          // Google API はアクセストークンの期限切れを 401 Invalid Credentials で返す
+          if (error.message?.toLowerCase().includes('invalid credentials')) {
+            return {
+              ...this.ERROR_TYPES.TOKEN_EXPIRED,
+              details: { status: error.status, response: error.message },
+            };
+          }
           return {
             ...this.ERROR_TYPES.AUTH_ERROR,
             details: { status: error.status, response: error.message },
@@ -195,6 +228,40 @@ export class CalendarErrorHandler {
     };
   }
 
+  /**
+   * オフライン変更の再送結果からエラーを生成（失敗・競合が無ければ null）
+   */
+  static fromSyncQueueResults(results: SyncItemResult[]): CalendarError | null {
+    const failed = results.filter(result => result.status === 'failed' || result.status === 'retrying');
+    const conflicts = results.filter(result => result.status === 'conflict');
+
+    if (failed.length === 0 && conflicts.length === 0) return null;
+
+    const summary = [
+      failed.length > 0 ? `${failed.length}件が失敗` : null,
+      conflicts.length > 0 ? `${conflicts.length}件が他の変更と競合` : null,
+    ].filter(Boolean).join('、');
+
+    return {
+      ...this.ERROR_TYPES.SYNC_QUEUE_FAILED,
+      userMessage: `オフライン中の変更を反映できませんでした（${summary}）。`,
+      details: { results: [...failed, ...conflicts] },
+    };
+  }
+
+  /**
+   * TOKEN_EXPIRED からの復旧（Googleのアクセストークンを更新）
+   * @returns 更新できたか（false の場合は再連携が必要）
+   */
+  static async refreshAccessToken(): Promise<boolean> {
+    try {
+      const response = await fetch('/api/auth/google/refresh', { method: 'POST' });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * エラーログを記録
    */
@@ -267,8 +334,13 @@ export class CalendarErrorHandler {
           'オフラインモードでキャッシュされたデータを使用します',
         ];
       
-      case 'AUTH_ERROR':
       case 'TOKEN_EXPIRED':
+        return [
+          'アクセス権限を自動で更新して再試行しています',
+          '更新できない場合は「カレンダー連携」からGoogleアカウントを再連携',
+        ];
+      
+      case 'AUTH_ERROR':
         return [
           '「カレンダー連携」ボタンをクリック',
           'Googleアカウントで再ログイン',
@@ -296,6 +368,12 @@ export class CalendarErrorHandler {
           'ブラウザを再起動',
         ];
       
+      case 'SYNC_QUEUE_FAILED':
+        return [
+          '競合した変更はサーバー側の内容が優先されています。必要に応じて再度編集してください',
+          '失敗した変更は「再試行」で再送できます',
+        ];
+      
       case 'SERVER_ERROR':
         return [
           'しばらくお待ちください（約2分）',
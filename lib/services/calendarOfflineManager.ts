@@ -1,4 +1,68 @@
-import { GoogleCalendarEvent } from '@/types/shared';
+import { CalendarProviderEvent } from '@/types/shared';
+
+export type SyncOperationType = 'CREATE' | 'UPDATE' | 'DELETE';
+
+/**
+ * オフライン中に編集したイベントの内容（/api/calendar/events の入力形式）
+ */
+export interface OfflineEventData {
+  title: string;
+  description?: string;
+  startTime: string;
+  endTime: string;
+  location?: string;
+}
+
+export interface SyncQueueItem {
+  id?: number;
+  type: SyncOperationType;
+  eventData: Partial<OfflineEventData>;
+  originalId?: string;        // 対象イベントID（CREATE は一時ID）
+  baseUpdatedAt?: string;     // 編集元のイベントの更新日時（競合検出用）
+  created_at: string;
+  retry_count: number;
+  last_error: string | null;
+  failed?: boolean;           // リトライ上限に達した（手動で再試行するまで再送しない）
+}
+
+/**
+ * キュー項目ごとの再送結果
+ */
+export interface SyncItemResult {
+  queueId: number;
+  type: SyncOperationType;
+  eventId?: string;
+  title?: string;
+  status: 'success' | 'conflict' | 'failed' | 'retrying' | 'blocked';
+  error?: string;
+}
+
+export interface SyncQueueResult {
+  processed: number;
+  failed: number;
+  conflicts: number;
+  results: SyncItemResult[];
+}
+
+/**
+ * 再送時のエラー（status は HTTP ステータス、ネットワークエラー時は undefined）
+ */
+class SyncReplayError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'SyncReplayError';
+  }
+}
+
+const TEMP_ID_PREFIX = 'local-';
+const MAX_SYNC_RETRIES = 3;
+
+/**
+ * オフライン作成イベントの一時IDかどうか
+ */
+export function isTemporaryEventId(id: string | undefined): boolean {
+  return !!id && id.startsWith(TEMP_ID_PREFIX);
+}
 
 /**
  * オフライン時のカレンダーデータ管理
@@ -54,7 +118,7 @@ export class CalendarOfflineManager {
   /**
    * イベントをローカルキャッシュに保存
    */
-  async cacheEvents(events: GoogleCalendarEvent[], syncTime: Date = new Date()): Promise<void> {
+  async cacheEvents(events: CalendarProviderEvent[], syncTime: Date = new Date()): Promise<void> {
     if (!this.db) await this.initDB();
     if (!this.db) throw new Error('データベース初期化失敗');
 
@@ -82,7 +146,7 @@ export class CalendarOfflineManager {
   /**
    * キャッシュされたイベントを取得
    */
-  async getCachedEvents(startDate?: string, endDate?: string): Promise<GoogleCalendarEvent[]> {
+  async getCachedEvents(startDate?: string, endDate?: string): Promise<CalendarProviderEvent[]> {
     if (!this.db) await this.initDB();
     if (!this.db) return [];
 
@@ -90,7 +154,7 @@ export class CalendarOfflineManager {
     const store = transaction.objectStore('events');
 
     return new Promise((resolve, reject) => {
-      const events: GoogleCalendarEvent[] = [];
+      const events: CalendarProviderEvent[] = [];
       let request: IDBRequest;
 
       if (startDate && endDate) {
@@ -117,107 +181,311 @@ export class CalendarOfflineManager {
   /**
    * 今日のキャッシュされたイベントを取得
    */
-  async getTodayCachedEvents(): Promise<GoogleCalendarEvent[]> {
+  async getTodayCachedEvents(): Promise<CalendarProviderEvent[]> {
     const today = new Date().toISOString().split('T')[0];
     return this.getCachedEvents(`${today}T00:00:00`, `${today}T23:59:59`);
   }
 
   /**
-   * 同期キューに操作を追加
+   * 同期キューに操作を追加（キャッシュにも即時反映する）
+   * @returns 対象イベントID（CREATE の場合は発行した一時ID）
    */
   async addToSyncQueue(operation: {
-    type: 'CREATE' | 'UPDATE' | 'DELETE';
-    eventData: any;
+    type: SyncOperationType;
+    eventData: Partial<OfflineEventData>;
     originalId?: string;
-  }): Promise<void> {
+    baseUpdatedAt?: string;
+  }): Promise<string> {
     if (!this.db) await this.initDB();
     if (!this.db) throw new Error('データベース初期化失敗');
 
-    const transaction = this.db.transaction(['sync_queue'], 'readwrite');
-    const store = transaction.objectStore('sync_queue');
+    const eventId = operation.type === 'CREATE'
+      ? `${TEMP_ID_PREFIX}${crypto.randomUUID()}`
+      : operation.originalId;
 
-    const queueItem = {
+    if (!eventId) throw new Error('更新・削除には対象イベントIDが必要です');
+
+    const queueItem: SyncQueueItem = {
       ...operation,
+      originalId: eventId,
       created_at: new Date().toISOString(),
       retry_count: 0,
       last_error: null,
     };
 
-    await new Promise<void>((resolve, reject) => {
-      const request = store.add(queueItem);
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
+    await this.request('sync_queue', 'readwrite', store => store.add(queueItem));
+
+    // オフライン中も編集結果が見えるようにキャッシュを更新
+    if (operation.type === 'DELETE') {
+      await this.request('events', 'readwrite', store => store.delete(eventId));
+    } else {
+      const cached = await this.request<CalendarProviderEvent | undefined>('events', 'readonly', store => store.get(eventId));
+      await this.putCachedEvent(this.applyEventData(cached, eventId, operation.eventData));
+    }
+
+    return eventId;
+  }
+
+  /**
+   * 未送信の操作件数
+   */
+  async getPendingOperationCount(): Promise<number> {
+    const items = await this.getQueueItems();
+    return items.filter(item => !item.failed).length;
   }
 
   /**
-   * 同期キューの処理
+   * 同期キューの処理（キュー順にAPIへ再送）
+   *
+   * - CREATE 成功時は一時IDをサーバーIDに置き換え、後続の操作にも適用する
+   * - UPDATE/DELETE は編集元の更新日時を送り、サーバー側が新しければ競合（409）として破棄する
+   * - 失敗した操作と同じイベントへの後続操作は、順序を守るため今回は送らない
    */
-  async processSyncQueue(): Promise<{ processed: number; failed: number }> {
+  async processSyncQueue(): Promise<SyncQueueResult> {
     if (!this.db) await this.initDB();
-    if (!this.db) return { processed: 0, failed: 0 };
+    if (!this.db) return { processed: 0, failed: 0, conflicts: 0, results: [] };
 
-    const transaction = this.db.transaction(['sync_queue'], 'readwrite');
-    const store = transaction.objectStore('sync_queue');
-
-    const queueItems = await new Promise<any[]>((resolve, reject) => {
-      const items: any[] = [];
-      const request = store.openCursor();
-      
-      request.onsuccess = () => {
-        const cursor = request.result;
-        if (cursor) {
-          items.push(cursor.value);
-          cursor.continue();
-        } else {
-          resolve(items);
-        }
-      };
-      
-      request.onerror = () => reject(request.error);
-    });
+    const queueItems = (await this.getQueueItems()).filter(item => !item.failed);
+    const idMap: Record<string, string> = (await this.getMetadata('id_map')) || {};
+    const blockedIds = new Set<string>();
+    const results: SyncItemResult[] = [];
 
     let processed = 0;
     let failed = 0;
+    let conflicts = 0;
 
     for (const item of queueItems) {
+      const queueId = item.id!;
+      const targetId = item.originalId ? idMap[item.originalId] ?? item.originalId : undefined;
+      const title = item.eventData?.title;
+
+      // 先行する操作が未完了のイベント（作成待ちの一時IDを含む）
+      if (targetId && (blockedIds.has(targetId) || (item.type !== 'CREATE' && isTemporaryEventId(targetId)))) {
+        blockedIds.add(targetId);
+        results.push({ queueId, type: item.type, eventId: targetId, title, status: 'blocked' });
+        continue;
+      }
+
       try {
-        // TODO: 実際のAPI呼び出し実装
-        // await this.executeSyncOperation(item);
-        
-        // 処理成功時はキューから削除
-        await new Promise<void>((resolve, reject) => {
-          const deleteRequest = store.delete(item.id);
-          deleteRequest.onsuccess = () => resolve();
-          deleteRequest.onerror = () => reject(deleteRequest.error);
-        });
-        
+        const serverEvent = await this.executeSyncOperation(item, targetId);
+
+        if (item.type === 'CREATE' && serverEvent && item.originalId) {
+          idMap[item.originalId] = serverEvent.id;
+          await this.setMetadata('id_map', idMap);
+          await this.request('events', 'readwrite', store => store.delete(item.originalId!));
+        }
+        if (serverEvent) {
+          await this.putCachedEvent(serverEvent);
+        }
+
+        await this.request('sync_queue', 'readwrite', store => store.delete(queueId));
+        results.push({ queueId, type: item.type, eventId: serverEvent?.id ?? targetId, title, status: 'success' });
         processed++;
       } catch (error) {
+        const replayError = error instanceof SyncReplayError ? error : new SyncReplayError(
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+
+        // 競合: サーバー側を正として操作は破棄（キャッシュは次回の取得で置き換わる）
+        if (replayError.status === 409 || (replayError.status === 404 && item.type === 'UPDATE')) {
+          await this.request('sync_queue', 'readwrite', store => store.delete(queueId));
+          results.push({
+            queueId,
+            type: item.type,
+            eventId: targetId,
+            title,
+            status: 'conflict',
+            error: replayError.status === 404 ? 'サーバー側で削除されています' : 'サーバー側で先に変更されています',
+          });
+          conflicts++;
+          continue;
+        }
+
         failed++;
-        
-        // リトライ回数を増やして更新
+        if (targetId) blockedIds.add(targetId);
+
         item.retry_count++;
-        item.last_error = error instanceof Error ? error.message : 'Unknown error';
-        
-        if (item.retry_count < 3) {
-          await new Promise<void>((resolve, reject) => {
-            const updateRequest = store.put(item);
-            updateRequest.onsuccess = () => resolve();
-            updateRequest.onerror = () => reject(updateRequest.error);
-          });
-        } else {
-          // 3回失敗したら削除
-          await new Promise<void>((resolve, reject) => {
-            const deleteRequest = store.delete(item.id);
-            deleteRequest.onsuccess = () => resolve();
-            deleteRequest.onerror = () => reject(deleteRequest.error);
-          });
+        item.last_error = replayError.message;
+
+        // 4xx は再送しても成功しないため即座に失敗扱い（キューには残す）
+        const permanent = item.retry_count >= MAX_SYNC_RETRIES
+          || (replayError.status !== undefined && replayError.status >= 400 && replayError.status < 500 && replayError.status !== 429);
+        item.failed = permanent;
+
+        await this.request('sync_queue', 'readwrite', store => store.put(item));
+        results.push({
+          queueId,
+          type: item.type,
+          eventId: targetId,
+          title,
+          status: permanent ? 'failed' : 'retrying',
+          error: replayError.message,
+        });
+      }
+    }
+
+    await this.setMetadata('last_queue_results', results);
+    return { processed, failed, conflicts, results };
+  }
+
+  /**
+   * 失敗扱いの操作を再送対象に戻す
+   */
+  async retryFailedOperations(): Promise<number> {
+    const failedItems = (await this.getQueueItems()).filter(item => item.failed);
+
+    for (const item of failedItems) {
+      await this.request('sync_queue', 'readwrite', store => store.put({
+        ...item,
+        failed: false,
+        retry_count: 0,
+      }));
+    }
+
+    return failedItems.length;
+  }
+
+  /**
+   * キューから操作を破棄（失敗した変更を諦める）
+   */
+  async discardSyncOperation(queueId: number): Promise<void> {
+    await this.request('sync_queue', 'readwrite', store => store.delete(queueId));
+  }
+
+  /**
+   * 1件の操作をAPIへ送信
+   * @returns サーバー側の最新イベント（DELETE は null）
+   */
+  private async executeSyncOperation(
+    item: SyncQueueItem,
+    targetId: string | undefined
+  ): Promise<CalendarProviderEvent | null> {
+    const send = async (url: string, init: RequestInit) => {
+      let response: Response;
+      try {
+        response = await fetch(url, init);
+      } catch (error) {
+        throw new SyncReplayError(error instanceof Error ? error.message : 'ネットワークエラー');
+      }
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new SyncReplayError(data.error || `HTTP ${response.status}`, response.status);
+      }
+      return data;
+    };
+
+    switch (item.type) {
+      case 'CREATE': {
+        const data = await send('/api/calendar/events', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(item.eventData),
+        });
+        return data.event as CalendarProviderEvent;
+      }
+
+      case 'UPDATE': {
+        const data = await send(`/api/calendar/events/${encodeURIComponent(targetId!)}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...item.eventData, baseUpdatedAt: item.baseUpdatedAt }),
+        });
+        return this.fromEventRecord(data.event);
+      }
+
+      case 'DELETE': {
+        const params = item.baseUpdatedAt ? `?baseUpdatedAt=${encodeURIComponent(item.baseUpdatedAt)}` : '';
+        try {
+          await send(`/api/calendar/events/${encodeURIComponent(targetId!)}${params}`, { method: 'DELETE' });
+        } catch (error) {
+          // 既に削除済みなら成功扱い
+          if (!(error instanceof SyncReplayError && error.status === 404)) throw error;
         }
+        return null;
       }
     }
+  }
 
-    return { processed, failed };
+  /**
+   * events テーブルの行をキャッシュ形式に変換（キャッシュのキーは外部カレンダーのイベントID）
+   */
+  private fromEventRecord(record: {
+    id: string;
+    google_event_id: string | null;
+    title: string;
+    description: string | null;
+    start_time: string;
+    end_time: string;
+    location: string | null;
+    google_updated_at: string | null;
+    local_updated_at: string | null;
+  }): CalendarProviderEvent {
+    return {
+      id: record.google_event_id || record.id,
+      summary: record.title,
+      description: record.description || undefined,
+      start: { dateTime: record.start_time },
+      end: { dateTime: record.end_time },
+      location: record.location || undefined,
+      updated: record.local_updated_at || record.google_updated_at || undefined,
+    };
+  }
+
+  /**
+   * キャッシュ済みイベントに編集内容を反映
+   */
+  private applyEventData(
+    base: CalendarProviderEvent | undefined,
+    id: string,
+    data: Partial<OfflineEventData>
+  ): CalendarProviderEvent {
+    return {
+      ...base,
+      id,
+      summary: data.title ?? base?.summary ?? '',
+      description: data.description ?? base?.description,
+      start: { ...base?.start, dateTime: data.startTime ?? base?.start.dateTime ?? '' },
+      end: { ...base?.end, dateTime: data.endTime ?? base?.end.dateTime ?? '' },
+      location: data.location ?? base?.location,
+    };
+  }
+
+  private async putCachedEvent(event: CalendarProviderEvent): Promise<void> {
+    await this.request('events', 'readwrite', store => store.put({
+      ...event,
+      synced_at: new Date().toISOString(),
+      date: event.start.dateTime?.split('T')[0] || new Date().toISOString().split('T')[0],
+    }));
+  }
+
+  private async getQueueItems(): Promise<SyncQueueItem[]> {
+    if (!this.db) await this.initDB();
+    if (!this.db) return [];
+
+    // autoIncrement のキー順 = 追加順
+    return this.request<SyncQueueItem[]>('sync_queue', 'readonly', store => store.getAll());
+  }
+
+  /**
+   * 単一リクエストのトランザクションを実行
+   * （fetch を挟むとトランザクションが自動コミットされるため、操作ごとに開き直す）
+   */
+  private async request<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    if (!this.db) await this.initDB();
+    if (!this.db) throw new Error('データベース初期化失敗');
+
+    const store = this.db.transaction([storeName], mode).objectStore(storeName);
+
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(store);
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
   }
 
   /**
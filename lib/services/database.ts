@@ -445,6 +445,7 @@ export const taskService = {
       .from('tasks')
       .select('status')
       .eq('user_id', userId)
+      .is('recurrence_rule', null)
       .gte('created_at', startDate.toISOString());
 
     if (error) throw error;
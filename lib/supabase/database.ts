@@ -131,6 +131,7 @@ export const taskService = {
       .from('tasks')
       .select('*')
       .eq('user_id', userId)
+      .is('recurrence_rule', null)
       .gte('due_date', startOfDay)
       .lte('due_date', endOfDay)
       .order('priority', { ascending: false });
@@ -176,6 +177,7 @@ export const taskService = {
       .from('tasks')
       .select('status')
       .eq('user_id', userId)
+      .is('recurrence_rule', null)
       .gte('created_at', startDate.toISOString());
 
     if (error || !data) return { completionRate: 0, error };
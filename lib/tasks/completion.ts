@@ -0,0 +1,93 @@
+// ===========================================
+// Task Completion - AI Schedule Assistant
+// タスク完了時に記録する実績時間と完了メタデータ
+// ===========================================
+
+import { DEFAULT_TIME_ZONE, minutesOfDayIn, weekdayIn } from '@/lib/schedule/timezone';
+import { getTrackedMinutes, TrackedTask } from './timeTracking';
+
+/**
+ * 完了処理に必要なタスクの列
+ */
+export interface CompletableTask extends TrackedTask {
+  estimated_minutes?: number | null;
+  postpone_count?: number | null;
+  scheduled_date?: string | null;
+  due_date?: string | null;
+}
+
+export interface CompletionOptions {
+  actualMinutes?: number;
+  estimatedMinutes?: number;
+  forceActualTime?: boolean; // 開始時刻からの自動計算をしない
+}
+
+/**
+ * 見積もりと実績の差の分類
+ */
+export function getAccuracyCategory(estimated: number, actual: number): string {
+  const ratio = estimated / actual;
+  if (ratio >= 0.9 && ratio <= 1.1) return 'accurate';
+  if (ratio > 1.1) return 'underestimated';
+  if (ratio < 0.9) return 'overestimated';
+  return 'unknown';
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * 完了した曜日・時（ユーザーのタイムゾーン、時間帯ごとの生産性の分析用）
+ */
+export function getCompletionTimeContext(
+  now: Date,
+  timeZone: string = DEFAULT_TIME_ZONE
+): { day_of_week: string; hour_of_day: number } {
+  return {
+    day_of_week: WEEKDAY_NAMES[weekdayIn(now, timeZone)],
+    hour_of_day: Math.floor(minutesOfDayIn(now, timeZone) / 60),
+  };
+}
+
+/**
+ * 完了にするときの更新内容（completed_at・実績時間・分析用の完了メタデータ）
+ */
+export function buildCompletionUpdate(
+  task: CompletableTask,
+  options: CompletionOptions = {},
+  now: Date = new Date(),
+  timeZone: string = DEFAULT_TIME_ZONE
+): Record<string, unknown> {
+  const update: Record<string, unknown> = {
+    completed_at: now.toISOString(),
+  };
+
+  // 実績時間が指定されていなければ作業セッションの合計から自動計算（一時停止中の時間は含めない）
+  const trackedMinutes = getTrackedMinutes(task, now);
+  if (options.actualMinutes === undefined && !options.forceActualTime && trackedMinutes !== undefined) {
+    update.actual_minutes = trackedMinutes;
+  }
+
+  const estimatedMinutes = options.estimatedMinutes ?? task.estimated_minutes;
+  const actualMinutes = options.actualMinutes ?? (update.actual_minutes as number | undefined);
+
+  update.completion_metadata = {
+    completed_at: now.toISOString(),
+    estimated_vs_actual: estimatedMinutes && actualMinutes ? {
+      estimated: estimatedMinutes,
+      actual: actualMinutes,
+      difference_minutes: actualMinutes - estimatedMinutes,
+      efficiency_ratio: Number((estimatedMinutes / actualMinutes).toFixed(2)),
+      accuracy_category: getAccuracyCategory(estimatedMinutes, actualMinutes)
+    } : null,
+    was_postponed: (task.postpone_count || 0) > 0,
+    postpone_count: task.postpone_count || 0,
+    completion_context: {
+      ...getCompletionTimeContext(now, timeZone),
+      was_scheduled: !!task.scheduled_date,
+      was_due: !!task.due_date,
+      overdue: task.due_date ? now > new Date(task.due_date) : false
+    }
+  };
+
+  return update;
+}
@@ -0,0 +1,419 @@
+// ===========================================
+// Task Hierarchy & Dependencies - AI Schedule Assistant
+// サブタスク階層と依存関係（循環検出・進捗の集計・ブロック判定）
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { BlockingTask, SubtaskSummary, TaskDependency } from '@/types/shared';
+
+/**
+ * 親子関係の最大段数
+ */
+export const MAX_HIERARCHY_DEPTH = 5;
+
+/**
+ * 1タスクあたりの前提タスクの上限
+ */
+export const MAX_DEPENDENCIES_PER_TASK = 20;
+
+/**
+ * 進捗の集計に必要なタスクの列
+ */
+export interface HierarchyNode {
+  id: string;
+  parent_task_id: string | null;
+  status: string;
+  estimated_minutes: number | null;
+  actual_minutes: number | null;
+}
+
+const HIERARCHY_COLUMNS = 'id, parent_task_id, status, estimated_minutes, actual_minutes';
+
+/**
+ * 前提タスクとして満たされた状態か（完了またはキャンセル）
+ */
+export function isResolvedStatus(status: string): boolean {
+  return status === 'completed' || status === 'cancelled';
+}
+
+/**
+ * 依存グラフで from の前提を辿って to に到達できるか
+ */
+export function hasDependencyPath(edges: TaskDependency[], from: string, to: string): boolean {
+  const prerequisites = new Map<string, string[]>();
+  for (const edge of edges) {
+    const list = prerequisites.get(edge.task_id) || [];
+    list.push(edge.depends_on_task_id);
+    prerequisites.set(edge.task_id, list);
+  }
+
+  const visited = new Set<string>();
+  const stack = [from];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === to) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...(prerequisites.get(id) || []));
+  }
+
+  return false;
+}
+
+/**
+ * taskId → dependsOnTaskId の依存を追加すると循環するか
+ */
+export function wouldCreateCycle(edges: TaskDependency[], taskId: string, dependsOnTaskId: string): boolean {
+  return taskId === dependsOnTaskId || hasDependencyPath(edges, dependsOnTaskId, taskId);
+}
+
+/**
+ * サブタスクの進捗と見積もりを親へ集計
+ * 孫以下も含め、キャンセルを除く末端のサブタスクを対象にする
+ */
+export function rollupSubtasks(nodes: HierarchyNode[]): Map<string, SubtaskSummary> {
+  const children = new Map<string, HierarchyNode[]>();
+  for (const node of nodes) {
+    if (!node.parent_task_id) continue;
+    const list = children.get(node.parent_task_id) || [];
+    list.push(node);
+    children.set(node.parent_task_id, list);
+  }
+
+  const result = new Map<string, SubtaskSummary>();
+
+  const summarize = (id: string, depth: number): SubtaskSummary | null => {
+    const kids = children.get(id);
+    if (!kids || depth > MAX_HIERARCHY_DEPTH) return null;
+
+    const summary: SubtaskSummary = { total: 0, completed: 0, progress: 0, estimated_minutes: 0, actual_minutes: 0 };
+    for (const child of kids) {
+      if (child.status === 'cancelled') continue;
+
+      const childSummary = result.get(child.id) ?? summarize(child.id, depth + 1);
+      if (childSummary && childSummary.total > 0) {
+        summary.total += childSummary.total;
+        summary.completed += childSummary.completed;
+        summary.estimated_minutes += childSummary.estimated_minutes;
+        summary.actual_minutes += childSummary.actual_minutes;
+      } else {
+        summary.total++;
+        if (child.status === 'completed') summary.completed++;
+        summary.estimated_minutes += child.estimated_minutes || 0;
+        summary.actual_minutes += child.actual_minutes || 0;
+      }
+    }
+
+    summary.progress = summary.total > 0 ? Math.round((summary.completed / summary.total) * 100) / 100 : 0;
+    result.set(id, summary);
+    return summary;
+  };
+
+  for (const parentId of children.keys()) {
+    if (!result.has(parentId)) summarize(parentId, 0);
+  }
+
+  return result;
+}
+
+/**
+ * 親タスクの指定を検証（存在・自己参照・循環・段数）
+ * @param taskId 既存タスクの付け替えの場合はそのID、新規作成なら null
+ */
+export async function validateParentTask(
+  supabase: SupabaseClient,
+  userId: string,
+  taskId: string | null,
+  parentTaskId: string
+): Promise<string[]> {
+  if (taskId === parentTaskId) {
+    return ['自分自身を親タスクにはできません'];
+  }
+
+  let currentId: string | null = parentTaskId;
+  let depth = 0;
+
+  while (currentId) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('id, parent_task_id, recurrence_rule')
+      .eq('id', currentId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data) {
+      return depth === 0 ? ['親タスクが見つかりません'] : [];
+    }
+
+    if (depth === 0 && data.recurrence_rule) {
+      return ['繰り返しシリーズは親タスクにできません'];
+    }
+
+    if (taskId && data.parent_task_id === taskId) {
+      return ['子孫のタスクを親タスクにはできません'];
+    }
+
+    depth++;
+    if (depth >= MAX_HIERARCHY_DEPTH) {
+      return [`サブタスクの階層は${MAX_HIERARCHY_DEPTH}段までです`];
+    }
+
+    currentId = data.parent_task_id as string | null;
+  }
+
+  return [];
+}
+
+/**
+ * ユーザーの依存関係をすべて取得
+ */
+export async function getDependencies(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<TaskDependency[]> {
+  const { data, error } = await supabase
+    .from('task_dependencies')
+    .select('task_id, depends_on_task_id')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return (data as TaskDependency[]) || [];
+}
+
+/**
+ * 依存関係の追加を検証（存在・重複・上限・循環）
+ */
+export async function validateDependency(
+  supabase: SupabaseClient,
+  userId: string,
+  taskId: string,
+  dependsOnTaskId: string
+): Promise<string[]> {
+  if (taskId === dependsOnTaskId) {
+    return ['自分自身を前提タスクにはできません'];
+  }
+
+  const { data: prerequisite, error } = await supabase
+    .from('tasks')
+    .select('id')
+    .eq('id', dependsOnTaskId)
+    .eq('user_id', userId)
+    .is('recurrence_rule', null)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!prerequisite) {
+    return ['前提タスクが見つかりません'];
+  }
+
+  const edges = await getDependencies(supabase, userId);
+
+  if (edges.some(edge => edge.task_id === taskId && edge.depends_on_task_id === dependsOnTaskId)) {
+    return ['この依存関係は既に登録されています'];
+  }
+
+  if (edges.filter(edge => edge.task_id === taskId).length >= MAX_DEPENDENCIES_PER_TASK) {
+    return [`前提タスクは${MAX_DEPENDENCIES_PER_TASK}件までです`];
+  }
+
+  if (wouldCreateCycle(edges, taskId, dependsOnTaskId)) {
+    return ['循環する依存関係になるため追加できません'];
+  }
+
+  return [];
+}
+
+interface PrerequisiteRow {
+  task_id: string;
+  prerequisite: {
+    id: string;
+    title: string;
+    status: BlockingTask['status'];
+    scheduled_date: string | null;
+    estimated_minutes: number | null;
+  } | null;
+}
+
+/**
+ * 指定タスクの未完了の前提タスクを取得
+ */
+async function getUnresolvedPrerequisites(
+  supabase: SupabaseClient,
+  userId: string,
+  taskIds: string[]
+): Promise<PrerequisiteRow[]> {
+  if (taskIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('task_dependencies')
+    .select(`
+      task_id,
+      prerequisite:depends_on_task_id(
+        id,
+        title,
+        status,
+        scheduled_date,
+        estimated_minutes
+      )
+    `)
+    .eq('user_id', userId)
+    .in('task_id', taskIds);
+
+  if (error) throw error;
+
+  return ((data || []) as unknown as PrerequisiteRow[])
+    .filter(row => row.prerequisite && !isResolvedStatus(row.prerequisite.status));
+}
+
+/**
+ * タスクごとのブロック原因（未完了の前提タスク）
+ */
+export async function getBlockingTasks(
+  supabase: SupabaseClient,
+  userId: string,
+  taskIds: string[]
+): Promise<Map<string, BlockingTask[]>> {
+  const blocking = new Map<string, BlockingTask[]>();
+
+  for (const row of await getUnresolvedPrerequisites(supabase, userId, taskIds)) {
+    const list = blocking.get(row.task_id) || [];
+    list.push({ id: row.prerequisite!.id, title: row.prerequisite!.title, status: row.prerequisite!.status });
+    blocking.set(row.task_id, list);
+  }
+
+  return blocking;
+}
+
+/**
+ * 自動スケジューリング用の制約
+ * blockedBy: タスクごとの未完了の前提タスクID
+ * prerequisiteEnds: 既に配置済みの前提タスクの終了予定時刻
+ */
+export async function getSchedulingConstraints(
+  supabase: SupabaseClient,
+  userId: string,
+  taskIds: string[],
+  defaultMinutes: number
+): Promise<{ blockedBy: Record<string, string[]>; prerequisiteEnds: Record<string, string> }> {
+  const blockedBy: Record<string, string[]> = {};
+  const prerequisiteEnds: Record<string, string> = {};
+
+  for (const row of await getUnresolvedPrerequisites(supabase, userId, taskIds)) {
+    const prerequisite = row.prerequisite!;
+    if (!blockedBy[row.task_id]) blockedBy[row.task_id] = [];
+    blockedBy[row.task_id].push(prerequisite.id);
+
+    if (prerequisite.scheduled_date) {
+      const start = new Date(prerequisite.scheduled_date);
+      const minutes = prerequisite.estimated_minutes || defaultMinutes;
+      prerequisiteEnds[prerequisite.id] = new Date(start.getTime() + minutes * 60 * 1000).toISOString();
+    }
+  }
+
+  return { blockedBy, prerequisiteEnds };
+}
+
+/**
+ * サブタスクを持つ親タスクのID（キャンセル済みのサブタスクのみの場合は除く）
+ * 親タスクは入れ物として扱い、自動スケジューリングの対象から外す
+ */
+export async function getParentTaskIds(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('parent_task_id')
+    .eq('user_id', userId)
+    .neq('status', 'cancelled')
+    .not('parent_task_id', 'is', null);
+
+  if (error) throw error;
+  return new Set((data || []).map(row => row.parent_task_id as string));
+}
+
+/**
+ * タスク一覧にブロック状態とサブタスクの集計を付与
+ */
+export async function annotateTaskRelations<T extends { id: string }>(
+  supabase: SupabaseClient,
+  userId: string,
+  tasks: T[]
+): Promise<(T & { blocked_by: BlockingTask[]; subtask_summary: SubtaskSummary | null })[]> {
+  if (tasks.length === 0) return [];
+
+  const blocking = await getBlockingTasks(supabase, userId, tasks.map(task => task.id));
+
+  const { data: nodes, error } = await supabase
+    .from('tasks')
+    .select(HIERARCHY_COLUMNS)
+    .eq('user_id', userId)
+    .not('parent_task_id', 'is', null);
+
+  if (error) throw error;
+
+  const summaries = rollupSubtasks((nodes as HierarchyNode[]) || []);
+
+  return tasks.map(task => ({
+    ...task,
+    blocked_by: blocking.get(task.id) || [],
+    subtask_summary: summaries.get(task.id) ?? null,
+  }));
+}
+
+/**
+ * サブタスクがすべて完了したら親タスクも完了にする（祖先へ順に伝播）
+ * @returns 完了にした親タスクのID
+ */
+export async function completeParentsIfDone(
+  supabase: SupabaseClient,
+  userId: string,
+  parentTaskId: string | null | undefined
+): Promise<string[]> {
+  const completed: string[] = [];
+  let currentId = parentTaskId ?? null;
+
+  for (let depth = 0; currentId && depth < MAX_HIERARCHY_DEPTH; depth++) {
+    const { data: subtasks, error: subtasksError } = await supabase
+      .from('tasks')
+      .select('status, actual_minutes')
+      .eq('user_id', userId)
+      .eq('parent_task_id', currentId);
+
+    if (subtasksError) throw subtasksError;
+
+    const active = (subtasks || []).filter(subtask => subtask.status !== 'cancelled');
+    if (active.length === 0 || active.some(subtask => subtask.status !== 'completed')) break;
+
+    const { data: parent, error: parentError } = await supabase
+      .from('tasks')
+      .select('id, status, parent_task_id')
+      .eq('id', currentId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (parentError) throw parentError;
+    if (!parent || isResolvedStatus(parent.status)) break;
+
+    const now = new Date().toISOString();
+    const { error: updateError } = await supabase
+      .from('tasks')
+      .update({
+        status: 'completed',
+        completed_at: now,
+        actual_minutes: active.reduce((sum, subtask) => sum + (subtask.actual_minutes || 0), 0),
+        updated_at: now,
+      })
+      .eq('id', parent.id);
+
+    if (updateError) throw updateError;
+
+    completed.push(parent.id);
+    currentId = parent.parent_task_id as string | null;
+  }
+
+  return completed;
+}
@@ -0,0 +1,352 @@
+// ===========================================
+// Estimation Model - AI Schedule Assistant
+// 完了タスクの見積もりと実績の差から、ユーザーごとに見積時間の補正を学習する（LLMは使わない）
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * 学習に使う完了タスク
+ */
+export interface EstimationSample {
+  title: string;
+  category: string | null;
+  priority: string | null;
+  estimated_minutes: number;
+  actual_minutes: number;
+  completed_at: string | null;
+}
+
+/**
+ * 補正したいタスク
+ */
+export interface EstimationInput {
+  title: string;
+  category?: string | null;
+  priority?: string | null;
+  estimated_minutes?: number | null;
+}
+
+/**
+ * 特徴（カテゴリ・優先度・キーワード）ごとの補正量
+ */
+interface FeatureEffect {
+  effect: number;  // log(実績 / 見積もり) への寄与
+  weight: number;  // 新しい実績ほど重い（半減期つき）重みの合計
+  count: number;
+}
+
+export interface EstimationModel {
+  sampleCount: number;
+  trainedAt: string;
+  totalWeight: number;
+  intercept: number;         // 全体の log(実績 / 見積もり)
+  residualVariance: number;  // 補正しても残るばらつき
+  categories: Record<string, FeatureEffect>;
+  priorities: Record<string, FeatureEffect>;
+  keywords: Record<string, FeatureEffect>;
+  durations: {
+    global: number; // log(実績) の平均（見積もりがないときの提案用）
+    categories: Record<string, number>;
+  };
+}
+
+export type EstimateConfidenceLevel = 'none' | 'low' | 'medium' | 'high';
+
+export interface EstimatePrediction {
+  originalMinutes: number | null;
+  suggestedMinutes: number | null;
+  factor: number;          // 実績 / 見積もり の予測（1.5なら見積もりの1.5倍かかる）
+  confidence: number;      // 0〜1
+  confidenceLevel: EstimateConfidenceLevel;
+  sampleCount: number;     // 学習に使った完了タスクの数
+  basis: string[];         // 補正の根拠（表示用）
+}
+
+export const ESTIMATION_CONFIG = {
+  maxSamples: 500,            // 学習に使う直近の完了タスク数
+  halfLifeDays: 90,           // 実績の重みが半分になる日数
+  priorWeight: 3,             // 実績が少ない特徴の補正を弱める（擬似サンプル数）
+  minKeywordSamples: 3,       // キーワードとして使う最小出現数
+  minRatio: 0.2,              // 外れ値として丸める 実績 / 見積もり の範囲
+  maxRatio: 5,
+  roundingMinutes: 5,
+  applyConfidence: 0.4,       // スケジューラが補正後の見積もりを使う最小の信頼度
+  fittingIterations: 20,
+} as const;
+
+const MINUTE_LIMITS = { min: 5, max: 960 };
+
+// タイトルに頻出するが所要時間と関係のない語
+const STOP_WORDS = new Set(['the', 'and', 'for', 'to', 'of', 'a', 'an', 'on', 'in', 'with']);
+
+const FEATURE_PREFIX = { category: 'c:', priority: 'p:', keyword: 'k:' } as const;
+
+/**
+ * タイトルからキーワードを抽出（英数字は単語、漢字・カタカナは2文字ずつ）
+ */
+export function extractKeywords(title: string): string[] {
+  const normalized = title.normalize('NFKC').toLowerCase();
+  const keywords = new Set<string>();
+
+  for (const word of normalized.match(/[a-z0-9]+/g) || []) {
+    if (word.length >= 2 && !STOP_WORDS.has(word) && !/^\d+$/.test(word)) {
+      keywords.add(word);
+    }
+  }
+
+  for (const run of normalized.match(/[\u4E00-\u9FFF\u30A0-\u30FF]{2,}/g) || []) {
+    for (let i = 0; i < run.length - 1; i++) {
+      keywords.add(run.slice(i, i + 2));
+    }
+  }
+
+  return [...keywords];
+}
+
+/**
+ * カテゴリ名やキーワードが constructor などでもプロトタイプを拾わないように引く
+ */
+function lookup<T>(record: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+}
+
+function featuresOf(input: { title: string; category?: string | null; priority?: string | null }): string[] {
+  return [
+    ...(input.category ? [FEATURE_PREFIX.category + input.category] : []),
+    ...(input.priority ? [FEATURE_PREFIX.priority + input.priority] : []),
+    ...extractKeywords(input.title).map(keyword => FEATURE_PREFIX.keyword + keyword),
+  ];
+}
+
+/**
+ * 完了タスクから補正モデルを学習
+ * log(実績 / 見積もり) = 全体 + カテゴリ + 優先度 + キーワード の加法モデルを、特徴ごとに
+ * 他の特徴で説明しきれない残りだけを当てはめて求める（backfitting）。
+ * 同じカテゴリのタスクが同じキーワードを含むように特徴が重なっても、補正を重ねて数えない
+ */
+export function trainEstimationModel(samples: EstimationSample[], now: Date = new Date()): EstimationModel {
+  const rows = samples
+    .filter(sample => sample.estimated_minutes > 0 && sample.actual_minutes > 0)
+    .map(sample => {
+      const ratio = Math.min(
+        ESTIMATION_CONFIG.maxRatio,
+        Math.max(ESTIMATION_CONFIG.minRatio, sample.actual_minutes / sample.estimated_minutes)
+      );
+      const ageDays = sample.completed_at
+        ? Math.max(0, (now.getTime() - new Date(sample.completed_at).getTime()) / (24 * 60 * 60 * 1000))
+        : 0;
+
+      return {
+        target: Math.log(ratio),
+        logActual: Math.log(sample.actual_minutes),
+        weight: Math.pow(0.5, ageDays / ESTIMATION_CONFIG.halfLifeDays),
+        category: sample.category,
+        features: featuresOf(sample),
+      };
+    });
+
+  // 特徴ごとの重み・出現数・出現したサンプル
+  const features = new Map<string, { weight: number; count: number; rows: number[] }>();
+  rows.forEach((row, index) => {
+    for (const feature of row.features) {
+      const stats = features.get(feature) || { weight: 0, count: 0, rows: [] };
+      stats.weight += row.weight;
+      stats.count++;
+      stats.rows.push(index);
+      features.set(feature, stats);
+    }
+  });
+
+  // 出現の少ないキーワードは当てにならないため使わない
+  for (const [feature, stats] of features) {
+    if (feature.startsWith(FEATURE_PREFIX.keyword) && stats.count < ESTIMATION_CONFIG.minKeywordSamples) {
+      features.delete(feature);
+    }
+  }
+
+  const totalWeight = rows.reduce((sum, row) => sum + row.weight, 0);
+  const effects = new Map<string, number>();
+  const fitted = rows.map(() => 0);
+  let intercept = 0;
+
+  for (let iteration = 0; iteration < ESTIMATION_CONFIG.fittingIterations; iteration++) {
+    // 全体の傾向も、実績が少ないうちは「補正なし」に寄せる
+    const interceptResidual = rows.reduce(
+      (sum, row, index) => sum + row.weight * (row.target - fitted[index] + intercept),
+      0
+    );
+    const nextIntercept = interceptResidual / (totalWeight + ESTIMATION_CONFIG.priorWeight);
+    fitted.forEach((_, index) => { fitted[index] += nextIntercept - intercept; });
+    intercept = nextIntercept;
+
+    for (const [feature, stats] of features) {
+      const current = effects.get(feature) || 0;
+      const residual = stats.rows.reduce(
+        (sum, index) => sum + rows[index].weight * (rows[index].target - fitted[index] + current),
+        0
+      );
+      const next = residual / (stats.weight + ESTIMATION_CONFIG.priorWeight);
+      for (const index of stats.rows) fitted[index] += next - current;
+      effects.set(feature, next);
+    }
+  }
+
+  const globalDuration = totalWeight > 0
+    ? rows.reduce((sum, row) => sum + row.weight * row.logActual, 0) / totalWeight
+    : 0;
+
+  const model: EstimationModel = {
+    sampleCount: rows.length,
+    trainedAt: now.toISOString(),
+    totalWeight,
+    intercept,
+    residualVariance: totalWeight > 0
+      ? rows.reduce((sum, row, index) => sum + row.weight * Math.pow(row.target - fitted[index], 2), 0) / totalWeight
+      : 0,
+    categories: {},
+    priorities: {},
+    keywords: {},
+    durations: { global: globalDuration, categories: {} },
+  };
+
+  for (const [feature, stats] of features) {
+    const effect = { effect: effects.get(feature) || 0, weight: stats.weight, count: stats.count };
+    const name = feature.slice(FEATURE_PREFIX.category.length);
+
+    if (feature.startsWith(FEATURE_PREFIX.category)) {
+      model.categories[name] = effect;
+      // カテゴリの実績時間（件数が少なければ全体の平均に寄せる）
+      const logSum = stats.rows.reduce((sum, index) => sum + rows[index].weight * rows[index].logActual, 0);
+      model.durations.categories[name] =
+        (logSum + ESTIMATION_CONFIG.priorWeight * globalDuration) / (stats.weight + ESTIMATION_CONFIG.priorWeight);
+    } else if (feature.startsWith(FEATURE_PREFIX.priority)) {
+      model.priorities[name] = effect;
+    } else {
+      model.keywords[name] = effect;
+    }
+  }
+
+  return model;
+}
+
+function roundMinutes(minutes: number): number {
+  const rounded = Math.round(minutes / ESTIMATION_CONFIG.roundingMinutes) * ESTIMATION_CONFIG.roundingMinutes;
+  return Math.min(MINUTE_LIMITS.max, Math.max(MINUTE_LIMITS.min, rounded));
+}
+
+function formatFactor(logEffect: number): string {
+  return `×${Math.exp(logEffect).toFixed(2)}`;
+}
+
+/**
+ * タスクの見積時間の補正案
+ */
+export function predictEstimate(model: EstimationModel, input: EstimationInput): EstimatePrediction {
+  const originalMinutes = input.estimated_minutes && input.estimated_minutes > 0 ? input.estimated_minutes : null;
+
+  if (model.sampleCount === 0) {
+    return {
+      originalMinutes,
+      suggestedMinutes: null,
+      factor: 1,
+      confidence: 0,
+      confidenceLevel: 'none',
+      sampleCount: 0,
+      basis: [],
+    };
+  }
+
+  const basis: string[] = [`全体: 実績は見積もりの${Math.exp(model.intercept).toFixed(2)}倍（${model.sampleCount}件）`];
+  let logFactor = model.intercept;
+  let matchedWeight = 0;
+
+  const category = input.category ? lookup(model.categories, input.category) : undefined;
+  if (category) {
+    logFactor += category.effect;
+    matchedWeight = Math.max(matchedWeight, category.weight);
+    basis.push(`カテゴリ「${input.category}」: ${formatFactor(category.effect)}（${category.count}件）`);
+  }
+
+  const priority = input.priority ? lookup(model.priorities, input.priority) : undefined;
+  if (priority) {
+    logFactor += priority.effect;
+    basis.push(`優先度「${input.priority}」: ${formatFactor(priority.effect)}（${priority.count}件）`);
+  }
+
+  const keywords = extractKeywords(input.title)
+    .map(keyword => ({ keyword, feature: lookup(model.keywords, keyword) }))
+    .filter((match): match is { keyword: string; feature: FeatureEffect } => !!match.feature);
+  if (keywords.length > 0) {
+    const keywordEffect = keywords.reduce((sum, { feature }) => sum + feature.effect, 0);
+    logFactor += keywordEffect;
+    matchedWeight = Math.max(matchedWeight, ...keywords.map(({ feature }) => feature.weight));
+    basis.push(`キーワード「${keywords.map(({ keyword }) => keyword).join('・')}」: ${formatFactor(keywordEffect)}`);
+  }
+
+  const factor = Math.min(ESTIMATION_CONFIG.maxRatio, Math.max(ESTIMATION_CONFIG.minRatio, Math.exp(logFactor)));
+  const durationLog = (input.category ? lookup(model.durations.categories, input.category) : undefined)
+    ?? model.durations.global;
+  const suggestedMinutes = originalMinutes
+    ? roundMinutes(originalMinutes * factor)
+    : roundMinutes(Math.exp(durationLog)); // 見積もりがなければ似たタスクの実績時間
+
+  // 信頼度: 根拠の量（一致した特徴があればその量）と、補正しても残るばらつきの小ささ
+  const evidence = Math.max(model.totalWeight / 4, matchedWeight);
+  const confidence = Math.round(
+    (evidence / (evidence + ESTIMATION_CONFIG.priorWeight)) * (1 / (1 + Math.sqrt(model.residualVariance))) * 100
+  ) / 100;
+
+  return {
+    originalMinutes,
+    suggestedMinutes,
+    factor: Math.round(factor * 100) / 100,
+    confidence,
+    confidenceLevel: confidence >= 0.6 ? 'high' : confidence >= ESTIMATION_CONFIG.applyConfidence ? 'medium' : 'low',
+    sampleCount: model.sampleCount,
+    basis,
+  };
+}
+
+/**
+ * 信頼できる補正案があれば補正後の見積時間、なければ元の見積時間（スケジューラ用）
+ */
+export function correctedEstimate(model: EstimationModel, input: EstimationInput): number | null {
+  const prediction = predictEstimate(model, input);
+  if (prediction.suggestedMinutes === null || prediction.confidence < ESTIMATION_CONFIG.applyConfidence) {
+    return prediction.originalMinutes;
+  }
+  return prediction.suggestedMinutes;
+}
+
+/**
+ * モデル全体の傾向（AIへの情報提供・表示用）
+ */
+export function summarizeEstimationModel(model: EstimationModel): {
+  factor: number;
+  confidence: number;
+  sampleCount: number;
+  trainedAt: string;
+} {
+  const { factor, confidence } = predictEstimate(model, { title: '' });
+  return { factor, confidence, sampleCount: model.sampleCount, trainedAt: model.trainedAt };
+}
+
+/**
+ * ユーザーの直近の完了タスクから補正モデルを学習
+ */
+export async function loadEstimationModel(supabase: SupabaseClient, userId: string): Promise<EstimationModel> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('title, category, priority, estimated_minutes, actual_minutes, completed_at')
+    .eq('user_id', userId)
+    .eq('status', 'completed')
+    .gt('estimated_minutes', 0)
+    .gt('actual_minutes', 0)
+    .order('completed_at', { ascending: false })
+    .limit(ESTIMATION_CONFIG.maxSamples);
+
+  if (error) throw error;
+
+  return trainEstimationModel((data || []) as EstimationSample[]);
+}
@@ -0,0 +1,326 @@
+// ===========================================
+// Task Query - AI Schedule Assistant
+// タスクの検索式（「status:pending priority:high due:<7d category:営業 -tag:later」）を解析し、
+// Supabaseのフィルターと並び順に変換する
+// ===========================================
+
+import { TaskPriority, TaskStatus } from '@/types/shared';
+import { ValidationError } from '@/lib/errors';
+import { DEFAULT_TIME_ZONE, addDaysToDateKey, dayRangeIn, parseDateKey, toDateKeyIn } from '@/lib/schedule/timezone';
+
+/**
+ * query.filter(column, operator, value) で適用する条件
+ */
+export interface TaskQueryFilter {
+  column: string;
+  operator: string;
+  value: string;
+}
+
+export interface TaskQuerySort {
+  column: string;
+  ascending: boolean;
+}
+
+/**
+ * 解析済みの検索式（filters と orFilters はすべて AND で組み合わせる）
+ */
+export interface TaskQuery {
+  filters: TaskQueryFilter[];
+  orFilters: string[];      // query.or(...) で適用する条件（1件の中はいずれかに一致）
+  sort: TaskQuerySort[];
+}
+
+export interface TaskQueryOptions {
+  now?: Date;
+  timeZone?: string;        // today・日付の範囲を決めるタイムゾーン
+}
+
+export const MAX_TASK_QUERY_LENGTH = 500;
+export const MAX_TAG_LENGTH = 50;
+export const MAX_TAGS_PER_TASK = 20;
+export const MAX_TASK_VIEWS = 20;              // 1ユーザーが保存できるビューの数
+export const MAX_TASK_VIEW_NAME_LENGTH = 50;
+
+const MAX_TERMS = 20;
+const HOUR_MS = 60 * 60 * 1000;
+
+const STATUS_ALIASES: Record<string, TaskStatus[]> = {
+  pending: ['pending'],
+  in_progress: ['in_progress'],
+  completed: ['completed'],
+  cancelled: ['cancelled'],
+  open: ['pending', 'in_progress'],   // 未完了
+  done: ['completed'],
+};
+
+const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+  high: 'high', 高: 'high',
+  medium: 'medium', 中: 'medium',
+  low: 'low', 低: 'low',
+};
+
+const DATE_COLUMNS: Record<string, string> = {
+  due: 'due_date',
+  scheduled: 'scheduled_date',
+  created: 'created_at',
+  completed: 'completed_at',
+};
+
+/**
+ * sort: で指定できる項目（priority は高い順、それ以外は昇順が既定。先頭の - で逆順）
+ */
+const SORT_KEYS: Record<string, { column: string; ascending: boolean }> = {
+  due: { column: 'due_date', ascending: true },
+  scheduled: { column: 'scheduled_date', ascending: true },
+  created: { column: 'created_at', ascending: true },
+  updated: { column: 'updated_at', ascending: true },
+  completed: { column: 'completed_at', ascending: true },
+  priority: { column: 'priority_rank', ascending: false },
+  title: { column: 'title', ascending: true },
+  estimate: { column: 'estimated_minutes', ascending: true },
+};
+
+const FIELDS = ['status', 'priority', 'category', 'tag', ...Object.keys(DATE_COLUMNS), 'estimate', 'sort'];
+
+type Comparison = { op: 'lt' | 'lte' | 'gt' | 'gte' | 'eq'; value: string };
+
+const INVERSE_OPERATORS: Record<Comparison['op'], string> = {
+  lt: 'gte',
+  lte: 'gt',
+  gt: 'lte',
+  gte: 'lt',
+  eq: 'neq',
+};
+
+// -field:"値" / field:値 / "語句" / 語句
+const TERM_PATTERN = /(-?)(?:([a-z_]+):)?(?:"((?:[^"\\]|\\.)*)"|(\S+))/gi;
+const COMPARISON_PATTERN = /^(<=|>=|<|>)?(.+)$/;
+const RELATIVE_PATTERN = /^([+-]?\d{1,4})([hdw])$/i;
+
+/**
+ * タグの正規化（前後の空白と先頭の # を除き小文字に）。不正な値は null
+ */
+export function normalizeTag(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const tag = value.trim().replace(/^#/, '').normalize('NFKC').toLowerCase();
+  if (!tag || tag.length > MAX_TAG_LENGTH || /[\s,"{}\\]/.test(tag)) return null;
+  return tag;
+}
+
+/**
+ * タスクのタグ（配列またはカンマ区切りの文字列）を正規化。不正な値を含む場合は null
+ */
+export function normalizeTaskTags(value: unknown): string[] | null {
+  const items = typeof value === 'string' ? value.split(',').filter(item => item.trim()) : value;
+  if (!Array.isArray(items) || items.length > MAX_TAGS_PER_TASK) return null;
+
+  const tags = items.map(normalizeTag);
+  if (tags.some(tag => tag === null)) return null;
+  return Array.from(new Set(tags as string[]));
+}
+
+/**
+ * 検索式を解析（区切りは空白、"..." で空白を含む値、先頭の - で除外、フィールドの無い語はタイトル・説明の部分一致）
+ *
+ * - status:pending,in_progress（open = 未完了、done = 完了）/ priority:high / category:営業 / tag:later
+ * - due・scheduled・created・completed: today, tomorrow, yesterday, YYYY-MM-DD（その日）、7d・-3d・2w・12h（今から）、
+ *   none（未設定）、overdue（今より前）。<, <=, >, >= を前に付けて比較（due:<7d = 7日後より前）
+ * - estimate:<30（見積時間・分）
+ * - sort:priority,-due（複数指定可、- で逆順）
+ */
+export function parseTaskQuery(input: string, options: TaskQueryOptions = {}): TaskQuery {
+  const now = options.now ?? new Date();
+  const timeZone = options.timeZone ?? DEFAULT_TIME_ZONE;
+  const result: TaskQuery = { filters: [], orFilters: [], sort: [] };
+
+  if (input.length > MAX_TASK_QUERY_LENGTH) {
+    throw new ValidationError(`検索式は${MAX_TASK_QUERY_LENGTH}文字以内で指定してください`);
+  }
+
+  const terms = Array.from(input.matchAll(TERM_PATTERN));
+  if (terms.length > MAX_TERMS) {
+    throw new ValidationError(`検索式の条件は${MAX_TERMS}個までです`);
+  }
+
+  for (const [term, minus, rawField, quoted, bare] of terms) {
+    const negate = minus === '-';
+    const value = quoted !== undefined ? quoted.replace(/\\(.)/g, '$1') : bare;
+    const values = quoted !== undefined ? [value] : value.split(',').filter(Boolean);
+    const field = rawField?.toLowerCase();
+
+    if (!field) {
+      applyText(result, value, negate);
+      continue;
+    }
+    if (!FIELDS.includes(field)) {
+      throw new ValidationError(`検索式の項目「${rawField}」は使えません（${FIELDS.join(', ')}）`);
+    }
+    if (values.length === 0) {
+      throw new ValidationError(`「${term}」の値を指定してください`);
+    }
+
+    switch (field) {
+      case 'status': {
+        const statuses = values.flatMap(item => {
+          const mapped = STATUS_ALIASES[item.toLowerCase()];
+          if (!mapped) throw new ValidationError(`status は ${Object.keys(STATUS_ALIASES).join(', ')} のいずれかで指定してください`);
+          return mapped;
+        });
+        result.filters.push({ column: 'status', operator: negate ? 'not.in' : 'in', value: inList(statuses) });
+        break;
+      }
+      case 'priority': {
+        const priorities = values.map(item => {
+          const mapped = PRIORITY_ALIASES[item.toLowerCase()];
+          if (!mapped) throw new ValidationError('priority は high, medium, low のいずれかで指定してください');
+          return mapped;
+        });
+        result.filters.push({ column: 'priority', operator: negate ? 'not.in' : 'in', value: inList(priorities) });
+        break;
+      }
+      case 'category':
+        if (negate) {
+          result.orFilters.push(`category.is.null,category.not.in.${inList(values)}`);
+        } else {
+          result.filters.push({ column: 'category', operator: 'in', value: inList(values) });
+        }
+        break;
+      case 'tag': {
+        const tags = values.map(item => {
+          const tag = normalizeTag(item);
+          if (!tag) throw new ValidationError(`タグ「${item}」が正しくありません`);
+          return tag;
+        });
+        result.filters.push({ column: 'tags', operator: negate ? 'not.ov' : 'ov', value: arrayLiteral(tags) });
+        break;
+      }
+      case 'estimate':
+        applyComparisons(result, 'estimated_minutes', parseEstimate(value), negate);
+        break;
+      case 'sort':
+        if (negate) throw new ValidationError('sort の前に - は付けられません（逆順は sort:-due のように指定）');
+        result.sort.push(...parseTaskSort(value));
+        break;
+      default:
+        applyComparisons(result, DATE_COLUMNS[field], parseDateCondition(field, value, now, timeZone), negate);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 並び順（"priority,-due"）を解析
+ */
+export function parseTaskSort(value: string): TaskQuerySort[] {
+  return value.split(',').filter(Boolean).map(item => {
+    const descending = item.startsWith('-');
+    const key = SORT_KEYS[item.replace(/^-/, '').toLowerCase()];
+    if (!key) {
+      throw new ValidationError(`並び順は ${Object.keys(SORT_KEYS).join(', ')} のいずれかで指定してください`);
+    }
+    return { column: key.column, ascending: descending ? !key.ascending : key.ascending };
+  });
+}
+
+function applyText(result: TaskQuery, text: string, negate: boolean): void {
+  const pattern = `%${text}%`;
+  if (negate) {
+    result.filters.push({ column: 'title', operator: 'not.ilike', value: pattern });
+    result.orFilters.push(`description.is.null,description.not.ilike.${quote(pattern)}`);
+  } else {
+    result.orFilters.push(`title.ilike.${quote(pattern)},description.ilike.${quote(pattern)}`);
+  }
+}
+
+/**
+ * 比較条件（null は未設定）を追加。除外の場合は「いずれかの比較に当てはまらない」
+ */
+function applyComparisons(result: TaskQuery, column: string, comparisons: Comparison[] | null, negate: boolean): void {
+  if (comparisons === null) {
+    result.filters.push({ column, operator: negate ? 'not.is' : 'is', value: 'null' });
+  } else if (!negate) {
+    result.filters.push(...comparisons.map(({ op, value }) => ({ column, operator: op, value })));
+  } else {
+    // 除外では値の無いタスクも残す（-category: と同じ）
+    result.orFilters.push([
+      `${column}.is.null`,
+      ...comparisons.map(({ op, value }) => `${column}.${INVERSE_OPERATORS[op]}.${value}`),
+    ].join(','));
+  }
+}
+
+function parseDateCondition(field: string, value: string, now: Date, timeZone: string): Comparison[] | null {
+  const lower = value.toLowerCase();
+  if (lower === 'none') return null;
+  if (lower === 'overdue') return [{ op: 'lt', value: now.toISOString() }];
+
+  const [, operator, target] = COMPARISON_PATTERN.exec(lower)!;
+  const today = toDateKeyIn(now, timeZone);
+  const dayKey = ({ today, tomorrow: addDaysToDateKey(today, 1), yesterday: addDaysToDateKey(today, -1) } as Record<string, string>)[target]
+    ?? (parseDateKey(target) ? target : null);
+
+  // その日（ユーザーのタイムゾーン）
+  if (dayKey) {
+    const { start, end } = dayRangeIn(dayKey, timeZone);
+    switch (operator) {
+      case '<': return [{ op: 'lt', value: start.toISOString() }];
+      case '<=': return [{ op: 'lt', value: end.toISOString() }];
+      case '>': return [{ op: 'gte', value: end.toISOString() }];
+      case '>=': return [{ op: 'gte', value: start.toISOString() }];
+      default: return [{ op: 'gte', value: start.toISOString() }, { op: 'lt', value: end.toISOString() }];
+    }
+  }
+
+  // 今からの相対時間
+  const relative = RELATIVE_PATTERN.exec(target);
+  if (relative) {
+    const amount = Number(relative[1]);
+    const unitHours = { h: 1, d: 24, w: 24 * 7 }[relative[2].toLowerCase() as 'h' | 'd' | 'w'];
+    const instant = new Date(now.getTime() + amount * unitHours * HOUR_MS).toISOString();
+    switch (operator) {
+      case '<': return [{ op: 'lt', value: instant }];
+      case '<=': return [{ op: 'lte', value: instant }];
+      case '>': return [{ op: 'gt', value: instant }];
+      case '>=': return [{ op: 'gte', value: instant }];
+      default:
+        // 演算子なしは今からその時点まで（due:7d = 今から7日以内、created:-3d = 過去3日以内）
+        return amount >= 0
+          ? [{ op: 'gte', value: now.toISOString() }, { op: 'lt', value: instant }]
+          : [{ op: 'gte', value: instant }, { op: 'lt', value: now.toISOString() }];
+    }
+  }
+
+  throw new ValidationError(
+    `${field} は today, tomorrow, yesterday, YYYY-MM-DD, 7d のような相対時間, none, overdue で指定してください（例: ${field}:<7d）`
+  );
+}
+
+function parseEstimate(value: string): Comparison[] | null {
+  if (value.toLowerCase() === 'none') return null;
+
+  const [, operator, target] = COMPARISON_PATTERN.exec(value)!;
+  const minutes = /^\d{1,5}$/.test(target) ? target : null;
+  if (!minutes) {
+    throw new ValidationError('estimate は分単位の数値で指定してください（例: estimate:<30）');
+  }
+
+  const op = ({ '<': 'lt', '<=': 'lte', '>': 'gt', '>=': 'gte' } as Record<string, Comparison['op']>)[operator] ?? 'eq';
+  return [{ op, value: minutes }];
+}
+
+/**
+ * PostgRESTの値の引用（カンマ・括弧などを含む値用）
+ */
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function inList(values: string[]): string {
+  return `(${Array.from(new Set(values)).map(quote).join(',')})`;
+}
+
+function arrayLiteral(values: string[]): string {
+  return `{${Array.from(new Set(values)).map(quote).join(',')}}`;
+}
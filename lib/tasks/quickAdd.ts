@@ -0,0 +1,563 @@
+// ===========================================
+// Quick Add Parser - AI Schedule Assistant
+// 1行の入力（「明日15時までに見積書を送る 30分 #営業 !high」）をタスク・予定の項目に分解する（ルールベース・純粋関数）
+// ===========================================
+
+import { TaskPriority } from '@/types/shared';
+import { DEFAULT_TIME_ZONE, fromWallClock, toDateKeyIn, wallClockIn, weekdayIn } from '@/lib/schedule/timezone';
+
+export const QuickAddKind = {
+  TASK: 'task',
+  EVENT: 'event',
+} as const;
+
+export type QuickAddKind = typeof QuickAddKind[keyof typeof QuickAddKind];
+
+export type QuickAddField = 'priority' | 'category' | 'estimatedMinutes' | 'dueDate' | 'scheduledDate' | 'event';
+
+/**
+ * 解析結果（タスク作成APIの CreateTaskRequest と同じ項目名）
+ */
+export interface QuickAddResult {
+  kind: QuickAddKind;           // 時間帯（「10時-11時」）の指定があれば予定
+  title: string;
+  priority: TaskPriority | null;
+  category: string | null;
+  estimatedMinutes: number | null;
+  dueDate: string | null;
+  scheduledDate: string | null;
+  startTime: string | null;     // 予定の開始・終了
+  endTime: string | null;
+  recognized: { field: QuickAddField; text: string }[];
+  ambiguities: string[];        // 解釈に自信がない点（AIでの補完の対象）
+}
+
+/**
+ * AIに解釈させた結果（日時は "YYYY-MM-DDTHH:mm" のユーザーのタイムゾーンでの時刻）
+ */
+export interface QuickAddSuggestion {
+  kind?: string | null;
+  title?: string | null;
+  priority?: string | null;
+  category?: string | null;
+  estimatedMinutes?: number | null;
+  dueDate?: string | null;
+  scheduledDate?: string | null;
+  startTime?: string | null;
+  endTime?: string | null;
+}
+
+const DEFAULT_START_HOUR = 9;            // 日付だけの開始日時
+const DUE_TIME = { hour: 23, minute: 59 }; // 日付だけの期限
+const MAX_ESTIMATED_MINUTES = 480;
+
+const JA_WEEKDAYS: Record<string, number> = { 日: 0, 月: 1, 火: 2, 水: 3, 木: 4, 金: 5, 土: 6 };
+const EN_WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const EN_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const EN_MONTH_NAMES = 'january|jan|february|feb|march|mar|april|apr|may|june|jun|july|jul|august|aug|september|sept|sep|october|oct|november|nov|december|dec';
+
+const PRIORITY_TAGS: Record<string, TaskPriority> = {
+  high: 'high', h: 'high', '1': 'high', 高: 'high', '!!!': 'high',
+  medium: 'medium', med: 'medium', m: 'medium', '2': 'medium', 中: 'medium', '!!': 'medium',
+  low: 'low', l: 'low', '3': 'low', 低: 'low',
+};
+
+// 期限・開始を表す前後の語
+const DUE_AFTER = /^\s*(?:まで(?:に|で)?|迄|が?締め?切り?|〆切)/;
+const DUE_BEFORE = /(?:\b(?:by|due|until|before|deadline)|期限|締め?切り?|〆切)\s*[:：]?\s*$/i;
+const START_AFTER = /^\s*(?:に|から|より)/;
+const START_BEFORE = /\b(?:on|at|from)\s*$/i;
+
+// ルールでは日付にできない曖昧な表現
+const VAGUE_EXPRESSIONS = /再来月|来月|上旬|中旬|下旬|週明け|月初め?|年内|来年|近いうち|そのうち|今度|いつか|\b(?:soon|later|sometime|someday|next month)\b/i;
+
+interface Span {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface DateToken extends Span {
+  type: 'date';
+  date: Date; // 日付の0時（壁時計の時刻、floatingIn を参照）
+}
+
+interface TimeToken extends Span {
+  type: 'time';
+  hour: number;
+  minute: number;
+  until?: { hour: number; minute: number }; // 時間帯の終わり
+}
+
+interface DateTimeGroup extends Span {
+  date?: DateToken;
+  time?: TimeToken;
+}
+
+/**
+ * 入力の解析中の状態（解釈した部分は空白で塗りつぶし、残りをタイトルにする）
+ */
+class QuickAddText {
+  readonly original: string;
+  private chars: string[];
+
+  constructor(text: string) {
+    this.original = text;
+    this.chars = text.split('');
+  }
+
+  get masked(): string {
+    return this.chars.join('');
+  }
+
+  mask(start: number, end: number): void {
+    for (let i = start; i < end; i++) this.chars[i] = ' ';
+  }
+
+  /**
+   * パターンに一致した部分を取り出す（handler が false を返した一致は残す）
+   */
+  take(pattern: RegExp, handler: (match: RegExpExecArray, span: Span) => boolean | void): void {
+    const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+    const masked = this.masked;
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(masked)) !== null) {
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+        continue;
+      }
+      const span = { start: match.index, end: match.index + match[0].length, text: match[0].trim() };
+      if (handler(match, span) !== false) {
+        this.mask(span.start, span.end);
+      }
+    }
+  }
+}
+
+/**
+ * ユーザーのタイムゾーンの壁時計の時刻をサーバーのローカル時刻上の Date として表す
+ * 日付の計算はこの表現で行い、結果は toInstant で日時に戻す
+ */
+function floatingIn(instant: Date, timeZone: string): Date {
+  const clock = wallClockIn(instant, timeZone);
+  return new Date(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+}
+
+function toInstant(date: Date, timeZone: string): Date {
+  return fromWallClock(wallClockIn(date, null), timeZone);
+}
+
+function toIsoString(date: Date | null, timeZone: string): string | null {
+  return date ? toInstant(date, timeZone).toISOString() : null;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function lastDayOfMonth(date: Date, monthOffset = 0): Date {
+  return new Date(date.getFullYear(), date.getMonth() + monthOffset + 1, 0);
+}
+
+/**
+ * 次の該当曜日（今日を含む）。weekOffset を指定すると月曜始まりで N 週先の週の曜日
+ */
+function weekdayDate(today: Date, weekday: number, weekOffset: number | null): Date {
+  if (weekOffset === null) {
+    return addDays(today, (weekday - today.getDay() + 7) % 7);
+  }
+  const monday = addDays(today, -((today.getDay() + 6) % 7));
+  return addDays(monday, weekOffset * 7 + (weekday + 6) % 7);
+}
+
+/**
+ * 年を省略した月日（過ぎていれば来年）
+ */
+function monthDayDate(today: Date, month: number, day: number, year?: number): Date | null {
+  const date = new Date(year ?? today.getFullYear(), month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  if (year === undefined && date < today) date.setFullYear(date.getFullYear() + 1);
+  return date;
+}
+
+function toHour(hour: number, meridiem: string | undefined): number {
+  const label = meridiem?.toLowerCase();
+  if ((label === 'pm' || label === '午後' || label === '夕方' || label === '夜') && hour < 12) return hour + 12;
+  if (label === '昼' && hour <= 6) return hour + 12;
+  if ((label === 'am' || label === '午前') && hour === 12) return 0;
+  return hour;
+}
+
+function atTime(date: Date, hour: number, minute: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, minute);
+}
+
+/**
+ * 日時を "YYYY-MM-DD HH:mm（曜）" で表示（ユーザーのタイムゾーン）
+ */
+export function formatQuickAddDate(date: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const { hour, minute } = wallClockIn(date, timeZone);
+  const time = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+  return `${toDateKeyIn(date, timeZone)} ${time}（${Object.keys(JA_WEEKDAYS)[weekdayIn(date, timeZone)]}）`;
+}
+
+function collectDates(text: QuickAddText, today: Date, ambiguities: string[]): DateToken[] {
+  const dates: DateToken[] = [];
+  const add = (span: Span, date: Date | null) => {
+    if (!date) {
+      ambiguities.push(`「${span.text}」は存在しない日付です`);
+      return;
+    }
+    dates.push({ ...span, type: 'date', date });
+  };
+
+  text.take(/(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/, (m, span) =>
+    add(span, monthDayDate(today, Number(m[2]), Number(m[3]), Number(m[1]))));
+  text.take(/(?:(\d{4})年)?(\d{1,2})月(\d{1,2})日/, (m, span) =>
+    add(span, monthDayDate(today, Number(m[2]), Number(m[3]), m[1] ? Number(m[1]) : undefined)));
+  text.take(/\b(\d{1,2})\/(\d{1,2})\b/, (m, span) =>
+    add(span, monthDayDate(today, Number(m[1]), Number(m[2]))));
+  text.take(new RegExp(`\\b(${EN_MONTH_NAMES})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, 'i'), (m, span) =>
+    add(span, monthDayDate(today, EN_MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()) + 1, Number(m[2]))));
+  text.take(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(${EN_MONTH_NAMES})\\b`, 'i'), (m, span) =>
+    add(span, monthDayDate(today, EN_MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()) + 1, Number(m[1]))));
+
+  // 相対的な日付
+  const relativeDays: Record<string, number> = {
+    今日: 0, 本日: 0, きょう: 0, 明日: 1, あした: 1, 明後日: 2, あさって: 2, 明々後日: 3, しあさって: 3,
+  };
+  text.take(/明々後日|しあさって|明後日|あさって|明日|あした|今日|本日|きょう/, (m, span) =>
+    add(span, addDays(today, relativeDays[m[0]])));
+  text.take(/(\d+)\s*(日|週間|(?:ヶ|か|カ|ケ|箇)月)後/, (m, span) => {
+    const amount = Number(m[1]);
+    if (m[2] === '日') return add(span, addDays(today, amount));
+    if (m[2] === '週間') return add(span, addDays(today, amount * 7));
+    add(span, new Date(today.getFullYear(), today.getMonth() + amount, today.getDate()));
+  });
+  text.take(/(再来週|来週|今週)?\s*の?\s*([日月火水木金土])曜日?/, (m, span) => {
+    const weekOffset = m[1] === '再来週' ? 2 : m[1] === '来週' ? 1 : m[1] === '今週' ? 0 : null;
+    add(span, weekdayDate(today, JA_WEEKDAYS[m[2]], weekOffset));
+  });
+  text.take(/(今月|来月)末|月末/, (m, span) => add(span, lastDayOfMonth(today, m[1] === '来月' ? 1 : 0)));
+  text.take(/再来週|来週|今週末|週末/, (m, span) => {
+    if (m[0].endsWith('週末')) return add(span, weekdayDate(today, 6, today.getDay() === 0 ? -1 : null));
+    add(span, weekdayDate(today, 1, m[0] === '再来週' ? 2 : 1));
+  });
+  text.take(/(\d{1,2})日(?![後間])/, (m, span) => {
+    // 日だけの指定は今月（過ぎていれば来月）
+    const day = Number(m[1]);
+    const thisMonth = new Date(today.getFullYear(), today.getMonth(), day);
+    const date = thisMonth < today ? new Date(today.getFullYear(), today.getMonth() + 1, day) : thisMonth;
+    add(span, date.getDate() === day ? date : null);
+  });
+
+  text.take(/\bday after tomorrow\b/i, (_, span) => add(span, addDays(today, 2)));
+  text.take(/\b(today|tonight|tomorrow|tmrw|tmr)\b/i, (m, span) =>
+    add(span, addDays(today, /^to(day|night)$/i.test(m[1]) ? 0 : 1)));
+  text.take(/\bin\s+(\d+)\s+(day|week|month)s?\b/i, (m, span) => {
+    const amount = Number(m[1]);
+    const unit = m[2].toLowerCase();
+    if (unit === 'month') return add(span, new Date(today.getFullYear(), today.getMonth() + amount, today.getDate()));
+    add(span, addDays(today, unit === 'week' ? amount * 7 : amount));
+  });
+  text.take(/\b(?:(next|this)\s+)?(sunday|sun|monday|mon|tuesday|tues|tue|wednesday|wed|thursday|thurs|thur|thu|friday|fri|saturday|sat)\b/i, (m, span) => {
+    const weekday = EN_WEEKDAYS.indexOf(m[2].slice(0, 3).toLowerCase());
+    add(span, m[1]?.toLowerCase() === 'next' ? weekdayDate(today, weekday, 1) : weekdayDate(today, weekday, null));
+  });
+  text.take(/\bnext week\b/i, (_, span) => add(span, weekdayDate(today, 1, 1)));
+  text.take(/\b(?:this\s+)?weekend\b/i, (_, span) => add(span, weekdayDate(today, 6, today.getDay() === 0 ? -1 : null)));
+  text.take(/\bend of (?:the\s+)?month\b|\beom\b/i, (_, span) => add(span, lastDayOfMonth(today)));
+
+  return dates;
+}
+
+function collectTimes(text: QuickAddText, ambiguities: string[]): TimeToken[] {
+  const times: TimeToken[] = [];
+  const add = (span: Span, hour: number, minute: number) => {
+    if (hour > 23 || minute > 59) {
+      ambiguities.push(`「${span.text}」は時刻として解釈できません`);
+      return false;
+    }
+    times.push({ ...span, type: 'time', hour, minute });
+  };
+
+  text.take(/(午前|午後|朝|昼|夕方|夜)?\s*(\d{1,2})時(?!間)(?:(\d{1,2})分|(半))?(?:頃|ごろ)?/, (m, span) =>
+    add(span, toHour(Number(m[2]), m[1]), m[4] ? 30 : Number(m[3] || 0)));
+  text.take(/(?:\bat\s+)?\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/i, (m, span) =>
+    add(span, toHour(Number(m[1]), m[3]), Number(m[2] || 0)));
+  text.take(/(?:\bat\s+)?(午前|午後|朝|昼|夕方|夜)?\s*\b(\d{1,2}):(\d{2})(?!\d)/i, (m, span) =>
+    add(span, toHour(Number(m[2]), m[1]), Number(m[3])));
+
+  // 「10時-11時」「2pm to 3pm」は時間帯にまとめる
+  times.sort((a, b) => a.start - b.start);
+  const merged: TimeToken[] = [];
+  for (const time of times) {
+    const previous = merged[merged.length - 1];
+    const gap = previous ? text.original.slice(previous.end, time.start) : '';
+    if (previous && !previous.until && /^\s*(?:-|~|〜|から|to|until)\s*$/i.test(gap)) {
+      // 「午後2時〜3時」の終わりは午後とみなす
+      const untilHour = time.hour < previous.hour && time.hour + 12 < 24 ? time.hour + 12 : time.hour;
+      text.mask(previous.end, time.start);
+      previous.until = { hour: untilHour, minute: time.minute };
+      previous.end = time.end;
+      previous.text = text.original.slice(previous.start, time.end).trim();
+      continue;
+    }
+    merged.push(time);
+  }
+
+  return merged;
+}
+
+/**
+ * 隣り合う日付と時刻（「明日 15時」「3pm tomorrow」）をひとつの日時にまとめる
+ */
+function groupDateTimes(text: QuickAddText, dates: DateToken[], times: TimeToken[]): DateTimeGroup[] {
+  const groups: DateTimeGroup[] = [];
+
+  for (const token of [...dates, ...times].sort((a, b) => a.start - b.start)) {
+    const last = groups[groups.length - 1];
+    const adjacent = last && /^[\s,、の]*$/.test(text.original.slice(last.end, token.start));
+
+    if (adjacent && !last[token.type]) {
+      text.mask(last.end, token.start);
+      last.end = token.end;
+      last.text = text.original.slice(last.start, token.end).trim();
+      if (token.type === 'date') last.date = token;
+      else last.time = token;
+      continue;
+    }
+
+    groups.push({
+      start: token.start,
+      end: token.end,
+      text: token.text,
+      ...(token.type === 'date' ? { date: token } : { time: token }),
+    });
+  }
+
+  return groups;
+}
+
+/**
+ * 1行の入力をタスク（または予定）の項目に分解する
+ *
+ * - 優先度: !high / !medium / !low（!h・!1・!高、!!! なども可）。「至急」「urgent」を含めば高
+ * - カテゴリ: #営業
+ * - 所要時間: 30分 / 1時間半 / 90min / 1.5h
+ * - 日時: 今日・明日・来週金曜・3日後・10/20・10月20日・2025-10-20・月末 / today・tomorrow・next fri・in 3 days・Oct 20
+ *   時刻は 15時・午後3時半・15:30・3pm。「まで」「までに」「by」「締切」が付けば期限、それ以外は開始日時
+ * - 時間帯（10時-11時・2pm to 3pm）を含む場合は予定として扱う
+ * - 「今日」「15時」などはユーザーのタイムゾーン（timeZone）での日付・時刻
+ */
+export function parseQuickAdd(
+  input: string,
+  now: Date = new Date(),
+  timeZone: string = DEFAULT_TIME_ZONE
+): QuickAddResult {
+  const text = new QuickAddText(input.normalize('NFKC').replace(/[～〜]/g, '〜').trim());
+  const localNow = floatingIn(now, timeZone);
+  const today = startOfDay(localNow);
+  const recognized: QuickAddResult['recognized'] = [];
+  const ambiguities: string[] = [];
+
+  let priority: TaskPriority | null = null;
+  let category: string | null = null;
+  let estimatedMinutes: number | null = null;
+
+  text.take(/(^|\s)!(high|medium|med|low|h|m|l|1|2|3|高|中|低|!!|!)(?=\s|$)/i, (m, span) => {
+    const tag = m[2].startsWith('!') ? `!${m[2]}` : m[2].toLowerCase();
+    priority = PRIORITY_TAGS[tag] ?? null;
+    recognized.push({ field: 'priority', text: span.text });
+  });
+  if (!priority && /至急|緊急|\b(?:urgent|asap)\b/i.test(text.masked)) {
+    priority = 'high';
+  }
+
+  text.take(/(^|\s)#([^\s#!]+)/, (m, span) => {
+    category = m[2].substring(0, 100);
+    recognized.push({ field: 'category', text: span.text });
+  });
+
+  const addDuration = (span: Span, minutes: number) => {
+    estimatedMinutes = Math.round(minutes);
+    recognized.push({ field: 'estimatedMinutes', text: span.text });
+  };
+  text.take(/(?:\bfor\s+)?(\d+(?:\.\d+)?)\s*(?:時間|hours?|hrs?|h(?![a-z]))(半)?(?:\s*(\d{1,2})\s*(?:分|minutes?|mins?|m(?![a-z])))?/i, (m, span) =>
+    addDuration(span, Number(m[1]) * 60 + (m[2] ? 30 : 0) + Number(m[3] || 0)));
+
+  // 「15時30分」を所要時間と取り違えないよう、時刻を先に取り出す
+  const times = collectTimes(text, ambiguities);
+
+  text.take(/(?:\bfor\s+)?(\d+)\s*(?:分間?|minutes?|mins?|m(?![a-z]))/i, (m, span) => addDuration(span, Number(m[1])));
+
+  const dates = collectDates(text, today, ambiguities);
+  const groups = groupDateTimes(text, dates, times);
+
+  let dueDate: Date | null = null;
+  let scheduledDate: Date | null = null;
+  let event: { start: Date; end: Date } | null = null;
+
+  for (const group of groups) {
+    const before = text.masked.slice(0, group.start);
+    const after = text.masked.slice(group.end);
+    const dueAfter = after.match(DUE_AFTER);
+    const dueBefore = before.match(DUE_BEFORE);
+    const isDue = !!(dueAfter || dueBefore);
+
+    if (dueAfter) text.mask(group.end, group.end + dueAfter[0].length);
+    if (dueBefore) text.mask(group.start - dueBefore[0].length, group.start);
+    if (!isDue) {
+      const startAfter = after.match(START_AFTER);
+      const startBefore = before.match(START_BEFORE);
+      if (startAfter) text.mask(group.end, group.end + startAfter[0].length);
+      if (startBefore) text.mask(group.start - startBefore[0].length, group.start);
+    }
+
+    const time = group.time;
+    let date = group.date?.date ?? today;
+    // 時刻だけで、今日のその時刻を過ぎていれば明日
+    if (!group.date && time && atTime(today, time.hour, time.minute) <= localNow) {
+      date = addDays(today, 1);
+    }
+
+    if (time?.until) {
+      const start = atTime(date, time.hour, time.minute);
+      let end = atTime(date, time.until.hour, time.until.minute);
+      if (end <= start) end = addDays(end, 1);
+
+      if (event) {
+        ambiguities.push(`時間帯が複数あります（「${group.text}」は使っていません）`);
+        continue;
+      }
+      event = { start, end };
+      recognized.push({ field: 'event', text: group.text });
+      continue;
+    }
+
+    const resolved = time
+      ? atTime(date, time.hour, time.minute)
+      : isDue ? atTime(date, DUE_TIME.hour, DUE_TIME.minute) : atTime(date, DEFAULT_START_HOUR, 0);
+
+    // 日付だけの指定は今日なら過ぎていても問題にしない
+    if (time ? resolved < localNow : date < today) {
+      ambiguities.push(`「${group.text}」は過去の日時です`);
+    }
+
+    if (isDue ? dueDate : scheduledDate) {
+      ambiguities.push(`${isDue ? '期限' : '開始日時'}が複数あります（「${group.text}」は使っていません）`);
+      continue;
+    }
+
+    if (isDue) dueDate = resolved;
+    else scheduledDate = resolved;
+    recognized.push({ field: isDue ? 'dueDate' : 'scheduledDate', text: group.text });
+  }
+
+  const remaining = text.masked;
+  if (VAGUE_EXPRESSIONS.test(remaining)) {
+    ambiguities.push(`「${remaining.match(VAGUE_EXPRESSIONS)![0]}」を日付として解釈できません`);
+  }
+
+  const title = remaining
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^[のにでは、,:：\-\s]+/, '')
+    .replace(/[、,:：\-\s]+$/, '');
+
+  if (!title) {
+    ambiguities.push('タイトルがありません');
+  }
+
+  if (estimatedMinutes !== null && (estimatedMinutes < 1 || estimatedMinutes > MAX_ESTIMATED_MINUTES)) {
+    ambiguities.push('予想時間は1分から8時間の間で指定してください');
+  }
+
+  const eventRange = event as { start: Date; end: Date } | null;
+  if (eventRange && dueDate) {
+    ambiguities.push('予定には期限を設定できません');
+  }
+
+  return {
+    kind: eventRange ? QuickAddKind.EVENT : QuickAddKind.TASK,
+    title: title.substring(0, 500),
+    priority,
+    category,
+    estimatedMinutes: estimatedMinutes ?? (eventRange
+      ? Math.round((eventRange.end.getTime() - eventRange.start.getTime()) / 60000)
+      : null),
+    dueDate: eventRange ? null : toIsoString(dueDate as Date | null, timeZone),
+    scheduledDate: eventRange ? null : toIsoString(scheduledDate as Date | null, timeZone),
+    startTime: toIsoString(eventRange?.start ?? null, timeZone),
+    endTime: toIsoString(eventRange?.end ?? null, timeZone),
+    recognized,
+    ambiguities,
+  };
+}
+
+function parseSuggestedDate(value: string | null | undefined, timeZone: string): string | null {
+  if (!value) return null;
+  // オフセットの無い日時はユーザーのタイムゾーンでの時刻として扱う
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(value.trim());
+  const date = match
+    ? fromWallClock({
+        year: Number(match[1]),
+        month: Number(match[2]),
+        day: Number(match[3]),
+        hour: Number(match[4] || 0),
+        minute: Number(match[5] || 0),
+        second: Number(match[6] || 0),
+      }, timeZone)
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * AIの解釈で曖昧な部分を補う（タグで明示された優先度・カテゴリ・所要時間はルールの結果を優先）
+ */
+export function mergeQuickAddSuggestion(
+  result: QuickAddResult,
+  suggestion: QuickAddSuggestion,
+  timeZone: string = DEFAULT_TIME_ZONE
+): QuickAddResult {
+  const priority = suggestion.priority && ['high', 'medium', 'low'].includes(suggestion.priority)
+    ? suggestion.priority as TaskPriority
+    : null;
+  const minutes = typeof suggestion.estimatedMinutes === 'number'
+    && suggestion.estimatedMinutes >= 1
+    && suggestion.estimatedMinutes <= MAX_ESTIMATED_MINUTES
+    ? Math.round(suggestion.estimatedMinutes)
+    : null;
+  const startTime = parseSuggestedDate(suggestion.startTime, timeZone);
+  const endTime = parseSuggestedDate(suggestion.endTime, timeZone);
+  const isEvent = suggestion.kind === QuickAddKind.EVENT && !!startTime && !!endTime && startTime < endTime;
+
+  const merged: QuickAddResult = {
+    ...result,
+    title: suggestion.title?.trim().substring(0, 500) || result.title,
+    priority: result.priority ?? priority,
+    category: result.category ?? (suggestion.category?.trim().substring(0, 100) || null),
+    estimatedMinutes: result.recognized.some(item => item.field === 'estimatedMinutes')
+      ? result.estimatedMinutes
+      : minutes ?? result.estimatedMinutes,
+    ambiguities: [],
+  };
+
+  if (isEvent) {
+    return { ...merged, kind: QuickAddKind.EVENT, dueDate: null, scheduledDate: null, startTime, endTime };
+  }
+
+  return {
+    ...merged,
+    kind: QuickAddKind.TASK,
+    dueDate: parseSuggestedDate(suggestion.dueDate, timeZone) ?? result.dueDate,
+    scheduledDate: parseSuggestedDate(suggestion.scheduledDate, timeZone) ?? result.scheduledDate,
+    startTime: null,
+    endTime: null,
+  };
+}
@@ -0,0 +1,349 @@
+// ===========================================
+// Task Recurrence Rules - AI Schedule Assistant
+// 繰り返しタスクのルール計算（RRULEサブセット・純粋関数）
+// ===========================================
+
+import { RecurrenceFrequency, RecurrenceRule } from '@/types/shared';
+import { WallClock, fromWallClock, parseDateKey, wallClockIn } from '@/lib/schedule/timezone';
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+/**
+ * 無限ループ防止のための反復上限
+ */
+const MAX_ITERATIONS = 5000;
+
+export interface OccurrenceOptions {
+  from?: Date;   // この日時以降（含む）
+  to?: Date;     // この日時以前（含む）
+  limit?: number;
+  timeZone?: string; // 曜日・日付・除外日をこのタイムゾーンの壁時計で判定（未指定はサーバーのローカル時刻）
+}
+
+/**
+ * Date を YYYY-MM-DD（ローカル日付）に変換
+ */
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+function withTimeOf(base: Date, year: number, month: number, day: number): Date {
+  return new Date(year, month, day, base.getHours(), base.getMinutes(), base.getSeconds(), 0);
+}
+
+/**
+ * 壁時計の時刻をサーバーのローカル時刻上の Date として表す（タイムゾーン指定時の計算用）
+ */
+function floating(clock: WallClock): Date {
+  return new Date(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+}
+
+function floatingIn(date: Date, timeZone: string): Date {
+  return floating(wallClockIn(date, timeZone));
+}
+
+/**
+ * 終了日（YYYY-MM-DD）の終わり（timeZone での翌日0時の直前、null はサーバーのローカル時刻）
+ */
+function untilBoundary(until: string | undefined, timeZone: string | null): Date | null {
+  const date = parseDateKey(until);
+  if (!date) return null;
+  const nextDay = fromWallClock({ ...date, day: date.day + 1, hour: 0, minute: 0, second: 0 }, timeZone);
+  return new Date(nextDay.getTime() - 1);
+}
+
+/**
+ * 繰り返しルールの検証
+ */
+export function validateRecurrenceRule(rule: Partial<RecurrenceRule> | null | undefined): string[] {
+  const errors: string[] = [];
+
+  if (!rule) {
+    return ['繰り返しルールが指定されていません'];
+  }
+
+  if (!rule.frequency || !Object.values(RecurrenceFrequency).includes(rule.frequency)) {
+    errors.push('繰り返し頻度は daily, weekly, monthly, yearly のいずれかを指定してください');
+  }
+
+  if (rule.interval === undefined || !Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 365) {
+    errors.push('繰り返し間隔は1〜365の整数で指定してください');
+  }
+
+  if (rule.byWeekday && (!Array.isArray(rule.byWeekday) || rule.byWeekday.some(d => !Number.isInteger(d) || d < 0 || d > 6))) {
+    errors.push('曜日は0（日）〜6（土）で指定してください');
+  }
+
+  if (rule.byMonthDay && (!Array.isArray(rule.byMonthDay) || rule.byMonthDay.some(d => !Number.isInteger(d) || d === 0 || d < -1 || d > 31))) {
+    errors.push('日付は1〜31、または-1（月末）で指定してください');
+  }
+
+  if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > 1000)) {
+    errors.push('繰り返し回数は1〜1000の整数で指定してください');
+  }
+
+  if (rule.until !== undefined && !parseDateKey(rule.until)) {
+    errors.push('終了日は YYYY-MM-DD 形式で指定してください');
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    errors.push('終了日と繰り返し回数は同時に指定できません');
+  }
+
+  if (rule.exceptions && (!Array.isArray(rule.exceptions) || rule.exceptions.some(d => !parseDateKey(d)))) {
+    errors.push('除外日は YYYY-MM-DD 形式で指定してください');
+  }
+
+  return errors;
+}
+
+/**
+ * ルールを正規化（既定値の補完・重複除去）
+ * 曜日・日付の既定値は dtstart の timeZone での曜日・日付
+ */
+export function normalizeRecurrenceRule(rule: RecurrenceRule, dtstart: Date, timeZone?: string): RecurrenceRule {
+  if (timeZone) dtstart = floatingIn(dtstart, timeZone);
+
+  const normalized: RecurrenceRule = {
+    frequency: rule.frequency,
+    interval: rule.interval || 1,
+  };
+
+  if (rule.frequency === 'weekly') {
+    const weekdays = rule.byWeekday?.length ? rule.byWeekday : [dtstart.getDay()];
+    normalized.byWeekday = Array.from(new Set(weekdays)).sort((a, b) => a - b);
+  }
+
+  if (rule.frequency === 'monthly') {
+    const monthDays = rule.byMonthDay?.length ? rule.byMonthDay : [dtstart.getDate()];
+    normalized.byMonthDay = Array.from(new Set(monthDays)).sort((a, b) => (a === -1 ? 32 : a) - (b === -1 ? 32 : b));
+  }
+
+  if (rule.count !== undefined) normalized.count = rule.count;
+  if (rule.until !== undefined) normalized.until = rule.until;
+  if (rule.exceptions?.length) {
+    normalized.exceptions = Array.from(new Set(rule.exceptions)).sort();
+  }
+
+  return normalized;
+}
+
+/**
+ * 周期ごとの候補日時を生成（dtstart以前の候補も含む）
+ */
+function candidatesForPeriod(rule: RecurrenceRule, dtstart: Date, period: number): Date[] {
+  const step = period * rule.interval;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return [withTimeOf(dtstart, dtstart.getFullYear(), dtstart.getMonth(), dtstart.getDate() + step)];
+
+    case 'weekly': {
+      const weekStart = dtstart.getDate() - dtstart.getDay() + step * 7;
+      const weekdays = rule.byWeekday?.length ? rule.byWeekday : [dtstart.getDay()];
+      return weekdays.map(weekday =>
+        withTimeOf(dtstart, dtstart.getFullYear(), dtstart.getMonth(), weekStart + weekday)
+      );
+    }
+
+    case 'monthly': {
+      const target = new Date(dtstart.getFullYear(), dtstart.getMonth() + step, 1);
+      const year = target.getFullYear();
+      const month = target.getMonth();
+      const lastDay = daysInMonth(year, month);
+      const monthDays = rule.byMonthDay?.length ? rule.byMonthDay : [dtstart.getDate()];
+
+      return monthDays
+        .map(day => (day === -1 ? lastDay : day))
+        .filter(day => day <= lastDay)
+        .map(day => withTimeOf(dtstart, year, month, day));
+    }
+
+    case 'yearly': {
+      const year = dtstart.getFullYear() + step;
+      const month = dtstart.getMonth();
+      const day = dtstart.getDate();
+      // 2/29 は閏年のみ
+      if (day > daysInMonth(year, month)) return [];
+      return [withTimeOf(dtstart, year, month, day)];
+    }
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * 発生日時の一覧を計算
+ * count は除外日（exceptions）を含めて数える（RFC 5545 の EXDATE と同じ扱い）
+ */
+export function getOccurrences(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  options: OccurrenceOptions = {}
+): Date[] {
+  // タイムゾーン指定時は曜日・日付を壁時計の時刻で計算し、期間・終了日の判定は日時に戻してから行う
+  const timeZone = options.timeZone ?? null;
+  const localStart = timeZone ? floatingIn(dtstart, timeZone) : dtstart;
+  const toInstant = (local: Date) => (timeZone ? fromWallClock(wallClockIn(local, null), timeZone) : local);
+
+  const normalized = normalizeRecurrenceRule(rule, localStart);
+  const until = untilBoundary(normalized.until, timeZone);
+  const exceptions = new Set(normalized.exceptions || []);
+  const limit = options.limit ?? 100;
+  const results: Date[] = [];
+  let generated = 0;
+
+  for (let period = 0; period < MAX_ITERATIONS; period++) {
+    const candidates = candidatesForPeriod(normalized, localStart, period)
+      .filter(local => local.getTime() >= localStart.getTime())
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    for (const local of candidates) {
+      const candidate = toInstant(local);
+      if (until && candidate > until) return results;
+      if (options.to && candidate > options.to) return results;
+      if (normalized.count !== undefined && generated >= normalized.count) return results;
+
+      generated++;
+
+      if (exceptions.has(toDateKey(local))) continue;
+      if (options.from && candidate < options.from) continue;
+
+      results.push(candidate);
+      if (results.length >= limit) return results;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * 指定日時より後の次回発生日時
+ */
+export function getNextOccurrence(rule: RecurrenceRule, dtstart: Date, after: Date, timeZone?: string): Date | null {
+  const from = new Date(after.getTime() + 1);
+  const [next] = getOccurrences(rule, dtstart, { from, limit: 1, timeZone });
+  return next ?? null;
+}
+
+/**
+ * RRULE文字列に変換（例: FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE）
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${rule.interval || 1}`];
+
+  if (rule.byWeekday?.length) {
+    parts.push(`BYDAY=${rule.byWeekday.map(day => RRULE_WEEKDAYS[day]).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * RRULE文字列を解析（"RRULE:" プレフィックス可、未対応キーは無視）
+ */
+export function parseRRule(rrule: string): RecurrenceRule | null {
+  const body = rrule.trim().replace(/^RRULE:/i, '');
+  const fields = new Map<string, string>();
+
+  for (const part of body.split(';')) {
+    const [key, value] = part.split('=');
+    if (key && value) fields.set(key.toUpperCase(), value);
+  }
+
+  const frequency = fields.get('FREQ')?.toLowerCase() as RecurrenceFrequency | undefined;
+  if (!frequency || !Object.values(RecurrenceFrequency).includes(frequency)) {
+    return null;
+  }
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: parseInt(fields.get('INTERVAL') || '1', 10) || 1,
+  };
+
+  const byDay = fields.get('BYDAY');
+  if (byDay) {
+    const weekdays = byDay
+      .split(',')
+      .map(day => RRULE_WEEKDAYS.indexOf(day.slice(-2).toUpperCase() as typeof RRULE_WEEKDAYS[number]))
+      .filter(day => day >= 0);
+    if (weekdays.length) rule.byWeekday = weekdays;
+  }
+
+  const byMonthDay = fields.get('BYMONTHDAY');
+  if (byMonthDay) {
+    rule.byMonthDay = byMonthDay.split(',').map(Number).filter(day => Number.isInteger(day) && day !== 0);
+  }
+
+  const count = fields.get('COUNT');
+  if (count) rule.count = parseInt(count, 10);
+
+  const until = fields.get('UNTIL');
+  if (until && /^\d{8}/.test(until)) {
+    rule.until = `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`;
+  }
+
+  return rule;
+}
+
+/**
+ * 表示用の日本語説明（例: 「2週間ごと 月・水（12/31まで）」）
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = rule.interval || 1;
+  let text: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      text = interval === 1 ? '毎日' : `${interval}日ごと`;
+      break;
+    case 'weekly': {
+      const base = interval === 1 ? '毎週' : `${interval}週間ごと`;
+      const days = rule.byWeekday?.length
+        ? ` ${rule.byWeekday.map(day => WEEKDAY_LABELS[day]).join('・')}`
+        : '';
+      text = `${base}${days}`;
+      break;
+    }
+    case 'monthly': {
+      const base = interval === 1 ? '毎月' : `${interval}ヶ月ごと`;
+      const days = rule.byMonthDay?.length
+        ? ` ${rule.byMonthDay.map(day => (day === -1 ? '末日' : `${day}日`)).join('・')}`
+        : '';
+      text = `${base}${days}`;
+      break;
+    }
+    case 'yearly':
+      text = interval === 1 ? '毎年' : `${interval}年ごと`;
+      break;
+    default:
+      text = '繰り返し';
+  }
+
+  if (rule.until) {
+    const [, month, day] = rule.until.split('-').map(Number);
+    text += `（${month}/${day}まで）`;
+  } else if (rule.count !== undefined) {
+    text += `（${rule.count}回）`;
+  }
+
+  return text;
+}
@@ -0,0 +1,345 @@
+// ===========================================
+// Recurring Task Series - AI Schedule Assistant
+// 繰り返しタスクのインスタンス生成・シリーズ管理
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { RecurrenceRule } from '@/types/shared';
+import { addDaysIn, addDaysToDateKey, getUserLocale, startOfDayIn, toDateKeyIn } from '@/lib/schedule/timezone';
+import { getNextOccurrence, getOccurrences, normalizeRecurrenceRule } from './recurrence';
+
+/**
+ * 先行生成する期間（日）
+ */
+export const RECURRENCE_HORIZON_DAYS = 14;
+
+/**
+ * 1回の生成で作成するインスタンスの上限
+ */
+export const MAX_INSTANCES_PER_RUN = 30;
+
+/**
+ * シリーズのテンプレート行（tasks テーブルのうち recurrence_rule を持つもの）
+ */
+export interface RecurringTemplate {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  priority: 'high' | 'medium' | 'low';
+  category: string | null;
+  tags?: string[] | null;
+  estimated_minutes: number | null;
+  scheduled_date: string | null;
+  due_date: string | null;
+  created_at: string;
+  recurrence_rule: RecurrenceRule;
+}
+
+export interface RecurringInstance {
+  id: string;
+  status: string;
+  scheduled_date: string | null;
+  recurrence_parent_id: string;
+  recurrence_instance_date: string;
+}
+
+const TEMPLATE_COLUMNS = 'id, user_id, title, description, priority, category, tags, estimated_minutes, scheduled_date, due_date, created_at, recurrence_rule';
+
+/**
+ * シリーズの基準日時（最初の発生日時）
+ */
+export function getSeriesStart(template: Pick<RecurringTemplate, 'scheduled_date' | 'created_at'>): Date {
+  return new Date(template.scheduled_date || template.created_at);
+}
+
+/**
+ * 発生日時からインスタンス行を作成（発生日はユーザーのタイムゾーンでの日付）
+ */
+function buildInstance(template: RecurringTemplate, occurrence: Date, timeZone: string) {
+  const dtstart = getSeriesStart(template);
+  // テンプレートの期限が開始日時からどれだけ後かを各インスタンスにも適用
+  const dueOffset = template.due_date
+    ? new Date(template.due_date).getTime() - dtstart.getTime()
+    : null;
+
+  return {
+    user_id: template.user_id,
+    title: template.title,
+    description: template.description,
+    priority: template.priority,
+    category: template.category,
+    tags: template.tags ?? [],
+    estimated_minutes: template.estimated_minutes,
+    status: 'pending',
+    scheduled_date: occurrence.toISOString(),
+    due_date: dueOffset !== null ? new Date(occurrence.getTime() + dueOffset).toISOString() : null,
+    postpone_count: 0,
+    recurrence_parent_id: template.id,
+    recurrence_instance_date: toDateKeyIn(occurrence, timeZone),
+  };
+}
+
+/**
+ * 発生日時のインスタンスを挿入（既存の発生日はスキップ）
+ */
+async function insertInstances(
+  supabase: SupabaseClient,
+  template: RecurringTemplate,
+  occurrences: Date[],
+  timeZone: string
+): Promise<RecurringInstance[]> {
+  if (occurrences.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .upsert(
+      occurrences.map(occurrence => buildInstance(template, occurrence, timeZone)),
+      { onConflict: 'recurrence_parent_id,recurrence_instance_date', ignoreDuplicates: true }
+    )
+    .select('id, status, scheduled_date, recurrence_parent_id, recurrence_instance_date');
+
+  if (error) throw error;
+  return (data || []) as RecurringInstance[];
+}
+
+/**
+ * テンプレートを取得
+ */
+export async function getTemplate(
+  supabase: SupabaseClient,
+  userId: string,
+  templateId: string
+): Promise<RecurringTemplate | null> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select(TEMPLATE_COLUMNS)
+    .eq('id', templateId)
+    .eq('user_id', userId)
+    .not('recurrence_rule', 'is', null)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as RecurringTemplate | null;
+}
+
+/**
+ * ユーザーのシリーズ（テンプレート）一覧を取得
+ */
+export async function listTemplates(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<RecurringTemplate[]> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select(TEMPLATE_COLUMNS)
+    .eq('user_id', userId)
+    .not('recurrence_rule', 'is', null)
+    .is('recurrence_parent_id', null)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as RecurringTemplate[];
+}
+
+/**
+ * 今後の期間分のインスタンスを生成
+ * 曜日・日付はユーザーのタイムゾーンで判定（timeZone 未指定時は users.time_zone を読む）
+ */
+export async function generateUpcomingInstances(
+  supabase: SupabaseClient,
+  template: RecurringTemplate,
+  options: { now?: Date; horizonDays?: number; timeZone?: string } = {}
+): Promise<RecurringInstance[]> {
+  const now = options.now ?? new Date();
+  const horizonDays = options.horizonDays ?? RECURRENCE_HORIZON_DAYS;
+  const timeZone = options.timeZone ?? (await getUserLocale(supabase, template.user_id)).timeZone;
+
+  const from = startOfDayIn(now, timeZone);
+  const to = addDaysIn(from, horizonDays, timeZone);
+
+  const occurrences = getOccurrences(template.recurrence_rule, getSeriesStart(template), {
+    from,
+    to,
+    limit: MAX_INSTANCES_PER_RUN,
+    timeZone,
+  });
+  const dateKeys = occurrences.map(occurrence => toDateKeyIn(occurrence, timeZone));
+
+  if (occurrences.length === 0) return [];
+
+  // 既に存在する発生日（完了済み・キャンセル済みを含む）は再生成しない
+  const { data: existing, error } = await supabase
+    .from('tasks')
+    .select('recurrence_instance_date')
+    .eq('recurrence_parent_id', template.id)
+    .in('recurrence_instance_date', dateKeys);
+
+  if (error) throw error;
+
+  const existingDates = new Set((existing || []).map(row => row.recurrence_instance_date));
+  const missing = occurrences.filter((_, index) => !existingDates.has(dateKeys[index]));
+
+  return insertInstances(supabase, template, missing, timeZone);
+}
+
+/**
+ * ユーザーの全シリーズについてインスタンスを生成
+ */
+export async function generateInstancesForUser(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { now?: Date; horizonDays?: number; timeZone?: string } = {}
+): Promise<{ templates: number; created: number }> {
+  const templates = await listTemplates(supabase, userId);
+  const timeZone = options.timeZone ?? (await getUserLocale(supabase, userId)).timeZone;
+
+  let created = 0;
+  for (const template of templates) {
+    const instances = await generateUpcomingInstances(supabase, template, { ...options, timeZone });
+    created += instances.length;
+  }
+
+  return { templates: templates.length, created };
+}
+
+/**
+ * インスタンス完了（またはキャンセル）時にシリーズを先へ進める
+ * 未完了の後続インスタンスが無ければ次回分を期間外でも1件生成する
+ */
+export async function rollSeriesForward(
+  supabase: SupabaseClient,
+  instance: { user_id: string; recurrence_parent_id?: string | null; recurrence_instance_date?: string | null }
+): Promise<RecurringInstance | null> {
+  if (!instance.recurrence_parent_id || !instance.recurrence_instance_date) return null;
+
+  const template = await getTemplate(supabase, instance.user_id, instance.recurrence_parent_id);
+  if (!template) return null;
+
+  const { timeZone } = await getUserLocale(supabase, instance.user_id);
+  await generateUpcomingInstances(supabase, template, { timeZone });
+
+  const { data: upcoming, error } = await supabase
+    .from('tasks')
+    .select('id, status, scheduled_date, recurrence_parent_id, recurrence_instance_date')
+    .eq('recurrence_parent_id', template.id)
+    .in('status', ['pending', 'in_progress'])
+    .gt('recurrence_instance_date', instance.recurrence_instance_date)
+    .order('recurrence_instance_date', { ascending: true })
+    .limit(1);
+
+  if (error) throw error;
+  if (upcoming && upcoming.length > 0) return upcoming[0] as RecurringInstance;
+
+  // 最後に生成済みの発生日の次を求める
+  const { data: latest } = await supabase
+    .from('tasks')
+    .select('scheduled_date')
+    .eq('recurrence_parent_id', template.id)
+    .order('recurrence_instance_date', { ascending: false })
+    .limit(1);
+
+  const after = latest?.[0]?.scheduled_date ? new Date(latest[0].scheduled_date) : new Date();
+  const next = getNextOccurrence(template.recurrence_rule, getSeriesStart(template), after, timeZone);
+  if (!next) return null;
+
+  const [created] = await insertInstances(supabase, template, [next], timeZone);
+  return created ?? null;
+}
+
+/**
+ * インスタンス削除時に発生日を除外日としてテンプレートへ記録（再生成防止）
+ */
+export async function excludeOccurrence(
+  supabase: SupabaseClient,
+  instance: { user_id: string; recurrence_parent_id?: string | null; recurrence_instance_date?: string | null }
+): Promise<void> {
+  if (!instance.recurrence_parent_id || !instance.recurrence_instance_date) return;
+
+  const template = await getTemplate(supabase, instance.user_id, instance.recurrence_parent_id);
+  if (!template) return;
+
+  const exceptions = new Set(template.recurrence_rule.exceptions || []);
+  if (exceptions.has(instance.recurrence_instance_date)) return;
+  exceptions.add(instance.recurrence_instance_date);
+
+  const { error } = await supabase
+    .from('tasks')
+    .update({
+      recurrence_rule: { ...template.recurrence_rule, exceptions: Array.from(exceptions).sort() },
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', template.id);
+
+  if (error) throw error;
+}
+
+/**
+ * 未着手の今後のインスタンスを削除（fromDate のユーザーのタイムゾーンでの日付以降）
+ */
+export async function deleteFutureInstances(
+  supabase: SupabaseClient,
+  templateId: string,
+  timeZone: string,
+  fromDate: Date = new Date()
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('tasks')
+    .delete()
+    .eq('recurrence_parent_id', templateId)
+    .eq('status', 'pending')
+    .gte('recurrence_instance_date', toDateKeyIn(fromDate, timeZone))
+    .select('id');
+
+  if (error) throw error;
+  return data?.length || 0;
+}
+
+/**
+ * ルール変更: テンプレートを更新し、未着手の今後のインスタンスを作り直す
+ */
+export async function updateSeriesRule(
+  supabase: SupabaseClient,
+  template: RecurringTemplate,
+  rule: RecurrenceRule
+): Promise<{ removed: number; created: RecurringInstance[] }> {
+  const { timeZone } = await getUserLocale(supabase, template.user_id);
+  const normalized = normalizeRecurrenceRule(rule, getSeriesStart(template), timeZone);
+
+  const { error } = await supabase
+    .from('tasks')
+    .update({ recurrence_rule: normalized, updated_at: new Date().toISOString() })
+    .eq('id', template.id);
+
+  if (error) throw error;
+
+  const removed = await deleteFutureInstances(supabase, template.id, timeZone);
+  const created = await generateUpcomingInstances(supabase, { ...template, recurrence_rule: normalized }, { timeZone });
+
+  return { removed, created };
+}
+
+/**
+ * シリーズ終了: 終了日を昨日に設定し、未着手の今後のインスタンスを削除
+ */
+export async function endSeries(
+  supabase: SupabaseClient,
+  template: RecurringTemplate,
+  endDate: Date = new Date()
+): Promise<{ removed: number }> {
+  const { timeZone } = await getUserLocale(supabase, template.user_id);
+  const until = addDaysToDateKey(toDateKeyIn(endDate, timeZone), -1);
+
+  const rule: RecurrenceRule = { ...template.recurrence_rule, until };
+  delete rule.count;
+
+  const { error } = await supabase
+    .from('tasks')
+    .update({ recurrence_rule: rule, updated_at: new Date().toISOString() })
+    .eq('id', template.id);
+
+  if (error) throw error;
+
+  const removed = await deleteFutureInstances(supabase, template.id, timeZone, endDate);
+  return { removed };
+}
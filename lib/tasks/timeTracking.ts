@@ -0,0 +1,317 @@
+// ===========================================
+// Task Time Tracking - AI Schedule Assistant
+// 作業セッション（一時停止・再開で区切った実作業時間）とポモドーロの状態管理
+// ===========================================
+
+import { ValidationError } from '@/lib/errors';
+
+export interface TimeTrackingSession {
+  started_at: string;
+  ended_at?: string;
+  duration_minutes?: number;
+  status: 'active' | 'completed';
+}
+
+export interface PomodoroSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  longBreakInterval: number; // 何ポモドーロごとに長い休憩にするか
+}
+
+export interface PomodoroState extends PomodoroSettings {
+  completedPomodoros: number;
+  breakEndsAt: string | null; // 休憩中のみ
+}
+
+/**
+ * tasks.time_tracking_data の内容
+ */
+export interface TimeTrackingData {
+  sessions?: TimeTrackingSession[];
+  pomodoro?: PomodoroState | null;
+  paused_at?: string | null;
+}
+
+export interface TrackedTask {
+  status: string;
+  started_at?: string | null;
+  time_tracking_data?: TimeTrackingData | null;
+}
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakInterval: 4,
+};
+
+export const TimerState = {
+  IDLE: 'idle',
+  RUNNING: 'running',
+  PAUSED: 'paused',
+  ON_BREAK: 'on_break',
+} as const;
+
+export type TimerState = typeof TimerState[keyof typeof TimerState];
+
+export interface TimerStatus {
+  state: TimerState;
+  sessionStartedAt: string | null;
+  trackedSeconds: number; // 実行中のセッションを含む合計
+  sessionCount: number;
+  pomodoro: (PomodoroState & {
+    phase: 'work' | 'break';
+    phaseEndsAt: string | null; // 作業中は作業時間の終わり、休憩中は休憩の終わり
+  }) | null;
+}
+
+const POMODORO_LIMITS: Record<keyof PomodoroSettings, [number, number]> = {
+  workMinutes: [1, 180],
+  shortBreakMinutes: [1, 60],
+  longBreakMinutes: [1, 120],
+  longBreakInterval: [1, 12],
+};
+
+/**
+ * ポモドーロ設定を検証して既定値で補う
+ */
+export function parsePomodoroSettings(input: unknown): PomodoroSettings {
+  if (input === true || input === undefined || input === null) {
+    return { ...DEFAULT_POMODORO_SETTINGS };
+  }
+
+  if (typeof input !== 'object') {
+    throw new ValidationError('pomodoroはtrueまたは設定のオブジェクトで指定してください');
+  }
+
+  const settings = { ...DEFAULT_POMODORO_SETTINGS };
+  const fieldErrors: Record<string, string[]> = {};
+
+  for (const [key, [min, max]] of Object.entries(POMODORO_LIMITS) as [keyof PomodoroSettings, [number, number]][]) {
+    const value = (input as Record<string, unknown>)[key];
+    if (value === undefined) continue;
+
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      fieldErrors[key] = [`${min}〜${max}の整数で指定してください`];
+      continue;
+    }
+    settings[key] = value;
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError('ポモドーロの設定が正しくありません', fieldErrors);
+  }
+
+  return settings;
+}
+
+/**
+ * 新しい作業セッションを追加した time_tracking_data（実行中のセッションがあればそのまま）
+ */
+export function openSession(task: TrackedTask, now: Date = new Date()): TimeTrackingData {
+  const currentData = task.time_tracking_data || {};
+  const sessions = currentData.sessions || [];
+
+  if (sessions.some(session => session.status === 'active')) {
+    return currentData;
+  }
+
+  return {
+    ...currentData,
+    sessions: [...sessions, { started_at: now.toISOString(), status: 'active' }],
+    paused_at: null,
+  };
+}
+
+/**
+ * 進行中の作業セッションを閉じた time_tracking_data
+ */
+export function closeActiveSession(task: TrackedTask, now: Date = new Date()): TimeTrackingData {
+  const currentData = task.time_tracking_data || { sessions: [] };
+  const sessions = (currentData.sessions || []).map(session => {
+    if (session.status !== 'active') return session;
+
+    return {
+      ...session,
+      ended_at: now.toISOString(),
+      status: 'completed' as const,
+      duration_minutes: Math.round(sessionMilliseconds(session, now) / (1000 * 60)),
+    };
+  });
+
+  return {
+    ...currentData,
+    sessions,
+  };
+}
+
+/**
+ * 作業セッションの合計（分）。セッションの記録がない古いタスクは開始時刻からの経過時間
+ */
+export function getTrackedMinutes(task: TrackedTask, now: Date = new Date()): number | undefined {
+  const sessions = task.time_tracking_data?.sessions || [];
+
+  if (sessions.length === 0) {
+    return task.started_at
+      ? Math.round((now.getTime() - new Date(task.started_at).getTime()) / (1000 * 60))
+      : undefined;
+  }
+
+  return Math.round(sumSessionMilliseconds(sessions, now) / (1000 * 60));
+}
+
+/**
+ * タイマーの現在の状態
+ */
+export function getTimerStatus(task: TrackedTask, now: Date = new Date()): TimerStatus {
+  const data = task.time_tracking_data || {};
+  const sessions = data.sessions || [];
+  const activeSession = sessions.find(session => session.status === 'active') || null;
+  const pomodoro = data.pomodoro || null;
+
+  let state: TimerState = TimerState.IDLE;
+  if (activeSession) {
+    state = TimerState.RUNNING;
+  } else if (pomodoro?.breakEndsAt) {
+    state = TimerState.ON_BREAK;
+  } else if (task.status === 'in_progress') {
+    state = TimerState.PAUSED;
+  }
+
+  return {
+    state,
+    sessionStartedAt: activeSession?.started_at ?? null,
+    trackedSeconds: Math.round(sumSessionMilliseconds(sessions, now) / 1000),
+    sessionCount: sessions.length,
+    pomodoro: pomodoro ? {
+      ...pomodoro,
+      phase: state === TimerState.ON_BREAK ? 'break' : 'work',
+      phaseEndsAt: state === TimerState.ON_BREAK
+        ? pomodoro.breakEndsAt
+        : activeSession
+          ? new Date(new Date(activeSession.started_at).getTime() + pomodoro.workMinutes * 60 * 1000).toISOString()
+          : null,
+    } : null,
+  };
+}
+
+/**
+ * 計測開始（タスクを進行中にする）。pomodoroを指定するとポモドーロモードで始める
+ */
+export function startTimer(
+  task: TrackedTask,
+  options: { pomodoro?: PomodoroSettings | null } = {},
+  now: Date = new Date()
+): Record<string, unknown> {
+  if (task.status === 'completed' || task.status === 'cancelled') {
+    throw new ValidationError('完了・キャンセル済みのタスクは計測できません');
+  }
+
+  if (getTimerStatus(task, now).state === TimerState.RUNNING) {
+    throw new ValidationError('すでに計測中です');
+  }
+
+  const data = openSession(task, now);
+
+  return {
+    status: 'in_progress',
+    ...(task.status !== 'in_progress' && { started_at: now.toISOString() }),
+    time_tracking_data: {
+      ...data,
+      pomodoro: options.pomodoro
+        ? { ...options.pomodoro, completedPomodoros: 0, breakEndsAt: null }
+        : null,
+    },
+  };
+}
+
+/**
+ * 一時停止。ポモドーロの作業時間を終えていれば休憩に入る
+ */
+export function pauseTimer(task: TrackedTask, now: Date = new Date()): Record<string, unknown> {
+  const status = getTimerStatus(task, now);
+  if (status.state !== TimerState.RUNNING) {
+    throw new ValidationError('計測中ではありません');
+  }
+
+  const data = closeActiveSession(task, now);
+  let pomodoro = data.pomodoro || null;
+
+  if (pomodoro && status.pomodoro?.phaseEndsAt && now >= new Date(status.pomodoro.phaseEndsAt)) {
+    const completedPomodoros = pomodoro.completedPomodoros + 1;
+    const breakMinutes = completedPomodoros % pomodoro.longBreakInterval === 0
+      ? pomodoro.longBreakMinutes
+      : pomodoro.shortBreakMinutes;
+
+    pomodoro = {
+      ...pomodoro,
+      completedPomodoros,
+      breakEndsAt: new Date(now.getTime() + breakMinutes * 60 * 1000).toISOString(),
+    };
+  }
+
+  return {
+    actual_minutes: getTrackedMinutes({ ...task, time_tracking_data: data }, now),
+    time_tracking_data: {
+      ...data,
+      pomodoro,
+      paused_at: now.toISOString(),
+    },
+  };
+}
+
+/**
+ * 一時停止・休憩からの再開
+ */
+export function resumeTimer(task: TrackedTask, now: Date = new Date()): Record<string, unknown> {
+  const status = getTimerStatus(task, now);
+  if (status.state !== TimerState.PAUSED && status.state !== TimerState.ON_BREAK) {
+    throw new ValidationError('一時停止中ではありません');
+  }
+
+  const data = openSession(task, now);
+
+  return {
+    time_tracking_data: {
+      ...data,
+      pomodoro: data.pomodoro ? { ...data.pomodoro, breakEndsAt: null } : null,
+    },
+  };
+}
+
+/**
+ * 計測終了（タスクは未着手に戻る。完了にする場合はタスク更新APIで完了にする）
+ */
+export function stopTimer(task: TrackedTask, now: Date = new Date()): Record<string, unknown> {
+  const status = getTimerStatus(task, now);
+  if (status.state === TimerState.IDLE) {
+    throw new ValidationError('計測していません');
+  }
+
+  const data = closeActiveSession(task, now);
+
+  return {
+    status: 'pending',
+    actual_minutes: getTrackedMinutes({ ...task, time_tracking_data: data }, now),
+    time_tracking_data: {
+      ...data,
+      pomodoro: null,
+      paused_at: null,
+    },
+  };
+}
+
+function sessionMilliseconds(session: TimeTrackingSession, now: Date): number {
+  // 終了時刻も実行中の印もない記録（以前のトリガーが追加した開始時刻のみの記録）は数えない
+  if (!session.ended_at && session.status !== 'active') return 0;
+
+  const end = session.ended_at ? new Date(session.ended_at) : now;
+  return Math.max(0, end.getTime() - new Date(session.started_at).getTime());
+}
+
+function sumSessionMilliseconds(sessions: TimeTrackingSession[], now: Date): number {
+  return sessions
+    .filter(session => session.started_at)
+    .reduce((total, session) => total + sessionMilliseconds(session, now), 0);
+}
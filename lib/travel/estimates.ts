@@ -0,0 +1,138 @@
+// ===========================================
+// Travel Estimates - AI Schedule Assistant
+// 予定ごとの移動時間の見積もりと events.travel_minutes への保存
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TravelBase, TravelMode, TravelPreferences } from '@/types/shared';
+import { RoutableTravelMode, RoutingProvider, TravelEstimateRequest, createRoutingProvider } from './routing';
+
+/**
+ * 1回の更新で見積もる最大件数（残りは次回の同期で見積もる）
+ */
+const MAX_ESTIMATES_PER_RUN = 50;
+
+/**
+ * 移動を伴わない場所（オンライン会議のURLなど）
+ */
+const VIRTUAL_LOCATION_PATTERN = /^https?:\/\/|オンライン|online|zoom|teams\.microsoft|meet\.google|webex/i;
+
+/**
+ * 移動時間の見積もりに必要な予定の列
+ */
+export const EVENT_TRAVEL_COLUMNS = 'location, travel_mode, travel_origin, travel_minutes, travel_estimate_key';
+
+export interface TravelEvent {
+  id: string;
+  start_time: string;
+  location?: string | null;
+  travel_mode?: TravelMode | null;
+  travel_origin?: TravelBase | null;
+  travel_minutes?: number | null;
+  travel_estimate_key?: string | null;
+}
+
+export interface ResolvedEventTravel {
+  mode: RoutableTravelMode;
+  origin: TravelBase;
+  request: TravelEstimateRequest;
+  key: string;   // 出発地・目的地・移動手段（公共交通機関は到着時刻も）が変わったときだけ見積もり直す
+}
+
+/**
+ * 予定の移動手段・出発地を設定から解決（移動しない予定・出発地が未登録の場合は null）
+ */
+export function resolveEventTravel(event: TravelEvent, prefs: TravelPreferences): ResolvedEventTravel | null {
+  const mode = event.travel_mode || prefs.default_mode;
+  const origin = event.travel_origin || prefs.default_base;
+  const destination = event.location?.trim();
+  const base = prefs[origin];
+
+  if (mode === 'none' || !destination || !base) return null;
+  if (VIRTUAL_LOCATION_PATTERN.test(destination)) return null;
+
+  const normalize = (value: string) => value.normalize('NFKC').toLowerCase().replace(/\s+/g, '');
+  if (normalize(base.address) === normalize(destination)) return null;
+
+  const arrivalTime = new Date(event.start_time);
+  const key = [
+    mode,
+    normalize(base.address),
+    normalize(destination),
+    ...(mode === 'transit' ? [arrivalTime.toISOString()] : []),
+  ].join('|');
+
+  return {
+    mode,
+    origin,
+    request: { origin: base.address, destination, mode, arrivalTime },
+    key,
+  };
+}
+
+/**
+ * 予定の移動時間を見積もって events に保存し、引数の予定の travel_minutes も更新する
+ * 見積もりの条件（estimate key）が変わった予定だけをプロバイダーに問い合わせる。
+ * プロバイダーのエラー時は前回の見積もりのまま（次回の同期で再試行）
+ */
+export async function updateTravelEstimates<T extends TravelEvent>(
+  supabase: SupabaseClient,
+  events: T[],
+  prefs: TravelPreferences,
+  provider?: RoutingProvider
+): Promise<T[]> {
+  const now = new Date().toISOString();
+  const cache = new Map<string, number | null>();
+  let estimated = 0;
+
+  for (const event of events) {
+    const travel = resolveEventTravel(event, prefs);
+    const key = travel?.key ?? null;
+    if (key === (event.travel_estimate_key ?? null)) continue;
+
+    let minutes: number | null = null;
+    if (travel) {
+      if (cache.has(travel.key)) {
+        minutes = cache.get(travel.key)!;
+      } else {
+        if (estimated >= MAX_ESTIMATES_PER_RUN) continue;
+        estimated++;
+        if (!provider) {
+          try {
+            provider = createRoutingProvider();
+          } catch (error) {
+            console.error('ルーティングプロバイダーの設定エラー:', error);
+            return events;
+          }
+        }
+        try {
+          const estimate = await provider.estimate(travel.request);
+          minutes = estimate ? Math.max(0, Math.round(estimate.minutes)) : null;
+          cache.set(travel.key, minutes);
+        } catch (error) {
+          console.error(`移動時間の見積もりエラー (event: ${event.id}):`, error);
+          continue;
+        }
+      }
+    }
+
+    const { error } = await supabase
+      .from('events')
+      .update({
+        travel_minutes: minutes,
+        travel_estimate_key: key,
+        travel_estimated_at: key ? now : null,
+      })
+      .eq('id', event.id);
+
+    if (error) {
+      console.error(`移動時間の保存エラー (event: ${event.id}):`, error);
+      continue;
+    }
+
+    event.travel_minutes = minutes;
+    event.travel_estimate_key = key;
+  }
+
+  return events;
+}
@@ -0,0 +1,112 @@
+// ===========================================
+// Travel Preferences - AI Schedule Assistant
+// 自宅・職場の拠点と既定の移動手段（users.settings.travel_preferences）の検証と読み込み
+// ===========================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TravelLocation, TravelMode, TravelPreferences } from '@/types/shared';
+
+const TRAVEL_MODES = Object.values(TravelMode);
+const TRAVEL_BASES = ['home', 'office'];
+const MAX_ADDRESS_LENGTH = 500;
+const MAX_LABEL_LENGTH = 100;
+
+export const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+  none: '移動なし',
+  walking: '徒歩',
+  bicycling: '自転車',
+  transit: '電車・バス',
+  driving: '車',
+};
+
+export const DEFAULT_TRAVEL_PREFERENCES: TravelPreferences = {
+  home: null,
+  office: null,
+  default_base: 'office',
+  default_mode: 'none',
+  arrival_buffer_minutes: 5,
+};
+
+export function isValidTravelMode(value: unknown): value is TravelMode {
+  return typeof value === 'string' && (TRAVEL_MODES as string[]).includes(value);
+}
+
+export function isValidTravelBase(value: unknown): value is TravelPreferences['default_base'] {
+  return typeof value === 'string' && TRAVEL_BASES.includes(value);
+}
+
+function isValidLocation(value: unknown): value is TravelLocation | null {
+  if (value === null) return true;
+  const location = value as TravelLocation;
+  return typeof location === 'object'
+    && typeof location.address === 'string' && location.address.trim().length > 0
+    && location.address.length <= MAX_ADDRESS_LENGTH
+    && (location.label === undefined || (typeof location.label === 'string' && location.label.length <= MAX_LABEL_LENGTH));
+}
+
+/**
+ * 移動設定の検証
+ */
+export function validateTravelPreferences(prefs: Partial<TravelPreferences> | null | undefined): string[] {
+  const errors: string[] = [];
+  if (!prefs) return errors;
+
+  if (prefs.home !== undefined && !isValidLocation(prefs.home)) {
+    errors.push(`自宅は ${MAX_ADDRESS_LENGTH} 文字以内の住所（address）で指定してください`);
+  }
+
+  if (prefs.office !== undefined && !isValidLocation(prefs.office)) {
+    errors.push(`職場は ${MAX_ADDRESS_LENGTH} 文字以内の住所（address）で指定してください`);
+  }
+
+  if (prefs.default_base !== undefined && !isValidTravelBase(prefs.default_base)) {
+    errors.push('既定の出発地は home / office のいずれかで指定してください');
+  }
+
+  if (prefs.default_mode !== undefined && !isValidTravelMode(prefs.default_mode)) {
+    errors.push(`既定の移動手段は ${TRAVEL_MODES.join(' / ')} のいずれかで指定してください`);
+  }
+
+  if (prefs.arrival_buffer_minutes !== undefined) {
+    const value = prefs.arrival_buffer_minutes;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 120) {
+      errors.push('到着の余裕は0〜120分の整数で指定してください');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * 保存された設定をデフォルトにマージ（不正な値はデフォルトのまま）
+ */
+export function resolveTravelPreferences(
+  ...sources: (Partial<TravelPreferences> | null | undefined)[]
+): TravelPreferences {
+  const resolved: TravelPreferences = { ...DEFAULT_TRAVEL_PREFERENCES };
+
+  for (const source of sources) {
+    if (!source) continue;
+    for (const key of Object.keys(source) as (keyof TravelPreferences)[]) {
+      if (source[key] === undefined) continue;
+      if (validateTravelPreferences({ [key]: source[key] }).length > 0) continue;
+      Object.assign(resolved, { [key]: source[key] });
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * ユーザーの移動設定を取得（未設定の項目はデフォルト）
+ */
+export async function getTravelPreferences(supabase: SupabaseClient, userId: string): Promise<TravelPreferences> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('settings')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return resolveTravelPreferences(data?.settings?.travel_preferences);
+}
@@ -0,0 +1,188 @@
+// ===========================================
+// Routing Provider - AI Schedule Assistant
+// 出発地から予定の場所までの移動時間の見積もり（Google Maps Distance Matrix API と固定の所要時間表）
+// ===========================================
+
+import { TravelMode } from '@/types/shared';
+import { TRAVEL_CONFIG } from '@/lib/config/environment';
+import { ConfigurationError, ExternalAPIError } from '@/lib/errors';
+
+/**
+ * 移動手段（none 以外）
+ */
+export type RoutableTravelMode = Exclude<TravelMode, 'none'>;
+
+export interface TravelEstimateRequest {
+  origin: string;
+  destination: string;
+  mode: RoutableTravelMode;
+  arrivalTime: Date;   // 到着したい時刻（公共交通機関の時刻表・渋滞の考慮に使う）
+}
+
+export interface TravelEstimate {
+  minutes: number;
+  distanceMeters?: number;
+}
+
+/**
+ * 移動時間の見積もりの実装
+ */
+export interface RoutingProvider {
+  readonly name: string;
+  /** 経路が見つからない場合は null（通信エラーなどは例外） */
+  estimate(request: TravelEstimateRequest): Promise<TravelEstimate | null>;
+}
+
+/**
+ * 固定の所要時間表の1行
+ * from / to は住所・地名（"*" はどこでも一致）、minutes は移動手段ごとの所要時間（分）
+ */
+export interface StaticRoute {
+  from: string;
+  to: string;
+  minutes: Partial<Record<RoutableTravelMode, number>>;
+}
+
+const GOOGLE_DISTANCE_MATRIX_URL = 'https://maps.googleapis.com/maps/api/distancematrix/json';
+
+/**
+ * 住所の比較用の正規化（全角・半角、大文字・小文字、空白の違いを無視）
+ */
+function normalizePlace(value: string): string {
+  return value.normalize('NFKC').toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * 固定の所要時間表で見積もる（ローカル開発・テスト用、外部APIを呼ばない）
+ * 経路は双方向とみなし、完全一致の行を "*" を含む行より優先する
+ */
+export class StaticTableRoutingProvider implements RoutingProvider {
+  readonly name = 'static';
+
+  constructor(private readonly routes: StaticRoute[]) {}
+
+  async estimate(request: TravelEstimateRequest): Promise<TravelEstimate | null> {
+    const origin = normalizePlace(request.origin);
+    const destination = normalizePlace(request.destination);
+
+    const matchScore = (route: StaticRoute): number => {
+      const from = normalizePlace(route.from);
+      const to = normalizePlace(route.to);
+      const score = (pattern: string, place: string) => pattern === place ? 2 : pattern === '*' ? 1 : 0;
+      const forward = Math.min(score(from, origin), score(to, destination));
+      const backward = Math.min(score(from, destination), score(to, origin));
+      return Math.max(forward, backward);
+    };
+
+    let best: { score: number; minutes: number } | null = null;
+    for (const route of this.routes) {
+      const minutes = route.minutes[request.mode];
+      if (typeof minutes !== 'number') continue;
+      const score = matchScore(route);
+      if (score > 0 && (!best || score > best.score)) {
+        best = { score, minutes };
+      }
+    }
+
+    return best ? { minutes: best.minutes } : null;
+  }
+}
+
+/**
+ * Google Maps Distance Matrix API で見積もる
+ */
+export class GoogleMapsRoutingProvider implements RoutingProvider {
+  readonly name = 'google';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly timeoutMs: number = TRAVEL_CONFIG.requestTimeoutMs
+  ) {}
+
+  async estimate(request: TravelEstimateRequest): Promise<TravelEstimate | null> {
+    const params = new URLSearchParams({
+      origins: request.origin,
+      destinations: request.destination,
+      mode: request.mode,
+      language: 'ja',
+      key: this.apiKey,
+    });
+    // 公共交通機関は到着時刻に間に合う便の時刻表で見積もる
+    if (request.mode === 'transit') {
+      params.set('arrival_time', String(Math.floor(request.arrivalTime.getTime() / 1000)));
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${GOOGLE_DISTANCE_MATRIX_URL}?${params}`, { signal: controller.signal });
+      if (!response.ok) {
+        throw new ExternalAPIError('Google Maps', `Distance Matrix request failed with ${response.status}`);
+      }
+
+      const data = await response.json();
+      if (data.status !== 'OK') {
+        throw new ExternalAPIError('Google Maps', `Distance Matrix returned ${data.status}`, {
+          errorMessage: data.error_message,
+        });
+      }
+
+      const element = data.rows?.[0]?.elements?.[0];
+      if (!element || element.status === 'ZERO_RESULTS' || element.status === 'NOT_FOUND') {
+        return null;
+      }
+      if (element.status !== 'OK' || typeof element.duration?.value !== 'number') {
+        throw new ExternalAPIError('Google Maps', `Distance Matrix element returned ${element.status}`);
+      }
+
+      return {
+        minutes: Math.ceil(element.duration.value / 60),
+        distanceMeters: element.distance?.value,
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new ExternalAPIError('Google Maps', 'Distance Matrix request timed out');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+/**
+ * TRAVEL_STATIC_TABLE（JSON）を所要時間表に変換（不正な行は無視）
+ */
+export function parseStaticRoutes(json: string | undefined): StaticRoute[] {
+  if (!json) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new ConfigurationError('TRAVEL_STATIC_TABLE', 'TRAVEL_STATIC_TABLE は JSON の配列で指定してください');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new ConfigurationError('TRAVEL_STATIC_TABLE', 'TRAVEL_STATIC_TABLE は JSON の配列で指定してください');
+  }
+
+  return parsed.filter((route): route is StaticRoute =>
+    typeof route?.from === 'string' && typeof route?.to === 'string'
+    && typeof route?.minutes === 'object' && route.minutes !== null
+  );
+}
+
+/**
+ * 設定（ROUTING_PROVIDER）に応じたプロバイダーを作成
+ */
+export function createRoutingProvider(name: string = TRAVEL_CONFIG.provider): RoutingProvider {
+  if (name === 'google') {
+    if (!TRAVEL_CONFIG.googleMapsApiKey) {
+      throw new ConfigurationError('GOOGLE_MAPS_API_KEY', 'Google Maps で移動時間を見積もるには GOOGLE_MAPS_API_KEY が必要です');
+    }
+    return new GoogleMapsRoutingProvider(TRAVEL_CONFIG.googleMapsApiKey);
+  }
+
+  return new StaticTableRoutingProvider(parseStaticRoutes(TRAVEL_CONFIG.staticTable));
+}
@@ -2,6 +2,9 @@
 // バージョン管理とキャッシュ戦略
 
 const CACHE_NAME = 'ai-schedule-assistant-v1';
+// 登録済みデバイスのIDを保存するキャッシュ（Service WorkerからはlocalStorageを使えないため）
+const DEVICE_CACHE_NAME = 'ai-schedule-assistant-device';
+const DEVICE_ID_KEY = '/device-id';
 const STATIC_ASSETS = [
   '/',
   '/manifest.json',
@@ -38,7 +41,7 @@ self.addEventListener('activate', (event) => {
       .then((cacheNames) => {
         return Promise.all(
           cacheNames.map((cacheName) => {
-            if (cacheName !== CACHE_NAME) {
+            if (cacheName !== CACHE_NAME && cacheName !== DEVICE_CACHE_NAME) {
               console.log('Service Worker: Deleting old cache', cacheName);
               return caches.delete(cacheName);
             }
@@ -73,6 +76,13 @@ self.addEventListener('push', (event) => {
   if (event.data) {
     try {
       const pushData = event.data.json();
+
+      // 他のデバイスで対応済みになった通知を閉じる
+      if (pushData.retract) {
+        event.waitUntil(closeNotification(pushData.notificationId, pushData.tag));
+        return;
+      }
+
       notificationData = {
         ...notificationData,
         ...pushData
@@ -82,6 +92,7 @@ self.addEventListener('push', (event) => {
     }
   }
 
+  // 表示できたらサーバーに確認を送る（確認が届くまでサーバー側では送信済みにならない）
   event.waitUntil(
     self.registration.showNotification(notificationData.title, {
       body: notificationData.body,
@@ -90,7 +101,8 @@ self.addEventListener('push', (event) => {
       tag: notificationData.tag,
       requireInteraction: notificationData.requireInteraction,
       data: notificationData.data,
-      actions: [
+      // タスクの通知には完了・スヌーズ・延期のボタンを付ける（表示できる数はブラウザによる）
+      actions: notificationData.actions || [
         {
           action: 'view',
           title: '確認する',
@@ -104,16 +116,172 @@ self.addEventListener('push', (event) => {
       ],
       vibrate: [200, 100, 200],
       silent: false
-    })
+    }).then(() => acknowledgeNotification(notificationData.data))
+  );
+});
+
+async function closeNotification(notificationId, tag) {
+  const notifications = await self.registration.getNotifications(tag ? { tag } : undefined);
+  for (const notification of notifications) {
+    if (!notificationId || (notification.data && notification.data.notificationId === notificationId)) {
+      notification.close();
+    }
+  }
+}
+
+// プッシュ購読の更新（ブラウザが購読を作り直した場合）
+self.addEventListener('pushsubscriptionchange', (event) => {
+  console.log('Service Worker: Push subscription changed');
+
+  event.waitUntil(
+    resubscribe(event.oldSubscription, event.newSubscription)
+      .catch((error) => {
+        console.error('Service Worker: Failed to renew push subscription', error);
+      })
   );
 });
 
+async function resubscribe(oldSubscription, newSubscription) {
+  let subscription = newSubscription;
+
+  if (!subscription) {
+    const response = await fetch('/api/notifications/push');
+    if (!response.ok) return;
+
+    const { publicKey } = await response.json();
+    if (!publicKey) return;
+
+    subscription = await self.registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(publicKey)
+    });
+  }
+
+  await fetch('/api/notifications/push', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      subscription: subscription.toJSON(),
+      oldEndpoint: oldSubscription ? oldSubscription.endpoint : undefined,
+      deviceId: await getDeviceId()
+    })
+  });
+}
+
+// 通知がクリック・消去されたことを伝える（他のデバイスの通知が取り消される）
+async function resolveNotification(data, action) {
+  if (!data || !data.notificationId || !data.resolveToken) return;
+
+  try {
+    await fetch('/api/notifications/resolve', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        notificationId: data.notificationId,
+        token: data.resolveToken,
+        action,
+        deviceId: await getDeviceId()
+      })
+    });
+  } catch (error) {
+    console.error('Service Worker: Failed to resolve notification', error);
+  }
+}
+
+// 通知のボタンの操作を実行する
+async function performNotificationAction(data, action) {
+  try {
+    const response = await fetch('/api/notifications/action', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        notificationId: data.notificationId,
+        action,
+        token: data.actionTokens[action],
+        deviceId: await getDeviceId()
+      })
+    });
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({}));
+      await self.registration.showNotification('操作できませんでした', {
+        body: error || 'アプリから直接タスクを操作してください',
+        icon: '/icons/icon-192.png',
+        tag: `action-error-${data.notificationId}`
+      });
+    }
+  } catch (error) {
+    console.error('Service Worker: Failed to perform notification action', error);
+  }
+}
+
+async function getDeviceId() {
+  try {
+    const cache = await caches.open(DEVICE_CACHE_NAME);
+    const response = await cache.match(DEVICE_ID_KEY);
+    return response ? await response.text() : null;
+  } catch {
+    return null;
+  }
+}
+
+async function setDeviceId(deviceId) {
+  const cache = await caches.open(DEVICE_CACHE_NAME);
+  await cache.put(DEVICE_ID_KEY, new Response(deviceId));
+}
+
+// 通知を表示したことをサーバーに伝える
+async function acknowledgeNotification(data) {
+  if (!data || !data.notificationId || !data.ackToken) return;
+
+  try {
+    await fetch('/api/notifications/ack', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        notificationId: data.notificationId,
+        token: data.ackToken
+      })
+    });
+  } catch (error) {
+    // 確認が届かなかった通知はサーバー側で再送される
+    console.error('Service Worker: Failed to acknowledge notification', error);
+  }
+}
+
+function urlBase64ToUint8Array(base64String) {
+  const padding = '='.repeat((4 - base64String.length % 4) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const rawData = atob(base64);
+  return Uint8Array.from(rawData, (char) => char.charCodeAt(0));
+}
+
 // 通知クリックの処理
 self.addEventListener('notificationclick', (event) => {
   console.log('Service Worker: Notification clicked', event.action);
   
   event.notification.close();
 
+  const data = event.notification.data || {};
+
+  // 完了・スヌーズ・延期のボタン（サーバー側で対応済みにもなる）
+  if (event.action && data.actionTokens && data.actionTokens[event.action]) {
+    event.waitUntil(performNotificationAction(data, event.action));
+    return;
+  }
+
+  event.waitUntil(
+    resolveNotification(data, event.action === 'dismiss' ? 'dismiss' : 'click')
+  );
+
   if (event.action === 'view') {
     // アプリを開く
     event.waitUntil(
@@ -156,22 +324,29 @@ self.addEventListener('notificationclick', (event) => {
 self.addEventListener('notificationclose', (event) => {
   console.log('Service Worker: Notification closed', event.notification.tag);
   
-  // 通知が閉じられたことを分析データとして記録
+  const data = event.notification.data || {};
+
+  // 通知が閉じられたことを分析データとして記録し、他のデバイスの通知を取り消す
   event.waitUntil(
-    fetch('/api/analytics/notification-interaction', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        action: 'close',
-        tag: event.notification.tag,
-        timestamp: Date.now(),
-        userAgent: navigator.userAgent
-      })
-    }).catch((error) => {
-      console.error('Service Worker: Failed to log notification close', error);
-    })
+    Promise.all([
+      getDeviceId().then((deviceId) => fetch('/api/analytics/notification-interaction', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'close',
+          notificationId: data.notificationId,
+          tag: event.notification.tag,
+          timestamp: Date.now(),
+          userAgent: navigator.userAgent,
+          deviceId: deviceId || undefined
+        })
+      })).catch((error) => {
+        console.error('Service Worker: Failed to log notification close', error);
+      }),
+      resolveNotification(data, 'dismiss')
+    ])
   );
 });
 
@@ -189,7 +364,10 @@ self.addEventListener('sync', (event) => {
 // 未送信の通知をチェックする関数
 async function checkPendingNotifications() {
   try {
-    const response = await fetch('/api/notifications/pending');
+    const deviceId = await getDeviceId();
+    const response = await fetch(
+      deviceId ? `/api/notifications/pending?deviceId=${encodeURIComponent(deviceId)}` : '/api/notifications/pending'
+    );
     if (response.ok) {
       const pendingNotifications = await response.json();
       
@@ -198,8 +376,10 @@ async function checkPendingNotifications() {
           body: notification.body,
           icon: notification.icon || '/icons/icon-192.png',
           tag: notification.tag || 'pending-notification',
-          data: notification.data || {}
+          data: notification.data || {},
+          actions: notification.actions || []
         });
+        await acknowledgeNotification(notification.data);
       }
     }
   } catch (error) {
@@ -227,6 +407,8 @@ self.addEventListener('message', (event) => {
     }
   } else if (event.data && event.data.type === 'CHECK_NOTIFICATIONS') {
     event.waitUntil(checkPendingNotifications());
+  } else if (event.data && event.data.type === 'SET_DEVICE' && event.data.deviceId) {
+    event.waitUntil(setDeviceId(event.data.deviceId));
   }
 });
 
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCronSecret } from '@/lib/auth/server';
+import { ValidationError } from '@/lib/errors';
+import { createJobScheduler } from '@/lib/jobs/definitions';
+import { JobRunStatus } from '@/lib/jobs/scheduler';
+
+const RUN_STATUSES: JobRunStatus[] = ['running', 'succeeded', 'failed', 'skipped'];
+
+/**
+ * ジョブ管理API（運用者用）
+ * GET /api/admin/jobs?job=&userId=&status=&limit= - ジョブの定義・スケジュール（次回実行日時・実行中か）・実行履歴
+ * POST /api/admin/jobs - ジョブを今すぐ実行（次回の予定時刻は変えない）
+ *   body: { job: ジョブ名, userId?: ユーザーごとのジョブの場合は必須 }
+ *
+ * Authorization: Bearer <CRON_SECRET> が必要
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const errorResponse = requireCronSecret(request);
+    if (errorResponse) return errorResponse;
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { searchParams } = new URL(request.url);
+    const jobName = searchParams.get('job') || undefined;
+    const userId = searchParams.get('userId') || undefined;
+    const status = searchParams.get('status') as JobRunStatus | null;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 200);
+
+    if (status && !RUN_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status は ${RUN_STATUSES.join(', ')} のいずれかで指定してください` },
+        { status: 400 }
+      );
+    }
+
+    const scheduler = createJobScheduler(supabase);
+    if (jobName && !scheduler.getJob(jobName)) {
+      return NextResponse.json(
+        { error: `ジョブ「${jobName}」は定義されていません` },
+        { status: 404 }
+      );
+    }
+
+    const [schedules, runs] = await Promise.all([
+      scheduler.listSchedules({ jobName, userId, limit }),
+      scheduler.listRuns({ jobName, userId, status: status || undefined, limit }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      jobs: scheduler.getJobs().map(job => ({
+        name: job.name,
+        description: job.description,
+        scope: job.scope,
+        schedule: typeof job.schedule === 'string' ? job.schedule : 'per-user',
+        maxDelayMinutes: job.maxDelayMinutes ?? null,
+      })),
+      schedules,
+      runs,
+    });
+
+  } catch (error) {
+    console.error('ジョブ一覧取得エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'ジョブ情報の取得に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const errorResponse = requireCronSecret(request);
+    if (errorResponse) return errorResponse;
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const body = await request.json().catch(() => ({}));
+    const { job: jobName, userId } = body;
+
+    if (typeof jobName !== 'string' || !jobName) {
+      return NextResponse.json(
+        { error: '実行するジョブ名を指定してください' },
+        { status: 400 }
+      );
+    }
+
+    const scheduler = createJobScheduler(supabase);
+    if (!scheduler.getJob(jobName)) {
+      return NextResponse.json(
+        { error: `ジョブ「${jobName}」は定義されていません` },
+        { status: 404 }
+      );
+    }
+
+    const run = await scheduler.runNow(jobName, typeof userId === 'string' && userId ? userId : null);
+
+    if (!run) {
+      return NextResponse.json(
+        { error: `ジョブ「${jobName}」は実行中です。終了後にもう一度お試しください` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: run.status === 'succeeded',
+      run,
+      message: run.status === 'succeeded'
+        ? `ジョブ「${jobName}」を実行しました`
+        : `ジョブ「${jobName}」の実行に失敗しました`,
+    });
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('ジョブ手動実行エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'ジョブの実行に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { requireUser } from '@/lib/auth/server';
+import { AIFeature, OpenAIClient, createAIClient } from '@/lib/openai';
+import { dayRangeIn, getUserLocale, parseDateKey, toDateKeyIn } from '@/lib/schedule/timezone';
 
 interface DailySummaryRequest {
-  targetDate?: string; // YYYY-MM-DD format, defaults to today
+  targetDate?: string; // YYYY-MM-DD format (user's time zone), defaults to today
   userId?: string; // Optional, for manual generation
 }
 
@@ -60,7 +58,10 @@ function calculateTimeAccuracy(tasks: TaskCompletionData[]): number {
 /**
  * Generate AI-powered daily summary analysis
  */
-async function generateAISummary(summaryData: DailySummaryData): Promise<string> {
+async function generateAISummary(
+  aiClient: OpenAIClient,
+  summaryData: DailySummaryData
+): Promise<string> {
   const prompt = `以下のタスク実行データを分析し、1日の振り返りサマリーを生成してください：
 
 日付: ${summaryData.date}
@@ -90,8 +91,9 @@ ${summaryData.tasks.map(task => `- ${task.title}${task.category ? ` [${task.cate
 出力は日本語で、読みやすく親しみやすい口調でお願いします。`;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const aiResponse = await aiClient.complete({
+      feature: AIFeature.DAILY_SUMMARY,
+      model: 'gpt-4o-mini',
       messages: [
         {
           role: "system",
@@ -102,11 +104,11 @@ ${summaryData.tasks.map(task => `- ${task.title}${task.category ? ` [${task.cate
           content: prompt
         }
       ],
-      max_tokens: 1000,
+      maxTokens: 1000,
       temperature: 0.7,
     });
 
-    return completion.choices[0]?.message?.content || '分析結果の生成に失敗しました。';
+    return aiResponse || '分析結果の生成に失敗しました。';
   } catch (error) {
     console.error('AI summary generation error:', error);
     return `本日は${summaryData.completedTasks}件のタスクを完了しました。完了率は${(summaryData.completionRate * 100).toFixed(1)}%でした。詳細な分析は現在利用できません。`;
@@ -125,13 +127,22 @@ export async function POST(request: NextRequest) {
     );
 
     const body = await request.json() as DailySummaryRequest;
-    const targetDate = body.targetDate || new Date().toISOString().split('T')[0];
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    if (body.targetDate && !parseDateKey(body.targetDate)) {
+      return NextResponse.json(
+        { error: '日付は YYYY-MM-DD 形式で指定してください' },
+        { status: 400 }
+      );
+    }
+
+    // 日付の境界はユーザーのタイムゾーンで判定する
+    const { timeZone } = await getUserLocale(supabase, user.id);
+    const targetDate = body.targetDate || toDateKeyIn(new Date(), timeZone);
     
     // Get all tasks completed on the target date
-    const startOfDay = new Date(targetDate + 'T00:00:00.000Z');
-    const endOfDay = new Date(targetDate + 'T23:59:59.999Z');
+    const { start: startOfDay, end: endOfDay } = dayRangeIn(targetDate, timeZone);
     
     const { data: completedTasks, error: tasksError } = await supabase
       .from('tasks')
@@ -139,7 +150,7 @@ export async function POST(request: NextRequest) {
       .eq('user_id', user.id)
       .eq('status', 'completed')
       .gte('completed_at', startOfDay.toISOString())
-      .lte('completed_at', endOfDay.toISOString())
+      .lt('completed_at', endOfDay.toISOString())
       .order('completed_at', { ascending: true });
 
     if (tasksError) {
@@ -151,7 +162,8 @@ export async function POST(request: NextRequest) {
       .from('tasks')
       .select('id, status')
       .eq('user_id', user.id)
-      .or(`scheduled_date.gte.${startOfDay.toISOString()},scheduled_date.lte.${endOfDay.toISOString()},created_at.gte.${startOfDay.toISOString()},created_at.lte.${endOfDay.toISOString()}`);
+      .is('recurrence_rule', null)
+      .or(`scheduled_date.gte.${startOfDay.toISOString()},scheduled_date.lt.${endOfDay.toISOString()},created_at.gte.${startOfDay.toISOString()},created_at.lt.${endOfDay.toISOString()}`);
 
     if (allTasksError) {
       throw allTasksError;
@@ -198,7 +210,7 @@ export async function POST(request: NextRequest) {
     };
     
     // Generate AI-powered summary
-    const aiSummary = await generateAISummary(summaryData);
+    const aiSummary = await generateAISummary(createAIClient(supabase, user.id), summaryData);
     
     // Check if summary already exists for this date
     const { data: existingSummary } = await supabase
@@ -297,9 +309,11 @@ export async function GET(request: NextRequest) {
     );
 
     const { searchParams } = new URL(request.url);
-    const targetDate = searchParams.get('date') || new Date().toISOString().split('T')[0];
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const targetDate = searchParams.get('date')
+      || toDateKeyIn(new Date(), (await getUserLocale(supabase, user.id)).timeZone);
     
     const { data: summary, error } = await supabase
       .from('daily_summaries')
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { openaiClient, mockOpenAIClient } from '@/lib/openai';
+import { createAIClient } from '@/lib/openai';
+import { requireUser } from '@/lib/auth/server';
 
 /**
  * AI提案フィードバックシステムAPI
@@ -13,8 +14,8 @@ export async function POST(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     const body = await request.json();
     const { 
@@ -113,8 +114,8 @@ export async function GET(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     const { searchParams } = new URL(request.url);
     const period = searchParams.get('period') || '30'; // days
@@ -259,8 +260,7 @@ async function performFeedbackAnalysis(supabase: any, userId: string) {
       .gte('updated_at', thirtyDaysAgo.toISOString());
 
     // AI分析を実行
-    const useMock = process.env.NODE_ENV === 'development' || !process.env.OPENAI_API_KEY;
-    const aiClient = useMock ? mockOpenAIClient : openaiClient;
+    const aiClient = createAIClient(supabase, userId);
 
     const analysisResult = await aiClient.analyzeTaskPerformance(
       (completedTasks || []).map(task => ({
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { openaiClient, mockOpenAIClient } from '@/lib/openai';
+import { LLMProviderName, createAIClient } from '@/lib/openai';
+import { TokenBudgetExceededError } from '@/lib/errors';
 import { AITaskSuggestion } from '@/types/shared';
+import { requireUser } from '@/lib/auth/server';
 
 /**
  * AI準備タスク生成API
@@ -14,9 +16,8 @@ export async function POST(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    // 開発用: テスト用のユーザーIDを使用
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     const body = await request.json();
     const { 
@@ -49,9 +50,9 @@ export async function POST(request: NextRequest) {
       preferences: [], // TODO: ユーザー設定から取得
     };
 
-    // 開発モードではmockClient、本番ではopenaiClientを使用
-    const useMock = process.env.NODE_ENV === 'development' || !process.env.OPENAI_API_KEY;
-    const aiClient = useMock ? mockOpenAIClient : openaiClient;
+    // プロバイダーは AI_PROVIDER で切り替え（開発環境・APIキー未設定時はモック）
+    const aiClient = createAIClient(supabase, user.id);
+    const useMock = aiClient.providerName === LLMProviderName.MOCK;
 
     // AIによる準備タスク生成
     const suggestions = await aiClient.generatePreparationTasks(
@@ -113,6 +114,13 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof TokenBudgetExceededError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+
     console.error('AI準備タスク生成エラー:', error);
     
     return NextResponse.json(
@@ -136,8 +144,8 @@ export async function GET(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     const { searchParams } = new URL(request.url);
     const eventId = searchParams.get('eventId');
@@ -1,10 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { requireUser } from '@/lib/auth/server';
+import { AIFeature, OpenAIClient, createAIClient } from '@/lib/openai';
 
 interface TaskAnalysisRequest {
   taskId?: string; // Specific task analysis
@@ -79,7 +76,10 @@ function identifyPostponedTasks(tasks: PostponedTask[]): PostponedTask[] {
 /**
  * Generate AI-powered task breakdown suggestions
  */
-async function generateTaskBreakdown(task: PostponedTask): Promise<TaskBreakdownSuggestion> {
+async function generateTaskBreakdown(
+  aiClient: OpenAIClient,
+  task: PostponedTask
+): Promise<TaskBreakdownSuggestion> {
   const prompt = `以下のタスクが${task.postpone_count}回延期されています。効果的なサブタスクに分割してください：
 
 タスク情報:
@@ -114,8 +114,9 @@ async function generateTaskBreakdown(task: PostponedTask): Promise<TaskBreakdown
 - 依存関係がある場合は順序を考慮する`;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const aiResponse = await aiClient.complete({
+      feature: AIFeature.TASK_BREAKDOWN,
+      model: 'gpt-4o-mini',
       messages: [
         {
           role: "system",
@@ -126,11 +127,10 @@ async function generateTaskBreakdown(task: PostponedTask): Promise<TaskBreakdown
           content: prompt
         }
       ],
-      max_tokens: 1500,
+      maxTokens: 1500,
       temperature: 0.7,
     });
 
-    const aiResponse = completion.choices[0]?.message?.content;
     if (aiResponse) {
       try {
         const parsed = JSON.parse(aiResponse);
@@ -204,6 +204,7 @@ async function calculateProductivityMetrics(
     .from('tasks')
     .select('*')
     .eq('user_id', userId)
+    .is('recurrence_rule', null)
     .gte('created_at', startDate.toISOString())
     .order('created_at', { ascending: false });
 
@@ -273,6 +274,7 @@ async function calculateProductivityMetrics(
     .from('tasks')
     .select('*')
     .eq('user_id', userId)
+    .is('recurrence_rule', null)
     .gte('created_at', previousPeriodStart.toISOString())
     .lt('created_at', startDate.toISOString());
 
@@ -321,8 +323,8 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json() as TaskAnalysisRequest;
     const analysisType = body.analysisType || 'comprehensive';
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
     
     const results: any = {
       analysisType,
@@ -345,10 +347,11 @@ export async function POST(request: NextRequest) {
 
       const problemTasks = identifyPostponedTasks(postponedTasks as PostponedTask[]);
       const breakdownSuggestions: TaskBreakdownSuggestion[] = [];
+      const aiClient = createAIClient(supabase, user.id);
 
       // Generate breakdown suggestions for the most problematic tasks
       for (const task of problemTasks.slice(0, 5)) { // Limit to top 5 to avoid excessive API calls
-        const suggestion = await generateTaskBreakdown(task);
+        const suggestion = await generateTaskBreakdown(aiClient, task);
         breakdownSuggestions.push(suggestion);
       }
 
@@ -448,8 +451,8 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const analysisType = searchParams.get('type') || 'comprehensive';
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
     
     // Get latest analysis
     const { data: latestAnalysis, error } = await supabase
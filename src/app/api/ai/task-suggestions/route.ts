@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { openaiClient, mockOpenAIClient } from '@/lib/openai';
+import { LLMProviderName, createAIClient } from '@/lib/openai';
+import { TokenBudgetExceededError } from '@/lib/errors';
 import { GoogleCalendarEvent, TaskPriority } from '@/types/shared';
+import { requireUser } from '@/lib/auth/server';
+import { correctedEstimate, loadEstimationModel, summarizeEstimationModel } from '@/lib/tasks/estimation';
+import { countsAsBusy, getNonBusyGoogleCalendarIds } from '@/lib/google/calendarList';
+import { atMinuteOfDateIn, getUserLocale, parseDateKey, toDateKeyIn } from '@/lib/schedule/timezone';
+
+const TIME_OF_DAY_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
 
 /**
  * インテリジェントタスク提案API
@@ -14,8 +21,8 @@ export async function POST(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     const body = await request.json();
     const { date, freeTimeSlots, includeExistingTasks = true } = body;
@@ -43,35 +50,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 過去の見積もりと実績の差（見積時間の補正に使う）
+    const estimationModel = await loadEstimationModel(supabase, user.id);
+
     // 既存タスクを取得
     let existingTasks: {
       title: string;
       priority: TaskPriority;
       estimatedTime?: number;
+      correctedTime?: number;
     }[] = [];
 
     if (includeExistingTasks) {
       const { data: tasks } = await supabase
         .from('tasks')
-        .select('title, priority, estimated_time')
+        .select('title, category, priority, estimated_minutes')
         .eq('user_id', user.id)
         .in('status', ['pending', 'in_progress'])
+        .is('recurrence_rule', null)
         .order('priority', { ascending: true })
         .limit(10);
 
       existingTasks = tasks?.map(task => ({
         title: task.title,
         priority: task.priority as TaskPriority,
-        estimatedTime: task.estimated_time,
+        estimatedTime: task.estimated_minutes ?? undefined,
+        correctedTime: task.estimated_minutes ? correctedEstimate(estimationModel, task) ?? undefined : undefined,
       })) || [];
     }
 
     // ユーザーの生産性パターンを分析
-    const userProductivity = await analyzeUserProductivity(supabase, user.id);
+    const userProductivity = {
+      ...await analyzeUserProductivity(supabase, user.id),
+      estimation: summarizeEstimationModel(estimationModel),
+    };
 
-    // 開発モードではmockClient、本番ではopenaiClientを使用
-    const useMock = process.env.NODE_ENV === 'development' || !process.env.OPENAI_API_KEY;
-    const aiClient = useMock ? mockOpenAIClient : openaiClient;
+    // プロバイダーは AI_PROVIDER で切り替え（開発環境・APIキー未設定時はモック）
+    const aiClient = createAIClient(supabase, user.id);
+    const useMock = aiClient.providerName === LLMProviderName.MOCK;
 
     // AIによるタスク提案
     const suggestions = await aiClient.suggestTasksForFreeTime(
@@ -113,6 +129,13 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof TokenBudgetExceededError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+
     console.error('AIタスク提案エラー:', error);
     
     return NextResponse.json(
@@ -136,29 +159,41 @@ export async function GET(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     const { searchParams } = new URL(request.url);
-    const date = searchParams.get('date') || new Date().toISOString().split('T')[0];
-    const startTime = searchParams.get('startTime') || '09:00';
-    const endTime = searchParams.get('endTime') || '18:00';
-
-    // 今日のイベントを取得
-    const startDateTime = `${date}T${startTime}:00.000Z`;
-    const endDateTime = `${date}T${endTime}:00.000Z`;
-
-    const { data: events } = await supabase
-      .from('events')
-      .select('start_time, end_time, title')
-      .eq('user_id', user.id)
-      .gte('start_time', startDateTime)
-      .lt('end_time', endDateTime)
-      .order('start_time');
-
-    // 空き時間を計算
+    const { timeZone } = await getUserLocale(supabase, user.id);
+    const date = searchParams.get('date') || toDateKeyIn(new Date(), timeZone);
+    const startTime = TIME_OF_DAY_PATTERN.exec(searchParams.get('startTime') || '09:00');
+    const endTime = TIME_OF_DAY_PATTERN.exec(searchParams.get('endTime') || '18:00');
+
+    if (!parseDateKey(date) || !startTime || !endTime) {
+      return NextResponse.json(
+        { error: '日付は YYYY-MM-DD、時刻は HH:mm 形式で指定してください' },
+        { status: 400 }
+      );
+    }
+
+    // 今日のイベントを取得（時刻はユーザーのタイムゾーン）
+    const toMinutes = (match: RegExpExecArray) => Number(match[1]) * 60 + Number(match[2]);
+    const startDateTime = atMinuteOfDateIn(date, toMinutes(startTime), timeZone).toISOString();
+    const endDateTime = atMinuteOfDateIn(date, toMinutes(endTime), timeZone).toISOString();
+
+    const [{ data: events }, nonBusyCalendarIds] = await Promise.all([
+      supabase
+        .from('events')
+        .select('start_time, end_time, title, event_source, google_calendar_id, travel_minutes')
+        .eq('user_id', user.id)
+        .gte('start_time', startDateTime)
+        .lt('end_time', endDateTime)
+        .order('start_time'),
+      getNonBusyGoogleCalendarIds(supabase, user.id),
+    ]);
+
+    // 空き時間を計算（予定あり扱いにしないカレンダーの予定は除く）
     const freeTimeSlots = calculateFreeTimeSlots(
-      events || [],
+      (events || []).filter(event => countsAsBusy(event, nonBusyCalendarIds)),
       new Date(startDateTime),
       new Date(endDateTime)
     );
@@ -211,6 +246,7 @@ async function analyzeUserProductivity(supabase: any, userId: string) {
     .from('tasks')
     .select('title, status, estimated_time, created_at, updated_at')
     .eq('user_id', userId)
+    .is('recurrence_rule', null)
     .gte('created_at', thirtyDaysAgo.toISOString())
     .order('created_at', { ascending: false });
 
@@ -241,10 +277,10 @@ async function analyzeUserProductivity(supabase: any, userId: string) {
 }
 
 /**
- * 空き時間スロットを計算
+ * 空き時間スロットを計算（移動を伴う予定は前後の移動時間も埋まっているものとする）
  */
 function calculateFreeTimeSlots(
-  events: { start_time: string; end_time: string; title: string }[],
+  events: { start_time: string; end_time: string; title: string; travel_minutes?: number | null }[],
   workStart: Date,
   workEnd: Date
 ): { startTime: string; endTime: string; durationMinutes: number }[] {
@@ -252,11 +288,14 @@ function calculateFreeTimeSlots(
   
   // イベントを時間順にソート
   const sortedEvents = events
-    .map(event => ({
-      start: new Date(event.start_time),
-      end: new Date(event.end_time),
-      title: event.title,
-    }))
+    .map(event => {
+      const travelMs = (event.travel_minutes || 0) * 60 * 1000;
+      return {
+        start: new Date(new Date(event.start_time).getTime() - travelMs),
+        end: new Date(new Date(event.end_time).getTime() + travelMs),
+        title: event.title,
+      };
+    })
     .sort((a, b) => a.start.getTime() - b.start.getTime());
 
   let currentTime = workStart;
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { AI_CONFIG } from '@/lib/config/environment';
+import { createAIClient, getTokenBudgetStatus } from '@/lib/openai';
+
+/**
+ * AI使用量API
+ * GET /api/ai/usage - 当月のトークン使用量と予算の状態を取得
+ *
+ * 使用率が80%を超えると安価なモデルに切り替わり、上限に達するとAI機能は翌月まで利用できない
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const aiClient = createAIClient(supabase, user.id);
+    const [budget, stats] = await Promise.all([
+      getTokenBudgetStatus(supabase, user.id),
+      aiClient.getUsageStats(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      provider: aiClient.providerName,
+      model: budget.downgraded ? AI_CONFIG.economyModel : AI_CONFIG.primaryModel,
+      budget,
+      statistics: stats,
+    });
+
+  } catch (error) {
+    console.error('AI使用量取得エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'AI使用量の取得に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
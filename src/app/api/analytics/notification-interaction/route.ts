@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { getDevice, parseDeviceInfo } from '@/lib/notifications/devices';
 
 interface NotificationInteractionRequest {
   action: 'show' | 'click' | 'close' | 'dismiss';
@@ -8,6 +10,7 @@ interface NotificationInteractionRequest {
   tag?: string;
   timestamp: number;
   userAgent?: string;
+  deviceId?: string;
   additionalData?: any;
 }
 
@@ -23,10 +26,10 @@ export async function POST(request: NextRequest) {
     );
 
     const body = await request.json() as NotificationInteractionRequest;
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
     
-    const { action, notificationId, title, tag, timestamp, userAgent, additionalData } = body;
+    const { action, notificationId, title, tag, timestamp, userAgent, deviceId, additionalData } = body;
 
     // 入力検証
     if (!action || !timestamp) {
@@ -44,21 +47,8 @@ export async function POST(request: NextRequest) {
     }
 
     // ブラウザ情報の解析
-    const parseUserAgent = (ua: string) => {
-      const browser = ua.includes('Chrome') ? 'Chrome' : 
-                    ua.includes('Firefox') ? 'Firefox' : 
-                    ua.includes('Safari') ? 'Safari' : 'Other';
-      const mobile = ua.includes('Mobile') || ua.includes('Android');
-      const os = ua.includes('Windows') ? 'Windows' : 
-                ua.includes('Mac') ? 'macOS' : 
-                ua.includes('Linux') ? 'Linux' : 
-                ua.includes('Android') ? 'Android' : 
-                ua.includes('iOS') ? 'iOS' : 'Other';
-      
-      return { browser, mobile, os };
-    };
-
-    const deviceInfo = userAgent ? parseUserAgent(userAgent) : null;
+    const deviceInfo = userAgent ? parseDeviceInfo(userAgent) : null;
+    const device = deviceId ? await getDevice(supabase, user.id, deviceId) : null;
 
     // インタラクションデータを準備
     const interactionData = {
@@ -69,6 +59,7 @@ export async function POST(request: NextRequest) {
       notification_tag: tag?.substring(0, 100),
       interaction_timestamp: new Date(timestamp).toISOString(),
       device_info: deviceInfo,
+      device_id: device?.id ?? null,
       user_agent: userAgent?.substring(0, 500),
       additional_data: additionalData,
       created_at: new Date().toISOString(),
@@ -125,8 +116,8 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const period = searchParams.get('period') || 'last_7_days';
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
     
     // 期間の計算
     const now = new Date();
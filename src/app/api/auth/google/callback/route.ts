@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
 import { googleCalendar } from '@/lib/google/calendar';
-import { supabase } from '@/lib/supabase/client';
+import { saveGoogleTokens } from '@/lib/google/tokens';
+import { requireUser } from '@/lib/auth/server';
 
 /**
  * Google OAuth2認証コールバック
  * GET /api/auth/google/callback
+ * 取得したトークンは暗号化して users に保存する
  */
 export async function GET(request: NextRequest) {
   try {
@@ -34,26 +37,29 @@ export async function GET(request: NextRequest) {
       throw new Error('トークン取得に失敗しました');
     }
 
-    // Supabaseの現在のユーザーを取得
-    const { data: { session } } = await supabase.auth.getSession();
+    // Supabaseの現在のユーザーを取得（セッションCookieから解決）
+    const { user } = await requireUser(request);
     
-    if (!session?.user) {
+    if (!user) {
       return NextResponse.redirect(
         new URL('/auth/login?error=not_authenticated', request.url)
       );
     }
 
     // ユーザーのGoogle認証情報をSupabaseに保存
-    const { error: updateError } = await supabase
-      .from('users')
-      .update({
-        google_refresh_token: tokens.refresh_token,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', session.user.id);
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
 
-    if (updateError) {
-      console.error('Google認証情報保存エラー:', updateError);
+    try {
+      await saveGoogleTokens(supabase, user.id, {
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token,
+        expiryDate: tokens.expiry_date,
+      });
+    } catch (saveError) {
+      console.error('Google認証情報保存エラー:', saveError);
       throw new Error('認証情報の保存に失敗しました');
     }
 
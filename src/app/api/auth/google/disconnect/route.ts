@@ -1,42 +1,33 @@
-import { NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase/client';
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { revokeGoogleTokens } from '@/lib/google/tokens';
 
 /**
  * Google Calendar連携解除
  * POST /api/auth/google/disconnect
+ * Google側でアクセス許可を取り消し、保存済みのトークンを削除する
  */
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
-    // 現在のユーザーセッション確認
-    const { data: { session } } = await supabase.auth.getSession();
-    
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: '認証が必要です' },
-        { status: 401 }
-      );
-    }
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
 
-    // ユーザーのGoogle認証情報を削除
-    const { error: updateError } = await supabase
-      .from('users')
-      .update({
-        google_refresh_token: null,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', session.user.id);
+    // 現在のユーザーセッション確認
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
-    if (updateError) {
-      console.error('Google認証情報削除エラー:', updateError);
-      return NextResponse.json(
-        { error: 'Google連携の解除に失敗しました' },
-        { status: 500 }
-      );
-    }
+    // Google側で取り消してからユーザーのGoogle認証情報を削除
+    const revoked = await revokeGoogleTokens(supabase, user.id);
 
     return NextResponse.json({
       success: true,
-      message: 'Google Calendar連携を解除しました',
+      revoked,
+      message: revoked
+        ? 'Google Calendar連携を解除しました'
+        : 'Google Calendar連携を解除しました（Google側の取り消しは失敗したため、Googleアカウントの設定から削除してください）',
     });
 
   } catch (error) {
@@ -47,4 +38,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
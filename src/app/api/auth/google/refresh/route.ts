@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { AuthenticationError } from '@/lib/errors';
+import { refreshGoogleAccessToken } from '@/lib/google/tokens';
+
+/**
+ * Googleのアクセストークン更新
+ * POST /api/auth/google/refresh
+ * カレンダーAPIが TOKEN_EXPIRED を返したときにクライアントから呼び出し、更新後に処理を再試行する
+ * リフレッシュトークンが取り消されている場合は連携を解除し、再連携を求める（AUTH_ERROR）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const result = await refreshGoogleAccessToken(supabase, user.id);
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Google Calendar連携が必要です', code: 'NO_CALENDAR' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      expires_at: result.expiresAt,
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return NextResponse.json(
+        { error: error.message, code: 'AUTH_ERROR' },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Googleトークン更新エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'Googleのアクセストークンの更新に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCronSecret } from '@/lib/auth/server';
+import { reencryptGoogleTokens } from '@/lib/google/tokens';
+import { reencryptCalDAVPasswords } from '@/lib/calendar/connections';
+
+/**
+ * 認証情報の暗号化鍵のローテーション（cron・運用者から呼び出し用）
+ * POST /api/auth/token-keys/rotate
+ *
+ * TOKEN_ENCRYPTION_KEYS の先頭に新しい鍵を追加してから呼び出すと、平文・古い鍵で保存された
+ * Googleのトークンと CalDAV のパスワードを新しい鍵で暗号化し直す。完了後は古い鍵を外してよい。
+ * Authorization: Bearer <CRON_SECRET> が必要
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const errorResponse = requireCronSecret(request);
+    if (errorResponse) return errorResponse;
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const googleTokens = await reencryptGoogleTokens(supabase);
+    const caldavPasswords = await reencryptCalDAVPasswords(supabase);
+
+    return NextResponse.json({
+      success: true,
+      reencrypted: {
+        google_tokens: googleTokens,
+        caldav_passwords: caldavPasswords,
+      },
+      rotatedAt: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('暗号化鍵ローテーションエラー:', error);
+    return NextResponse.json(
+      {
+        error: '認証情報の再暗号化に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { ValidationError } from '@/lib/errors';
+import { CalDAVError } from '@/lib/calendar/caldav';
+import {
+  connectCalDAVCalendar,
+  disconnectCalendar,
+  listCalendarConnections,
+} from '@/lib/calendar/connections';
+
+/**
+ * CalDAV カレンダー連携API
+ * GET /api/calendar/caldav - 連携済みのカレンダー一覧
+ * POST /api/calendar/caldav - 連携（body: { serverUrl, username, password, calendarUrl? }）
+ *   calendarUrl を省略してカレンダーが複数見つかった場合は連携せず候補を返す
+ * DELETE /api/calendar/caldav?id=... - 連携を解除（取り込んだ予定も削除される）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const connections = await listCalendarConnections(supabase, user.id);
+
+    return NextResponse.json({
+      success: true,
+      connections,
+    });
+
+  } catch (error) {
+    console.error('CalDAV連携一覧取得エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'CalDAV連携の取得に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json().catch(() => ({}));
+    const { serverUrl, username, password, calendarUrl } = body;
+
+    if (typeof serverUrl !== 'string' || !serverUrl || typeof username !== 'string' || !username
+      || typeof password !== 'string' || !password) {
+      return NextResponse.json(
+        { error: 'サーバーURL、ユーザー名、パスワードは必須です' },
+        { status: 400 }
+      );
+    }
+
+    const { connection, calendars } = await connectCalDAVCalendar(supabase, user.id, {
+      serverUrl,
+      username,
+      password,
+      calendarUrl: typeof calendarUrl === 'string' && calendarUrl ? calendarUrl : undefined,
+    });
+
+    if (!connection) {
+      return NextResponse.json({
+        success: true,
+        requires_selection: true,
+        calendars,
+        message: '連携するカレンダーを calendarUrl で指定してください',
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      connection,
+      calendars,
+      message: `「${connection.display_name || 'CalDAV'}」を連携しました`,
+    });
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof CalDAVError) {
+      const authFailed = error.status === 401 || error.status === 403;
+      console.error('CalDAV連携エラー:', error.message);
+      return NextResponse.json(
+        {
+          error: authFailed
+            ? 'ユーザー名またはパスワードが正しくありません'
+            : 'CalDAVサーバーに接続できませんでした',
+          details: error.message,
+        },
+        { status: authFailed ? 400 : 502 }
+      );
+    }
+
+    console.error('CalDAV連携エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'CalDAV連携に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { error: '連携IDを指定してください' },
+        { status: 400 }
+      );
+    }
+
+    const removed = await disconnectCalendar(supabase, user.id, id);
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'CalDAV連携が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'CalDAV連携を解除しました',
+    });
+
+  } catch (error) {
+    console.error('CalDAV連携解除エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'CalDAV連携の解除に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
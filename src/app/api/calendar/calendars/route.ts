@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { createUserCalendarClient } from '@/lib/google/calendar';
+import { getUserGoogleAuth } from '@/lib/google/tokens';
+import {
+  listGoogleCalendars,
+  refreshGoogleCalendars,
+  updateGoogleCalendarSettings,
+} from '@/lib/google/calendarList';
+import { listCalendarConnections } from '@/lib/calendar/connections';
+
+/**
+ * カレンダー一覧・設定API
+ * GET /api/calendar/calendars - Google のカレンダー一覧（calendarList を取り込み直す）と CalDAV の連携
+ * PUT /api/calendar/calendars - Google カレンダーごとの設定を変更
+ *   body: { calendarId, syncEnabled?, countsAsBusy? }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const auth = await getUserGoogleAuth(supabase, user.id);
+
+    // Google から取得できない場合は保存済みの一覧を返す
+    let googleCalendars = await listGoogleCalendars(supabase, user.id);
+    let refreshed = false;
+
+    if (auth) {
+      try {
+        googleCalendars = await refreshGoogleCalendars(supabase, user.id, createUserCalendarClient(auth));
+        refreshed = true;
+      } catch (refreshError) {
+        console.error('Googleカレンダー一覧更新エラー:', refreshError);
+      }
+    }
+
+    const caldavConnections = await listCalendarConnections(supabase, user.id);
+
+    return NextResponse.json({
+      success: true,
+      google_connected: !!auth,
+      google_calendars: googleCalendars,
+      caldav_connections: caldavConnections,
+      refreshed,
+    });
+
+  } catch (error) {
+    console.error('カレンダー一覧取得エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'カレンダー一覧の取得に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json().catch(() => ({}));
+    const { calendarId, syncEnabled, countsAsBusy } = body;
+
+    if (typeof calendarId !== 'string' || !calendarId) {
+      return NextResponse.json(
+        { error: 'カレンダーIDを指定してください' },
+        { status: 400 }
+      );
+    }
+
+    if ((syncEnabled !== undefined && typeof syncEnabled !== 'boolean')
+      || (countsAsBusy !== undefined && typeof countsAsBusy !== 'boolean')) {
+      return NextResponse.json(
+        { error: 'syncEnabled と countsAsBusy は真偽値で指定してください' },
+        { status: 400 }
+      );
+    }
+
+    if (syncEnabled === undefined && countsAsBusy === undefined) {
+      return NextResponse.json(
+        { error: '変更する設定を指定してください' },
+        { status: 400 }
+      );
+    }
+
+    const calendar = await updateGoogleCalendarSettings(supabase, user.id, calendarId, {
+      syncEnabled,
+      countsAsBusy,
+    });
+
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'カレンダーが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      calendar,
+      message: `「${calendar.summary}」の設定を更新しました`,
+    });
+
+  } catch (error) {
+    console.error('カレンダー設定更新エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'カレンダー設定の更新に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,334 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { LocalCalendarEvent, pushLocalChange } from '@/lib/google/sync';
+import { getEventProvider } from '@/lib/calendar/connections';
+import { requireUser } from '@/lib/auth/server';
+import { refreshEventReminders } from '@/lib/notifications/reminders';
+import { isValidTravelBase, isValidTravelMode } from '@/lib/travel/preferences';
+
+/**
+ * カレンダーイベント編集API（ローカル変更を Google / CalDAV へ書き戻す）
+ * GET /api/calendar/events/[id] - イベント取得
+ * PUT /api/calendar/events/[id] - イベント更新
+ * DELETE /api/calendar/events/[id] - イベント削除
+ *
+ * [id] には events.id（UUID）または外部カレンダーのイベントIDを指定できる。
+ * 変更はまず events 行に pending として記録し、その場で書き戻しを試みる。
+ * 書き戻しに失敗した場合は次回の POST /api/calendar/sync で再送される。
+ * baseUpdatedAt（編集元の更新日時）を指定すると、それ以降にサーバー側で
+ * 変更されていた場合は 409 を返す（オフライン編集の競合検出）
+ * travelMode / travelOrigin（移動手段・出発地、null で設定の既定値）はアプリ内だけの設定で、書き戻さない
+ */
+
+const EVENT_COLUMNS = 'id, user_id, google_event_id, title, description, start_time, end_time, location, google_etag, google_updated_at, local_updated_at, sync_status, event_source, calendar_connection_id, google_calendar_id, travel_mode, travel_origin, travel_minutes';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * IDの形式から検索する列を決定（Google のイベントIDはハイフンを含まず、CalDAV のIDは「接続ID:」で始まる）
+ */
+function idColumn(id: string): 'id' | 'google_event_id' {
+  return UUID_PATTERN.test(id) ? 'id' : 'google_event_id';
+}
+
+/**
+ * サーバー側の最終更新日時（Google側・ローカル側の新しい方）
+ */
+function serverVersion(event: Pick<LocalCalendarEvent, 'google_updated_at' | 'local_updated_at'>): number {
+  return Math.max(
+    event.google_updated_at ? new Date(event.google_updated_at).getTime() : 0,
+    event.local_updated_at ? new Date(event.local_updated_at).getTime() : 0
+  );
+}
+
+/**
+ * baseUpdatedAt 以降にサーバー側で変更されていれば 409 レスポンスを返す
+ */
+async function checkConflict(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  baseUpdatedAt: string | null | undefined
+): Promise<NextResponse | null> {
+  if (!baseUpdatedAt) return null;
+
+  const { data: current } = await supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .eq(idColumn(id), id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!current || serverVersion(current as LocalCalendarEvent) <= new Date(baseUpdatedAt).getTime()) {
+    return null;
+  }
+
+  return NextResponse.json(
+    {
+      error: 'サーバー側で先に変更されています',
+      code: 'CONFLICT',
+      current,
+    },
+    { status: 409 }
+  );
+}
+
+/**
+ * 記録済みの変更を外部カレンダーへ書き戻す（失敗しても変更は保持される）
+ */
+async function tryPush(
+  supabase: SupabaseClient,
+  userId: string,
+  event: LocalCalendarEvent
+): Promise<string> {
+  // .ics から取り込んだ予定は書き戻さない（削除はローカルのみ、更新はそのまま確定）
+  if (event.event_source && event.event_source !== 'google_calendar' && event.event_source !== 'caldav') {
+    if (event.sync_status === 'pending_push') {
+      await supabase
+        .from('events')
+        .update({ sync_status: 'synced' })
+        .eq('id', event.id);
+    }
+    return 'local_only';
+  }
+
+  try {
+    const target = await getEventProvider(supabase, userId, event);
+    if (!target) {
+      return 'not_connected';
+    }
+
+    return await pushLocalChange(supabase, target.provider, event, { calendarId: target.calendarId });
+  } catch (error) {
+    console.error('イベント書き戻しエラー（次回同期で再試行）:', event.id, error);
+    return 'pending';
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const { data: event, error } = await supabase
+      .from('events')
+      .select(EVENT_COLUMNS)
+      .eq(idColumn(params.id), params.id)
+      .eq('user_id', user.id)
+      .neq('sync_status', 'pending_delete')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!event) {
+      return NextResponse.json(
+        { error: 'イベントが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      event,
+    });
+
+  } catch (error) {
+    console.error('イベント取得エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'イベントの取得に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json();
+    const { title, description, startTime, endTime, location, travelMode, travelOrigin, baseUpdatedAt } = body;
+
+    if (title !== undefined && !title) {
+      return NextResponse.json(
+        { error: 'タイトルは空にできません' },
+        { status: 400 }
+      );
+    }
+
+    if (startTime && endTime && new Date(startTime) >= new Date(endTime)) {
+      return NextResponse.json(
+        { error: '終了時間は開始時間より後にしてください' },
+        { status: 400 }
+      );
+    }
+
+    if (travelMode !== undefined && travelMode !== null && !isValidTravelMode(travelMode)) {
+      return NextResponse.json(
+        { error: '移動手段は none / walking / bicycling / transit / driving のいずれかで指定してください' },
+        { status: 400 }
+      );
+    }
+
+    if (travelOrigin !== undefined && travelOrigin !== null && !isValidTravelBase(travelOrigin)) {
+      return NextResponse.json(
+        { error: '出発地は home / office のいずれかで指定してください' },
+        { status: 400 }
+      );
+    }
+
+    const conflictResponse = await checkConflict(supabase, user.id, params.id, baseUpdatedAt);
+    if (conflictResponse) return conflictResponse;
+
+    // 移動手段・出発地だけの変更は外部カレンダーに書き戻さない
+    const travelOnly = (travelMode !== undefined || travelOrigin !== undefined)
+      && [title, description, startTime, endTime, location].every(value => value === undefined);
+
+    const updateData: Record<string, unknown> = travelOnly
+      ? {}
+      : { sync_status: 'pending_push', local_updated_at: new Date().toISOString() };
+    if (title !== undefined) updateData.title = title;
+    if (description !== undefined) updateData.description = description;
+    if (startTime !== undefined) updateData.start_time = startTime;
+    if (endTime !== undefined) updateData.end_time = endTime;
+    if (location !== undefined) updateData.location = location;
+    if (travelMode !== undefined) updateData.travel_mode = travelMode;
+    if (travelOrigin !== undefined) updateData.travel_origin = travelOrigin;
+
+    const { data: updatedEvent, error } = await supabase
+      .from('events')
+      .update(updateData)
+      .eq(idColumn(params.id), params.id)
+      .eq('user_id', user.id)
+      .neq('sync_status', 'pending_delete')
+      .select(EVENT_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!updatedEvent) {
+      return NextResponse.json(
+        { error: 'イベントが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const pushResult = travelOnly
+      ? 'local_only'
+      : await tryPush(supabase, user.id, updatedEvent as LocalCalendarEvent);
+    // 移動時間の見積もり直しと「出発」リマインダーの予約もここで行う
+    await refreshEventReminders(supabase, user.id, [updatedEvent.id]);
+
+    return NextResponse.json({
+      success: true,
+      event: updatedEvent,
+      push_result: pushResult,
+      message: pushResult === 'deferred'
+        ? 'Google Calendar側でも変更されているため、次回同期で調整します'
+        : 'イベントを更新しました',
+    });
+
+  } catch (error) {
+    console.error('イベント更新エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'イベントの更新に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const { searchParams } = new URL(request.url);
+    const conflictResponse = await checkConflict(supabase, user.id, params.id, searchParams.get('baseUpdatedAt'));
+    if (conflictResponse) return conflictResponse;
+
+    const { data: deletedEvent, error } = await supabase
+      .from('events')
+      .update({
+        sync_status: 'pending_delete',
+        local_updated_at: new Date().toISOString(),
+      })
+      .eq(idColumn(params.id), params.id)
+      .eq('user_id', user.id)
+      .select(EVENT_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!deletedEvent) {
+      return NextResponse.json(
+        { error: 'イベントが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const pushResult = await tryPush(supabase, user.id, deletedEvent as LocalCalendarEvent);
+
+    // Google未連携・Google以外の予定の場合はローカルのみ削除
+    if (pushResult === 'not_connected' || pushResult === 'local_only') {
+      await supabase
+        .from('events')
+        .delete()
+        .eq('id', deletedEvent.id)
+        .eq('user_id', user.id);
+    }
+
+    await refreshEventReminders(supabase, user.id, [deletedEvent.id]);
+
+    return NextResponse.json({
+      success: true,
+      push_result: pushResult,
+      message: 'イベントを削除しました',
+    });
+
+  } catch (error) {
+    console.error('イベント削除エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'イベントの削除に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { createUserCalendarClient } from '@/lib/google/calendar';
 import { CalendarErrorHandler } from '@/lib/services/calendarErrorHandler';
+import { getEventProvider, getUserCalendarProviders } from '@/lib/calendar/connections';
+import { requireUser } from '@/lib/auth/server';
+import { refreshEventReminders } from '@/lib/notifications/reminders';
+import { dayRangeIn, getUserLocale, toDateKeyIn } from '@/lib/schedule/timezone';
+import { isValidTravelBase, isValidTravelMode } from '@/lib/travel/preferences';
 
 /**
- * カレンダーイベント取得・同期API
+ * カレンダーイベント取得・同期API（Google と CalDAV の予定をまとめて返す）
  * GET /api/calendar/events
  */
 export async function GET(request: NextRequest) {
@@ -14,24 +18,8 @@ export async function GET(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    // Authorization ヘッダーからトークンを取得
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: '認証が必要です' },
-        { status: 401 }
-      );
-    }
-
-    const token = authHeader.substring(7);
-    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
-
-    if (userError || !user) {
-      return NextResponse.json(
-        { error: '認証が必要です' },
-        { status: 401 }
-      );
-    }
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     // URLパラメータから条件を取得
     const { searchParams } = new URL(request.url);
@@ -40,46 +28,53 @@ export async function GET(request: NextRequest) {
     const maxResults = parseInt(searchParams.get('maxResults') || '50');
     const todayOnly = searchParams.get('todayOnly') === 'true';
 
-    // 今日のイベント取得の場合は日付範囲を設定
+    // 今日のイベント取得の場合はユーザーのタイムゾーンでの今日の範囲を設定
     let actualStartDate = startDate;
     let actualEndDate = endDate;
     
     if (todayOnly) {
-      const today = new Date();
-      actualStartDate = today.toISOString().split('T')[0] + 'T00:00:00.000Z';
-      actualEndDate = today.toISOString().split('T')[0] + 'T23:59:59.999Z';
+      const { timeZone } = await getUserLocale(supabase, user.id);
+      const { start, end } = dayRangeIn(toDateKeyIn(new Date(), timeZone), timeZone);
+      actualStartDate = start.toISOString();
+      actualEndDate = end.toISOString();
     }
 
-    // ユーザーのGoogle認証情報を取得
-    const { data: userData, error: userDataError } = await supabase
-      .from('users')
-      .select('google_access_token, google_refresh_token')
-      .eq('id', user.id)
-      .single();
-
-    if (userDataError || !userData?.google_refresh_token) {
+    // 連携済みのカレンダー（Google / CalDAV）
+    const providers = await getUserCalendarProviders(supabase, user.id);
+    if (providers.length === 0) {
       return NextResponse.json(
-        { error: 'Google Calendar連携が必要です' },
+        { error: 'Google Calendar または CalDAV の連携が必要です' },
         { status: 400 }
       );
     }
 
-    // Google Calendar APIクライアント作成
-    const calendarClient = createUserCalendarClient(
-      userData.google_access_token || '',
-      userData.google_refresh_token
+    // イベント取得（一部のカレンダーの失敗は他の結果を返す）
+    const results = await Promise.allSettled(
+      providers.map(({ provider }) => provider.getEvents(
+        actualStartDate || undefined,
+        actualEndDate || undefined,
+        maxResults
+      ))
     );
 
-    // イベント取得
-    const events = await calendarClient.getEvents(
-      actualStartDate || undefined,
-      actualEndDate || undefined,
-      maxResults
-    );
+    const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed.length === results.length) {
+      throw failed[0].reason;
+    }
+    failed.forEach(result => console.error('カレンダーイベント取得エラー（一部）:', result.reason));
+
+    const fetched = results.flatMap((result, index) => result.status === 'fulfilled'
+      ? result.value.map(event => ({ event, provider: providers[index].provider, color: providers[index].color }))
+      : []);
+
+    fetched.sort((a, b) => new Date(a.event.start.dateTime).getTime() - new Date(b.event.start.dateTime).getTime());
+    const limited = fetched.slice(0, maxResults);
+    // カレンダーごとの色を付けて返す
+    const events = limited.map(({ event, color }) => (color ? { ...event, color } : event));
 
     // Supabaseにイベントデータを同期保存
-    if (events.length > 0) {
-      const eventsToSync = events.map(event => ({
+    if (limited.length > 0) {
+      const eventsToSync = limited.map(({ event, provider }) => ({
         user_id: user.id,
         google_event_id: event.id,
         title: event.summary,
@@ -87,13 +82,14 @@ export async function GET(request: NextRequest) {
         start_time: event.start.dateTime,
         end_time: event.end.dateTime,
         location: event.location,
-        event_source: 'google_calendar',
+        ...provider.scope,
         last_synced_at: new Date().toISOString(),
       }));
 
       // 既存イベントと重複しないよう upsert
+      const syncedIds: string[] = [];
       for (const eventData of eventsToSync) {
-        await supabase
+        const { data: synced } = await supabase
           .from('events')
           .upsert(
             eventData,
@@ -101,8 +97,14 @@ export async function GET(request: NextRequest) {
               onConflict: 'user_id,google_event_id',
               ignoreDuplicates: false 
             }
-          );
+          )
+          .select('id')
+          .maybeSingle();
+        if (synced) syncedIds.push(synced.id);
       }
+
+      // 開始時刻の変わった予定のリマインダーを予約し直す
+      await refreshEventReminders(supabase, user.id, syncedIds);
     }
 
     return NextResponse.json({
@@ -153,6 +155,9 @@ export async function GET(request: NextRequest) {
 /**
  * カレンダーイベント作成・同期API
  * POST /api/calendar/events
+ * body.connectionId を指定すると CalDAV のカレンダーに作成する（省略時は Google Calendar）
+ * body.calendarId で Google のカレンダーを指定できる（省略時はメインのカレンダー）
+ * body.travelMode / body.travelOrigin で移動手段・出発地を指定できる（省略時は移動設定の既定値）
  */
 export async function POST(request: NextRequest) {
   try {
@@ -161,57 +166,53 @@ export async function POST(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    // Authorization ヘッダーからトークンを取得
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json();
+    const { title, description, startTime, endTime, location, connectionId, calendarId, travelMode, travelOrigin } = body;
+
+    if (!title || !startTime || !endTime) {
       return NextResponse.json(
-        { error: '認証が必要です' },
-        { status: 401 }
+        { error: 'タイトル、開始時間、終了時間は必須です' },
+        { status: 400 }
       );
     }
 
-    const token = authHeader.substring(7);
-    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
-
-    if (userError || !user) {
+    if (travelMode !== undefined && travelMode !== null && !isValidTravelMode(travelMode)) {
       return NextResponse.json(
-        { error: '認証が必要です' },
-        { status: 401 }
+        { error: '移動手段は none / walking / bicycling / transit / driving のいずれかで指定してください' },
+        { status: 400 }
       );
     }
 
-    const body = await request.json();
-    const { title, description, startTime, endTime, location } = body;
-
-    if (!title || !startTime || !endTime) {
+    if (travelOrigin !== undefined && travelOrigin !== null && !isValidTravelBase(travelOrigin)) {
       return NextResponse.json(
-        { error: 'タイトル、開始時間、終了時間は必須です' },
+        { error: '出発地は home / office のいずれかで指定してください' },
         { status: 400 }
       );
     }
 
-    // ユーザーのGoogle認証情報を取得
-    const { data: userData, error: userDataError } = await supabase
-      .from('users')
-      .select('google_access_token, google_refresh_token')
-      .eq('id', user.id)
-      .single();
+    // 作成先のカレンダー
+    const target = await getEventProvider(supabase, user.id, connectionId
+      ? { event_source: 'caldav', calendar_connection_id: connectionId }
+      : { event_source: 'google_calendar', google_calendar_id: typeof calendarId === 'string' ? calendarId : null });
 
-    if (userDataError || !userData?.google_refresh_token) {
+    if (!target) {
+      if (connectionId || calendarId) {
+        return NextResponse.json(
+          { error: connectionId ? 'CalDAVカレンダーが見つかりません' : 'Googleカレンダーが見つかりません' },
+          { status: 404 }
+        );
+      }
       return NextResponse.json(
         { error: 'Google Calendar連携が必要です' },
         { status: 400 }
       );
     }
 
-    // Google Calendar APIクライアント作成
-    const calendarClient = createUserCalendarClient(
-      userData.google_access_token || '',
-      userData.google_refresh_token
-    );
-
-    // Google Calendarにイベント作成
-    const createdEvent = await calendarClient.createEvent({
+    // 外部カレンダーにイベント作成
+    const createdEvent = await target.provider.createEvent({
       title,
       description,
       startTime,
@@ -230,7 +231,11 @@ export async function POST(request: NextRequest) {
         start_time: createdEvent.start.dateTime,
         end_time: createdEvent.end.dateTime,
         location: createdEvent.location,
-        event_source: 'google_calendar',
+        travel_mode: travelMode ?? null,
+        travel_origin: travelOrigin ?? null,
+        ...target.provider.scope,
+        google_etag: createdEvent.etag,
+        google_updated_at: createdEvent.updated,
         last_synced_at: new Date().toISOString(),
       })
       .select()
@@ -238,11 +243,13 @@ export async function POST(request: NextRequest) {
 
     if (insertError) {
       console.error('イベント保存エラー:', insertError);
+    } else {
+      await refreshEventReminders(supabase, user.id, [eventRecord.id]);
     }
 
     return NextResponse.json({
       success: true,
-      event: createdEvent,
+      event: target.color ? { ...createdEvent, color: target.color } : createdEvent,
       local_record: eventRecord,
       synced_at: new Date().toISOString(),
     });
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { ICS_CONFIG } from '@/lib/config/environment';
+import { exportCalendar, resolveCalendarFeedToken } from '@/lib/calendar/feed';
+
+/**
+ * カレンダー購読フィード
+ * GET /api/calendar/feed/[token].ics - カレンダーアプリが定期的に取得する .ics
+ *
+ * カレンダーアプリはセッションを持たないため、URLの秘密トークンで利用者を特定する。
+ * 無効・失効したトークンには存在を明かさないよう一律 404 を返す
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const feed = await resolveCalendarFeedToken(supabase, params.token.replace(/\.ics$/i, ''));
+    if (!feed) {
+      return NextResponse.json(
+        { error: '購読URLが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const ics = await exportCalendar(supabase, feed.userId, {
+      includeTasks: feed.includeTasks,
+      refreshMinutes: ICS_CONFIG.feedRefreshMinutes,
+    });
+
+    return new NextResponse(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+
+  } catch (error) {
+    console.error('購読フィード生成エラー:', error);
+    return NextResponse.json(
+      {
+        error: '購読フィードの生成に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import {
+  getCalendarFeedStatus,
+  getCalendarFeedUrl,
+  issueCalendarFeedToken,
+  revokeCalendarFeedToken,
+} from '@/lib/calendar/feed';
+
+/**
+ * カレンダー購読URLの管理API
+ * GET /api/calendar/feed - 購読URLの状態（トークンはハッシュのみ保存しているためURLは返せない）
+ * POST /api/calendar/feed - 購読URLを発行（再発行すると以前のURLは無効になる）
+ * DELETE /api/calendar/feed - 購読URLを無効化
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const status = await getCalendarFeedStatus(supabase, user.id);
+
+    return NextResponse.json({
+      success: true,
+      feed: status,
+    });
+
+  } catch (error) {
+    console.error('購読URL取得エラー:', error);
+    return NextResponse.json(
+      {
+        error: '購読URLの取得に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json().catch(() => ({}));
+    const includeTasks = body.includeTasks !== false;
+
+    const token = await issueCalendarFeedToken(supabase, user.id, includeTasks);
+
+    return NextResponse.json({
+      success: true,
+      url: getCalendarFeedUrl(token),
+      includeTasks,
+      message: '購読URLを発行しました。このURLは再表示できないため控えておいてください',
+    });
+
+  } catch (error) {
+    console.error('購読URL発行エラー:', error);
+    return NextResponse.json(
+      {
+        error: '購読URLの発行に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    await revokeCalendarFeedToken(supabase, user.id);
+
+    return NextResponse.json({
+      success: true,
+      message: '購読URLを無効にしました',
+    });
+
+  } catch (error) {
+    console.error('購読URL無効化エラー:', error);
+    return NextResponse.json(
+      {
+        error: '購読URLの無効化に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
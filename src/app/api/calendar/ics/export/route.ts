@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { exportCalendar } from '@/lib/calendar/feed';
+
+/**
+ * iCalendar書き出しAPI
+ * GET /api/calendar/ics/export - 予定と配置済みタスクを .ics ファイルとしてダウンロード
+ *
+ * クエリ: from / to（既定: 過去30日〜180日後）、include=events,tasks（既定: 両方）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : undefined;
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : undefined;
+    const include = (searchParams.get('include') || 'events,tasks').split(',');
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json(
+        { error: 'from / to の日時が正しくありません' },
+        { status: 400 }
+      );
+    }
+
+    const ics = await exportCalendar(supabase, user.id, {
+      from,
+      to,
+      includeEvents: include.includes('events'),
+      includeTasks: include.includes('tasks'),
+    });
+
+    return new NextResponse(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="schedule.ics"',
+      },
+    });
+
+  } catch (error) {
+    console.error('iCalendar書き出しエラー:', error);
+    return NextResponse.json(
+      {
+        error: 'iCalendarの書き出しに失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { ICS_CONFIG } from '@/lib/config/environment';
+import { importIcs } from '@/lib/calendar/icsImport';
+import { refreshUserReminders } from '@/lib/notifications/reminders';
+
+/**
+ * iCalendar取り込みAPI
+ * POST /api/calendar/ics/import - .ics の予定を events に取り込む
+ *
+ * 本文は次のいずれか:
+ * - multipart/form-data の file（任意で from / to）
+ * - text/calendar の .ics テキストそのもの
+ * - JSON { ics, from?, to? }
+ * 予定は iCalendar の UID で識別し、同じファイルを再度取り込むと更新される（重複しない）。
+ * 繰り返しの予定は from〜to（既定: 過去30日〜1年後）の範囲で1回ずつの予定に展開する
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const contentType = request.headers.get('content-type') || '';
+    let text: string;
+    let from: unknown;
+    let to: unknown;
+
+    if (contentType.includes('multipart/form-data')) {
+      const form = await request.formData();
+      const file = form.get('file');
+      text = typeof file === 'string' ? file : file ? await file.text() : '';
+      from = form.get('from');
+      to = form.get('to');
+    } else if (contentType.includes('application/json')) {
+      const body = await request.json();
+      text = typeof body.ics === 'string' ? body.ics : '';
+      from = body.from;
+      to = body.to;
+    } else {
+      text = await request.text();
+    }
+
+    if (!text.includes('BEGIN:VCALENDAR')) {
+      return NextResponse.json(
+        { error: 'iCalendar（.ics）形式のデータを指定してください' },
+        { status: 400 }
+      );
+    }
+
+    if (Buffer.byteLength(text, 'utf8') > ICS_CONFIG.maxImportBytes) {
+      return NextResponse.json(
+        { error: `ファイルサイズは${ICS_CONFIG.maxImportBytes / 1024 / 1024}MBまでです` },
+        { status: 400 }
+      );
+    }
+
+    const range: { from?: Date; to?: Date } = {};
+    for (const [key, value] of [['from', from], ['to', to]] as const) {
+      if (value === null || value === undefined || value === '') continue;
+      const date = new Date(String(value));
+      if (isNaN(date.getTime())) {
+        return NextResponse.json(
+          { error: `${key}の日時が正しくありません` },
+          { status: 400 }
+        );
+      }
+      range[key] = date;
+    }
+
+    if (range.from && range.to && range.from >= range.to) {
+      return NextResponse.json(
+        { error: 'toはfromより後の日時にしてください' },
+        { status: 400 }
+      );
+    }
+
+    const result = await importIcs(supabase, user.id, text, range);
+    await refreshUserReminders(supabase, user.id);
+
+    await supabase
+      .from('analytics_logs')
+      .insert({
+        user_id: user.id,
+        event_type: 'ics_imported',
+        event_data: {
+          created: result.created,
+          updated: result.updated,
+          removed: result.removed,
+          warning_count: result.warnings.length,
+        },
+      });
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: `${result.created}件の予定を追加、${result.updated}件を更新しました`,
+    });
+
+  } catch (error) {
+    console.error('iCalendar取り込みエラー:', error);
+    return NextResponse.json(
+      {
+        error: 'iCalendarの取り込みに失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { createUserCalendarClient } from '@/lib/google/calendar';
+import { requireUser } from '@/lib/auth/server';
+import { PullResult, PushResult, SyncConflictPolicy, syncUserCalendar } from '@/lib/google/sync';
+import { getUserCalendarProviders } from '@/lib/calendar/connections';
+import { refreshUserReminders } from '@/lib/notifications/reminders';
 
 /**
- * 手動同期トリガーAPI
+ * 双方向同期の対象となる events.event_source
+ */
+const SYNCED_EVENT_SOURCES = ['google_calendar', 'caldav'];
+
+/**
+ * 手動同期トリガーAPI（双方向・増分同期）
+ * Google Calendar と連携済みのすべての CalDAV カレンダーを順に同期する
  * POST /api/calendar/sync
+ * body: { force?: boolean, fullSync?: boolean, conflictPolicy?: 'latest_wins' | 'google_wins' | 'local_wins' }
  */
 export async function POST(request: NextRequest) {
   try {
@@ -13,44 +23,39 @@ export async function POST(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    // Authorization ヘッダーからトークンを取得
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: '認証が必要です' },
-        { status: 401 }
-      );
-    }
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
-    const token = authHeader.substring(7);
-    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+    const body = await request.json().catch(() => ({}));
+    const {
+      force = false,
+      fullSync = false,
+      conflictPolicy = SyncConflictPolicy.LATEST_WINS,
+    } = body;
 
-    if (userError || !user) {
+    if (!Object.values(SyncConflictPolicy).includes(conflictPolicy)) {
       return NextResponse.json(
-        { error: '認証が必要です' },
-        { status: 401 }
+        { error: '競合解決方針は latest_wins, google_wins, local_wins のいずれかを指定してください' },
+        { status: 400 }
       );
     }
 
-    const body = await request.json();
-    const { force = false, range = 'today' } = body;
-
-    // ユーザーのGoogle認証情報を取得
-    const { data: userData, error: userDataError } = await supabase
+    const { data: userData } = await supabase
       .from('users')
-      .select('google_access_token, google_refresh_token, last_calendar_sync')
+      .select('last_calendar_sync')
       .eq('id', user.id)
       .single();
 
-    if (userDataError || !userData?.google_refresh_token) {
+    const providers = await getUserCalendarProviders(supabase, user.id);
+    if (providers.length === 0) {
       return NextResponse.json(
-        { error: 'Google Calendar連携が必要です' },
+        { error: 'Google Calendar または CalDAV の連携が必要です' },
         { status: 400 }
       );
     }
 
     // 強制同期でない場合、最後の同期時間をチェック（5分以内なら同期スキップ）
-    if (!force && userData.last_calendar_sync) {
+    if (!force && !fullSync && userData?.last_calendar_sync) {
       const lastSync = new Date(userData.last_calendar_sync);
       const now = new Date();
       const diffMinutes = (now.getTime() - lastSync.getTime()) / (1000 * 60);
@@ -65,80 +70,52 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // 同期範囲の設定
-    let startDate: string | undefined;
-    let endDate: string | undefined;
-    
-    switch (range) {
-      case 'today':
-        const today = new Date();
-        startDate = today.toISOString().split('T')[0] + 'T00:00:00.000Z';
-        endDate = today.toISOString().split('T')[0] + 'T23:59:59.999Z';
-        break;
-      case 'week':
-        const weekStart = new Date();
-        weekStart.setDate(weekStart.getDate() - weekStart.getDay());
-        weekStart.setHours(0, 0, 0, 0);
-        const weekEnd = new Date(weekStart);
-        weekEnd.setDate(weekEnd.getDate() + 6);
-        weekEnd.setHours(23, 59, 59, 999);
-        startDate = weekStart.toISOString();
-        endDate = weekEnd.toISOString();
-        break;
-      case 'month':
-        const monthStart = new Date();
-        monthStart.setDate(1);
-        monthStart.setHours(0, 0, 0, 0);
-        const monthEnd = new Date(monthStart);
-        monthEnd.setMonth(monthEnd.getMonth() + 1);
-        monthEnd.setDate(0);
-        monthEnd.setHours(23, 59, 59, 999);
-        startDate = monthStart.toISOString();
-        endDate = monthEnd.toISOString();
-        break;
-    }
+    // 双方向同期（外部カレンダー側の変更を取り込み → ローカルの変更を書き戻し）
+    // 1つのカレンダーの失敗で他のカレンダーの同期を止めない
+    const pulled: PullResult = { created: 0, updated: 0, deleted: 0, conflicts: [], fullSync: false };
+    const pushed: PushResult = { created: 0, updated: 0, deleted: 0, deferred: 0, failed: 0 };
+    const calendars = [];
 
-    // Google Calendar APIクライアント作成
-    const calendarClient = createUserCalendarClient(
-      userData.google_access_token || '',
-      userData.google_refresh_token
-    );
-
-    // イベント取得
-    const events = await calendarClient.getEvents(startDate, endDate, 100);
+    for (const { provider, calendarId, name } of providers) {
+      try {
+        const result = await syncUserCalendar(supabase, provider, user.id, {
+          calendarId,
+          fullSync,
+          conflictPolicy,
+        });
 
-    // Supabaseに同期保存
-    let syncedCount = 0;
-    let errorCount = 0;
+        pulled.created += result.pulled.created;
+        pulled.updated += result.pulled.updated;
+        pulled.deleted += result.pulled.deleted;
+        pulled.conflicts.push(...result.pulled.conflicts);
+        pulled.fullSync = pulled.fullSync || result.pulled.fullSync;
+        (Object.keys(pushed) as (keyof PushResult)[]).forEach(key => {
+          pushed[key] += result.pushed[key];
+        });
 
-    for (const event of events) {
-      try {
-        await supabase
-          .from('events')
-          .upsert(
-            {
-              user_id: user.id,
-              google_event_id: event.id,
-              title: event.summary,
-              description: event.description,
-              start_time: event.start.dateTime,
-              end_time: event.end.dateTime,
-              location: event.location,
-              event_source: 'google_calendar',
-              last_synced_at: new Date().toISOString(),
-            },
-            { 
-              onConflict: 'user_id,google_event_id',
-              ignoreDuplicates: false 
-            }
-          );
-        syncedCount++;
-      } catch (error) {
-        console.error('イベント同期エラー:', event.id, error);
-        errorCount++;
+        if (provider.connectionId) {
+          await supabase
+            .from('calendar_connections')
+            .update({ last_synced_at: new Date().toISOString() })
+            .eq('id', provider.connectionId);
+        }
+
+        calendars.push({ provider: provider.type, name, success: true, full_sync: result.pulled.fullSync });
+      } catch (syncError) {
+        console.error('カレンダー同期エラー:', name, syncError);
+        calendars.push({ provider: provider.type, name, success: false, full_sync: false });
       }
     }
 
+    if (calendars.every(calendar => !calendar.success)) {
+      throw new Error('すべてのカレンダーの同期に失敗しました');
+    }
+
+    // 取り込んだ予定の追加・変更・削除をリマインダーに反映
+    if (pulled.created + pulled.updated + pulled.deleted > 0) {
+      await refreshUserReminders(supabase, user.id);
+    }
+
     // 最後の同期時間を更新
     await supabase
       .from('users')
@@ -151,10 +128,15 @@ export async function POST(request: NextRequest) {
       success: true,
       message: '同期が完了しました',
       statistics: {
-        total_events: events.length,
-        synced_count: syncedCount,
-        error_count: errorCount,
-        range,
+        full_sync: pulled.fullSync,
+        pulled: {
+          created: pulled.created,
+          updated: pulled.updated,
+          deleted: pulled.deleted,
+        },
+        pushed,
+        conflicts: pulled.conflicts,
+        calendars,
       },
       last_synced: new Date().toISOString(),
       skipped: false,
@@ -181,24 +163,8 @@ export async function GET(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    // Authorization ヘッダーからトークンを取得
-    const authHeader = request.headers.get('Authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: '認証が必要です' },
-        { status: 401 }
-      );
-    }
-
-    const token = authHeader.substring(7);
-    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
-
-    if (userError || !user) {
-      return NextResponse.json(
-        { error: '認証が必要です' },
-        { status: 401 }
-      );
-    }
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     // ユーザーの同期状態を取得
     const { data: userData } = await supabase
@@ -207,19 +173,46 @@ export async function GET(request: NextRequest) {
       .eq('id', user.id)
       .single();
 
+    // CalDAV の連携数
+    const { count: caldavCount } = await supabase
+      .from('calendar_connections')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id);
+
     // 最近のイベント数を取得
     const { count } = await supabase
       .from('events')
       .select('*', { count: 'exact' })
       .eq('user_id', user.id)
-      .eq('event_source', 'google_calendar')
+      .in('event_source', SYNCED_EVENT_SOURCES)
       .gte('last_synced_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()); // 24時間以内
 
+    // 外部カレンダーへ未送信のローカル変更数
+    const { count: pendingCount } = await supabase
+      .from('events')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .in('event_source', SYNCED_EVENT_SOURCES)
+      .neq('sync_status', 'synced');
+
+    // 増分同期の状態（Google）
+    const { data: syncState } = await supabase
+      .from('calendar_sync_state')
+      .select('sync_token, last_full_sync_at')
+      .eq('user_id', user.id)
+      .eq('calendar_id', 'primary')
+      .maybeSingle();
+
     return NextResponse.json({
       success: true,
       sync_status: {
-        is_connected: !!userData?.google_refresh_token,
+        is_connected: !!userData?.google_refresh_token || (caldavCount || 0) > 0,
+        google_connected: !!userData?.google_refresh_token,
+        caldav_connections: caldavCount || 0,
         last_synced: userData?.last_calendar_sync,
+        last_full_sync: syncState?.last_full_sync_at ?? null,
+        incremental: !!syncState?.sync_token,
+        pending_changes: pendingCount || 0,
         recent_events_count: count || 0,
         needs_sync: !userData?.last_calendar_sync || 
           (new Date().getTime() - new Date(userData.last_calendar_sync).getTime()) > (5 * 60 * 1000),
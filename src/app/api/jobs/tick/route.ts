@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCronSecret } from '@/lib/auth/server';
+import { createJobScheduler } from '@/lib/jobs/definitions';
+
+/**
+ * ジョブスケジューラーAPI（cronから毎分呼び出し用）
+ * GET/POST /api/jobs/tick - 実行予定時刻を過ぎたジョブ（リマインダー・日次サマリー・通知キューなど）を実行
+ *
+ * Authorization: Bearer <CRON_SECRET> が必要。複数のインスタンスから同時に呼ばれても
+ * スケジュール単位で確保するため同じジョブが二重に実行されることはない。
+ * 呼び出しが止まっていた間に取りこぼした実行は、次の呼び出しで1回にまとめて後追い実行する
+ */
+export async function GET(request: NextRequest) {
+  return runTick(request);
+}
+
+export async function POST(request: NextRequest) {
+  return runTick(request);
+}
+
+async function runTick(request: NextRequest) {
+  try {
+    const errorResponse = requireCronSecret(request);
+    if (errorResponse) return errorResponse;
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { searchParams } = new URL(request.url);
+    const batchSize = parseInt(searchParams.get('batchSize') || '20') || 20;
+
+    const result = await createJobScheduler(supabase, {
+      batchSize: Math.min(Math.max(batchSize, 1), 100),
+    }).tick();
+
+    return NextResponse.json({
+      success: true,
+      result,
+      processedAt: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('ジョブスケジューラー実行エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'ジョブの実行に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
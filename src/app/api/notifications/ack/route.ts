@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { NotificationTokenPurpose, verifyNotificationToken } from '@/lib/notifications/signing';
+
+/**
+ * 通知の表示確認API（Service Workerから呼び出し用）
+ * POST /api/notifications/ack - ブラウザ通知を表示したことを記録して送信済みにする
+ *
+ * プッシュ受信時のService Workerはセッションを持たないため、
+ * 通知と一緒に渡した署名付きトークン（ackToken）で認可する
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const body = await request.json();
+    const { notificationId, token } = body;
+
+    if (typeof notificationId !== 'string' || typeof token !== 'string') {
+      return NextResponse.json(
+        { error: 'notificationIdとtokenが必要です' },
+        { status: 400 }
+      );
+    }
+
+    if (!verifyNotificationToken(notificationId, NotificationTokenPurpose.ACK, token)) {
+      return NextResponse.json(
+        { error: 'トークンが正しくありません' },
+        { status: 403 }
+      );
+    }
+
+    const { data: status, error } = await supabase.rpc('acknowledge_browser_notification', {
+      notification_id: notificationId,
+    });
+
+    if (error) throw error;
+
+    if (!status) {
+      return NextResponse.json(
+        { error: '通知が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      status,
+      acknowledgedAt: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Notification ack error:', error);
+
+    return NextResponse.json(
+      {
+        error: '通知の表示確認に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
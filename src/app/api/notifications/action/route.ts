@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import {
+  isNotificationAction,
+  NOTIFICATION_ACTION_LABELS,
+  NotificationAction,
+  performNotificationAction,
+  verifyActionToken,
+} from '@/lib/notifications/actions';
+import { NotificationQueueManager } from '@/lib/notifications/queue';
+
+/**
+ * 通知の操作API（完了・スヌーズ・明日に延期）
+ * GET /api/notifications/action?n=&a=&t= - Discord・メールのリンク先。確認ページを表示する
+ * POST /api/notifications/action - 操作を実行（Service WorkerからはJSON、確認ページからはフォーム送信）
+ *
+ * 認可は通知と一緒に渡した署名付きトークンで行う（操作の種類と有効期限を含む）。
+ * リンクのプレビュー取得で実行されないよう、GETでは何も変更しない
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const notificationId = searchParams.get('n');
+  const action = searchParams.get('a');
+  const token = searchParams.get('t');
+
+  if (!notificationId || !token || !isNotificationAction(action)) {
+    return htmlResponse('リンクが正しくありません', '通知のリンクをもう一度開いてください。', 400);
+  }
+
+  if (!verifyActionToken(notificationId, action, token)) {
+    return htmlResponse('リンクの有効期限が切れています', 'アプリから直接タスクを操作してください。', 403);
+  }
+
+  return htmlResponse(
+    `「${NOTIFICATION_ACTION_LABELS[action]}」を実行しますか？`,
+    '',
+    200,
+    [
+      '<form method="POST" action="/api/notifications/action">',
+      `<input type="hidden" name="notificationId" value="${escapeHtml(notificationId)}">`,
+      `<input type="hidden" name="action" value="${escapeHtml(action)}">`,
+      `<input type="hidden" name="token" value="${escapeHtml(token)}">`,
+      `<button type="submit" style="padding:10px 24px;font-size:16px;border:0;border-radius:6px;background:#2563eb;color:#fff;cursor:pointer;">${escapeHtml(NOTIFICATION_ACTION_LABELS[action])}</button>`,
+      '</form>',
+    ].join('')
+  );
+}
+
+export async function POST(request: NextRequest) {
+  const fromForm = (request.headers.get('content-type') || '').includes('application/x-www-form-urlencoded');
+
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const body = fromForm
+      ? Object.fromEntries(await request.formData())
+      : await request.json();
+    const { notificationId, action, token, deviceId } = body;
+
+    if (typeof notificationId !== 'string' || typeof token !== 'string') {
+      return respond(fromForm, 'notificationIdとtokenが必要です', 400);
+    }
+
+    if (!isNotificationAction(action)) {
+      return respond(fromForm, `actionは${Object.values(NotificationAction).join(', ')}のいずれかで指定してください`, 400);
+    }
+
+    if (!verifyActionToken(notificationId, action, token)) {
+      return respond(fromForm, 'トークンが正しくないか、有効期限が切れています', 403);
+    }
+
+    const queue = new NotificationQueueManager(supabase);
+    const notification = await queue.getNotification(notificationId);
+
+    if (!notification) {
+      return respond(fromForm, '通知が見つかりません', 404);
+    }
+
+    const result = await performNotificationAction(
+      supabase,
+      queue,
+      notification,
+      action,
+      typeof deviceId === 'string' ? deviceId : null
+    );
+
+    if (fromForm) {
+      return htmlResponse(result.message, 'このページは閉じてかまいません。', 200);
+    }
+
+    return NextResponse.json({
+      success: true,
+      result,
+      message: result.message,
+    });
+
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return respond(fromForm, error.message, error.statusCode);
+    }
+
+    console.error('Notification action error:', error);
+
+    if (fromForm) {
+      return htmlResponse('操作に失敗しました', 'しばらくしてからもう一度お試しください。', 500);
+    }
+
+    return NextResponse.json(
+      {
+        error: '通知の操作に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * エラー応答（フォーム送信ならページ、それ以外はJSON）
+ */
+function respond(fromForm: boolean, message: string, status: number): NextResponse {
+  return fromForm
+    ? htmlResponse('操作できませんでした', message, status)
+    : NextResponse.json({ error: message }, { status });
+}
+
+function htmlResponse(title: string, message: string, status: number, content: string = ''): NextResponse {
+  const html = [
+    '<!DOCTYPE html>',
+    '<html lang="ja">',
+    '<head><meta charset="UTF-8"><meta name="viewport" content="width=device-width, initial-scale=1.0">',
+    `<meta name="robots" content="noindex"><title>${escapeHtml(title)}</title></head>`,
+    '<body style="margin:0;padding:48px 24px;background:#f5f5f5;font-family:-apple-system,BlinkMacSystemFont,\'Hiragino Sans\',\'Noto Sans JP\',sans-serif;">',
+    '<div style="max-width:480px;margin:0 auto;padding:24px;background:#fff;border-radius:8px;text-align:center;">',
+    `<h1 style="margin:0 0 12px;font-size:20px;color:#222;">${escapeHtml(title)}</h1>`,
+    message ? `<p style="margin:0 0 16px;color:#555;">${escapeHtml(message)}</p>` : '',
+    content,
+    '<p style="margin:16px 0 0;font-size:12px;color:#999;">AI Schedule Assistant</p>',
+    '</div>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+
+  return new NextResponse(html, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
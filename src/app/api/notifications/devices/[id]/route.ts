@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { getDevice, PRIORITY_RANK, toNotificationDevice } from '@/lib/notifications/devices';
+
+const VALID_NOTIFICATION_TYPES = ['task_reminder', 'event_reminder', 'travel_reminder', 'urgent_task', 'daily_summary', 'custom'];
+
+/**
+ * 通知デバイス設定API
+ * PATCH /api/notifications/devices/[id] - デバイス名・受信設定（enabled, minPriority, notificationTypes）の更新
+ * DELETE /api/notifications/devices/[id] - デバイスの削除（このデバイスのプッシュ購読も削除される）
+ *
+ * 例: スマートフォンは minPriority: 'urgent' にすると緊急の通知だけを受け取る
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const device = await getDevice(supabase, user.id, params.id);
+    if (!device) {
+      return NextResponse.json(
+        { error: 'デバイスが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, enabled, minPriority, notificationTypes } = body;
+    const updates: Record<string, unknown> = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || name.trim() === '' || name.length > 100) {
+        return NextResponse.json(
+          { error: 'デバイス名は1〜100文字で指定してください' },
+          { status: 400 }
+        );
+      }
+      updates.name = name.trim();
+    }
+
+    if (enabled !== undefined) {
+      if (typeof enabled !== 'boolean') {
+        return NextResponse.json(
+          { error: 'enabledはtrueまたはfalseで指定してください' },
+          { status: 400 }
+        );
+      }
+      updates.enabled = enabled;
+    }
+
+    if (minPriority !== undefined) {
+      if (!Object.keys(PRIORITY_RANK).includes(minPriority)) {
+        return NextResponse.json(
+          { error: 'minPriorityはlow, medium, high, urgentのいずれかで指定してください' },
+          { status: 400 }
+        );
+      }
+      updates.min_priority = minPriority;
+    }
+
+    if (notificationTypes !== undefined) {
+      if (notificationTypes !== null && (
+        !Array.isArray(notificationTypes) ||
+        notificationTypes.length === 0 ||
+        notificationTypes.some((type: unknown) => typeof type !== 'string' || !VALID_NOTIFICATION_TYPES.includes(type))
+      )) {
+        return NextResponse.json(
+          {
+            error: '無効な通知タイプが含まれています',
+            details: `notificationTypesはnull（すべて）または ${VALID_NOTIFICATION_TYPES.join(', ')} の配列で指定してください`
+          },
+          { status: 400 }
+        );
+      }
+      updates.notification_types = notificationTypes;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: '更新する項目がありません' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('notification_devices')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', device.id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({
+      success: true,
+      device: toNotificationDevice(data),
+      message: 'デバイスの設定を更新しました',
+    });
+
+  } catch (error) {
+    console.error('Update notification device error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'デバイスの設定の更新に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const { data, error } = await supabase
+      .from('notification_devices')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select('id');
+
+    if (error) throw error;
+
+    if (!data || data.length === 0) {
+      return NextResponse.json(
+        { error: 'デバイスが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'デバイスを削除しました',
+    });
+
+  } catch (error) {
+    console.error('Delete notification device error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'デバイスの削除に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
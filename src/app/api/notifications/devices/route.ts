@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import {
+  DEFAULT_DEVICE_PREFERENCES,
+  describeDevice,
+  getDevice,
+  getUserDevices,
+  toNotificationDevice,
+} from '@/lib/notifications/devices';
+
+/**
+ * 通知デバイス管理API
+ * GET /api/notifications/devices - 登録済みデバイスと受信設定の一覧
+ * POST /api/notifications/devices - このブラウザをデバイスとして登録（deviceIdを指定すると最終利用日時を更新）
+ *
+ * デバイスごとの受信設定は PATCH /api/notifications/devices/[id] で変更する
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const devices = await getUserDevices(supabase, [user.id]);
+
+    const { data: subscriptions, error } = await supabase
+      .from('push_subscriptions')
+      .select('device_id')
+      .eq('user_id', user.id)
+      .not('device_id', 'is', null);
+
+    if (error) throw error;
+
+    const pushDeviceIds = new Set((subscriptions || []).map(subscription => subscription.device_id));
+
+    return NextResponse.json({
+      success: true,
+      devices: devices.map(device => ({
+        ...device,
+        pushEnabled: pushDeviceIds.has(device.id),
+      })),
+      count: devices.length,
+    });
+
+  } catch (error) {
+    console.error('Get notification devices error:', error);
+
+    return NextResponse.json(
+      {
+        error: '通知デバイスの取得に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json().catch(() => ({}));
+    const { deviceId, name } = body;
+
+    if (name !== undefined && (typeof name !== 'string' || name.trim() === '' || name.length > 100)) {
+      return NextResponse.json(
+        { error: 'デバイス名は1〜100文字で指定してください' },
+        { status: 400 }
+      );
+    }
+
+    const userAgent = request.headers.get('user-agent') || '';
+    const described = describeDevice(userAgent);
+    const now = new Date().toISOString();
+
+    // 登録済みのデバイスは情報を更新するだけ（別のユーザーのIDなら新規登録）
+    const existing = typeof deviceId === 'string' ? await getDevice(supabase, user.id, deviceId) : null;
+
+    if (existing) {
+      const { data, error } = await supabase
+        .from('notification_devices')
+        .update({
+          ...(name ? { name: name.trim() } : {}),
+          device_info: described.deviceInfo,
+          last_seen_at: now,
+          updated_at: now,
+        })
+        .eq('id', existing.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return NextResponse.json({
+        success: true,
+        device: toNotificationDevice(data),
+        created: false,
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('notification_devices')
+      .insert({
+        user_id: user.id,
+        name: name?.trim() || described.name,
+        device_type: described.deviceType,
+        device_info: described.deviceInfo,
+        enabled: DEFAULT_DEVICE_PREFERENCES.enabled,
+        min_priority: DEFAULT_DEVICE_PREFERENCES.minPriority,
+        notification_types: DEFAULT_DEVICE_PREFERENCES.notificationTypes,
+        last_seen_at: now,
+        created_at: now,
+        updated_at: now,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await supabase
+      .from('analytics_logs')
+      .insert({
+        user_id: user.id,
+        event_type: 'notification_device_registered',
+        event_data: {
+          device_id: data.id,
+          device_type: described.deviceType,
+          registered_at: now,
+        },
+      });
+
+    return NextResponse.json({
+      success: true,
+      device: toNotificationDevice(data),
+      created: true,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Register notification device error:', error);
+
+    return NextResponse.json(
+      {
+        error: '通知デバイスの登録に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
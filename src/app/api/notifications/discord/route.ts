@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { DiscordWebhookClient, TaskNotificationBuilder, DiscordEmbed } from '@/lib/notifications/discord';
+import { requireUser } from '@/lib/auth/server';
+import { getUserLocale } from '@/lib/schedule/timezone';
 
 interface DiscordNotificationRequest {
   type: 'task_reminder' | 'event_reminder' | 'urgent_task' | 'daily_summary' | 'custom';
@@ -24,6 +26,9 @@ interface DiscordTestRequest {
  * POST /api/notifications/discord - Discord Webhookに通知を送信
  */
 export async function POST(request: NextRequest) {
+  const { user, errorResponse } = await requireUser(request);
+  if (errorResponse) return errorResponse;
+
   try {
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -31,8 +36,6 @@ export async function POST(request: NextRequest) {
     );
 
     const body = await request.json() as DiscordNotificationRequest;
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
     
     const { type, webhookUrl, data, customMessage } = body;
 
@@ -64,6 +67,7 @@ export async function POST(request: NextRequest) {
 
     let embed: DiscordEmbed;
     let notificationTitle = '';
+    const userLocale = await getUserLocale(supabase, user.id);
 
     // 通知タイプ別の処理
     switch (type) {
@@ -74,7 +78,7 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
-        embed = TaskNotificationBuilder.createTaskReminder(data);
+        embed = TaskNotificationBuilder.createTaskReminder(data, userLocale);
         notificationTitle = `タスクリマインダー: ${data.title}`;
         break;
 
@@ -85,7 +89,7 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
-        embed = TaskNotificationBuilder.createEventReminder(data);
+        embed = TaskNotificationBuilder.createEventReminder(data, userLocale);
         notificationTitle = `イベントリマインダー: ${data.title}`;
         break;
 
@@ -96,7 +100,7 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
-        embed = TaskNotificationBuilder.createUrgentTaskAlert(data);
+        embed = TaskNotificationBuilder.createUrgentTaskAlert(data, userLocale);
         notificationTitle = `緊急タスク警告: ${data.title}`;
         break;
 
@@ -179,7 +183,7 @@ export async function POST(request: NextRequest) {
     await supabase
       .from('analytics_logs')
       .insert({
-        user_id: 'test-user-123',
+        user_id: user.id,
         event_type: 'discord_notification_failed',
         event_data: {
           error: error instanceof Error ? error.message : 'Unknown error',
@@ -203,6 +207,9 @@ export async function POST(request: NextRequest) {
  */
 export async function PUT(request: NextRequest) {
   try {
+    const { errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
     const body = await request.json() as DiscordTestRequest;
     const { webhookUrl, testType = 'simple' } = body;
 
@@ -335,8 +342,8 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '50');
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
     
     // Discord通知ログの取得
     const { data: discordLogs, error } = await supabase
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DiscordWebhookClient } from '@/lib/notifications/discord';
+import { requireUser } from '@/lib/auth/server';
 
 /**
  * 環境変数を使った簡易Discord通知テスト
@@ -7,6 +8,9 @@ import { DiscordWebhookClient } from '@/lib/notifications/discord';
  */
 export async function POST(request: NextRequest) {
   try {
+    const { errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
     const body = await request.json();
     const { message = 'テスト通知：AI Schedule Assistant が正常に動作しています！' } = body;
 
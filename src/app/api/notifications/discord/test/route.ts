@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DiscordWebhookClient, TaskNotificationBuilder, NotificationColors, DiscordEmbed } from '@/lib/notifications/discord';
+import { requireUser } from '@/lib/auth/server';
 
 interface DiscordTestRequest {
   webhookUrl: string;
@@ -12,6 +13,9 @@ interface DiscordTestRequest {
  */
 export async function POST(request: NextRequest) {
   try {
+    const { errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
     const body = await request.json() as DiscordTestRequest;
     const { webhookUrl, testScenario = 'basic' } = body;
 
@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { getDevice } from '@/lib/notifications/devices';
+import { NotificationQueueManager, toBrowserNotificationPayload } from '@/lib/notifications/queue';
 
 /**
  * 未送信通知の取得API（Service Workerから呼び出し用）
  * GET /api/notifications/pending - 送信すべき通知をチェックして返す
+ *
+ * 通知キューの配信処理を行ったうえで、Web Pushの購読がないためブラウザからの取得を待っている通知を返す。
+ * 返した通知はService Workerが表示後に /api/notifications/ack で確認するまで送信済みにならない。
+ * ?deviceId=xxx を指定するとそのデバイスの受信設定に合う通知だけを返す
  */
 export async function GET(request: NextRequest) {
   try {
@@ -12,82 +19,36 @@ export async function GET(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const { searchParams } = new URL(request.url);
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
     
     const currentTime = new Date();
-    const checkWindow = new Date(currentTime.getTime() + 5 * 60 * 1000); // 5分以内に送信予定
+    const queue = new NotificationQueueManager(supabase);
 
-    // 送信すべき通知を取得
-    const { data: pendingNotifications, error } = await supabase
-      .from('scheduled_notifications')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('status', 'scheduled')
-      .lte('notify_at', checkWindow.toISOString())
-      .order('notify_at', { ascending: true })
-      .limit(10); // 一度に最大10件
+    // cronワーカーを待たずにこのユーザーの配信時刻を過ぎた通知を処理する
+    await queue.processDue({ userId: user.id });
 
-    if (error) {
-      throw error;
-    }
+    const deviceId = new URL(request.url).searchParams.get('deviceId');
+    const device = deviceId ? await getDevice(supabase, user.id, deviceId) : null;
 
-    const notifications = [];
-    const notificationIds = [];
-
-    if (pendingNotifications) {
-      for (const notification of pendingNotifications) {
-        const notifyTime = new Date(notification.notify_at);
-        
-        // 送信時刻が現在時刻を過ぎているかチェック
-        if (notifyTime <= currentTime) {
-          notifications.push({
-            id: notification.id,
-            title: notification.title,
-            body: notification.body,
-            icon: '/icons/icon-192.png',
-            tag: `${notification.type}-${notification.target_id}`,
-            data: {
-              type: notification.type,
-              targetId: notification.target_id,
-              notificationId: notification.id,
-              timestamp: Date.now(),
-            }
-          });
-          
-          notificationIds.push(notification.id);
-        }
-      }
+    // 取得待ちの通知を取り出す（一度に最大10件）
+    const dispatchedNotifications = await queue.takeBrowserNotifications(user.id, 10, device);
+
+    const notifications = dispatchedNotifications.map(toBrowserNotificationPayload);
 
-      // 送信済みにステータスを更新
-      if (notificationIds.length > 0) {
-        const { error: updateError } = await supabase
-          .from('scheduled_notifications')
-          .update({
-            status: 'sent',
+    if (notifications.length > 0) {
+      // 送信ログを記録
+      await supabase
+        .from('analytics_logs')
+        .insert({
+          user_id: user.id,
+          event_type: 'notifications_sent',
+          event_data: {
+            count: notifications.length,
+            notification_ids: notifications.map(notification => notification.id),
             sent_at: currentTime.toISOString(),
-            updated_at: currentTime.toISOString(),
-          })
-          .in('id', notificationIds);
-
-        if (updateError) {
-          console.error('Failed to update notification status:', updateError);
-        }
-
-        // 送信ログを記録
-        await supabase
-          .from('analytics_logs')
-          .insert({
-            user_id: user.id,
-            event_type: 'notifications_sent',
-            event_data: {
-              count: notifications.length,
-              notification_ids: notificationIds,
-              sent_at: currentTime.toISOString(),
-            },
-          });
-      }
+          },
+        });
     }
 
     return NextResponse.json({
@@ -123,8 +84,8 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
     const { notificationId, force = false } = body;
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     if (!notificationId) {
       return NextResponse.json(
@@ -159,6 +120,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // ワーカーが配信中の通知は二重送信になるため扱わない
+    if (notification.status === 'processing') {
+      return NextResponse.json(
+        { error: '通知は配信処理中です' },
+        { status: 409 }
+      );
+    }
+
     // 通知時刻のチェック
     const notifyTime = new Date(notification.notify_at);
     const currentTime = new Date();
@@ -191,6 +160,7 @@ export async function POST(request: NextRequest) {
       .update({
         status: 'sent',
         sent_at: currentTime.toISOString(),
+        browser_fetched_at: currentTime.toISOString(),
         updated_at: currentTime.toISOString(),
       })
       .eq('id', notificationId);
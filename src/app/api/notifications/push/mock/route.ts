@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { PUSH_CONFIG } from '@/lib/config/environment';
+import { decryptPushPayload, toBase64Url, verifyVapidAuthorization } from '@/lib/notifications/webpush';
+
+/**
+ * モックプッシュサービスAPI（開発・テスト用、PUSH_MOCK_ENABLED または開発環境のみ）
+ * GET /api/notifications/push/mock - テスト用の購読情報と受信したメッセージを取得
+ * POST /api/notifications/push/mock - プッシュサービスとしてメッセージを受信（VAPIDを検証して復号）
+ * DELETE /api/notifications/push/mock - 受信したメッセージを消去
+ *
+ * GETで得た subscription を /api/notifications/push に登録すると、実際のブラウザなしで配信を確認できる
+ */
+
+interface MockPushMessage {
+  receivedAt: string;
+  ttl: string | null;
+  urgency: string | null;
+  topic: string | null;
+  payload: unknown;
+}
+
+const MAX_MESSAGES = 50;
+
+// プロセス内で保持する受信側の鍵と受信履歴（再起動で作り直される）
+let receiver: crypto.ECDH | null = null;
+const authSecret = toBase64Url(crypto.randomBytes(16));
+const messages: MockPushMessage[] = [];
+
+function getReceiver(): crypto.ECDH {
+  if (!receiver) {
+    receiver = crypto.createECDH('prime256v1');
+    receiver.generateKeys();
+  }
+  return receiver;
+}
+
+function mockDisabledResponse() {
+  return NextResponse.json(
+    { error: 'モックプッシュサービスは無効です' },
+    { status: 404 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  if (!PUSH_CONFIG.mockEnabled) return mockDisabledResponse();
+
+  const { origin, pathname } = new URL(request.url);
+
+  return NextResponse.json({
+    success: true,
+    subscription: {
+      endpoint: `${origin}${pathname}`,
+      keys: {
+        p256dh: toBase64Url(getReceiver().getPublicKey()),
+        auth: authSecret,
+      },
+    },
+    messages,
+    count: messages.length,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  if (!PUSH_CONFIG.mockEnabled) return mockDisabledResponse();
+
+  try {
+    const authorization = request.headers.get('authorization') || '';
+    if (!verifyVapidAuthorization(authorization, new URL(request.url).origin)) {
+      return NextResponse.json(
+        { error: 'VAPIDの署名が正しくありません' },
+        { status: 401 }
+      );
+    }
+
+    if (request.headers.get('content-encoding') !== 'aes128gcm') {
+      return NextResponse.json(
+        { error: 'Content-Encoding は aes128gcm である必要があります' },
+        { status: 415 }
+      );
+    }
+
+    const body = Buffer.from(await request.arrayBuffer());
+    const plaintext = decryptPushPayload(body, getReceiver(), authSecret);
+
+    let payload: unknown = plaintext;
+    try {
+      payload = JSON.parse(plaintext);
+    } catch {
+      // JSONでないペイロードは文字列のまま保持
+    }
+
+    messages.unshift({
+      receivedAt: new Date().toISOString(),
+      ttl: request.headers.get('ttl'),
+      urgency: request.headers.get('urgency'),
+      topic: request.headers.get('topic'),
+      payload,
+    });
+    messages.splice(MAX_MESSAGES);
+
+    return new NextResponse(null, { status: 201 });
+
+  } catch (error) {
+    console.error('Mock push service error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'プッシュメッセージを復号できませんでした',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE() {
+  if (!PUSH_CONFIG.mockEnabled) return mockDisabledResponse();
+
+  messages.splice(0);
+
+  return NextResponse.json({
+    success: true,
+    message: '受信したメッセージを消去しました',
+  });
+}
@@ -0,0 +1,230 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { PUSH_CONFIG } from '@/lib/config/environment';
+import { getDevice } from '@/lib/notifications/devices';
+import { fromBase64Url, isWebPushConfigured } from '@/lib/notifications/webpush';
+
+/**
+ * Web Push購読管理API
+ * GET/POST/DELETE /api/notifications/push - VAPID公開鍵の取得・デバイスの購読登録・解除
+ *
+ * 購読はブラウザ（デバイス）ごとに1件。同じエンドポイントの再登録は上書きする
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const { count, error } = await supabase
+      .from('push_subscriptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+
+    return NextResponse.json({
+      success: true,
+      configured: isWebPushConfigured(),
+      publicKey: PUSH_CONFIG.vapidPublicKey || null,
+      subscriptions: count || 0,
+    });
+
+  } catch (error) {
+    console.error('Get push subscriptions error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'プッシュ通知の購読情報の取得に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 購読登録API
+ * POST /api/notifications/push - PushSubscription.toJSON() の内容を登録
+ * oldEndpoint を指定すると古い購読を置き換える（pushsubscriptionchange 用）
+ * deviceId を指定するとそのデバイスの受信設定に従って配信する
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json();
+    const { subscription, oldEndpoint, deviceId } = body;
+    const endpoint = subscription?.endpoint;
+    const p256dh = subscription?.keys?.p256dh;
+    const auth = subscription?.keys?.auth;
+
+    if (typeof endpoint !== 'string' || typeof p256dh !== 'string' || typeof auth !== 'string') {
+      return NextResponse.json(
+        { error: 'subscription.endpoint と subscription.keys（p256dh, auth）が必要です' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidEndpoint(endpoint)) {
+      return NextResponse.json(
+        { error: '購読のエンドポイントはHTTPSのURLである必要があります' },
+        { status: 400 }
+      );
+    }
+
+    // P-256の公開鍵（非圧縮 65バイト）と認証シークレット（16バイト）
+    if (fromBase64Url(p256dh).length !== 65 || fromBase64Url(auth).length !== 16) {
+      return NextResponse.json(
+        { error: '購読の鍵の形式が正しくありません' },
+        { status: 400 }
+      );
+    }
+
+    const device = typeof deviceId === 'string' ? await getDevice(supabase, user.id, deviceId) : null;
+    if (deviceId !== undefined && deviceId !== null && !device) {
+      return NextResponse.json(
+        { error: 'デバイスが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    if (typeof oldEndpoint === 'string' && oldEndpoint !== endpoint) {
+      await supabase
+        .from('push_subscriptions')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('endpoint', oldEndpoint);
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('push_subscriptions')
+      .upsert({
+        user_id: user.id,
+        device_id: device?.id ?? null,
+        endpoint,
+        p256dh,
+        auth,
+        user_agent: request.headers.get('user-agent')?.substring(0, 500) || null,
+        failure_count: 0,
+        updated_at: now,
+      }, { onConflict: 'endpoint' })
+      .select('id, endpoint, created_at')
+      .single();
+
+    if (error) throw error;
+
+    await supabase
+      .from('analytics_logs')
+      .insert({
+        user_id: user.id,
+        event_type: 'push_subscription_registered',
+        event_data: {
+          subscription_id: data.id,
+          push_service: new URL(endpoint).host,
+          replaced: typeof oldEndpoint === 'string',
+          registered_at: now,
+        },
+      });
+
+    return NextResponse.json({
+      success: true,
+      subscription: data,
+      message: 'プッシュ通知を登録しました',
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Register push subscription error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'プッシュ通知の登録に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 購読解除API
+ * DELETE /api/notifications/push - 指定したエンドポイントの購読を削除
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json();
+    const { endpoint } = body;
+
+    if (typeof endpoint !== 'string') {
+      return NextResponse.json(
+        { error: 'endpointが必要です' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('endpoint', endpoint)
+      .select('id');
+
+    if (error) throw error;
+
+    if (!data || data.length === 0) {
+      return NextResponse.json(
+        { error: '購読が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'プッシュ通知を解除しました',
+    });
+
+  } catch (error) {
+    console.error('Delete push subscription error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'プッシュ通知の解除に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * プッシュサービスのエンドポイントとして受け付けるURL（開発用モックのみHTTPを許可）
+ */
+function isValidEndpoint(endpoint: string): boolean {
+  try {
+    const url = new URL(endpoint);
+    if (url.protocol === 'https:') return true;
+    return PUSH_CONFIG.mockEnabled && url.protocol === 'http:' && url.pathname === '/api/notifications/push/mock';
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { NotificationQueueManager } from '@/lib/notifications/queue';
+import { NotificationTokenPurpose, verifyNotificationToken } from '@/lib/notifications/signing';
+
+/**
+ * 通知の対応済み記録API（Service Workerから呼び出し用）
+ * POST /api/notifications/resolve - 通知がクリック・消去されたことを記録
+ *
+ * 最初に対応されたデバイス以外に表示中の通知とDiscordのメッセージを取り消し、
+ * まだ送っていないチャンネル（再試行待ちなど）は送らない。
+ * 認可は /api/notifications/ack と同様に通知と一緒に渡した署名付きトークン（resolveToken）で行う
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const body = await request.json();
+    const { notificationId, token, action, deviceId } = body;
+
+    if (typeof notificationId !== 'string' || typeof token !== 'string') {
+      return NextResponse.json(
+        { error: 'notificationIdとtokenが必要です' },
+        { status: 400 }
+      );
+    }
+
+    if (action !== 'click' && action !== 'dismiss') {
+      return NextResponse.json(
+        { error: 'actionはclickまたはdismissで指定してください' },
+        { status: 400 }
+      );
+    }
+
+    if (!verifyNotificationToken(notificationId, NotificationTokenPurpose.RESOLVE, token)) {
+      return NextResponse.json(
+        { error: 'トークンが正しくありません' },
+        { status: 403 }
+      );
+    }
+
+    const queue = new NotificationQueueManager(supabase);
+    const found = await queue.resolve(notificationId, action, typeof deviceId === 'string' ? deviceId : null);
+
+    if (!found) {
+      return NextResponse.json(
+        { error: '通知が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      resolvedAt: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Notification resolve error:', error);
+
+    return NextResponse.json(
+      {
+        error: '通知の対応済み記録に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { NotificationChannel, NotificationQueueManager } from '@/lib/notifications/queue';
+import { getNotificationSettings, resolveNotificationChannels } from '@/lib/notifications/settings';
 
 interface ScheduleNotificationRequest {
   type: 'task_reminder' | 'event_reminder' | 'urgent_task';
@@ -7,9 +10,13 @@ interface ScheduleNotificationRequest {
   notifyAt: string; // ISO timestamp
   title: string;
   body: string;
-  priority: 'high' | 'medium' | 'low';
+  priority: 'urgent' | 'high' | 'medium' | 'low';
+  channels?: NotificationChannel[]; // 省略時は通知設定から決定
+  data?: Record<string, unknown>;
 }
 
+const VALID_CHANNELS: NotificationChannel[] = ['browser', 'discord', 'email'];
+
 interface ScheduledNotification {
   id: string;
   userId: string;
@@ -19,7 +26,7 @@ interface ScheduledNotification {
   body: string;
   notifyAt: string;
   priority: string;
-  status: 'scheduled' | 'sent' | 'failed' | 'cancelled';
+  status: 'scheduled' | 'processing' | 'sent' | 'failed' | 'cancelled' | 'dead_letter';
   createdAt: string;
   sentAt?: string;
 }
@@ -36,10 +43,10 @@ export async function POST(request: NextRequest) {
     );
 
     const body = await request.json() as ScheduleNotificationRequest;
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
     
-    const { type, targetId, notifyAt, title, body: notificationBody, priority } = body;
+    const { type, targetId, notifyAt, title, body: notificationBody, priority = 'medium', data } = body;
 
     // 入力検証
     if (!type || !targetId || !notifyAt || !title || !notificationBody) {
@@ -64,6 +71,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (body.channels && body.channels.some(channel => !VALID_CHANNELS.includes(channel))) {
+      return NextResponse.json(
+        { error: '無効な通知チャンネルです' },
+        { status: 400 }
+      );
+    }
+
+    const channels = body.channels?.length
+      ? body.channels
+      : resolveNotificationChannels(await getNotificationSettings(supabase, user.id));
+
+    if (channels.length === 0) {
+      return NextResponse.json(
+        { error: '有効な通知チャンネルがありません' },
+        { status: 400 }
+      );
+    }
+
     // 既存の同じ通知をチェック（重複防止）
     const { data: existingNotification } = await supabase
       .from('scheduled_notifications')
@@ -81,28 +106,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 通知をデータベースに保存
-    const notificationData = {
-      user_id: user.id,
+    // 通知キューに追加
+    const queue = new NotificationQueueManager(supabase);
+    const scheduledNotification = await queue.enqueue({
+      userId: user.id,
       type,
-      target_id: targetId,
-      title: title.substring(0, 200),
-      body: notificationBody.substring(0, 500),
-      notify_at: notifyTime.toISOString(),
+      targetId,
+      title,
+      body: notificationBody,
       priority,
-      status: 'scheduled',
-      created_at: new Date().toISOString(),
-    };
-
-    const { data: scheduledNotification, error } = await supabase
-      .from('scheduled_notifications')
-      .insert(notificationData)
-      .select()
-      .single();
-
-    if (error) {
-      throw error;
-    }
+      data,
+      channels,
+      scheduledTime: notifyTime,
+    });
 
     // 通知スケジューリングのログ
     await supabase
@@ -116,6 +132,7 @@ export async function POST(request: NextRequest) {
           target_id: targetId,
           notify_at: notifyTime.toISOString(),
           priority,
+          channels,
           schedule_delay_minutes: Math.round((notifyTime.getTime() - Date.now()) / (1000 * 60)),
         },
       });
@@ -153,8 +170,8 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status') || 'scheduled';
     const limit = parseInt(searchParams.get('limit') || '50');
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
     
     let query = supabase
       .from('scheduled_notifications')
@@ -207,8 +224,8 @@ export async function DELETE(request: NextRequest) {
     const notificationId = searchParams.get('id');
     const targetId = searchParams.get('targetId');
     const type = searchParams.get('type');
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     if (!notificationId && !targetId) {
       return NextResponse.json(
@@ -1,59 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { DiscordWebhookClient } from '@/lib/notifications/discord';
-
-interface NotificationSettings {
-  // Discord設定
-  discordEnabled: boolean;
-  discordWebhookUrl?: string;
-  discordUsername?: string;
-  
-  // ブラウザ通知設定
-  browserEnabled: boolean;
-  browserPermissionGranted: boolean;
-  
-  // 通知タイプ別設定
-  taskReminders: boolean;
-  eventReminders: boolean;
-  urgentTaskAlerts: boolean;
-  dailySummary: boolean;
-  
-  // タイミング設定
-  taskReminderMinutes: number; // デフォルト15分前
-  eventReminderMinutes: number; // デフォルト15分前
-  urgentTaskHours: number; // デフォルト2時間前
-  dailySummaryTime: string; // デフォルト"18:00"
-  
-  // 集中モード
-  focusModeEnabled: boolean;
-  focusModeStart?: string; // HH:MM format
-  focusModeEnd?: string; // HH:MM format
-  focusModeAllowUrgent: boolean;
-  
-  // 通知頻度制限
-  maxNotificationsPerHour: number; // デフォルト10
-  quietHoursEnabled: boolean;
-  quietHoursStart?: string; // HH:MM format
-  quietHoursEnd?: string; // HH:MM format
-}
-
-const defaultSettings: NotificationSettings = {
-  discordEnabled: false,
-  browserEnabled: true,
-  browserPermissionGranted: false,
-  taskReminders: true,
-  eventReminders: true,
-  urgentTaskAlerts: true,
-  dailySummary: true,
-  taskReminderMinutes: 15,
-  eventReminderMinutes: 15,
-  urgentTaskHours: 2,
-  dailySummaryTime: "18:00",
-  focusModeEnabled: false,
-  focusModeAllowUrgent: true,
-  maxNotificationsPerHour: 10,
-  quietHoursEnabled: false
-};
+import { requireUser } from '@/lib/auth/server';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  MAX_REMINDER_OFFSET_MINUTES,
+  MAX_REMINDERS_PER_ITEM,
+  NotificationSettings,
+} from '@/lib/notifications/settings';
+import { refreshUserReminders } from '@/lib/notifications/reminders';
+import { refreshUserJobSchedules } from '@/lib/jobs/definitions';
 
 /**
  * 通知設定管理API
@@ -66,12 +22,11 @@ export async function GET(request: NextRequest) {
       process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
     );
     
-    // 開発環境では認証スキップ
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     // 設定が存在しない場合はデフォルト設定を返す
-    let settings = defaultSettings;
+    let settings: NotificationSettings = { ...DEFAULT_NOTIFICATION_SETTINGS };
     
     try {
       // ユーザーの通知設定を取得（テーブルが存在しない場合はスキップ）
@@ -130,8 +85,8 @@ export async function POST(request: NextRequest) {
       process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
     );
     
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     const newSettings = await request.json() as Partial<NotificationSettings>;
 
@@ -193,7 +148,7 @@ export async function POST(request: NextRequest) {
 
     // 設定をマージ
     const mergedSettings = {
-      ...defaultSettings,
+      ...DEFAULT_NOTIFICATION_SETTINGS,
       ...(currentSettings?.settings || {}),
       ...newSettings
     };
@@ -219,6 +174,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 日次サマリーの時刻などの変更をジョブのスケジュールに、リマインダー時間などの変更を予約済みのリマインダーに反映
+    await refreshSchedulesAndReminders(user.id);
+
     // 変更ログ
     await supabase
       .from('analytics_logs')
@@ -229,6 +187,7 @@ export async function POST(request: NextRequest) {
           updated_fields: Object.keys(newSettings),
           discord_enabled: mergedSettings.discordEnabled,
           browser_enabled: mergedSettings.browserEnabled,
+          email_enabled: mergedSettings.emailEnabled,
           focus_mode: mergedSettings.focusModeEnabled,
           updated_at: new Date().toISOString()
         }
@@ -263,8 +222,8 @@ export async function PUT(request: NextRequest) {
       process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
     );
     
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     const { action } = await request.json();
 
@@ -274,7 +233,7 @@ export async function PUT(request: NextRequest) {
         .from('notification_settings')
         .upsert({
           user_id: user.id,
-          settings: defaultSettings,
+          settings: DEFAULT_NOTIFICATION_SETTINGS,
           updated_at: new Date().toISOString()
         }, {
           onConflict: 'user_id'
@@ -288,6 +247,8 @@ export async function PUT(request: NextRequest) {
         );
       }
 
+      await refreshSchedulesAndReminders(user.id);
+
       // リセットログ
       await supabase
         .from('analytics_logs')
@@ -302,7 +263,7 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({
         success: true,
         message: '通知設定をデフォルトにリセットしました',
-        settings: defaultSettings
+        settings: DEFAULT_NOTIFICATION_SETTINGS
       });
     }
 
@@ -324,6 +285,24 @@ export async function PUT(request: NextRequest) {
   }
 }
 
+/**
+ * ユーザーのジョブのスケジュールと予約済みのリマインダーを同期
+ * （失敗しても次回の定期同期で反映されるため設定の保存は成功扱い）
+ */
+async function refreshSchedulesAndReminders(userId: string): Promise<void> {
+  const serviceClient = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  try {
+    await refreshUserJobSchedules(serviceClient, userId);
+  } catch (error) {
+    console.error('ジョブスケジュール同期エラー:', error);
+  }
+  await refreshUserReminders(serviceClient, userId);
+}
+
 /**
  * 設定の検証
  */
@@ -332,15 +311,11 @@ function validateSettings(settings: Partial<NotificationSettings>): string[] {
 
   // 数値の範囲チェック
   if (settings.taskReminderMinutes !== undefined) {
-    if (settings.taskReminderMinutes < 1 || settings.taskReminderMinutes > 1440) {
-      errors.push('タスクリマインダー時間は1分～1440分の範囲で設定してください');
-    }
+    errors.push(...validateReminderMinutes(settings.taskReminderMinutes, 'タスクリマインダー時間'));
   }
 
   if (settings.eventReminderMinutes !== undefined) {
-    if (settings.eventReminderMinutes < 1 || settings.eventReminderMinutes > 1440) {
-      errors.push('イベントリマインダー時間は1分～1440分の範囲で設定してください');
-    }
+    errors.push(...validateReminderMinutes(settings.eventReminderMinutes, 'イベントリマインダー時間'));
   }
 
   if (settings.urgentTaskHours !== undefined) {
@@ -355,6 +330,11 @@ function validateSettings(settings: Partial<NotificationSettings>): string[] {
     }
   }
 
+  // メールアドレスの形式チェック
+  if (settings.emailAddress && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(settings.emailAddress)) {
+    errors.push('メールアドレスの形式が正しくありません');
+  }
+
   // 時間形式のチェック
   const timeFields = ['dailySummaryTime', 'focusModeStart', 'focusModeEnd', 'quietHoursStart', 'quietHoursEnd'];
   timeFields.forEach(field => {
@@ -385,6 +365,21 @@ function validateSettings(settings: Partial<NotificationSettings>): string[] {
   return errors;
 }
 
+/**
+ * リマインダー時間（何分前、配列で複数指定可）の検証
+ */
+function validateReminderMinutes(value: number | number[], label: string): string[] {
+  const values = Array.isArray(value) ? value : [value];
+
+  if (values.length === 0 || values.length > MAX_REMINDERS_PER_ITEM) {
+    return [`${label}は1～${MAX_REMINDERS_PER_ITEM}件で設定してください`];
+  }
+  if (values.some(minutes => !Number.isInteger(minutes) || minutes < 1 || minutes > MAX_REMINDER_OFFSET_MINUTES)) {
+    return [`${label}は1分～${MAX_REMINDER_OFFSET_MINUTES}分（7日）の範囲の整数で設定してください`];
+  }
+  return [];
+}
+
 /**
  * HH:MM形式を分に変換
  */
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireCronSecret } from '@/lib/auth/server';
+import { NotificationQueueManager } from '@/lib/notifications/queue';
+
+/**
+ * 通知キューワーカーAPI（cronから呼び出し用）
+ * GET/POST /api/notifications/worker - 配信時刻を過ぎた通知を1バッチ処理
+ *
+ * Authorization: Bearer <CRON_SECRET> が必要。複数のインスタンスから同時に呼ばれても
+ * 行単位で確保するため同じ通知が二重に送られることはない
+ */
+export async function GET(request: NextRequest) {
+  return runWorker(request);
+}
+
+export async function POST(request: NextRequest) {
+  return runWorker(request);
+}
+
+async function runWorker(request: NextRequest) {
+  try {
+    const errorResponse = requireCronSecret(request);
+    if (errorResponse) return errorResponse;
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { searchParams } = new URL(request.url);
+    const batchSize = parseInt(searchParams.get('batchSize') || '50') || 50;
+
+    const queue = new NotificationQueueManager(supabase, {
+      batchSize: Math.min(Math.max(batchSize, 1), 200),
+    });
+    const result = await queue.processDue();
+
+    return NextResponse.json({
+      success: true,
+      result,
+      processedAt: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('通知キュー処理エラー:', error);
+    return NextResponse.json(
+      {
+        error: '通知キューの処理に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,385 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { SchedulePreferences } from '@/types/shared';
+import { requireUser } from '@/lib/auth/server';
+import {
+  BusyEvent,
+  MAX_PLAN_DAYS,
+  SchedulableTask,
+  findConflictingBlocks,
+  planSchedule,
+  resolveSchedulePreferences,
+  validateSchedulePreferences,
+} from '@/lib/schedule/planner';
+import { syncTimeBlocksForTasks } from '@/lib/schedule/timeBlocks';
+import { refreshTaskReminders } from '@/lib/notifications/reminders';
+import { addDaysIn, resolveUserLocale, startOfDayIn } from '@/lib/schedule/timezone';
+import { countsAsBusy, getNonBusyGoogleCalendarIds } from '@/lib/google/calendarList';
+import { getParentTaskIds, getSchedulingConstraints } from '@/lib/tasks/dependencies';
+import { correctedEstimate, loadEstimationModel } from '@/lib/tasks/estimation';
+import { EVENT_TRAVEL_COLUMNS, TravelEvent, updateTravelEstimates } from '@/lib/travel/estimates';
+import { getTravelPreferences } from '@/lib/travel/preferences';
+
+interface PlanPreviewRequest {
+  from?: string;        // 計画開始日時（デフォルト: 現在）
+  days?: number;        // 計画する日数（デフォルト: 3）
+  taskIds?: string[];   // 対象タスクを限定する場合
+  replan?: boolean;     // 期間内に配置済みのタスクも配置し直す
+  preferences?: Partial<SchedulePreferences>;
+}
+
+interface PlanApplyRequest {
+  blocks: { taskId: string; start: string; end: string }[];
+  timeBlocks?: boolean; // Google Calendarに時間ブロックを作成（省略時は設定の time_blocking）
+}
+
+const TASK_COLUMNS = 'id, title, category, priority, estimated_minutes, due_date, scheduled_date, postpone_count, created_at';
+
+const DEFAULT_PLAN_DAYS = 3;
+
+/**
+ * 自動スケジューリングAPI
+ * POST /api/schedule/plan - 未配置タスクの配置案をプレビュー（保存しない）
+ * PUT /api/schedule/plan - プレビューした配置を適用（scheduled_date を更新）
+ *
+ * 空き時間は events と users.settings.schedule_preferences（稼働時間・休憩・バッファ）から計算する。
+ * 場所のある予定は users.settings.travel_preferences の出発地からの移動時間も前後に確保する。
+ * 期間内に既に配置済みのタスクは replan を指定しない限り予定として扱う。
+ * サブタスクを持つ親タスクは配置せず、前提タスクが未完了のタスクは前提の終了後にのみ配置する。
+ * 見積時間は過去の実績から学習した補正（信頼度が十分な場合のみ）を反映して配置する
+ */
+
+/**
+ * 期間内の予定を取得（削除待ちのイベントと、予定あり扱いにしないカレンダーの予定は除く）
+ */
+async function fetchBusyEvents(
+  supabase: SupabaseClient,
+  userId: string,
+  from: Date,
+  to: Date
+): Promise<BusyEvent[]> {
+  const [{ data, error }, nonBusyCalendarIds, travelPreferences] = await Promise.all([
+    supabase
+      .from('events')
+      .select(`id, start_time, end_time, event_source, google_calendar_id, ${EVENT_TRAVEL_COLUMNS}`)
+      .eq('user_id', userId)
+      .neq('sync_status', 'pending_delete')
+      .lt('start_time', to.toISOString())
+      .gt('end_time', from.toISOString()),
+    getNonBusyGoogleCalendarIds(supabase, userId),
+    getTravelPreferences(supabase, userId),
+  ]);
+
+  if (error) {
+    throw error;
+  }
+
+  // 場所・移動手段が変わった予定の移動時間を見積もり直し、予定の前後を移動時間として埋める
+  const busyEvents = (data || []).filter(event => countsAsBusy(event, nonBusyCalendarIds)) as (TravelEvent & BusyEvent)[];
+  await updateTravelEstimates(supabase, busyEvents, travelPreferences);
+
+  return busyEvents.map(({ start_time, end_time, travel_minutes }) => ({ start_time, end_time, travel_minutes }));
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json().catch(() => ({})) as PlanPreviewRequest;
+    const days = body.days ?? DEFAULT_PLAN_DAYS;
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_PLAN_DAYS) {
+      return NextResponse.json(
+        { error: `日数は1〜${MAX_PLAN_DAYS}日で指定してください` },
+        { status: 400 }
+      );
+    }
+
+    const from = body.from ? new Date(body.from) : new Date();
+    if (isNaN(from.getTime())) {
+      return NextResponse.json(
+        { error: '開始日時の形式が不正です' },
+        { status: 400 }
+      );
+    }
+
+    const validationErrors = validateSchedulePreferences(body.preferences);
+    if (validationErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'スケジューリング設定が不正です', validationErrors },
+        { status: 400 }
+      );
+    }
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('settings, time_zone, locale')
+      .eq('id', user.id)
+      .single();
+
+    // 期間の終わりはユーザーのタイムゾーンで days 日後の0時
+    const { timeZone } = resolveUserLocale(userData);
+    const to = startOfDayIn(addDaysIn(from, days, timeZone), timeZone);
+
+    const preferences = resolveSchedulePreferences(
+      userData?.settings?.schedule_preferences,
+      body.preferences
+    );
+
+    // 繰り返しテンプレートは実行対象ではないため除外
+    let tasksQuery = supabase
+      .from('tasks')
+      .select(TASK_COLUMNS)
+      .eq('user_id', user.id)
+      .in('status', ['pending', 'in_progress'])
+      .is('recurrence_rule', null);
+
+    if (body.taskIds && body.taskIds.length > 0) {
+      tasksQuery = tasksQuery.in('id', body.taskIds);
+    }
+
+    const { data: tasks, error: tasksError } = await tasksQuery;
+
+    if (tasksError) {
+      throw tasksError;
+    }
+
+    const events = await fetchBusyEvents(supabase, user.id, from, to);
+
+    // サブタスクを持つ親タスクは入れ物なので配置しない
+    const parentTaskIds = await getParentTaskIds(supabase, user.id);
+    const { blockedBy, prerequisiteEnds } = await getSchedulingConstraints(
+      supabase,
+      user.id,
+      (tasks || []).map(task => task.id),
+      preferences.default_task_minutes
+    );
+
+    const estimationModel = await loadEstimationModel(supabase, user.id);
+
+    // 期間内に配置済みのタスクはそのまま残し、予定として空き時間から除く
+    const candidates: SchedulableTask[] = [];
+    const busy: BusyEvent[] = [...events];
+    for (const task of tasks || []) {
+      if (parentTaskIds.has(task.id)) continue;
+
+      const scheduled = task.scheduled_date ? new Date(task.scheduled_date) : null;
+      const isPlaced = scheduled && scheduled >= from && scheduled < to;
+      const estimatedMinutes = task.estimated_minutes ? correctedEstimate(estimationModel, task) : null;
+
+      if (isPlaced && !body.replan) {
+        const minutes = estimatedMinutes || preferences.default_task_minutes;
+        busy.push({
+          start_time: scheduled.toISOString(),
+          end_time: new Date(scheduled.getTime() + minutes * 60 * 1000).toISOString(),
+        });
+      } else if (!scheduled || scheduled < to) {
+        candidates.push({
+          ...(task as SchedulableTask),
+          estimated_minutes: estimatedMinutes,
+          original_estimated_minutes: task.estimated_minutes,
+          blocked_by: blockedBy[task.id],
+        });
+      }
+    }
+
+    const plan = planSchedule(candidates, busy, preferences, { from, to, prerequisiteEnds, timeZone });
+
+    return NextResponse.json({
+      success: true,
+      plan,
+      preferences,
+      timeZone,
+      message: plan.unscheduled.length > 0
+        ? `${plan.blocks.length}件のタスクを配置しました（${plan.unscheduled.length}件は空き時間が足りません）`
+        : `${plan.blocks.length}件のタスクを配置しました`,
+    });
+
+  } catch (error) {
+    console.error('スケジュール計画エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'スケジュールの計画に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json() as PlanApplyRequest;
+    const blocks = body.blocks;
+
+    if (!Array.isArray(blocks) || blocks.length === 0) {
+      return NextResponse.json(
+        { error: '適用する配置が指定されていません' },
+        { status: 400 }
+      );
+    }
+
+    if (blocks.length > 100) {
+      return NextResponse.json(
+        { error: '一度に適用できる配置は100件までです' },
+        { status: 400 }
+      );
+    }
+
+    const invalidBlock = blocks.find(block => {
+      const start = new Date(block.start);
+      const end = new Date(block.end);
+      return !block.taskId || isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end;
+    });
+    if (invalidBlock) {
+      return NextResponse.json(
+        { error: '配置の形式が不正です', block: invalidBlock },
+        { status: 400 }
+      );
+    }
+
+    const taskIds = blocks.map(block => block.taskId);
+    const { data: userTasks, error: fetchError } = await supabase
+      .from('tasks')
+      .select('id, status')
+      .eq('user_id', user.id)
+      .in('id', taskIds)
+      .in('status', ['pending', 'in_progress']);
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    const validIds = new Set((userTasks || []).map(task => task.id as string));
+    const missing = taskIds.filter(id => !validIds.has(id));
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: '配置できないタスクが含まれています', taskIds: missing },
+        { status: 404 }
+      );
+    }
+
+    // プレビュー後に追加された予定と重なっていないかを再確認
+    const from = new Date(Math.min(...blocks.map(block => new Date(block.start).getTime())));
+    const to = new Date(Math.max(...blocks.map(block => new Date(block.end).getTime())));
+    const events = await fetchBusyEvents(supabase, user.id, from, to);
+    const conflicts = findConflictingBlocks(blocks, events);
+
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        {
+          error: '予定と重なる配置があります。もう一度プレビューしてください',
+          code: 'CONFLICT',
+          taskIds: conflicts,
+        },
+        { status: 409 }
+      );
+    }
+
+    // 前提タスクより前に配置されていないかを確認
+    const { data: userData } = await supabase
+      .from('users')
+      .select('settings')
+      .eq('id', user.id)
+      .single();
+
+    const { blockedBy, prerequisiteEnds } = await getSchedulingConstraints(
+      supabase,
+      user.id,
+      taskIds,
+      resolveSchedulePreferences(userData?.settings?.schedule_preferences).default_task_minutes
+    );
+    const blockEnds = new Map(blocks.map(block => [block.taskId, new Date(block.end)]));
+    const dependencyViolations = blocks
+      .filter(block => (blockedBy[block.taskId] || []).some(prerequisiteId => {
+        const end = blockEnds.get(prerequisiteId)
+          ?? (prerequisiteEnds[prerequisiteId] ? new Date(prerequisiteEnds[prerequisiteId]) : null);
+        return !end || end > new Date(block.start);
+      }))
+      .map(block => block.taskId);
+
+    if (dependencyViolations.length > 0) {
+      return NextResponse.json(
+        {
+          error: '前提タスクより前に配置されているタスクがあります。もう一度プレビューしてください',
+          code: 'DEPENDENCY_CONFLICT',
+          taskIds: dependencyViolations,
+        },
+        { status: 409 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const results = await Promise.all(
+      blocks.map(block =>
+        supabase
+          .from('tasks')
+          .update({ scheduled_date: new Date(block.start).toISOString(), updated_at: now })
+          .eq('id', block.taskId)
+          .eq('user_id', user.id)
+          .select('id, title, scheduled_date, estimated_minutes')
+          .single()
+      )
+    );
+
+    const failed = results.find(result => result.error);
+    if (failed?.error) {
+      throw failed.error;
+    }
+
+    const updatedTasks = results.map(result => result.data);
+
+    const timeBlocks = body.timeBlocks === false
+      ? null
+      : await syncTimeBlocksForTasks(supabase, user.id, taskIds, { force: body.timeBlocks === true });
+    await refreshTaskReminders(supabase, user.id, taskIds);
+
+    await supabase
+      .from('analytics_logs')
+      .insert({
+        user_id: user.id,
+        event_type: 'schedule_plan_applied',
+        event_data: {
+          task_count: blocks.length,
+          range_start: from.toISOString(),
+          range_end: to.toISOString(),
+          scheduled_minutes: blocks.reduce(
+            (sum, block) => sum + (new Date(block.end).getTime() - new Date(block.start).getTime()) / 60000,
+            0
+          ),
+          time_blocks: timeBlocks,
+        },
+      });
+
+    return NextResponse.json({
+      success: true,
+      tasks: updatedTasks,
+      timeBlocks,
+      message: `${updatedTasks.length}件のタスクをスケジュールしました`,
+    });
+
+  } catch (error) {
+    console.error('スケジュール適用エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'スケジュールの適用に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { MAX_PLAN_DAYS } from '@/lib/schedule/planner';
+import { addDaysIn, startOfDayIn } from '@/lib/schedule/timezone';
+import {
+  TIME_BLOCK_TASK_COLUMNS,
+  TimeBlockSyncSummary,
+  TimeBlockTask,
+  cleanupOrphanedTimeBlocks,
+  getTimeBlockContext,
+  syncTaskTimeBlock,
+} from '@/lib/schedule/timeBlocks';
+
+interface TimeBlocksRequest {
+  days?: number; // 対象期間（デフォルト: 7日）
+}
+
+const DEFAULT_TIME_BLOCK_DAYS = 7;
+
+/**
+ * 時間ブロック一括同期API
+ * POST /api/schedule/time-blocks - 期間内の配置済みタスクをGoogle Calendarに時間ブロックとして反映
+ *
+ * 作成済みのブロックはタスクの状態に合わせて更新・削除し、
+ * 削除済みタスクなどGoogle側に残った不要なブロックも整理する
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json().catch(() => ({})) as TimeBlocksRequest;
+    const days = body.days ?? DEFAULT_TIME_BLOCK_DAYS;
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_PLAN_DAYS) {
+      return NextResponse.json(
+        { error: `日数は1〜${MAX_PLAN_DAYS}日で指定してください` },
+        { status: 400 }
+      );
+    }
+
+    const context = await getTimeBlockContext(supabase, user.id);
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Google Calendar連携が必要です' },
+        { status: 400 }
+      );
+    }
+
+    // ユーザーのタイムゾーンで今日の0時から days 日分
+    const from = startOfDayIn(new Date(), context.client.timeZone);
+    const to = addDaysIn(from, days, context.client.timeZone);
+
+    // 期間内に配置済みのタスクと、既にブロックを持つタスク（キャンセル・日時解除の反映用）
+    const { data: tasks, error: tasksError } = await supabase
+      .from('tasks')
+      .select(TIME_BLOCK_TASK_COLUMNS)
+      .eq('user_id', user.id)
+      .is('recurrence_rule', null)
+      .or(`and(scheduled_date.gte.${from.toISOString()},scheduled_date.lt.${to.toISOString()}),calendar_event_id.not.is.null`);
+
+    if (tasksError) {
+      throw tasksError;
+    }
+
+    const summary: TimeBlockSyncSummary = { created: 0, updated: 0, deleted: 0, failed: 0 };
+    for (const task of (tasks || []) as TimeBlockTask[]) {
+      // 期間外の作成済みブロックは状態が変わっていなければ触らない
+      const scheduled = task.scheduled_date ? new Date(task.scheduled_date) : null;
+      const inRange = !!scheduled && scheduled >= from && scheduled < to;
+      if (!inRange && task.scheduled_date && task.status !== 'cancelled') continue;
+
+      try {
+        const action = await syncTaskTimeBlock(
+          supabase,
+          context.client,
+          task,
+          context.preferences.default_task_minutes
+        );
+        if (action !== 'unchanged') summary[action]++;
+      } catch (error) {
+        console.error('時間ブロック同期エラー:', task.id, error);
+        summary.failed++;
+      }
+    }
+
+    const orphansRemoved = await cleanupOrphanedTimeBlocks(supabase, context.client, user.id, from);
+
+    await supabase
+      .from('analytics_logs')
+      .insert({
+        user_id: user.id,
+        event_type: 'time_blocks_synced',
+        event_data: {
+          days,
+          ...summary,
+          orphans_removed: orphansRemoved,
+        },
+      });
+
+    return NextResponse.json({
+      success: true,
+      statistics: {
+        ...summary,
+        orphans_removed: orphansRemoved,
+      },
+      message: `時間ブロックを同期しました（作成 ${summary.created}件・更新 ${summary.updated}件・削除 ${summary.deleted + orphansRemoved}件）`,
+    });
+
+  } catch (error) {
+    console.error('時間ブロック一括同期エラー:', error);
+    return NextResponse.json(
+      {
+        error: '時間ブロックの同期に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,236 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { isResolvedStatus, validateDependency } from '@/lib/tasks/dependencies';
+
+interface AddDependencyRequest {
+  dependsOnTaskId: string;
+}
+
+/**
+ * タスク依存関係API
+ * GET /api/tasks/[id]/dependencies - 前提タスクと後続タスクを取得
+ * POST /api/tasks/[id]/dependencies - 前提タスクを追加（循環する依存関係は拒否）
+ * DELETE /api/tasks/[id]/dependencies?dependsOnTaskId=xxx - 前提タスクを削除
+ *
+ * 前提タスクが完了（またはキャンセル）するまで、タスクはブロック中として扱われる
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const taskId = params.id;
+
+    const [prerequisitesResult, dependentsResult] = await Promise.all([
+      supabase
+        .from('task_dependencies')
+        .select('id, created_at, task:depends_on_task_id(id, title, status, scheduled_date)')
+        .eq('user_id', user.id)
+        .eq('task_id', taskId),
+      supabase
+        .from('task_dependencies')
+        .select('id, created_at, task:task_id(id, title, status, scheduled_date)')
+        .eq('user_id', user.id)
+        .eq('depends_on_task_id', taskId),
+    ]);
+
+    if (prerequisitesResult.error) {
+      throw prerequisitesResult.error;
+    }
+    if (dependentsResult.error) {
+      throw dependentsResult.error;
+    }
+
+    const prerequisites = (prerequisitesResult.data || []) as unknown as { task: { status: string } | null }[];
+
+    return NextResponse.json({
+      success: true,
+      prerequisites,
+      dependents: dependentsResult.data || [],
+      blocked: prerequisites.some(row => row.task && !isResolvedStatus(row.task.status)),
+    });
+
+  } catch (error) {
+    console.error('依存関係取得エラー:', error);
+    return NextResponse.json(
+      {
+        error: '依存関係の取得に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const taskId = params.id;
+    const body = await request.json() as AddDependencyRequest;
+
+    if (!body.dependsOnTaskId) {
+      return NextResponse.json(
+        { error: '前提タスクが指定されていません' },
+        { status: 400 }
+      );
+    }
+
+    const { data: task, error: fetchError } = await supabase
+      .from('tasks')
+      .select('id')
+      .eq('id', taskId)
+      .eq('user_id', user.id)
+      .is('recurrence_rule', null)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'タスクが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const validationErrors = await validateDependency(supabase, user.id, taskId, body.dependsOnTaskId);
+    if (validationErrors.length > 0) {
+      return NextResponse.json(
+        { error: '依存関係を追加できません', validationErrors },
+        { status: 400 }
+      );
+    }
+
+    const { data: dependency, error } = await supabase
+      .from('task_dependencies')
+      .insert({
+        user_id: user.id,
+        task_id: taskId,
+        depends_on_task_id: body.dependsOnTaskId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    await supabase
+      .from('analytics_logs')
+      .insert({
+        user_id: user.id,
+        event_type: 'task_dependency_added',
+        event_data: {
+          task_id: taskId,
+          depends_on_task_id: body.dependsOnTaskId,
+        },
+      });
+
+    return NextResponse.json({
+      success: true,
+      dependency,
+      message: '前提タスクを追加しました',
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('依存関係追加エラー:', error);
+    return NextResponse.json(
+      {
+        error: '依存関係の追加に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const { searchParams } = new URL(request.url);
+    const dependsOnTaskId = searchParams.get('dependsOnTaskId');
+
+    if (!dependsOnTaskId) {
+      return NextResponse.json(
+        { error: '前提タスクが指定されていません' },
+        { status: 400 }
+      );
+    }
+
+    const { data: deleted, error } = await supabase
+      .from('task_dependencies')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('task_id', params.id)
+      .eq('depends_on_task_id', dependsOnTaskId)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: '依存関係が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    await supabase
+      .from('analytics_logs')
+      .insert({
+        user_id: user.id,
+        event_type: 'task_dependency_removed',
+        event_data: {
+          task_id: params.id,
+          depends_on_task_id: dependsOnTaskId,
+        },
+      });
+
+    return NextResponse.json({
+      success: true,
+      message: '前提タスクを削除しました',
+    });
+
+  } catch (error) {
+    console.error('依存関係削除エラー:', error);
+    return NextResponse.json(
+      {
+        error: '依存関係の削除に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
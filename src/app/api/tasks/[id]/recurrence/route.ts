@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { RecurrenceRule } from '@/types/shared';
+import { requireUser } from '@/lib/auth/server';
+import { describeRecurrence, formatRRule, getOccurrences, validateRecurrenceRule } from '@/lib/tasks/recurrence';
+import { endSeries, getSeriesStart, getTemplate, updateSeriesRule } from '@/lib/tasks/recurringSeries';
+import { refreshUserReminders } from '@/lib/notifications/reminders';
+import { getUserLocale } from '@/lib/schedule/timezone';
+
+/**
+ * 繰り返しシリーズ管理API
+ * GET /api/tasks/[id]/recurrence - シリーズ情報と今後の予定
+ * PUT /api/tasks/[id]/recurrence - ルール変更（未着手の今後のインスタンスを作り直す）
+ * DELETE /api/tasks/[id]/recurrence - シリーズ終了（過去のインスタンスは残す）
+ *
+ * [id] にはテンプレートまたはインスタンスのIDを指定できる
+ */
+
+/**
+ * IDからシリーズのテンプレートIDを解決
+ */
+async function resolveTemplateId(
+  supabase: SupabaseClient,
+  userId: string,
+  taskId: string
+): Promise<string | null> {
+  const { data } = await supabase
+    .from('tasks')
+    .select('id, recurrence_rule, recurrence_parent_id')
+    .eq('id', taskId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!data) return null;
+  if (data.recurrence_rule) return data.id as string;
+  return (data.recurrence_parent_id as string | null) ?? null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const templateId = await resolveTemplateId(supabase, user.id, params.id);
+    const template = templateId ? await getTemplate(supabase, user.id, templateId) : null;
+
+    if (!template) {
+      return NextResponse.json(
+        { error: '繰り返しタスクが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '10', 10) || 10, 100);
+
+    const { data: instances, error: instancesError } = await supabase
+      .from('tasks')
+      .select('id, title, status, scheduled_date, due_date, recurrence_instance_date, completed_at')
+      .eq('recurrence_parent_id', template.id)
+      .order('recurrence_instance_date', { ascending: false })
+      .limit(limit);
+
+    if (instancesError) {
+      throw instancesError;
+    }
+
+    const { timeZone } = await getUserLocale(supabase, user.id);
+    const upcoming = getOccurrences(template.recurrence_rule, getSeriesStart(template), {
+      from: new Date(),
+      limit,
+      timeZone,
+    });
+
+    return NextResponse.json({
+      success: true,
+      series: {
+        ...template,
+        description_text: describeRecurrence(template.recurrence_rule),
+        rrule: formatRRule(template.recurrence_rule),
+      },
+      instances: instances || [],
+      upcoming: upcoming.map(date => date.toISOString()),
+    });
+
+  } catch (error) {
+    console.error('繰り返しシリーズ取得エラー:', error);
+    return NextResponse.json(
+      {
+        error: '繰り返しシリーズの取得に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body: { recurrence?: RecurrenceRule } = await request.json();
+
+    const validationErrors = validateRecurrenceRule(body.recurrence);
+    if (validationErrors.length > 0) {
+      return NextResponse.json(
+        { error: '繰り返しルールが不正です', validationErrors },
+        { status: 400 }
+      );
+    }
+
+    const templateId = await resolveTemplateId(supabase, user.id, params.id);
+    const template = templateId ? await getTemplate(supabase, user.id, templateId) : null;
+
+    if (!template) {
+      return NextResponse.json(
+        { error: '繰り返しタスクが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    // 既存の除外日は引き継ぐ
+    const rule: RecurrenceRule = {
+      ...body.recurrence!,
+      exceptions: body.recurrence!.exceptions ?? template.recurrence_rule.exceptions,
+    };
+
+    const { removed, created } = await updateSeriesRule(supabase, template, rule);
+    await refreshUserReminders(supabase, user.id);
+
+    await supabase
+      .from('analytics_logs')
+      .insert({
+        user_id: user.id,
+        event_type: 'recurring_rule_updated',
+        event_data: {
+          task_id: template.id,
+          previous_rule: formatRRule(template.recurrence_rule),
+          new_rule: formatRRule(rule),
+          removed_instances: removed,
+          created_instances: created.length,
+        },
+      });
+
+    return NextResponse.json({
+      success: true,
+      removed,
+      instances: created,
+      message: `繰り返しルールを更新しました（${describeRecurrence(rule)}）`,
+    });
+
+  } catch (error) {
+    console.error('繰り返しルール更新エラー:', error);
+    return NextResponse.json(
+      {
+        error: '繰り返しルールの更新に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const templateId = await resolveTemplateId(supabase, user.id, params.id);
+    const template = templateId ? await getTemplate(supabase, user.id, templateId) : null;
+
+    if (!template) {
+      return NextResponse.json(
+        { error: '繰り返しタスクが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const { removed } = await endSeries(supabase, template);
+    await refreshUserReminders(supabase, user.id);
+
+    await supabase
+      .from('analytics_logs')
+      .insert({
+        user_id: user.id,
+        event_type: 'recurring_series_ended',
+        event_data: {
+          task_id: template.id,
+          title: template.title,
+          removed_instances: removed,
+        },
+      });
+
+    return NextResponse.json({
+      success: true,
+      removed,
+      message: '繰り返しを終了しました',
+    });
+
+  } catch (error) {
+    console.error('繰り返し終了エラー:', error);
+    return NextResponse.json(
+      {
+        error: '繰り返しの終了に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { TaskPriority, TaskStatus } from '@/types/shared';
-
-/**
- * Helper function to categorize time estimation accuracy
- */
-function getAccuracyCategory(estimated: number, actual: number): string {
-  const ratio = estimated / actual;
-  if (ratio >= 0.9 && ratio <= 1.1) return 'accurate';
-  if (ratio > 1.1) return 'underestimated';
-  if (ratio < 0.9) return 'overestimated';
-  return 'unknown';
-}
+import { requireUser } from '@/lib/auth/server';
+import { deleteFutureInstances, excludeOccurrence, rollSeriesForward } from '@/lib/tasks/recurringSeries';
+import { removeTimeBlocks, syncTimeBlocksForTasks } from '@/lib/schedule/timeBlocks';
+import { refreshTaskReminders, refreshUserReminders } from '@/lib/notifications/reminders';
+import { annotateTaskRelations, completeParentsIfDone, validateParentTask } from '@/lib/tasks/dependencies';
+import { buildCompletionUpdate } from '@/lib/tasks/completion';
+import { closeActiveSession, openSession } from '@/lib/tasks/timeTracking';
+import { getUserLocale } from '@/lib/schedule/timezone';
+import { normalizeTaskTags } from '@/lib/tasks/query';
 
 interface UpdateTaskRequest {
   title?: string;
@@ -21,9 +19,11 @@ interface UpdateTaskRequest {
   priority?: TaskPriority;
   status?: TaskStatus;
   category?: string;
+  tags?: string[] | string;
   dueDate?: string;
   scheduledDate?: string;
   eventId?: string;
+  parentTaskId?: string | null;
   postponeReason?: string;
   forceActualTime?: boolean; // Force set actual time even if auto-calculated
 }
@@ -48,8 +48,8 @@ export async function GET(
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
     const taskId = params.id;
 
     const { data: task, error } = await supabase
@@ -79,9 +79,11 @@ export async function GET(
       throw error;
     }
 
+    const [annotatedTask] = await annotateTaskRelations(supabase, user.id, [task]);
+
     return NextResponse.json({
       success: true,
-      task,
+      task: annotatedTask,
     });
 
   } catch (error) {
@@ -110,8 +112,8 @@ export async function PUT(
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
     const taskId = params.id;
 
     // 既存タスクの確認
@@ -192,51 +194,15 @@ export async function PUT(
       // 開始時の処理
       if (body.status === 'in_progress' && existingTask.status !== 'in_progress') {
         updateData.started_at = new Date().toISOString();
-        // Initialize time tracking data
-        const currentSessions = existingTask.time_tracking_data?.sessions || [];
-        updateData.time_tracking_data = {
-          sessions: [...currentSessions, {
-            started_at: new Date().toISOString(),
-            status: 'active'
-          }]
-        };
+        // Open a new work session (paused/resumed intervals are handled by /api/tasks/[id]/timer)
+        updateData.time_tracking_data = openSession(existingTask);
       }
       
       // 完了時の処理
       if (body.status === 'completed' && existingTask.status !== 'completed') {
-        updateData.completed_at = new Date().toISOString();
-        
-        // Auto-calculate actual time if not manually provided and we have start time
-        if (body.actualMinutes === undefined && !body.forceActualTime && existingTask.started_at) {
-          const startTime = new Date(existingTask.started_at);
-          const completionTime = new Date();
-          const autoCalculatedMinutes = Math.round((completionTime.getTime() - startTime.getTime()) / (1000 * 60));
-          updateData.actual_minutes = autoCalculatedMinutes;
-        }
-        
-        // Store completion metadata for analysis
-        const estimatedMinutes = body.estimatedMinutes ?? existingTask.estimated_minutes;
-        const actualMinutes = body.actualMinutes ?? updateData.actual_minutes;
-        
-        updateData.completion_metadata = {
-          completed_at: new Date().toISOString(),
-          estimated_vs_actual: estimatedMinutes && actualMinutes ? {
-            estimated: estimatedMinutes,
-            actual: actualMinutes,
-            difference_minutes: actualMinutes - estimatedMinutes,
-            efficiency_ratio: Number((estimatedMinutes / actualMinutes).toFixed(2)),
-            accuracy_category: getAccuracyCategory(estimatedMinutes, actualMinutes)
-          } : null,
-          was_postponed: (existingTask.postpone_count || 0) > 0,
-          postpone_count: existingTask.postpone_count || 0,
-          completion_context: {
-            day_of_week: new Date().toLocaleDateString('en-US', { weekday: 'long' }),
-            hour_of_day: new Date().getHours(),
-            was_scheduled: !!existingTask.scheduled_date,
-            was_due: !!existingTask.due_date,
-            overdue: existingTask.due_date ? new Date() > new Date(existingTask.due_date) : false
-          }
-        };
+        // 実績時間の自動計算と分析用の完了メタデータ
+        const { timeZone } = await getUserLocale(supabase, user.id);
+        Object.assign(updateData, buildCompletionUpdate(existingTask, body, new Date(), timeZone));
       }
       
       // 完了から他のステータスに戻す場合
@@ -255,22 +221,7 @@ export async function PUT(
       // Update time tracking for status changes
       if (existingTask.status === 'in_progress' && body.status !== 'in_progress') {
         // Close current session when leaving in_progress status
-        const currentData = existingTask.time_tracking_data || { sessions: [] };
-        const sessions = currentData.sessions || [];
-        const activeSession = sessions.find((s: any) => s.status === 'active');
-        
-        if (activeSession) {
-          activeSession.ended_at = new Date().toISOString();
-          activeSession.status = 'completed';
-          activeSession.duration_minutes = Math.round(
-            (new Date().getTime() - new Date(activeSession.started_at).getTime()) / (1000 * 60)
-          );
-        }
-        
-        updateData.time_tracking_data = {
-          ...currentData,
-          sessions: sessions
-        };
+        updateData.time_tracking_data = closeActiveSession(existingTask);
       }
     }
 
@@ -278,6 +229,17 @@ export async function PUT(
       updateData.category = body.category ? body.category.substring(0, 100) : null;
     }
 
+    if (body.tags !== undefined) {
+      const tags = normalizeTaskTags(body.tags ?? []);
+      if (!tags) {
+        return NextResponse.json(
+          { error: 'タグは空白・カンマを含まない50文字以内の文字列を20個まで指定してください' },
+          { status: 400 }
+        );
+      }
+      updateData.tags = tags;
+    }
+
     if (body.dueDate !== undefined) {
       updateData.due_date = body.dueDate ? new Date(body.dueDate).toISOString() : null;
     }
@@ -289,6 +251,19 @@ export async function PUT(
     if (body.eventId !== undefined) {
       updateData.event_id = body.eventId || null;
     }
+
+    if (body.parentTaskId !== undefined) {
+      if (body.parentTaskId) {
+        const parentErrors = await validateParentTask(supabase, user.id, taskId, body.parentTaskId);
+        if (parentErrors.length > 0) {
+          return NextResponse.json(
+            { error: '親タスクの指定に問題があります', validationErrors: parentErrors },
+            { status: 400 }
+          );
+        }
+      }
+      updateData.parent_task_id = body.parentTaskId || null;
+    }
     
     if (body.postponeReason !== undefined) {
       updateData.postpone_reason = body.postponeReason ? body.postponeReason.substring(0, 500) : null;
@@ -333,6 +308,24 @@ export async function PUT(
       throw error;
     }
 
+    // 繰り返しインスタンスの完了・キャンセル時はシリーズを次回へ進める
+    const closedInstance = !!existingTask.recurrence_parent_id
+      && (body.status === 'completed' || body.status === 'cancelled')
+      && existingTask.status !== body.status;
+    const nextInstance = closedInstance
+      ? await rollSeriesForward(supabase, existingTask)
+      : null;
+
+    // サブタスクがすべて完了したら親タスクも完了にする
+    const completedParentIds = body.status === 'completed' && existingTask.status !== 'completed'
+      ? await completeParentsIfDone(supabase, user.id, updatedTask.parent_task_id)
+      : [];
+
+    // 時間ブロックとリマインダーを予定変更・完了・キャンセルに追従させる
+    const changedTaskIds = [taskId, ...(nextInstance ? [nextInstance.id] : []), ...completedParentIds];
+    const timeBlock = await syncTimeBlocksForTasks(supabase, user.id, changedTaskIds);
+    await refreshTaskReminders(supabase, user.id, changedTaskIds);
+
     // Enhanced analytics logging
     const analyticsData = {
       task_id: taskId,
@@ -351,7 +344,13 @@ export async function PUT(
         was_scheduled: !!existingTask.scheduled_date,
         was_rescheduled: body.scheduledDate !== undefined && existingTask.scheduled_date !== body.scheduledDate,
         postpone_reason_provided: !!body.postponeReason,
-      }
+      },
+      time_block: timeBlock,
+      completed_parent_ids: completedParentIds,
+      recurrence: existingTask.recurrence_parent_id ? {
+        series_id: existingTask.recurrence_parent_id,
+        next_instance_id: nextInstance?.id ?? null,
+      } : null,
     };
 
     await supabase
@@ -365,6 +364,8 @@ export async function PUT(
     return NextResponse.json({
       success: true,
       task: updatedTask,
+      ...(closedInstance && { nextInstance }),
+      ...(completedParentIds.length > 0 && { completedParentIds }),
       message: 'タスクを更新しました',
     });
 
@@ -394,14 +395,14 @@ export async function DELETE(
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
     const taskId = params.id;
 
     // 削除前にタスク情報を取得（ログ用）
     const { data: taskToDelete, error: fetchError } = await supabase
       .from('tasks')
-      .select('title, status, priority, category')
+      .select('user_id, title, status, priority, category, recurrence_rule, recurrence_parent_id, recurrence_instance_date, calendar_event_id')
       .eq('id', taskId)
       .eq('user_id', user.id)
       .single();
@@ -416,6 +417,16 @@ export async function DELETE(
       throw fetchError;
     }
 
+    // 繰り返しインスタンスは発生日を除外日に追加（再生成を防ぐ）
+    if (taskToDelete.recurrence_parent_id) {
+      await excludeOccurrence(supabase, taskToDelete);
+    }
+
+    // 繰り返しシリーズのテンプレートは未着手の今後のインスタンスも削除
+    const removedInstances = taskToDelete.recurrence_rule
+      ? await deleteFutureInstances(supabase, taskId, (await getUserLocale(supabase, user.id)).timeZone)
+      : 0;
+
     // タスクを削除
     const { error } = await supabase
       .from('tasks')
@@ -427,6 +438,15 @@ export async function DELETE(
       throw error;
     }
 
+    await removeTimeBlocks(supabase, user.id, [taskToDelete.calendar_event_id]);
+
+    // シリーズのテンプレートは削除したインスタンスの分もまとめて見直す
+    if (taskToDelete.recurrence_rule) {
+      await refreshUserReminders(supabase, user.id);
+    } else {
+      await refreshTaskReminders(supabase, user.id, [taskId]);
+    }
+
     // 削除ログを記録
     await supabase
       .from('analytics_logs')
@@ -439,6 +459,9 @@ export async function DELETE(
           status: taskToDelete.status,
           priority: taskToDelete.priority,
           category: taskToDelete.category,
+          recurring_series: !!taskToDelete.recurrence_rule,
+          recurring_instance: !!taskToDelete.recurrence_parent_id,
+          removed_instances: removedInstances,
           deleted_at: new Date().toISOString(),
         },
       });
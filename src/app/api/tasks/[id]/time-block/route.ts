@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import {
+  TIME_BLOCK_TASK_COLUMNS,
+  TimeBlockTask,
+  getTimeBlockContext,
+  shouldHaveTimeBlock,
+  syncTaskTimeBlock,
+} from '@/lib/schedule/timeBlocks';
+
+/**
+ * タスクの時間ブロックAPI
+ * POST /api/tasks/[id]/time-block - Google Calendarに時間ブロックを作成（作成済みなら更新）
+ * DELETE /api/tasks/[id]/time-block - 時間ブロックを削除
+ *
+ * 作成後はタスクの予定変更・完了・キャンセル・削除に自動で追従する
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const { data: task, error: fetchError } = await supabase
+      .from('tasks')
+      .select(TIME_BLOCK_TASK_COLUMNS)
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .is('recurrence_rule', null)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'タスクが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    if (!shouldHaveTimeBlock(task as TimeBlockTask)) {
+      return NextResponse.json(
+        { error: '実施予定日時が設定されていないタスク、またはキャンセル済みのタスクです' },
+        { status: 400 }
+      );
+    }
+
+    const context = await getTimeBlockContext(supabase, user.id);
+    if (!context) {
+      return NextResponse.json(
+        { error: 'Google Calendar連携が必要です' },
+        { status: 400 }
+      );
+    }
+
+    const action = await syncTaskTimeBlock(
+      supabase,
+      context.client,
+      task as TimeBlockTask,
+      context.preferences.default_task_minutes
+    );
+
+    await supabase
+      .from('analytics_logs')
+      .insert({
+        user_id: user.id,
+        event_type: 'task_time_block_created',
+        event_data: {
+          task_id: task.id,
+          action,
+        },
+      });
+
+    return NextResponse.json({
+      success: true,
+      action,
+      message: action === 'created'
+        ? 'Google Calendarに時間ブロックを作成しました'
+        : '時間ブロックを更新しました',
+    });
+
+  } catch (error) {
+    console.error('時間ブロック作成エラー:', error);
+    return NextResponse.json(
+      {
+        error: '時間ブロックの作成に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const { data: task, error: fetchError } = await supabase
+      .from('tasks')
+      .select('id, calendar_event_id')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'タスクが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    if (!task.calendar_event_id) {
+      return NextResponse.json({
+        success: true,
+        message: '時間ブロックはありません',
+      });
+    }
+
+    const context = await getTimeBlockContext(supabase, user.id);
+    if (context) {
+      await context.client.deleteEvent(task.calendar_event_id);
+    }
+
+    const { error } = await supabase
+      .from('tasks')
+      .update({ calendar_event_id: null })
+      .eq('id', task.id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: '時間ブロックを削除しました',
+    });
+
+  } catch (error) {
+    console.error('時間ブロック削除エラー:', error);
+    return NextResponse.json(
+      {
+        error: '時間ブロックの削除に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
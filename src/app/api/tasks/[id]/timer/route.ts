@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { ValidationError } from '@/lib/errors';
+import {
+  getTimerStatus,
+  parsePomodoroSettings,
+  pauseTimer,
+  resumeTimer,
+  startTimer,
+  stopTimer,
+} from '@/lib/tasks/timeTracking';
+
+const TIMER_ACTIONS = ['start', 'pause', 'resume', 'stop'] as const;
+type TimerAction = typeof TIMER_ACTIONS[number];
+
+const TIMER_TASK_COLUMNS = 'id, title, status, started_at, actual_minutes, estimated_minutes, time_tracking_data';
+
+/**
+ * タスクの作業時間計測API
+ * GET /api/tasks/[id]/timer - 計測の状態（実行中・一時停止中・休憩中）と作業時間の合計
+ * POST /api/tasks/[id]/timer - 計測の操作（action: start / pause / resume / stop）
+ *
+ * 一時停止から再開までの時間は実績時間に含めない。
+ * start で pomodoro（true または { workMinutes, shortBreakMinutes, longBreakMinutes, longBreakInterval }）を
+ * 指定するとポモドーロモードになり、作業時間を終えてから pause すると休憩に入る
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const { data: task, error } = await supabase
+      .from('tasks')
+      .select(TIMER_TASK_COLUMNS)
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'タスクが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      taskId: task.id,
+      timer: getTimerStatus(task),
+    });
+
+  } catch (error) {
+    console.error('Get task timer error:', error);
+
+    return NextResponse.json(
+      {
+        error: '作業時間の取得に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json();
+    const action = body.action as TimerAction;
+
+    if (!TIMER_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `actionは${TIMER_ACTIONS.join(', ')}のいずれかで指定してください` },
+        { status: 400 }
+      );
+    }
+
+    const { data: task, error: fetchError } = await supabase
+      .from('tasks')
+      .select(TIMER_TASK_COLUMNS)
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    if (!task) {
+      return NextResponse.json(
+        { error: 'タスクが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const now = new Date();
+    let updates: Record<string, unknown>;
+
+    switch (action) {
+      case 'start':
+        updates = startTimer(task, {
+          pomodoro: body.pomodoro ? parsePomodoroSettings(body.pomodoro) : null,
+        }, now);
+        break;
+      case 'pause':
+        updates = pauseTimer(task, now);
+        break;
+      case 'resume':
+        updates = resumeTimer(task, now);
+        break;
+      case 'stop':
+        updates = stopTimer(task, now);
+        break;
+    }
+
+    const { data: updatedTask, error } = await supabase
+      .from('tasks')
+      .update({
+        ...updates,
+        updated_at: now.toISOString(),
+      })
+      .eq('id', task.id)
+      .eq('user_id', user.id)
+      .select(TIMER_TASK_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    const timer = getTimerStatus(updatedTask, now);
+
+    await supabase
+      .from('analytics_logs')
+      .insert({
+        user_id: user.id,
+        event_type: 'task_timer',
+        event_data: {
+          task_id: task.id,
+          action,
+          state: timer.state,
+          tracked_seconds: timer.trackedSeconds,
+          session_count: timer.sessionCount,
+          pomodoro: timer.pomodoro ? {
+            completed: timer.pomodoro.completedPomodoros,
+            on_break: timer.pomodoro.phase === 'break',
+          } : null,
+        },
+      });
+
+    return NextResponse.json({
+      success: true,
+      taskId: task.id,
+      status: updatedTask.status,
+      actualMinutes: updatedTask.actual_minutes,
+      timer,
+    });
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, details: error.fieldErrors },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Task timer error:', error);
+
+    return NextResponse.json(
+      {
+        error: '作業時間の記録に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { syncTimeBlocksForTasks } from '@/lib/schedule/timeBlocks';
+import { refreshTaskReminders } from '@/lib/notifications/reminders';
 
 interface TaskBreakdownRequest {
   originalTaskId: string;
@@ -16,6 +19,8 @@ interface TaskBreakdownRequest {
 /**
  * タスク分割実行API
  * POST /api/tasks/breakdown - 分析結果に基づいてタスクをサブタスクに分割
+ *
+ * 元のタスクは親タスクとして残り、進捗と見積時間はサブタスクから集計される
  */
 export async function POST(request: NextRequest) {
   try {
@@ -25,8 +30,8 @@ export async function POST(request: NextRequest) {
     );
 
     const body = await request.json() as TaskBreakdownRequest;
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
     
     const { originalTaskId, subtasks, breakdownReason } = body;
 
@@ -107,11 +112,11 @@ export async function POST(request: NextRequest) {
       createdSubtasks.push(createdSubtask);
     }
 
-    // Update original task status to cancelled and add breakdown metadata
+    // 元のタスクは親タスクとして残す（予定は最初のサブタスクへ引き継いだので外す）
     const { data: updatedOriginalTask, error: updateError } = await supabase
       .from('tasks')
       .update({
-        status: 'cancelled',
+        scheduled_date: null,
         updated_at: now,
         breakdown_metadata: {
           broken_down_at: now,
@@ -131,6 +136,10 @@ export async function POST(request: NextRequest) {
       throw updateError;
     }
 
+    // 親タスクの時間ブロックとリマインダーをサブタスクへ移す
+    await syncTimeBlocksForTasks(supabase, user.id, [originalTaskId, createdSubtasks[0].id]);
+    await refreshTaskReminders(supabase, user.id, [originalTaskId, ...createdSubtasks.map(subtask => subtask.id)]);
+
     // Log the breakdown action
     await supabase
       .from('analytics_logs')
@@ -184,8 +193,8 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const parentId = searchParams.get('parentId');
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
     
     if (parentId) {
       // Get subtasks for a specific parent task
@@ -206,12 +215,11 @@ export async function GET(request: NextRequest) {
         parentId,
       });
     } else {
-      // Get all broken down tasks (parent tasks that have been cancelled due to breakdown)
+      // Get all broken down tasks (parent tasks with breakdown metadata)
       const { data: brokenDownTasks, error } = await supabase
         .from('tasks')
         .select('*')
         .eq('user_id', user.id)
-        .eq('status', 'cancelled')
         .not('breakdown_metadata', 'is', null)
         .order('updated_at', { ascending: false });
 
@@ -1,5 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { rollSeriesForward } from '@/lib/tasks/recurringSeries';
+import { syncTimeBlocksForTasks } from '@/lib/schedule/timeBlocks';
+import { refreshTaskReminders } from '@/lib/notifications/reminders';
+import { completeParentsIfDone } from '@/lib/tasks/dependencies';
+import { closeActiveSession, getTrackedMinutes } from '@/lib/tasks/timeTracking';
+import { getCompletionTimeContext } from '@/lib/tasks/completion';
+import { getUserLocale } from '@/lib/schedule/timezone';
 
 interface BulkCompleteRequest {
   taskIds: string[];
@@ -30,8 +38,8 @@ export async function POST(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     const body = await request.json() as BulkCompleteRequest;
     const { taskIds, actualMinutes = {}, completionNotes = {}, markAllAsCompleted = false } = body;
@@ -70,7 +78,9 @@ export async function POST(request: NextRequest) {
     }
 
     const results: TaskCompletionResult[] = [];
+    const nextInstanceIds: string[] = [];
     const completionTime = new Date().toISOString();
+    const { timeZone } = await getUserLocale(supabase, user.id);
     let successCount = 0;
 
     // Process each task individually for detailed tracking
@@ -88,13 +98,11 @@ export async function POST(request: NextRequest) {
         }
 
         // Calculate actual time
-        let calculatedActualTime = actualMinutes[task.id];
+        let calculatedActualTime: number | undefined = actualMinutes[task.id];
         
-        // Auto-calculate if not provided and task was started
-        if (calculatedActualTime === undefined && task.started_at) {
-          const startTime = new Date(task.started_at);
-          const endTime = new Date();
-          calculatedActualTime = Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60));
+        // Auto-calculate from tracked work sessions if not provided
+        if (calculatedActualTime === undefined) {
+          calculatedActualTime = getTrackedMinutes(task);
         }
 
         // Prepare completion metadata
@@ -103,8 +111,7 @@ export async function POST(request: NextRequest) {
           completed_at: completionTime,
           bulk_completion: true,
           completion_context: {
-            day_of_week: new Date().toLocaleDateString('en-US', { weekday: 'long' }),
-            hour_of_day: new Date().getHours(),
+            ...getCompletionTimeContext(new Date(completionTime), timeZone),
             was_scheduled: !!task.scheduled_date,
             was_due: !!task.due_date,
             overdue: task.due_date ? new Date() > new Date(task.due_date) : false,
@@ -151,19 +158,7 @@ export async function POST(request: NextRequest) {
 
         // Close any active time tracking session
         if (task.time_tracking_data?.sessions) {
-          const sessions = [...task.time_tracking_data.sessions];
-          const activeSession = sessions.find((s: any) => s.status === 'active');
-          
-          if (activeSession) {
-            activeSession.ended_at = completionTime;
-            activeSession.status = 'completed';
-            activeSession.duration_minutes = calculatedActualTime || 0;
-          }
-          
-          updateData.time_tracking_data = {
-            ...task.time_tracking_data,
-            sessions: sessions
-          };
+          updateData.time_tracking_data = closeActiveSession(task, new Date(completionTime));
         }
 
         const { error: updateError } = await supabase
@@ -176,6 +171,12 @@ export async function POST(request: NextRequest) {
           throw updateError;
         }
 
+        // 繰り返しインスタンスはシリーズを次回へ進める
+        if (task.recurrence_parent_id && task.status !== 'completed') {
+          const nextInstance = await rollSeriesForward(supabase, task);
+          if (nextInstance) nextInstanceIds.push(nextInstance.id);
+        }
+
         results.push({
           taskId: task.id,
           title: task.title,
@@ -201,6 +202,22 @@ export async function POST(request: NextRequest) {
 
     // Calculate bulk completion statistics
     const completedResults = results.filter(r => r.success);
+
+    // サブタスクがすべて完了した親タスクも完了にする
+    const completedIds = new Set(completedResults.map(r => r.taskId));
+    const parentIds = new Set(
+      userTasks
+        .filter(task => completedIds.has(task.id) && task.parent_task_id)
+        .map(task => task.parent_task_id as string)
+    );
+    const completedParentIds: string[] = [];
+    for (const parentId of parentIds) {
+      completedParentIds.push(...await completeParentsIfDone(supabase, user.id, parentId));
+    }
+
+    // 時間ブロックを完了表示に更新し、完了したタスクのリマインダーを取り消す
+    await syncTimeBlocksForTasks(supabase, user.id, [...completedIds, ...completedParentIds]);
+    await refreshTaskReminders(supabase, user.id, [...completedIds, ...nextInstanceIds, ...completedParentIds]);
     const totalEstimatedTime = completedResults.reduce((sum, r) => sum + (r.estimatedMinutes || 0), 0);
     const totalActualTime = completedResults.reduce((sum, r) => sum + (r.actualMinutes || 0), 0);
     const averageEfficiency = completedResults.length > 0 ? 
@@ -230,6 +247,7 @@ export async function POST(request: NextRequest) {
         event_data: {
           ...bulkStats,
           task_ids: taskIds,
+          completed_parent_ids: completedParentIds,
           completion_timestamp: completionTime,
           individual_results: results.map(r => ({
             task_id: r.taskId,
@@ -244,6 +262,7 @@ export async function POST(request: NextRequest) {
       success: true,
       results,
       statistics: bulkStats,
+      completedParentIds,
       message: `${successCount}個のタスクを完了しました`
     });
 
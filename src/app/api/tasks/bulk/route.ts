@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { TaskStatus } from '@/types/shared';
+import { requireUser } from '@/lib/auth/server';
+import { deleteFutureInstances, excludeOccurrence, rollSeriesForward } from '@/lib/tasks/recurringSeries';
+import { removeTimeBlocks, syncTimeBlocksForTasks } from '@/lib/schedule/timeBlocks';
+import { refreshTaskReminders, refreshUserReminders } from '@/lib/notifications/reminders';
+import { completeParentsIfDone } from '@/lib/tasks/dependencies';
+import { getUserLocale } from '@/lib/schedule/timezone';
 
 interface BulkUpdateRequest {
   action: 'update_status' | 'delete' | 'reschedule';
@@ -23,8 +29,8 @@ export async function POST(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     const body = await request.json() as BulkUpdateRequest;
     const { action, taskIds, data } = body;
@@ -47,7 +53,7 @@ export async function POST(request: NextRequest) {
     // ユーザーのタスクのみを対象にする
     const { data: userTasks, error: fetchError } = await supabase
       .from('tasks')
-      .select('id, title, status, postpone_count')
+      .select('id, user_id, title, status, postpone_count, recurrence_rule, recurrence_parent_id, recurrence_instance_date, calendar_event_id, parent_task_id')
       .eq('user_id', user.id)
       .in('id', taskIds);
 
@@ -107,16 +113,55 @@ export async function POST(request: NextRequest) {
           throw updateError;
         }
 
+        // 繰り返しインスタンスの完了・キャンセル時はシリーズを次回へ進める
+        const nextInstanceIds: string[] = [];
+        if (data.status === 'completed' || data.status === 'cancelled') {
+          for (const task of userTasks || []) {
+            if (task.recurrence_parent_id && task.status !== data.status) {
+              const nextInstance = await rollSeriesForward(supabase, task);
+              if (nextInstance) nextInstanceIds.push(nextInstance.id);
+            }
+          }
+        }
+
+        // サブタスクがすべて完了した親タスクも完了にする
+        const completedParentIds: string[] = [];
+        if (data.status === 'completed') {
+          const parentIds = new Set(
+            (userTasks || [])
+              .filter(task => task.parent_task_id && task.status !== 'completed')
+              .map(task => task.parent_task_id as string)
+          );
+          for (const parentId of parentIds) {
+            completedParentIds.push(...await completeParentsIfDone(supabase, user.id, parentId));
+          }
+        }
+
+        await syncTimeBlocksForTasks(supabase, user.id, [...validTaskIds, ...completedParentIds]);
+        await refreshTaskReminders(supabase, user.id, [...validTaskIds, ...nextInstanceIds, ...completedParentIds]);
+
         result = updatedTasks;
         logData = {
           action: 'bulk_status_update',
           task_count: validTaskIds.length,
           new_status: data.status,
           updated_task_ids: validTaskIds,
+          completed_parent_ids: completedParentIds,
         };
         break;
 
       case 'delete':
+        // 繰り返しタスクの後処理（除外日の記録・今後のインスタンス削除）
+        const { timeZone } = await getUserLocale(supabase, user.id);
+        for (const task of userTasks || []) {
+          if (task.recurrence_parent_id) {
+            await excludeOccurrence(supabase, task);
+          }
+          if (task.recurrence_rule) {
+            await deleteFutureInstances(supabase, task.id, timeZone);
+          }
+        }
+
         const { error: deleteError } = await supabase
           .from('tasks')
           .delete()
@@ -127,6 +172,15 @@ export async function POST(request: NextRequest) {
           throw deleteError;
         }
 
+        await removeTimeBlocks(supabase, user.id, userTasks?.map(t => t.calendar_event_id) || []);
+
+        // シリーズのテンプレートを含む場合は削除したインスタンスの分もまとめて見直す
+        if (userTasks?.some(task => task.recurrence_rule)) {
+          await refreshUserReminders(supabase, user.id);
+        } else {
+          await refreshTaskReminders(supabase, user.id, validTaskIds);
+        }
+
         result = { deleted_count: validTaskIds.length };
         logData = {
           action: 'bulk_delete',
@@ -183,6 +237,9 @@ export async function POST(request: NextRequest) {
           result = rescheduledTasks;
         }
 
+        await syncTimeBlocksForTasks(supabase, user.id, validTaskIds);
+        await refreshTaskReminders(supabase, user.id, validTaskIds);
+
         logData = {
           action: 'bulk_reschedule',
           task_count: validTaskIds.length,
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { addDaysToDateKey, getUserLocale, minutesOfDayIn, toDateKeyIn } from '@/lib/schedule/timezone';
 
 interface DailySummaryRequest {
-  date?: string; // Optional, defaults to today
+  date?: string; // Optional, defaults to today (user's time zone)
   includeReschedulingSuggestions?: boolean;
 }
 
@@ -30,11 +32,13 @@ export async function GET(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     const { searchParams } = new URL(request.url);
-    const targetDate = searchParams.get('date') || new Date().toISOString().split('T')[0];
+    const { timeZone } = await getUserLocale(supabase, user.id);
+    const today = toDateKeyIn(new Date(), timeZone);
+    const targetDate = searchParams.get('date') || today;
     const includeRescheduling = searchParams.get('includeReschedulingSuggestions') === 'true';
 
     // Use the database function to get comprehensive summary
@@ -53,27 +57,25 @@ export async function GET(request: NextRequest) {
     if (includeRescheduling) {
       // Generate rescheduling suggestions for incomplete tasks
       const incompleteTasks = summaryData?.incomplete_tasks || [];
-      const today = new Date();
-      const tomorrow = new Date(today);
-      tomorrow.setDate(today.getDate() + 1);
-      const nextWeek = new Date(today);
-      nextWeek.setDate(today.getDate() + 7);
+      const now = new Date();
+      const tomorrow = addDaysToDateKey(today, 1);
+      const nextWeek = addDaysToDateKey(today, 7);
 
       reschedulingSuggestions = incompleteTasks
         .filter((task: any) => task.suggest_reschedule)
         .map((task: any) => {
           let reason: ReschedulingSuggestion['reason'] = 'high_priority_incomplete';
-          let suggestedDate = tomorrow.toISOString().split('T')[0];
+          let suggestedDate = tomorrow;
 
-          if (task.due_date && new Date(task.due_date) < today) {
+          if (task.due_date && new Date(task.due_date) < now) {
             reason = 'overdue';
-            suggestedDate = tomorrow.toISOString().split('T')[0]; // Urgent - tomorrow
+            suggestedDate = tomorrow; // Urgent - tomorrow
           } else if (task.postpone_count >= 3) {
             reason = 'postponed_multiple';
-            suggestedDate = nextWeek.toISOString().split('T')[0]; // Give more time
+            suggestedDate = nextWeek; // Give more time
           } else if (task.priority === 'high') {
             reason = 'high_priority_incomplete';
-            suggestedDate = tomorrow.toISOString().split('T')[0];
+            suggestedDate = tomorrow;
           }
 
           return {
@@ -94,7 +96,7 @@ export async function GET(request: NextRequest) {
       completion_rate: stats.total_completed > 0 ? 
         (stats.total_completed / (stats.total_completed + (summaryData?.incomplete_tasks?.length || 0))) * 100 : 0,
       efficiency_trend: getEfficiencyTrend(stats.average_efficiency),
-      recommendations: generateRecommendations(stats, summaryData?.completed_tasks || [])
+      recommendations: generateRecommendations(stats, summaryData?.completed_tasks || [], timeZone)
     };
 
     const response = {
@@ -136,11 +138,11 @@ export async function POST(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     const body = await request.json() as DailySummaryRequest;
-    const targetDate = body.date || new Date().toISOString().split('T')[0];
+    const targetDate = body.date || toDateKeyIn(new Date(), (await getUserLocale(supabase, user.id)).timeZone);
 
     // Generate the summary using the GET logic
     const summaryResponse = await GET(request);
@@ -238,7 +240,7 @@ function getEfficiencyTrend(averageEfficiency: number): string {
   return 'inconsistent';
 }
 
-function generateRecommendations(stats: any, completedTasks: any[]): string[] {
+function generateRecommendations(stats: any, completedTasks: any[], timeZone: string): string[] {
   const recommendations: string[] = [];
   const efficiency = stats.average_efficiency || 1;
   const completed = stats.total_completed || 0;
@@ -260,9 +262,9 @@ function generateRecommendations(stats: any, completedTasks: any[]): string[] {
     recommendations.push('延期が多いタスクは、より小さな単位に分割することを検討してください');
   }
 
-  // Analyze completion patterns
+  // Analyze completion patterns (hours in the user's time zone)
   const completionHours = completedTasks.map((task: any) => 
-    new Date(task.completed_at).getHours()
+    Math.floor(minutesOfDayIn(new Date(task.completed_at), timeZone) / 60)
   );
   
   if (completionHours.length > 0) {
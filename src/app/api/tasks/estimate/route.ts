@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { loadEstimationModel, predictEstimate, summarizeEstimationModel } from '@/lib/tasks/estimation';
+
+/**
+ * 見積時間の補正API
+ * GET /api/tasks/estimate?title=&category=&priority=&estimatedMinutes= - 過去の実績から見積時間を提案
+ *
+ * 完了タスクの見積もりと実績の差をカテゴリ・優先度・タイトルのキーワードごとに学習し、
+ * 補正後の見積時間と信頼度を返す。estimatedMinutes を省略すると似たタスクの実績時間を提案する
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const { searchParams } = new URL(request.url);
+    const title = searchParams.get('title')?.trim() || '';
+    const estimatedParam = searchParams.get('estimatedMinutes');
+    const estimatedMinutes = estimatedParam ? parseInt(estimatedParam) : null;
+
+    if (estimatedMinutes !== null && (isNaN(estimatedMinutes) || estimatedMinutes <= 0)) {
+      return NextResponse.json(
+        { error: '見積時間は1分以上の数値で指定してください' },
+        { status: 400 }
+      );
+    }
+
+    const model = await loadEstimationModel(supabase, user.id);
+    const prediction = predictEstimate(model, {
+      title,
+      category: searchParams.get('category') || null,
+      priority: searchParams.get('priority') || null,
+      estimated_minutes: estimatedMinutes,
+    });
+
+    return NextResponse.json({
+      success: true,
+      estimate: prediction,
+      model: summarizeEstimationModel(model),
+    });
+
+  } catch (error) {
+    console.error('Estimate task error:', error);
+
+    return NextResponse.json(
+      {
+        error: '見積時間の提案に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
 
 interface ProductivityMetricsRequest {
   period?: 'last_7_days' | 'last_30_days' | 'last_90_days';
@@ -101,6 +102,7 @@ async function calculateDetailedMetrics(
     .from('tasks')
     .select('*')
     .eq('user_id', userId)
+    .is('recurrence_rule', null)
     .gte('created_at', startDate.toISOString())
     .order('created_at', { ascending: true });
 
@@ -207,6 +209,7 @@ async function calculateDetailedMetrics(
     .from('tasks')
     .select('*')
     .eq('user_id', userId)
+    .is('recurrence_rule', null)
     .gte('created_at', previousPeriodStart.toISOString())
     .lt('created_at', startDate.toISOString());
 
@@ -307,8 +310,8 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const period = searchParams.get('period') as 'last_7_days' | 'last_30_days' | 'last_90_days' || 'last_7_days';
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
     
     const metrics = await calculateDetailedMetrics(supabase, user.id, period);
     
@@ -375,8 +378,8 @@ export async function POST(request: NextRequest) {
     );
 
     const body = await request.json() as ProductivityMetricsRequest;
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
     
     // Calculate metrics for multiple periods
     const weeklyMetrics = await calculateDetailedMetrics(supabase, user.id, 'last_7_days');
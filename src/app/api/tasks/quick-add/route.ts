@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { createAIClient } from '@/lib/openai';
+import { resolveSchedulePreferences } from '@/lib/schedule/planner';
+import { getUserLocale } from '@/lib/schedule/timezone';
+import { ESTIMATION_CONFIG, loadEstimationModel, predictEstimate } from '@/lib/tasks/estimation';
+import { QuickAddKind, mergeQuickAddSuggestion, parseQuickAdd } from '@/lib/tasks/quickAdd';
+
+interface QuickAddRequest {
+  text: string;
+  ai?: boolean; // 曖昧な入力をAIで補完する（デフォルト: true）
+}
+
+const MAX_TEXT_LENGTH = 1000;
+
+/**
+ * クイック追加API
+ * POST /api/tasks/quick-add - 1行の入力をタスク作成（または予定作成）のリクエストに変換（保存しない）
+ *
+ * ルールベースで解析し、曖昧な表現が残った場合のみAIで補完する。
+ * 返した request はそのまま POST /api/tasks（予定の場合は POST /api/calendar/events）に渡せる。
+ * 所要時間の指定がなければ、見積もりの学習結果（なければ default_task_minutes）で補う
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json() as QuickAddRequest;
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+
+    if (!text) {
+      return NextResponse.json(
+        { error: '入力が空です' },
+        { status: 400 }
+      );
+    }
+
+    if (text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json(
+        { error: `入力は${MAX_TEXT_LENGTH}文字以内にしてください` },
+        { status: 400 }
+      );
+    }
+
+    // 「今日」「15時」はユーザーのタイムゾーンで解釈
+    const now = new Date();
+    const { timeZone } = await getUserLocale(supabase, user.id);
+    let parsed = parseQuickAdd(text, now, timeZone);
+    let usedAI = false;
+
+    if (body.ai !== false && parsed.ambiguities.length > 0) {
+      try {
+        const suggestion = await createAIClient(supabase, user.id).parseQuickAdd(text, parsed, now, timeZone);
+        parsed = mergeQuickAddSuggestion(parsed, suggestion, timeZone);
+        usedAI = true;
+      } catch (aiError) {
+        // 予算超過やAPIエラーでもルールの解析結果は返す
+        console.error('Quick add AI fallback failed:', aiError);
+      }
+    }
+
+    let estimatedMinutes = parsed.estimatedMinutes;
+    if (parsed.kind === QuickAddKind.TASK && estimatedMinutes === null) {
+      const estimate = predictEstimate(await loadEstimationModel(supabase, user.id), {
+        title: parsed.title,
+        category: parsed.category,
+        priority: parsed.priority,
+      });
+
+      if (estimate.suggestedMinutes !== null && estimate.confidence >= ESTIMATION_CONFIG.applyConfidence) {
+        estimatedMinutes = estimate.suggestedMinutes;
+      } else {
+        const { data: userData } = await supabase
+          .from('users')
+          .select('settings')
+          .eq('id', user.id)
+          .single();
+        estimatedMinutes = resolveSchedulePreferences(userData?.settings?.schedule_preferences).default_task_minutes;
+      }
+    }
+
+    await supabase
+      .from('analytics_logs')
+      .insert({
+        user_id: user.id,
+        event_type: 'quick_add_parsed',
+        event_data: {
+          kind: parsed.kind,
+          recognized_fields: parsed.recognized.map(item => item.field),
+          ambiguity_count: parsed.ambiguities.length,
+          used_ai: usedAI,
+        },
+      });
+
+    return NextResponse.json({
+      success: true,
+      parsed,
+      usedAI,
+      request: parsed.kind === QuickAddKind.EVENT
+        ? {
+            title: parsed.title,
+            startTime: parsed.startTime,
+            endTime: parsed.endTime,
+          }
+        : {
+            title: parsed.title,
+            estimatedMinutes,
+            priority: parsed.priority ?? 'medium',
+            category: parsed.category ?? undefined,
+            dueDate: parsed.dueDate ?? undefined,
+            scheduledDate: parsed.scheduledDate ?? undefined,
+          },
+    });
+
+  } catch (error) {
+    console.error('Quick add error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'クイック追加の解析に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
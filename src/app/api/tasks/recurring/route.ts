@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { describeRecurrence, formatRRule, getOccurrences } from '@/lib/tasks/recurrence';
+import {
+  generateInstancesForUser,
+  getSeriesStart,
+  listTemplates,
+  RECURRENCE_HORIZON_DAYS,
+} from '@/lib/tasks/recurringSeries';
+import { refreshUserReminders } from '@/lib/notifications/reminders';
+import { getUserLocale } from '@/lib/schedule/timezone';
+
+/**
+ * 繰り返しタスクシリーズAPI
+ * GET /api/tasks/recurring - シリーズ一覧（説明・次回予定付き）
+ * POST /api/tasks/recurring - 全シリーズのインスタンスを先行生成
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const templates = await listTemplates(supabase, user.id);
+    const { timeZone } = await getUserLocale(supabase, user.id);
+    const now = new Date();
+
+    const series = templates.map(template => {
+      const nextOccurrences = getOccurrences(template.recurrence_rule, getSeriesStart(template), {
+        from: now,
+        limit: 3,
+        timeZone,
+      });
+
+      return {
+        ...template,
+        description_text: describeRecurrence(template.recurrence_rule),
+        rrule: formatRRule(template.recurrence_rule),
+        next_occurrences: nextOccurrences.map(date => date.toISOString()),
+        is_active: nextOccurrences.length > 0,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      series,
+      total: series.length,
+    });
+
+  } catch (error) {
+    console.error('繰り返しタスク取得エラー:', error);
+    return NextResponse.json(
+      {
+        error: '繰り返しタスクの取得に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json().catch(() => ({}));
+    const horizonDays = Number.isInteger(body.horizonDays) && body.horizonDays > 0 && body.horizonDays <= 90
+      ? body.horizonDays
+      : RECURRENCE_HORIZON_DAYS;
+
+    const result = await generateInstancesForUser(supabase, user.id, { horizonDays });
+
+    if (result.created > 0) {
+      await refreshUserReminders(supabase, user.id);
+
+      await supabase
+        .from('analytics_logs')
+        .insert({
+          user_id: user.id,
+          event_type: 'recurring_instances_generated',
+          event_data: {
+            template_count: result.templates,
+            created_count: result.created,
+            horizon_days: horizonDays,
+          },
+        });
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: `${result.created}件の繰り返しタスクを生成しました`,
+    });
+
+  } catch (error) {
+    console.error('繰り返しタスク生成エラー:', error);
+    return NextResponse.json(
+      {
+        error: '繰り返しタスクの生成に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
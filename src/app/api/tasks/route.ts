@@ -1,11 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { TaskPriority, TaskStatus } from '@/types/shared';
+import { RecurrenceRule, TaskPriority, TaskStatus } from '@/types/shared';
+import { requireUser } from '@/lib/auth/server';
+import { normalizeRecurrenceRule, validateRecurrenceRule } from '@/lib/tasks/recurrence';
+import { generateUpcomingInstances, RecurringTemplate } from '@/lib/tasks/recurringSeries';
+import { syncTimeBlocksForTasks } from '@/lib/schedule/timeBlocks';
+import { refreshTaskReminders } from '@/lib/notifications/reminders';
+import { annotateTaskRelations, validateParentTask } from '@/lib/tasks/dependencies';
+import { normalizeTaskTags, parseTaskQuery, parseTaskSort } from '@/lib/tasks/query';
+import { dayRangeIn, getUserLocale, parseDateKey, toDateKeyIn } from '@/lib/schedule/timezone';
+import { ValidationError } from '@/lib/errors';
 
 /**
  * タスクCRUD API
- * GET /api/tasks - タスク取得（フィルタリング対応）
- * POST /api/tasks - タスク作成
+ * GET /api/tasks - タスク取得（フィルタリング対応、ブロック状態・サブタスク集計付き）
+ * POST /api/tasks - タスク作成（recurrence 指定時は繰り返しシリーズを作成）
  */
 
 interface TaskFilters {
@@ -16,6 +25,7 @@ interface TaskFilters {
   dueBefore?: string;
   dueAfter?: string;
   scheduledDate?: string;
+  includeTemplates?: boolean;
 }
 
 interface CreateTaskRequest {
@@ -24,14 +34,20 @@ interface CreateTaskRequest {
   estimatedMinutes: number;
   priority: TaskPriority;
   category?: string;
+  tags?: string[] | string;
   dueDate?: string;
   scheduledDate?: string;
   eventId?: string;
+  parentTaskId?: string;
+  recurrence?: RecurrenceRule;
 }
 
 /**
  * タスク取得API
  * GET /api/tasks?status=pending,in_progress&priority=high&search=会議
+ * GET /api/tasks?q=status:open priority:high due:<7d -tag:later sort:due - 検索式（lib/tasks/query.ts）
+ * GET /api/tasks?view=<保存したビューのID> - 保存したビューの検索式（q を指定すると条件を追加）
+ * sort=priority,-due で並び順を指定（検索式の sort: より優先、既定は作成日時の新しい順）
  */
 export async function GET(request: NextRequest) {
   try {
@@ -40,9 +56,8 @@ export async function GET(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    // 開発用: テスト用のユーザーIDを使用
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     const { searchParams } = new URL(request.url);
     
@@ -55,12 +70,42 @@ export async function GET(request: NextRequest) {
       dueBefore: searchParams.get('dueBefore') || undefined,
       dueAfter: searchParams.get('dueAfter') || undefined,
       scheduledDate: searchParams.get('scheduledDate') || undefined,
+      includeTemplates: searchParams.get('includeTemplates') === 'true',
     };
 
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '50');
     const offset = (page - 1) * limit;
 
+    // 保存したビューと検索式
+    const viewId = searchParams.get('view');
+    let view: { id: string; name: string; query: string } | null = null;
+    if (viewId) {
+      const { data: viewData, error: viewError } = await supabase
+        .from('task_views')
+        .select('id, name, query')
+        .eq('id', viewId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (viewError) throw viewError;
+      if (!viewData) {
+        return NextResponse.json(
+          { error: 'ビューが見つかりません' },
+          { status: 404 }
+        );
+      }
+      view = viewData;
+    }
+
+    const queryText = [view?.query, searchParams.get('q')].filter(Boolean).join(' ');
+    const sortParam = searchParams.get('sort');
+    const { timeZone } = await getUserLocale(supabase, user.id);
+    const taskQuery = parseTaskQuery(queryText, { timeZone });
+    if (sortParam) {
+      taskQuery.sort = parseTaskSort(sortParam);
+    }
+
     // クエリビルダーを開始
     let query = supabase
       .from('tasks')
@@ -70,10 +115,18 @@ export async function GET(request: NextRequest) {
           title,
           start_time,
           location
+        ),
+        recurrence_series:recurrence_parent_id(
+          id,
+          recurrence_rule
         )
       `)
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false });
+      .eq('user_id', user.id);
+
+    // 繰り返しシリーズのテンプレートは既定で除外（インスタンスのみ表示）
+    if (!filters.includeTemplates) {
+      query = query.is('recurrence_rule', null);
+    }
 
     // フィルターを適用
     if (filters.status?.length) {
@@ -101,15 +154,35 @@ export async function GET(request: NextRequest) {
     }
 
     if (filters.scheduledDate) {
-      const date = new Date(filters.scheduledDate);
-      const nextDay = new Date(date);
-      nextDay.setDate(date.getDate() + 1);
-      
+      // 日付（日時の場合はその日）をユーザーのタイムゾーンでの1日として扱う
+      const scheduledDate = new Date(filters.scheduledDate);
+      const dateKey = parseDateKey(filters.scheduledDate)
+        ? filters.scheduledDate
+        : !isNaN(scheduledDate.getTime()) ? toDateKeyIn(scheduledDate, timeZone) : null;
+      if (!dateKey) {
+        throw new ValidationError('scheduledDate は YYYY-MM-DD 形式で指定してください');
+      }
+
+      const { start, end } = dayRangeIn(dateKey, timeZone);
       query = query
-        .gte('scheduled_date', date.toISOString())
-        .lt('scheduled_date', nextDay.toISOString());
+        .gte('scheduled_date', start.toISOString())
+        .lt('scheduled_date', end.toISOString());
     }
 
+    for (const filter of taskQuery.filters) {
+      query = query.filter(filter.column, filter.operator, filter.value);
+    }
+
+    for (const orFilter of taskQuery.orFilters) {
+      query = query.or(orFilter);
+    }
+
+    // 並び順（未設定の値は最後、同順位は作成日時の新しい順）
+    for (const sort of taskQuery.sort) {
+      query = query.order(sort.column, { ascending: sort.ascending, nullsFirst: false });
+    }
+    query = query.order('created_at', { ascending: false });
+
     // ページネーション
     query = query.range(offset, offset + limit - 1);
 
@@ -123,7 +196,8 @@ export async function GET(request: NextRequest) {
     const { data: stats } = await supabase
       .from('tasks')
       .select('status, priority')
-      .eq('user_id', user.id);
+      .eq('user_id', user.id)
+      .is('recurrence_rule', null);
 
     const statistics = {
       total: count || 0,
@@ -142,7 +216,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      tasks: tasks || [],
+      tasks: await annotateTaskRelations(supabase, user.id, tasks || []),
       statistics,
       pagination: {
         page,
@@ -151,9 +225,18 @@ export async function GET(request: NextRequest) {
         totalPages: Math.ceil((count || 0) / limit),
       },
       filters: filters,
+      query: queryText || null,
+      view,
     });
 
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
     console.error('タスク取得エラー:', error);
     
     return NextResponse.json(
@@ -177,8 +260,8 @@ export async function POST(request: NextRequest) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const testUserId = 'test-user-123';
-    const user = { id: testUserId };
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     const body = await request.json() as CreateTaskRequest;
     const { 
@@ -187,9 +270,12 @@ export async function POST(request: NextRequest) {
       estimatedMinutes,
       priority,
       category,
+      tags,
       dueDate,
       scheduledDate,
-      eventId
+      eventId,
+      parentTaskId,
+      recurrence
     } = body;
 
     // バリデーション
@@ -214,6 +300,45 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const normalizedTags = tags === undefined ? [] : normalizeTaskTags(tags);
+    if (!normalizedTags) {
+      return NextResponse.json(
+        { error: 'タグは空白・カンマを含まない50文字以内の文字列を20個まで指定してください' },
+        { status: 400 }
+      );
+    }
+
+    if (recurrence) {
+      const recurrenceErrors = validateRecurrenceRule(recurrence);
+      if (recurrenceErrors.length > 0) {
+        return NextResponse.json(
+          { error: '繰り返し設定に問題があります', validationErrors: recurrenceErrors },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (parentTaskId) {
+      if (recurrence) {
+        return NextResponse.json(
+          { error: 'サブタスクを繰り返しシリーズにはできません' },
+          { status: 400 }
+        );
+      }
+
+      const parentErrors = await validateParentTask(supabase, user.id, null, parentTaskId);
+      if (parentErrors.length > 0) {
+        return NextResponse.json(
+          { error: '親タスクの指定に問題があります', validationErrors: parentErrors },
+          { status: 400 }
+        );
+      }
+    }
+
+    // 繰り返しシリーズの基準日時（開始日 > 期限 > 現在）。曜日・日付はユーザーのタイムゾーンで判定
+    const seriesStart = new Date(scheduledDate || dueDate || Date.now());
+    const { timeZone } = await getUserLocale(supabase, user.id);
+
     // タスクデータを準備
     const taskData = {
       user_id: user.id,
@@ -222,12 +347,18 @@ export async function POST(request: NextRequest) {
       estimated_minutes: estimatedMinutes,
       priority,
       category: category?.substring(0, 100) || null,
+      tags: normalizedTags,
       status: 'pending' as TaskStatus,
       due_date: dueDate ? new Date(dueDate).toISOString() : null,
       scheduled_date: scheduledDate ? new Date(scheduledDate).toISOString() : null,
       event_id: eventId || null,
+      parent_task_id: parentTaskId || null,
       postpone_count: 0,
       created_at: new Date().toISOString(),
+      ...(recurrence && {
+        scheduled_date: seriesStart.toISOString(),
+        recurrence_rule: normalizeRecurrenceRule(recurrence, seriesStart, timeZone),
+      }),
     };
 
     const { data: newTask, error } = await supabase
@@ -247,6 +378,17 @@ export async function POST(request: NextRequest) {
       throw error;
     }
 
+    // 繰り返しシリーズの場合は今後のインスタンスを生成
+    const instances = recurrence
+      ? await generateUpcomingInstances(supabase, newTask as RecurringTemplate, { timeZone })
+      : [];
+
+    // 配置済みのタスクは設定に応じて時間ブロックを作成し、リマインダーを予約
+    // （繰り返しシリーズはテンプレートではなく各インスタンスが対象）
+    const createdTaskIds = recurrence ? instances.map(instance => instance.id) : [newTask.id];
+    await syncTimeBlocksForTasks(supabase, user.id, createdTaskIds);
+    await refreshTaskReminders(supabase, user.id, createdTaskIds);
+
     // 作成ログを記録
     await supabase
       .from('analytics_logs')
@@ -261,13 +403,20 @@ export async function POST(request: NextRequest) {
           has_due_date: !!dueDate,
           has_scheduled_date: !!scheduledDate,
           linked_to_event: !!eventId,
+          parent_task_id: parentTaskId || null,
+          recurring: !!recurrence,
+          recurrence_frequency: recurrence?.frequency ?? null,
+          generated_instances: instances.length,
         },
       });
 
     return NextResponse.json({
       success: true,
       task: newTask,
-      message: 'タスクを作成しました',
+      ...(recurrence && { instances }),
+      message: recurrence
+        ? `繰り返しタスクを作成しました（${instances.length}件の予定を生成）`
+        : 'タスクを作成しました',
     });
 
   } catch (error) {
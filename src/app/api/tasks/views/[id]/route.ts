@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { ValidationError } from '@/lib/errors';
+import { getUserLocale } from '@/lib/schedule/timezone';
+import { MAX_TASK_VIEW_NAME_LENGTH, parseTaskQuery } from '@/lib/tasks/query';
+
+/**
+ * 保存したビューの個別操作API
+ * PUT /api/tasks/views/[id] - 名前・検索式・表示順を変更
+ *   body: { name?: 表示名, query?: 検索式, position?: 表示順（小さいほど左） }
+ * DELETE /api/tasks/views/[id] - ビューを削除（タスクは削除しない）
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json().catch(() => ({}));
+    const updateData: Record<string, unknown> = {};
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name || name.length > MAX_TASK_VIEW_NAME_LENGTH) {
+        return NextResponse.json(
+          { error: `ビューの名前は${MAX_TASK_VIEW_NAME_LENGTH}文字以内で指定してください` },
+          { status: 400 }
+        );
+      }
+      updateData.name = name;
+    }
+
+    if (body.query !== undefined) {
+      const query = typeof body.query === 'string' ? body.query.trim() : '';
+      if (!query) {
+        return NextResponse.json(
+          { error: '検索式を指定してください' },
+          { status: 400 }
+        );
+      }
+      const { timeZone } = await getUserLocale(supabase, user.id);
+      parseTaskQuery(query, { timeZone });
+      updateData.query = query;
+    }
+
+    if (body.position !== undefined) {
+      if (!Number.isInteger(body.position) || body.position < 0) {
+        return NextResponse.json(
+          { error: '表示順は0以上の整数で指定してください' },
+          { status: 400 }
+        );
+      }
+      updateData.position = body.position;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { error: '変更する項目を指定してください' },
+        { status: 400 }
+      );
+    }
+
+    const { data: view, error } = await supabase
+      .from('task_views')
+      .update(updateData)
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select('id, name, query, position, created_at, updated_at')
+      .maybeSingle();
+
+    if (error?.code === '23505') {
+      return NextResponse.json(
+        { error: `「${updateData.name}」という名前のビューは既にあります` },
+        { status: 409 }
+      );
+    }
+    if (error) throw error;
+
+    if (!view) {
+      return NextResponse.json(
+        { error: 'ビューが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      view,
+      message: 'ビューを更新しました',
+    });
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('ビュー更新エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'ビューの更新に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const { data: deleted, error } = await supabase
+      .from('task_views')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select('id, name')
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'ビューが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `ビュー「${deleted.name}」を削除しました`,
+    });
+
+  } catch (error) {
+    console.error('ビュー削除エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'ビューの削除に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
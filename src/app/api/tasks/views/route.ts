@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { ValidationError } from '@/lib/errors';
+import { getUserLocale } from '@/lib/schedule/timezone';
+import { MAX_TASK_VIEWS, MAX_TASK_VIEW_NAME_LENGTH, parseTaskQuery } from '@/lib/tasks/query';
+
+/**
+ * 保存したビューAPI（名前を付けたタスクの検索式）
+ * GET /api/tasks/views - ビューの一覧（表示順）
+ * POST /api/tasks/views - ビューを作成
+ *   body: { name: 表示名, query: 検索式（例: "status:open priority:high due:<7d sort:due"） }
+ *
+ * ビューのタスクは GET /api/tasks?view=<id> で取得する
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const { data: views, error } = await supabase
+      .from('task_views')
+      .select('id, name, query, position, created_at, updated_at')
+      .eq('user_id', user.id)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json({
+      success: true,
+      views: views || [],
+    });
+
+  } catch (error) {
+    console.error('ビュー一覧取得エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'ビューの取得に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json().catch(() => ({}));
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const query = typeof body.query === 'string' ? body.query.trim() : '';
+
+    if (!name || name.length > MAX_TASK_VIEW_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `ビューの名前は${MAX_TASK_VIEW_NAME_LENGTH}文字以内で指定してください` },
+        { status: 400 }
+      );
+    }
+
+    if (!query) {
+      return NextResponse.json(
+        { error: '検索式を指定してください' },
+        { status: 400 }
+      );
+    }
+
+    // 保存前に検索式を検証（不正な場合は ValidationError）
+    const { timeZone } = await getUserLocale(supabase, user.id);
+    parseTaskQuery(query, { timeZone });
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('task_views')
+      .select('position')
+      .eq('user_id', user.id);
+
+    if (fetchError) throw fetchError;
+
+    if ((existing || []).length >= MAX_TASK_VIEWS) {
+      return NextResponse.json(
+        { error: `ビューは${MAX_TASK_VIEWS}件まで保存できます` },
+        { status: 400 }
+      );
+    }
+
+    const { data: view, error } = await supabase
+      .from('task_views')
+      .insert({
+        user_id: user.id,
+        name,
+        query,
+        position: Math.max(-1, ...(existing || []).map(row => row.position)) + 1,
+      })
+      .select('id, name, query, position, created_at, updated_at')
+      .single();
+
+    if (error?.code === '23505') {
+      return NextResponse.json(
+        { error: `「${name}」という名前のビューは既にあります` },
+        { status: 409 }
+      );
+    }
+    if (error) throw error;
+
+    return NextResponse.json({
+      success: true,
+      view,
+      message: `ビュー「${name}」を保存しました`,
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('ビュー作成エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'ビューの保存に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,27 +1,23 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase/client';
+import { requireUser } from '@/lib/auth/server';
 
 /**
- * ユーザーのGoogle認証状態確認
+ * ユーザーのGoogle認証状態確認（CalDAV の連携有無もあわせて返す）
  * GET /api/user/google-status
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     // 現在のユーザーセッション確認
-    const { data: { session } } = await supabase.auth.getSession();
-    
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: '認証が必要です' },
-        { status: 401 }
-      );
-    }
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
 
     // ユーザーのGoogle認証情報を確認
     const { data: userData, error: userError } = await supabase
       .from('users')
       .select('google_refresh_token')
-      .eq('id', session.user.id)
+      .eq('id', user.id)
       .single();
 
     if (userError) {
@@ -32,10 +28,21 @@ export async function GET() {
       );
     }
 
+    // CalDAV の連携有無（calendar_connections は認証情報を含むためサービスロールで参照）
+    const serviceClient = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+    const { count: caldavCount } = await serviceClient
+      .from('calendar_connections')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id);
+
     // Google認証状態を返す
     return NextResponse.json({
       hasGoogleAuth: !!userData?.google_refresh_token,
-      userId: session.user.id,
+      hasCalDAV: (caldavCount || 0) > 0,
+      userId: user.id,
     });
 
   } catch (error) {
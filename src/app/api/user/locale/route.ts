@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/auth/server';
+import { getUserLocale, isValidLocale, isValidTimeZone } from '@/lib/schedule/timezone';
+import { refreshUserJobSchedules } from '@/lib/jobs/definitions';
+
+/**
+ * タイムゾーン・ロケール設定API
+ * GET /api/user/locale - 現在の設定（未設定の場合はデフォルト）
+ * PUT /api/user/locale - 設定を変更
+ *   body: { timeZone?: IANAのタイムゾーン名（例: "America/New_York"）, locale?: BCP 47（例: "en-US"） }
+ *
+ * 「今日」の範囲・日次サマリーの時刻・静音時間・稼働時間・カレンダーに書き込む予定のタイムゾーンに使われる
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const userLocale = await getUserLocale(supabase, user.id);
+
+    return NextResponse.json({
+      success: true,
+      ...userLocale,
+    });
+
+  } catch (error) {
+    console.error('地域設定取得エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'タイムゾーン設定の取得に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json().catch(() => ({}));
+    const { timeZone, locale } = body;
+
+    if (timeZone === undefined && locale === undefined) {
+      return NextResponse.json(
+        { error: '変更する設定を指定してください' },
+        { status: 400 }
+      );
+    }
+
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: 'タイムゾーンは "Asia/Tokyo" のようなIANAのタイムゾーン名で指定してください' },
+        { status: 400 }
+      );
+    }
+
+    if (locale !== undefined && !isValidLocale(locale)) {
+      return NextResponse.json(
+        { error: 'ロケールは "ja-JP" のような形式で指定してください' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('users')
+      .update({
+        ...(timeZone !== undefined && { time_zone: timeZone }),
+        ...(locale !== undefined && { locale }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', user.id);
+
+    if (error) throw error;
+
+    // 日次サマリーなどのジョブを新しいタイムゾーンの時刻で実行する（失敗しても次回の定期同期で反映される）
+    await refreshUserJobSchedules(supabase, user.id)
+      .catch(syncError => console.error('ジョブスケジュール同期エラー:', syncError));
+
+    const userLocale = await getUserLocale(supabase, user.id);
+
+    return NextResponse.json({
+      success: true,
+      ...userLocale,
+      message: 'タイムゾーン設定を更新しました',
+    });
+
+  } catch (error) {
+    console.error('地域設定更新エラー:', error);
+    return NextResponse.json(
+      {
+        error: 'タイムゾーン設定の更新に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { TravelPreferences } from '@/types/shared';
+import { requireUser } from '@/lib/auth/server';
+import { TRAVEL_CONFIG } from '@/lib/config/environment';
+import { refreshUserReminders } from '@/lib/notifications/reminders';
+import { resolveTravelPreferences, validateTravelPreferences } from '@/lib/travel/preferences';
+
+const TRAVEL_PREFERENCE_KEYS: (keyof TravelPreferences)[] = [
+  'home',
+  'office',
+  'default_base',
+  'default_mode',
+  'arrival_buffer_minutes',
+];
+
+/**
+ * 移動設定API
+ * GET /api/user/travel - 自宅・職場の場所と既定の移動手段（未設定の項目はデフォルト）
+ * PUT /api/user/travel - 設定を変更（指定した項目だけを更新、home / office は null で削除）
+ *   body: {
+ *     home?: { address, label? } | null, office?: { address, label? } | null,
+ *     default_base?: 'home' | 'office', default_mode?: 'none' | 'walking' | 'bicycling' | 'transit' | 'driving',
+ *     arrival_buffer_minutes?: number
+ *   }
+ *
+ * 場所のある予定は出発地からの移動時間を見積もり、「出発」リマインダーの予約と
+ * 自動スケジューリングの空き時間の計算（予定の前後を移動時間として確保）に使う。
+ * 予定ごとの移動手段・出発地は PUT /api/calendar/events/[id] の travelMode / travelOrigin で変更できる
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const { data: userData, error } = await supabase
+      .from('users')
+      .select('settings')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return NextResponse.json({
+      success: true,
+      preferences: resolveTravelPreferences(userData?.settings?.travel_preferences),
+      provider: TRAVEL_CONFIG.provider,
+    });
+
+  } catch (error) {
+    console.error('移動設定取得エラー:', error);
+    return NextResponse.json(
+      {
+        error: '移動設定の取得に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { user, errorResponse } = await requireUser(request);
+    if (errorResponse) return errorResponse;
+
+    const body = await request.json().catch(() => ({}));
+    const changes: Partial<TravelPreferences> = {};
+    for (const key of TRAVEL_PREFERENCE_KEYS) {
+      if (body?.[key] !== undefined) {
+        Object.assign(changes, { [key]: body[key] });
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json(
+        { error: '変更する設定を指定してください' },
+        { status: 400 }
+      );
+    }
+
+    const validationErrors = validateTravelPreferences(changes);
+    if (validationErrors.length > 0) {
+      return NextResponse.json(
+        { error: '移動設定が正しくありません', details: validationErrors },
+        { status: 400 }
+      );
+    }
+
+    const { data: userData, error: fetchError } = await supabase
+      .from('users')
+      .select('settings')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    const settings = userData?.settings || {};
+    const travelPreferences = { ...(settings.travel_preferences || {}), ...changes };
+
+    const { error } = await supabase
+      .from('users')
+      .update({
+        settings: { ...settings, travel_preferences: travelPreferences },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', user.id);
+
+    if (error) throw error;
+
+    // 出発地・移動手段の変更に合わせて移動時間を見積もり直し、「出発」リマインダーを予約し直す
+    await refreshUserReminders(supabase, user.id);
+
+    return NextResponse.json({
+      success: true,
+      preferences: resolveTravelPreferences(travelPreferences),
+      message: '移動設定を更新しました',
+    });
+
+  } catch (error) {
+    console.error('移動設定更新エラー:', error);
+    return NextResponse.json(
+      {
+        error: '移動設定の更新に失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,7 @@ import { MetricsCards } from '@/components/dashboard/MetricsCards';
 import { CalendarWidget } from '@/components/dashboard/CalendarWidget';
 import { ScheduleTimeline } from '@/components/dashboard/ScheduleTimeline';
 import { AISuggestionCard } from '@/components/dashboard/AISuggestionCard';
+import { FocusTimer } from '@/components/dashboard/FocusTimer';
 
 export default function DashboardPage() {
   const { user, signOut } = useAuth();
@@ -110,6 +111,9 @@ export default function DashboardPage() {
 
               {/* サイドバー（右側1カラム） */}
               <div className="space-y-6">
+                {/* 作業タイマー（一時停止・再開・ポモドーロ） */}
+                <FocusTimer />
+
                 {/* カレンダーウィジェット - スティッキーポジション対応 */}
                 <CalendarWidget sticky={true} />
                 
@@ -1,16 +1,33 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { CalendarProviderEvent } from '@/types/shared';
 
 interface CalendarWidgetProps {
   className?: string;
   sticky?: boolean;
 }
 
+interface DayEvents {
+  count: number;
+  colors: string[];   // カレンダーの色（重複なし）
+}
+
+/**
+ * 1日に表示する色付きの点の最大数
+ */
+const MAX_EVENT_DOTS = 3;
+
+/**
+ * ローカル日付のキー（YYYY-MM-DD）
+ */
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
 export function CalendarWidget({ className = '', sticky = false }: CalendarWidgetProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState(new Date());
-  const [eventsData, setEventsData] = useState<{ [key: string]: number }>({});
+  const [eventsData, setEventsData] = useState<{ [key: string]: DayEvents }>({});
 
   useEffect(() => {
     fetchMonthEvents();
@@ -19,20 +36,29 @@ export function CalendarWidget({ className = '', sticky = false }: CalendarWidge
   const fetchMonthEvents = async () => {
     try {
       const year = currentDate.getFullYear();
-      const month = currentDate.getMonth() + 1;
-      const response = await fetch(`/api/calendar/events?year=${year}&month=${month}`);
+      const month = currentDate.getMonth();
+      const params = new URLSearchParams({
+        start: new Date(year, month, 1).toISOString(),
+        end: new Date(year, month + 1, 1).toISOString(),
+        maxResults: '250',
+      });
+      const response = await fetch(`/api/calendar/events?${params}`);
       
       if (response.ok) {
         const { events } = await response.json();
         
-        // 日付別のイベント数をカウント
-        const eventCounts: { [key: string]: number } = {};
-        events.forEach((event: any) => {
-          const eventDate = new Date(event.start_time).toISOString().split('T')[0];
-          eventCounts[eventDate] = (eventCounts[eventDate] || 0) + 1;
+        // 日付別のイベント数とカレンダーの色を集計
+        const dayEvents: { [key: string]: DayEvents } = {};
+        events.forEach((event: CalendarProviderEvent) => {
+          const eventDate = toDateKey(new Date(event.start.dateTime));
+          const day = dayEvents[eventDate] || (dayEvents[eventDate] = { count: 0, colors: [] });
+          day.count++;
+          if (event.color && !day.colors.includes(event.color)) {
+            day.colors.push(event.color);
+          }
         });
         
-        setEventsData(eventCounts);
+        setEventsData(dayEvents);
       }
     } catch (error) {
       console.error('Failed to fetch calendar events:', error);
@@ -62,12 +88,13 @@ export function CalendarWidget({ className = '', sticky = false }: CalendarWidge
     // 現在月の日付
     for (let day = 1; day <= daysInMonth; day++) {
       const date = new Date(year, month, day);
-      const dateStr = date.toISOString().split('T')[0];
+      const dayEvents = eventsData[toDateKey(date)];
       days.push({
         date,
         isCurrentMonth: true,
-        hasEvents: eventsData[dateStr] > 0,
-        eventCount: eventsData[dateStr] || 0
+        hasEvents: !!dayEvents && dayEvents.count > 0,
+        eventCount: dayEvents?.count || 0,
+        eventColors: dayEvents?.colors || []
       });
     }
 
@@ -197,12 +224,18 @@ export function CalendarWidget({ className = '', sticky = false }: CalendarWidge
                   {day.date.getDate()}
                 </span>
                 
-                {/* イベントインジケーター - 小さな点表示 */}
+                {/* イベントインジケーター - カレンダーの色の小さな点表示 */}
                 {day.hasEvents && day.isCurrentMonth && (
-                  <div className="absolute bottom-0.5 left-1/2 transform -translate-x-1/2">
-                    <div className={`w-1 h-1 sm:w-1.5 sm:h-1.5 rounded-full ${
-                      dayIsToday ? 'bg-white' : 'bg-blue-500'
-                    }`}></div>
+                  <div className="absolute bottom-0.5 left-1/2 transform -translate-x-1/2 flex space-x-0.5">
+                    {(dayIsToday || !day.eventColors?.length ? [undefined] : day.eventColors.slice(0, MAX_EVENT_DOTS)).map((color, dotIndex) => (
+                      <div
+                        key={color || dotIndex}
+                        className={`w-1 h-1 sm:w-1.5 sm:h-1.5 rounded-full ${
+                          dayIsToday ? 'bg-white' : color ? '' : 'bg-blue-500'
+                        }`}
+                        style={!dayIsToday && color ? { backgroundColor: color } : undefined}
+                      ></div>
+                    ))}
                   </div>
                 )}
                 
@@ -255,7 +288,7 @@ export function CalendarWidget({ className = '', sticky = false }: CalendarWidge
             <div className="flex items-center justify-between text-xs text-gray-500">
               <span>今月のイベント</span>
               <span className="font-medium">
-                {Object.values(eventsData).reduce((sum, count) => sum + count, 0)}件
+                {Object.values(eventsData).reduce((sum, day) => sum + day.count, 0)}件
               </span>
             </div>
           </div>
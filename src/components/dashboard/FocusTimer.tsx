@@ -0,0 +1,285 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button, Card, CardContent, CardHeader, CardTitle, Toggle } from '@/components/ui';
+import {
+  DEFAULT_POMODORO_SETTINGS,
+  getTimerStatus,
+  PomodoroSettings,
+  TimerState,
+  TimeTrackingData,
+} from '@/lib/tasks/timeTracking';
+
+interface TimerTask {
+  id: string;
+  title: string;
+  status: string;
+  started_at?: string | null;
+  estimated_minutes?: number | null;
+  time_tracking_data?: TimeTrackingData | null;
+}
+
+interface FocusTimerProps {
+  className?: string;
+}
+
+const POMODORO_STORAGE_KEY = 'pomodoroSettings';
+
+export function FocusTimer({ className = '' }: FocusTimerProps) {
+  const [tasks, setTasks] = useState<TimerTask[]>([]);
+  const [selectedTaskId, setSelectedTaskId] = useState<string>('');
+  const [pomodoroEnabled, setPomodoroEnabled] = useState(false);
+  const [pomodoroSettings, setPomodoroSettings] = useState<PomodoroSettings>(DEFAULT_POMODORO_SETTINGS);
+  const [now, setNow] = useState(() => new Date());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const autoPausedSessionRef = useRef<string | null>(null);
+
+  const fetchTasks = useCallback(async () => {
+    try {
+      const response = await fetch('/api/tasks?status=pending,in_progress');
+      if (response.ok) {
+        const { tasks: fetchedTasks } = await response.json();
+        setTasks(fetchedTasks || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch tasks for timer:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTasks();
+
+    const saved = localStorage.getItem(POMODORO_STORAGE_KEY);
+    if (saved) {
+      try {
+        const { enabled, ...settings } = JSON.parse(saved);
+        setPomodoroEnabled(!!enabled);
+        setPomodoroSettings({ ...DEFAULT_POMODORO_SETTINGS, ...settings });
+      } catch {
+        localStorage.removeItem(POMODORO_STORAGE_KEY);
+      }
+    }
+  }, [fetchTasks]);
+
+  // 1秒ごとに表示を更新
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // 計測中・一時停止中・休憩中のタスク（なければ選択中のタスク）
+  const activeTask = tasks.find(task => getTimerStatus(task).state !== TimerState.IDLE) || null;
+  const currentTask = activeTask || tasks.find(task => task.id === selectedTaskId) || null;
+  const timer = currentTask ? getTimerStatus(currentTask, now) : null;
+  const phaseRemaining = timer?.pomodoro?.phaseEndsAt
+    ? Math.round((new Date(timer.pomodoro.phaseEndsAt).getTime() - now.getTime()) / 1000)
+    : null;
+
+  const updateTimer = useCallback(async (taskId: string, action: 'start' | 'pause' | 'resume' | 'stop') => {
+    try {
+      setIsUpdating(true);
+      const response = await fetch(`/api/tasks/${taskId}/timer`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          ...(action === 'start' && pomodoroEnabled && { pomodoro: pomodoroSettings }),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '作業時間の記録に失敗しました');
+      }
+
+      setError(null);
+      await fetchTasks();
+    } catch (error) {
+      console.error('Failed to update timer:', error);
+      setError(error instanceof Error ? error.message : '作業時間の記録に失敗しました');
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [fetchTasks, pomodoroEnabled, pomodoroSettings]);
+
+  const completeTask = async (taskId: string) => {
+    try {
+      setIsUpdating(true);
+      const response = await fetch(`/api/tasks/${taskId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'completed' }),
+      });
+
+      if (!response.ok) {
+        throw new Error('タスクの完了に失敗しました');
+      }
+
+      setSelectedTaskId('');
+      setError(null);
+      await fetchTasks();
+    } catch (error) {
+      console.error('Failed to complete task:', error);
+      setError(error instanceof Error ? error.message : 'タスクの完了に失敗しました');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  // ポモドーロの作業時間が終わったら一時停止して休憩に入る
+  useEffect(() => {
+    if (!currentTask || !timer || timer.state !== TimerState.RUNNING || !timer.pomodoro) return;
+    if (phaseRemaining === null || phaseRemaining > 0) return;
+    if (autoPausedSessionRef.current === timer.sessionStartedAt) return;
+
+    autoPausedSessionRef.current = timer.sessionStartedAt;
+    updateTimer(currentTask.id, 'pause');
+  }, [currentTask, timer, phaseRemaining, updateTimer]);
+
+  const savePomodoroSettings = (enabled: boolean, settings: PomodoroSettings) => {
+    setPomodoroEnabled(enabled);
+    setPomodoroSettings(settings);
+    localStorage.setItem(POMODORO_STORAGE_KEY, JSON.stringify({ enabled, ...settings }));
+  };
+
+  const formatDuration = (totalSeconds: number): string => {
+    const seconds = Math.max(0, totalSeconds);
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const remainingSeconds = seconds % 60;
+    const mmss = `${String(minutes).padStart(2, '0')}:${String(remainingSeconds).padStart(2, '0')}`;
+    return hours > 0 ? `${hours}:${mmss}` : mmss;
+  };
+
+  const stateLabel = {
+    [TimerState.IDLE]: '未計測',
+    [TimerState.RUNNING]: '計測中',
+    [TimerState.PAUSED]: '一時停止中',
+    [TimerState.ON_BREAK]: '休憩中',
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>作業タイマー</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+        ) : (
+          <div className="space-y-4">
+            {!activeTask && (
+              <select
+                value={selectedTaskId}
+                onChange={(e) => setSelectedTaskId(e.target.value)}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+              >
+                <option value="">タスクを選択</option>
+                {tasks.map(task => (
+                  <option key={task.id} value={task.id}>{task.title}</option>
+                ))}
+              </select>
+            )}
+
+            {currentTask && timer && (
+              <div className="text-center">
+                <p className="text-sm font-medium text-gray-900 truncate">{currentTask.title}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {stateLabel[timer.state]}
+                  {timer.pomodoro && ` ・ ポモドーロ ${timer.pomodoro.completedPomodoros}回`}
+                </p>
+
+                {/* ポモドーロは残り時間、通常は作業時間の合計 */}
+                <p className={`text-4xl font-mono font-semibold mt-2 ${
+                  timer.state === TimerState.ON_BREAK ? 'text-green-600' : 'text-gray-900'
+                }`}>
+                  {phaseRemaining !== null ? formatDuration(phaseRemaining) : formatDuration(timer.trackedSeconds)}
+                </p>
+
+                <p className="text-xs text-gray-500 mt-1">
+                  作業時間 {formatDuration(timer.trackedSeconds)}
+                  {currentTask.estimated_minutes ? ` / 見積もり ${currentTask.estimated_minutes}分` : ''}
+                </p>
+
+                {timer.state === TimerState.ON_BREAK && phaseRemaining !== null && phaseRemaining <= 0 && (
+                  <p className="text-sm text-green-700 mt-2">休憩が終わりました。再開しましょう</p>
+                )}
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {currentTask && timer && (
+              <div className="flex flex-wrap justify-center gap-2">
+                {timer.state === TimerState.IDLE && (
+                  <Button size="sm" loading={isUpdating} onClick={() => updateTimer(currentTask.id, 'start')}>
+                    開始
+                  </Button>
+                )}
+                {timer.state === TimerState.RUNNING && (
+                  <Button size="sm" variant="outline" loading={isUpdating} onClick={() => updateTimer(currentTask.id, 'pause')}>
+                    一時停止
+                  </Button>
+                )}
+                {(timer.state === TimerState.PAUSED || timer.state === TimerState.ON_BREAK) && (
+                  <Button size="sm" loading={isUpdating} onClick={() => updateTimer(currentTask.id, 'resume')}>
+                    再開
+                  </Button>
+                )}
+                {timer.state !== TimerState.IDLE && (
+                  <>
+                    <Button size="sm" variant="ghost" disabled={isUpdating} onClick={() => updateTimer(currentTask.id, 'stop')}>
+                      終了
+                    </Button>
+                    <Button size="sm" variant="secondary" disabled={isUpdating} onClick={() => completeTask(currentTask.id)}>
+                      完了
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+
+            {!activeTask && (
+              <div className="border-t border-gray-100 pt-3 space-y-2">
+                <Toggle
+                  size="sm"
+                  checked={pomodoroEnabled}
+                  onChange={(enabled) => savePomodoroSettings(enabled, pomodoroSettings)}
+                  label="ポモドーロ"
+                />
+                {pomodoroEnabled && (
+                  <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
+                    {([
+                      ['workMinutes', '作業（分）'],
+                      ['shortBreakMinutes', '休憩（分）'],
+                      ['longBreakMinutes', '長い休憩（分）'],
+                      ['longBreakInterval', '長い休憩の間隔（回）'],
+                    ] as [keyof PomodoroSettings, string][]).map(([key, label]) => (
+                      <label key={key} className="flex flex-col">
+                        {label}
+                        <input
+                          type="number"
+                          min={1}
+                          value={pomodoroSettings[key]}
+                          onChange={(e) => savePomodoroSettings(pomodoroEnabled, {
+                            ...pomodoroSettings,
+                            [key]: Math.max(1, parseInt(e.target.value) || 1),
+                          })}
+                          className="mt-1 border border-gray-300 rounded px-2 py-1"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
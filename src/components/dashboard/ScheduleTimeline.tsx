@@ -9,6 +9,7 @@ interface TimelineEvent {
   endTime?: string;
   location?: string;
   type: 'meeting' | 'work' | 'other';
+  color?: string;   // カレンダーの色
 }
 
 interface ScheduleTimelineProps {
@@ -26,10 +27,16 @@ export function ScheduleTimeline({ className = '' }: ScheduleTimelineProps) {
   const fetchTodaySchedule = async () => {
     try {
       setIsLoading(true);
-      const today = new Date().toISOString().split('T')[0];
+      const todayStart = new Date();
+      todayStart.setHours(0, 0, 0, 0);
+      const todayEnd = new Date(todayStart.getTime() + 24 * 60 * 60 * 1000);
+      const params = new URLSearchParams({
+        start: todayStart.toISOString(),
+        end: todayEnd.toISOString(),
+      });
       
-      // Google Calendarのイベントを取得
-      const response = await fetch(`/api/calendar/events?date=${today}`);
+      // 連携済みカレンダーのイベントを取得
+      const response = await fetch(`/api/calendar/events?${params}`);
       if (response.ok) {
         const { events: calendarEvents } = await response.json();
         
@@ -40,7 +47,8 @@ export function ScheduleTimeline({ className = '' }: ScheduleTimelineProps) {
           startTime: event.start_time || event.start?.dateTime || event.start?.date,
           endTime: event.end_time || event.end?.dateTime || event.end?.date,
           location: event.location,
-          type: determineEventType(event.title || event.summary || '')
+          type: determineEventType(event.title || event.summary || ''),
+          color: event.color
         }));
         
         // 時間順にソート
@@ -262,15 +270,21 @@ export function ScheduleTimeline({ className = '' }: ScheduleTimelineProps) {
 
                     {/* タイムライン点 - より大きく、色分け強化 */}
                     <div className="flex-shrink-0 mt-2 relative z-10">
-                      <div className={`w-4 h-4 rounded-full border-2 border-white shadow-sm ${colors.dot} ${
-                        isActive ? 'ring-2 ring-blue-300 ring-opacity-50 scale-110' : ''
-                      } transition-all duration-200`}></div>
+                      <div
+                        className={`w-4 h-4 rounded-full border-2 border-white shadow-sm ${event.color ? '' : colors.dot} ${
+                          isActive ? 'ring-2 ring-blue-300 ring-opacity-50 scale-110' : ''
+                        } transition-all duration-200`}
+                        style={event.color ? { backgroundColor: event.color } : undefined}
+                      ></div>
                     </div>
 
                     {/* イベント内容 - 時間ブロック風デザイン */}
-                    <div className={`flex-1 p-4 rounded-lg border-l-4 shadow-sm ${colors.bg} ${colors.border} ${
-                      isActive ? 'ring-1 ring-blue-300 shadow-md transform scale-[1.02]' : 'hover:shadow-md'
-                    } transition-all duration-200`}>
+                    <div
+                      className={`flex-1 p-4 rounded-lg border-l-4 shadow-sm ${colors.bg} ${colors.border} ${
+                        isActive ? 'ring-1 ring-blue-300 shadow-md transform scale-[1.02]' : 'hover:shadow-md'
+                      } transition-all duration-200`}
+                      style={event.color ? { borderLeftColor: event.color } : undefined}
+                    >
                       <div className="flex items-start justify-between">
                         <div className="flex-1">
                           <div className={`font-semibold text-base ${colors.text} ${isActive ? 'text-blue-900' : ''}`}>
@@ -0,0 +1,154 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { QuickAddField, QuickAddResult } from '@/lib/tasks/quickAdd';
+
+interface QuickAddInputProps {
+  onCreated: () => Promise<void> | void;
+}
+
+const FIELD_LABELS: Record<QuickAddField, string> = {
+  priority: '優先度',
+  category: 'カテゴリ',
+  estimatedMinutes: '所要時間',
+  dueDate: '期限',
+  scheduledDate: '開始',
+  event: '予定',
+};
+
+export function QuickAddInput({ onCreated }: QuickAddInputProps) {
+  const [text, setText] = useState('');
+  const [preview, setPreview] = useState<QuickAddResult | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 入力が落ち着いたらルールだけで解析してプレビュー（AIは追加時のみ）
+  useEffect(() => {
+    if (!text.trim()) {
+      setPreview(null);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/tasks/quick-add', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ text, ai: false }),
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setPreview(data.parsed);
+        }
+      } catch (error) {
+        console.error('Failed to preview quick add:', error);
+      }
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [text]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || isSubmitting) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const parseResponse = await fetch('/api/tasks/quick-add', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text }),
+      });
+      const parsed = await parseResponse.json();
+      if (!parseResponse.ok) {
+        throw new Error(parsed.error || '入力を解析できませんでした');
+      }
+      if (!parsed.request.title) {
+        throw new Error('タイトルを入力してください');
+      }
+
+      const isEvent = parsed.parsed.kind === 'event';
+      const response = await fetch(isEvent ? '/api/calendar/events' : '/api/tasks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(parsed.request),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || (isEvent ? '予定の作成に失敗しました' : 'タスクの作成に失敗しました'));
+      }
+
+      setText('');
+      setPreview(null);
+      await onCreated();
+    } catch (error) {
+      console.error('Failed to quick add:', error);
+      setError(error instanceof Error ? error.message : 'クイック追加に失敗しました');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatDate = (value: string) => new Date(value).toLocaleString('ja-JP', {
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  const chips: string[] = [];
+  if (preview) {
+    if (preview.kind === 'event' && preview.startTime && preview.endTime) {
+      chips.push(`予定: ${formatDate(preview.startTime)} - ${new Date(preview.endTime).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}`);
+    }
+    if (preview.dueDate) chips.push(`${FIELD_LABELS.dueDate}: ${formatDate(preview.dueDate)}`);
+    if (preview.scheduledDate) chips.push(`${FIELD_LABELS.scheduledDate}: ${formatDate(preview.scheduledDate)}`);
+    if (preview.estimatedMinutes) chips.push(`${FIELD_LABELS.estimatedMinutes}: ${preview.estimatedMinutes}分`);
+    if (preview.category) chips.push(`#${preview.category}`);
+    if (preview.priority) chips.push(`${FIELD_LABELS.priority}: ${{ high: '高', medium: '中', low: '低' }[preview.priority]}`);
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-4">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="例: 明日15時までに見積書を送る 30分 #営業 !high"
+        />
+        <button
+          type="submit"
+          disabled={!text.trim() || isSubmitting}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-medium rounded-md transition-colors"
+        >
+          {isSubmitting ? '追加中...' : '追加'}
+        </button>
+      </div>
+
+      {preview && (
+        <div className="mt-2 space-y-1">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-gray-700">
+              {preview.kind === 'event' ? '予定' : 'タスク'}: {preview.title || '（タイトルなし）'}
+            </span>
+            {chips.map(chip => (
+              <span key={chip} className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700">{chip}</span>
+            ))}
+          </div>
+          {preview.ambiguities.length > 0 && (
+            <p className="text-xs text-yellow-700">
+              {preview.ambiguities.join(' / ')}（追加時にAIで補完します）
+            </p>
+          )}
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </form>
+  );
+}
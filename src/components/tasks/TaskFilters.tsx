@@ -2,6 +2,13 @@
 
 import { FilterButton, FilterButtonGroup } from '@/components/ui';
 
+export interface SavedTaskView {
+  id: string;
+  name: string;
+  query: string;
+  position: number;
+}
+
 interface TaskFiltersProps {
   activeFilter: 'all' | 'pending' | 'completed' | 'high' | 'today';
   onFilterChange: (filter: 'all' | 'pending' | 'completed' | 'high' | 'today') => void;
@@ -12,6 +19,10 @@ interface TaskFiltersProps {
     high: number;
     today: number;
   };
+  savedViews?: SavedTaskView[];
+  activeViewId?: string | null;
+  onViewSelect?: (view: SavedTaskView) => void;
+  onViewDelete?: (view: SavedTaskView) => void;
   className?: string;
 }
 
@@ -19,6 +30,10 @@ export function TaskFilters({
   activeFilter, 
   onFilterChange, 
   taskCounts, 
+  savedViews = [],
+  activeViewId = null,
+  onViewSelect,
+  onViewDelete,
   className = '' 
 }: TaskFiltersProps) {
   const filters = [
@@ -81,12 +96,34 @@ export function TaskFilters({
           key={filter.key}
           label={filter.label}
           count={filter.count}
-          active={activeFilter === filter.key}
+          active={!activeViewId && activeFilter === filter.key}
           onClick={() => onFilterChange(filter.key)}
           icon={filter.icon}
           variant="outline"
         />
       ))}
+
+      {/* 保存したビュー（検索式に名前を付けたもの） */}
+      {savedViews.map((view) => (
+        <span key={view.id} className="inline-flex items-center" title={view.query}>
+          <FilterButton
+            label={view.name}
+            active={activeViewId === view.id}
+            onClick={() => onViewSelect?.(view)}
+            variant="outline"
+          />
+          {onViewDelete && (
+            <button
+              type="button"
+              onClick={() => onViewDelete(view)}
+              className="ml-1 px-1 text-gray-400 hover:text-red-600"
+              aria-label={`ビュー「${view.name}」を削除`}
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
     </FilterButtonGroup>
   );
 }
\ No newline at end of file
@@ -1,6 +1,9 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { RecurrenceFrequency, RecurrenceRule } from '@/types/shared';
+import { describeRecurrence, validateRecurrenceRule } from '@/lib/tasks/recurrence';
+import type { EstimatePrediction } from '@/lib/tasks/estimation';
 
 interface Task {
   id: string;
@@ -10,11 +13,35 @@ interface Task {
   status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
   estimated_minutes?: number;
   due_date?: string;
+  scheduled_date?: string;
   category?: string;
+  tags?: string[];
+  recurrence?: RecurrenceRule;
   created_at: string;
   updated_at: string;
 }
 
+type RepeatOption = 'none' | RecurrenceFrequency;
+type RepeatEnd = 'never' | 'until' | 'count';
+
+const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+const CONFIDENCE_LABELS: Record<EstimatePrediction['confidenceLevel'], string> = {
+  none: 'なし',
+  low: '低',
+  medium: '中',
+  high: '高',
+};
+
+const initialRecurrence = {
+  repeat: 'none' as RepeatOption,
+  interval: '1',
+  weekdays: [] as number[],
+  end: 'never' as RepeatEnd,
+  until: '',
+  count: '',
+};
+
 interface TaskFormProps {
   task?: Task | null;
   isOpen: boolean;
@@ -30,9 +57,13 @@ export function TaskForm({ task, isOpen, onClose, onSave }: TaskFormProps) {
     estimated_minutes: '',
     due_date: '',
     category: '',
+    tags: '',
   });
+  const [recurrence, setRecurrence] = useState(initialRecurrence);
+  const [scheduledDate, setScheduledDate] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [estimate, setEstimate] = useState<EstimatePrediction | null>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -45,6 +76,7 @@ export function TaskForm({ task, isOpen, onClose, onSave }: TaskFormProps) {
           estimated_minutes: task.estimated_minutes?.toString() || '',
           due_date: task.due_date ? task.due_date.split('T')[0] : '',
           category: task.category || '',
+          tags: (task.tags || []).join(', '),
         });
       } else {
         // 新規作成モード
@@ -55,12 +87,78 @@ export function TaskForm({ task, isOpen, onClose, onSave }: TaskFormProps) {
           estimated_minutes: '',
           due_date: '',
           category: '',
+          tags: '',
         });
       }
+      // 繰り返し設定は新規作成時のみ（既存シリーズの変更は /api/tasks/[id]/recurrence）
+      setRecurrence(initialRecurrence);
+      setScheduledDate(task?.scheduled_date ? task.scheduled_date.split('T')[0] : '');
       setErrors({});
     }
   }, [task, isOpen]);
 
+  // 入力が落ち着いたら、過去の実績から見積時間の補正案を取得
+  useEffect(() => {
+    if (!isOpen || !formData.title.trim()) {
+      setEstimate(null);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ title: formData.title.trim(), priority: formData.priority });
+        if (formData.category) params.set('category', formData.category);
+        if (Number(formData.estimated_minutes) > 0) params.set('estimatedMinutes', formData.estimated_minutes);
+
+        const response = await fetch(`/api/tasks/estimate?${params.toString()}`);
+        if (response.ok) {
+          const data = await response.json();
+          setEstimate(data.estimate);
+        }
+      } catch (error) {
+        console.error('Failed to fetch estimate:', error);
+      }
+    }, 500);
+
+    return () => clearTimeout(timeout);
+  }, [isOpen, formData.title, formData.category, formData.priority, formData.estimated_minutes]);
+
+  // 実績が少なく信頼度が低い場合や、入力済みの見積もりと同じ場合は提案しない
+  const showEstimate = estimate
+    && estimate.suggestedMinutes !== null
+    && estimate.confidenceLevel !== 'none'
+    && estimate.confidenceLevel !== 'low'
+    && estimate.suggestedMinutes !== Number(formData.estimated_minutes);
+
+  // 入力中の繰り返し設定をルールに変換
+  const buildRecurrenceRule = (): RecurrenceRule | undefined => {
+    if (recurrence.repeat === 'none') return undefined;
+
+    const rule: RecurrenceRule = {
+      frequency: recurrence.repeat,
+      interval: Number(recurrence.interval),
+    };
+    if (recurrence.repeat === 'weekly' && recurrence.weekdays.length > 0) {
+      rule.byWeekday = [...recurrence.weekdays].sort((a, b) => a - b);
+    }
+    if (recurrence.end === 'until' && recurrence.until) {
+      rule.until = recurrence.until;
+    }
+    if (recurrence.end === 'count' && recurrence.count) {
+      rule.count = Number(recurrence.count);
+    }
+    return rule;
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    setRecurrence(prev => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(weekday)
+        ? prev.weekdays.filter(day => day !== weekday)
+        : [...prev.weekdays, weekday],
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -72,6 +170,13 @@ export function TaskForm({ task, isOpen, onClose, onSave }: TaskFormProps) {
     if (formData.estimated_minutes && (isNaN(Number(formData.estimated_minutes)) || Number(formData.estimated_minutes) <= 0)) {
       newErrors.estimated_minutes = '正の数値を入力してください';
     }
+    const recurrenceRule = buildRecurrenceRule();
+    if (recurrenceRule) {
+      const recurrenceErrors = validateRecurrenceRule(recurrenceRule);
+      if (recurrenceErrors.length > 0) {
+        newErrors.recurrence = recurrenceErrors[0];
+      }
+    }
 
     if (Object.keys(newErrors).length > 0) {
       setErrors(newErrors);
@@ -86,7 +191,10 @@ export function TaskForm({ task, isOpen, onClose, onSave }: TaskFormProps) {
         priority: formData.priority,
         estimated_minutes: formData.estimated_minutes ? Number(formData.estimated_minutes) : undefined,
         due_date: formData.due_date || undefined,
+        scheduled_date: scheduledDate || undefined,
         category: formData.category.trim() || undefined,
+        tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+        recurrence: recurrenceRule,
       };
 
       await onSave(taskData);
@@ -225,6 +333,26 @@ export function TaskForm({ task, isOpen, onClose, onSave }: TaskFormProps) {
             </div>
           </div>
 
+          {/* 実績からの見積もり補正 */}
+          {showEstimate && (
+            <div className="flex items-start justify-between gap-3 rounded-md bg-blue-50 px-3 py-2 text-sm text-blue-800">
+              <div>
+                <p>
+                  過去の実績から {estimate.suggestedMinutes}分 を提案
+                  （信頼度: {CONFIDENCE_LABELS[estimate.confidenceLevel]}）
+                </p>
+                <p className="mt-0.5 text-xs text-blue-600">{estimate.basis.join(' / ')}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleChange('estimated_minutes', String(estimate.suggestedMinutes))}
+                className="shrink-0 rounded px-2 py-1 text-xs font-medium text-blue-700 hover:bg-blue-100"
+              >
+                適用
+              </button>
+            </div>
+          )}
+
           {/* カテゴリ */}
           <div>
             <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-1">
@@ -245,6 +373,139 @@ export function TaskForm({ task, isOpen, onClose, onSave }: TaskFormProps) {
             </select>
           </div>
 
+          {/* タグ */}
+          <div>
+            <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-1">
+              タグ
+            </label>
+            <input
+              type="text"
+              id="tags"
+              value={formData.tags}
+              onChange={(e) => handleChange('tags', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="カンマ区切り（例: later, 顧客A）"
+            />
+          </div>
+
+          {/* 繰り返し（新規作成時のみ） */}
+          {!task && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="repeat" className="block text-sm font-medium text-gray-700 mb-1">
+                    繰り返し
+                  </label>
+                  <select
+                    id="repeat"
+                    value={recurrence.repeat}
+                    onChange={(e) => setRecurrence(prev => ({ ...prev, repeat: e.target.value as RepeatOption }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="none">なし</option>
+                    <option value="daily">日ごと</option>
+                    <option value="weekly">週ごと</option>
+                    <option value="monthly">月ごと</option>
+                    <option value="yearly">年ごと</option>
+                  </select>
+                </div>
+
+                {recurrence.repeat !== 'none' && (
+                  <div>
+                    <label htmlFor="interval" className="block text-sm font-medium text-gray-700 mb-1">
+                      間隔
+                    </label>
+                    <input
+                      type="number"
+                      id="interval"
+                      min="1"
+                      max="365"
+                      value={recurrence.interval}
+                      onChange={(e) => setRecurrence(prev => ({ ...prev, interval: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                )}
+              </div>
+
+              {recurrence.repeat !== 'none' && (
+                <>
+                  {/* 開始日 */}
+                  <div>
+                    <label htmlFor="scheduled_date" className="block text-sm font-medium text-gray-700 mb-1">
+                      開始日
+                    </label>
+                    <input
+                      type="date"
+                      id="scheduled_date"
+                      value={scheduledDate}
+                      onChange={(e) => setScheduledDate(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+
+                  {/* 曜日 */}
+                  {recurrence.repeat === 'weekly' && (
+                    <div className="flex space-x-1">
+                      {WEEKDAYS.map((label, weekday) => (
+                        <button
+                          key={label}
+                          type="button"
+                          onClick={() => toggleWeekday(weekday)}
+                          className={`w-8 h-8 text-sm rounded-full border transition-colors ${
+                            recurrence.weekdays.includes(weekday)
+                              ? 'bg-blue-600 border-blue-600 text-white'
+                              : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* 終了条件 */}
+                  <div className="grid grid-cols-2 gap-4">
+                    <select
+                      value={recurrence.end}
+                      onChange={(e) => setRecurrence(prev => ({ ...prev, end: e.target.value as RepeatEnd }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="never">終了なし</option>
+                      <option value="until">終了日を指定</option>
+                      <option value="count">回数を指定</option>
+                    </select>
+                    {recurrence.end === 'until' && (
+                      <input
+                        type="date"
+                        value={recurrence.until}
+                        onChange={(e) => setRecurrence(prev => ({ ...prev, until: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    )}
+                    {recurrence.end === 'count' && (
+                      <input
+                        type="number"
+                        min="1"
+                        value={recurrence.count}
+                        onChange={(e) => setRecurrence(prev => ({ ...prev, count: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="10"
+                      />
+                    )}
+                  </div>
+
+                  {buildRecurrenceRule() && !errors.recurrence && (
+                    <p className="text-sm text-gray-500">
+                      🔁 {describeRecurrence(buildRecurrenceRule()!)}
+                    </p>
+                  )}
+                  {errors.recurrence && <p className="text-sm text-red-600">{errors.recurrence}</p>}
+                </>
+              )}
+            </div>
+          )}
+
           {/* エラーメッセージ */}
           {errors.submit && (
             <div className="p-3 bg-red-50 border border-red-200 rounded-md">
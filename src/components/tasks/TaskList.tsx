@@ -1,6 +1,8 @@
 'use client';
 
 import { useState } from 'react';
+import { BlockingTask, RecurrenceRule, SubtaskSummary } from '@/types/shared';
+import { describeRecurrence } from '@/lib/tasks/recurrence';
 
 interface Task {
   id: string;
@@ -14,6 +16,10 @@ interface Task {
   created_at: string;
   updated_at: string;
   postponed_count?: number;
+  recurrence_series?: { id: string; recurrence_rule: RecurrenceRule } | null;
+  parent_task_id?: string | null;
+  blocked_by?: BlockingTask[];
+  subtask_summary?: SubtaskSummary | null;
 }
 
 interface TaskListProps {
@@ -118,6 +124,8 @@ export function TaskList({
         const isLoading = loadingTasks.has(task.id);
         const dueInfo = formatDueDate(task.due_date);
         const isPostponed = isPostponedTask(task);
+        const isBlocked = !isCompleted && (task.blocked_by?.length ?? 0) > 0;
+        const subtasks = task.subtask_summary;
 
         return (
           <div
@@ -165,6 +173,25 @@ export function TaskList({
                   </p>
                 )}
 
+                {/* サブタスクの進捗 */}
+                {subtasks && (
+                  <div className="mt-2">
+                    <div className="flex items-center justify-between text-xs text-gray-500">
+                      <span>サブタスク {subtasks.completed}/{subtasks.total}</span>
+                      <span>
+                        {subtasks.actual_minutes > 0 && `${subtasks.actual_minutes}分 / `}
+                        見積 {subtasks.estimated_minutes}分
+                      </span>
+                    </div>
+                    <div className="mt-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-green-500 transition-all"
+                        style={{ width: `${Math.round(subtasks.progress * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+
                 {/* メタ情報 */}
                 <div className="mt-2 flex flex-wrap items-center gap-4 text-xs text-gray-500">
                   {task.estimated_minutes && (
@@ -194,6 +221,21 @@ export function TaskList({
                     </span>
                   )}
 
+                  {task.recurrence_series?.recurrence_rule && (
+                    <span className="flex items-center text-blue-600">
+                      🔁 {describeRecurrence(task.recurrence_series.recurrence_rule)}
+                    </span>
+                  )}
+
+                  {isBlocked && (
+                    <span
+                      className="flex items-center text-amber-700 font-medium"
+                      title={task.blocked_by!.map(blocking => blocking.title).join('\n')}
+                    >
+                      🔒 ブロック中: {task.blocked_by!.map(blocking => blocking.title).join('、')}
+                    </span>
+                  )}
+
                   {isPostponed && (
                     <span className="flex items-center text-red-600 font-medium">
                       <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -2,10 +2,13 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/lib/auth/context';
-import { TaskFilters } from './TaskFilters';
+import { RecurrenceRule } from '@/types/shared';
+import { SavedTaskView, TaskFilters } from './TaskFilters';
 import { TaskList } from './TaskList';
 import { TaskForm } from './TaskForm';
 import { TaskStatistics } from './TaskStatistics';
+import { QuickAddInput } from './QuickAddInput';
+import { TaskQueryInput } from './TaskQueryInput';
 
 interface Task {
   id: string;
@@ -15,7 +18,11 @@ interface Task {
   status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
   estimated_minutes?: number;
   due_date?: string;
+  scheduled_date?: string;
   category?: string;
+  tags?: string[];
+  recurrence?: RecurrenceRule;
+  recurrence_series?: { id: string; recurrence_rule: RecurrenceRule } | null;
   created_at: string;
   updated_at: string;
   postponed_count?: number;
@@ -32,6 +39,13 @@ export function TaskManager({ className = '' }: TaskManagerProps) {
   const [activeFilter, setActiveFilter] = useState<'all' | 'pending' | 'completed' | 'high' | 'today'>('all');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+
+  // 検索式と保存したビュー（選択中はサーバーで絞り込んだ結果を表示）
+  const [savedViews, setSavedViews] = useState<SavedTaskView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [activeQuery, setActiveQuery] = useState('');
+  const [queryTasks, setQueryTasks] = useState<Task[] | null>(null);
+  const [queryError, setQueryError] = useState<string | null>(null);
   
   // モーダル状態
   const [isFormOpen, setIsFormOpen] = useState(false);
@@ -60,13 +74,72 @@ export function TaskManager({ className = '' }: TaskManagerProps) {
     }
   }, [user?.id]);
 
+  // 保存したビュー取得
+  const fetchViews = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      const response = await fetch('/api/tasks/views');
+      if (response.ok) {
+        const data = await response.json();
+        setSavedViews(data.views || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch task views:', error);
+    }
+  }, [user?.id]);
+
+  // 検索式・ビューに一致するタスク取得（並び順はサーバーの sort に従う）
+  const fetchQueryTasks = useCallback(async () => {
+    if (!user?.id) return;
+
+    if (!activeViewId && !activeQuery) {
+      setQueryTasks(null);
+      setQueryError(null);
+      return;
+    }
+
+    try {
+      const params = new URLSearchParams();
+      if (activeViewId) params.set('view', activeViewId);
+      if (activeQuery) params.set('q', activeQuery);
+
+      const response = await fetch(`/api/tasks?${params.toString()}`);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'タスクの検索に失敗しました');
+      }
+
+      setQueryTasks(data.tasks || []);
+      setQueryError(null);
+    } catch (error) {
+      console.error('Failed to query tasks:', error);
+      setQueryTasks([]);
+      setQueryError(error instanceof Error ? error.message : 'タスクの検索に失敗しました');
+    }
+  }, [user?.id, activeViewId, activeQuery]);
+
+  const refreshTasks = useCallback(async () => {
+    await Promise.all([fetchTasks(), fetchQueryTasks()]);
+  }, [fetchTasks, fetchQueryTasks]);
+
   // 初回読み込み
   useEffect(() => {
     fetchTasks();
-  }, [fetchTasks]);
+    fetchViews();
+  }, [fetchTasks, fetchViews]);
+
+  useEffect(() => {
+    fetchQueryTasks();
+  }, [fetchQueryTasks]);
 
   // フィルタリング
   useEffect(() => {
+    if (queryTasks) {
+      setFilteredTasks(queryTasks);
+      return;
+    }
+
     let filtered = [...tasks];
 
     switch (activeFilter) {
@@ -116,7 +189,7 @@ export function TaskManager({ className = '' }: TaskManagerProps) {
     });
 
     setFilteredTasks(filtered);
-  }, [tasks, activeFilter]);
+  }, [tasks, activeFilter, queryTasks]);
 
   // タスク数をカウント
   const taskCounts = {
@@ -140,17 +213,28 @@ export function TaskManager({ className = '' }: TaskManagerProps) {
       const url = editingTask ? `/api/tasks/${editingTask.id}` : '/api/tasks';
       const method = editingTask ? 'PUT' : 'POST';
 
+      // APIのリクエスト形式（camelCase）に変換
       const response = await fetch(url, {
         method,
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(taskData),
+        body: JSON.stringify({
+          title: taskData.title,
+          description: taskData.description,
+          priority: taskData.priority,
+          estimatedMinutes: taskData.estimated_minutes,
+          dueDate: taskData.due_date,
+          scheduledDate: taskData.scheduled_date,
+          category: taskData.category,
+          tags: taskData.tags,
+          recurrence: taskData.recurrence,
+        }),
       });
 
       if (!response.ok) {
         throw new Error('タスクの保存に失敗しました');
       }
 
-      await fetchTasks(); // タスクリストを再取得
+      await refreshTasks(); // タスクリストを再取得
       setEditingTask(null);
     } catch (error) {
       console.error('Failed to save task:', error);
@@ -173,7 +257,7 @@ export function TaskManager({ className = '' }: TaskManagerProps) {
         throw new Error('タスクの更新に失敗しました');
       }
 
-      await fetchTasks(); // タスクリストを再取得
+      await refreshTasks(); // タスクリストを再取得
     } catch (error) {
       console.error('Failed to toggle task:', error);
       throw error;
@@ -193,13 +277,71 @@ export function TaskManager({ className = '' }: TaskManagerProps) {
         throw new Error('タスクの削除に失敗しました');
       }
 
-      await fetchTasks(); // タスクリストを再取得
+      await refreshTasks(); // タスクリストを再取得
     } catch (error) {
       console.error('Failed to delete task:', error);
       alert('タスクの削除に失敗しました');
     }
   };
 
+  // 固定フィルターを選ぶと検索式・ビューは解除
+  const handleFilterChange = (filter: 'all' | 'pending' | 'completed' | 'high' | 'today') => {
+    setActiveFilter(filter);
+    setActiveViewId(null);
+    setActiveQuery('');
+  };
+
+  const handleViewSelect = (view: SavedTaskView) => {
+    setActiveViewId(view.id);
+    setActiveQuery('');
+  };
+
+  const handleQuerySubmit = (query: string) => {
+    setActiveViewId(null);
+    setActiveQuery(query);
+  };
+
+  const handleSaveView = async (name: string, query: string) => {
+    try {
+      const response = await fetch('/api/tasks/views', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, query }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'ビューの保存に失敗しました');
+      }
+
+      await fetchViews();
+      setActiveViewId(data.view.id);
+      setActiveQuery('');
+    } catch (error) {
+      console.error('Failed to save task view:', error);
+      setQueryError(error instanceof Error ? error.message : 'ビューの保存に失敗しました');
+    }
+  };
+
+  const handleViewDelete = async (view: SavedTaskView) => {
+    if (!confirm(`ビュー「${view.name}」を削除しますか？`)) return;
+
+    try {
+      const response = await fetch(`/api/tasks/views/${view.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('ビューの削除に失敗しました');
+      }
+
+      if (activeViewId === view.id) setActiveViewId(null);
+      await fetchViews();
+    } catch (error) {
+      console.error('Failed to delete task view:', error);
+      alert('ビューの削除に失敗しました');
+    }
+  };
+
   // タスク編集
   const handleTaskEdit = (task: Task) => {
     setEditingTask(task);
@@ -275,14 +417,29 @@ export function TaskManager({ className = '' }: TaskManagerProps) {
         </button>
       </div>
 
+      {/* クイック追加 */}
+      <QuickAddInput onCreated={refreshTasks} />
+
       {/* 統計情報 */}
       <TaskStatistics tasks={tasks} />
 
       {/* フィルター */}
       <TaskFilters
         activeFilter={activeFilter}
-        onFilterChange={setActiveFilter}
+        onFilterChange={handleFilterChange}
         taskCounts={taskCounts}
+        savedViews={savedViews}
+        activeViewId={activeViewId}
+        onViewSelect={handleViewSelect}
+        onViewDelete={handleViewDelete}
+      />
+
+      {/* 検索式 */}
+      <TaskQueryInput
+        query={activeViewId ? savedViews.find(view => view.id === activeViewId)?.query || '' : activeQuery}
+        error={queryError}
+        onSubmit={handleQuerySubmit}
+        onSaveView={handleSaveView}
       />
 
       {/* タスクリスト */}
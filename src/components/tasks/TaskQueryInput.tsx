@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface TaskQueryInputProps {
+  query: string;
+  error?: string | null;
+  onSubmit: (query: string) => Promise<void> | void;
+  onSaveView: (name: string, query: string) => Promise<void> | void;
+}
+
+export function TaskQueryInput({ query, error, onSubmit, onSaveView }: TaskQueryInputProps) {
+  const [text, setText] = useState(query);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // ビューの選択などで検索式が切り替わったら入力欄にも反映
+  useEffect(() => {
+    setText(query);
+  }, [query]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onSubmit(text.trim());
+  };
+
+  const handleSave = async () => {
+    if (!text.trim() || isSaving) return;
+
+    const name = prompt('ビューの名前を入力してください');
+    if (!name?.trim()) return;
+
+    try {
+      setIsSaving(true);
+      await onSaveView(name.trim(), text.trim());
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-4">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="例: status:open priority:high due:<7d category:営業 -tag:later sort:due"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium rounded-md transition-colors"
+        >
+          検索
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!text.trim() || isSaving}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-medium rounded-md transition-colors"
+        >
+          {isSaving ? '保存中...' : 'ビューとして保存'}
+        </button>
+      </div>
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,22 @@
+/**
+ * サーバー起動時のフック（Next.js instrumentation）
+ * NOTIFICATION_WORKER=true のインスタンスでは通知キューのワーカーを常駐させる
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.NOTIFICATION_WORKER !== 'true') {
+    return;
+  }
+
+  const { createClient } = await import('@supabase/supabase-js');
+  const { NotificationQueueManager } = await import('@/lib/notifications/queue');
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const queue = new NotificationQueueManager(supabase, {
+    processingInterval: parseInt(process.env.NOTIFICATION_WORKER_INTERVAL_MS || '30000') || 30000,
+  });
+  queue.startProcessing();
+}
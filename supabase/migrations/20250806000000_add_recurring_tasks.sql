@@ -0,0 +1,25 @@
+-- Add recurring task support
+-- A series is stored as a template task (recurrence_rule IS NOT NULL, recurrence_parent_id IS NULL).
+-- Each occurrence is a regular task row that points back to its template.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence_rule JSONB DEFAULT NULL;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence_parent_id UUID REFERENCES tasks(id) ON DELETE SET NULL;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence_instance_date DATE;
+
+-- One instance per template per occurrence date (prevents double generation)
+ALTER TABLE tasks ADD CONSTRAINT unique_recurrence_instance UNIQUE (recurrence_parent_id, recurrence_instance_date);
+
+-- Templates must not themselves be instances
+ALTER TABLE tasks ADD CONSTRAINT recurrence_template_not_instance
+  CHECK (recurrence_rule IS NULL OR recurrence_parent_id IS NULL);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_tasks_recurrence_parent ON tasks(recurrence_parent_id, recurrence_instance_date)
+  WHERE recurrence_parent_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_recurring_templates ON tasks(user_id)
+  WHERE recurrence_rule IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN tasks.recurrence_rule IS 'Recurrence rule of a series template: {frequency, interval, byWeekday, byMonthDay, count, until, exceptions}';
+COMMENT ON COLUMN tasks.recurrence_parent_id IS 'Template task this occurrence was generated from';
+COMMENT ON COLUMN tasks.recurrence_instance_date IS 'Occurrence date (YYYY-MM-DD) of a generated instance';
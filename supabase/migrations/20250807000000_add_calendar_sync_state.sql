@@ -0,0 +1,64 @@
+-- Add two-way Google Calendar sync support
+-- Incremental sync uses Google's syncToken; local edits are queued on the event row
+-- (sync_status) and pushed back to Google on the next sync.
+
+-- Columns already used by the calendar routes
+ALTER TABLE users ADD COLUMN IF NOT EXISTS google_access_token TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS last_calendar_sync TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS event_source VARCHAR(50) DEFAULT 'google_calendar';
+ALTER TABLE events ADD COLUMN IF NOT EXISTS last_synced_at TIMESTAMP WITH TIME ZONE;
+
+-- Sync bookkeeping per event
+ALTER TABLE events ADD COLUMN IF NOT EXISTS google_etag VARCHAR(255);
+ALTER TABLE events ADD COLUMN IF NOT EXISTS google_updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS local_updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS sync_status VARCHAR(20) NOT NULL DEFAULT 'synced'
+  CHECK (sync_status IN ('synced', 'pending_push', 'pending_delete'));
+
+-- Sync token per user and calendar
+CREATE TABLE calendar_sync_state (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  calendar_id VARCHAR(255) NOT NULL DEFAULT 'primary',
+  sync_token TEXT,
+  last_full_sync_at TIMESTAMP WITH TIME ZONE,
+  last_synced_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Constraints
+  UNIQUE(user_id, calendar_id)
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_events_sync_pending ON events(user_id, sync_status)
+  WHERE sync_status <> 'synced';
+
+-- Enable RLS
+ALTER TABLE calendar_sync_state ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for calendar_sync_state
+CREATE POLICY "Users can view their own calendar sync state" ON calendar_sync_state
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own calendar sync state" ON calendar_sync_state
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own calendar sync state" ON calendar_sync_state
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own calendar sync state" ON calendar_sync_state
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Add trigger for updated_at columns
+CREATE TRIGGER update_calendar_sync_state_updated_at
+  BEFORE UPDATE ON calendar_sync_state
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE calendar_sync_state IS 'Google Calendar incremental sync tokens per user and calendar';
+COMMENT ON COLUMN events.google_etag IS 'ETag of the Google event at the last sync (used for If-Match on push)';
+COMMENT ON COLUMN events.local_updated_at IS 'When the event was last edited locally (conflict resolution)';
+COMMENT ON COLUMN events.sync_status IS 'synced, pending_push (local edit not yet on Google) or pending_delete';
@@ -0,0 +1,13 @@
+-- Add time-blocking support
+-- Scheduled tasks can be materialized as Google Calendar events ("focus blocks").
+-- The Google event carries the task ID in extendedProperties.private so it can be
+-- recognised on sync and reconciled when the task changes.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS calendar_event_id VARCHAR(255);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_tasks_calendar_event_id ON tasks(calendar_event_id)
+  WHERE calendar_event_id IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN tasks.calendar_event_id IS 'Google Calendar event ID of the time block created for this task';
@@ -0,0 +1,42 @@
+-- Add subtask hierarchy and dependencies between tasks
+-- tasks.parent_task_id (added with task breakdown) forms the hierarchy; a parent's progress and
+-- estimated minutes are rolled up from its subtasks. task_dependencies records
+-- "task_id is blocked by depends_on_task_id". Cycles are rejected by the API.
+
+-- A task can not be its own parent
+ALTER TABLE tasks ADD CONSTRAINT task_parent_not_self
+  CHECK (parent_task_id IS NULL OR parent_task_id <> id);
+
+CREATE TABLE task_dependencies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  depends_on_task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Constraints
+  UNIQUE(task_id, depends_on_task_id),
+  CHECK (task_id <> depends_on_task_id)
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_user ON task_dependencies(user_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_task ON task_dependencies(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_depends_on ON task_dependencies(depends_on_task_id);
+
+-- Enable RLS
+ALTER TABLE task_dependencies ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for task_dependencies
+CREATE POLICY "Users can view their own task dependencies" ON task_dependencies
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own task dependencies" ON task_dependencies
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own task dependencies" ON task_dependencies
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE task_dependencies IS 'Prerequisites between tasks: task_id can not start before depends_on_task_id is done';
+COMMENT ON COLUMN tasks.parent_task_id IS 'Parent task in the subtask hierarchy (progress and estimates roll up to the parent)';
@@ -0,0 +1,55 @@
+-- Add AI token usage accounting
+-- Every LLM call is recorded so the monthly token budget (Requirement 7) can be enforced per user
+-- and across all users. Only billable providers count toward the budget; usage of deleted users is
+-- kept (user_id set to NULL) so the global total stays accurate.
+
+CREATE TABLE ai_token_usage (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  feature TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  billable BOOLEAN NOT NULL DEFAULT TRUE,
+  downgraded BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Constraints
+  CHECK (prompt_tokens >= 0 AND completion_tokens >= 0 AND total_tokens >= 0)
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_ai_token_usage_user_created ON ai_token_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_token_usage_created ON ai_token_usage(created_at) WHERE billable;
+
+-- Enable RLS
+ALTER TABLE ai_token_usage ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for ai_token_usage (rows are written by the server with the service role)
+CREATE POLICY "Users can view their own AI token usage" ON ai_token_usage
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Token usage for the budget period: the user's own total and the total across all users
+CREATE OR REPLACE FUNCTION get_ai_token_usage(target_user_id UUID, period_start TIMESTAMP WITH TIME ZONE)
+RETURNS JSONB AS $$
+BEGIN
+    RETURN (
+        SELECT jsonb_build_object(
+            'user_tokens', COALESCE(SUM(total_tokens) FILTER (WHERE user_id = target_user_id), 0),
+            'global_tokens', COALESCE(SUM(total_tokens), 0)
+        )
+        FROM ai_token_usage
+        WHERE billable
+            AND created_at >= period_start
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Add comments for documentation
+COMMENT ON TABLE ai_token_usage IS 'Ledger of LLM calls used to enforce the monthly token budget';
+COMMENT ON COLUMN ai_token_usage.feature IS 'AI feature that made the call (preparation_tasks, daily_summary, ...)';
+COMMENT ON COLUMN ai_token_usage.billable IS 'Whether the provider is billed (local endpoints and the mock are not)';
+COMMENT ON COLUMN ai_token_usage.downgraded IS 'Whether the cheaper model was used because usage passed 80% of the budget';
+COMMENT ON FUNCTION get_ai_token_usage(UUID, TIMESTAMP WITH TIME ZONE) IS 'Billable token usage since period_start for one user and for all users';
@@ -0,0 +1,73 @@
+-- Back the notification queue with scheduled_notifications
+-- Workers claim due rows with FOR UPDATE SKIP LOCKED so several instances never send the same
+-- notification twice. Delivery is tracked per channel; failed channels are retried with exponential
+-- backoff until max_retries, after which the row moves to dead_letter.
+
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS channels TEXT[] NOT NULL DEFAULT ARRAY['browser'];
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS delivered_channels TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS payload JSONB DEFAULT '{}';
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS max_retries INTEGER NOT NULL DEFAULT 3;
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS locked_by TEXT;
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS browser_fetched_at TIMESTAMP WITH TIME ZONE;
+
+-- New statuses: processing (claimed by a worker) and dead_letter (retries exhausted)
+ALTER TABLE scheduled_notifications DROP CONSTRAINT IF EXISTS scheduled_notifications_status_check;
+ALTER TABLE scheduled_notifications ADD CONSTRAINT scheduled_notifications_status_check
+  CHECK (status IN ('scheduled', 'processing', 'sent', 'failed', 'cancelled', 'dead_letter'));
+
+ALTER TABLE scheduled_notifications DROP CONSTRAINT IF EXISTS scheduled_notifications_priority_check;
+ALTER TABLE scheduled_notifications ADD CONSTRAINT scheduled_notifications_priority_check
+  CHECK (priority IN ('urgent', 'high', 'medium', 'low'));
+
+ALTER TABLE scheduled_notifications ADD CONSTRAINT scheduled_notifications_max_retries_check
+  CHECK (max_retries >= 0 AND max_retries <= 5);
+
+-- Immediate notifications and retries are due at (or before) the time the row is written
+ALTER TABLE scheduled_notifications DROP CONSTRAINT IF EXISTS scheduled_notifications_check;
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_scheduled_notifications_processing ON scheduled_notifications(locked_at) WHERE status = 'processing';
+CREATE INDEX IF NOT EXISTS idx_scheduled_notifications_browser ON scheduled_notifications(user_id, notify_at)
+  WHERE browser_fetched_at IS NULL AND 'browser' = ANY(delivered_channels);
+
+-- Claim due notifications for a worker (stale locks from crashed workers are reclaimed)
+CREATE OR REPLACE FUNCTION claim_scheduled_notifications(
+  worker_id TEXT,
+  batch_size INTEGER,
+  lock_timeout_seconds INTEGER,
+  target_user_id UUID DEFAULT NULL
+)
+RETURNS SETOF scheduled_notifications AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE scheduled_notifications n
+  SET status = 'processing',
+      locked_by = worker_id,
+      locked_at = NOW(),
+      updated_at = NOW()
+  WHERE n.id IN (
+    SELECT id
+    FROM scheduled_notifications
+    WHERE (target_user_id IS NULL OR user_id = target_user_id)
+      AND (
+        (status = 'scheduled' AND notify_at <= NOW())
+        OR (status = 'processing' AND locked_at < NOW() - make_interval(secs => lock_timeout_seconds))
+      )
+    ORDER BY
+      CASE priority WHEN 'urgent' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END,
+      notify_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING n.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments for documentation
+COMMENT ON COLUMN scheduled_notifications.channels IS 'Channels to deliver to (browser, discord)';
+COMMENT ON COLUMN scheduled_notifications.delivered_channels IS 'Channels that have been delivered; only the rest are retried';
+COMMENT ON COLUMN scheduled_notifications.payload IS 'Type-specific data used to render the notification (task, event, summary)';
+COMMENT ON COLUMN scheduled_notifications.locked_by IS 'Worker that claimed the notification while status is processing';
+COMMENT ON COLUMN scheduled_notifications.browser_fetched_at IS 'When the browser picked up the notification from /api/notifications/pending';
+COMMENT ON FUNCTION claim_scheduled_notifications(TEXT, INTEGER, INTEGER, UUID) IS 'Atomically claim due notifications for a queue worker';
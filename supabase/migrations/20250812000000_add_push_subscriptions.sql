@@ -0,0 +1,122 @@
+-- Add Web Push delivery with display acknowledgement
+-- Each browser/device registers a push subscription. Browser notifications are dispatched (via Web Push,
+-- or via /api/notifications/pending when the user has no subscription) and only become sent once the
+-- service worker confirms it displayed them; unacknowledged dispatches are retried by the queue worker.
+
+CREATE TABLE push_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  last_success_at TIMESTAMP WITH TIME ZONE,
+  last_failure_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+
+-- Enable RLS
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for push_subscriptions
+CREATE POLICY "Users can view their own push subscriptions" ON push_subscriptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own push subscriptions" ON push_subscriptions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own push subscriptions" ON push_subscriptions
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own push subscriptions" ON push_subscriptions
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Dispatched: handed to the browser (push or polling) and waiting for the display acknowledgement
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS dispatched_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS dispatched_via TEXT CHECK (dispatched_via IN ('push', 'poll'));
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS browser_acknowledged_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE scheduled_notifications DROP CONSTRAINT IF EXISTS scheduled_notifications_status_check;
+ALTER TABLE scheduled_notifications ADD CONSTRAINT scheduled_notifications_status_check
+  CHECK (status IN ('scheduled', 'processing', 'dispatched', 'sent', 'failed', 'cancelled', 'dead_letter'));
+
+DROP INDEX IF EXISTS idx_scheduled_notifications_browser;
+CREATE INDEX IF NOT EXISTS idx_scheduled_notifications_dispatched ON scheduled_notifications(user_id, dispatched_at)
+  WHERE status = 'dispatched';
+
+-- Claim due notifications for a worker; also reclaims stale locks and dispatches that were never acknowledged
+DROP FUNCTION IF EXISTS claim_scheduled_notifications(TEXT, INTEGER, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION claim_scheduled_notifications(
+  worker_id TEXT,
+  batch_size INTEGER,
+  lock_timeout_seconds INTEGER,
+  target_user_id UUID DEFAULT NULL,
+  ack_timeout_seconds INTEGER DEFAULT 900
+)
+RETURNS SETOF scheduled_notifications AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE scheduled_notifications n
+  SET status = 'processing',
+      locked_by = worker_id,
+      locked_at = NOW(),
+      updated_at = NOW()
+  WHERE n.id IN (
+    SELECT id
+    FROM scheduled_notifications
+    WHERE (target_user_id IS NULL OR user_id = target_user_id)
+      AND (
+        (status = 'scheduled' AND notify_at <= NOW())
+        OR (status = 'processing' AND locked_at < NOW() - make_interval(secs => lock_timeout_seconds))
+        OR (status = 'dispatched' AND dispatched_at < NOW() - make_interval(secs => ack_timeout_seconds))
+      )
+    ORDER BY
+      CASE priority WHEN 'urgent' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END,
+      notify_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING n.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record that the service worker displayed the notification; a dispatched notification becomes sent.
+-- Acks that arrive while a worker still holds the row are kept in browser_acknowledged_at and settled by the worker.
+CREATE OR REPLACE FUNCTION acknowledge_browser_notification(notification_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  result_status TEXT;
+BEGIN
+  UPDATE scheduled_notifications
+  SET browser_acknowledged_at = NOW(),
+      updated_at = NOW()
+  WHERE id = notification_id
+    AND browser_acknowledged_at IS NULL;
+
+  UPDATE scheduled_notifications
+  SET status = 'sent',
+      sent_at = NOW(),
+      delivered_channels = array_append(delivered_channels, 'browser'),
+      dispatched_at = NULL,
+      updated_at = NOW()
+  WHERE id = notification_id
+    AND status = 'dispatched';
+
+  SELECT status INTO result_status FROM scheduled_notifications WHERE id = notification_id;
+  RETURN result_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments for documentation
+COMMENT ON TABLE push_subscriptions IS 'Web Push subscriptions, one per browser/device';
+COMMENT ON COLUMN push_subscriptions.failure_count IS 'Consecutive failed pushes; reset on success';
+COMMENT ON COLUMN scheduled_notifications.dispatched_at IS 'When the browser notification was handed off; cleared once acknowledged or retried';
+COMMENT ON COLUMN scheduled_notifications.dispatched_via IS 'How the browser notification was handed off: push (Web Push) or poll (/api/notifications/pending)';
+COMMENT ON COLUMN scheduled_notifications.browser_acknowledged_at IS 'When the service worker confirmed it displayed the notification';
+COMMENT ON FUNCTION acknowledge_browser_notification(UUID) IS 'Mark the browser channel as delivered after the service worker confirms display';
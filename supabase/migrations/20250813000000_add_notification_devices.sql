@@ -0,0 +1,92 @@
+-- Add notification device registry and cross-device de-duplication
+-- Each browser registers itself as a device with its own preferences (e.g. phone only for urgent).
+-- Once a notification is clicked or dismissed on one device it is resolved: undelivered channels are
+-- suppressed and copies already shown on other devices / posted to Discord are retracted.
+
+CREATE TABLE notification_devices (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  device_type VARCHAR(20) NOT NULL DEFAULT 'desktop' CHECK (device_type IN ('desktop', 'mobile', 'tablet')),
+  device_info JSONB DEFAULT '{}',
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  min_priority VARCHAR(20) NOT NULL DEFAULT 'low' CHECK (min_priority IN ('low', 'medium', 'high', 'urgent')),
+  notification_types TEXT[],
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Link push subscriptions and interactions to the device they came from
+ALTER TABLE push_subscriptions ADD COLUMN IF NOT EXISTS device_id UUID REFERENCES notification_devices(id) ON DELETE CASCADE;
+ALTER TABLE notification_interactions ADD COLUMN IF NOT EXISTS device_id UUID REFERENCES notification_devices(id) ON DELETE SET NULL;
+
+-- Resolution (click / dismiss on any device) and references needed to retract delivered copies
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS resolved_action VARCHAR(20) CHECK (resolved_action IN ('click', 'dismiss'));
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS resolved_device_id UUID REFERENCES notification_devices(id) ON DELETE SET NULL;
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS delivery_refs JSONB DEFAULT '{}';
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_notification_devices_user ON notification_devices(user_id);
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_device ON push_subscriptions(device_id) WHERE device_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE notification_devices ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for notification_devices
+CREATE POLICY "Users can view their own notification devices" ON notification_devices
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own notification devices" ON notification_devices
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification devices" ON notification_devices
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notification devices" ON notification_devices
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Resolve a notification after the user clicked or dismissed it on a device.
+-- Returns true the first time only, so retraction runs once even if several devices report it.
+-- Notifications waiting for a retry or a display acknowledgement are finished as sent; a worker that
+-- currently holds the row sees resolved_at on its next claim.
+CREATE OR REPLACE FUNCTION resolve_notification(notification_id UUID, action TEXT, device_id UUID DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+  resolved_count INTEGER;
+BEGIN
+  UPDATE scheduled_notifications
+  SET resolved_at = NOW(),
+      resolved_action = action,
+      resolved_device_id = device_id,
+      browser_acknowledged_at = COALESCE(browser_acknowledged_at, NOW()),
+      updated_at = NOW()
+  WHERE id = notification_id
+    AND resolved_at IS NULL;
+
+  GET DIAGNOSTICS resolved_count = ROW_COUNT;
+
+  UPDATE scheduled_notifications
+  SET status = 'sent',
+      sent_at = NOW(),
+      delivered_channels = CASE
+        WHEN status = 'dispatched' THEN array_append(delivered_channels, 'browser')
+        ELSE delivered_channels
+      END,
+      dispatched_at = NULL,
+      updated_at = NOW()
+  WHERE id = notification_id
+    AND status IN ('scheduled', 'dispatched');
+
+  RETURN resolved_count > 0;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments for documentation
+COMMENT ON TABLE notification_devices IS 'Browsers/devices that receive notifications, with per-device preferences';
+COMMENT ON COLUMN notification_devices.min_priority IS 'Lowest notification priority delivered to this device';
+COMMENT ON COLUMN notification_devices.notification_types IS 'Notification types delivered to this device; NULL means all';
+COMMENT ON COLUMN scheduled_notifications.resolved_at IS 'When the user clicked or dismissed the notification on any device';
+COMMENT ON COLUMN scheduled_notifications.delivery_refs IS 'Per-channel references to delivered copies (e.g. Discord message id) used for retraction';
+COMMENT ON FUNCTION resolve_notification(UUID, TEXT, UUID) IS 'Mark a notification as handled so other channels and devices are suppressed';
@@ -0,0 +1,64 @@
+-- Track real work intervals for tasks
+-- The application now records work sessions in tasks.time_tracking_data (start/pause/resume/stop
+-- and Pomodoro state), so the trigger no longer appends its own start-only session entry.
+-- When a task is completed without actual_minutes, the fallback sums the recorded sessions
+-- instead of using NOW() - started_at, which counted breaks and overnight gaps.
+
+CREATE OR REPLACE FUNCTION track_task_time_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Track when task starts (status changes to in_progress)
+    IF OLD.status != 'in_progress' AND NEW.status = 'in_progress' THEN
+        NEW.started_at = COALESCE(NEW.started_at, NOW());
+    END IF;
+
+    -- Track when task completes (status changes to completed)
+    IF OLD.status != 'completed' AND NEW.status = 'completed' THEN
+        NEW.completed_at = COALESCE(NEW.completed_at, NOW());
+
+        -- Sum closed and running work sessions if actual time was not set
+        IF NEW.actual_minutes IS NULL THEN
+            SELECT ROUND(SUM(EXTRACT(EPOCH FROM (
+                       COALESCE((session->>'ended_at')::timestamptz, NOW()) - (session->>'started_at')::timestamptz
+                   )) / 60))
+              INTO NEW.actual_minutes
+              FROM jsonb_array_elements(COALESCE(NEW.time_tracking_data->'sessions', '[]'::jsonb)) AS session
+             WHERE session->>'started_at' IS NOT NULL
+               AND (session->>'ended_at' IS NOT NULL OR session->>'status' = 'active');
+        END IF;
+
+        IF NEW.actual_minutes IS NULL AND NEW.started_at IS NOT NULL THEN
+            NEW.actual_minutes = EXTRACT(EPOCH FROM (NOW() - NEW.started_at)) / 60;
+        END IF;
+
+        -- Store completion metadata (short sessions can round to 0 minutes, so guard the ratio)
+        NEW.completion_metadata = COALESCE(NEW.completion_metadata, '{}'::jsonb) || jsonb_build_object(
+            'completed_at', NEW.completed_at,
+            'estimated_vs_actual', CASE
+                WHEN NEW.estimated_minutes IS NOT NULL AND NEW.actual_minutes IS NOT NULL AND NEW.actual_minutes > 0
+                THEN json_build_object(
+                    'estimated', NEW.estimated_minutes,
+                    'actual', NEW.actual_minutes,
+                    'difference_minutes', NEW.actual_minutes - NEW.estimated_minutes,
+                    'efficiency_ratio', ROUND((NEW.estimated_minutes::numeric / NEW.actual_minutes::numeric), 2)
+                )
+                ELSE NULL
+            END,
+            'was_postponed', NEW.postpone_count > 0,
+            'postpone_count', NEW.postpone_count
+        );
+    END IF;
+
+    -- Reset completion data if task is uncompleted
+    IF OLD.status = 'completed' AND NEW.status != 'completed' THEN
+        NEW.completed_at = NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments for documentation
+COMMENT ON COLUMN tasks.started_at IS 'Timestamp when the task was first started (set on entering in_progress)';
+COMMENT ON COLUMN tasks.time_tracking_data IS 'Work sessions ({started_at, ended_at, duration_minutes, status}), pause state and Pomodoro settings/progress';
+COMMENT ON COLUMN tasks.actual_minutes IS 'Actual work time in minutes, summed from work sessions unless entered manually';
@@ -0,0 +1,34 @@
+-- Add iCalendar (.ics) import and a subscribable calendar feed
+-- Events imported from .ics files (Outlook, company calendars, ...) are stored in events with
+-- event_source = 'ics_import' and keyed by their iCalendar UID so re-importing the same file updates
+-- them instead of creating duplicates. Occurrences of recurring events use "UID#<original start>".
+-- Each user can publish a secret feed URL; only the SHA-256 hash of the token is stored.
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS external_uid TEXT;
+
+-- NULLs are distinct, so Google events (no external UID) are unaffected
+ALTER TABLE events ADD CONSTRAINT events_user_external_uid_key UNIQUE (user_id, external_uid);
+
+CREATE INDEX IF NOT EXISTS idx_events_user_source ON events(user_id, event_source);
+
+CREATE TABLE calendar_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  include_tasks BOOLEAN NOT NULL DEFAULT TRUE,
+  last_accessed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for calendar_feed_tokens (the feed itself is served with the service role)
+CREATE POLICY "Users can view their own calendar feed" ON calendar_feed_tokens
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own calendar feed" ON calendar_feed_tokens
+  FOR DELETE USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN events.external_uid IS 'iCalendar UID of imported events (UID#<original start ISO> for recurring occurrences)';
+COMMENT ON TABLE calendar_feed_tokens IS 'Per-user secret token for the subscribable .ics feed (SHA-256 hash only)';
+COMMENT ON COLUMN calendar_feed_tokens.include_tasks IS 'Whether scheduled tasks are included in the feed in addition to events';
@@ -0,0 +1,55 @@
+-- Add CalDAV calendars (Nextcloud, Fastmail, iCloud, ...) alongside Google Calendar
+-- Each connection is one calendar collection on a CalDAV server. Its events are stored in events
+-- with event_source = 'caldav' and go through the same two-way sync as Google events.
+-- The remote event ID is kept in google_event_id as "<connection id>:<resource name>", with
+-- "#<original start ISO>" appended for occurrences of recurring events.
+
+CREATE TABLE calendar_connections (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider VARCHAR(20) NOT NULL DEFAULT 'caldav' CHECK (provider IN ('caldav')),
+  server_url TEXT NOT NULL,
+  calendar_url TEXT NOT NULL,
+  username TEXT NOT NULL,
+  password TEXT NOT NULL,
+  display_name TEXT,
+  color VARCHAR(20),
+  last_synced_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Constraints
+  UNIQUE(user_id, calendar_url)
+);
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS calendar_connection_id UUID
+  REFERENCES calendar_connections(id) ON DELETE CASCADE;
+
+-- CalDAV resource names can be longer than Google event IDs
+ALTER TABLE events ALTER COLUMN google_event_id TYPE TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_calendar_connections_user_id ON calendar_connections(user_id);
+CREATE INDEX IF NOT EXISTS idx_events_calendar_connection ON events(calendar_connection_id)
+  WHERE calendar_connection_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE calendar_connections ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for calendar_connections (credentials are only read with the service role)
+CREATE POLICY "Users can view their own calendar connections" ON calendar_connections
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own calendar connections" ON calendar_connections
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Add trigger for updated_at columns
+CREATE TRIGGER update_calendar_connections_updated_at
+  BEFORE UPDATE ON calendar_connections
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE calendar_connections IS 'CalDAV calendar collections connected by the user';
+COMMENT ON COLUMN calendar_connections.calendar_url IS 'URL of the calendar collection (ends with a slash)';
+COMMENT ON COLUMN calendar_connections.password IS 'Password or app-specific password for HTTP Basic authentication';
+COMMENT ON COLUMN events.calendar_connection_id IS 'CalDAV connection the event belongs to (NULL for Google and imported events)';
+COMMENT ON COLUMN events.google_event_id IS 'Remote event ID at the provider given by event_source (Google event ID or CalDAV resource ID)';
@@ -0,0 +1,56 @@
+-- Add support for multiple Google calendars per user
+-- The user's calendarList is mirrored into google_calendars with per-calendar settings:
+-- whether the calendar is synced and whether its events block time in free-slot computation.
+-- Events remember which Google calendar they came from; events of calendars other than the
+-- primary one use "<calendar id>/<event id>" as google_event_id so the same meeting on two
+-- calendars does not collide.
+
+CREATE TABLE google_calendars (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  calendar_id TEXT NOT NULL,
+  summary TEXT NOT NULL,
+  background_color VARCHAR(20),
+  foreground_color VARCHAR(20),
+  access_role VARCHAR(20) NOT NULL DEFAULT 'reader',
+  is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+  sync_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  counts_as_busy BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Constraints
+  UNIQUE(user_id, calendar_id)
+);
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS google_calendar_id TEXT;
+
+-- Everything synced so far came from the primary calendar
+UPDATE events SET google_calendar_id = 'primary'
+  WHERE event_source = 'google_calendar' AND google_calendar_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_google_calendars_user_id ON google_calendars(user_id);
+CREATE INDEX IF NOT EXISTS idx_events_user_google_calendar ON events(user_id, google_calendar_id)
+  WHERE google_calendar_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE google_calendars ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for google_calendars
+CREATE POLICY "Users can view their own google calendars" ON google_calendars
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own google calendars" ON google_calendars
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Add trigger for updated_at columns
+CREATE TRIGGER update_google_calendars_updated_at
+  BEFORE UPDATE ON google_calendars
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE google_calendars IS 'Google calendars of the user (calendarList) with per-calendar sync settings';
+COMMENT ON COLUMN google_calendars.calendar_id IS 'Google calendar ID; the primary calendar is stored as ''primary''';
+COMMENT ON COLUMN google_calendars.sync_enabled IS 'Whether events of this calendar are synced into events';
+COMMENT ON COLUMN google_calendars.counts_as_busy IS 'Whether events of this calendar block time when computing free slots';
+COMMENT ON COLUMN events.google_calendar_id IS 'Google calendar the event belongs to (''primary'' for the primary calendar)';
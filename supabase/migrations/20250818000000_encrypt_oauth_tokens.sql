@@ -0,0 +1,12 @@
+-- Encrypt stored OAuth tokens and CalDAV passwords at rest
+-- Values are encrypted by the application with AES-256-GCM using a server key
+-- (TOKEN_ENCRYPTION_KEYS) and stored as "enc:<key id>:<iv>:<tag>:<ciphertext>".
+-- Existing plain-text values stay readable; POST /api/auth/token-keys/rotate re-encrypts them
+-- (and re-encrypts everything after a new key is added).
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS google_token_expires_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN users.google_access_token IS 'Google OAuth access token (encrypted with the server key)';
+COMMENT ON COLUMN users.google_refresh_token IS 'Google OAuth refresh token (encrypted with the server key)';
+COMMENT ON COLUMN users.google_token_expires_at IS 'Expiry of google_access_token; the token is refreshed before it expires';
+COMMENT ON COLUMN calendar_connections.password IS 'CalDAV password or app password (encrypted with the server key)';
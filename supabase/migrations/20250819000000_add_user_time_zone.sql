@@ -0,0 +1,106 @@
+-- Per-user time zone and locale
+-- Day boundaries ("today"), the daily summary time, quiet hours, working hours and the time zone
+-- of events written to external calendars are evaluated in the user's time zone instead of the
+-- server's. Existing users keep the previous behaviour (Japan time).
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS time_zone TEXT NOT NULL DEFAULT 'Asia/Tokyo';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'ja-JP';
+
+COMMENT ON COLUMN users.time_zone IS 'IANA time zone name used for day boundaries, reminders and calendar writes';
+COMMENT ON COLUMN users.locale IS 'BCP 47 locale used to format dates and times in notifications';
+
+-- Count completions per day in the user's time zone rather than UTC
+CREATE OR REPLACE FUNCTION get_daily_task_summary(target_date DATE, target_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    summary JSONB;
+    user_time_zone TEXT;
+BEGIN
+    SELECT time_zone INTO user_time_zone FROM users WHERE id = target_user_id;
+    user_time_zone := COALESCE(user_time_zone, 'Asia/Tokyo');
+
+    SELECT jsonb_build_object(
+        'date', target_date,
+        'user_id', target_user_id,
+        'completed_tasks', (
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', id,
+                'title', title,
+                'estimated_minutes', estimated_minutes,
+                'actual_minutes', actual_minutes,
+                'efficiency_ratio', CASE 
+                    WHEN estimated_minutes > 0 AND actual_minutes > 0 
+                    THEN ROUND((estimated_minutes::numeric / actual_minutes::numeric), 2)
+                    ELSE NULL
+                END,
+                'completed_at', completed_at,
+                'was_postponed', postpone_count > 0,
+                'postpone_count', postpone_count,
+                'priority', priority,
+                'category', category
+            ))
+            FROM tasks 
+            WHERE user_id = target_user_id 
+                AND status = 'completed' 
+                AND DATE(completed_at AT TIME ZONE user_time_zone) = target_date
+        ),
+        'incomplete_tasks', (
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', id,
+                'title', title,
+                'status', status,
+                'estimated_minutes', estimated_minutes,
+                'priority', priority,
+                'due_date', due_date,
+                'scheduled_date', scheduled_date,
+                'postpone_count', postpone_count,
+                'suggest_reschedule', postpone_count > 0 OR (due_date IS NOT NULL AND due_date < NOW())
+            ))
+            FROM tasks 
+            WHERE user_id = target_user_id 
+                AND status IN ('pending', 'in_progress')
+                AND (scheduled_date IS NULL OR DATE(scheduled_date AT TIME ZONE user_time_zone) <= target_date)
+        ),
+        'summary_stats', jsonb_build_object(
+            'total_completed', (
+                SELECT COUNT(*) FROM tasks 
+                WHERE user_id = target_user_id 
+                    AND status = 'completed' 
+                    AND DATE(completed_at AT TIME ZONE user_time_zone) = target_date
+            ),
+            'total_estimated_time', (
+                SELECT COALESCE(SUM(estimated_minutes), 0) FROM tasks 
+                WHERE user_id = target_user_id 
+                    AND status = 'completed' 
+                    AND DATE(completed_at AT TIME ZONE user_time_zone) = target_date
+            ),
+            'total_actual_time', (
+                SELECT COALESCE(SUM(actual_minutes), 0) FROM tasks 
+                WHERE user_id = target_user_id 
+                    AND status = 'completed' 
+                    AND DATE(completed_at AT TIME ZONE user_time_zone) = target_date
+            ),
+            'average_efficiency', (
+                SELECT ROUND(AVG(
+                    CASE WHEN estimated_minutes > 0 AND actual_minutes > 0 
+                    THEN (estimated_minutes::numeric / actual_minutes::numeric)
+                    ELSE NULL END
+                ), 2)
+                FROM tasks 
+                WHERE user_id = target_user_id 
+                    AND status = 'completed' 
+                    AND DATE(completed_at AT TIME ZONE user_time_zone) = target_date
+            ),
+            'tasks_postponed', (
+                SELECT COUNT(*) FROM tasks 
+                WHERE user_id = target_user_id 
+                    AND postpone_count > 0
+                    AND (scheduled_date IS NULL OR DATE(scheduled_date AT TIME ZONE user_time_zone) <= target_date)
+                    AND status IN ('pending', 'in_progress')
+            )
+        )
+    ) INTO summary;
+    
+    RETURN summary;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,88 @@
+-- Add the built-in job scheduler
+-- Each scheduled job (reminder check, daily summary, reschedule suggestions, ...) has one row in
+-- job_schedules per user (or a single row with user_id NULL for global jobs) holding the cron
+-- expression, the time zone it is evaluated in and the next run time. /api/jobs/tick claims due rows
+-- with FOR UPDATE SKIP LOCKED so each run happens once even with several instances; runs are recorded
+-- in job_runs.
+
+CREATE TABLE job_schedules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_name TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  schedule TEXT NOT NULL,
+  time_zone TEXT NOT NULL DEFAULT 'Asia/Tokyo',
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_status VARCHAR(20) CHECK (last_status IN ('succeeded', 'failed', 'skipped')),
+  last_success_at TIMESTAMP WITH TIME ZONE,
+  locked_by TEXT,
+  locked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Constraints (global jobs have user_id NULL)
+  UNIQUE NULLS NOT DISTINCT (job_name, user_id)
+);
+
+CREATE TABLE job_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_name TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('schedule', 'catch_up', 'manual')),
+  status VARCHAR(20) NOT NULL CHECK (status IN ('running', 'succeeded', 'failed', 'skipped')),
+  scheduled_for TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER,
+  worker_id TEXT,
+  result JSONB,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_schedules_due ON job_schedules(next_run_at);
+CREATE INDEX IF NOT EXISTS idx_job_schedules_user_id ON job_schedules(user_id) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_job_runs_job_started ON job_runs(job_name, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_job_runs_user_started ON job_runs(user_id, started_at DESC) WHERE user_id IS NOT NULL;
+
+-- Only the service role reads and writes the scheduler tables
+ALTER TABLE job_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_runs ENABLE ROW LEVEL SECURITY;
+
+-- Add trigger for updated_at columns
+CREATE TRIGGER update_job_schedules_updated_at
+  BEFORE UPDATE ON job_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Claim due job schedules for a scheduler instance (stale locks from crashed instances are reclaimed)
+CREATE OR REPLACE FUNCTION claim_due_jobs(
+  worker_id TEXT,
+  batch_size INTEGER,
+  lock_timeout_seconds INTEGER
+)
+RETURNS SETOF job_schedules AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE job_schedules s
+  SET locked_by = worker_id,
+      locked_at = NOW()
+  WHERE s.id IN (
+    SELECT id
+    FROM job_schedules
+    WHERE next_run_at <= NOW()
+      AND (locked_by IS NULL OR locked_at < NOW() - make_interval(secs => lock_timeout_seconds))
+    ORDER BY next_run_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING s.*;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE job_schedules IS 'Per-user (or global when user_id is NULL) state of scheduled background jobs';
+COMMENT ON COLUMN job_schedules.schedule IS 'Five-field cron expression evaluated in time_zone';
+COMMENT ON COLUMN job_schedules.next_run_at IS 'When the job is due next; missed runs are caught up once';
+COMMENT ON COLUMN job_schedules.last_success_at IS 'When the last successful run started (start of the next catch-up window)';
+COMMENT ON COLUMN job_schedules.locked_by IS 'Scheduler instance currently running the job';
+COMMENT ON TABLE job_runs IS 'History of scheduled, caught-up and manually triggered job runs';
+COMMENT ON FUNCTION claim_due_jobs(TEXT, INTEGER, INTEGER) IS 'Atomically claim due job schedules for a scheduler instance';
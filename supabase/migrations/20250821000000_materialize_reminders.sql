@@ -0,0 +1,29 @@
+-- Materialize task/event reminders ahead of time
+-- Reminder rows are written to scheduled_notifications when a task or event is created or changed
+-- (one row per configured offset, e.g. 1 day and 15 minutes before) instead of being discovered by
+-- scanning a narrow time window. Each reminder is identified by its target, offset and the start/due
+-- time it was computed for, so a changed start time cancels the old rows and schedules new ones.
+
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS reminder_offset_minutes INTEGER;
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS reminder_for TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE scheduled_notifications ADD CONSTRAINT scheduled_notifications_reminder_offset_check
+  CHECK (reminder_offset_minutes IS NULL OR reminder_offset_minutes > 0);
+
+-- Look up a target's reminders when it changes
+CREATE INDEX IF NOT EXISTS idx_scheduled_notifications_reminder_target
+  ON scheduled_notifications(user_id, target_id)
+  WHERE reminder_for IS NOT NULL;
+
+-- Look up a user's upcoming reminders for the periodic reconcile
+CREATE INDEX IF NOT EXISTS idx_scheduled_notifications_reminder_for
+  ON scheduled_notifications(user_id, reminder_for)
+  WHERE reminder_for IS NOT NULL;
+
+-- Concurrent reconciles must not schedule the same reminder twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_notifications_reminder_unique
+  ON scheduled_notifications(user_id, type, target_id, reminder_offset_minutes, reminder_for)
+  WHERE reminder_for IS NOT NULL AND status <> 'cancelled';
+
+COMMENT ON COLUMN scheduled_notifications.reminder_offset_minutes IS 'For materialized reminders: how many minutes before reminder_for the notification is due';
+COMMENT ON COLUMN scheduled_notifications.reminder_for IS 'For materialized reminders: the task scheduled/due time or event start time the reminder was computed for';
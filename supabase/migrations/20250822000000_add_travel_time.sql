@@ -0,0 +1,28 @@
+-- Travel time for events
+-- Users register home/office locations in users.settings.travel_preferences; each event can override
+-- the travel mode and origin. The estimated travel time is stored on the event together with the key
+-- (mode, origin, destination) it was computed for, so it is only re-estimated when one of those changes.
+-- The estimate drives "leave now" reminders and is blocked as busy time by the scheduler.
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS travel_mode VARCHAR(20);
+ALTER TABLE events ADD COLUMN IF NOT EXISTS travel_origin VARCHAR(20);
+ALTER TABLE events ADD COLUMN IF NOT EXISTS travel_minutes INTEGER;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS travel_estimate_key TEXT;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS travel_estimated_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE events ADD CONSTRAINT events_travel_mode_check
+  CHECK (travel_mode IS NULL OR travel_mode IN ('none', 'walking', 'bicycling', 'transit', 'driving'));
+ALTER TABLE events ADD CONSTRAINT events_travel_origin_check
+  CHECK (travel_origin IS NULL OR travel_origin IN ('home', 'office'));
+ALTER TABLE events ADD CONSTRAINT events_travel_minutes_check
+  CHECK (travel_minutes IS NULL OR travel_minutes >= 0);
+
+-- "Leave now" reminders
+ALTER TABLE scheduled_notifications DROP CONSTRAINT IF EXISTS scheduled_notifications_type_check;
+ALTER TABLE scheduled_notifications ADD CONSTRAINT scheduled_notifications_type_check
+  CHECK (type IN ('task_reminder', 'event_reminder', 'travel_reminder', 'urgent_task', 'daily_summary', 'custom'));
+
+COMMENT ON COLUMN events.travel_mode IS 'Travel mode to reach the event (none/walking/bicycling/transit/driving); NULL uses the user default';
+COMMENT ON COLUMN events.travel_origin IS 'Where the user leaves from (home/office); NULL uses the user default';
+COMMENT ON COLUMN events.travel_minutes IS 'Estimated travel time from the origin to the event location; NULL when no travel is needed or no route was found';
+COMMENT ON COLUMN events.travel_estimate_key IS 'Mode, origin and destination the travel time was estimated for';
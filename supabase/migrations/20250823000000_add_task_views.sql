@@ -0,0 +1,55 @@
+-- Task query language and saved views
+-- Tasks can be filtered with a query such as "status:pending priority:high due:<7d category:営業 -tag:later",
+-- parsed on the server into PostgREST filters. Users save named queries as views shown next to the
+-- fixed task filters. Tasks get free-form tags, and a priority rank so that they can be sorted by priority
+-- in the database.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS priority_rank SMALLINT GENERATED ALWAYS AS (
+  CASE priority WHEN 'high' THEN 3 WHEN 'medium' THEN 2 WHEN 'low' THEN 1 ELSE 0 END
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_tags ON tasks USING GIN (tags);
+
+CREATE TABLE task_views (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL,
+  query TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Constraints
+  UNIQUE(user_id, name),
+  CONSTRAINT task_views_query_length CHECK (char_length(query) <= 500)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_views_user_id ON task_views(user_id, position);
+
+-- Enable RLS
+ALTER TABLE task_views ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for task_views
+CREATE POLICY "Users can view their own task views" ON task_views
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own task views" ON task_views
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own task views" ON task_views
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own task views" ON task_views
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Add trigger for updated_at columns
+CREATE TRIGGER update_task_views_updated_at
+  BEFORE UPDATE ON task_views
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN tasks.tags IS 'Free-form lowercase tags, filtered with tag: in task queries';
+COMMENT ON COLUMN tasks.priority_rank IS 'Sort key for priority (high = 3, medium = 2, low = 1)';
+COMMENT ON TABLE task_views IS 'Named task queries saved per user, shown next to the fixed task filters';
+COMMENT ON COLUMN task_views.query IS 'Task query, e.g. "status:open priority:high due:<7d sort:due"';
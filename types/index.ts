@@ -20,12 +20,20 @@ export type {
   APIResponse,
   APIError,
   GoogleCalendarEvent,
+  CalendarProviderEvent,
+  CalendarProviderType,
   TaskFormData,
   EventFormData,
   UserSettings,
+  SchedulePreferences,
   EnvironmentConfig,
   TaskPriority,
   TaskStatus,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  TaskDependency,
+  BlockingTask,
+  SubtaskSummary,
   NotificationType,
   UUID,
   Timestamp,
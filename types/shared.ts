@@ -20,8 +20,38 @@ export interface UserSettings {
     suggestion_frequency: 'high' | 'medium' | 'low';
     auto_reschedule: boolean;
   };
+  schedule_preferences?: Partial<SchedulePreferences>;
+  travel_preferences?: Partial<TravelPreferences>;
 }
 
+// 自動スケジューリング設定
+export interface SchedulePreferences {
+  working_hours: { start: string; end: string };  // HH:mm
+  working_days: number[];                          // 0 (日) 〜 6 (土)
+  breaks: { start: string; end: string }[];        // 昼休みなど、タスクを置かない時間帯
+  buffer_minutes: number;                          // 予定・タスクの前後に空ける時間
+  min_block_minutes: number;                       // これより短い空き時間は使わない
+  default_task_minutes: number;                    // 所要時間未設定のタスクに使う時間
+  time_blocking: boolean;                          // 配置したタスクをGoogle Calendarに時間ブロックとして登録
+  time_block_calendar_id: string;                  // 時間ブロックを登録するGoogleカレンダー（既定: primary）
+}
+
+// 移動時間の見積もりに使う拠点と移動手段
+export interface TravelPreferences {
+  home: TravelLocation | null;
+  office: TravelLocation | null;
+  default_base: TravelBase;          // 予定ごとの出発地が未設定の場合の出発地
+  default_mode: TravelMode;          // 予定ごとの移動手段が未設定の場合の移動手段
+  arrival_buffer_minutes: number;    // 「出発」リマインダーで開始前に着くための余裕
+}
+
+export interface TravelLocation {
+  address: string;                   // ルーティングプロバイダーに渡す住所・地名
+  label?: string;                    // 表示名（例: 本社）
+}
+
+export type TravelBase = 'home' | 'office';
+
 // Enum型の定義（型安全性向上）
 export const TaskPriority = {
   HIGH: 'high',
@@ -38,6 +68,29 @@ export const TaskStatus = {
 } as const;
 export type TaskStatus = typeof TaskStatus[keyof typeof TaskStatus];
 
+export const RecurrenceFrequency = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly'
+} as const;
+export type RecurrenceFrequency = typeof RecurrenceFrequency[keyof typeof RecurrenceFrequency];
+
+export const CalendarProviderType = {
+  GOOGLE: 'google',
+  CALDAV: 'caldav'
+} as const;
+export type CalendarProviderType = typeof CalendarProviderType[keyof typeof CalendarProviderType];
+
+export const TravelMode = {
+  NONE: 'none',          // 移動なし（オンライン会議など）
+  WALKING: 'walking',
+  BICYCLING: 'bicycling',
+  TRANSIT: 'transit',
+  DRIVING: 'driving'
+} as const;
+export type TravelMode = typeof TravelMode[keyof typeof TravelMode];
+
 export const NotificationType = {
   REMINDER: 'reminder',
   SUGGESTION: 'suggestion',
@@ -51,6 +104,8 @@ export interface User {
   email: EmailAddress;
   google_refresh_token?: string | null;
   settings?: UserSettings | null;
+  time_zone?: string;   // IANAのタイムゾーン名（既定: Asia/Tokyo）
+  locale?: string;      // 日時の表示に使うロケール（既定: ja-JP）
   created_at: Timestamp;
   updated_at: Timestamp;
 }
@@ -64,6 +119,12 @@ export interface CalendarEvent {
   start_time: Timestamp;
   end_time: Timestamp;
   location?: string | null;
+  event_source?: string;               // google_calendar / caldav / ics_import
+  external_uid?: string | null;        // .ics から取り込んだ予定のUID
+  calendar_connection_id?: UUID | null; // CalDAVの予定の接続先
+  travel_mode?: TravelMode | null;      // 未設定の場合は travel_preferences.default_mode
+  travel_origin?: TravelBase | null;    // 未設定の場合は travel_preferences.default_base
+  travel_minutes?: number | null;       // 出発地からの移動時間の見積もり（移動しない・見積もれない場合は null）
   created_at: Timestamp;
   updated_at: Timestamp;
 }
@@ -78,10 +139,49 @@ export interface Task {
   estimated_time?: number | null; // minutes
   due_date?: Timestamp | null;
   related_event_id?: UUID | null;
+  recurrence_rule?: RecurrenceRule | null;        // 繰り返しシリーズのテンプレートのみ
+  recurrence_parent_id?: UUID | null;             // 繰り返しインスタンスの親テンプレート
+  recurrence_instance_date?: string | null;       // インスタンスの発生日 YYYY-MM-DD
+  calendar_event_id?: string | null;              // 時間ブロックとして登録したGoogleイベントID
+  parent_task_id?: UUID | null;                   // サブタスクの親タスク
+  tags?: string[];                                // 小文字のタグ（検索式の tag: で絞り込み）
   created_at: Timestamp;
   updated_at: Timestamp;
 }
 
+// タスク間の依存関係（task_id は depends_on_task_id の完了を待つ）
+export interface TaskDependency {
+  task_id: UUID;
+  depends_on_task_id: UUID;
+}
+
+// 未完了の前提タスク（ブロックの原因）
+export interface BlockingTask {
+  id: UUID;
+  title: string;
+  status: TaskStatus;
+}
+
+// サブタスクから集計した親タスクの進捗
+export interface SubtaskSummary {
+  total: number;              // キャンセルを除く末端のサブタスク数
+  completed: number;
+  progress: number;           // 0 〜 1
+  estimated_minutes: number;
+  actual_minutes: number;
+}
+
+// 繰り返しルール（RFC 5545 RRULE のサブセット）
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;          // 1 = 毎回, 2 = 隔回 ...
+  byWeekday?: number[];      // 0 (日) 〜 6 (土)。weekly のみ
+  byMonthDay?: number[];     // 1 〜 31、-1 = 月末。monthly のみ
+  count?: number;            // 発生回数の上限
+  until?: string;            // YYYY-MM-DD（この日を含む）
+  exceptions?: string[];     // スキップする日付 YYYY-MM-DD（EXDATE相当）
+}
+
 export interface Notification {
   id: UUID;
   user_id: UUID;
@@ -124,8 +224,8 @@ export interface APIError {
   details?: Record<string, unknown>;
 }
 
-// Google Calendar API型
-export interface GoogleCalendarEvent {
+// 外部カレンダーのイベント型（Google Calendar API の形式を全プロバイダーで共通に使う）
+export interface CalendarProviderEvent {
   id: string;
   summary: string;
   description?: string;
@@ -138,8 +238,20 @@ export interface GoogleCalendarEvent {
     timeZone?: string;
   };
   location?: string;
+  status?: 'confirmed' | 'tentative' | 'cancelled';
+  etag?: string;
+  updated?: string;          // カレンダー側の最終更新日時
+  extendedProperties?: {
+    private?: Record<string, string>;  // アプリが付与したマーカー（タスクの時間ブロックなど）
+  };
+  provider?: CalendarProviderType;
+  calendarId?: string;       // Google のカレンダーID（メインは 'primary'）
+  color?: string;            // 表示色（カレンダーの設定色）
 }
 
+// Google Calendar API型
+export type GoogleCalendarEvent = CalendarProviderEvent;
+
 // フォーム型（入力検証用）
 export interface TaskFormData {
   title: string;